@@ -1,14 +1,16 @@
 import type { Metadata } from "next";
 
+import { UsageMeter } from "@/components/billing/usage-meter";
+
 export const metadata: Metadata = {
   title: "Billing | Replily",
   description: "Manage your subscription and billing",
 };
 
 /**
- * Render the billing settings UI including current plan, upgrade pricing, and payment history.
+ * Render the billing settings UI including current plan, AI usage, upgrade pricing, and payment history.
  *
- * Displays a header, a current plan summary, a pricing card with features and an upgrade action, and a payment history section.
+ * Displays a header, a current plan summary, the organization's AI usage this month, a pricing card with features and an upgrade action, and a payment history section.
  *
  * @returns The React element for the billing page.
  */
@@ -45,6 +47,9 @@ export default function BillingPage() {
         </div>
       </section>
 
+      {/* AI Usage */}
+      <UsageMeter />
+
       {/* Pricing */}
       <section className="p-6 bg-surface rounded-lg border border-border">
         <h2 className="text-lg font-semibold text-foreground">
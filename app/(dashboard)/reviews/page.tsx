@@ -2,8 +2,13 @@ import type { Metadata } from "next";
 import { redirect } from "next/navigation";
 
 import { GenerateResponseButton } from "@/components/reviews/generate-response-button";
-import { ReviewCard } from "@/components/reviews/review-card";
+import {
+  ReviewCard,
+  type ReviewCardReply,
+} from "@/components/reviews/review-card";
 import { ReviewsFilters } from "@/components/reviews/reviews-filters";
+import { isReviewLanguage } from "@/lib/reviews/language";
+import { isValidTag, listTagOptions } from "@/lib/reviews/tags";
 import { createServerSupabaseClient } from "@/lib/supabase/server";
 import type { Review } from "@/lib/supabase/types";
 
@@ -40,7 +45,7 @@ function EmptyStateIcon() {
 /**
  * Valid status filter values
  */
-const VALID_STATUSES = ["pending", "responded", "ignored"] as const;
+const VALID_STATUSES = ["pending", "responded", "ignored", "deleted"] as const;
 
 /**
  * Location data included in review queries
@@ -52,10 +57,18 @@ interface ReviewLocation {
 }
 
 /**
- * Review with joined location data from Supabase query
+ * Tag joined from review_tags
+ */
+interface ReviewTagRow {
+  tag: string;
+}
+
+/**
+ * Review with joined location and tag data from Supabase query
  */
 type ReviewWithLocation = Review & {
   locations: ReviewLocation | null;
+  review_tags: ReviewTagRow[];
 };
 
 /**
@@ -71,6 +84,21 @@ function isValidReviewLocation(value: unknown): value is ReviewLocation {
   );
 }
 
+/**
+ * Type guard to validate that a value is a list of ReviewTagRow
+ */
+function isValidReviewTags(value: unknown): value is ReviewTagRow[] {
+  return (
+    Array.isArray(value) &&
+    value.every(
+      (row) =>
+        row !== null &&
+        typeof row === "object" &&
+        typeof (row as Record<string, unknown>).tag === "string",
+    )
+  );
+}
+
 /**
  * Type guard to validate that a value is a valid ReviewWithLocation
  */
@@ -97,6 +125,9 @@ function isValidReviewWithLocation(
     (review.review_date === null ||
       review.review_date === undefined ||
       typeof review.review_date === "string") &&
+    (review.language === null ||
+      review.language === undefined ||
+      typeof review.language === "string") &&
     (review.has_response === null ||
       review.has_response === undefined ||
       typeof review.has_response === "boolean") &&
@@ -106,6 +137,26 @@ function isValidReviewWithLocation(
     (review.sentiment === null ||
       review.sentiment === undefined ||
       typeof review.sentiment === "string") &&
+    (review.sentiment_confidence === null ||
+      review.sentiment_confidence === undefined ||
+      typeof review.sentiment_confidence === "number") &&
+    (review.sentiment_source === null ||
+      review.sentiment_source === undefined ||
+      typeof review.sentiment_source === "string") &&
+    (review.sentiment_aspects === undefined ||
+      Array.isArray(review.sentiment_aspects)) &&
+    (review.sentiment_analyzed_at === null ||
+      review.sentiment_analyzed_at === undefined ||
+      typeof review.sentiment_analyzed_at === "string") &&
+    (review.escalation_reason === null ||
+      review.escalation_reason === undefined ||
+      typeof review.escalation_reason === "string") &&
+    (review.escalation_detail === null ||
+      review.escalation_detail === undefined ||
+      typeof review.escalation_detail === "string") &&
+    (review.escalated_at === null ||
+      review.escalated_at === undefined ||
+      typeof review.escalated_at === "string") &&
     (review.created_at === null ||
       review.created_at === undefined ||
       typeof review.created_at === "string") &&
@@ -115,9 +166,16 @@ function isValidReviewWithLocation(
     (review.platform === null ||
       review.platform === undefined ||
       typeof review.platform === "string") &&
+    (review.deleted_at === null ||
+      review.deleted_at === undefined ||
+      typeof review.deleted_at === "string") &&
+    (review.last_seen_at === null ||
+      review.last_seen_at === undefined ||
+      typeof review.last_seen_at === "string") &&
     (review.locations === null ||
       review.locations === undefined ||
-      isValidReviewLocation(review.locations))
+      isValidReviewLocation(review.locations)) &&
+    (review.review_tags === undefined || isValidReviewTags(review.review_tags))
   );
 }
 
@@ -136,12 +194,22 @@ function mapToReviewWithLocation(raw: unknown): ReviewWithLocation | null {
     rating: raw.rating ?? null,
     review_text: raw.review_text ?? null,
     review_date: raw.review_date ?? null,
+    language: raw.language ?? null,
     has_response: raw.has_response ?? null,
     status: raw.status ?? null,
     sentiment: raw.sentiment ?? null,
+    sentiment_confidence: raw.sentiment_confidence ?? null,
+    sentiment_source: raw.sentiment_source ?? null,
+    sentiment_aspects: raw.sentiment_aspects ?? [],
+    sentiment_analyzed_at: raw.sentiment_analyzed_at ?? null,
+    escalation_reason: raw.escalation_reason ?? null,
+    escalation_detail: raw.escalation_detail ?? null,
+    escalated_at: raw.escalated_at ?? null,
     created_at: raw.created_at ?? null,
     location_id: raw.location_id ?? null,
     platform: raw.platform ?? null,
+    deleted_at: raw.deleted_at ?? null,
+    last_seen_at: raw.last_seen_at ?? null,
     locations: raw.locations
       ? {
           id: raw.locations.id,
@@ -149,6 +217,7 @@ function mapToReviewWithLocation(raw: unknown): ReviewWithLocation | null {
           google_location_id: raw.locations.google_location_id,
         }
       : null,
+    review_tags: raw.review_tags ?? [],
   };
 }
 
@@ -156,18 +225,24 @@ function mapToReviewWithLocation(raw: unknown): ReviewWithLocation | null {
  * Reviews page Server Component that fetches and displays Google Business reviews.
  *
  * Fetches reviews from Supabase filtered by the user's organization and optional
- * URL search params (status, rating). Renders ReviewCard components for each review
- * and provides functional filters via ReviewsFilters client component.
+ * URL search params (status, rating, tag, language). Renders ReviewCard components for each review,
+ * listing pending reviews flagged for a human response first, and provides functional
+ * filters via ReviewsFilters client component.
  *
- * @param searchParams - URL search parameters for filtering (status, rating)
+ * @param searchParams - URL search parameters for filtering (status, rating, tag, language)
  * @returns The JSX element representing the Reviews page
  */
 export default async function ReviewsPage({
   searchParams,
 }: {
   searchParams:
-    | Promise<{ status?: string; rating?: string }>
-    | { status?: string; rating?: string };
+    | Promise<{
+        status?: string;
+        rating?: string;
+        tag?: string;
+        language?: string;
+      }>
+    | { status?: string; rating?: string; tag?: string; language?: string };
 }) {
   const supabase = await createServerSupabaseClient();
 
@@ -216,6 +291,28 @@ export default async function ReviewsPage({
     searchParams instanceof Promise ? await searchParams : searchParams;
   const status = params.status;
   const rating = params.rating;
+  const tag = params.tag;
+  const language = params.language;
+
+  // Get the organization's own tags for the topic filter
+  const { data: organizationTags, error: organizationTagsError } =
+    await supabase
+      .from("organization_tags")
+      .select("tag, label, keywords")
+      .eq("organization_id", userData.organization_id);
+
+  if (organizationTagsError) {
+    // The built-in tags can still be filtered on
+    console.error(
+      "Failed to fetch organization tags:",
+      organizationTagsError.message,
+    );
+  }
+
+  const tagOptions = listTagOptions(organizationTags ?? []);
+  const tagLabels = new Map(
+    tagOptions.map((option) => [option.tag, option.label]),
+  );
 
   // Get location IDs for this organization
   const { data: locations, error: locationsError } = await supabase
@@ -252,6 +349,9 @@ export default async function ReviewsPage({
           <ReviewsFilters
             currentStatus={status ?? null}
             currentRating={rating ?? null}
+            currentTag={tag ?? null}
+            currentLanguage={language ?? null}
+            tagOptions={tagOptions}
           />
         </div>
         <div className="p-12 bg-surface rounded-lg border border-border text-center">
@@ -279,16 +379,32 @@ export default async function ReviewsPage({
       rating,
       review_text,
       review_date,
+      language,
       has_response,
       status,
       sentiment,
+      sentiment_confidence,
+      sentiment_source,
+      sentiment_aspects,
+      sentiment_analyzed_at,
+      escalation_reason,
+      escalation_detail,
+      escalated_at,
       created_at,
       location_id,
       platform,
+      deleted_at,
+      last_seen_at,
       locations!inner (
         id,
         name,
         google_location_id
+      ),
+      review_tags (
+        tag
+      ),
+      tag_filter:review_tags (
+        tag
       )
     `,
       { count: "exact" },
@@ -311,6 +427,16 @@ export default async function ReviewsPage({
     }
   }
 
+  // Filter on a second embed of review_tags so matching reviews still show
+  // all of their tags
+  if (tag && isValidTag(tag)) {
+    query = query.eq("tag_filter.tag", tag).not("tag_filter", "is", null);
+  }
+
+  if (isReviewLanguage(language)) {
+    query = query.eq("language", language);
+  }
+
   // Execute query
   const { data: reviews, error: reviewsError } = await query;
 
@@ -340,16 +466,67 @@ export default async function ReviewsPage({
     rating: review.rating,
     review_text: review.review_text,
     review_date: review.review_date,
+    language: review.language,
     has_response: review.has_response,
     status: review.status,
     sentiment: review.sentiment,
+    sentiment_confidence: review.sentiment_confidence,
+    sentiment_source: review.sentiment_source,
+    sentiment_aspects: review.sentiment_aspects,
+    sentiment_analyzed_at: review.sentiment_analyzed_at,
+    escalation_reason: review.escalation_reason,
+    escalation_detail: review.escalation_detail,
+    escalated_at: review.escalated_at,
     created_at: review.created_at,
     location_id: review.location_id,
     // Default to "google" since the app targets Google Business profiles; missing platform values should be treated as Google
     platform: review.platform ?? "google",
+    deleted_at: review.deleted_at,
+    last_seen_at: review.last_seen_at,
   }));
 
-  const hasActiveFilters = Boolean(status || rating);
+  // Reviews still waiting on a human response go first (sort is stable, so
+  // each group keeps newest-first order)
+  const needsHumanResponse = (review: Review) =>
+    review.escalation_reason !== null &&
+    (review.status ?? "pending") === "pending";
+  transformedReviews.sort(
+    (a, b) => Number(needsHumanResponse(b)) - Number(needsHumanResponse(a)),
+  );
+
+  // Load published replies (including ones written directly on Google)
+  const repliesByReview = new Map<string, ReviewCardReply>();
+  if (transformedReviews.length > 0) {
+    const { data: replies, error: repliesError } = await supabase
+      .from("responses")
+      .select("review_id, source, final_text, google_reply_text")
+      .in(
+        "review_id",
+        transformedReviews.map((review) => review.id),
+      )
+      .eq("status", "published");
+
+    if (repliesError) {
+      // Reviews are still useful without their replies
+      console.error("Failed to fetch replies:", repliesError.message);
+    }
+
+    for (const reply of replies ?? []) {
+      if (reply.review_id) {
+        repliesByReview.set(reply.review_id, reply);
+      }
+    }
+  }
+
+  // Tag labels shown on each review card
+  const tagsByReview = new Map(
+    typedReviews.map((review) => [
+      review.id,
+      review.review_tags.map((row) => tagLabels.get(row.tag) ?? row.tag),
+    ]),
+  );
+
+  const hasActiveFilters = Boolean(status || rating || tag);
   const hasReviews = transformedReviews.length > 0;
 
   return (
@@ -364,7 +541,13 @@ export default async function ReviewsPage({
         </div>
 
         {/* Filters */}
-        <ReviewsFilters currentStatus={status} currentRating={rating} />
+        <ReviewsFilters
+          currentStatus={status}
+          currentRating={rating}
+          currentTag={tag}
+          currentLanguage={language}
+          tagOptions={tagOptions}
+        />
       </div>
 
       {/* Reviews List or Empty State */}
@@ -374,14 +557,18 @@ export default async function ReviewsPage({
             <ReviewCard
               key={review.id}
               review={review}
+              reply={repliesByReview.get(review.id) ?? null}
+              tags={tagsByReview.get(review.id) ?? []}
               generateResponseButton={
                 (review.status ?? "pending") === "pending" ? (
                   <GenerateResponseButton
                     reviewId={review.id}
+                    escalated={review.escalation_reason !== null}
                     reviewSummary={{
                       reviewerName: review.reviewer_name,
                       rating: review.rating,
                       reviewText: review.review_text,
+                      language: review.language,
                     }}
                   />
                 ) : undefined
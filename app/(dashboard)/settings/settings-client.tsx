@@ -2,8 +2,11 @@
 
 import { useCallback, useEffect, useRef, useState } from "react";
 
+import { BusinessFacts } from "@/components/settings/business-facts";
 import { GoogleConnectButton } from "@/components/settings/google-connect-button";
 import { LocationSelector } from "@/components/settings/location-selector";
+import { OrganizationAlerts } from "@/components/settings/organization-alerts";
+import { VoiceProfileSuggestions } from "@/components/settings/voice-profile-suggestions";
 import { ToneQuiz } from "@/components/voice-profile/tone-quiz";
 import type { CustomTone } from "@/lib/types/custom-tone";
 
@@ -18,13 +21,15 @@ const TONE_OPTIONS = [
 const DEFAULT_TONE = TONE_OPTIONS[0]?.value ?? "";
 
 /**
- * Renders the Settings client UI for managing account integrations, connected locations,
- * voice profile, and notification preferences.
+ * Renders the Settings client UI for managing account integrations (with any organization
+ * alerts, such as a lost Google connection), connected locations, voice profile, and
+ * notification preferences.
  *
  * The component loads the user's email notification preference on mount, provides
  * controls to toggle email notifications with optimistic UI and error handling,
  * and exposes a voice profile form (tone, personality notes, sign-off) with client-side
- * validation and a save action that persists changes to the server.
+ * validation and a save action that persists changes to the server, followed by any
+ * voice profile suggestions learned from the team's edits to AI drafts.
  *
  * @returns The Settings screen as a React element
  */
@@ -327,7 +332,8 @@ export function SettingsClient() {
         <p className="mt-1 text-sm text-foreground-secondary">
           Connect your Google account to fetch and respond to reviews
         </p>
-        <div className="mt-4">
+        <div className="mt-4 space-y-4">
+          <OrganizationAlerts />
           <GoogleConnectButton />
         </div>
       </section>
@@ -506,6 +512,22 @@ export function SettingsClient() {
             {status.message ?? ""}
           </output>
         </div>
+
+        <VoiceProfileSuggestions />
+      </section>
+
+      {/* Business Facts */}
+      <section className="p-6 bg-surface rounded-lg border border-border">
+        <h2 className="text-lg font-semibold text-foreground">
+          Business Facts
+        </h2>
+        <p className="mt-1 text-sm text-foreground-secondary">
+          Hours, policies, and other details responses can mention when a review
+          asks about them
+        </p>
+        <div className="mt-4">
+          <BusinessFacts />
+        </div>
       </section>
 
       {/* Tone Quiz Modal - See ADR-027 for native dialog pattern */}
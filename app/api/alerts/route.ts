@@ -0,0 +1,70 @@
+import { NextResponse } from "next/server";
+
+import { createServerSupabaseClient } from "@/lib/supabase/server";
+import type { OrganizationAlert } from "@/lib/supabase/types";
+
+/**
+ * Alert data returned from the API
+ */
+type AlertData = Pick<OrganizationAlert, "type" | "message" | "raised_at">;
+
+/**
+ * GET /api/alerts - Fetch open alerts for the user's organization
+ *
+ * Alerts are raised by background jobs for problems that affect the whole
+ * organization, such as no user having a valid Google connection.
+ *
+ * @returns JSON with `alerts` array (newest first), or error with appropriate status
+ */
+export async function GET() {
+  try {
+    const supabase = await createServerSupabaseClient();
+
+    // Verify authentication
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    // Get user's organization
+    const { data: userData, error: userError } = await supabase
+      .from("users")
+      .select("organization_id")
+      .eq("id", user.id)
+      .single();
+
+    if (userError || !userData) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    // Users without an organization have no locations to alert about
+    if (!userData.organization_id) {
+      return NextResponse.json({ alerts: [] });
+    }
+
+    const { data: alerts, error: alertsError } = await supabase
+      .from("organization_alerts")
+      .select("type, message, raised_at")
+      .eq("organization_id", userData.organization_id)
+      .order("raised_at", { ascending: false });
+
+    if (alertsError) {
+      console.error("Failed to fetch alerts:", alertsError.message);
+      return NextResponse.json(
+        { error: "Failed to load alerts" },
+        { status: 500 },
+      );
+    }
+
+    return NextResponse.json({ alerts: (alerts ?? []) as AlertData[] });
+  } catch (error) {
+    console.error("Alerts API error:", error);
+    return NextResponse.json(
+      { error: "Failed to load alerts" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,248 @@
+import type { NextRequest } from "next/server";
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+import {
+  BUSINESS_FACT_CATEGORIES,
+  MAX_FACT_CONTENT_LENGTH,
+  MAX_FACT_KEYWORDS,
+} from "@/lib/reviews/business-facts";
+import { createServerSupabaseClient } from "@/lib/supabase/server";
+import type { BusinessFactUpdate } from "@/lib/supabase/types";
+
+/**
+ * Zod schema for validating PATCH /api/business-facts/[factId] request body
+ */
+const updateBusinessFactSchema = z
+  .object({
+    category: z.enum(BUSINESS_FACT_CATEGORIES),
+    title: z.string().trim().min(1).max(100),
+    content: z.string().trim().min(1).max(MAX_FACT_CONTENT_LENGTH),
+    keywords: z
+      .array(z.string().trim().toLowerCase().min(1).max(50))
+      .max(MAX_FACT_KEYWORDS),
+    location_id: z.uuid().nullable(),
+  })
+  .partial()
+  .refine((body) => Object.keys(body).length > 0);
+
+/**
+ * Request body for PATCH /api/business-facts/[factId]
+ */
+type UpdateBusinessFactBody = z.infer<typeof updateBusinessFactSchema>;
+
+/**
+ * Columns returned for each fact
+ */
+const FACT_COLUMNS =
+  "id, location_id, category, title, content, keywords, updated_at";
+
+/**
+ * PATCH /api/business-facts/[factId]
+ *
+ * Updates a business fact. Only the fields sent are changed; `location_id`
+ * null makes the fact apply to every location.
+ *
+ * @param request - Request whose JSON body contains any of `category`, `title`, `content`, `keywords`, and `location_id`
+ * @param params - Route params containing the fact ID
+ * @returns JSON object with the updated fact, or error with appropriate status
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ factId: string }> },
+) {
+  try {
+    const { factId } = await params;
+
+    if (!z.uuid().safeParse(factId).success) {
+      return NextResponse.json({ error: "Fact not found" }, { status: 404 });
+    }
+
+    const supabase = await createServerSupabaseClient();
+
+    // Verify authentication
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    // Get user's organization
+    const { data: userData, error: userError } = await supabase
+      .from("users")
+      .select("organization_id")
+      .eq("id", user.id)
+      .single();
+
+    if (userError || !userData) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    if (!userData.organization_id) {
+      return NextResponse.json(
+        { error: "Organization not found" },
+        { status: 404 },
+      );
+    }
+    const organizationId = userData.organization_id;
+
+    // Parse and validate request body
+    let body: UpdateBusinessFactBody;
+    try {
+      const rawBody = await request.json();
+      const parseResult = updateBusinessFactSchema.safeParse(rawBody);
+      if (!parseResult.success) {
+        return NextResponse.json(
+          { error: "Invalid request body" },
+          { status: 400 },
+        );
+      }
+      body = parseResult.data;
+    } catch {
+      return NextResponse.json(
+        { error: "Invalid request body: JSON parsing failed" },
+        { status: 400 },
+      );
+    }
+
+    if (body.location_id) {
+      const { data: location, error: locationError } = await supabase
+        .from("locations")
+        .select("id")
+        .eq("id", body.location_id)
+        .eq("organization_id", organizationId)
+        .maybeSingle();
+
+      if (locationError) {
+        console.error("Error fetching location:", locationError);
+        return NextResponse.json(
+          { error: "Failed to update business fact" },
+          { status: 500 },
+        );
+      }
+
+      if (!location) {
+        return NextResponse.json(
+          { error: "Location not found" },
+          { status: 400 },
+        );
+      }
+    }
+
+    // Build update object with only provided fields (filter out undefined values)
+    const updateData = Object.fromEntries(
+      Object.entries(body).filter(([, value]) => value !== undefined),
+    ) as BusinessFactUpdate;
+    if (body.keywords) {
+      updateData.keywords = [...new Set(body.keywords)];
+    }
+
+    const { data: updated, error: updateError } = await supabase
+      .from("business_facts")
+      .update({ ...updateData, updated_at: new Date().toISOString() })
+      .eq("id", factId)
+      .eq("organization_id", organizationId)
+      .select(FACT_COLUMNS)
+      .maybeSingle();
+
+    if (updateError) {
+      console.error("Error updating business fact:", updateError);
+      return NextResponse.json(
+        { error: "Failed to update business fact" },
+        { status: 500 },
+      );
+    }
+
+    if (!updated) {
+      return NextResponse.json({ error: "Fact not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ fact: updated });
+  } catch (error) {
+    console.error("Business fact PATCH error:", error);
+    return NextResponse.json(
+      { error: "Failed to update business fact" },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * DELETE /api/business-facts/[factId]
+ *
+ * Removes a business fact. Drafts already written keep any text based on it.
+ *
+ * @param _request - The incoming request (unused)
+ * @param params - Route params containing the fact ID
+ * @returns JSON object confirming deletion, or error with appropriate status
+ */
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ factId: string }> },
+) {
+  try {
+    const { factId } = await params;
+
+    if (!z.uuid().safeParse(factId).success) {
+      return NextResponse.json({ error: "Fact not found" }, { status: 404 });
+    }
+
+    const supabase = await createServerSupabaseClient();
+
+    // Verify authentication
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    // Get user's organization
+    const { data: userData, error: userError } = await supabase
+      .from("users")
+      .select("organization_id")
+      .eq("id", user.id)
+      .single();
+
+    if (userError || !userData) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    if (!userData.organization_id) {
+      return NextResponse.json(
+        { error: "Organization not found" },
+        { status: 404 },
+      );
+    }
+
+    const { data: deleted, error: deleteError } = await supabase
+      .from("business_facts")
+      .delete()
+      .eq("id", factId)
+      .eq("organization_id", userData.organization_id)
+      .select("id");
+
+    if (deleteError) {
+      console.error("Error deleting business fact:", deleteError);
+      return NextResponse.json(
+        { error: "Failed to delete business fact" },
+        { status: 500 },
+      );
+    }
+
+    if (!deleted || deleted.length === 0) {
+      return NextResponse.json({ error: "Fact not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Business fact DELETE error:", error);
+    return NextResponse.json(
+      { error: "Failed to delete business fact" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,254 @@
+import type { NextRequest } from "next/server";
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+import {
+  BUSINESS_FACT_CATEGORIES,
+  MAX_BUSINESS_FACTS,
+  MAX_FACT_CONTENT_LENGTH,
+  MAX_FACT_KEYWORDS,
+} from "@/lib/reviews/business-facts";
+import { createServerSupabaseClient } from "@/lib/supabase/server";
+
+/**
+ * Zod schema for validating POST /api/business-facts request body
+ */
+const createBusinessFactSchema = z.object({
+  category: z.enum(BUSINESS_FACT_CATEGORIES),
+  title: z.string().trim().min(1).max(100),
+  content: z.string().trim().min(1).max(MAX_FACT_CONTENT_LENGTH),
+  keywords: z
+    .array(z.string().trim().toLowerCase().min(1).max(50))
+    .max(MAX_FACT_KEYWORDS)
+    .default([]),
+  location_id: z.uuid().nullable().default(null),
+});
+
+/**
+ * Request body for POST /api/business-facts
+ */
+type CreateBusinessFactBody = z.infer<typeof createBusinessFactSchema>;
+
+/**
+ * Columns returned for each fact
+ */
+const FACT_COLUMNS =
+  "id, location_id, category, title, content, keywords, updated_at";
+
+/**
+ * GET /api/business-facts
+ *
+ * Fetches the organization's business facts, with its active locations so
+ * facts can be tied to one of them.
+ *
+ * @returns JSON object with `facts` and `locations` (`id`, `name`), or error with appropriate status
+ */
+export async function GET() {
+  try {
+    const supabase = await createServerSupabaseClient();
+
+    // Verify authentication
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    // Get user's organization
+    const { data: userData, error: userError } = await supabase
+      .from("users")
+      .select("organization_id")
+      .eq("id", user.id)
+      .single();
+
+    if (userError || !userData) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    if (!userData.organization_id) {
+      return NextResponse.json(
+        { error: "Organization not found" },
+        { status: 404 },
+      );
+    }
+
+    const [
+      { data: facts, error: factsError },
+      { data: locations, error: locationsError },
+    ] = await Promise.all([
+      supabase
+        .from("business_facts")
+        .select(FACT_COLUMNS)
+        .eq("organization_id", userData.organization_id)
+        .order("created_at", { ascending: true }),
+      supabase
+        .from("locations")
+        .select("id, name")
+        .eq("organization_id", userData.organization_id)
+        .eq("is_active", true)
+        .order("name", { ascending: true }),
+    ]);
+
+    if (factsError || locationsError) {
+      console.error(
+        "Error fetching business facts:",
+        factsError ?? locationsError,
+      );
+      return NextResponse.json(
+        { error: "Failed to fetch business facts" },
+        { status: 500 },
+      );
+    }
+
+    return NextResponse.json({
+      facts: facts ?? [],
+      locations: locations ?? [],
+    });
+  } catch (error) {
+    console.error("Business facts GET error:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch business facts" },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * POST /api/business-facts
+ *
+ * Adds a fact about the business. Drafts for reviews that share words with
+ * the fact, its keywords, or its category can mention it. Facts apply to
+ * every location unless `location_id` names one.
+ *
+ * @param request - Request whose JSON body contains `category`, `title`, `content`, and optional `keywords` and `location_id`
+ * @returns JSON object with the created fact, or error with appropriate status
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createServerSupabaseClient();
+
+    // Verify authentication
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    // Get user's organization
+    const { data: userData, error: userError } = await supabase
+      .from("users")
+      .select("organization_id")
+      .eq("id", user.id)
+      .single();
+
+    if (userError || !userData) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    if (!userData.organization_id) {
+      return NextResponse.json(
+        { error: "Organization not found" },
+        { status: 404 },
+      );
+    }
+    const organizationId = userData.organization_id;
+
+    // Parse and validate request body
+    let body: CreateBusinessFactBody;
+    try {
+      const rawBody = await request.json();
+      const parseResult = createBusinessFactSchema.safeParse(rawBody);
+      if (!parseResult.success) {
+        return NextResponse.json(
+          { error: "Invalid request body" },
+          { status: 400 },
+        );
+      }
+      body = parseResult.data;
+    } catch {
+      return NextResponse.json(
+        { error: "Invalid request body: JSON parsing failed" },
+        { status: 400 },
+      );
+    }
+
+    if (body.location_id) {
+      const { data: location, error: locationError } = await supabase
+        .from("locations")
+        .select("id")
+        .eq("id", body.location_id)
+        .eq("organization_id", organizationId)
+        .maybeSingle();
+
+      if (locationError) {
+        console.error("Error fetching location:", locationError);
+        return NextResponse.json(
+          { error: "Failed to create business fact" },
+          { status: 500 },
+        );
+      }
+
+      if (!location) {
+        return NextResponse.json(
+          { error: "Location not found" },
+          { status: 400 },
+        );
+      }
+    }
+
+    const { count, error: countError } = await supabase
+      .from("business_facts")
+      .select("id", { count: "exact", head: true })
+      .eq("organization_id", organizationId);
+
+    if (countError) {
+      console.error("Error counting business facts:", countError);
+      return NextResponse.json(
+        { error: "Failed to create business fact" },
+        { status: 500 },
+      );
+    }
+
+    if ((count ?? 0) >= MAX_BUSINESS_FACTS) {
+      return NextResponse.json(
+        {
+          error: `Organizations can keep up to ${MAX_BUSINESS_FACTS} business facts`,
+        },
+        { status: 400 },
+      );
+    }
+
+    const { data: created, error: insertError } = await supabase
+      .from("business_facts")
+      .insert({
+        organization_id: organizationId,
+        location_id: body.location_id,
+        category: body.category,
+        title: body.title,
+        content: body.content,
+        keywords: [...new Set(body.keywords)],
+      })
+      .select(FACT_COLUMNS)
+      .single();
+
+    if (insertError) {
+      console.error("Error creating business fact:", insertError);
+      return NextResponse.json(
+        { error: "Failed to create business fact" },
+        { status: 500 },
+      );
+    }
+
+    return NextResponse.json({ fact: created }, { status: 201 });
+  } catch (error) {
+    console.error("Business facts POST error:", error);
+    return NextResponse.json(
+      { error: "Failed to create business fact" },
+      { status: 500 },
+    );
+  }
+}
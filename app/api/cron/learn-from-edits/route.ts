@@ -0,0 +1,189 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { NextRequest } from "next/server";
+import { NextResponse } from "next/server";
+import { acquireCronLease, releaseCronLease } from "@/lib/cron/lease";
+import {
+  learnFromEdits,
+  selectOrganizationsToLearn,
+} from "@/lib/reviews/edit-learning";
+import { createAdminSupabaseClient } from "@/lib/supabase/server";
+import { typedUpdate } from "@/lib/supabase/typed-helpers";
+import type { Database } from "@/lib/supabase/types";
+
+/**
+ * Lease held by each run so overlapping invocations don't analyze the same organizations
+ */
+const LEARN_LEASE_NAME = "learn-from-edits";
+
+/**
+ * Lease lifetime in seconds if a run never releases it (e.g. it crashed).
+ * Longer than Vercel's 60-second execution cap; the job runs hourly.
+ */
+const LEARN_LEASE_TTL_SECONDS = 300;
+
+/**
+ * Time budget for analyzing organizations per cron invocation (in milliseconds).
+ * Vercel caps execution at 60 seconds; organizations not reached are still due
+ * on the next invocation.
+ */
+const LEARN_TIME_BUDGET_MS = 45000;
+
+/**
+ * Turns the edits managers make to AI drafts into voice profile suggestions.
+ *
+ * This handler is intended to run as an hourly cron job and will:
+ * - verify an optional cron secret for authorization,
+ * - acquire the learn-from-edits lease, skipping the run if another invocation holds it,
+ * - for each organization not analyzed in the last day (least recently analyzed first, until the
+ *   45-second time budget runs out), compare the drafts and published text of replies published
+ *   in the last 90 days, suggesting phrases removed from at least 3 replies as words to avoid,
+ *   phrases added to at least 3 as words to use, and replies rewritten or written by hand for 4-5
+ *   star reviews as example responses (see lib/reviews/edit-learning.ts),
+ * - save new suggestions as pending in voice_profile_suggestions for users to accept or dismiss in settings, and
+ * - record when each organization was analyzed in organizations.edits_learned_at, so the next run resumes with the rest.
+ *
+ * An organization that fails is reported in `errors` without stopping the others.
+ *
+ * @returns A JSON NextResponse containing either a success payload with metrics (`organizationsProcessed`, `organizationsRemaining`, `budgetExhausted`, `responsesAnalyzed`, `responsesEdited`, `averageEditDistance`, `suggestionsCreated`), `errors`, `duration`, and `timestamp`, or an error payload with an appropriate HTTP status (401 for unauthorized, 500 for failures).
+ */
+export async function GET(request: NextRequest) {
+  const startTime = Date.now();
+  const results = {
+    organizationsProcessed: 0,
+    organizationsRemaining: 0,
+    budgetExhausted: false,
+    responsesAnalyzed: 0,
+    responsesEdited: 0,
+    averageEditDistance: null as number | null,
+    suggestionsCreated: 0,
+    errors: [] as string[],
+  };
+
+  try {
+    // Verify cron secret for security
+    const authHeader = request.headers.get("authorization");
+    const cronSecret = process.env.CRON_SECRET;
+
+    if (cronSecret && authHeader !== `Bearer ${cronSecret}`) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const supabase: SupabaseClient<Database> = createAdminSupabaseClient();
+
+    const { lease, error: leaseError } = await acquireCronLease(
+      supabase,
+      LEARN_LEASE_NAME,
+      LEARN_LEASE_TTL_SECONDS,
+    );
+
+    if (leaseError) {
+      console.error("Failed to acquire edit learning lease:", leaseError);
+      return NextResponse.json(
+        { error: "Failed to acquire edit learning lease" },
+        { status: 500 },
+      );
+    }
+
+    if (!lease) {
+      return NextResponse.json({
+        success: true,
+        skipped: true,
+        message: "Another edit learning run is in progress",
+        ...results,
+        duration: Date.now() - startTime,
+      });
+    }
+
+    try {
+      const { data: organizations, error: orgsError } = await supabase
+        .from("organizations")
+        .select("id, edits_learned_at");
+
+      if (orgsError) {
+        console.error("Failed to fetch organizations:", orgsError.message);
+        return NextResponse.json(
+          { error: "Failed to fetch organizations" },
+          { status: 500 },
+        );
+      }
+
+      const now = new Date();
+      const due = selectOrganizationsToLearn(organizations ?? [], now);
+      let totalEditDistance = 0;
+
+      for (const [index, organization] of due.entries()) {
+        if (Date.now() - startTime >= LEARN_TIME_BUDGET_MS) {
+          results.budgetExhausted = true;
+          results.organizationsRemaining = due.length - index;
+          break;
+        }
+
+        const { result, error } = await learnFromEdits(
+          supabase,
+          organization.id,
+          now,
+        );
+
+        // Failed organizations move to the back too, so one that keeps failing
+        // doesn't use up every run's budget
+        const { error: stampError } = await typedUpdate(
+          supabase,
+          "organizations",
+          { edits_learned_at: new Date().toISOString() },
+        ).eq("id", organization.id);
+        if (stampError) {
+          // It is analyzed again next run; suggestions already made are not repeated
+          console.error(
+            `Failed to record edit learning time for organization ${organization.id}:`,
+            stampError.message,
+          );
+        }
+
+        if (error || !result) {
+          console.error(
+            `Failed to learn from edits for organization ${organization.id}:`,
+            error,
+          );
+          results.errors.push(`Organization ${organization.id}: ${error}`);
+          continue;
+        }
+
+        results.organizationsProcessed += 1;
+        results.responsesAnalyzed += result.responsesAnalyzed;
+        results.responsesEdited += result.responsesEdited;
+        results.suggestionsCreated += result.suggestionsCreated;
+        totalEditDistance +=
+          (result.averageEditDistance ?? 0) * result.responsesEdited;
+      }
+
+      results.averageEditDistance =
+        results.responsesEdited > 0
+          ? totalEditDistance / results.responsesEdited
+          : null;
+
+      return NextResponse.json({
+        success: true,
+        message: "Edit learning cron job completed",
+        ...results,
+        duration: Date.now() - startTime,
+        timestamp: new Date().toISOString(),
+      });
+    } finally {
+      const { error: releaseError } = await releaseCronLease(supabase, lease);
+      if (releaseError) {
+        // The lease expires on its own; the next run just waits for it
+        console.error("Failed to release edit learning lease:", releaseError);
+      }
+    }
+  } catch (error: unknown) {
+    console.error("Learn from edits cron error:", error);
+    return NextResponse.json(
+      {
+        error: "Cron job failed",
+        ...results,
+        duration: Date.now() - startTime,
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -1,17 +1,56 @@
-import { createHash } from "node:crypto";
 import type { SupabaseClient } from "@supabase/supabase-js";
 import type { NextRequest } from "next/server";
 import { NextResponse } from "next/server";
-
-import { decryptToken, TokenDecryptionError } from "@/lib/crypto/encryption";
+import {
+  GOOGLE_CONNECTION_ALERT,
+  raiseOrganizationAlerts,
+  resolveOrganizationAlerts,
+} from "@/lib/alerts/organization-alerts";
+import { acquireCronLease, releaseCronLease } from "@/lib/cron/lease";
 import {
   fetchReviews,
   GoogleAPIError,
-  refreshAccessToken,
+  getGoogleRateLimitRetryAfter,
+  isGoogleRateLimitError,
+  withAccessTokenRetry,
 } from "@/lib/google/client";
+import {
+  createConnectionState,
+  type GoogleConnection,
+  getConnectionAccessToken,
+  orderConnections,
+} from "@/lib/google/connections";
+import { getBackfillLimit, runLocationBackfill } from "@/lib/reviews/backfill";
+import { escalateReviews } from "@/lib/reviews/escalation";
+import { buildReviewRows, laterTimestamp } from "@/lib/reviews/ingest";
+import {
+  getPollHealthUpdate,
+  type PollOutcome,
+} from "@/lib/reviews/poll-health";
+import {
+  type SchedulableLocation,
+  scheduleLocationsToPoll,
+} from "@/lib/reviews/poll-schedule";
+import { syncGoogleReplies } from "@/lib/reviews/replies";
+import {
+  findReviewEdits,
+  markMissingReviewsDeleted,
+  recordReviewChanges,
+  STORED_REVIEW_COLUMNS,
+  type StoredReviewSnapshot,
+} from "@/lib/reviews/revisions";
+import {
+  analyzeReviewSentiment,
+  toReviewsToAnalyze,
+} from "@/lib/reviews/sentiment";
+import { tagReviews } from "@/lib/reviews/tags";
 import { createAdminSupabaseClient } from "@/lib/supabase/server";
 import { typedUpdate, typedUpsert } from "@/lib/supabase/typed-helpers";
-import type { Database, ReviewInsert } from "@/lib/supabase/types";
+import type {
+  Database,
+  LocationBackfill,
+  ReviewRevisionInsert,
+} from "@/lib/supabase/types";
 
 /**
  * Maximum number of locations to process per cron invocation
@@ -20,9 +59,45 @@ import type { Database, ReviewInsert } from "@/lib/supabase/types";
 const MAX_LOCATIONS_PER_RUN = 50;
 
 /**
- * Valid sentiment values for reviews
+ * Time budget for fetching review pages per cron invocation (in milliseconds).
+ * Vercel caps execution at 60 seconds; stopping early leaves room to persist
+ * pagination cursors so large accounts resume on the next invocation.
+ */
+const POLL_TIME_BUDGET_MS = 45000;
+
+/**
+ * Poll outcome recorded when fetched reviews can't be saved. A database error
+ * has no Google status, so it counts as a failure without backing off.
+ */
+const SAVE_REVIEWS_FAILURE: PollOutcome = {
+  ok: false,
+  status: null,
+  message: "Failed to save reviews",
+};
+
+/**
+ * Lease held by each run so overlapping invocations don't poll the same locations
+ */
+const POLL_LEASE_NAME = "poll-reviews";
+
+/**
+ * Lease lifetime in seconds if a run never releases it (e.g. it crashed).
+ * Comfortably longer than the time budget, shorter than the 5-minute cron interval.
+ */
+const POLL_LEASE_TTL_SECONDS = 120;
+
+/**
+ * How often each location gets a complete fetch (in milliseconds). Regular polls
+ * stop at the high-water mark, so only complete fetches can tell which stored
+ * reviews no longer exist on Google.
+ */
+const FULL_SCAN_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Alert shown to organizations whose locations can't be polled with any user's Google connection
  */
-type Sentiment = "positive" | "neutral" | "negative";
+const NO_GOOGLE_CONNECTION_MESSAGE =
+  "No valid Google connection: review syncing has stopped. Reconnect Google in Settings.";
 
 /**
  * Location data from database query
@@ -33,6 +108,8 @@ interface LocationQueryResult {
   google_location_id: string;
   name: string;
   organization_id: string | null;
+  created_at: string | null;
+  google_connection_user_id: string | null;
 }
 
 /**
@@ -45,109 +122,39 @@ interface UserQueryResult {
 }
 
 /**
- * Location with user data for polling
+ * Location with the user whose Google connection is tried first when polling it
  */
 interface LocationWithUser {
   id: string;
   google_account_id: string;
   google_location_id: string;
   name: string;
+  organization_id: string;
   user_id: string;
-  google_refresh_token: string;
+  google_connection_user_id: string | null;
 }
 
 /**
- * Time window tolerance for tier scheduling (in minutes).
- * Allows cron jobs that run slightly early or late to still process correctly.
+ * Pollable location with the inputs needed to schedule it
  */
-const TIME_WINDOW_TOLERANCE_MINUTES = 2;
+interface SchedulableLocationWithUser
+  extends LocationWithUser,
+    SchedulableLocation {}
 
 /**
- * Tier scheduling configuration:
- * - interval: target processing interval in minutes
- * - minIntervalSinceLastProcess: minimum time since last processing to allow new run (prevents duplicates)
+ * Per-location pagination state from location_poll_state
  */
-const TIER_CONFIG = {
-  agency: { interval: 5, minIntervalSinceLastProcess: 3 }, // Every 5 min, but wait at least 3 min since last
-  growth: { interval: 10, minIntervalSinceLastProcess: 8 }, // Every 10 min, but wait at least 8 min since last
-  starter: { interval: 15, minIntervalSinceLastProcess: 13 }, // Every 15 min, but wait at least 13 min since last
-} as const;
-
-/**
- * Determines if a tier should be processed using resilient time-window checks with best-effort deduplication.
- *
- * APPROACH (B): Time-window check with last-processed timestamp deduplication
- *
- * This approach replaces exact minute alignment with:
- * 1. Time window check: Accepts runs within +/- TIME_WINDOW_TOLERANCE_MINUTES of target minutes
- * 2. Last-processed timestamp: Reduces duplicate processing by checking when tier was last processed
- * 3. Best-effort deduplication: Uses timestamp checks to minimize duplicate runs, but does not provide
- *    strict single-run guarantees. Two overlapping cron invocations may both process the same tier if
- *    they read the same old last_processed_at value before either completes. This is acceptable because
- *    review upserts are idempotent by external_review_id.
- *
- * Benefits over exact-minute approach:
- * - Resilient to cron timing variations (early/late runs)
- * - Reduces duplicate processing via timestamp tracking
- * - Handles clock skew and delayed executions gracefully
- * - Acceptable duplicate processing is safe due to idempotent review upserts
- *
- * - 'agency' (highest tier): approximately every 5 minutes using a resilient time window with best‑effort deduplication based on last_processed timestamps (allows slight early/late runs within a TIME_WINDOW_TOLERANCE)
- * - 'growth' (mid tier): approximately every 10 minutes using a resilient time window with best‑effort deduplication based on last_processed timestamps (allows slight early/late runs within a TIME_WINDOW_TOLERANCE)
- * - 'starter' (low tier): approximately every 15 minutes using a resilient time window with best‑effort deduplication based on last_processed timestamps (allows slight early/late runs within a TIME_WINDOW_TOLERANCE)
- *
- * @param planTier - The organization's plan tier ('agency', 'growth', 'starter', or null for starter)
- * @param currentTime - Current timestamp (for testing)
- * @param lastProcessedAt - Timestamp when this tier was last processed (from database)
- * @returns true if this tier should be processed in this cron run
- */
-function shouldProcessForTier(
-  planTier: string | null,
-  currentTime: Date,
-  lastProcessedAt: Date | null,
-): boolean {
-  // Normalize tier: null/unknown tiers default to 'starter'
-  const tier =
-    planTier === "agency" || planTier === "growth" ? planTier : "starter";
-  const config = TIER_CONFIG[tier];
-
-  // Agency tier: always process if enough time has passed since last run
-  if (tier === "agency") {
-    if (!lastProcessedAt) return true;
-    const minutesSinceLastProcess =
-      (currentTime.getTime() - lastProcessedAt.getTime()) / (1000 * 60);
-    return minutesSinceLastProcess >= config.minIntervalSinceLastProcess;
-  }
-
-  // For growth and starter tiers: check both time window AND last processed timestamp
-  const currentMinute = currentTime.getMinutes();
-  // Calculate target minutes: 0, interval, 2*interval, 3*interval, etc. up to 60
-  const targetMinutes: number[] = [];
-  for (let m = 0; m < 60; m += config.interval) {
-    targetMinutes.push(m);
-  }
-
-  // Check if current minute is within tolerance window of any target minute
-  const isWithinTimeWindow = targetMinutes.some((targetMin) => {
-    const diff = Math.abs(currentMinute - targetMin);
-    // Handle wrap-around (e.g., 59 -> 0)
-    const wrappedDiff = Math.min(diff, 60 - diff);
-    return wrappedDiff <= TIME_WINDOW_TOLERANCE_MINUTES;
-  });
-
-  if (!isWithinTimeWindow) {
-    return false;
-  }
-
-  // Additional deduplication: ensure we haven't processed too recently
-  if (lastProcessedAt) {
-    const minutesSinceLastProcess =
-      (currentTime.getTime() - lastProcessedAt.getTime()) / (1000 * 60);
-    return minutesSinceLastProcess >= config.minIntervalSinceLastProcess;
-  }
-
-  // No previous processing recorded, allow this run
-  return true;
+interface LocationPollStateQueryResult {
+  location_id: string;
+  high_water_mark: string | null;
+  pending_high_water_mark: string | null;
+  next_page_token: string | null;
+  last_polled_at: string | null;
+  full_scan_started_at: string | null;
+  last_full_scan_at: string | null;
+  consecutive_failures: number;
+  consecutive_not_found: number;
+  next_retry_at: string | null;
 }
 
 /**
@@ -155,23 +162,54 @@ function shouldProcessForTier(
  *
  * This handler is intended to run as a cron job (configured to run every 5 minutes) and will:
  * - verify an optional cron secret for authorization,
- * - fetch active locations and filter them based on organization plan tier:
- *   - 'agency' tier: approximately every 5 minutes using a resilient time window with best‑effort deduplication based on last_processed timestamps (allows slight early/late runs within a TIME_WINDOW_TOLERANCE)
- *   - 'growth' tier: approximately every 10 minutes using a resilient time window with best‑effort deduplication based on last_processed timestamps (allows slight early/late runs within a TIME_WINDOW_TOLERANCE)
- *   - 'starter' tier: approximately every 15 minutes using a resilient time window with best‑effort deduplication based on last_processed timestamps (allows slight early/late runs within a TIME_WINDOW_TOLERANCE)
- * - fetch associated users with Google refresh tokens for filtered locations,
- * - refresh access tokens per user and fetch reviews for each of their locations,
- * - upsert retrieved reviews (deduplicated by external_review_id) and infer sentiment from rating,
- * - clear expired refresh tokens for users if detected, and
+ * - acquire the poll-reviews lease, skipping the run if another invocation holds it,
+ * - fetch active locations whose organization has a user with a Google refresh token, raising a
+ *   "no valid Google connection" organization alert for organizations that have none,
+ * - schedule locations by time since their own last poll (location_poll_state.last_polled_at) against their
+ *   plan tier's interval (agency 5, growth 10, starter 15 minutes), polling the most overdue first and
+ *   leaving the rest (reported as `backlogDepth`) for later runs once MAX_LOCATIONS_PER_RUN is reached,
+ * - refresh access tokens per user and fetch reviews for each of their locations, starting with the user
+ *   recorded on the location (locations.google_connection_user_id) and falling back to the organization's
+ *   other connected users when a refresh token is revoked (401) or unreadable,
+ * - follow review pages until reaching the location's high-water mark (newest review already stored),
+ *   saving a cursor in location_poll_state when the per-run time budget runs out so the next run resumes,
+ * - continue unfinished first-sync backfills (location_backfills) instead of polling those locations,
+ * - upsert retrieved reviews (deduplicated by external_review_id) and classify the sentiment of new and
+ *   edited reviews from their text (Claude, falling back to keyword matching), tagging them with the
+ *   aspects they mention and the organization's own tags, and flagging those that need a human response
+ *   (legal threats, health or safety incidents, discrimination, staff misconduct),
+ * - save the owner reply live on Google for each review into responses (source 'external' when written outside Replily),
+ * - record review_revisions for reviews whose rating or text changed, and once a day per location walk
+ *   every page (ignoring the high-water mark) to mark reviews missing from Google as deleted; responses
+ *   to changed reviews are flagged with review_changed_at,
+ * - track per-location health (consecutive failures, last Google error, last success) in location_poll_state,
+ *   backing off exponentially after repeated 403/404/5xx errors and deactivating locations that keep returning 404,
+ * - record the user whose connection polled each location, clear expired refresh tokens, and resolve the
+ *   organization alert once a connection works again, and
  * - return accumulated metrics and any errors encountered.
  *
- * @returns A JSON NextResponse containing either a success payload with metrics (`locationsProcessed`, `reviewsProcessed`), `errors`, `duration`, and `timestamp`, or an error payload with an appropriate HTTP status (401 for unauthorized, 500 for failures).
+ * Each run holds the poll-reviews lease (cron_leases) while it works; an invocation that starts while
+ * another holds it returns immediately with `skipped: true`.
+ *
+ * @returns A JSON NextResponse containing either a success payload with metrics (`locationsProcessed`, `reviewsProcessed`, `pagesFetched`, `budgetExhausted`, `rateLimited`, `reviewsEdited`, `reviewsAnalyzed`, `reviewsEscalated`, `reviewsDeleted`, `repliesSynced`, `locationsDeactivated`, `organizationsDisconnected`, `backlogDepth`, `oldestStalenessMinutes`), `errors`, `duration`, and `timestamp`, or an error payload with an appropriate HTTP status (401 for unauthorized, 500 for failures).
  */
 export async function GET(request: NextRequest) {
   const startTime = Date.now();
   const results = {
     locationsProcessed: 0,
     reviewsProcessed: 0,
+    pagesFetched: 0,
+    budgetExhausted: false,
+    rateLimited: false,
+    reviewsEdited: 0,
+    reviewsAnalyzed: 0,
+    reviewsEscalated: 0,
+    reviewsDeleted: 0,
+    repliesSynced: 0,
+    locationsDeactivated: 0,
+    organizationsDisconnected: 0,
+    backlogDepth: 0,
+    oldestStalenessMinutes: null as number | null,
     errors: [] as string[],
   };
 
@@ -186,405 +224,823 @@ export async function GET(request: NextRequest) {
 
     const supabase: SupabaseClient<Database> = createAdminSupabaseClient();
 
-    // Get all active locations with their users' refresh tokens
-    // Join through organizations to get user data
-    const { data: locations, error: locationsError } = await supabase
-      .from("locations")
-      .select(`
-        id,
-        google_account_id,
-        google_location_id,
-        name,
-        organization_id
-      `)
-      .eq("is_active", true)
-      .limit(MAX_LOCATIONS_PER_RUN);
-
-    if (locationsError) {
-      console.error("Failed to fetch locations:", locationsError.message);
+    // Hold the lease for the whole run so overlapping invocations skip instead of polling twice
+    const { lease, error: leaseError } = await acquireCronLease(
+      supabase,
+      POLL_LEASE_NAME,
+      POLL_LEASE_TTL_SECONDS,
+    );
+
+    if (leaseError) {
+      console.error("Failed to acquire poll lease:", leaseError);
       return NextResponse.json(
-        { error: "Failed to fetch locations" },
+        { error: "Failed to acquire poll lease" },
         { status: 500 },
       );
     }
 
-    if (!locations || locations.length === 0) {
+    if (!lease) {
       return NextResponse.json({
         success: true,
-        message: "No active locations to poll",
+        skipped: true,
+        message: "Another poll reviews run is in progress",
         ...results,
         duration: Date.now() - startTime,
       });
     }
 
-    // Type assertion: locations is an array of LocationQueryResult
-    const typedLocations = locations as LocationQueryResult[];
-
-    // Get unique organization IDs (filter out nulls)
-    const orgIds = [
-      ...new Set(
-        typedLocations
-          .map((l) => l.organization_id)
-          .filter((id): id is string => id !== null),
-      ),
-    ];
-
-    // Fetch organizations to get plan_tier for tier-based filtering
-    const { data: organizations, error: orgsError } = await supabase
-      .from("organizations")
-      .select("id, plan_tier")
-      .in("id", orgIds);
-
-    if (orgsError) {
-      console.error("Failed to fetch organizations:", orgsError.message);
-      return NextResponse.json(
-        { error: "Failed to fetch organizations" },
-        { status: 500 },
-      );
-    }
+    try {
+      // Get all active locations; the scheduler below decides which to poll this run
+      const { data: locations, error: locationsError } = await supabase
+        .from("locations")
+        .select(`
+          id,
+          google_account_id,
+          google_location_id,
+          name,
+          organization_id,
+          created_at,
+          google_connection_user_id
+        `)
+        .eq("is_active", true);
+
+      if (locationsError) {
+        console.error("Failed to fetch locations:", locationsError.message);
+        return NextResponse.json(
+          { error: "Failed to fetch locations" },
+          { status: 500 },
+        );
+      }
 
-    // Create a map of organization_id to plan_tier
-    const orgTierMap = new Map<string, string | null>();
-    for (const org of organizations ?? []) {
-      orgTierMap.set(org.id, org.plan_tier);
-    }
+      if (!locations || locations.length === 0) {
+        return NextResponse.json({
+          success: true,
+          message: "No active locations to poll",
+          ...results,
+          duration: Date.now() - startTime,
+        });
+      }
 
-    // Fetch last processed timestamps for each tier from cron_poll_state table
-    const { data: pollStateData, error: pollStateError } = await supabase
-      .from("cron_poll_state")
-      .select("tier, last_processed_at");
+      // Type assertion: locations is an array of LocationQueryResult
+      const typedLocations = locations as LocationQueryResult[];
+
+      // Get unique organization IDs (filter out nulls)
+      const orgIds = [
+        ...new Set(
+          typedLocations
+            .map((l) => l.organization_id)
+            .filter((id): id is string => id !== null),
+        ),
+      ];
+
+      // Fetch organizations to get plan_tier for tier-based scheduling
+      const { data: organizations, error: orgsError } = await supabase
+        .from("organizations")
+        .select("id, plan_tier")
+        .in("id", orgIds);
+
+      if (orgsError) {
+        console.error("Failed to fetch organizations:", orgsError.message);
+        return NextResponse.json(
+          { error: "Failed to fetch organizations" },
+          { status: 500 },
+        );
+      }
 
-    if (pollStateError) {
-      console.error("Failed to fetch cron poll state:", pollStateError.message);
-      // Continue with processing - if table doesn't exist yet, we'll process all tiers
-      // This allows graceful degradation during migration
-    }
+      // Create a map of organization_id to plan_tier
+      const orgTierMap = new Map<string, string | null>();
+      for (const org of organizations ?? []) {
+        orgTierMap.set(org.id, org.plan_tier);
+      }
 
-    // Create a map of tier to last_processed_at timestamp
-    const tierLastProcessedMap = new Map<string, Date | null>();
-    for (const state of pollStateData ?? []) {
-      if (state.tier && state.last_processed_at) {
-        tierLastProcessedMap.set(state.tier, new Date(state.last_processed_at));
-      } else {
-        tierLastProcessedMap.set(state.tier ?? "starter", null);
+      // Get users with refresh tokens for these organizations
+      const { data: users, error: usersError } = await supabase
+        .from("users")
+        .select("id, organization_id, google_refresh_token")
+        .in("organization_id", orgIds)
+        .not("google_refresh_token", "is", null);
+
+      if (usersError) {
+        console.error("Failed to fetch users:", usersError.message);
+        return NextResponse.json(
+          { error: "Failed to fetch users" },
+          { status: 500 },
+        );
       }
-    }
 
-    // Ensure all tiers have entries (default to null if not found)
-    for (const tier of ["agency", "growth", "starter"] as const) {
-      if (!tierLastProcessedMap.has(tier)) {
-        tierLastProcessedMap.set(tier, null);
+      // Type assertion: users is an array of UserQueryResult
+      const typedUsers = (users ?? []) as UserQueryResult[];
+
+      // Every connected user per organization, in query order (the fallback order)
+      const orgToConnections = new Map<string, GoogleConnection[]>();
+      for (const user of typedUsers) {
+        if (user.organization_id && user.google_refresh_token) {
+          const connections = orgToConnections.get(user.organization_id) ?? [];
+          connections.push({
+            user_id: user.id,
+            google_refresh_token: user.google_refresh_token,
+          });
+          orgToConnections.set(user.organization_id, connections);
+        }
       }
-    }
 
-    const currentTime = new Date();
-
-    // Precompute and cache tier processing decisions once per run to avoid recomputing per location
-    const allowedToProcessTier = new Map<string, boolean>();
-    for (const tier of ["agency", "growth", "starter"] as const) {
-      const lastProcessedAt = tierLastProcessedMap.get(tier) ?? null;
-      // Use the tier directly (not planTier) since we're computing per tier
-      const planTier = tier === "starter" ? null : tier;
-      allowedToProcessTier.set(
-        tier,
-        shouldProcessForTier(planTier, currentTime, lastProcessedAt),
+      // Organizations with active locations but nobody connected can't sync at all
+      const unconnectedOrgIds = orgIds.filter(
+        (id) => !orgToConnections.has(id),
       );
-    }
+      if (unconnectedOrgIds.length > 0) {
+        results.organizationsDisconnected += unconnectedOrgIds.length;
+        for (const orgId of unconnectedOrgIds) {
+          results.errors.push(
+            `Organization ${orgId}: No valid Google connection`,
+          );
+        }
+        const { error: alertError } = await raiseOrganizationAlerts(
+          supabase,
+          GOOGLE_CONNECTION_ALERT,
+          unconnectedOrgIds,
+          NO_GOOGLE_CONNECTION_MESSAGE,
+        );
+        if (alertError) {
+          console.error(
+            "Failed to raise Google connection alerts:",
+            alertError,
+          );
+          results.errors.push(
+            "Warning: Failed to update Google connection alerts",
+          );
+        }
+      }
 
-    // Filter locations based on tier-based polling schedule with resilient time-window checks
-    const locationsToProcess = typedLocations.filter((location) => {
-      if (!location.organization_id) return false;
-      const planTier = orgTierMap.get(location.organization_id) ?? null;
-      const tier =
-        planTier === "agency" || planTier === "growth" ? planTier : "starter";
-      return allowedToProcessTier.get(tier) ?? false;
-    });
-
-    // Track which tiers we're processing in this run for atomic timestamp updates
-    const tiersToUpdate = new Set<string>();
-    for (const location of locationsToProcess) {
-      if (!location.organization_id) continue;
-      const planTier = orgTierMap.get(location.organization_id) ?? null;
-      const tier =
-        planTier === "agency" || planTier === "growth" ? planTier : "starter";
-      tiersToUpdate.add(tier);
-    }
+      // Fetch polling history, cursors, and high-water marks for every active location
+      const { data: locationPollStateData, error: locationPollStateError } =
+        await supabase
+          .from("location_poll_state")
+          .select(
+            "location_id, high_water_mark, pending_high_water_mark, next_page_token, last_polled_at, full_scan_started_at, last_full_scan_at, consecutive_failures, consecutive_not_found, next_retry_at",
+          )
+          .in(
+            "location_id",
+            typedLocations.map((l) => l.id),
+          );
 
-    if (locationsToProcess.length === 0) {
-      return NextResponse.json({
-        success: true,
-        message:
-          "No locations to process in this polling cycle (tier-based scheduling)",
-        ...results,
-        duration: Date.now() - startTime,
-        timestamp: new Date().toISOString(),
-      });
-    }
+      if (locationPollStateError) {
+        console.error(
+          "Failed to fetch location poll state:",
+          locationPollStateError.message,
+        );
+        // Continue with processing - without state every location is treated as never polled
+        // and starts from the newest page
+      }
 
-    // Get unique organization IDs from filtered locations (filter out nulls)
-    const filteredOrgIds = [
-      ...new Set(
-        locationsToProcess
-          .map((l) => l.organization_id)
-          .filter((id): id is string => id !== null),
-      ),
-    ];
-
-    // Get users with refresh tokens for these organizations
-    const { data: users, error: usersError } = await supabase
-      .from("users")
-      .select("id, organization_id, google_refresh_token")
-      .in("organization_id", filteredOrgIds)
-      .not("google_refresh_token", "is", null);
-
-    if (usersError) {
-      console.error("Failed to fetch users:", usersError.message);
-      return NextResponse.json(
-        { error: "Failed to fetch users" },
-        { status: 500 },
+      const locationPollStateMap = new Map<
+        string,
+        LocationPollStateQueryResult
+      >();
+      for (const state of (locationPollStateData ??
+        []) as LocationPollStateQueryResult[]) {
+        locationPollStateMap.set(state.location_id, state);
+      }
+
+      // Only locations we can authenticate for are scheduled, so unpollable
+      // locations never crowd out the per-run cap
+      const candidates: SchedulableLocationWithUser[] = [];
+      for (const location of typedLocations) {
+        if (!location.organization_id || !location.id) continue;
+        const [user] = orderConnections(
+          orgToConnections.get(location.organization_id) ?? [],
+          location.google_connection_user_id,
+        );
+        if (!user) continue;
+
+        candidates.push({
+          id: location.id,
+          google_account_id: location.google_account_id,
+          google_location_id: location.google_location_id,
+          name: location.name,
+          organization_id: location.organization_id,
+          user_id: user.user_id,
+          google_connection_user_id: location.google_connection_user_id,
+          plan_tier: orgTierMap.get(location.organization_id) ?? null,
+          last_polled_at:
+            locationPollStateMap.get(location.id)?.last_polled_at ?? null,
+          created_at: location.created_at,
+          next_retry_at:
+            locationPollStateMap.get(location.id)?.next_retry_at ?? null,
+        });
+      }
+
+      const schedule = scheduleLocationsToPoll(
+        candidates,
+        new Date(),
+        MAX_LOCATIONS_PER_RUN,
       );
-    }
+      results.backlogDepth = schedule.backlogDepth;
+      results.oldestStalenessMinutes = schedule.oldestStalenessMinutes;
+
+      if (schedule.selected.length === 0) {
+        return NextResponse.json({
+          success: true,
+          message:
+            "No locations to process in this polling cycle (tier-based scheduling)",
+          ...results,
+          duration: Date.now() - startTime,
+          timestamp: new Date().toISOString(),
+        });
+      }
 
-    // Type assertion: users is an array of UserQueryResult
-    const typedUsers = (users ?? []) as UserQueryResult[];
-
-    // Create a map of organization_id to user with refresh token
-    // Keep the first user found per organization (deterministic behavior)
-    const orgToUser = new Map<
-      string,
-      { id: string; google_refresh_token: string }
-    >();
-    for (const user of typedUsers) {
-      if (user.organization_id && user.google_refresh_token) {
-        if (!orgToUser.has(user.organization_id)) {
-          orgToUser.set(user.organization_id, {
-            id: user.id,
-            google_refresh_token: user.google_refresh_token,
-          });
-        }
+      // Group locations by user to minimize token refreshes
+      // (Map preserves insertion order, so the most overdue locations are polled first)
+      const locationsByUser = new Map<string, LocationWithUser[]>();
+      for (const location of schedule.selected) {
+        const existing = locationsByUser.get(location.user_id) ?? [];
+        existing.push(location);
+        locationsByUser.set(location.user_id, existing);
       }
-    }
 
-    // Build list of locations with user data (use filtered locations)
-    const locationsWithUsers: LocationWithUser[] = [];
-    for (const location of locationsToProcess) {
-      if (!location.organization_id || !location.id) continue;
-      const user = orgToUser.get(location.organization_id);
-      if (!user) continue;
-
-      locationsWithUsers.push({
-        id: location.id,
-        google_account_id: location.google_account_id,
-        google_location_id: location.google_location_id,
-        name: location.name,
-        user_id: user.id,
-        google_refresh_token: user.google_refresh_token,
-      });
-    }
+      // Locations with an unfinished first-sync backfill continue the import instead of polling
+      const { data: backfillData, error: backfillError } = await supabase
+        .from("location_backfills")
+        .select("*")
+        .in(
+          "location_id",
+          schedule.selected.map((l) => l.id),
+        )
+        .in("status", ["pending", "running"]);
+
+      if (backfillError) {
+        console.error(
+          "Failed to fetch location backfills:",
+          backfillError.message,
+        );
+      }
 
-    // Group locations by user to minimize token refreshes
-    const locationsByUser = new Map<string, LocationWithUser[]>();
-    for (const location of locationsWithUsers) {
-      const existing = locationsByUser.get(location.user_id) ?? [];
-      existing.push(location);
-      locationsByUser.set(location.user_id, existing);
-    }
+      const backfillMap = new Map<string, LocationBackfill>();
+      for (const backfill of (backfillData ?? []) as LocationBackfill[]) {
+        backfillMap.set(backfill.location_id, backfill);
+      }
+
+      // Tokens refreshed and connections found invalid are shared across user groups
+      const connectionState = createConnectionState();
+      const connectedOrgIds = new Set<string>();
+      const disconnectedOrgIds = new Set<string>();
+
+      // Process each user's locations
+      for (const [userId, userLocations] of locationsByUser) {
+        const firstLocation = userLocations[0];
+        if (!firstLocation) continue;
+
+        // Remaining locations are picked up by the next invocation
+        if (results.budgetExhausted || results.rateLimited) break;
+
+        // Start with this user and fall back to teammates if their token was revoked
+        const organizationId = firstLocation.organization_id;
+        const connection = await getConnectionAccessToken(
+          supabase,
+          orderConnections(orgToConnections.get(organizationId) ?? [], userId),
+          connectionState,
+        );
+        results.errors.push(...connection.errors);
+
+        if (!connection.accessToken || !connection.userId) {
+          if (connection.noValidConnection) {
+            disconnectedOrgIds.add(organizationId);
+          }
+          continue;
+        }
 
-    // Process each user's locations
-    for (const [userId, userLocations] of locationsByUser) {
-      const firstLocation = userLocations[0];
-      if (!firstLocation) continue;
+        let accessToken = connection.accessToken;
+        const connectionUserId = connection.userId;
+        connectedOrgIds.add(organizationId);
+        // Locations polled with a different user's connection than the one recorded
+        const reassignedLocationIds: string[] = [];
+
+        // Google can reject a cached access token before it expires (e.g. access was
+        // revoked and granted again): refresh it and use the new one from then on
+        const renewAccessToken = async (): Promise<string> => {
+          const renewed = await getConnectionAccessToken(
+            supabase,
+            (orgToConnections.get(organizationId) ?? []).filter(
+              (c) => c.user_id === connectionUserId,
+            ),
+            connectionState,
+            { forceRefresh: true },
+          );
+          results.errors.push(...renewed.errors);
+          if (!renewed.accessToken) {
+            throw new GoogleAPIError(
+              401,
+              "Google authentication expired. Please reconnect your account.",
+            );
+          }
+          accessToken = renewed.accessToken;
+          return accessToken;
+        };
+
+        // Poll reviews for each location
+        for (const location of userLocations) {
+          if (Date.now() - startTime >= POLL_TIME_BUDGET_MS) {
+            results.budgetExhausted = true;
+            break;
+          }
 
-      let accessToken: string;
+          // The connection was revoked mid-run; the next run falls back to a teammate's
+          if (connectionState.invalidUserIds.has(connectionUserId)) {
+            break;
+          }
 
-      try {
-        // Decrypt the stored refresh token
-        let decryptedToken: string;
-        try {
-          decryptedToken = decryptToken(firstLocation.google_refresh_token);
-        } catch (error: unknown) {
-          if (error instanceof TokenDecryptionError) {
-            console.error(
-              `Failed to decrypt Google refresh token for user ${userId}:`,
-              error.message,
+          // Google is rate-limiting the whole project, so every remaining request would fail too
+          if (getGoogleRateLimitRetryAfter() > 0) {
+            results.rateLimited = true;
+            break;
+          }
+
+          const backfill = backfillMap.get(location.id);
+          if (backfill) {
+            const progress = await runLocationBackfill(
+              supabase,
+              accessToken,
+              location,
+              backfill,
+              {
+                targetCount: getBackfillLimit(
+                  orgTierMap.get(location.organization_id) ?? null,
+                ),
+                deadline: startTime + POLL_TIME_BUDGET_MS,
+              },
             );
-            results.errors.push(
-              `User ${userId}: Token decryption failed - data may be corrupted`,
+            results.locationsProcessed++;
+            results.reviewsProcessed += Math.max(
+              0,
+              progress.imported_count - backfill.imported_count,
             );
-            // Clear the corrupted token
-            await typedUpdate(supabase, "users", {
-              google_refresh_token: null,
-            }).eq("id", userId);
+            if (progress.last_error) {
+              results.errors.push(
+                `Location ${location.name}: Backfill - ${progress.last_error}`,
+              );
+            } else if (
+              location.google_connection_user_id !== connectionUserId
+            ) {
+              reassignedLocationIds.push(location.id);
+            }
             continue;
           }
-          throw error;
-        }
 
-        // Get fresh access token for this user
-        accessToken = await refreshAccessToken(decryptedToken);
-      } catch (error: unknown) {
-        const message =
-          error instanceof GoogleAPIError
-            ? error.message
-            : "Token refresh failed";
-        results.errors.push(`User ${userId}: ${message}`);
-
-        // If token is expired, clear it from database
-        if (error instanceof GoogleAPIError && error.status === 401) {
-          await typedUpdate(supabase, "users", {
-            google_refresh_token: null,
-          }).eq("id", userId);
-        }
-        continue;
-      }
+          const pollState = locationPollStateMap.get(location.id);
+          const highWaterMark = pollState?.high_water_mark ?? null;
+          // Resume an unfinished pass from its cursor, otherwise start from the newest page
+          let pageToken = pollState?.next_page_token ?? undefined;
+          let pendingHighWaterMark = pageToken
+            ? (pollState?.pending_high_water_mark ?? null)
+            : null;
+          // A complete fetch ignores the high-water mark and walks every page so
+          // reviews deleted on Google can be detected once it reaches the last page
+          const lastFullScanAt = pollState?.last_full_scan_at ?? null;
+          let fullScanStartedAt = pageToken
+            ? (pollState?.full_scan_started_at ?? null)
+            : lastFullScanAt === null ||
+                Date.now() - Date.parse(lastFullScanAt) >= FULL_SCAN_INTERVAL_MS
+              ? new Date().toISOString()
+              : null;
+          let fullScanCompleted = false;
+          let pagesFetched = 0;
+          let caughtUp = false;
+          let fetchAttempted = false;
+          let fetchFailure: PollOutcome | null = null;
+          let fetchRateLimited = false;
+
+          try {
+            while (!caughtUp) {
+              if (Date.now() - startTime >= POLL_TIME_BUDGET_MS) {
+                results.budgetExhausted = true;
+                break;
+              }
 
-      // Poll reviews for each location
-      for (const location of userLocations) {
-        try {
-          const { reviews } = await fetchReviews(
-            accessToken,
-            location.google_account_id,
-            location.google_location_id,
-          );
+              fetchAttempted = true;
+              const { reviews, nextPageToken } = await withAccessTokenRetry(
+                accessToken,
+                renewAccessToken,
+                (token) =>
+                  fetchReviews(
+                    token,
+                    location.google_account_id,
+                    location.google_location_id,
+                    pageToken,
+                  ),
+              );
 
-          results.locationsProcessed++;
+              pagesFetched++;
+              results.pagesFetched++;
 
-          if (reviews.length === 0) continue;
+              for (const review of reviews) {
+                pendingHighWaterMark = laterTimestamp(
+                  pendingHighWaterMark,
+                  review.review_date ?? null,
+                );
+              }
 
-          // Prepare reviews for upsert with validation for external_review_id
-          const reviewsToInsert: ReviewInsert[] = [];
-          let skippedCount = 0;
-          let syntheticIdCount = 0;
+              let reviewsToInsert = buildReviewRows(location, reviews);
+              let edits: ReviewRevisionInsert[] = [];
+              let storedExternalIds = new Set<string>();
+
+              if (reviewsToInsert.length > 0) {
+                // Load stored versions before upserting so edits can be detected
+                const { data: storedReviews, error: storedError } =
+                  await supabase
+                    .from("reviews")
+                    .select(STORED_REVIEW_COLUMNS)
+                    .in(
+                      "external_review_id",
+                      reviewsToInsert.map((r) => r.external_review_id),
+                    );
+
+                if (storedError) {
+                  console.error(
+                    `Failed to load stored reviews for location ${location.id}:`,
+                    storedError.message,
+                  );
+                  results.errors.push(
+                    `Location ${location.name}: Failed to save reviews`,
+                  );
+                  // Keep the cursor on this page so the next run retries it, and
+                  // count the failure so the run isn't recorded as a successful poll
+                  fetchFailure = SAVE_REVIEWS_FAILURE;
+                  break;
+                }
+
+                const typedStoredReviews = (storedReviews ??
+                  []) as StoredReviewSnapshot[];
+                edits = findReviewEdits(typedStoredReviews, reviewsToInsert);
+                storedExternalIds = new Set(
+                  typedStoredReviews.map((r) => r.external_review_id),
+                );
 
-          for (const review of reviews) {
-            let externalReviewId = review.external_review_id;
+                // Complete fetches revisit old pages only to refresh stored reviews;
+                // unknown reviews older than the high-water mark were left out on purpose
+                // (e.g. beyond the first-sync backfill limit) and stay out
+                if (fullScanStartedAt !== null && highWaterMark !== null) {
+                  reviewsToInsert = reviewsToInsert.filter(
+                    (r) =>
+                      storedExternalIds.has(r.external_review_id) ||
+                      r.review_date === null ||
+                      r.review_date === undefined ||
+                      Date.parse(r.review_date) > Date.parse(highWaterMark),
+                  );
+                }
+              }
 
-            // If external_review_id is missing, generate a stable unique ID
-            if (!externalReviewId || externalReviewId.trim() === "") {
-              // Require location_id, reviewer_name, and review_date to generate unique ID
-              if (
-                !location.id ||
-                !review.reviewer_name ||
-                !review.review_date
-              ) {
-                skippedCount++;
-                console.warn(
-                  `Skipping review for location ${location.name}: missing external_review_id and insufficient data to generate synthetic ID (location_id: ${location.id}, reviewer_name: ${review.reviewer_name ?? "null"}, review_date: ${review.review_date ?? "null"})`,
+              if (reviewsToInsert.length > 0) {
+                // Upsert reviews (dedupe by external_review_id)
+                const { data: upsertedReviews, error: upsertError } =
+                  await typedUpsert(supabase, "reviews", reviewsToInsert, {
+                    onConflict: "external_review_id",
+                    ignoreDuplicates: false,
+                  }).select("id, external_review_id");
+
+                if (upsertError) {
+                  console.error(
+                    `Failed to upsert reviews for location ${location.id}:`,
+                    upsertError.message,
+                  );
+                  results.errors.push(
+                    `Location ${location.name}: Failed to save reviews`,
+                  );
+                  // Keep the cursor on this page so the next run retries it, and
+                  // count the failure so the run isn't recorded as a successful poll
+                  fetchFailure = SAVE_REVIEWS_FAILURE;
+                  break;
+                }
+
+                // Count all processed reviews (includes both inserts and updates)
+                results.reviewsProcessed += upsertedReviews?.length ?? 0;
+
+                if (edits.length > 0) {
+                  const { error: revisionError } = await recordReviewChanges(
+                    supabase,
+                    edits,
+                    new Date().toISOString(),
+                  );
+                  if (revisionError) {
+                    console.error(
+                      `Failed to record review edits for location ${location.id}:`,
+                      revisionError,
+                    );
+                    results.errors.push(
+                      `Warning: Failed to record review changes for ${location.name}`,
+                    );
+                  } else {
+                    results.reviewsEdited += edits.length;
+                  }
+                }
+
+                const { syncedCount, error: replyError } =
+                  await syncGoogleReplies(
+                    supabase,
+                    upsertedReviews ?? [],
+                    reviews,
+                  );
+                results.repliesSynced += syncedCount;
+                if (replyError) {
+                  console.error(
+                    `Failed to sync Google replies for location ${location.id}:`,
+                    replyError,
+                  );
+                  results.errors.push(
+                    `Warning: Failed to sync Google replies for ${location.name}`,
+                  );
+                }
+
+                // Classify, tag and escalate new and edited reviews; unchanged ones keep their stored results
+                const editedIds = new Set(edits.map((e) => e.review_id));
+                const reviewsToAnalyze = toReviewsToAnalyze(
+                  (upsertedReviews ?? []).filter(
+                    (r) =>
+                      !storedExternalIds.has(r.external_review_id) ||
+                      editedIds.has(r.id),
+                  ),
+                  reviewsToInsert,
                 );
-                continue;
+                const {
+                  analyses,
+                  analyzedCount,
+                  error: sentimentError,
+                } = await analyzeReviewSentiment(
+                  supabase,
+                  reviewsToAnalyze,
+                  location.organization_id,
+                  // Claude must not hold the run past its budget; late reviews get keywords
+                  { deadline: startTime + POLL_TIME_BUDGET_MS },
+                );
+                results.reviewsAnalyzed += analyzedCount;
+                if (sentimentError) {
+                  console.error(
+                    `Failed to save review sentiment for location ${location.id}:`,
+                    sentimentError,
+                  );
+                  results.errors.push(
+                    `Warning: Failed to save review sentiment for ${location.name}`,
+                  );
+                }
+
+                const { error: tagError } = await tagReviews(
+                  supabase,
+                  location.organization_id,
+                  reviewsToAnalyze,
+                  analyses,
+                );
+                if (tagError) {
+                  console.error(
+                    `Failed to save review tags for location ${location.id}:`,
+                    tagError,
+                  );
+                  results.errors.push(
+                    `Warning: Failed to save review tags for ${location.name}`,
+                  );
+                }
+
+                const { escalatedCount, error: escalationError } =
+                  await escalateReviews(supabase, reviewsToAnalyze);
+                results.reviewsEscalated += escalatedCount;
+                if (escalationError) {
+                  console.error(
+                    `Failed to save review escalations for location ${location.id}:`,
+                    escalationError,
+                  );
+                  results.errors.push(
+                    `Warning: Failed to save review escalations for ${location.name}`,
+                  );
+                }
               }
 
-              // Generate stable synthetic ID
-              externalReviewId = generateSyntheticReviewId(
+              // Google returns reviews newest first, so once the oldest review on a page is
+              // at or before the high-water mark, every later page has already been stored
+              // (complete fetches keep going to the last page)
+              const oldestReviewDate =
+                reviews[reviews.length - 1]?.review_date ?? null;
+              if (!nextPageToken) {
+                caughtUp = true;
+                fullScanCompleted = fullScanStartedAt !== null;
+              } else if (
+                fullScanStartedAt === null &&
+                highWaterMark !== null &&
+                oldestReviewDate !== null &&
+                Date.parse(oldestReviewDate) <= Date.parse(highWaterMark)
+              ) {
+                caughtUp = true;
+              } else {
+                pageToken = nextPageToken;
+              }
+            }
+          } catch (error: unknown) {
+            const message =
+              error instanceof GoogleAPIError
+                ? error.message
+                : "Failed to fetch reviews";
+            results.errors.push(`Location ${location.name}: ${message}`);
+
+            if (isGoogleRateLimitError(error)) {
+              // Not this location's fault: keep its cursor (or leave it due if no page
+              // was fetched) without counting a failure, and stop the run
+              results.rateLimited = true;
+              fetchAttempted = pagesFetched > 0;
+              fetchRateLimited = true;
+            } else {
+              fetchFailure = {
+                ok: false,
+                status: error instanceof GoogleAPIError ? error.status : null,
+                message,
+              };
+            }
+
+            // Google rejects stale page tokens with 400 - restart the pass from the newest page
+            if (
+              error instanceof GoogleAPIError &&
+              error.status === 400 &&
+              pageToken
+            ) {
+              pageToken = undefined;
+              pendingHighWaterMark = null;
+              fullScanStartedAt = null;
+            }
+          }
+
+          // Every review still on Google was seen during the complete fetch
+          let lastFullScanCompletedAt = lastFullScanAt;
+          if (fullScanCompleted && fullScanStartedAt !== null) {
+            const { deletedCount, error: deletionError } =
+              await markMissingReviewsDeleted(
+                supabase,
                 location.id,
-                review.reviewer_name,
-                review.review_date,
+                fullScanStartedAt,
+              );
+            results.reviewsDeleted += deletedCount;
+            if (deletionError) {
+              console.error(
+                `Failed to mark deleted reviews for location ${location.id}:`,
+                deletionError,
               );
-              syntheticIdCount++;
-              console.log(
-                `Generated synthetic external_review_id for review at location ${location.name}: ${externalReviewId}`,
+              results.errors.push(
+                `Warning: Failed to record deleted reviews for ${location.name}`,
               );
+            } else {
+              lastFullScanCompletedAt = new Date().toISOString();
             }
-
-            reviewsToInsert.push({
-              location_id: location.id,
-              platform: "google",
-              external_review_id: externalReviewId,
-              reviewer_name: review.reviewer_name ?? null,
-              reviewer_photo_url: review.reviewer_photo_url ?? null,
-              rating: review.rating ?? null,
-              review_text: review.review_text ?? null,
-              review_date: review.review_date ?? null,
-              has_response: review.has_response ?? false,
-              status: review.status ?? "pending",
-              sentiment:
-                review.rating !== null && review.rating !== undefined
-                  ? determineSentiment(review.rating)
-                  : null,
-            });
           }
 
-          // Log summary if any reviews were skipped or got synthetic IDs
-          if (skippedCount > 0 || syntheticIdCount > 0) {
-            console.log(
-              `Location ${location.name}: ${syntheticIdCount} reviews with synthetic IDs, ${skippedCount} reviews skipped`,
-            );
+          if (pagesFetched > 0) {
+            results.locationsProcessed++;
           }
 
-          // Skip upsert if no valid reviews to insert
-          if (reviewsToInsert.length === 0) {
+          // Budget ran out before this location was polled - it stays due for the next run
+          if (!fetchAttempted) {
             continue;
           }
 
-          // Upsert reviews (dedupe by external_review_id)
-          const { data: upsertedReviews, error: upsertError } =
-            await typedUpsert(supabase, "reviews", reviewsToInsert, {
-              onConflict: "external_review_id",
-              ignoreDuplicates: false,
-            }).select("id");
+          if (
+            fetchFailure === null &&
+            location.google_connection_user_id !== connectionUserId
+          ) {
+            reassignedLocationIds.push(location.id);
+          }
+
+          // Record the attempt even when fetching failed, so a failing location
+          // rotates to the back of the schedule instead of being retried every run;
+          // repeated 403/404/5xx failures also push back its next retry. A scan cut
+          // short by rate limiting is neither a success nor the location's failure,
+          // so its health is left as it was
+          const health = fetchRateLimited
+            ? null
+            : getPollHealthUpdate(
+                pollState,
+                fetchFailure ?? { ok: true },
+                new Date(),
+              );
+          const now = new Date().toISOString();
+          const { error: stateError } = await supabase
+            .from("location_poll_state")
+            .upsert(
+              caughtUp
+                ? {
+                    location_id: location.id,
+                    high_water_mark: laterTimestamp(
+                      highWaterMark,
+                      pendingHighWaterMark,
+                    ),
+                    pending_high_water_mark: null,
+                    next_page_token: null,
+                    full_scan_started_at: null,
+                    last_full_scan_at: lastFullScanCompletedAt,
+                    ...health?.update,
+                    last_polled_at: now,
+                    updated_at: now,
+                  }
+                : {
+                    location_id: location.id,
+                    high_water_mark: highWaterMark,
+                    pending_high_water_mark: pendingHighWaterMark,
+                    next_page_token: pageToken ?? null,
+                    full_scan_started_at: fullScanStartedAt,
+                    last_full_scan_at: lastFullScanAt,
+                    ...health?.update,
+                    last_polled_at: now,
+                    updated_at: now,
+                  },
+              { onConflict: "location_id" },
+            );
 
-          if (upsertError) {
+          if (stateError) {
             console.error(
-              `Failed to upsert reviews for location ${location.id}:`,
-              upsertError.message,
+              `Failed to update poll state for location ${location.id}:`,
+              stateError.message,
             );
+            // Don't fail the job - the next run re-fetches from the previous cursor
             results.errors.push(
-              `Location ${location.name}: Failed to save reviews`,
+              `Warning: Failed to save polling progress for ${location.name}`,
+            );
+          }
+
+          // Google keeps reporting the location as gone - stop polling it
+          if (health?.deactivate) {
+            const { error: deactivateError } = await typedUpdate(
+              supabase,
+              "locations",
+              { is_active: false },
+            ).eq("id", location.id);
+
+            if (deactivateError) {
+              console.error(
+                `Failed to deactivate location ${location.id}:`,
+                deactivateError.message,
+              );
+            } else {
+              results.locationsDeactivated++;
+              results.errors.push(
+                `Location ${location.name}: Deactivated after repeated not found responses from Google`,
+              );
+            }
+          }
+        }
+
+        // Keep polling these locations with the connection that worked
+        if (reassignedLocationIds.length > 0) {
+          const { error: reassignError } = await typedUpdate(
+            supabase,
+            "locations",
+            { google_connection_user_id: connectionUserId },
+          ).in("id", reassignedLocationIds);
+
+          if (reassignError) {
+            console.error(
+              `Failed to record Google connection for user ${connectionUserId}:`,
+              reassignError.message,
             );
-          } else {
-            // Count all processed reviews (includes both inserts and updates)
-            results.reviewsProcessed += upsertedReviews?.length ?? 0;
           }
-        } catch (error: unknown) {
-          const message =
-            error instanceof GoogleAPIError
-              ? error.message
-              : "Failed to fetch reviews";
-          results.errors.push(`Location ${location.name}: ${message}`);
         }
       }
-    }
-
-    // Update last_processed_at timestamps for tiers that were processed in this run.
-    // Note: The upsert operation itself is atomic, but the decision phase (reading state and
-    // deciding which tiers to process) is not serialized. Overlapping cron invocations may both
-    // process the same tier if they read the same old last_processed_at before either completes.
-    // This is acceptable because review upserts are idempotent by external_review_id.
-    // Use upsert to handle initial state and updates atomically.
-    if (tiersToUpdate.size > 0) {
-      const now = new Date().toISOString();
-      for (const tier of tiersToUpdate) {
-        const { error: updateError } = await supabase
-          .from("cron_poll_state")
-          .upsert(
-            {
-              tier,
-              last_processed_at: now,
-              updated_at: now,
-            },
-            { onConflict: "tier" },
-          );
 
-        if (updateError) {
-          console.error(
-            `Failed to update last_processed_at for tier ${tier}:`,
-            updateError.message,
-          );
-          // Don't fail the entire job - this is a best-effort update
+      // Organizations whose every connection was rejected this run
+      if (disconnectedOrgIds.size > 0) {
+        results.organizationsDisconnected += disconnectedOrgIds.size;
+        for (const orgId of disconnectedOrgIds) {
           results.errors.push(
-            `Warning: Failed to update processing timestamp for ${tier} tier`,
+            `Organization ${orgId}: No valid Google connection`,
           );
         }
       }
-    }
 
-    return NextResponse.json({
-      success: true,
-      message: "Poll reviews cron job completed",
-      ...results,
-      duration: Date.now() - startTime,
-      timestamp: new Date().toISOString(),
-    });
+      const [raiseResult, resolveResult] = await Promise.all([
+        raiseOrganizationAlerts(
+          supabase,
+          GOOGLE_CONNECTION_ALERT,
+          [...disconnectedOrgIds],
+          NO_GOOGLE_CONNECTION_MESSAGE,
+        ),
+        resolveOrganizationAlerts(supabase, GOOGLE_CONNECTION_ALERT, [
+          ...connectedOrgIds,
+        ]),
+      ]);
+      const alertError = raiseResult.error ?? resolveResult.error;
+      if (alertError) {
+        console.error("Failed to update Google connection alerts:", alertError);
+        results.errors.push(
+          "Warning: Failed to update Google connection alerts",
+        );
+      }
+
+      return NextResponse.json({
+        success: true,
+        message: "Poll reviews cron job completed",
+        ...results,
+        duration: Date.now() - startTime,
+        timestamp: new Date().toISOString(),
+      });
+    } finally {
+      const { error: releaseError } = await releaseCronLease(supabase, lease);
+      if (releaseError) {
+        // The lease expires on its own; the next run just waits for it
+        console.error("Failed to release poll lease:", releaseError);
+      }
+    }
   } catch (error: unknown) {
     console.error("Poll reviews cron error:", error);
     return NextResponse.json(
@@ -597,39 +1053,3 @@ export async function GET(request: NextRequest) {
     );
   }
 }
-
-/**
- * Generate a stable unique ID for a review missing external_review_id.
- * Uses SHA-256 hash of location_id + reviewer_name + review_date.
- *
- * @param locationId - The location ID
- * @param reviewerName - The reviewer's name (can be null)
- * @param reviewDate - The review date (can be null)
- * @returns A stable unique identifier prefixed with "synthetic_"
- */
-function generateSyntheticReviewId(
-  locationId: string,
-  reviewerName: string | null | undefined,
-  reviewDate: string | null | undefined,
-): string {
-  // Use length-prefixed encoding to avoid separator collisions
-  // Each component is encoded as "<length>:<value>" and concatenated
-  const components = [locationId ?? "", reviewerName ?? "", reviewDate ?? ""]
-    .map((comp) => `${comp.length}:${comp}`)
-    .join("");
-  const hash = createHash("sha256").update(components).digest("hex");
-  // Use first 32 chars of hash for readability, prefixed to indicate synthetic
-  return `synthetic_${hash.slice(0, 32)}`;
-}
-
-/**
- * Map a numeric star rating to a sentiment label.
- *
- * @param rating - Star rating (typically 1–5)
- * @returns `"positive"` if `rating` is greater than or equal to 4, `"neutral"` if `rating` is greater than or equal to 3, `"negative"` otherwise
- */
-function determineSentiment(rating: number): Sentiment {
-  if (rating >= 4) return "positive";
-  if (rating >= 3) return "neutral";
-  return "negative";
-}
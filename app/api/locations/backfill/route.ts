@@ -0,0 +1,215 @@
+import { NextResponse } from "next/server";
+
+import { decryptToken, TokenDecryptionError } from "@/lib/crypto/encryption";
+import { GoogleAPIError, getAccessToken } from "@/lib/google/client";
+import { createAccessTokenStore } from "@/lib/google/token-store";
+import {
+  type BackfillProgress,
+  getBackfillLimit,
+  runLocationBackfill,
+} from "@/lib/reviews/backfill";
+import { createServerSupabaseClient } from "@/lib/supabase/server";
+import type { LocationBackfill } from "@/lib/supabase/types";
+
+/**
+ * Time budget per request (in milliseconds). Kept well under the 60-second
+ * function limit so the settings page can show progress between requests.
+ */
+const BACKFILL_TIME_BUDGET_MS = 20000;
+
+/**
+ * Backfill row joined with its location
+ */
+interface BackfillWithLocation extends LocationBackfill {
+  locations: {
+    id: string;
+    name: string;
+    google_account_id: string;
+    google_location_id: string;
+    organization_id: string;
+  };
+}
+
+/**
+ * POST /api/locations/backfill - Continue first-sync review imports
+ *
+ * Advances every pending or running backfill for the user's organization
+ * within a fixed time budget. Each backfill resumes from its saved page token,
+ * so clients call this repeatedly until no backfill is unfinished.
+ *
+ * @returns JSON with `backfills` progress for each advanced location, or error with appropriate status
+ */
+export async function POST() {
+  const startTime = Date.now();
+
+  try {
+    const supabase = await createServerSupabaseClient();
+
+    // Verify authentication
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    // Get user's organization and Google refresh token
+    const { data: userData, error: userError } = await supabase
+      .from("users")
+      .select("organization_id, google_refresh_token")
+      .eq("id", user.id)
+      .single();
+
+    if (userError || !userData) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    if (!userData.organization_id) {
+      return NextResponse.json(
+        { error: "No organization found" },
+        { status: 400 },
+      );
+    }
+
+    if (!userData.google_refresh_token) {
+      return NextResponse.json(
+        {
+          error: "Google account not connected",
+          code: "GOOGLE_NOT_CONNECTED",
+        },
+        { status: 400 },
+      );
+    }
+
+    // Get unfinished backfills for the organization's locations
+    const { data: backfills, error: backfillsError } = await supabase
+      .from("location_backfills")
+      .select(`
+        *,
+        locations!inner (
+          id,
+          name,
+          google_account_id,
+          google_location_id,
+          organization_id
+        )
+      `)
+      .eq("locations.organization_id", userData.organization_id)
+      .in("status", ["pending", "running"]);
+
+    if (backfillsError) {
+      console.error("Failed to fetch backfills:", backfillsError.message);
+      return NextResponse.json(
+        { error: "Failed to fetch backfills", code: "DB_ERROR" },
+        { status: 500 },
+      );
+    }
+
+    // Type assertion for the joined location data
+    const typedBackfills = (backfills ??
+      []) as unknown as BackfillWithLocation[];
+
+    if (typedBackfills.length === 0) {
+      return NextResponse.json({ backfills: [] });
+    }
+
+    // Plan tier determines how many historical reviews to import
+    const { data: organization } = await supabase
+      .from("organizations")
+      .select("plan_tier")
+      .eq("id", userData.organization_id)
+      .single();
+    const targetCount = getBackfillLimit(organization?.plan_tier ?? null);
+
+    // Decrypt and get access token
+    let accessToken: string;
+    try {
+      let decryptedToken: string;
+      try {
+        decryptedToken = decryptToken(userData.google_refresh_token);
+      } catch (error) {
+        if (error instanceof TokenDecryptionError) {
+          console.error(
+            "Failed to decrypt Google refresh token for user:",
+            user.id,
+            error.message,
+          );
+          // Clear the corrupted token
+          await supabase
+            .from("users")
+            .update({ google_refresh_token: null })
+            .eq("id", user.id);
+
+          return NextResponse.json(
+            {
+              error:
+                "Google authentication data corrupted. Please reconnect your account.",
+              code: "GOOGLE_AUTH_EXPIRED",
+            },
+            { status: 401 },
+          );
+        }
+        throw error;
+      }
+
+      accessToken = await getAccessToken(
+        user.id,
+        decryptedToken,
+        createAccessTokenStore(supabase),
+      );
+    } catch (error) {
+      if (error instanceof GoogleAPIError && error.status === 401) {
+        // Clear invalid token
+        await supabase
+          .from("users")
+          .update({ google_refresh_token: null })
+          .eq("id", user.id);
+
+        return NextResponse.json(
+          {
+            error:
+              "Google authentication expired. Please reconnect your account.",
+            code: "GOOGLE_AUTH_EXPIRED",
+          },
+          { status: 401 },
+        );
+      }
+      throw error;
+    }
+
+    const deadline = startTime + BACKFILL_TIME_BUDGET_MS;
+    const progress: BackfillProgress[] = [];
+
+    for (const backfill of typedBackfills) {
+      const { locations: location, ...backfillRow } = backfill;
+      progress.push(
+        await runLocationBackfill(
+          supabase,
+          accessToken,
+          location,
+          backfillRow,
+          {
+            targetCount,
+            deadline,
+          },
+        ),
+      );
+    }
+
+    return NextResponse.json({ backfills: progress });
+  } catch (error) {
+    if (error instanceof GoogleAPIError) {
+      return NextResponse.json(
+        { error: error.message, code: "GOOGLE_API_ERROR" },
+        { status: 502 },
+      );
+    }
+
+    console.error("Location backfill error:", error);
+    return NextResponse.json(
+      { error: "Failed to import reviews", code: "INTERNAL_ERROR" },
+      { status: 500 },
+    );
+  }
+}
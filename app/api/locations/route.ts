@@ -7,8 +7,15 @@ import {
   fetchAccounts,
   fetchLocations,
   GoogleAPIError,
-  refreshAccessToken,
+  getAccessToken,
+  withAccessTokenRetry,
 } from "@/lib/google/client";
+import { createAccessTokenStore } from "@/lib/google/token-store";
+import {
+  type BackfillProgress,
+  toBackfillProgress,
+} from "@/lib/reviews/backfill";
+import { type SyncHealth, toSyncHealth } from "@/lib/reviews/poll-health";
 import { createServerSupabaseClient } from "@/lib/supabase/server";
 import type { Database } from "@/lib/supabase/types";
 
@@ -29,6 +36,8 @@ interface LocationWithStatus {
   address: string;
   account_name: string;
   is_synced: boolean;
+  backfill?: BackfillProgress;
+  sync_health?: SyncHealth;
 }
 
 /**
@@ -52,6 +61,8 @@ interface UserOrgData {
 interface SyncedLocation {
   id: string;
   google_location_id: string;
+  location_backfills?: BackfillProgress | null;
+  location_poll_state?: SyncHealth | null;
 }
 
 /**
@@ -107,7 +118,7 @@ function typedUpsert<T extends keyof Database["public"]["Tables"]>(
  * GET /api/locations - Fetch available Google Business Profile locations
  *
  * Returns all locations from the user's connected Google accounts,
- * along with their sync status in the database.
+ * along with their sync status, review backfill progress and polling health in the database.
  *
  * @returns JSON with `locations` array, or error with appropriate status
  */
@@ -177,10 +188,25 @@ export async function GET() {
       throw error;
     }
 
-    const accessToken = await refreshAccessToken(decryptedToken);
+    const tokenStore = createAccessTokenStore(supabase);
+    let accessToken = await getAccessToken(user.id, decryptedToken, tokenStore);
 
-    // Fetch accounts from Google
-    const accounts = await fetchAccounts(accessToken);
+    // Fetch accounts from Google, with a fresh access token if Google rejects the cached one
+    const accounts = await withAccessTokenRetry(
+      accessToken,
+      async () => {
+        accessToken = await getAccessToken(
+          user.id,
+          decryptedToken,
+          tokenStore,
+          {
+            forceRefresh: true,
+          },
+        );
+        return accessToken;
+      },
+      fetchAccounts,
+    );
 
     // Fetch locations for each account
     const allLocations: LocationWithStatus[] = [];
@@ -210,23 +236,31 @@ export async function GET() {
     if (typedUserData.organization_id && allLocations.length > 0) {
       const { data: syncedLocations } = await supabase
         .from("locations")
-        .select("id, google_location_id")
+        .select(
+          "id, google_location_id, location_backfills(location_id, status, imported_count, target_count, last_error), location_poll_state(last_success_at, consecutive_failures, last_error, next_retry_at)",
+        )
         .eq("organization_id", typedUserData.organization_id)
         .eq("is_active", true);
 
       // Type assertion: syncedLocations is an array of objects with id and google_location_id
       const typedSyncedLocations = (syncedLocations ?? []) as SyncedLocation[];
 
-      const syncedMap = new Map<string, string>();
+      const syncedMap = new Map<string, SyncedLocation>();
       for (const loc of typedSyncedLocations) {
-        syncedMap.set(loc.google_location_id, loc.id);
+        syncedMap.set(loc.google_location_id, loc);
       }
 
       for (const location of allLocations) {
-        const dbId = syncedMap.get(location.google_location_id);
-        if (dbId) {
+        const synced = syncedMap.get(location.google_location_id);
+        if (synced) {
           location.is_synced = true;
-          location.id = dbId;
+          location.id = synced.id;
+          if (synced.location_backfills) {
+            location.backfill = toBackfillProgress(synced.location_backfills);
+          }
+          if (synced.location_poll_state) {
+            location.sync_health = toSyncHealth(synced.location_poll_state);
+          }
         }
       }
     }
@@ -273,9 +307,12 @@ interface SaveLocationsBody {
  * Upserts the provided locations into the user's organization and returns the saved records.
  *
  * If the authenticated user has no organization, one is created and the user is associated with it.
+ * Newly synced locations get a pending backfill record so their review history can be imported
+ * via POST /api/locations/backfill. Saved locations record the user as their Google connection,
+ * which the poller tries first.
  *
  * @param request - Request whose JSON body must contain a `locations` array of location objects to save
- * @returns JSON object with `saved` (number of saved locations) and `locations` (array of saved location records)
+ * @returns JSON object with `saved` (number of saved locations), `locations` (array of saved location records), and `backfills` (backfills queued by this request)
  */
 export async function POST(request: NextRequest) {
   try {
@@ -390,6 +427,8 @@ export async function POST(request: NextRequest) {
       name: loc.name,
       address: loc.address ?? null,
       is_active: true,
+      // The saving user's Google account listed these locations, so polling starts with it
+      google_connection_user_id: user.id,
     }));
 
     // Upsert locations (update if google_location_id exists for this org)
@@ -411,9 +450,42 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Queue a first-sync review backfill for each saved location.
+    // ignoreDuplicates keeps existing records, so re-saving a location never restarts its import.
+    const typedSavedLocations = (savedLocations ?? []) as SyncedLocation[];
+    let backfills: BackfillProgress[] = [];
+
+    if (typedSavedLocations.length > 0) {
+      const { data: createdBackfills, error: backfillError } =
+        await typedUpsert(
+          supabase,
+          "location_backfills",
+          typedSavedLocations.map((loc) => ({
+            location_id: loc.id,
+            status: "pending",
+          })),
+          { onConflict: "location_id", ignoreDuplicates: true },
+        ).select(
+          "location_id, status, imported_count, target_count, last_error",
+        );
+
+      if (backfillError) {
+        // Locations are saved; the next save queues the missing backfills
+        console.error(
+          "Failed to queue review backfill:",
+          backfillError.message,
+        );
+      } else {
+        backfills = ((createdBackfills ?? []) as BackfillProgress[]).map(
+          toBackfillProgress,
+        );
+      }
+    }
+
     return NextResponse.json({
       saved: savedLocations?.length ?? 0,
       locations: savedLocations ?? [],
+      backfills,
     });
   } catch (error) {
     console.error("Locations POST error:", error);
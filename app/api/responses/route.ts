@@ -3,20 +3,39 @@ import { NextResponse } from "next/server";
 
 import {
   ClaudeAPIError,
-  DEFAULT_VOICE_PROFILE,
   generateResponse,
+  generateResponseVariants,
 } from "@/lib/claude/client";
+import {
+  flagDraftCommitments,
+  type GeneratedDraft,
+  prepareResponseGeneration,
+  saveGeneratedDrafts,
+  toClaudeFailure,
+} from "@/lib/reviews/response-generation";
+import {
+  findSourceVersionId,
+  recordResponseVersions,
+} from "@/lib/reviews/response-versions";
 import { createServerSupabaseClient } from "@/lib/supabase/server";
-import type { VoiceProfile } from "@/lib/supabase/types";
 
 /**
  * Handle POST /api/responses to generate an AI response for a review.
  *
  * Requires an authenticated user and a JSON body containing `reviewId`.
  * Generates a response using Claude API based on the review and voice profile.
+ * An existing draft is returned as-is unless `regenerate` is true, in which
+ * case a new draft replaces it (optionally following `guidance`). Every draft
+ * is also saved to response_versions. With `variants` above 1, that many
+ * alternative drafts are generated in different styles; the first becomes the
+ * response's draft and all of them are returned for the user to pick from.
+ * Reviews flagged for escalation (legal threats, safety incidents, ...) are
+ * refused with 409 `REVIEW_ESCALATED` unless `overrideEscalation` is true.
+ * Organizations that have used their monthly AI budget are refused with 402
+ * `AI_BUDGET_EXCEEDED`.
  *
- * @param request - NextRequest whose JSON body must include `reviewId` (string)
- * @returns On success: a JSON object with `id`, `reviewId`, `generatedText`, `status`, and `tokensUsed`.
+ * @param request - NextRequest whose JSON body must include `reviewId` (string) and may include `overrideEscalation` (boolean), `regenerate` (boolean), `guidance` (string), and `variants` (number)
+ * @returns On success: a JSON object with `id`, `reviewId`, `generatedText`, `editedText`, `status`, and `tokensUsed`, plus `variants` when several drafts were generated and `usageWarning` once the organization is past its soft budget limit.
  *          On error: a JSON object with `error` and an appropriate HTTP status.
  */
 export async function POST(request: NextRequest) {
@@ -34,19 +53,157 @@ export async function POST(request: NextRequest) {
 
     // Parse request body
     const body = await request.json();
-    const { reviewId } = body;
 
-    if (!reviewId) {
+    const prepared = await prepareResponseGeneration(supabase, user.id, body);
+    if (prepared.outcome === "failed") {
+      return NextResponse.json(prepared.failure.body, {
+        status: prepared.failure.status,
+      });
+    }
+    if (prepared.outcome === "existing") {
+      return NextResponse.json(prepared.response);
+    }
+
+    const { context } = prepared;
+
+    // Generate the draft (or alternative drafts) using Claude
+    const variants: GeneratedDraft[] =
+      context.variantCount > 1
+        ? await generateResponseVariants(
+            context.review,
+            context.voiceProfile,
+            context.businessName,
+            context.variantCount,
+            context.contactEmail,
+            context.customToneEnhancedContext,
+            context.guidance,
+            context.promptVersion,
+            context.model,
+            context.businessFacts,
+          )
+        : [
+            {
+              style: null,
+              ...(await generateResponse(
+                context.review,
+                context.voiceProfile,
+                context.businessName,
+                context.contactEmail,
+                context.customToneEnhancedContext,
+                context.guidance,
+                context.promptVersion,
+                context.model,
+                context.businessFacts,
+              )),
+            },
+          ];
+    // generateResponseVariants returns at least one draft or throws
+    const draft = variants[0] as GeneratedDraft;
+    const tokensUsed = variants.reduce(
+      (total, variant) => total + variant.tokensUsed,
+      0,
+    );
+
+    const saved = await saveGeneratedDrafts(supabase, context, variants);
+    if (saved.outcome === "failed") {
+      return NextResponse.json(saved.failure.body, {
+        status: saved.failure.status,
+      });
+    }
+
+    const issues = flagDraftCommitments(context, draft.text);
+    return NextResponse.json({
+      id: saved.responseId,
+      reviewId: context.reviewId,
+      generatedText: draft.text,
+      editedText: null,
+      status: "draft",
+      tokensUsed,
+      usageWarning: context.usageWarning,
+      ...(issues.length > 0 ? { issues } : {}),
+      ...(context.variantCount > 1
+        ? {
+            variants: variants.map((variant, index) => {
+              const variantIssues = flagDraftCommitments(context, variant.text);
+              return {
+                versionId: saved.versionIds[index] ?? null,
+                style: variant.style,
+                text: variant.text,
+                tokensUsed: variant.tokensUsed,
+                ...(variantIssues.length > 0 ? { issues: variantIssues } : {}),
+              };
+            }),
+          }
+        : {}),
+    });
+  } catch (error) {
+    // Handle Claude API errors with appropriate status codes
+    if (error instanceof ClaudeAPIError) {
+      const failure = toClaudeFailure(error);
+      return NextResponse.json(failure.body, { status: failure.status });
+    }
+
+    console.error("Response generation error:", error);
+    return NextResponse.json(
+      { error: "Failed to generate response", code: "INTERNAL_ERROR" },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * Handle PATCH /api/responses to save an edited draft.
+ *
+ * Stores the text in `edited_text` and adds an `edited` version to the
+ * response's history, linked to the draft it started from when
+ * `sourceVersionId` names one of the review's versions. Published responses cannot be edited here; publishing
+ * again goes through POST /api/reviews/[reviewId]/publish.
+ *
+ * @param request - NextRequest whose JSON body must include `reviewId` (string) and `text` (string), and may include `sourceVersionId` (string)
+ * @returns On success: a JSON object with `id`, `reviewId`, and `editedText`.
+ *          On error: a JSON object with `error` and an appropriate HTTP status.
+ */
+export async function PATCH(request: NextRequest) {
+  try {
+    const supabase = await createServerSupabaseClient();
+
+    // Verify authentication
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    // Parse request body
+    let body: { reviewId?: unknown; text?: unknown; sourceVersionId?: unknown };
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ error: "invalid JSON body" }, { status: 400 });
+    }
+
+    const { reviewId } = body;
+    if (!reviewId || typeof reviewId !== "string") {
       return NextResponse.json(
         { error: "reviewId is required" },
         { status: 400 },
       );
     }
 
-    // Get user's organization and email
+    const text = typeof body.text === "string" ? body.text.trim() : "";
+    if (text.length === 0) {
+      return NextResponse.json(
+        { error: "text cannot be empty" },
+        { status: 400 },
+      );
+    }
+
+    // Get user's organization
     const { data: userData, error: userError } = await supabase
       .from("users")
-      .select("organization_id, email")
+      .select("organization_id")
       .eq("id", user.id)
       .single();
 
@@ -54,224 +211,97 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: "User not found" }, { status: 404 });
     }
 
-    if (!userData.organization_id) {
-      return NextResponse.json(
-        { error: "Organization not found" },
-        { status: 400 },
-      );
-    }
-
-    // Fetch review with location to verify organization ownership
+    // Verify review belongs to user's organization
     const { data: review, error: reviewError } = await supabase
       .from("reviews")
-      .select(
-        `
-        id,
-        rating,
-        reviewer_name,
-        review_text,
-        review_date,
-        reviewer_photo_url,
-        external_review_id,
-        platform,
-        status,
-        sentiment,
-        has_response,
-        location_id,
-        created_at,
-        locations!inner (
-          id,
-          name,
-          organization_id,
-          voice_profile_id
-        )
-      `,
-      )
+      .select("id, locations!inner ( organization_id )")
       .eq("id", reviewId)
       .single();
 
-    if (reviewError || !review) {
-      return NextResponse.json({ error: "Review not found" }, { status: 404 });
-    }
-
-    // Verify review belongs to user's organization
-    const location = review.locations as unknown as {
-      id: string;
-      name: string;
+    const location = review?.locations as unknown as {
       organization_id: string;
-      voice_profile_id: string | null;
-    };
+    } | null;
 
-    if (location.organization_id !== userData.organization_id) {
+    if (
+      reviewError ||
+      !location ||
+      location.organization_id !== userData.organization_id
+    ) {
       return NextResponse.json({ error: "Review not found" }, { status: 404 });
     }
 
-    // Check for existing response
     const { data: existingResponse, error: existingResponseError } =
       await supabase
         .from("responses")
-        .select("id, generated_text, status, tokens_used")
+        .select("id, status")
         .eq("review_id", reviewId)
         .maybeSingle();
 
     if (existingResponseError) {
-      console.error(
-        "Failed to check for existing response:",
-        existingResponseError,
-      );
+      console.error("Failed to load response:", existingResponseError);
       return NextResponse.json(
-        { error: "Failed to check for existing response", code: "DB_ERROR" },
+        { error: "Failed to save response", code: "DB_ERROR" },
         { status: 500 },
       );
     }
 
-    if (existingResponse) {
-      // Return existing response instead of regenerating
-      return NextResponse.json({
-        id: existingResponse.id,
-        reviewId,
-        generatedText: existingResponse.generated_text,
-        status: existingResponse.status,
-        tokensUsed: existingResponse.tokens_used ?? 0,
-      });
-    }
-
-    // Validate review has text to respond to
-    if (!review.review_text || review.review_text.trim().length === 0) {
+    if (!existingResponse) {
       return NextResponse.json(
-        { error: "Cannot generate response for review without text" },
-        { status: 400 },
+        { error: "Response not found" },
+        { status: 404 },
       );
     }
 
-    // Get voice profile (location first, then org's first, then default)
-    let voiceProfile: VoiceProfile | null = null;
-
-    if (location.voice_profile_id) {
-      const { data: locationProfile, error: locationProfileError } =
-        await supabase
-          .from("voice_profiles")
-          .select("*")
-          .eq("id", location.voice_profile_id)
-          .single();
-      if (locationProfileError) {
-        console.warn(
-          "Failed to fetch location voice profile, using fallback:",
-          locationProfileError,
-        );
-      }
-      voiceProfile = locationProfile;
-    }
-
-    if (!voiceProfile) {
-      const { data: orgProfile, error: orgProfileError } = await supabase
-        .from("voice_profiles")
-        .select("*")
-        .eq("organization_id", userData.organization_id)
-        .limit(1)
-        .maybeSingle();
-      if (orgProfileError) {
-        console.warn(
-          "Failed to fetch organization voice profile, using fallback:",
-          orgProfileError,
-        );
-      }
-      voiceProfile = orgProfile;
-    }
-
-    // Use default voice profile if none found
-    const effectiveProfile = voiceProfile ?? DEFAULT_VOICE_PROFILE;
-
-    // Check if tone is a custom tone and fetch enhanced context
-    let customToneEnhancedContext: string | null = null;
-    if (effectiveProfile.tone?.startsWith("custom:")) {
-      const customToneId = effectiveProfile.tone.replace("custom:", "");
-      const { data: customTone } = await supabase
-        .from("custom_tones")
-        .select("enhanced_context")
-        .eq("id", customToneId)
-        .eq("organization_id", userData.organization_id)
-        .maybeSingle();
-
-      if (customTone?.enhanced_context) {
-        customToneEnhancedContext = customTone.enhanced_context;
-      }
+    if (existingResponse.status === "published") {
+      return NextResponse.json(
+        {
+          error: "Published responses cannot be edited",
+          code: "RESPONSE_PUBLISHED",
+        },
+        { status: 409 },
+      );
     }
 
-    // Generate response using Claude
-    const result = await generateResponse(
-      review,
-      effectiveProfile,
-      location.name,
-      userData.email ?? undefined,
-      customToneEnhancedContext ?? undefined,
-    );
-
-    // Store the generated response
-    const { data: insertedResponse, error: insertError } = await supabase
+    const { error: updateError } = await supabase
       .from("responses")
-      .insert({
-        review_id: reviewId,
-        generated_text: result.text,
-        status: "draft",
-        tokens_used: result.tokensUsed,
-      })
-      .select("id")
-      .single();
+      .update({ edited_text: text })
+      .eq("id", existingResponse.id);
 
-    if (insertError || !insertedResponse) {
-      console.error("Failed to save response:", insertError);
+    if (updateError) {
+      console.error("Failed to save edited response:", updateError);
       return NextResponse.json(
         { error: "Failed to save response", code: "DB_ERROR" },
         { status: 500 },
       );
     }
 
+    const { error: versionError } = await recordResponseVersions(supabase, [
+      {
+        response_id: existingResponse.id,
+        review_id: reviewId,
+        kind: "edited",
+        text,
+        source_version_id: await findSourceVersionId(
+          supabase,
+          reviewId,
+          body.sourceVersionId,
+        ),
+        created_by: user.id,
+      },
+    ]);
+    if (versionError) {
+      console.error("Failed to save response version:", versionError);
+    }
+
     return NextResponse.json({
-      id: insertedResponse.id,
+      id: existingResponse.id,
       reviewId,
-      generatedText: result.text,
-      status: "draft",
-      tokensUsed: result.tokensUsed,
+      editedText: text,
     });
   } catch (error) {
-    // Handle Claude API errors with appropriate status codes
-    if (error instanceof ClaudeAPIError) {
-      console.error("Claude API error:", {
-        status: error.status,
-        message: error.message,
-      });
-
-      if (error.status === 408) {
-        return NextResponse.json(
-          { error: "AI response generation timed out", code: "AI_TIMEOUT" },
-          { status: 504 },
-        );
-      }
-      if (error.status === 429) {
-        return NextResponse.json(
-          {
-            error: "Rate limit exceeded. Please try again later.",
-            code: "RATE_LIMITED",
-          },
-          { status: 429 },
-        );
-      }
-      if (error.status === 401 || error.status === 403) {
-        return NextResponse.json(
-          { error: "AI service configuration error", code: "INTERNAL_ERROR" },
-          { status: 500 },
-        );
-      }
-      return NextResponse.json(
-        { error: "AI service unavailable", code: "AI_SERVICE_ERROR" },
-        { status: 502 },
-      );
-    }
-
-    console.error("Response generation error:", error);
+    console.error("Response edit error:", error);
     return NextResponse.json(
-      { error: "Failed to generate response", code: "INTERNAL_ERROR" },
+      { error: "Failed to save response", code: "INTERNAL_ERROR" },
       { status: 500 },
     );
   }
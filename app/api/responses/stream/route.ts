@@ -0,0 +1,168 @@
+import type { NextRequest } from "next/server";
+import { NextResponse } from "next/server";
+
+import { ClaudeAPIError, generateResponseStream } from "@/lib/claude/client";
+import {
+  flagDraftCommitments,
+  prepareResponseGeneration,
+  recordGenerationUsage,
+  saveGeneratedDrafts,
+  toClaudeFailure,
+} from "@/lib/reviews/response-generation";
+import { createServerSupabaseClient } from "@/lib/supabase/server";
+import { formatServerSentEvent } from "@/lib/utils/sse";
+
+/**
+ * Handle POST /api/responses/stream to generate an AI response for a review,
+ * streaming the draft as it is written.
+ *
+ * Takes the same body as POST /api/responses (except `variants`, since only a
+ * single draft can be streamed) and runs the same checks. Anything that does
+ * not generate a draft, such as an error or an existing draft being returned,
+ * is a plain JSON response exactly as from POST /api/responses. Otherwise
+ * the response is a server-sent event stream of `text` events (`{ text }`,
+ * each a piece of the draft) ending in either `done` (the saved response, in
+ * the same shape as POST /api/responses) or `error` (`{ error, code }`).
+ * The draft is saved only once generation finishes; disconnecting cancels the
+ * Claude request and nothing is saved, but the tokens used so far still count
+ * toward the organization's AI usage.
+ *
+ * @param request - NextRequest whose JSON body must include `reviewId` (string) and may include `overrideEscalation` (boolean), `regenerate` (boolean), and `guidance` (string)
+ * @returns An event stream while generating, otherwise a JSON object as from POST /api/responses
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createServerSupabaseClient();
+
+    // Verify authentication
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    // Parse request body
+    const body = await request.json();
+
+    if (body.variants !== undefined && body.variants !== 1) {
+      return NextResponse.json(
+        { error: "variants cannot be streamed; use POST /api/responses" },
+        { status: 400 },
+      );
+    }
+
+    const prepared = await prepareResponseGeneration(supabase, user.id, body);
+    if (prepared.outcome === "failed") {
+      return NextResponse.json(prepared.failure.body, {
+        status: prepared.failure.status,
+      });
+    }
+    if (prepared.outcome === "existing") {
+      return NextResponse.json(prepared.response);
+    }
+
+    const { context } = prepared;
+    const encoder = new TextEncoder();
+
+    // Cancelled when the client disconnects, which also stops the Claude request
+    const generation = new AbortController();
+    request.signal.addEventListener("abort", () => generation.abort(), {
+      once: true,
+    });
+
+    const stream = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        const send = (event: string, data: unknown) => {
+          if (!generation.signal.aborted) {
+            controller.enqueue(
+              encoder.encode(formatServerSentEvent(event, data)),
+            );
+          }
+        };
+
+        // Tokens a stream that doesn't finish has used, recorded when it ends
+        let unrecordedTokens = 0;
+
+        try {
+          const draft = await generateResponseStream(
+            context.review,
+            context.voiceProfile,
+            context.businessName,
+            (text) => send("text", { text }),
+            context.contactEmail,
+            context.customToneEnhancedContext,
+            context.guidance,
+            context.promptVersion,
+            generation.signal,
+            context.model,
+            context.businessFacts,
+            (tokensUsed) => {
+              unrecordedTokens = tokensUsed;
+            },
+          );
+          // Recorded with the draft from here on
+          unrecordedTokens = 0;
+
+          const saved = await saveGeneratedDrafts(supabase, context, [
+            { style: null, ...draft },
+          ]);
+          if (saved.outcome === "failed") {
+            send("error", saved.failure.body);
+          } else {
+            const issues = flagDraftCommitments(context, draft.text);
+            send("done", {
+              id: saved.responseId,
+              reviewId: context.reviewId,
+              generatedText: draft.text,
+              editedText: null,
+              status: "draft",
+              tokensUsed: draft.tokensUsed,
+              usageWarning: context.usageWarning,
+              ...(issues.length > 0 ? { issues } : {}),
+            });
+          }
+        } catch (error) {
+          if (unrecordedTokens > 0) {
+            await recordGenerationUsage(supabase, context, unrecordedTokens);
+          }
+          // After a disconnect there is no one to tell and nothing to save
+          if (generation.signal.aborted) {
+            return;
+          }
+          if (error instanceof ClaudeAPIError) {
+            send("error", toClaudeFailure(error).body);
+          } else {
+            console.error("Response streaming error:", error);
+            send("error", {
+              error: "Failed to generate response",
+              code: "INTERNAL_ERROR",
+            });
+          }
+        }
+
+        if (!generation.signal.aborted) {
+          controller.close();
+        }
+      },
+      cancel() {
+        generation.abort();
+      },
+    });
+
+    return new NextResponse(stream, {
+      headers: {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache, no-transform",
+        Connection: "keep-alive",
+      },
+    });
+  } catch (error) {
+    console.error("Response generation error:", error);
+    return NextResponse.json(
+      { error: "Failed to generate response", code: "INTERNAL_ERROR" },
+      { status: 500 },
+    );
+  }
+}
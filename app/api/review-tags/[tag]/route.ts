@@ -0,0 +1,84 @@
+import type { NextRequest } from "next/server";
+import { NextResponse } from "next/server";
+
+import { isValidTag } from "@/lib/reviews/tags";
+import { createServerSupabaseClient } from "@/lib/supabase/server";
+
+/**
+ * DELETE /api/review-tags/[tag]
+ *
+ * Removes a tag from the organization's vocabulary. Reviews already tagged
+ * with it keep the tag until they are next edited.
+ *
+ * @param _request - The incoming request (unused)
+ * @param params - Route params containing the tag slug
+ * @returns JSON object confirming deletion, or error with appropriate status
+ */
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ tag: string }> },
+) {
+  try {
+    const { tag } = await params;
+
+    if (!isValidTag(tag)) {
+      return NextResponse.json({ error: "Invalid tag" }, { status: 400 });
+    }
+
+    const supabase = await createServerSupabaseClient();
+
+    // Verify authentication
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    // Get user's organization
+    const { data: userData, error: userError } = await supabase
+      .from("users")
+      .select("organization_id")
+      .eq("id", user.id)
+      .single();
+
+    if (userError || !userData) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    if (!userData.organization_id) {
+      return NextResponse.json(
+        { error: "Organization not found" },
+        { status: 404 },
+      );
+    }
+
+    const { data: deleted, error: deleteError } = await supabase
+      .from("organization_tags")
+      .delete()
+      .eq("organization_id", userData.organization_id)
+      .eq("tag", tag)
+      .select("tag");
+
+    if (deleteError) {
+      console.error("Error deleting review tag:", deleteError);
+      return NextResponse.json(
+        { error: "Failed to delete review tag" },
+        { status: 500 },
+      );
+    }
+
+    if (!deleted || deleted.length === 0) {
+      return NextResponse.json({ error: "Tag not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Review tags DELETE error:", error);
+    return NextResponse.json(
+      { error: "Failed to delete review tag" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,223 @@
+import type { NextRequest } from "next/server";
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+import {
+  isAspectTag,
+  MAX_ORGANIZATION_TAGS,
+  MAX_TAG_KEYWORDS,
+  toTagSlug,
+} from "@/lib/reviews/tags";
+import { createServerSupabaseClient } from "@/lib/supabase/server";
+
+/**
+ * Zod schema for validating POST /api/review-tags request body
+ */
+const createReviewTagSchema = z.object({
+  label: z.string().trim().min(1).max(50),
+  keywords: z
+    .array(z.string().trim().toLowerCase().min(1).max(50))
+    .min(1)
+    .max(MAX_TAG_KEYWORDS),
+});
+
+/**
+ * Request body for POST /api/review-tags
+ */
+type CreateReviewTagBody = z.infer<typeof createReviewTagSchema>;
+
+/**
+ * GET /api/review-tags
+ *
+ * Fetches the organization's own review tags. Built-in tags (staff, wait time,
+ * price, ...) are always available and are not returned.
+ *
+ * @returns JSON object with the organization's tags, or error with appropriate status
+ */
+export async function GET() {
+  try {
+    const supabase = await createServerSupabaseClient();
+
+    // Verify authentication
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    // Get user's organization
+    const { data: userData, error: userError } = await supabase
+      .from("users")
+      .select("organization_id")
+      .eq("id", user.id)
+      .single();
+
+    if (userError || !userData) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    if (!userData.organization_id) {
+      return NextResponse.json(
+        { error: "Organization not found" },
+        { status: 404 },
+      );
+    }
+
+    const { data: tags, error: tagsError } = await supabase
+      .from("organization_tags")
+      .select("tag, label, keywords")
+      .eq("organization_id", userData.organization_id)
+      .order("label", { ascending: true });
+
+    if (tagsError) {
+      console.error("Error fetching review tags:", tagsError);
+      return NextResponse.json(
+        { error: "Failed to fetch review tags" },
+        { status: 500 },
+      );
+    }
+
+    return NextResponse.json({ tags: tags ?? [] });
+  } catch (error) {
+    console.error("Review tags GET error:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch review tags" },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * POST /api/review-tags
+ *
+ * Adds a tag to the organization's vocabulary. New and edited reviews whose
+ * text contains any of the keywords are tagged with it.
+ *
+ * @param request - Request whose JSON body contains the tag label and keywords
+ * @returns JSON object with the created tag, or error with appropriate status
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createServerSupabaseClient();
+
+    // Verify authentication
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    // Get user's organization
+    const { data: userData, error: userError } = await supabase
+      .from("users")
+      .select("organization_id")
+      .eq("id", user.id)
+      .single();
+
+    if (userError || !userData) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    if (!userData.organization_id) {
+      return NextResponse.json(
+        { error: "Organization not found" },
+        { status: 404 },
+      );
+    }
+
+    // Parse and validate request body
+    let body: CreateReviewTagBody;
+    try {
+      const rawBody = await request.json();
+      const parseResult = createReviewTagSchema.safeParse(rawBody);
+      if (!parseResult.success) {
+        return NextResponse.json(
+          { error: "Invalid request body" },
+          { status: 400 },
+        );
+      }
+      body = parseResult.data;
+    } catch {
+      return NextResponse.json(
+        { error: "Invalid request body: JSON parsing failed" },
+        { status: 400 },
+      );
+    }
+
+    const tag = toTagSlug(body.label);
+    if (!tag) {
+      return NextResponse.json(
+        { error: "Tag label must contain letters or numbers" },
+        { status: 400 },
+      );
+    }
+
+    if (isAspectTag(tag)) {
+      return NextResponse.json(
+        { error: "A built-in tag with this name already exists" },
+        { status: 409 },
+      );
+    }
+
+    const { count, error: countError } = await supabase
+      .from("organization_tags")
+      .select("id", { count: "exact", head: true })
+      .eq("organization_id", userData.organization_id);
+
+    if (countError) {
+      console.error("Error counting review tags:", countError);
+      return NextResponse.json(
+        { error: "Failed to create review tag" },
+        { status: 500 },
+      );
+    }
+
+    if ((count ?? 0) >= MAX_ORGANIZATION_TAGS) {
+      return NextResponse.json(
+        {
+          error: `Organizations can define up to ${MAX_ORGANIZATION_TAGS} tags`,
+        },
+        { status: 400 },
+      );
+    }
+
+    const { data: created, error: insertError } = await supabase
+      .from("organization_tags")
+      .insert({
+        organization_id: userData.organization_id,
+        tag,
+        label: body.label,
+        keywords: [...new Set(body.keywords)],
+      })
+      .select("tag, label, keywords")
+      .single();
+
+    if (insertError) {
+      // Unique (organization_id, tag)
+      if (insertError.code === "23505") {
+        return NextResponse.json(
+          { error: "A tag with this name already exists" },
+          { status: 409 },
+        );
+      }
+
+      console.error("Error creating review tag:", insertError);
+      return NextResponse.json(
+        { error: "Failed to create review tag" },
+        { status: 500 },
+      );
+    }
+
+    return NextResponse.json({ tag: created }, { status: 201 });
+  } catch (error) {
+    console.error("Review tags POST error:", error);
+    return NextResponse.json(
+      { error: "Failed to create review tag" },
+      { status: 500 },
+    );
+  }
+}
@@ -4,9 +4,19 @@ import { NextResponse } from "next/server";
 import { decryptToken, TokenDecryptionError } from "@/lib/crypto/encryption";
 import {
   GoogleAPIError,
+  getAccessToken,
+  isGoogleRateLimitError,
   publishResponse,
-  refreshAccessToken,
+  withAccessTokenRetry,
 } from "@/lib/google/client";
+import { createAccessTokenStore } from "@/lib/google/token-store";
+import { applyLanguageOverride } from "@/lib/reviews/language";
+import { resolveVoiceProfile } from "@/lib/reviews/response-generation";
+import { checkResponseText } from "@/lib/reviews/response-guardrails";
+import {
+  findSourceVersionId,
+  recordResponseVersions,
+} from "@/lib/reviews/response-versions";
 import { createServerSupabaseClient } from "@/lib/supabase/server";
 
 /**
@@ -14,15 +24,46 @@ import { createServerSupabaseClient } from "@/lib/supabase/server";
  */
 interface PublishRequestBody {
   response_text: string;
+  /** The draft the published text started from (e.g. the variant picked) */
+  source_version_id?: string;
+  /** Publish despite guardrail warnings the user has seen */
+  acknowledge_warnings?: boolean;
+}
+
+/**
+ * Clear a user's Google refresh token that no longer works and ask them to reconnect.
+ */
+async function expireGoogleConnection(
+  supabase: Awaited<ReturnType<typeof createServerSupabaseClient>>,
+  userId: string,
+) {
+  await supabase
+    .from("users")
+    .update({ google_refresh_token: null })
+    .eq("id", userId);
+
+  return NextResponse.json(
+    {
+      error: "Google authentication expired. Please reconnect your account.",
+      code: "GOOGLE_AUTH_EXPIRED",
+    },
+    { status: 401 },
+  );
 }
 
 /**
  * POST /api/reviews/[reviewId]/publish - Publish a response to Google Business Profile
  *
  * Takes the response text and publishes it as a reply to the review on Google.
- * Updates the review and response status in the database.
+ * Updates the review and response status in the database and adds a
+ * `published` version to the response's history.
+ *
+ * The text is checked against the response guardrails first. Any issue with
+ * `block` severity refuses the publish with 422 `RESPONSE_BLOCKED`; warnings
+ * refuse it with 422 `RESPONSE_WARNINGS` until the request is resent with
+ * `acknowledge_warnings: true`. Both responses list the `issues` found.
  *
- * @param request - Request with JSON body containing response_text
+ * @param request - Request with JSON body containing response_text and optionally source_version_id and acknowledge_warnings
  * @param params - Route params containing reviewId
  * @returns JSON with success status or error
  */
@@ -46,7 +87,7 @@ export async function POST(
     // Get user's organization and Google refresh token
     const { data: userData, error: userError } = await supabase
       .from("users")
-      .select("organization_id, google_refresh_token")
+      .select("organization_id, email, google_refresh_token")
       .eq("id", user.id)
       .single();
 
@@ -79,11 +120,13 @@ export async function POST(
         external_review_id,
         location_id,
         has_response,
+        language,
         locations!inner (
           id,
           google_account_id,
           google_location_id,
-          organization_id
+          organization_id,
+          voice_profile_id
         )
       `)
       .eq("id", reviewId)
@@ -99,6 +142,7 @@ export async function POST(
       google_account_id: string;
       google_location_id: string;
       organization_id: string;
+      voice_profile_id: string | null;
     };
 
     // Verify the review belongs to the user's organization
@@ -129,10 +173,43 @@ export async function POST(
       );
     }
 
+    // Check the text before anything reaches Google, against the voice
+    // profile as it applies to the review's language
+    const voiceProfile = await resolveVoiceProfile(
+      supabase,
+      location.voice_profile_id,
+      location.organization_id,
+    );
+    const issues = checkResponseText(responseText, {
+      voiceProfile: applyLanguageOverride(voiceProfile, review.language),
+      contactEmail: userData.email,
+    });
+    if (issues.some((issue) => issue.severity === "block")) {
+      return NextResponse.json(
+        {
+          error: "This response can't be published until these are fixed",
+          code: "RESPONSE_BLOCKED",
+          issues,
+        },
+        { status: 422 },
+      );
+    }
+    if (issues.length > 0 && body.acknowledge_warnings !== true) {
+      return NextResponse.json(
+        {
+          error: "Check these warnings before publishing",
+          code: "RESPONSE_WARNINGS",
+          issues,
+        },
+        { status: 422 },
+      );
+    }
+
     // Decrypt and get access token
+    const tokenStore = createAccessTokenStore(supabase);
+    let decryptedToken: string;
     let accessToken: string;
     try {
-      let decryptedToken: string;
       try {
         decryptedToken = decryptToken(userData.google_refresh_token);
       } catch (error) {
@@ -160,37 +237,48 @@ export async function POST(
         throw error;
       }
 
-      accessToken = await refreshAccessToken(decryptedToken);
+      accessToken = await getAccessToken(user.id, decryptedToken, tokenStore);
     } catch (error) {
       if (error instanceof GoogleAPIError && error.status === 401) {
-        // Clear invalid token
-        await supabase
-          .from("users")
-          .update({ google_refresh_token: null })
-          .eq("id", user.id);
-
-        return NextResponse.json(
-          {
-            error:
-              "Google authentication expired. Please reconnect your account.",
-            code: "GOOGLE_AUTH_EXPIRED",
-          },
-          { status: 401 },
-        );
+        return expireGoogleConnection(supabase, user.id);
       }
       throw error;
     }
 
-    // Publish response to Google
+    // Publish response to Google, with a fresh access token if Google rejects the cached one
     try {
-      await publishResponse(
+      await withAccessTokenRetry(
         accessToken,
-        location.google_account_id,
-        location.google_location_id,
-        review.external_review_id,
-        responseText,
+        () =>
+          getAccessToken(user.id, decryptedToken, tokenStore, {
+            forceRefresh: true,
+          }),
+        (token) =>
+          publishResponse(
+            token,
+            location.google_account_id,
+            location.google_location_id,
+            review.external_review_id,
+            responseText,
+          ),
       );
     } catch (error) {
+      if (error instanceof GoogleAPIError && error.status === 401) {
+        // The refresh token was revoked, or Google rejected even a fresh access token
+        return expireGoogleConnection(supabase, user.id);
+      }
+      if (isGoogleRateLimitError(error)) {
+        // Nothing was published - tell the user when Google will accept it again
+        const retryAfter = error.retryAfterSeconds ?? 60;
+        return NextResponse.json(
+          {
+            error: `Google is limiting requests right now. Try again in ${retryAfter} seconds.`,
+            code: "GOOGLE_RATE_LIMITED",
+            retry_after_seconds: retryAfter,
+          },
+          { status: 429, headers: { "Retry-After": String(retryAfter) } },
+        );
+      }
       if (error instanceof GoogleAPIError) {
         // Map Google API errors to specific error codes
         const code =
@@ -256,6 +344,27 @@ export async function POST(
       console.error("Failed to save response record:", responseError.message);
     }
 
+    let versionError: string | null = null;
+    if (responseRecord) {
+      ({ error: versionError } = await recordResponseVersions(supabase, [
+        {
+          response_id: responseRecord.id,
+          review_id: reviewId,
+          kind: "published",
+          text: responseText,
+          source_version_id: await findSourceVersionId(
+            supabase,
+            reviewId,
+            body.source_version_id,
+          ),
+          created_by: user.id,
+        },
+      ]));
+      if (versionError) {
+        console.error("Failed to save response version:", versionError);
+      }
+    }
+
     // Check for database update failures after successful Google publish
     const dbErrors: string[] = [];
     if (updateReviewError) {
@@ -264,6 +373,9 @@ export async function POST(
     if (responseError) {
       dbErrors.push("Failed to save response record");
     }
+    if (versionError) {
+      dbErrors.push("Failed to save response version");
+    }
 
     if (dbErrors.length > 0) {
       // Response published to Google but database sync failed
@@ -0,0 +1,86 @@
+import type { NextRequest } from "next/server";
+import { NextResponse } from "next/server";
+
+import { RESPONSE_VERSION_COLUMNS } from "@/lib/reviews/response-versions";
+import { createServerSupabaseClient } from "@/lib/supabase/server";
+
+/**
+ * GET /api/reviews/[reviewId]/response-versions - List a response's versions
+ *
+ * Returns every AI draft, saved edit, and published text of the review's
+ * response, newest first.
+ *
+ * @param _request - Incoming request (unused)
+ * @param params - Route params containing reviewId
+ * @returns JSON object with `versions`, or error with appropriate status
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ reviewId: string }> },
+) {
+  try {
+    const { reviewId } = await params;
+    const supabase = await createServerSupabaseClient();
+
+    // Verify authentication
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    // Get user's organization
+    const { data: userData, error: userError } = await supabase
+      .from("users")
+      .select("organization_id")
+      .eq("id", user.id)
+      .single();
+
+    if (userError || !userData) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    // Verify the review belongs to the user's organization
+    const { data: review, error: reviewError } = await supabase
+      .from("reviews")
+      .select("id, locations!inner ( organization_id )")
+      .eq("id", reviewId)
+      .single();
+
+    const location = review?.locations as unknown as {
+      organization_id: string;
+    } | null;
+
+    if (
+      reviewError ||
+      !location ||
+      location.organization_id !== userData.organization_id
+    ) {
+      return NextResponse.json({ error: "Review not found" }, { status: 404 });
+    }
+
+    const { data: versions, error: versionsError } = await supabase
+      .from("response_versions")
+      .select(RESPONSE_VERSION_COLUMNS)
+      .eq("review_id", reviewId)
+      .order("created_at", { ascending: false });
+
+    if (versionsError) {
+      console.error("Error fetching response versions:", versionsError);
+      return NextResponse.json(
+        { error: "Failed to fetch response versions" },
+        { status: 500 },
+      );
+    }
+
+    return NextResponse.json({ versions: versions ?? [] });
+  } catch (error) {
+    console.error("Response versions GET error:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch response versions" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,117 @@
+import type { NextRequest } from "next/server";
+import { NextResponse } from "next/server";
+
+import { recordAIUsage } from "@/lib/ai/usage";
+import { ClaudeAPIError, translateReview } from "@/lib/claude/client";
+import {
+  DEFAULT_REVIEW_LANGUAGE,
+  isReviewLanguage,
+} from "@/lib/reviews/language";
+import { toClaudeFailure } from "@/lib/reviews/response-generation";
+import { createServerSupabaseClient } from "@/lib/supabase/server";
+
+/**
+ * GET /api/reviews/[reviewId]/translation - Translate a review into English
+ *
+ * For staff reading a review written in another language. The translation
+ * is generated on each request and not stored; its tokens are added to the
+ * organization's AI usage.
+ *
+ * @param _request - Incoming request (unused)
+ * @param params - Route params containing reviewId
+ * @returns JSON object with the review's `language` and English `translation`, or error with appropriate status
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ reviewId: string }> },
+) {
+  try {
+    const { reviewId } = await params;
+    const supabase = await createServerSupabaseClient();
+
+    // Verify authentication
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    // Get user's organization
+    const { data: userData, error: userError } = await supabase
+      .from("users")
+      .select("organization_id")
+      .eq("id", user.id)
+      .single();
+
+    if (userError || !userData) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    // Verify the review belongs to the user's organization
+    const { data: review, error: reviewError } = await supabase
+      .from("reviews")
+      .select("id, review_text, language, locations!inner ( organization_id )")
+      .eq("id", reviewId)
+      .single();
+
+    const location = review?.locations as unknown as {
+      organization_id: string;
+    } | null;
+
+    if (
+      reviewError ||
+      !review ||
+      !location ||
+      location.organization_id !== userData.organization_id
+    ) {
+      return NextResponse.json({ error: "Review not found" }, { status: 404 });
+    }
+
+    if (
+      !review.review_text ||
+      !isReviewLanguage(review.language) ||
+      review.language === DEFAULT_REVIEW_LANGUAGE
+    ) {
+      return NextResponse.json(
+        { error: "Only reviews written in another language can be translated" },
+        { status: 400 },
+      );
+    }
+
+    const { text, tokensUsed } = await translateReview(
+      review.review_text,
+      review.language,
+    );
+
+    const { error: usageError } = await recordAIUsage(supabase, [
+      {
+        organizationId: location.organization_id,
+        userId: user.id,
+        task: "translation",
+        model: null,
+        tokensUsed,
+      },
+    ]);
+    if (usageError) {
+      console.error("Failed to record AI usage:", usageError);
+    }
+
+    return NextResponse.json({
+      language: review.language,
+      translation: text.trim(),
+    });
+  } catch (error) {
+    if (error instanceof ClaudeAPIError) {
+      const failure = toClaudeFailure(error);
+      return NextResponse.json(failure.body, { status: failure.status });
+    }
+
+    console.error("Review translation GET error:", error);
+    return NextResponse.json(
+      { error: "Failed to translate review" },
+      { status: 500 },
+    );
+  }
+}
@@ -1,6 +1,8 @@
 import type { NextRequest } from "next/server";
 import { NextResponse } from "next/server";
-
+import { isReviewLanguage } from "@/lib/reviews/language";
+import { SENTIMENTS } from "@/lib/reviews/sentiment";
+import { isValidTag } from "@/lib/reviews/tags";
 import { createServerSupabaseClient } from "@/lib/supabase/server";
 import type { Database } from "@/lib/supabase/types";
 
@@ -25,19 +27,27 @@ interface ReviewLocation {
  */
 type Review = Database["public"]["Tables"]["reviews"]["Row"];
 
+/**
+ * Tag joined from review_tags
+ */
+interface ReviewTagRow {
+  tag: string;
+}
+
 type ReviewWithLocation = Review & {
   locations: ReviewLocation | null;
+  review_tags: ReviewTagRow[];
 };
 
 /**
  * Valid status filter values
  */
-const VALID_STATUSES = ["pending", "responded", "ignored"] as const;
+const VALID_STATUSES = ["pending", "responded", "ignored", "deleted"] as const;
 
 /**
  * Valid sentiment filter values
  */
-const VALID_SENTIMENTS = ["positive", "neutral", "negative"] as const;
+const VALID_SENTIMENTS = SENTIMENTS;
 
 /**
  * Type guard to validate that a value is a valid ReviewLocation
@@ -52,6 +62,21 @@ function isValidReviewLocation(value: unknown): value is ReviewLocation {
   );
 }
 
+/**
+ * Type guard to validate that a value is a list of ReviewTagRow
+ */
+function isValidReviewTags(value: unknown): value is ReviewTagRow[] {
+  return (
+    Array.isArray(value) &&
+    value.every(
+      (row) =>
+        row !== null &&
+        typeof row === "object" &&
+        typeof (row as Record<string, unknown>).tag === "string",
+    )
+  );
+}
+
 /**
  * Type guard to validate that a value is a valid ReviewWithLocation
  */
@@ -78,6 +103,9 @@ function isValidReviewWithLocation(
     (review.review_date === null ||
       review.review_date === undefined ||
       typeof review.review_date === "string") &&
+    (review.language === null ||
+      review.language === undefined ||
+      typeof review.language === "string") &&
     (review.has_response === null ||
       review.has_response === undefined ||
       typeof review.has_response === "boolean") &&
@@ -87,6 +115,26 @@ function isValidReviewWithLocation(
     (review.sentiment === null ||
       review.sentiment === undefined ||
       typeof review.sentiment === "string") &&
+    (review.sentiment_confidence === null ||
+      review.sentiment_confidence === undefined ||
+      typeof review.sentiment_confidence === "number") &&
+    (review.sentiment_source === null ||
+      review.sentiment_source === undefined ||
+      typeof review.sentiment_source === "string") &&
+    (review.sentiment_aspects === undefined ||
+      Array.isArray(review.sentiment_aspects)) &&
+    (review.sentiment_analyzed_at === null ||
+      review.sentiment_analyzed_at === undefined ||
+      typeof review.sentiment_analyzed_at === "string") &&
+    (review.escalation_reason === null ||
+      review.escalation_reason === undefined ||
+      typeof review.escalation_reason === "string") &&
+    (review.escalation_detail === null ||
+      review.escalation_detail === undefined ||
+      typeof review.escalation_detail === "string") &&
+    (review.escalated_at === null ||
+      review.escalated_at === undefined ||
+      typeof review.escalated_at === "string") &&
     (review.created_at === null ||
       review.created_at === undefined ||
       typeof review.created_at === "string") &&
@@ -96,9 +144,16 @@ function isValidReviewWithLocation(
     (review.platform === null ||
       review.platform === undefined ||
       typeof review.platform === "string") &&
+    (review.deleted_at === null ||
+      review.deleted_at === undefined ||
+      typeof review.deleted_at === "string") &&
+    (review.last_seen_at === null ||
+      review.last_seen_at === undefined ||
+      typeof review.last_seen_at === "string") &&
     (review.locations === null ||
       review.locations === undefined ||
-      isValidReviewLocation(review.locations))
+      isValidReviewLocation(review.locations)) &&
+    (review.review_tags === undefined || isValidReviewTags(review.review_tags))
   );
 }
 
@@ -153,6 +208,13 @@ function getValidationErrors(raw: unknown): string[] {
   ) {
     errors.push("invalid review_date type");
   }
+  if (
+    review.language !== null &&
+    review.language !== undefined &&
+    typeof review.language !== "string"
+  ) {
+    errors.push("invalid language type");
+  }
   if (
     review.has_response !== null &&
     review.has_response !== undefined &&
@@ -174,6 +236,54 @@ function getValidationErrors(raw: unknown): string[] {
   ) {
     errors.push("invalid sentiment type");
   }
+  if (
+    review.sentiment_confidence !== null &&
+    review.sentiment_confidence !== undefined &&
+    typeof review.sentiment_confidence !== "number"
+  ) {
+    errors.push("invalid sentiment_confidence type");
+  }
+  if (
+    review.sentiment_source !== null &&
+    review.sentiment_source !== undefined &&
+    typeof review.sentiment_source !== "string"
+  ) {
+    errors.push("invalid sentiment_source type");
+  }
+  if (
+    review.sentiment_aspects !== undefined &&
+    !Array.isArray(review.sentiment_aspects)
+  ) {
+    errors.push("invalid sentiment_aspects type");
+  }
+  if (
+    review.sentiment_analyzed_at !== null &&
+    review.sentiment_analyzed_at !== undefined &&
+    typeof review.sentiment_analyzed_at !== "string"
+  ) {
+    errors.push("invalid sentiment_analyzed_at type");
+  }
+  if (
+    review.escalation_reason !== null &&
+    review.escalation_reason !== undefined &&
+    typeof review.escalation_reason !== "string"
+  ) {
+    errors.push("invalid escalation_reason type");
+  }
+  if (
+    review.escalation_detail !== null &&
+    review.escalation_detail !== undefined &&
+    typeof review.escalation_detail !== "string"
+  ) {
+    errors.push("invalid escalation_detail type");
+  }
+  if (
+    review.escalated_at !== null &&
+    review.escalated_at !== undefined &&
+    typeof review.escalated_at !== "string"
+  ) {
+    errors.push("invalid escalated_at type");
+  }
   if (
     review.created_at !== null &&
     review.created_at !== undefined &&
@@ -195,6 +305,20 @@ function getValidationErrors(raw: unknown): string[] {
   ) {
     errors.push("invalid platform type");
   }
+  if (
+    review.deleted_at !== null &&
+    review.deleted_at !== undefined &&
+    typeof review.deleted_at !== "string"
+  ) {
+    errors.push("invalid deleted_at type");
+  }
+  if (
+    review.last_seen_at !== null &&
+    review.last_seen_at !== undefined &&
+    typeof review.last_seen_at !== "string"
+  ) {
+    errors.push("invalid last_seen_at type");
+  }
   if (
     review.locations !== null &&
     review.locations !== undefined &&
@@ -202,6 +326,12 @@ function getValidationErrors(raw: unknown): string[] {
   ) {
     errors.push("invalid locations object");
   }
+  if (
+    review.review_tags !== undefined &&
+    !isValidReviewTags(review.review_tags)
+  ) {
+    errors.push("invalid review_tags");
+  }
 
   return errors;
 }
@@ -221,12 +351,22 @@ function mapToReviewWithLocation(raw: unknown): ReviewWithLocation | null {
     rating: raw.rating ?? null,
     review_text: raw.review_text ?? null,
     review_date: raw.review_date ?? null,
+    language: raw.language ?? null,
     has_response: raw.has_response ?? null,
     status: raw.status ?? null,
     sentiment: raw.sentiment ?? null,
+    sentiment_confidence: raw.sentiment_confidence ?? null,
+    sentiment_source: raw.sentiment_source ?? null,
+    sentiment_aspects: raw.sentiment_aspects ?? [],
+    sentiment_analyzed_at: raw.sentiment_analyzed_at ?? null,
+    escalation_reason: raw.escalation_reason ?? null,
+    escalation_detail: raw.escalation_detail ?? null,
+    escalated_at: raw.escalated_at ?? null,
     created_at: raw.created_at ?? null,
     location_id: raw.location_id ?? null,
     platform: raw.platform ?? null,
+    deleted_at: raw.deleted_at ?? null,
+    last_seen_at: raw.last_seen_at ?? null,
     locations: raw.locations
       ? {
           id: raw.locations.id,
@@ -234,6 +374,7 @@ function mapToReviewWithLocation(raw: unknown): ReviewWithLocation | null {
           google_location_id: raw.locations.google_location_id,
         }
       : null,
+    review_tags: raw.review_tags ?? [],
   };
 }
 
@@ -243,7 +384,9 @@ function mapToReviewWithLocation(raw: unknown): ReviewWithLocation | null {
  * Reads optional URL search parameters to filter and paginate reviews:
  * - status: Filter by review status (pending, responded, ignored)
  * - rating: Filter by star rating (1-5)
- * - sentiment: Filter by sentiment (positive, neutral, negative)
+ * - sentiment: Filter by sentiment (positive, neutral, negative, mixed)
+ * - tag: Filter by tag (a built-in aspect such as parking, or one of the organization's tags)
+ * - language: Filter by detected review language (en, es, fr, de, it, pt, nl)
  * - location_id: Filter by specific location
  * - page: Page number (default: 1)
  * - limit: Results per page (default: 20, max: 100)
@@ -298,6 +441,8 @@ export async function GET(request: NextRequest) {
     const status = searchParams.get("status");
     const rating = searchParams.get("rating");
     const sentiment = searchParams.get("sentiment");
+    const tag = searchParams.get("tag");
+    const language = searchParams.get("language");
     const locationId = searchParams.get("location_id");
     const page = Math.max(
       1,
@@ -349,16 +494,32 @@ export async function GET(request: NextRequest) {
         rating,
         review_text,
         review_date,
+        language,
         has_response,
         status,
         sentiment,
+        sentiment_confidence,
+        sentiment_source,
+        sentiment_aspects,
+        sentiment_analyzed_at,
+        escalation_reason,
+        escalation_detail,
+        escalated_at,
         created_at,
         location_id,
         platform,
+        deleted_at,
+        last_seen_at,
         locations!inner (
           id,
           name,
           google_location_id
+        ),
+        review_tags (
+          tag
+        ),
+        tag_filter:review_tags (
+          tag
         )
       `,
         { count: "exact" },
@@ -388,6 +549,16 @@ export async function GET(request: NextRequest) {
       query = query.eq("sentiment", sentiment);
     }
 
+    // Filter on a second embed of review_tags so matching reviews still
+    // return all of their tags
+    if (tag && isValidTag(tag)) {
+      query = query.eq("tag_filter.tag", tag).not("tag_filter", "is", null);
+    }
+
+    if (isReviewLanguage(language)) {
+      query = query.eq("language", language);
+    }
+
     if (locationId && locationIds.includes(locationId)) {
       query = query.eq("location_id", locationId);
     }
@@ -439,9 +610,16 @@ export async function GET(request: NextRequest) {
         rating: review.rating,
         review_text: review.review_text,
         review_date: review.review_date,
+        language: review.language,
         has_response: review.has_response,
         status: review.status,
         sentiment: review.sentiment,
+        sentiment_confidence: review.sentiment_confidence,
+        sentiment_aspects: review.sentiment_aspects,
+        tags: review.review_tags.map((row) => row.tag),
+        escalation_reason: review.escalation_reason,
+        escalation_detail: review.escalation_detail,
+        escalated_at: review.escalated_at,
         created_at: review.created_at,
         location_id: review.location_id,
         platform: review.platform ?? "google",
@@ -1,8 +1,20 @@
 import type { NextRequest } from "next/server";
 import { NextResponse } from "next/server";
-
-import { ClaudeAPIError, callClaudeWithRetry } from "@/lib/claude/client";
+import { z } from "zod";
+
+import {
+  budgetExceededError,
+  budgetWarning,
+  getAIBudget,
+  recordAIUsage,
+} from "@/lib/ai/usage";
+import {
+  ClaudeAPIError,
+  generateStructuredOutput,
+  StructuredOutputError,
+} from "@/lib/claude/client";
 import { QUIZ_QUESTIONS, type QuizAnswer } from "@/lib/quiz/questions";
+import { toClaudeFailure } from "@/lib/reviews/response-generation";
 import { createServerSupabaseClient } from "@/lib/supabase/server";
 import type { Json } from "@/lib/supabase/types";
 
@@ -66,36 +78,28 @@ function buildQuizSummary(answers: QuizAnswer[]): string {
 }
 
 /**
- * Extract the first balanced JSON object from text using brace balancing.
- *
- * Scans the text to find the first complete JSON object by tracking
- * opening and closing braces, handling nested objects correctly.
- *
- * @param text - The text to extract JSON from
- * @returns The extracted JSON string, or null if no balanced object found
+ * Shape of a generated custom tone
  */
-function extractBalancedJson(text: string): string | null {
-  let braceCount = 0;
-  let startIndex = -1;
-
-  for (let i = 0; i < text.length; i++) {
-    const char = text[i];
-
-    if (char === "{") {
-      if (braceCount === 0) {
-        startIndex = i;
-      }
-      braceCount++;
-    } else if (char === "}") {
-      braceCount--;
-      if (braceCount === 0 && startIndex !== -1) {
-        return text.slice(startIndex, i + 1);
-      }
-    }
-  }
-
-  return null;
-}
+const customToneSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1)
+    .max(100)
+    .describe('Tone name, 2-4 words (e.g. "Empathetic Professional")'),
+  description: z
+    .string()
+    .trim()
+    .min(1)
+    .describe("1-2 sentences explaining the tone"),
+  enhancedContext: z
+    .string()
+    .trim()
+    .min(1)
+    .describe(
+      "Detailed instructions for AI to use when generating review responses in this tone",
+    ),
+});
 
 /**
  * Generate a custom tone name, description, and enhanced context using Claude AI
@@ -107,107 +111,31 @@ async function generateCustomTone(
   name: string;
   description: string;
   enhancedContext: string;
+  tokensUsed: number;
 }> {
   const systemPrompt = `You are a tone generation expert. Based on quiz responses about a business's communication preferences, generate:
 1. A custom tone name (2-4 words, e.g., "Empathetic Professional", "Warmly Direct")
 2. A brief description (1-2 sentences explaining the tone)
 3. Enhanced context (detailed instructions for AI to use when generating review responses in this tone)
 
-The enhanced context should be specific, actionable instructions that guide AI response generation. It should incorporate the quiz responses to create a unique voice that goes beyond standard tones.
-
-IMPORTANT: Your response must be ONLY a valid JSON object with no surrounding text, comments, or markdown formatting.`;
+The enhanced context should be specific, actionable instructions that guide AI response generation. It should incorporate the quiz responses to create a unique voice that goes beyond standard tones.`;
 
   const userPrompt = `Based on these quiz responses, generate a custom tone:
 
-${quizSummary}
-
-Return ONLY a valid JSON object in this exact format (no other text):
-{
-  "name": "Tone Name Here",
-  "description": "Brief description of the tone",
-  "enhancedContext": "Detailed instructions for AI response generation that incorporates the quiz responses..."
-}`;
+${quizSummary}`;
 
   try {
-    const result = await callClaudeWithRetry(systemPrompt, userPrompt);
-    const text = result.text.trim();
-
-    // Try to extract JSON using brace-balancing
-    const jsonString = extractBalancedJson(text);
-    if (jsonString) {
-      try {
-        const parsed = JSON.parse(jsonString) as {
-          name?: string;
-          description?: string;
-          enhancedContext?: string;
-        };
-
-        if (parsed.name && parsed.description && parsed.enhancedContext) {
-          return {
-            name: parsed.name,
-            description: parsed.description,
-            enhancedContext: parsed.enhancedContext,
-          };
-        }
-      } catch (parseError) {
-        // JSON string found but parsing failed - fall through to fallback
-        console.warn("Failed to parse extracted JSON:", parseError);
-      }
-    }
-
-    // Fallback if JSON parsing fails
-    const lines = text.split("\n").filter((line) => line.trim());
-    const name = lines[0]?.replace(/^[#*-\s]*/g, "").trim() ?? "Custom Tone";
-    const description =
-      lines[1]?.replace(/^[#*-\s]*/g, "").trim() ??
-      "A personalized tone based on your preferences";
-    const enhancedContext =
-      lines.slice(2).join("\n").trim() ||
-      "Use the quiz responses to guide response generation with a personalized approach.";
-
-    // Track which fallback defaults were applied
-    const appliedDefaults: string[] = [];
-    if (name === "Custom Tone") appliedDefaults.push("name");
-    if (description === "A personalized tone based on your preferences")
-      appliedDefaults.push("description");
-    if (
-      enhancedContext ===
-      "Use the quiz responses to guide response generation with a personalized approach."
-    )
-      appliedDefaults.push("enhancedContext");
-
-    // Truncate Claude response to avoid PII leaks (max 500 chars)
-    const truncatedResponse =
-      text.length > 500 ? `${text.slice(0, 500)}...` : text;
-
-    // Create safe preview: first 100 chars of first line, or truncatedResponse
-    const safePreview =
-      lines[0] && lines[0].length > 0
-        ? lines[0].slice(0, 100)
-        : truncatedResponse.slice(0, 100);
-
-    // Warning-level log with structured data for monitoring
-    console.warn(
-      JSON.stringify({
-        event: "fallback_parsing_triggered",
-        metric: "fallback_parsing_triggered",
-        level: "warn",
-        requestId: requestId ?? "unknown",
-        message: "Fallback line-based parsing used for Claude response",
-        data: {
-          safePreview,
-          appliedDefaults:
-            appliedDefaults.length > 0 ? appliedDefaults : "none",
-          lineCount: lines.length,
-        },
-      }),
+    const { data, tokensUsed } = await generateStructuredOutput(
+      systemPrompt,
+      userPrompt,
+      customToneSchema,
+      {
+        task: "custom_tone",
+        name: "custom_tone",
+        description: "A custom tone for review responses",
+      },
     );
-
-    return {
-      name,
-      description,
-      enhancedContext,
-    };
+    return { ...data, tokensUsed };
   } catch (error) {
     console.error(
       `Error generating custom tone with Claude [requestId: ${requestId ?? "unknown"}]:`,
@@ -225,10 +153,13 @@ Return ONLY a valid JSON object in this exact format (no other text):
  * POST /api/tone-quiz/generate
  *
  * Generates a custom tone based on quiz responses using Claude AI.
- * Saves the custom tone to the database and returns it.
+ * Saves the custom tone to the database and returns it. Organizations that
+ * have used their monthly AI budget are refused with 402 `AI_BUDGET_EXCEEDED`,
+ * and a tone Claude can't produce in the expected shape fails with 502
+ * `AI_SERVICE_ERROR`.
  *
  * @param request - Request containing quiz answers
- * @returns JSON object with generated custom tone
+ * @returns JSON object with generated custom tone, and `usageWarning` once the organization is past its soft budget limit
  */
 export async function POST(request: NextRequest) {
   // Generate request ID for tracking and logging
@@ -246,10 +177,10 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
 
-    // Get user's organization
+    // Get user's organization and its plan tier
     const { data: userData, error: userError } = await supabase
       .from("users")
-      .select("organization_id")
+      .select("organization_id, organizations ( plan_tier )")
       .eq("id", user.id)
       .single();
 
@@ -298,15 +229,74 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: validationError }, { status: 400 });
     }
 
+    const { budget, error: budgetError } = await getAIBudget(
+      supabase,
+      userData.organization_id,
+      userData.organizations?.plan_tier ?? null,
+    );
+    // A usage lookup failure shouldn't stop the quiz, so generate anyway
+    if (budgetError) {
+      console.error(
+        `Failed to check AI budget [requestId: ${requestId}]:`,
+        budgetError,
+      );
+    }
+    if (budget?.state === "hard_limit") {
+      return NextResponse.json(budgetExceededError(budget), { status: 402 });
+    }
+
+    const organizationId = userData.organization_id;
+    const recordUsage = async (tokensUsed: number) => {
+      const { error: usageError } = await recordAIUsage(supabase, [
+        {
+          organizationId,
+          userId: user.id,
+          task: "custom_tone",
+          model: null,
+          tokensUsed,
+        },
+      ]);
+      if (usageError) {
+        console.error(
+          `Failed to record AI usage [requestId: ${requestId}]:`,
+          usageError,
+        );
+      }
+    };
+
     // Build quiz summary and generate custom tone
     const quizSummary = buildQuizSummary(answers);
-    const customTone = await generateCustomTone(quizSummary, requestId);
+    let customTone: Awaited<ReturnType<typeof generateCustomTone>>;
+    try {
+      customTone = await generateCustomTone(quizSummary, requestId);
+    } catch (error) {
+      // Tokens spent on replies that couldn't be used still count against the budget
+      if (error instanceof StructuredOutputError) {
+        await recordUsage(error.tokensUsed);
+        if (error.status === 502) {
+          return NextResponse.json(
+            {
+              error: "Couldn't generate a usable tone. Please try again.",
+              code: "AI_SERVICE_ERROR",
+            },
+            { status: 502 },
+          );
+        }
+      }
+      if (error instanceof ClaudeAPIError) {
+        const failure = toClaudeFailure(error);
+        return NextResponse.json(failure.body, { status: failure.status });
+      }
+      throw error;
+    }
+
+    await recordUsage(customTone.tokensUsed);
 
     // Save custom tone to database
     const { data: insertedTone, error: insertError } = await supabase
       .from("custom_tones")
       .insert({
-        organization_id: userData.organization_id,
+        organization_id: organizationId,
         name: customTone.name,
         description: customTone.description,
         enhanced_context: customTone.enhancedContext,
@@ -335,6 +325,7 @@ export async function POST(request: NextRequest) {
         enhancedContext: insertedTone.enhanced_context ?? null,
         createdAt: insertedTone.created_at ?? new Date().toISOString(),
       },
+      usageWarning: budgetWarning(budget),
     });
   } catch (error) {
     console.error(
@@ -0,0 +1,68 @@
+import { NextResponse } from "next/server";
+
+import { getAIBudget } from "@/lib/ai/usage";
+import { createServerSupabaseClient } from "@/lib/supabase/server";
+
+/**
+ * GET /api/usage - Fetch the organization's AI usage this month
+ *
+ * Usage is counted in tokens against the plan tier's monthly budget and
+ * resets at the start of each calendar month (UTC).
+ *
+ * @returns JSON with `planTier`, `tokensUsed`, `budget`, `state` ("ok", "soft_limit", or "hard_limit"), and `resetsAt`, or error with appropriate status
+ */
+export async function GET() {
+  try {
+    const supabase = await createServerSupabaseClient();
+
+    // Verify authentication
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    // Get user's organization and its plan tier
+    const { data: userData, error: userError } = await supabase
+      .from("users")
+      .select("organization_id, organizations ( plan_tier )")
+      .eq("id", user.id)
+      .single();
+
+    if (userError || !userData) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    if (!userData.organization_id) {
+      return NextResponse.json(
+        { error: "Organization not found" },
+        { status: 404 },
+      );
+    }
+
+    const planTier = userData.organizations?.plan_tier ?? null;
+    const { budget, error: budgetError } = await getAIBudget(
+      supabase,
+      userData.organization_id,
+      planTier,
+    );
+
+    if (budgetError || !budget) {
+      console.error("Failed to fetch AI usage:", budgetError);
+      return NextResponse.json(
+        { error: "Failed to load usage" },
+        { status: 500 },
+      );
+    }
+
+    return NextResponse.json({ planTier: planTier ?? "starter", ...budget });
+  } catch (error) {
+    console.error("Usage API error:", error);
+    return NextResponse.json(
+      { error: "Failed to load usage" },
+      { status: 500 },
+    );
+  }
+}
@@ -2,6 +2,12 @@ import type { NextRequest } from "next/server";
 import { NextResponse } from "next/server";
 import { z } from "zod";
 
+import { REVIEW_LANGUAGES } from "@/lib/reviews/language";
+import {
+  GUARDRAIL_CHECKS,
+  GUARDRAIL_SEVERITIES,
+  RESPONSE_COMMITMENTS,
+} from "@/lib/reviews/response-guardrails";
 import { createServerSupabaseClient } from "@/lib/supabase/server";
 import type { Database } from "@/lib/supabase/types";
 
@@ -19,6 +25,22 @@ const updateVoiceProfileSchema = z.object({
   words_to_use: z.array(z.string()).optional(),
   words_to_avoid: z.array(z.string()).optional(),
   example_responses: z.array(z.string()).optional(),
+  guardrail_severities: z
+    .partialRecord(z.enum(GUARDRAIL_CHECKS), z.enum(GUARDRAIL_SEVERITIES))
+    .optional(),
+  allowed_commitments: z.array(z.enum(RESPONSE_COMMITMENTS)).optional(),
+  language_overrides: z
+    .partialRecord(
+      z.enum(REVIEW_LANGUAGES),
+      z.object({
+        personality_notes: z.string().optional(),
+        sign_off_style: z.string().optional(),
+        example_responses: z.array(z.string()).optional(),
+        words_to_use: z.array(z.string()).optional(),
+        words_to_avoid: z.array(z.string()).optional(),
+      }),
+    )
+    .optional(),
 });
 
 /**
@@ -0,0 +1,206 @@
+import type { NextRequest } from "next/server";
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+import {
+  applySuggestionToProfile,
+  isVoiceProfileSuggestionKind,
+} from "@/lib/reviews/edit-learning";
+import { createServerSupabaseClient } from "@/lib/supabase/server";
+
+/**
+ * Zod schema for validating PATCH /api/voice-profile/suggestions/[suggestionId] request body
+ */
+const decideSuggestionSchema = z.object({
+  status: z.enum(["accepted", "dismissed"]),
+});
+
+/**
+ * PATCH /api/voice-profile/suggestions/[suggestionId]
+ *
+ * Accepts or dismisses a pending voice profile suggestion. Accepting adds the
+ * suggested phrase or reply to the organization's voice profile (creating the
+ * profile if there is none); dismissing only records the decision. Decided
+ * suggestions are never suggested again.
+ *
+ * @param request - Request whose JSON body contains `status` ("accepted" or "dismissed")
+ * @param params - Route params containing the suggestion ID
+ * @returns JSON object with the decided `suggestion` and the `voiceProfile` (null when dismissed), or error with appropriate status
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ suggestionId: string }> },
+) {
+  try {
+    const { suggestionId } = await params;
+    const supabase = await createServerSupabaseClient();
+
+    // Verify authentication
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    // Get user's organization
+    const { data: userData, error: userError } = await supabase
+      .from("users")
+      .select("organization_id")
+      .eq("id", user.id)
+      .single();
+
+    if (userError || !userData) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    if (!userData.organization_id) {
+      return NextResponse.json(
+        { error: "Organization not found" },
+        { status: 404 },
+      );
+    }
+    const organizationId = userData.organization_id;
+
+    // Parse and validate request body
+    let status: "accepted" | "dismissed";
+    try {
+      const parseResult = decideSuggestionSchema.safeParse(
+        await request.json(),
+      );
+      if (!parseResult.success) {
+        return NextResponse.json(
+          { error: "Invalid request body" },
+          { status: 400 },
+        );
+      }
+      status = parseResult.data.status;
+    } catch {
+      return NextResponse.json(
+        { error: "Invalid request body: JSON parsing failed" },
+        { status: 400 },
+      );
+    }
+
+    const { data: suggestion, error: suggestionError } = await supabase
+      .from("voice_profile_suggestions")
+      .select("id, kind, value, status")
+      .eq("id", suggestionId)
+      .eq("organization_id", organizationId)
+      .maybeSingle();
+
+    if (suggestionError) {
+      console.error(
+        "Error fetching voice profile suggestion:",
+        suggestionError,
+      );
+      return NextResponse.json(
+        { error: "Failed to update voice profile suggestion" },
+        { status: 500 },
+      );
+    }
+
+    if (!suggestion || !isVoiceProfileSuggestionKind(suggestion.kind)) {
+      return NextResponse.json(
+        { error: "Suggestion not found" },
+        { status: 404 },
+      );
+    }
+
+    if (suggestion.status !== "pending") {
+      return NextResponse.json(
+        { error: "Suggestion has already been decided" },
+        { status: 409 },
+      );
+    }
+
+    let voiceProfile = null;
+    if (status === "accepted") {
+      const { data: existingProfile, error: profileError } = await supabase
+        .from("voice_profiles")
+        .select("id, words_to_avoid, words_to_use, example_responses")
+        .eq("organization_id", organizationId)
+        .limit(1)
+        .maybeSingle();
+
+      if (profileError) {
+        console.error("Error fetching voice profile:", profileError);
+        return NextResponse.json(
+          { error: "Failed to update voice profile" },
+          { status: 500 },
+        );
+      }
+
+      const profileUpdate = applySuggestionToProfile(
+        existingProfile,
+        suggestion.kind,
+        suggestion.value,
+      );
+
+      const { data: savedProfile, error: saveError } = existingProfile
+        ? await supabase
+            .from("voice_profiles")
+            .update(profileUpdate)
+            .eq("id", existingProfile.id)
+            .eq("organization_id", organizationId)
+            .select()
+            .single()
+        : await supabase
+            .from("voice_profiles")
+            .insert({
+              organization_id: organizationId,
+              name: "Default",
+              ...profileUpdate,
+            })
+            .select()
+            .single();
+
+      if (saveError) {
+        console.error("Error saving voice profile:", saveError);
+        return NextResponse.json(
+          { error: "Failed to update voice profile" },
+          { status: 500 },
+        );
+      }
+      voiceProfile = savedProfile;
+    }
+
+    // Only a still-pending suggestion is decided, so a concurrent decision isn't overwritten
+    const { data: decided, error: decideError } = await supabase
+      .from("voice_profile_suggestions")
+      .update({
+        status,
+        decided_at: new Date().toISOString(),
+        decided_by: user.id,
+      })
+      .eq("id", suggestion.id)
+      .eq("organization_id", organizationId)
+      .eq("status", "pending")
+      .select("id, kind, value, status, decided_at")
+      .maybeSingle();
+
+    if (decideError) {
+      console.error("Error updating voice profile suggestion:", decideError);
+      return NextResponse.json(
+        { error: "Failed to update voice profile suggestion" },
+        { status: 500 },
+      );
+    }
+
+    if (!decided) {
+      return NextResponse.json(
+        { error: "Suggestion has already been decided" },
+        { status: 409 },
+      );
+    }
+
+    return NextResponse.json({ suggestion: decided, voiceProfile });
+  } catch (error) {
+    console.error("Voice profile suggestion PATCH error:", error);
+    return NextResponse.json(
+      { error: "Failed to update voice profile suggestion" },
+      { status: 500 },
+    );
+  }
+}
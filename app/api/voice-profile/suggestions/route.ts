@@ -0,0 +1,68 @@
+import { NextResponse } from "next/server";
+
+import { createServerSupabaseClient } from "@/lib/supabase/server";
+
+/**
+ * GET /api/voice-profile/suggestions
+ *
+ * Lists the organization's pending voice profile suggestions, learned from
+ * how the team edits AI drafts before publishing. Phrase suggestions with the
+ * most evidence come first.
+ *
+ * @returns JSON object with `suggestions`, or error with appropriate status
+ */
+export async function GET() {
+  try {
+    const supabase = await createServerSupabaseClient();
+
+    // Verify authentication
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    // Get user's organization
+    const { data: userData, error: userError } = await supabase
+      .from("users")
+      .select("organization_id")
+      .eq("id", user.id)
+      .single();
+
+    if (userError || !userData || !userData.organization_id) {
+      return NextResponse.json(
+        { error: "Organization not found" },
+        { status: 404 },
+      );
+    }
+
+    const { data: suggestions, error: suggestionsError } = await supabase
+      .from("voice_profile_suggestions")
+      .select("id, kind, value, detail, evidence_count, created_at")
+      .eq("organization_id", userData.organization_id)
+      .eq("status", "pending")
+      .order("evidence_count", { ascending: false })
+      .order("created_at", { ascending: false });
+
+    if (suggestionsError) {
+      console.error(
+        "Error fetching voice profile suggestions:",
+        suggestionsError,
+      );
+      return NextResponse.json(
+        { error: "Failed to fetch voice profile suggestions" },
+        { status: 500 },
+      );
+    }
+
+    return NextResponse.json({ suggestions: suggestions ?? [] });
+  } catch (error) {
+    console.error("Voice profile suggestions GET error:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch voice profile suggestions" },
+      { status: 500 },
+    );
+  }
+}
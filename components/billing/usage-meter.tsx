@@ -0,0 +1,124 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+import type { AIBudget } from "@/lib/ai/usage";
+
+/**
+ * Usage data from the API
+ */
+interface UsageData extends AIBudget {
+  planTier: string;
+}
+
+const PLAN_TIER_LABELS: Record<string, string> = {
+  starter: "Starter",
+  growth: "Growth",
+  agency: "Agency",
+};
+
+/**
+ * Render the organization's AI usage this month as a meter against its plan's
+ * budget, with a warning past the soft limit and once the budget is used up.
+ *
+ * @returns The rendered usage section
+ */
+export function UsageMeter() {
+  const [usage, setUsage] = useState<UsageData | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let isMounted = true;
+
+    const fetchUsage = async () => {
+      try {
+        const response = await fetch("/api/usage");
+        const data = await response.json();
+        if (!isMounted) return;
+        if (!response.ok) {
+          setError(data.error ?? "Failed to load usage");
+          return;
+        }
+        setUsage(data as UsageData);
+      } catch (fetchError) {
+        console.error("Failed to load usage", fetchError);
+        if (isMounted) {
+          setError("Failed to load usage");
+        }
+      }
+    };
+
+    void fetchUsage();
+
+    return () => {
+      isMounted = false;
+    };
+  }, []);
+
+  const percent = usage
+    ? Math.min(100, Math.round((usage.tokensUsed / usage.budget) * 100))
+    : 0;
+  const resetsOn = usage
+    ? new Date(usage.resetsAt).toLocaleDateString("en-US", {
+        month: "long",
+        day: "numeric",
+        timeZone: "UTC",
+      })
+    : "";
+
+  return (
+    <section className="p-6 bg-surface rounded-lg border border-border">
+      <h2 className="text-lg font-semibold text-foreground">AI Usage</h2>
+
+      {error && <p className="mt-2 text-sm text-red-600">{error}</p>}
+
+      {!usage && !error && (
+        <p className="mt-2 text-sm text-foreground-muted">Loading usage...</p>
+      )}
+
+      {usage && (
+        <>
+          <p className="mt-1 text-foreground-secondary">
+            {usage.tokensUsed.toLocaleString("en-US")} of{" "}
+            {usage.budget.toLocaleString("en-US")} tokens used this month (
+            {PLAN_TIER_LABELS[usage.planTier] ?? usage.planTier} plan). Resets
+            on {resetsOn}.
+          </p>
+
+          <div
+            role="progressbar"
+            aria-label="AI usage this month"
+            aria-valuemin={0}
+            aria-valuemax={100}
+            aria-valuenow={percent}
+            className="mt-4 h-2 w-full overflow-hidden rounded-full bg-background-secondary"
+          >
+            <div
+              className={`h-full rounded-full ${
+                usage.state === "hard_limit"
+                  ? "bg-red-500"
+                  : usage.state === "soft_limit"
+                    ? "bg-yellow-500"
+                    : "bg-primary-600"
+              }`}
+              style={{ width: `${percent}%` }}
+            />
+          </div>
+
+          {usage.state === "soft_limit" && (
+            <p className="mt-3 text-sm text-yellow-800">
+              You have used {percent}% of this month&apos;s AI budget. Response
+              generation stops when it runs out.
+            </p>
+          )}
+          {usage.state === "hard_limit" && (
+            <p role="alert" className="mt-3 text-sm text-red-700">
+              This month&apos;s AI budget is used up. Responses and custom tones
+              can&apos;t be generated until it resets on {resetsOn}.
+            </p>
+          )}
+        </>
+      )}
+    </section>
+  );
+}
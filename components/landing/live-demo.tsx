@@ -3,9 +3,12 @@
 import Link from "next/link";
 import { useMemo, useState } from "react";
 
-const TONES = ["Warm", "Direct", "Professional", "Friendly", "Casual"] as const;
-
-type Tone = (typeof TONES)[number];
+import {
+  buildDraftReply,
+  DRAFT_REPLY_TONES,
+  type DraftReplyTone,
+  normalizeReviewText,
+} from "@/lib/ai/draft-reply";
 
 interface SampleReview {
   id: string;
@@ -31,136 +34,6 @@ const SAMPLE_REVIEWS: SampleReview[] = [
   },
 ];
 
-function normalize(text: string): string {
-  return text.trim().replace(/\s+/g, " ");
-}
-
-function detectTopics(review: string) {
-  const lowered = review.toLowerCase();
-
-  return {
-    mentionsParking: lowered.includes("parking"),
-    mentionsWait:
-      lowered.includes("wait") ||
-      lowered.includes("waiting") ||
-      lowered.includes("late") ||
-      lowered.includes("delay"),
-    mentionsBooking: lowered.includes("booking") || lowered.includes("book"),
-    mentionsPrice:
-      lowered.includes("price") ||
-      lowered.includes("pricing") ||
-      lowered.includes("expensive") ||
-      lowered.includes("fair"),
-  };
-}
-
-/**
- * Constructs a short draft reply tailored to the review content and the chosen tone.
- *
- * Analyzes `review` for mentions of parking, wait times, booking, and pricing and includes
- * tone-appropriate sentences that address any detected topics, then appends a closing line.
- *
- * @param review - The review text to analyze and respond to.
- * @param tone - The reply voice to use (`"Warm" | "Direct" | "Professional" | "Friendly" | "Casual"`).
- * @returns The composed reply text that addresses detected topics and matches the selected tone.
- */
-function buildDraftReply(review: string, tone: Tone): string {
-  const clean = normalize(review);
-  const topics = detectTopics(clean);
-
-  const openerByTone: Record<Tone, string> = {
-    Warm: "Thanks so much for the thoughtful review.",
-    Direct: "Thanks for the review—appreciate you sharing the details.",
-    Professional: "Thank you for taking the time to share your feedback.",
-    Friendly: "Thanks for the review! We really appreciate it.",
-    Casual: "Thanks for the review!",
-  };
-
-  const gratitudeByTone: Record<Tone, string> = {
-    Warm: "I'm really glad you had a good experience overall.",
-    Direct: "I'm glad the visit went well overall.",
-    Professional: "We're pleased to hear you had a positive experience.",
-    Friendly: "So glad everything went well for you!",
-    Casual: "Glad it went well!",
-  };
-
-  const closeByTone: Record<Tone, string> = {
-    Warm: "If you're ever back in, say hi—I'd love to take care of you again. — Alex (owner)",
-    Direct: "If you're back in, we'd love to see you again. — Alex (owner)",
-    Professional: "We look forward to serving you again. — Alex (owner)",
-    Friendly: "Hope to see you again soon! — Alex (owner)",
-    Casual: "See you next time! — Alex (owner)",
-  };
-
-  const sentences: string[] = [];
-  sentences.push(openerByTone[tone]);
-
-  if (topics.mentionsWait) {
-    const waitByTone: Record<Tone, string> = {
-      Warm: "I'm sorry about the wait—that's not the experience we want for you, and we're tightening our scheduling so it doesn't happen again.",
-      Direct: "Sorry about the wait—we're working on improving our scheduling.",
-      Professional:
-        "We apologize for the wait and are taking steps to improve our scheduling process.",
-      Friendly:
-        "Sorry about the wait! We're working on making sure that doesn't happen again.",
-      Casual: "Sorry about the wait—we're fixing that!",
-    };
-    sentences.push(waitByTone[tone]);
-  }
-
-  if (topics.mentionsBooking) {
-    const bookingByTone: Record<Tone, string> = {
-      Warm: "I'm glad the online booking was easy—making things simple is a big priority for us.",
-      Direct: "Glad booking was easy.",
-      Professional:
-        "We're pleased to hear the booking process was straightforward.",
-      Friendly: "So glad booking was easy for you!",
-      Casual: "Glad booking was easy!",
-    };
-    sentences.push(bookingByTone[tone]);
-  }
-
-  if (topics.mentionsParking) {
-    const parkingByTone: Record<Tone, string> = {
-      Warm: "Parking can definitely be tricky. We're updating our directions and signage so it's easier next time.",
-      Direct: "Parking can be tricky—we're improving directions.",
-      Professional:
-        "We're aware parking can be challenging and are working to improve our directions and signage.",
-      Friendly:
-        "Parking can be a bit tricky—we're working on making it easier!",
-      Casual: "Parking's tricky—we're fixing that!",
-    };
-    sentences.push(parkingByTone[tone]);
-  }
-
-  if (topics.mentionsPrice) {
-    const priceByTone: Record<Tone, string> = {
-      Warm: "Thanks for mentioning pricing—we try to keep things straightforward and fair.",
-      Direct: "Appreciate the note on pricing.",
-      Professional:
-        "Thank you for your feedback regarding pricing—we strive to maintain fair and transparent pricing.",
-      Friendly: "Thanks for the note on pricing—we always try to keep it fair!",
-      Casual: "Thanks for the pricing note!",
-    };
-    sentences.push(priceByTone[tone]);
-  }
-
-  // If none of the above topics hit, add a generic gratitude line for balance.
-  if (
-    !topics.mentionsWait &&
-    !topics.mentionsBooking &&
-    !topics.mentionsParking &&
-    !topics.mentionsPrice
-  ) {
-    sentences.push(gratitudeByTone[tone]);
-  }
-
-  sentences.push(closeByTone[tone]);
-
-  // Keep it readable: join with spaces, but avoid double punctuation.
-  return sentences.join(" ");
-}
-
 /**
  * Interactive demo that generates an owner reply draft from a review and a chosen tone.
  *
@@ -172,7 +45,7 @@ function buildDraftReply(review: string, tone: Tone): string {
  * @returns The rendered live-demo section as a JSX.Element
  */
 export function LiveDemo() {
-  const [tone, setTone] = useState<Tone>("Warm");
+  const [tone, setTone] = useState<DraftReplyTone>("Warm");
   const [sampleId, setSampleId] = useState<string>(SAMPLE_REVIEWS[0]?.id ?? "");
   const [reviewText, setReviewText] = useState<string>(
     SAMPLE_REVIEWS[0]?.text ?? "",
@@ -209,7 +82,7 @@ export function LiveDemo() {
           </p>
 
           <div className="flex flex-wrap gap-3">
-            {TONES.map((t) => {
+            {DRAFT_REPLY_TONES.map((t) => {
               const isActive = t === tone;
               return (
                 <button
@@ -300,7 +173,7 @@ export function LiveDemo() {
               </span>
             </div>
             <p className="text-sm text-foreground">
-              “{normalize(reviewText) || "…"}”
+              “{normalizeReviewText(reviewText) || "…"}”
             </p>
           </div>
 
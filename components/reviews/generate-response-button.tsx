@@ -1,8 +1,13 @@
 "use client";
 
 import { useRouter } from "next/navigation";
-import { useCallback, useState } from "react";
-import { ResponseEditModal, type ReviewSummary } from "./response-edit-modal";
+import { useCallback, useRef, useState } from "react";
+import { readServerSentEvents } from "@/lib/utils/sse";
+import {
+  ResponseEditModal,
+  type ResponseVariantOption,
+  type ReviewSummary,
+} from "./response-edit-modal";
 
 /**
  * Response data returned from the /api/responses endpoint
@@ -11,13 +16,44 @@ interface ResponseData {
   id: string;
   reviewId: string;
   generatedText: string;
+  editedText: string | null;
   status: string;
   tokensUsed: number;
+  variants?: ResponseVariantOption[];
+}
+
+/**
+ * Read a streamed draft, passing each piece of text on as it arrives.
+ *
+ * @param body - The event stream from /api/responses/stream
+ * @param onText - Called with each piece of the draft
+ * @returns The saved response from the final `done` event
+ * @throws Error with the server's message when generation fails
+ */
+async function readDraftStream(
+  body: ReadableStream<Uint8Array>,
+  onText: (text: string) => void,
+): Promise<ResponseData> {
+  for await (const { event, data } of readServerSentEvents(body)) {
+    if (event === "text") {
+      onText((JSON.parse(data) as { text: string }).text);
+    } else if (event === "done") {
+      return JSON.parse(data) as ResponseData;
+    } else if (event === "error") {
+      throw new Error(
+        (JSON.parse(data) as { error?: string }).error ??
+          "Failed to generate response. Please try again.",
+      );
+    }
+  }
+
+  throw new Error("The response stopped before it finished. Please try again.");
 }
 
 interface GenerateResponseButtonProps {
   reviewId: string;
   reviewSummary?: ReviewSummary;
+  escalated?: boolean;
   onSuccess?: (data: ResponseData) => void;
   onError?: (error: string) => void;
 }
@@ -25,108 +61,175 @@ interface GenerateResponseButtonProps {
 /**
  * Client component that handles "Generate Response" button click and API call.
  *
- * Calls POST /api/responses with the review ID, shows loading state during the request,
- * and handles success/error states. On success, opens the response edit modal.
+ * Calls POST /api/responses/stream with the review ID and shows the draft as
+ * it is written, with a Stop button that cancels generation. On success, opens
+ * the response edit modal with the saved edit of the draft, if any, otherwise
+ * the AI draft (existing drafts come back as plain JSON rather than a stream).
+ *
+ * Reviews flagged for a human response ask for confirmation first and are then
+ * sent with `overrideEscalation`; the same confirmation is shown if the API
+ * refuses a review with `REVIEW_ESCALATED`.
  *
  * @param reviewId - The ID of the review to generate a response for
  * @param reviewSummary - Optional review context to display in the edit modal
+ * @param escalated - Whether the review was flagged for a human response
  * @param onSuccess - Optional callback invoked on successful response generation with the response data
  * @param onError - Optional callback invoked with error message on failure
  */
 export function GenerateResponseButton({
   reviewId,
   reviewSummary,
+  escalated = false,
   onSuccess,
   onError,
 }: GenerateResponseButtonProps) {
   const router = useRouter();
   const [isLoading, setIsLoading] = useState(false);
+  const [isConfirmingOverride, setIsConfirmingOverride] = useState(false);
+  const [hasOverridden, setHasOverridden] = useState(false);
+
+  // Draft text received so far while streaming
+  const [streamingText, setStreamingText] = useState("");
+  const abortControllerRef = useRef<AbortController | null>(null);
 
   // Modal state
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [generatedText, setGeneratedText] = useState("");
+  const [variants, setVariants] = useState<ResponseVariantOption[]>();
 
-  const handleGenerate = useCallback(async () => {
-    setIsLoading(true);
-
-    try {
-      const response = await fetch("/api/responses", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({ reviewId }),
-      });
-
-      if (!response.ok) {
-        // Try to extract error message from response
-        // Note: response body can only be read once, so we try JSON first
-        let errorMessage = "Failed to generate response. Please try again.";
-        const contentType = response.headers.get("content-type");
-        const isJson = contentType?.includes("application/json");
-
-        if (isJson) {
-          try {
-            const errorData = await response.json();
-            errorMessage = errorData.error ?? errorMessage;
-          } catch {
-            // JSON parsing failed, use generic message with status
-            errorMessage = `Failed to generate response (${response.status} ${response.statusText}). Please try again.`;
-          }
-        } else {
-          const isHtml = contentType?.includes("text/html");
-          // Not JSON (e.g., HTML error page), try to read as text
-          try {
-            const errorText = await response.text();
-            // For HTML responses, always include status (tests + real-world debugging).
-            // For other text responses, only use body if it's short and meaningful.
-            if (
-              !isHtml &&
-              errorText.length > 0 &&
-              errorText.length < 200 &&
-              !errorText.startsWith("<")
-            ) {
-              errorMessage = errorText;
-            } else {
+  const generate = useCallback(
+    async (overrideEscalation: boolean) => {
+      const controller = new AbortController();
+      abortControllerRef.current = controller;
+      setIsLoading(true);
+      setStreamingText("");
+
+      try {
+        const response = await fetch("/api/responses/stream", {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify(
+            overrideEscalation
+              ? { reviewId, overrideEscalation: true }
+              : { reviewId },
+          ),
+          signal: controller.signal,
+        });
+
+        if (!response.ok) {
+          // Try to extract error message from response
+          // Note: response body can only be read once, so we try JSON first
+          let errorMessage = "Failed to generate response. Please try again.";
+          const contentType = response.headers.get("content-type");
+          const isJson = contentType?.includes("application/json");
+
+          if (isJson) {
+            try {
+              const errorData = await response.json();
+              if (errorData.code === "REVIEW_ESCALATED") {
+                setIsConfirmingOverride(true);
+                return;
+              }
+              errorMessage = errorData.error ?? errorMessage;
+            } catch {
+              // JSON parsing failed, use generic message with status
+              errorMessage = `Failed to generate response (${response.status} ${response.statusText}). Please try again.`;
+            }
+          } else {
+            const isHtml = contentType?.includes("text/html");
+            // Not JSON (e.g., HTML error page), try to read as text
+            try {
+              const errorText = await response.text();
+              // For HTML responses, always include status (tests + real-world debugging).
+              // For other text responses, only use body if it's short and meaningful.
+              if (
+                !isHtml &&
+                errorText.length > 0 &&
+                errorText.length < 200 &&
+                !errorText.startsWith("<")
+              ) {
+                errorMessage = errorText;
+              } else {
+                errorMessage = `Failed to generate response (${response.status} ${response.statusText}). Please try again.`;
+              }
+            } catch {
+              // Text parsing also failed, use generic message
               errorMessage = `Failed to generate response (${response.status} ${response.statusText}). Please try again.`;
             }
-          } catch {
-            // Text parsing also failed, use generic message
-            errorMessage = `Failed to generate response (${response.status} ${response.statusText}). Please try again.`;
           }
+          if (onError) {
+            onError(errorMessage);
+          } else {
+            console.error("Failed to generate response:", errorMessage);
+          }
+          return;
+        }
+
+        const isStream = response.headers
+          .get("content-type")
+          ?.includes("text/event-stream");
+        const data =
+          isStream && response.body
+            ? await readDraftStream(response.body, (text) =>
+                setStreamingText((current) => current + text),
+              )
+            : ((await response.json()) as ResponseData);
+
+        // Call onSuccess callback if provided
+        if (onSuccess) {
+          onSuccess(data);
         }
+
+        // Open the modal with the generated text
+        setGeneratedText(data.editedText ?? data.generatedText);
+        setVariants(data.variants);
+        setIsModalOpen(true);
+      } catch (error) {
+        // Stopped by the user; nothing was saved
+        if (controller.signal.aborted) {
+          return;
+        }
+        const errorMessage =
+          error instanceof Error
+            ? error.message
+            : "An unexpected error occurred. Please try again.";
         if (onError) {
           onError(errorMessage);
         } else {
-          console.error("Failed to generate response:", errorMessage);
+          console.error("Error generating response:", errorMessage);
         }
-        return;
+      } finally {
+        abortControllerRef.current = null;
+        setIsLoading(false);
+        setStreamingText("");
       }
+    },
+    [reviewId, onSuccess, onError],
+  );
 
-      const data = (await response.json()) as ResponseData;
+  const handleGenerate = useCallback(() => {
+    if (escalated) {
+      setIsConfirmingOverride(true);
+      return;
+    }
+    void generate(false);
+  }, [escalated, generate]);
 
-      // Call onSuccess callback if provided
-      if (onSuccess) {
-        onSuccess(data);
-      }
+  const handleOverride = useCallback(() => {
+    setIsConfirmingOverride(false);
+    setHasOverridden(true);
+    void generate(true);
+  }, [generate]);
 
-      // Open the modal with the generated text
-      setGeneratedText(data.generatedText);
-      setIsModalOpen(true);
-    } catch (error) {
-      const errorMessage =
-        error instanceof Error
-          ? error.message
-          : "An unexpected error occurred. Please try again.";
-      if (onError) {
-        onError(errorMessage);
-      } else {
-        console.error("Error generating response:", errorMessage);
-      }
-    } finally {
-      setIsLoading(false);
-    }
-  }, [reviewId, onSuccess, onError]);
+  const handleStop = useCallback(() => {
+    abortControllerRef.current?.abort();
+  }, []);
+
+  const handleCancelOverride = useCallback(() => {
+    setIsConfirmingOverride(false);
+  }, []);
 
   const handleModalClose = useCallback(() => {
     setIsModalOpen(false);
@@ -138,15 +241,59 @@ export function GenerateResponseButton({
 
   return (
     <>
-      <button
-        onClick={handleGenerate}
-        type="button"
-        disabled={isLoading}
-        aria-busy={isLoading}
-        className="px-3 py-1.5 bg-primary-600 text-white text-sm font-medium rounded-md hover:bg-primary-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
-      >
-        {isLoading ? "Generating..." : "Generate Response"}
-      </button>
+      <div className="flex flex-col items-end gap-2">
+        {isConfirmingOverride ? (
+          <div role="alert" className="flex items-center gap-2">
+            <span className="text-sm text-red-700">
+              Flagged for a human response. Draft with AI anyway?
+            </span>
+            <button
+              onClick={handleOverride}
+              type="button"
+              className="px-3 py-1.5 bg-red-600 text-white text-sm font-medium rounded-md hover:bg-red-700 transition-colors"
+            >
+              Draft Anyway
+            </button>
+            <button
+              onClick={handleCancelOverride}
+              type="button"
+              className="px-3 py-1.5 text-sm font-medium text-foreground-secondary hover:text-foreground"
+            >
+              Cancel
+            </button>
+          </div>
+        ) : (
+          <div className="flex items-center gap-2">
+            {isLoading && (
+              <button
+                onClick={handleStop}
+                type="button"
+                className="px-3 py-1.5 text-sm font-medium text-foreground-secondary hover:text-foreground"
+              >
+                Stop
+              </button>
+            )}
+            <button
+              onClick={handleGenerate}
+              type="button"
+              disabled={isLoading}
+              aria-busy={isLoading}
+              className="px-3 py-1.5 bg-primary-600 text-white text-sm font-medium rounded-md hover:bg-primary-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isLoading ? "Generating..." : "Generate Response"}
+            </button>
+          </div>
+        )}
+
+        {isLoading && streamingText && (
+          <output
+            aria-label="Draft in progress"
+            className="block max-w-md whitespace-pre-line rounded-md border border-border bg-surface p-3 text-sm text-foreground-secondary"
+          >
+            {streamingText}
+          </output>
+        )}
+      </div>
 
       <ResponseEditModal
         isOpen={isModalOpen}
@@ -155,6 +302,8 @@ export function GenerateResponseButton({
         initialText={generatedText}
         onPublished={handlePublished}
         reviewSummary={reviewSummary}
+        overrideEscalation={hasOverridden}
+        variants={variants}
       />
     </>
   );
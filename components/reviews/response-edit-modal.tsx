@@ -4,6 +4,21 @@ import { useRouter } from "next/navigation";
 import { useCallback, useEffect, useRef, useState } from "react";
 
 import { Button } from "@/components/ui/button";
+import {
+  DEFAULT_REVIEW_LANGUAGE,
+  isReviewLanguage,
+  REVIEW_LANGUAGE_NAMES,
+} from "@/lib/reviews/language";
+import type { GuardrailIssue } from "@/lib/reviews/response-guardrails";
+import {
+  isResponseVariantStyle,
+  isResponseVersionKind,
+  MAX_GUIDANCE_LENGTH,
+  MAX_RESPONSE_VARIANTS,
+  RESPONSE_VARIANT_STYLE_LABELS,
+  RESPONSE_VERSION_KIND_LABELS,
+} from "@/lib/reviews/response-versions";
+import { formatRelativeTime } from "@/lib/utils/format";
 
 /**
  * Review summary data for context display in the modal header
@@ -12,6 +27,29 @@ export interface ReviewSummary {
   reviewerName?: string | null;
   rating?: number | null;
   reviewText?: string | null;
+  /** Detected language (reviews.language); non-English reviews can be translated */
+  language?: string | null;
+}
+
+/**
+ * An alternative draft returned by POST /api/responses when `variants` is above 1
+ */
+export interface ResponseVariantOption {
+  versionId: string | null;
+  style: string;
+  text: string;
+  tokensUsed: number;
+}
+
+/**
+ * A saved version as returned by GET /api/reviews/[reviewId]/response-versions
+ */
+interface ResponseVersionItem {
+  id: string;
+  kind: string;
+  text: string;
+  guidance: string | null;
+  created_at: string | null;
 }
 
 interface ResponseEditModalProps {
@@ -21,6 +59,19 @@ interface ResponseEditModalProps {
   initialText: string;
   onPublished?: () => void;
   reviewSummary?: ReviewSummary | undefined;
+  overrideEscalation?: boolean;
+  variants?: ResponseVariantOption[] | undefined;
+}
+
+/**
+ * Read the error message from a failed API response.
+ */
+async function readErrorMessage(
+  response: Response,
+  fallback: string,
+): Promise<string> {
+  const data = await response.json().catch(() => ({}));
+  return data.error || `${fallback} (${response.status})`;
 }
 
 /**
@@ -28,6 +79,16 @@ interface ResponseEditModalProps {
  *
  * Uses native <dialog> element for accessibility. Displays review context,
  * editable response textarea with character/word counts, and publish/cancel actions.
+ * The draft can be regenerated with optional guidance or saved after editing,
+ * and every earlier version can be restored from the version history.
+ * When several alternative drafts were generated they are shown side by side;
+ * the one picked is sent along when saving or publishing so we can tell which
+ * styles get published. Problems found by the publish guardrails are listed
+ * in the modal; warnings can be published anyway once seen. Reviews in
+ * another language can be shown translated into English.
+ *
+ * @param overrideEscalation - Whether regenerating may bypass the review's escalation flag (the user already chose to draft it)
+ * @param variants - Alternative drafts to pick from (the first is the initial text)
  */
 export function ResponseEditModal({
   isOpen,
@@ -36,6 +97,8 @@ export function ResponseEditModal({
   initialText,
   onPublished,
   reviewSummary,
+  overrideEscalation = false,
+  variants,
 }: ResponseEditModalProps) {
   const router = useRouter();
   const dialogRef = useRef<HTMLDialogElement>(null);
@@ -44,13 +107,69 @@ export function ResponseEditModal({
 
   const [responseText, setResponseText] = useState(initialText);
   const [isPublishing, setIsPublishing] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isRegenerating, setIsRegenerating] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  // Regenerate panel and version history
+  const [isRegenerateOpen, setIsRegenerateOpen] = useState(false);
+  const [guidance, setGuidance] = useState("");
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [versions, setVersions] = useState<ResponseVersionItem[] | null>(null);
+  const [variantCount, setVariantCount] = useState(1);
+
+  // Alternative drafts and the version the current text started from
+  const [variantOptions, setVariantOptions] = useState<ResponseVariantOption[]>(
+    variants ?? [],
+  );
+  const [sourceVersionId, setSourceVersionId] = useState<string | null>(
+    variants?.[0]?.versionId ?? null,
+  );
+
+  // Problems the publish guardrails found in the current text
+  const [guardrailIssues, setGuardrailIssues] = useState<
+    GuardrailIssue[] | null
+  >(null);
+
+  // English translation of a review in another language, fetched on request
+  const [translation, setTranslation] = useState<string | null>(null);
+  const [isTranslationShown, setIsTranslationShown] = useState(false);
+  const [isTranslating, setIsTranslating] = useState(false);
+
+  const reviewLanguage = reviewSummary?.language;
+  const translatableLanguage =
+    reviewSummary?.reviewText &&
+    isReviewLanguage(reviewLanguage) &&
+    reviewLanguage !== DEFAULT_REVIEW_LANGUAGE
+      ? reviewLanguage
+      : null;
+
+  const isBusy = isPublishing || isSaving || isRegenerating;
+  const isBlocked =
+    guardrailIssues?.some((issue) => issue.severity === "block") ?? false;
+
+  // Guardrail results only apply to the text they were found in
+  const changeText = useCallback((text: string) => {
+    setResponseText(text);
+    setGuardrailIssues(null);
+  }, []);
 
   // Sync local state when initialText changes (new modal open)
   useEffect(() => {
-    setResponseText(initialText);
+    changeText(initialText);
     setError(null);
-  }, [initialText]);
+    setNotice(null);
+    setIsRegenerateOpen(false);
+    setGuidance("");
+    setVariantCount(1);
+    setIsHistoryOpen(false);
+    setVersions(null);
+    setVariantOptions(variants ?? []);
+    setSourceVersionId(variants?.[0]?.versionId ?? null);
+    setTranslation(null);
+    setIsTranslationShown(false);
+  }, [initialText, variants, changeText]);
 
   // Handle dialog open/close with focus management
   useEffect(() => {
@@ -105,45 +224,230 @@ export function ResponseEditModal({
   const wordCount =
     responseText.trim() === "" ? 0 : responseText.trim().split(/\s+/).length;
 
-  const handlePublish = useCallback(async () => {
+  const publish = useCallback(
+    async (acknowledgeWarnings: boolean) => {
+      const trimmedText = responseText.trim();
+      if (trimmedText.length === 0) {
+        setError("Response cannot be empty");
+        return;
+      }
+
+      setIsPublishing(true);
+      setError(null);
+
+      try {
+        const response = await fetch(`/api/reviews/${reviewId}/publish`, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({
+            response_text: trimmedText,
+            ...(sourceVersionId ? { source_version_id: sourceVersionId } : {}),
+            ...(acknowledgeWarnings ? { acknowledge_warnings: true } : {}),
+          }),
+        });
+
+        if (!response.ok) {
+          const data = await response.json().catch(() => ({}));
+          if (
+            (data.code === "RESPONSE_BLOCKED" ||
+              data.code === "RESPONSE_WARNINGS") &&
+            Array.isArray(data.issues)
+          ) {
+            setGuardrailIssues(data.issues);
+            return;
+          }
+          throw new Error(
+            data.error || `Failed to publish (${response.status})`,
+          );
+        }
+
+        // Success - close modal and refresh
+        onClose();
+        if (onPublished) {
+          onPublished();
+        } else {
+          router.refresh();
+        }
+      } catch (err) {
+        setError(
+          err instanceof Error ? err.message : "Failed to publish response",
+        );
+      } finally {
+        setIsPublishing(false);
+      }
+    },
+    [responseText, reviewId, sourceVersionId, onClose, onPublished, router],
+  );
+
+  const handlePublish = useCallback(() => publish(false), [publish]);
+
+  const handlePublishAnyway = useCallback(() => publish(true), [publish]);
+
+  const handleSaveDraft = useCallback(async () => {
     const trimmedText = responseText.trim();
     if (trimmedText.length === 0) {
       setError("Response cannot be empty");
       return;
     }
 
-    setIsPublishing(true);
+    setIsSaving(true);
     setError(null);
+    setNotice(null);
 
     try {
-      const response = await fetch(`/api/reviews/${reviewId}/publish`, {
+      const response = await fetch("/api/responses", {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          reviewId,
+          text: trimmedText,
+          ...(sourceVersionId ? { sourceVersionId } : {}),
+        }),
+      });
+
+      if (!response.ok) {
+        throw new Error(await readErrorMessage(response, "Failed to save"));
+      }
+
+      setNotice("Draft saved");
+      // Refetch on next open so the new version shows up
+      setIsHistoryOpen(false);
+      setVersions(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save draft");
+    } finally {
+      setIsSaving(false);
+    }
+  }, [responseText, reviewId, sourceVersionId]);
+
+  const handleRegenerate = useCallback(async () => {
+    setIsRegenerating(true);
+    setError(null);
+    setNotice(null);
+
+    try {
+      const trimmedGuidance = guidance.trim();
+      const response = await fetch("/api/responses", {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
         },
-        body: JSON.stringify({ response_text: trimmedText }),
+        body: JSON.stringify({
+          reviewId,
+          regenerate: true,
+          ...(trimmedGuidance ? { guidance: trimmedGuidance } : {}),
+          ...(variantCount > 1 ? { variants: variantCount } : {}),
+          ...(overrideEscalation ? { overrideEscalation: true } : {}),
+        }),
       });
 
       if (!response.ok) {
-        const data = await response.json().catch(() => ({}));
-        throw new Error(data.error || `Failed to publish (${response.status})`);
+        throw new Error(
+          await readErrorMessage(response, "Failed to regenerate"),
+        );
       }
 
-      // Success - close modal and refresh
-      onClose();
-      if (onPublished) {
-        onPublished();
-      } else {
-        router.refresh();
+      const data = (await response.json()) as {
+        generatedText: string;
+        variants?: ResponseVariantOption[];
+      };
+      changeText(data.generatedText);
+      setVariantOptions(data.variants ?? []);
+      setSourceVersionId(data.variants?.[0]?.versionId ?? null);
+      setIsRegenerateOpen(false);
+      setGuidance("");
+      setIsHistoryOpen(false);
+      setVersions(null);
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : "Failed to regenerate response",
+      );
+    } finally {
+      setIsRegenerating(false);
+    }
+  }, [guidance, overrideEscalation, reviewId, variantCount, changeText]);
+
+  const handleToggleHistory = useCallback(async () => {
+    if (isHistoryOpen) {
+      setIsHistoryOpen(false);
+      return;
+    }
+
+    setIsHistoryOpen(true);
+    setVersions(null);
+    try {
+      const response = await fetch(
+        `/api/reviews/${reviewId}/response-versions`,
+      );
+      if (!response.ok) {
+        throw new Error(
+          await readErrorMessage(response, "Failed to load history"),
+        );
       }
+      const data = (await response.json()) as {
+        versions: ResponseVersionItem[];
+      };
+      setVersions(data.versions);
     } catch (err) {
+      setIsHistoryOpen(false);
       setError(
-        err instanceof Error ? err.message : "Failed to publish response",
+        err instanceof Error ? err.message : "Failed to load version history",
+      );
+    }
+  }, [isHistoryOpen, reviewId]);
+
+  const handleToggleTranslation = useCallback(async () => {
+    if (isTranslationShown) {
+      setIsTranslationShown(false);
+      return;
+    }
+    if (translation) {
+      setIsTranslationShown(true);
+      return;
+    }
+
+    setIsTranslating(true);
+    try {
+      const response = await fetch(`/api/reviews/${reviewId}/translation`);
+      if (!response.ok) {
+        throw new Error(
+          await readErrorMessage(response, "Failed to translate review"),
+        );
+      }
+      const data = (await response.json()) as { translation: string };
+      setTranslation(data.translation);
+      setIsTranslationShown(true);
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : "Failed to translate review",
       );
     } finally {
-      setIsPublishing(false);
+      setIsTranslating(false);
     }
-  }, [responseText, reviewId, onClose, onPublished, router]);
+  }, [isTranslationShown, translation, reviewId]);
+
+  const handleRestore = useCallback(
+    (version: ResponseVersionItem) => {
+      changeText(version.text);
+      setSourceVersionId(version.id);
+      setNotice(null);
+      textareaRef.current?.focus();
+    },
+    [changeText],
+  );
+
+  const handleChooseVariant = useCallback(
+    (variant: ResponseVariantOption) => {
+      changeText(variant.text);
+      setSourceVersionId(variant.versionId);
+      setNotice(null);
+    },
+    [changeText],
+  );
 
   // Render star rating - uses star position as key since order is fixed
   const renderStars = (rating: number) => {
@@ -205,6 +509,28 @@ export function ResponseEditModal({
                     {reviewSummary.reviewText}
                   </p>
                 )}
+                {translatableLanguage && (
+                  <div className="mt-2">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={handleToggleTranslation}
+                      aria-expanded={isTranslationShown}
+                      disabled={isTranslating}
+                    >
+                      {isTranslating
+                        ? "Translating..."
+                        : isTranslationShown
+                          ? "Hide translation"
+                          : `Show translation from ${REVIEW_LANGUAGE_NAMES[translatableLanguage]}`}
+                    </Button>
+                    {isTranslationShown && translation && (
+                      <p className="mt-1 text-sm italic text-foreground-secondary">
+                        {translation}
+                      </p>
+                    )}
+                  </div>
+                )}
               </div>
             )}
           </div>
@@ -221,6 +547,155 @@ export function ResponseEditModal({
               </div>
             )}
 
+            {guardrailIssues && (
+              <section
+                aria-label="Publish checks"
+                className={`mb-4 rounded-md border p-3 text-sm ${
+                  isBlocked
+                    ? "border-red-200 bg-red-50 text-red-700"
+                    : "border-yellow-200 bg-yellow-50 text-yellow-800"
+                }`}
+              >
+                <p className="font-medium">
+                  {isBlocked
+                    ? "Fix these before publishing:"
+                    : "Check these before publishing:"}
+                </p>
+                <ul className="mt-1 list-disc pl-5">
+                  {guardrailIssues.map((issue) => (
+                    <li key={issue.check}>
+                      {issue.severity === "block" ? "Must fix: " : "Warning: "}
+                      {issue.message}
+                    </li>
+                  ))}
+                </ul>
+                {!isBlocked && (
+                  <Button
+                    variant="secondary"
+                    size="sm"
+                    onClick={handlePublishAnyway}
+                    isLoading={isPublishing}
+                    disabled={isBusy}
+                    className="mt-2"
+                  >
+                    Publish Anyway
+                  </Button>
+                )}
+              </section>
+            )}
+
+            {notice && (
+              <output className="mb-4 block text-sm text-green-700">
+                {notice}
+              </output>
+            )}
+
+            {/* Regenerate with optional guidance */}
+            {isRegenerateOpen && (
+              <div className="mb-4 flex items-end gap-2">
+                <div className="flex-1">
+                  <label
+                    htmlFor="regenerate-guidance"
+                    className="mb-1 block text-sm font-medium text-foreground"
+                  >
+                    Guidance for the new draft (optional)
+                  </label>
+                  <input
+                    id="regenerate-guidance"
+                    type="text"
+                    value={guidance}
+                    onChange={(e) => setGuidance(e.target.value)}
+                    maxLength={MAX_GUIDANCE_LENGTH}
+                    placeholder="e.g. shorter, mention our new hours"
+                    className="w-full rounded-md border border-border bg-surface px-3 py-2 text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-primary-500"
+                    disabled={isBusy}
+                  />
+                </div>
+                <div>
+                  <label
+                    htmlFor="regenerate-count"
+                    className="mb-1 block text-sm font-medium text-foreground"
+                  >
+                    Drafts
+                  </label>
+                  <select
+                    id="regenerate-count"
+                    value={variantCount}
+                    onChange={(e) => setVariantCount(Number(e.target.value))}
+                    className="rounded-md border border-border bg-surface px-2 py-2 text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-primary-500"
+                    disabled={isBusy}
+                  >
+                    {Array.from(
+                      { length: MAX_RESPONSE_VARIANTS },
+                      (_, i) => i + 1,
+                    ).map((count) => (
+                      <option key={count} value={count}>
+                        {count}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <Button
+                  variant="secondary"
+                  size="sm"
+                  onClick={handleRegenerate}
+                  isLoading={isRegenerating}
+                  disabled={isBusy}
+                >
+                  Generate New Draft
+                </Button>
+              </div>
+            )}
+
+            {/* Alternative drafts */}
+            {variantOptions.length > 1 && (
+              <section
+                aria-label="Drafts to choose from"
+                className="mb-4 grid gap-3 sm:grid-cols-2"
+              >
+                {variantOptions.map((variant, index) => {
+                  const isChosen =
+                    variant.versionId !== null &&
+                    variant.versionId === sourceVersionId;
+                  const label = isResponseVariantStyle(variant.style)
+                    ? RESPONSE_VARIANT_STYLE_LABELS[variant.style]
+                    : variant.style;
+                  return (
+                    <article
+                      key={variant.versionId ?? `${variant.style}-${index}`}
+                      aria-label={label}
+                      className={`flex flex-col rounded-md border p-3 ${
+                        isChosen
+                          ? "border-primary-500 ring-1 ring-primary-500"
+                          : "border-border"
+                      }`}
+                    >
+                      <div className="mb-1 flex items-center justify-between gap-2">
+                        <span className="text-sm font-medium text-foreground">
+                          {label}
+                        </span>
+                        <span className="text-xs text-foreground-muted">
+                          {variant.tokensUsed} tokens
+                        </span>
+                      </div>
+                      <p className="mb-2 flex-1 whitespace-pre-line text-sm text-foreground-secondary">
+                        {variant.text}
+                      </p>
+                      <Button
+                        variant={isChosen ? "primary" : "secondary"}
+                        size="sm"
+                        onClick={() => handleChooseVariant(variant)}
+                        aria-pressed={isChosen}
+                        disabled={isBusy}
+                      >
+                        Use This Draft
+                      </Button>
+                    </article>
+                  );
+                })}
+              </section>
+            )}
+
             {/* Textarea */}
             <label htmlFor="response-text" className="sr-only">
               Response text
@@ -229,10 +704,10 @@ export function ResponseEditModal({
               ref={textareaRef}
               id="response-text"
               value={responseText}
-              onChange={(e) => setResponseText(e.target.value)}
+              onChange={(e) => changeText(e.target.value)}
               className="h-64 w-full resize-none rounded-md border border-border bg-surface p-3 text-foreground focus:outline-none focus:ring-2 focus:ring-primary-500 focus:ring-offset-2"
               placeholder="Edit your response..."
-              disabled={isPublishing}
+              disabled={isBusy}
             />
 
             {/* Character/word count */}
@@ -241,24 +716,105 @@ export function ResponseEditModal({
               <span aria-hidden="true">·</span>
               <span>{wordCount} words</span>
             </div>
+
+            {/* Version history */}
+            {isHistoryOpen && (
+              <section aria-label="Version history" className="mt-4">
+                {versions === null ? (
+                  <p className="text-sm text-foreground-muted">
+                    Loading history...
+                  </p>
+                ) : versions.length === 0 ? (
+                  <p className="text-sm text-foreground-muted">
+                    No earlier versions yet.
+                  </p>
+                ) : (
+                  <ul className="space-y-2">
+                    {versions.map((version) => (
+                      <li
+                        key={version.id}
+                        className="rounded-md border border-border p-3"
+                      >
+                        <div className="flex items-center justify-between gap-2">
+                          <span className="text-sm font-medium text-foreground">
+                            {isResponseVersionKind(version.kind)
+                              ? RESPONSE_VERSION_KIND_LABELS[version.kind]
+                              : version.kind}
+                            {version.created_at && (
+                              <span className="font-normal text-foreground-muted">
+                                {" · "}
+                                {formatRelativeTime(version.created_at)}
+                              </span>
+                            )}
+                          </span>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleRestore(version)}
+                            disabled={isBusy}
+                          >
+                            Restore
+                          </Button>
+                        </div>
+                        {version.guidance && (
+                          <p className="mt-1 text-xs italic text-foreground-muted">
+                            Guidance: {version.guidance}
+                          </p>
+                        )}
+                        <p className="mt-1 line-clamp-2 text-sm text-foreground-secondary">
+                          {version.text}
+                        </p>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </section>
+            )}
           </div>
 
           {/* Footer */}
-          <div className="flex justify-end gap-3 border-t border-border px-6 py-4">
-            <Button
-              variant="secondary"
-              onClick={onClose}
-              disabled={isPublishing}
-            >
-              Cancel
-            </Button>
-            <Button
-              variant="primary"
-              onClick={handlePublish}
-              isLoading={isPublishing}
-            >
-              Publish
-            </Button>
+          <div className="flex items-center justify-between gap-3 border-t border-border px-6 py-4">
+            <div className="flex gap-2">
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setIsRegenerateOpen((open) => !open)}
+                aria-expanded={isRegenerateOpen}
+                disabled={isBusy}
+              >
+                Regenerate
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={handleToggleHistory}
+                aria-expanded={isHistoryOpen}
+                disabled={isBusy}
+              >
+                History
+              </Button>
+            </div>
+            <div className="flex gap-3">
+              <Button variant="secondary" onClick={onClose} disabled={isBusy}>
+                Cancel
+              </Button>
+              <Button
+                variant="secondary"
+                onClick={handleSaveDraft}
+                isLoading={isSaving}
+                disabled={isBusy}
+              >
+                Save Draft
+              </Button>
+              <Button
+                variant="primary"
+                onClick={handlePublish}
+                isLoading={isPublishing}
+                disabled={isBusy}
+              >
+                Publish
+              </Button>
+            </div>
           </div>
         </div>
       </div>
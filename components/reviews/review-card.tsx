@@ -1,8 +1,22 @@
 import type { ReactNode } from "react";
-import type { Review } from "@/lib/supabase/types";
+import {
+  ESCALATION_REASON_LABELS,
+  isEscalationReason,
+} from "@/lib/reviews/escalation";
+import type { Response, Review } from "@/lib/supabase/types";
+
+/**
+ * Published response fields needed to show the reply live on Google
+ */
+export type ReviewCardReply = Pick<
+  Response,
+  "source" | "final_text" | "google_reply_text"
+>;
 
 interface ReviewCardProps {
   review: Review;
+  reply?: ReviewCardReply | null;
+  tags?: string[];
   onGenerateResponse?: (reviewId: string) => void;
   generateResponseButton?: ReactNode;
 }
@@ -10,6 +24,7 @@ interface ReviewCardProps {
 const STATUS_STYLES: Record<string, string> = {
   responded: "bg-green-100 text-green-700",
   ignored: "bg-gray-100 text-gray-700",
+  deleted: "bg-red-100 text-red-700",
   pending: "bg-yellow-100 text-yellow-700",
 };
 
@@ -35,18 +50,42 @@ function StatusBadge({ status }: { status: string }) {
  *
  * Renders reviewer avatar initial, name (falls back to "Anonymous"), review date (formatted or "Unknown date"), a five-star rating visual, review text (or "No review text"), and a status badge. When `review.status` is "pending" and `onGenerateResponse` is provided, shows a "Generate Response" button that invokes the callback with the review's `id`.
  *
+ * Reviews flagged for escalation get a red border and a "Needs human response" badge naming the reason and the words that triggered it.
+ *
+ * When `reply` is provided, shows the reply as it currently appears on Google, labelled by where it was written, and notes when a reply published from Replily was since edited on Google.
+ *
  * @param review - The review data to display (rating, reviewer_name, review_date, review_text, status, id).
+ * @param reply - Optional published response for the review.
+ * @param tags - Optional topic labels the review was tagged with, shown as chips under the text.
  * @param onGenerateResponse - Optional callback invoked as `onGenerateResponse(reviewId)` when the "Generate Response" button is clicked.
  */
 export function ReviewCard({
   review,
+  reply,
+  tags,
   onGenerateResponse,
   generateResponseButton,
 }: ReviewCardProps) {
   const stars = Array.from({ length: 5 }, (_, i) => i < (review.rating ?? 0));
+  const escalationLabel = review.escalation_reason
+    ? isEscalationReason(review.escalation_reason)
+      ? ESCALATION_REASON_LABELS[review.escalation_reason]
+      : review.escalation_reason
+    : null;
+  const liveReplyText = reply
+    ? (reply.google_reply_text ?? reply.final_text)
+    : null;
+  const replyEditedOnGoogle =
+    !!reply &&
+    reply.source !== "external" &&
+    reply.google_reply_text !== null &&
+    reply.final_text !== null &&
+    reply.google_reply_text !== reply.final_text;
 
   return (
-    <div className="p-4 bg-surface rounded-lg border border-border">
+    <div
+      className={`p-4 bg-surface rounded-lg border ${escalationLabel ? "border-red-300" : "border-border"}`}
+    >
       {/* Header */}
       <div className="flex items-start justify-between">
         <div className="flex items-center gap-3">
@@ -87,11 +126,52 @@ export function ReviewCard({
         </div>
       </div>
 
+      {/* Escalation badge */}
+      {escalationLabel && (
+        <p className="mt-3 inline-flex px-2 py-1 rounded-full bg-red-100 text-red-700 text-xs font-medium">
+          Needs human response: {escalationLabel}
+          {review.escalation_detail ? ` ("${review.escalation_detail}")` : ""}
+        </p>
+      )}
+
       {/* Review Text */}
       <p className="mt-3 text-foreground">
         {review.review_text ?? "No review text"}
       </p>
 
+      {/* Topic tags */}
+      {tags && tags.length > 0 && (
+        <ul aria-label="Topics" className="mt-2 flex flex-wrap gap-1">
+          {tags.map((label) => (
+            <li
+              key={label}
+              className="px-2 py-0.5 rounded-full bg-background-secondary text-xs text-foreground-secondary"
+            >
+              {label}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {/* Reply live on Google */}
+      {reply && liveReplyText && (
+        <div className="mt-3 pl-3 border-l-2 border-border">
+          <p className="text-xs font-medium text-foreground-muted">
+            {reply.source === "external"
+              ? "Owner reply (posted on Google)"
+              : "Your reply"}
+          </p>
+          <p className="mt-1 text-sm text-foreground-secondary">
+            {liveReplyText}
+          </p>
+          {replyEditedOnGoogle && (
+            <p className="mt-1 text-xs text-yellow-700">
+              Edited on Google since it was published from Replily
+            </p>
+          )}
+        </div>
+      )}
+
       {/* Actions */}
       <div className="mt-4 flex items-center justify-between">
         <StatusBadge status={review.status ?? "pending"} />
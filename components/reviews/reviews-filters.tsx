@@ -3,25 +3,41 @@
 import { usePathname, useRouter, useSearchParams } from "next/navigation";
 import { useCallback, useEffect, useMemo, useRef } from "react";
 
+import {
+  REVIEW_LANGUAGE_NAMES,
+  REVIEW_LANGUAGES,
+} from "@/lib/reviews/language";
+import type { TagOption } from "@/lib/reviews/tags";
+
 interface ReviewsFiltersProps {
   currentStatus?: string | null | undefined;
   currentRating?: string | null | undefined;
+  currentTag?: string | null | undefined;
+  currentLanguage?: string | null | undefined;
+  tagOptions?: TagOption[];
   basePath?: string;
 }
 
 /**
  * Client component for reviews page filters that updates URL search params.
  *
- * Handles status and rating filter dropdowns, updating the URL when selections change.
- * Selecting "All Ratings" or "All Status" removes the corresponding search param.
+ * Handles status, rating, topic and language filter dropdowns, updating the URL when selections change.
+ * Selecting "All Ratings", "All Status", "All Topics" or "All Languages" removes the corresponding search param.
+ * The topic dropdown is only shown when tag options are provided.
  *
  * @param currentStatus - Current status filter value from URL (pending, responded, ignored)
  * @param currentRating - Current rating filter value from URL (1-5)
+ * @param currentTag - Current tag filter value from URL (e.g. parking)
+ * @param currentLanguage - Current language filter value from URL (e.g. es)
+ * @param tagOptions - Tags the reviews can be filtered by
  * @param basePath - Optional base path for navigation. If not provided, uses current pathname from usePathname() or falls back to '/reviews'
  */
 export function ReviewsFilters({
   currentStatus,
   currentRating,
+  currentTag,
+  currentLanguage,
+  tagOptions,
   basePath,
 }: ReviewsFiltersProps) {
   const router = useRouter();
@@ -86,8 +102,50 @@ export function ReviewsFilters({
     [updateFilter],
   );
 
+  const handleTagChange = useCallback(
+    (e: React.ChangeEvent<HTMLSelectElement>) => {
+      updateFilter("tag", e.target.value);
+    },
+    [updateFilter],
+  );
+
+  const handleLanguageChange = useCallback(
+    (e: React.ChangeEvent<HTMLSelectElement>) => {
+      updateFilter("language", e.target.value);
+    },
+    [updateFilter],
+  );
+
   return (
     <div className="flex items-center gap-2">
+      {tagOptions && tagOptions.length > 0 && (
+        <select
+          aria-label="Filter by topic"
+          value={currentTag ?? "all"}
+          onChange={handleTagChange}
+          className="px-3 py-2 bg-surface border border-border rounded-md text-sm text-foreground"
+        >
+          <option value="all">All Topics</option>
+          {tagOptions.map((option) => (
+            <option key={option.tag} value={option.tag}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      )}
+      <select
+        aria-label="Filter by language"
+        value={currentLanguage ?? "all"}
+        onChange={handleLanguageChange}
+        className="px-3 py-2 bg-surface border border-border rounded-md text-sm text-foreground"
+      >
+        <option value="all">All Languages</option>
+        {REVIEW_LANGUAGES.map((language) => (
+          <option key={language} value={language}>
+            {REVIEW_LANGUAGE_NAMES[language]}
+          </option>
+        ))}
+      </select>
       <select
         aria-label="Filter by rating"
         value={currentRating ?? "all"}
@@ -111,6 +169,7 @@ export function ReviewsFilters({
         <option value="pending">Pending</option>
         <option value="responded">Responded</option>
         <option value="ignored">Ignored</option>
+        <option value="deleted">Deleted</option>
       </select>
     </div>
   );
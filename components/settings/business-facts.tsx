@@ -0,0 +1,414 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+import {
+  BUSINESS_FACT_CATEGORIES,
+  BUSINESS_FACT_CATEGORY_LABELS,
+  type BusinessFactCategory,
+  isBusinessFactCategory,
+  MAX_FACT_CONTENT_LENGTH,
+} from "@/lib/reviews/business-facts";
+
+/**
+ * Fact data from the API
+ */
+interface FactData {
+  id: string;
+  location_id: string | null;
+  category: string;
+  title: string;
+  content: string;
+  keywords: string[];
+}
+
+interface LocationData {
+  id: string;
+  name: string;
+}
+
+interface FactsResponse {
+  facts?: FactData[];
+  locations?: LocationData[];
+  error?: string;
+}
+
+interface FactResponse {
+  fact?: FactData;
+  error?: string;
+}
+
+/**
+ * Values of the add/edit form
+ */
+interface FactForm {
+  category: BusinessFactCategory;
+  title: string;
+  content: string;
+  keywords: string;
+  locationId: string;
+}
+
+const EMPTY_FORM: FactForm = {
+  category: "hours",
+  title: "",
+  content: "",
+  keywords: "",
+  locationId: "",
+};
+
+/**
+ * Render the organization's business facts (hours, policies, staff, and so
+ * on) with a form to add or edit them and a Delete button for each. Drafts
+ * mention the facts that relate to the review being answered.
+ *
+ * @returns The rendered facts list and form
+ */
+export function BusinessFacts() {
+  const [facts, setFacts] = useState<FactData[]>([]);
+  const [locations, setLocations] = useState<LocationData[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [form, setForm] = useState<FactForm>(EMPTY_FORM);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let isMounted = true;
+
+    const fetchFacts = async () => {
+      try {
+        const response = await fetch("/api/business-facts");
+        const data: FactsResponse = await response.json();
+        if (!isMounted) return;
+
+        if (!response.ok) {
+          setError(data.error ?? "Failed to load business facts.");
+          return;
+        }
+        setFacts(data.facts ?? []);
+        setLocations(data.locations ?? []);
+      } catch (error) {
+        console.error("Failed to load business facts", error);
+        if (isMounted) {
+          setError("Unable to load business facts. Please try again.");
+        }
+      } finally {
+        if (isMounted) {
+          setIsLoading(false);
+        }
+      }
+    };
+
+    void fetchFacts();
+
+    return () => {
+      isMounted = false;
+    };
+  }, []);
+
+  const updateForm = (changes: Partial<FactForm>) => {
+    setForm((current) => ({ ...current, ...changes }));
+  };
+
+  const startEditing = (fact: FactData) => {
+    setEditingId(fact.id);
+    setError(null);
+    setForm({
+      category: isBusinessFactCategory(fact.category) ? fact.category : "other",
+      title: fact.title,
+      content: fact.content,
+      keywords: fact.keywords.join(", "),
+      locationId: fact.location_id ?? "",
+    });
+  };
+
+  const resetForm = () => {
+    setEditingId(null);
+    setForm(EMPTY_FORM);
+  };
+
+  const saveFact = async () => {
+    if (!form.title.trim() || !form.content.trim()) {
+      setError("Enter a title and the fact itself.");
+      return;
+    }
+
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      const response = await fetch(
+        editingId ? `/api/business-facts/${editingId}` : "/api/business-facts",
+        {
+          method: editingId ? "PATCH" : "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            category: form.category,
+            title: form.title,
+            content: form.content,
+            keywords: form.keywords
+              .split(",")
+              .map((keyword) => keyword.trim())
+              .filter(Boolean),
+            location_id: form.locationId || null,
+          }),
+        },
+      );
+      const data: FactResponse = await response.json().catch(() => ({}));
+
+      if (!response.ok || !data.fact) {
+        setError(data.error ?? "Failed to save business fact.");
+        return;
+      }
+
+      const saved = data.fact;
+      setFacts((current) =>
+        editingId
+          ? current.map((fact) => (fact.id === saved.id ? saved : fact))
+          : [...current, saved],
+      );
+      resetForm();
+    } catch (error) {
+      console.error("Failed to save business fact", error);
+      setError("Unable to save business fact. Please try again.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const deleteFact = async (fact: FactData) => {
+    setDeletingId(fact.id);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/business-facts/${fact.id}`, {
+        method: "DELETE",
+      });
+
+      // Already deleted elsewhere: drop it from the list like a success
+      if (!response.ok && response.status !== 404) {
+        const data: { error?: string } = await response
+          .json()
+          .catch(() => ({}));
+        setError(data.error ?? "Failed to delete business fact.");
+        return;
+      }
+
+      setFacts((current) => current.filter((entry) => entry.id !== fact.id));
+      if (editingId === fact.id) {
+        resetForm();
+      }
+    } catch (error) {
+      console.error("Failed to delete business fact", error);
+      setError("Unable to delete business fact. Please try again.");
+    } finally {
+      setDeletingId(null);
+    }
+  };
+
+  const locationName = (locationId: string | null) =>
+    locationId
+      ? (locations.find((location) => location.id === locationId)?.name ??
+        "One location")
+      : "All locations";
+
+  if (isLoading) {
+    return (
+      <output aria-live="polite" className="text-sm text-foreground-secondary">
+        Loading business facts...
+      </output>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {facts.length > 0 ? (
+        <ul className="space-y-2">
+          {facts.map((fact) => (
+            <li
+              key={fact.id}
+              className="flex items-start justify-between gap-4 p-3 border border-border rounded-md"
+            >
+              <div className="min-w-0 text-sm">
+                <p className="text-foreground">
+                  <span className="font-medium">{fact.title}</span>{" "}
+                  <span className="text-foreground-muted">
+                    (
+                    {isBusinessFactCategory(fact.category)
+                      ? BUSINESS_FACT_CATEGORY_LABELS[fact.category]
+                      : fact.category}
+                    , {locationName(fact.location_id)})
+                  </span>
+                </p>
+                <p className="text-foreground-secondary">{fact.content}</p>
+                {fact.keywords.length > 0 ? (
+                  <p className="text-foreground-muted">
+                    Keywords: {fact.keywords.join(", ")}
+                  </p>
+                ) : null}
+              </div>
+              <div className="flex shrink-0 gap-2">
+                <button
+                  type="button"
+                  onClick={() => startEditing(fact)}
+                  disabled={isSaving || deletingId !== null}
+                  aria-label={`Edit ${fact.title}`}
+                  className="px-3 py-1 border border-border rounded-md text-sm font-medium text-foreground hover:bg-surface-hover transition-colors disabled:opacity-60 disabled:cursor-not-allowed"
+                >
+                  Edit
+                </button>
+                <button
+                  type="button"
+                  onClick={() => deleteFact(fact)}
+                  disabled={isSaving || deletingId !== null}
+                  aria-label={`Delete ${fact.title}`}
+                  className="px-3 py-1 border border-border rounded-md text-sm font-medium text-red-600 hover:bg-surface-hover transition-colors disabled:opacity-60 disabled:cursor-not-allowed"
+                >
+                  Delete
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-sm text-foreground-secondary">
+          No business facts yet. Add your opening hours, policies, or anything
+          customers often ask about.
+        </p>
+      )}
+
+      <div className="space-y-4">
+        <h3 className="text-sm font-medium text-foreground">
+          {editingId ? "Edit fact" : "Add a fact"}
+        </h3>
+        <div className="flex flex-wrap gap-4">
+          <div>
+            <label
+              className="block text-sm font-medium text-foreground"
+              htmlFor="fact-category"
+            >
+              Category
+            </label>
+            <select
+              id="fact-category"
+              value={form.category}
+              onChange={(event) =>
+                updateForm({
+                  category: event.target.value as BusinessFactCategory,
+                })
+              }
+              className="mt-1 px-3 py-2 bg-surface border border-border rounded-md text-foreground"
+            >
+              {BUSINESS_FACT_CATEGORIES.map((category) => (
+                <option key={category} value={category}>
+                  {BUSINESS_FACT_CATEGORY_LABELS[category]}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label
+              className="block text-sm font-medium text-foreground"
+              htmlFor="fact-location"
+            >
+              Applies to
+            </label>
+            <select
+              id="fact-location"
+              value={form.locationId}
+              onChange={(event) =>
+                updateForm({ locationId: event.target.value })
+              }
+              className="mt-1 px-3 py-2 bg-surface border border-border rounded-md text-foreground"
+            >
+              <option value="">All locations</option>
+              {locations.map((location) => (
+                <option key={location.id} value={location.id}>
+                  {location.name}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+        <div>
+          <label
+            className="block text-sm font-medium text-foreground"
+            htmlFor="fact-title"
+          >
+            Title
+          </label>
+          <input
+            id="fact-title"
+            type="text"
+            value={form.title}
+            onChange={(event) => updateForm({ title: event.target.value })}
+            maxLength={100}
+            className="mt-1 w-full max-w-md px-3 py-2 bg-surface border border-border rounded-md text-foreground placeholder:text-foreground-muted"
+            placeholder="e.g., Opening hours"
+          />
+        </div>
+        <div>
+          <label
+            className="block text-sm font-medium text-foreground"
+            htmlFor="fact-content"
+          >
+            Fact
+          </label>
+          <textarea
+            id="fact-content"
+            value={form.content}
+            onChange={(event) => updateForm({ content: event.target.value })}
+            maxLength={MAX_FACT_CONTENT_LENGTH}
+            rows={2}
+            className="mt-1 w-full px-3 py-2 bg-surface border border-border rounded-md text-foreground placeholder:text-foreground-muted"
+            placeholder="e.g., Open 8am-6pm Monday to Saturday, closed Sundays"
+          />
+        </div>
+        <div>
+          <label
+            className="block text-sm font-medium text-foreground"
+            htmlFor="fact-keywords"
+          >
+            Keywords
+          </label>
+          <p className="text-sm text-foreground-muted">
+            Comma-separated words that should bring this fact up
+          </p>
+          <input
+            id="fact-keywords"
+            type="text"
+            value={form.keywords}
+            onChange={(event) => updateForm({ keywords: event.target.value })}
+            className="mt-1 w-full max-w-md px-3 py-2 bg-surface border border-border rounded-md text-foreground placeholder:text-foreground-muted"
+            placeholder="e.g., sunday, weekend"
+          />
+        </div>
+        <div className="flex gap-2">
+          <button
+            type="button"
+            onClick={saveFact}
+            disabled={isSaving}
+            aria-busy={isSaving}
+            className="px-4 py-2 bg-primary-600 text-white rounded-md font-medium hover:bg-primary-700 transition-colors disabled:opacity-60 disabled:cursor-not-allowed"
+          >
+            {isSaving ? "Saving..." : editingId ? "Save Fact" : "Add Fact"}
+          </button>
+          {editingId ? (
+            <button
+              type="button"
+              onClick={resetForm}
+              disabled={isSaving}
+              className="px-4 py-2 border border-border rounded-md font-medium text-foreground hover:bg-surface-hover transition-colors"
+            >
+              Cancel
+            </button>
+          ) : null}
+        </div>
+      </div>
+
+      {error ? <p className="text-sm text-red-600">{error}</p> : null}
+    </div>
+  );
+}
@@ -1,6 +1,15 @@
 "use client";
 
-import { useCallback, useEffect, useState } from "react";
+import { useCallback, useEffect, useRef, useState } from "react";
+
+import type { BackfillProgress } from "@/lib/reviews/backfill";
+import type { SyncHealth } from "@/lib/reviews/poll-health";
+import { formatRelativeTime } from "@/lib/utils/format";
+
+/**
+ * Maximum import requests per session before giving up (each advances the import for up to ~20s)
+ */
+const MAX_IMPORT_REQUESTS = 30;
 
 /**
  * Location data from the API
@@ -13,6 +22,8 @@ interface LocationData {
   address: string;
   account_name: string;
   is_synced: boolean;
+  backfill?: BackfillProgress;
+  sync_health?: SyncHealth;
 }
 
 /**
@@ -35,9 +46,68 @@ interface LocationsResponse {
 
 interface SaveResponse {
   saved?: number;
+  locations?: Array<{ id: string; google_location_id: string }>;
+  backfills?: BackfillProgress[];
   error?: string;
 }
 
+interface BackfillResponse {
+  backfills?: BackfillProgress[];
+  error?: string;
+}
+
+/**
+ * Whether a review import still has work to do.
+ *
+ * @param backfill - The location's backfill progress, if any
+ * @returns true when the import is pending or running
+ */
+function isImportUnfinished(backfill: BackfillProgress | undefined): boolean {
+  return backfill?.status === "pending" || backfill?.status === "running";
+}
+
+/**
+ * Describe a location's review import progress for display.
+ *
+ * @param backfill - The location's backfill progress
+ * @returns A short status line, or null when there is nothing to show
+ */
+function describeImport(backfill: BackfillProgress): string | null {
+  switch (backfill.status) {
+    case "pending":
+      return "Importing past reviews...";
+    case "running":
+      return backfill.target_count
+        ? `Importing past reviews: ${backfill.imported_count} of up to ${backfill.target_count}`
+        : "Importing past reviews...";
+    case "completed":
+      return `${backfill.imported_count} past review(s) imported`;
+    case "failed":
+      return "Review import failed";
+    default:
+      return null;
+  }
+}
+
+/**
+ * Describe a location's review polling health for display.
+ *
+ * @param health - The location's sync health
+ * @returns A short status line with the last successful poll, and the latest error while polling is failing
+ */
+function describeSyncHealth(health: SyncHealth): string {
+  const lastSynced = health.last_success_at
+    ? `Last synced: ${formatRelativeTime(health.last_success_at)}`
+    : "Not synced yet";
+
+  if (health.consecutive_failures === 0) {
+    return lastSynced;
+  }
+
+  const failing = `Sync failing: ${health.last_error ?? "Unknown error"}`;
+  return `${lastSynced} · ${failing}`;
+}
+
 /**
  * Group a list of locations by their Google account.
  *
@@ -70,7 +140,8 @@ function groupByAccount(locations: LocationData[]): AccountGroup[] {
  * auth-expired states, pre-selects locations already marked as synced, provides
  * per-location selection controls grouped by account, and saves the selected
  * subset back to the API while reflecting saved state and presenting success or
- * error feedback.
+ * error feedback. Newly synced locations import past reviews in the background;
+ * the component drives the import and shows per-location progress.
  *
  * @returns The rendered LocationSelector React element
  */
@@ -82,6 +153,54 @@ export function LocationSelector() {
   const [error, setError] = useState<string | null>(null);
   const [successMessage, setSuccessMessage] = useState<string | null>(null);
   const [needsGoogleConnect, setNeedsGoogleConnect] = useState(false);
+  const [importError, setImportError] = useState<string | null>(null);
+  const isMountedRef = useRef(true);
+
+  useEffect(() => {
+    isMountedRef.current = true;
+    return () => {
+      isMountedRef.current = false;
+    };
+  }, []);
+
+  /**
+   * Advance review imports until every backfill is finished.
+   * Each request resumes from the saved cursor, so stopping early loses no progress.
+   */
+  const importReviews = useCallback(async () => {
+    setImportError(null);
+
+    try {
+      for (let request = 0; request < MAX_IMPORT_REQUESTS; request++) {
+        const response = await fetch("/api/locations/backfill", {
+          method: "POST",
+        });
+        const data = (await response.json()) as BackfillResponse;
+
+        if (!response.ok) {
+          throw new Error(data.error ?? "Failed to import reviews");
+        }
+        if (!isMountedRef.current) return;
+
+        const backfills = data.backfills ?? [];
+        setLocations((prev) =>
+          prev.map((loc) => {
+            const progress = backfills.find((b) => b.location_id === loc.id);
+            return progress ? { ...loc, backfill: progress } : loc;
+          }),
+        );
+
+        if (!backfills.some((b) => isImportUnfinished(b))) {
+          return;
+        }
+      }
+    } catch (err) {
+      if (!isMountedRef.current) return;
+      const message =
+        err instanceof Error ? err.message : "Failed to import reviews";
+      setImportError(message);
+    }
+  }, []);
 
   /**
    * Fetch available locations from the API
@@ -118,6 +237,11 @@ export function LocationSelector() {
           .map((loc) => loc.google_location_id),
       );
       setSelectedIds(synced);
+
+      // Resume imports interrupted by a previous visit
+      if (fetchedLocations.some((loc) => isImportUnfinished(loc.backfill))) {
+        void importReviews();
+      }
     } catch (err) {
       const message =
         err instanceof Error ? err.message : "Failed to fetch locations";
@@ -125,7 +249,7 @@ export function LocationSelector() {
     } finally {
       setIsLoading(false);
     }
-  }, []);
+  }, [importReviews]);
 
   useEffect(() => {
     fetchLocations();
@@ -244,13 +368,28 @@ export function LocationSelector() {
       }
       setSuccessMessage(message);
 
-      // Update local state to reflect saved locations
+      // Update local state to reflect saved locations and queued imports
+      const savedIds = new Map(
+        (data.locations ?? []).map((loc) => [loc.google_location_id, loc.id]),
+      );
+      const queuedBackfills = data.backfills ?? [];
       setLocations((prev) =>
-        prev.map((loc) => ({
-          ...loc,
-          is_synced: selectedIds.has(loc.google_location_id),
-        })),
+        prev.map((loc) => {
+          const id = savedIds.get(loc.google_location_id) ?? loc.id;
+          const backfill =
+            queuedBackfills.find((b) => b.location_id === id) ?? loc.backfill;
+          return {
+            ...loc,
+            ...(id ? { id } : {}),
+            ...(backfill ? { backfill } : {}),
+            is_synced: selectedIds.has(loc.google_location_id),
+          };
+        }),
       );
+
+      if (queuedBackfills.some((b) => isImportUnfinished(b))) {
+        void importReviews();
+      }
     } catch (err) {
       const message =
         err instanceof Error ? err.message : "Failed to save locations";
@@ -258,7 +397,7 @@ export function LocationSelector() {
     } finally {
       setIsSaving(false);
     }
-  }, [locations, selectedIds]);
+  }, [locations, selectedIds, importReviews]);
 
   // Don't show if Google not connected
   if (needsGoogleConnect && !error) {
@@ -363,6 +502,29 @@ export function LocationSelector() {
                         {location.address}
                       </p>
                     ) : null}
+                    {location.is_synced && location.backfill ? (
+                      <p
+                        className={`text-xs mt-1 ${
+                          location.backfill.status === "failed"
+                            ? "text-red-600"
+                            : "text-foreground-secondary"
+                        }`}
+                        aria-live="polite"
+                      >
+                        {describeImport(location.backfill)}
+                      </p>
+                    ) : null}
+                    {location.is_synced && location.sync_health ? (
+                      <p
+                        className={`text-xs mt-1 ${
+                          location.sync_health.consecutive_failures > 0
+                            ? "text-red-600"
+                            : "text-foreground-secondary"
+                        }`}
+                      >
+                        {describeSyncHealth(location.sync_health)}
+                      </p>
+                    ) : null}
                   </div>
                   {location.is_synced ? (
                     <span className="text-xs text-green-600 bg-green-50 px-2 py-0.5 rounded-full">
@@ -390,6 +552,8 @@ export function LocationSelector() {
 
         {error ? (
           <p className="text-sm text-red-600">{error}</p>
+        ) : importError ? (
+          <p className="text-sm text-red-600">{importError}</p>
         ) : successMessage ? (
           <p className="text-sm text-green-600">{successMessage}</p>
         ) : !hasChanges ? (
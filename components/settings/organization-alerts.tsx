@@ -0,0 +1,71 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+/**
+ * Alert data from the API
+ */
+interface AlertData {
+  type: string;
+  message: string;
+  raised_at: string;
+}
+
+interface AlertsResponse {
+  alerts?: AlertData[];
+  error?: string;
+}
+
+/**
+ * Render the organization's open alerts (such as syncing having stopped because
+ * no one has a valid Google connection). Renders nothing when there are none or
+ * they cannot be loaded.
+ *
+ * @returns The rendered alerts, or null
+ */
+export function OrganizationAlerts() {
+  const [alerts, setAlerts] = useState<AlertData[]>([]);
+
+  useEffect(() => {
+    let isMounted = true;
+
+    const fetchAlerts = async () => {
+      try {
+        const response = await fetch("/api/alerts");
+        if (!response.ok) return;
+
+        const data: AlertsResponse = await response.json();
+        if (isMounted) {
+          setAlerts(data.alerts ?? []);
+        }
+      } catch (error) {
+        // Alerts are informational - the rest of settings works without them
+        console.error("Failed to load alerts", error);
+      }
+    };
+
+    void fetchAlerts();
+
+    return () => {
+      isMounted = false;
+    };
+  }, []);
+
+  if (alerts.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-2">
+      {alerts.map((alert) => (
+        <div
+          key={alert.type}
+          role="alert"
+          className="p-3 bg-red-50 border border-red-200 rounded-md text-red-700 text-sm"
+        >
+          {alert.message}
+        </div>
+      ))}
+    </div>
+  );
+}
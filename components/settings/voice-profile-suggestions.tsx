@@ -0,0 +1,158 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+/**
+ * Suggestion data from the API
+ */
+interface SuggestionData {
+  id: string;
+  kind: string;
+  value: string;
+  detail: string | null;
+}
+
+interface SuggestionsResponse {
+  suggestions?: SuggestionData[];
+  error?: string;
+}
+
+const KIND_LABELS: Record<string, string> = {
+  word_to_avoid: "Avoid",
+  word_to_use: "Use",
+  example_response: "Example response",
+};
+
+/**
+ * Render the voice profile suggestions learned from how the team edits AI
+ * drafts, each with Accept and Dismiss buttons. Accepting adds the phrase or
+ * reply to the voice profile. Renders nothing when there are no pending
+ * suggestions or they cannot be loaded.
+ *
+ * @returns The rendered suggestions, or null
+ */
+export function VoiceProfileSuggestions() {
+  const [suggestions, setSuggestions] = useState<SuggestionData[]>([]);
+  const [decidingId, setDecidingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let isMounted = true;
+
+    const fetchSuggestions = async () => {
+      try {
+        const response = await fetch("/api/voice-profile/suggestions");
+        if (!response.ok) return;
+
+        const data: SuggestionsResponse = await response.json();
+        if (isMounted) {
+          setSuggestions(data.suggestions ?? []);
+        }
+      } catch (error) {
+        // Suggestions are optional - the voice profile form works without them
+        console.error("Failed to load voice profile suggestions", error);
+      }
+    };
+
+    void fetchSuggestions();
+
+    return () => {
+      isMounted = false;
+    };
+  }, []);
+
+  const decide = async (
+    suggestion: SuggestionData,
+    status: "accepted" | "dismissed",
+  ) => {
+    setDecidingId(suggestion.id);
+    setError(null);
+
+    try {
+      const response = await fetch(
+        `/api/voice-profile/suggestions/${suggestion.id}`,
+        {
+          method: "PATCH",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ status }),
+        },
+      );
+
+      // Already decided elsewhere: drop it from the list like a success
+      if (!response.ok && response.status !== 409) {
+        const data: { error?: string } = await response
+          .json()
+          .catch(() => ({}));
+        setError(data.error ?? "Failed to update suggestion.");
+        return;
+      }
+
+      setSuggestions((current) =>
+        current.filter((entry) => entry.id !== suggestion.id),
+      );
+    } catch (error) {
+      console.error("Failed to update voice profile suggestion", error);
+      setError("Unable to update suggestion. Please try again.");
+    } finally {
+      setDecidingId(null);
+    }
+  };
+
+  if (suggestions.length === 0) {
+    return null;
+  }
+
+  return (
+    <section aria-label="Suggested voice changes" className="mt-6 space-y-3">
+      <div>
+        <h3 className="text-sm font-medium text-foreground">
+          Suggested from your edits
+        </h3>
+        <p className="text-sm text-foreground-muted">
+          Patterns in how your team edits drafts before publishing
+        </p>
+      </div>
+      <ul className="space-y-2">
+        {suggestions.map((suggestion) => (
+          <li
+            key={suggestion.id}
+            className="flex items-start justify-between gap-4 p-3 border border-border rounded-md"
+          >
+            <div className="min-w-0 text-sm">
+              <p className="text-foreground">
+                <span className="font-medium">
+                  {KIND_LABELS[suggestion.kind] ?? suggestion.kind}:
+                </span>{" "}
+                {suggestion.kind === "example_response"
+                  ? suggestion.value
+                  : `"${suggestion.value}"`}
+              </p>
+              {suggestion.detail ? (
+                <p className="text-foreground-muted">{suggestion.detail}</p>
+              ) : null}
+            </div>
+            <div className="flex shrink-0 gap-2">
+              <button
+                type="button"
+                onClick={() => decide(suggestion, "accepted")}
+                disabled={decidingId !== null}
+                className="px-3 py-1 bg-primary-600 text-white rounded-md text-sm font-medium hover:bg-primary-700 transition-colors disabled:opacity-60 disabled:cursor-not-allowed"
+              >
+                Accept
+              </button>
+              <button
+                type="button"
+                onClick={() => decide(suggestion, "dismissed")}
+                disabled={decidingId !== null}
+                className="px-3 py-1 border border-border rounded-md text-sm font-medium text-foreground hover:bg-surface-hover transition-colors disabled:opacity-60 disabled:cursor-not-allowed"
+              >
+                Dismiss
+              </button>
+            </div>
+          </li>
+        ))}
+      </ul>
+      {error ? <p className="text-sm text-red-600">{error}</p> : null}
+    </section>
+  );
+}
@@ -0,0 +1,340 @@
+/**
+ * Anthropic AI Provider
+ *
+ * Sends prompts to the Anthropic Messages API, with or without streaming.
+ * Requires ANTHROPIC_API_KEY.
+ *
+ * @see https://docs.anthropic.com/en/api
+ */
+
+import {
+  type AICompletion,
+  type AIProvider,
+  type AIRequest,
+  ClaudeAPIError,
+} from "@/lib/ai/provider";
+import { readServerSentEvents } from "@/lib/utils/sse";
+
+/**
+ * Claude models used by Replily
+ */
+export const CLAUDE_MODELS = {
+  haiku: "claude-haiku-4-5-20251001",
+  sonnet: "claude-sonnet-4-5-20250929",
+} as const;
+
+export type ClaudeModel = (typeof CLAUDE_MODELS)[keyof typeof CLAUDE_MODELS];
+
+// Model used when a request doesn't name one
+const DEFAULT_MODEL: ClaudeModel = CLAUDE_MODELS.haiku;
+
+// API configuration
+const CLAUDE_API_URL = "https://api.anthropic.com/v1/messages";
+const ANTHROPIC_VERSION = "2023-06-01";
+const TIMEOUT_MS = 30000;
+
+// Rough characters per token, for estimating output Claude hasn't reported yet
+const CHARS_PER_TOKEN = 4;
+
+/**
+ * Content block in a Claude API response (only the types we request)
+ */
+type ClaudeContentBlock =
+  | { type: "text"; text: string }
+  | { type: "tool_use"; name: string; input: unknown };
+
+/**
+ * Response shape from Claude API
+ */
+interface ClaudeResponse {
+  id: string;
+  type: "message";
+  role: "assistant";
+  content: ClaudeContentBlock[];
+  model: string;
+  stop_reason: string;
+  usage: {
+    input_tokens: number;
+    output_tokens: number;
+  };
+}
+
+/**
+ * Event from the Claude API stream (only the fields we read)
+ */
+interface ClaudeStreamEvent {
+  type: string;
+  message?: { usage?: { input_tokens?: number; output_tokens?: number } };
+  delta?: { type?: string; text?: string };
+  usage?: { output_tokens?: number };
+  error?: { type?: string; message?: string };
+}
+
+/**
+ * Execute a fetch request with a configurable timeout.
+ *
+ * @param url - The URL to fetch
+ * @param options - Fetch options
+ * @param timeoutMs - Timeout in milliseconds
+ * @returns The fetch Response
+ * @throws ClaudeAPIError with status 408 if the request times out
+ */
+async function fetchWithTimeout(
+  url: string,
+  options: RequestInit = {},
+  timeoutMs: number = TIMEOUT_MS,
+): Promise<Response> {
+  const controller = new AbortController();
+  let timeoutId: NodeJS.Timeout | null = null;
+  let isTimeoutAbort = false;
+
+  timeoutId = setTimeout(() => {
+    isTimeoutAbort = true;
+    controller.abort();
+  }, timeoutMs);
+
+  const existingSignal = options.signal;
+  if (existingSignal) {
+    if (existingSignal.aborted) {
+      if (timeoutId) {
+        clearTimeout(timeoutId);
+      }
+      controller.abort();
+    } else {
+      existingSignal.addEventListener(
+        "abort",
+        () => {
+          if (timeoutId) {
+            clearTimeout(timeoutId);
+          }
+          controller.abort();
+        },
+        { once: true },
+      );
+    }
+  }
+
+  try {
+    const response = await fetch(url, {
+      ...options,
+      signal: controller.signal,
+    });
+    if (timeoutId) {
+      clearTimeout(timeoutId);
+    }
+    return response;
+  } catch (error) {
+    if (timeoutId) {
+      clearTimeout(timeoutId);
+    }
+    if (error instanceof Error && error.name === "AbortError") {
+      if (isTimeoutAbort) {
+        throw new ClaudeAPIError(408, "Request timed out");
+      }
+      throw error;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Read the API key, failing like an API error when it is missing.
+ */
+function getApiKey(): string {
+  const apiKey = process.env.ANTHROPIC_API_KEY;
+  if (!apiKey) {
+    throw new ClaudeAPIError(500, "AI service not configured");
+  }
+  return apiKey;
+}
+
+/**
+ * Build the Messages API request for a prompt. A request with an output
+ * schema offers the schema as the only tool and requires the model to call it.
+ */
+function buildRequestInit(
+  apiKey: string,
+  request: AIRequest,
+  stream: boolean,
+): RequestInit {
+  return {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "x-api-key": apiKey,
+      "anthropic-version": ANTHROPIC_VERSION,
+    },
+    body: JSON.stringify({
+      model: request.model ?? DEFAULT_MODEL,
+      max_tokens: request.maxTokens,
+      system: request.systemPrompt,
+      messages: [
+        {
+          role: "user",
+          content: request.userPrompt,
+        },
+      ],
+      ...(request.outputSchema && !stream
+        ? {
+            tools: [
+              {
+                name: request.outputSchema.name,
+                description: request.outputSchema.description,
+                input_schema: request.outputSchema.schema,
+              },
+            ],
+            tool_choice: { type: "tool", name: request.outputSchema.name },
+          }
+        : {}),
+      ...(stream ? { stream: true } : {}),
+    }),
+  };
+}
+
+/**
+ * Turn a failed API response into a ClaudeAPIError with the API's message.
+ */
+async function toApiError(response: Response): Promise<ClaudeAPIError> {
+  const errorData = await response.json().catch(() => ({}));
+  const errorMessage =
+    (errorData as { error?: { message?: string } }).error?.message ??
+    "Claude API request failed";
+
+  return new ClaudeAPIError(response.status, errorMessage);
+}
+
+/**
+ * Call Claude API with the given prompt.
+ *
+ * @param request - The prompt to complete
+ * @returns The generated text (the tool input as JSON when the request has an output schema) and token count
+ * @throws ClaudeAPIError on API errors
+ */
+async function complete(request: AIRequest): Promise<AICompletion> {
+  const apiKey = getApiKey();
+
+  const response = await fetchWithTimeout(
+    CLAUDE_API_URL,
+    buildRequestInit(apiKey, request, false),
+    Math.min(request.timeoutMs ?? TIMEOUT_MS, TIMEOUT_MS),
+  );
+
+  if (!response.ok) {
+    throw await toApiError(response);
+  }
+
+  const data = (await response.json()) as ClaudeResponse;
+  const tokensUsed = data.usage.input_tokens + data.usage.output_tokens;
+
+  if (request.outputSchema) {
+    const toolUse = data.content.find((block) => block.type === "tool_use");
+    return {
+      text: toolUse ? JSON.stringify(toolUse.input) : "",
+      tokensUsed,
+    };
+  }
+
+  const textBlock = data.content.find((block) => block.type === "text");
+  return { text: textBlock?.text ?? "", tokensUsed };
+}
+
+/**
+ * Call Claude API with streaming, passing each piece of text on as it arrives.
+ *
+ * The timeout covers the whole stream, not just the response headers.
+ *
+ * @param request - The prompt to complete
+ * @param onText - Called with each piece of generated text, in order
+ * @param signal - Optional signal that cancels the request mid-stream
+ * @param onUsage - Called with the tokens used so far: input once the stream starts, plus output estimated from the text until Claude reports it
+ * @returns The full generated text and token count
+ * @throws ClaudeAPIError on API errors (status 408 on timeout)
+ * @throws The signal's AbortError when cancelled
+ */
+async function stream(
+  request: AIRequest,
+  onText: (text: string) => void,
+  signal?: AbortSignal,
+  onUsage?: (tokensUsed: number) => void,
+): Promise<AICompletion> {
+  const apiKey = getApiKey();
+
+  // fetchWithTimeout stops timing once headers arrive, so time the whole stream here
+  const controller = new AbortController();
+  let isTimeoutAbort = false;
+  const timeoutId = setTimeout(() => {
+    isTimeoutAbort = true;
+    controller.abort();
+  }, TIMEOUT_MS);
+  const abortFromCaller = () => controller.abort();
+  if (signal?.aborted) {
+    controller.abort();
+  } else {
+    signal?.addEventListener("abort", abortFromCaller, { once: true });
+  }
+
+  try {
+    const response = await fetchWithTimeout(CLAUDE_API_URL, {
+      ...buildRequestInit(apiKey, request, true),
+      signal: controller.signal,
+    });
+
+    if (!response.ok || !response.body) {
+      throw await toApiError(response);
+    }
+
+    let text = "";
+    let inputTokens = 0;
+    let outputTokens = 0;
+
+    for await (const { data } of readServerSentEvents(response.body)) {
+      const event = JSON.parse(data) as ClaudeStreamEvent;
+
+      if (event.type === "message_start") {
+        inputTokens = event.message?.usage?.input_tokens ?? 0;
+        outputTokens = event.message?.usage?.output_tokens ?? 0;
+        onUsage?.(inputTokens + outputTokens);
+      } else if (
+        event.type === "content_block_delta" &&
+        event.delta?.type === "text_delta" &&
+        event.delta.text
+      ) {
+        text += event.delta.text;
+        onText(event.delta.text);
+        // Claude only reports output tokens at the end of the message
+        onUsage?.(
+          inputTokens +
+            Math.max(outputTokens, Math.ceil(text.length / CHARS_PER_TOKEN)),
+        );
+      } else if (event.type === "message_delta") {
+        outputTokens = event.usage?.output_tokens ?? outputTokens;
+        onUsage?.(inputTokens + outputTokens);
+      } else if (event.type === "error") {
+        // Errors after the stream started arrive as events, not HTTP statuses
+        throw new ClaudeAPIError(
+          event.error?.type === "overloaded_error" ? 529 : 500,
+          event.error?.message ?? "Claude API stream failed",
+        );
+      }
+    }
+
+    return { text, tokensUsed: inputTokens + outputTokens };
+  } catch (error) {
+    if (isTimeoutAbort) {
+      throw new ClaudeAPIError(408, "Request timed out");
+    }
+    throw error;
+  } finally {
+    clearTimeout(timeoutId);
+    signal?.removeEventListener("abort", abortFromCaller);
+  }
+}
+
+/**
+ * Create the provider that calls the Anthropic Messages API.
+ *
+ * @returns The Anthropic provider
+ */
+export function createAnthropicProvider(): AIProvider {
+  return { name: "anthropic", complete, stream };
+}
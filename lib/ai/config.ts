@@ -0,0 +1,62 @@
+/**
+ * AI Provider Configuration
+ *
+ * Chooses the provider from the AI_PROVIDER environment variable
+ * ("anthropic" by default, or "local" for the deterministic provider) and
+ * the model for review responses from the organization's plan tier.
+ */
+
+import { CLAUDE_MODELS, createAnthropicProvider } from "@/lib/ai/anthropic";
+import { createLocalProvider } from "@/lib/ai/local";
+import type { AIProvider } from "@/lib/ai/provider";
+
+/**
+ * Providers that can be chosen with AI_PROVIDER
+ */
+export const AI_PROVIDER_NAMES = ["anthropic", "local"] as const;
+
+export type AIProviderName = (typeof AI_PROVIDER_NAMES)[number];
+
+/**
+ * Model used for review responses on each plan tier
+ */
+export const RESPONSE_MODEL_BY_TIER = {
+  starter: CLAUDE_MODELS.haiku,
+  growth: CLAUDE_MODELS.haiku,
+  agency: CLAUDE_MODELS.sonnet,
+} as const;
+
+/**
+ * Whether a value is a known provider name.
+ *
+ * @param value - Value to check (e.g. process.env.AI_PROVIDER)
+ * @returns true for one of AI_PROVIDER_NAMES
+ */
+export function isAIProviderName(value: unknown): value is AIProviderName {
+  return AI_PROVIDER_NAMES.includes(value as AIProviderName);
+}
+
+/**
+ * The provider selected by AI_PROVIDER. Unset or unknown values use Anthropic.
+ *
+ * @returns The provider to send prompts to
+ */
+export function getAIProvider(): AIProvider {
+  const name = process.env.AI_PROVIDER;
+  if (name && !isAIProviderName(name)) {
+    console.warn(`Unknown AI_PROVIDER "${name}", using anthropic`);
+  }
+  return name === "local" ? createLocalProvider() : createAnthropicProvider();
+}
+
+/**
+ * The model to write review responses with for a plan tier.
+ *
+ * @param planTier - The organization's plan tier (null/unknown tiers use starter)
+ * @returns The model ID
+ */
+export function getResponseModel(planTier: string | null): string {
+  const tier =
+    planTier === "agency" || planTier === "growth" ? planTier : "starter";
+  return RESPONSE_MODEL_BY_TIER[tier];
+}
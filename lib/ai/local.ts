@@ -0,0 +1,108 @@
+/**
+ * Local AI Provider
+ *
+ * A deterministic stand-in for the Anthropic API so development environments
+ * and e2e tests run without an API key or network. Review responses are
+ * built from the review text with the landing page's template replies; other
+ * tasks get a fixed answer in the shape their callers parse. No tokens are
+ * reported as used.
+ */
+
+import {
+  buildDraftReply,
+  DRAFT_REPLY_TONES,
+  type DraftReplyTone,
+} from "@/lib/ai/draft-reply";
+import type { AICompletion, AIProvider, AIRequest } from "@/lib/ai/provider";
+
+/**
+ * Custom tone returned for every tone quiz
+ */
+const LOCAL_CUSTOM_TONE = {
+  name: "Local Test Tone",
+  description:
+    "A placeholder tone from the local AI provider, used when no AI service is configured.",
+  enhancedContext:
+    "Write short, friendly replies that thank the reviewer and mention one detail from their review.",
+};
+
+/**
+ * Pick the template tone closest to the voice profile's tone in a response
+ * system prompt (custom and unknown tones are written warmly).
+ */
+function readTone(systemPrompt: string): DraftReplyTone {
+  const tone = systemPrompt
+    .match(/^- Tone: (.+)$/m)?.[1]
+    ?.trim()
+    .toLowerCase();
+  return (
+    DRAFT_REPLY_TONES.find((option) => option.toLowerCase() === tone) ?? "Warm"
+  );
+}
+
+/**
+ * Build a review response from the prompts written by lib/claude/prompts.ts.
+ */
+function buildReviewResponse(request: AIRequest): string {
+  const reviewText =
+    request.userPrompt.match(
+      /^<review_text>\n([\s\S]*?)\n<\/review_text>$/m,
+    )?.[1] ?? "";
+  const signOff =
+    request.systemPrompt.match(/^- Sign off as: (.+)$/m)?.[1]?.trim() ||
+    "The Team";
+  return buildDraftReply(reviewText, readTone(request.systemPrompt), signOff);
+}
+
+/**
+ * Answer a request without calling a model.
+ *
+ * @param request - The prompt to complete
+ * @returns A fixed answer for the request's task
+ */
+async function complete(request: AIRequest): Promise<AICompletion> {
+  switch (request.task) {
+    case "review_response":
+      return { text: buildReviewResponse(request), tokensUsed: 0 };
+    case "custom_tone":
+      return { text: JSON.stringify(LOCAL_CUSTOM_TONE), tokensUsed: 0 };
+    case "sentiment":
+      // No results, so every review is classified by the keyword fallback
+      return { text: JSON.stringify({ results: [] }), tokensUsed: 0 };
+    case "translation":
+      return { text: request.userPrompt, tokensUsed: 0 };
+  }
+}
+
+/**
+ * Answer a request without calling a model, passing it on a word at a time.
+ *
+ * @param request - The prompt to complete
+ * @param onText - Called with each word (and its trailing space), in order
+ * @param signal - Optional signal that cancels the stream
+ * @returns The full answer
+ * @throws An AbortError when cancelled
+ */
+async function stream(
+  request: AIRequest,
+  onText: (text: string) => void,
+  signal?: AbortSignal,
+): Promise<AICompletion> {
+  const completion = await complete(request);
+  for (const piece of completion.text.match(/\S+\s*/g) ?? []) {
+    if (signal?.aborted) {
+      throw new DOMException("The operation was aborted.", "AbortError");
+    }
+    onText(piece);
+  }
+  return completion;
+}
+
+/**
+ * Create the provider that answers without calling a model.
+ *
+ * @returns The local provider
+ */
+export function createLocalProvider(): AIProvider {
+  return { name: "local", complete, stream };
+}
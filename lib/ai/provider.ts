@@ -0,0 +1,105 @@
+/**
+ * AI Provider Interface
+ *
+ * Everything that asks a model for text goes through an AIProvider, so the
+ * Anthropic API can be swapped for the deterministic local provider in
+ * development and e2e tests. Prompts are built by the callers; a provider
+ * only sends them and reports the text and token usage.
+ *
+ * @see lib/ai/config.ts for choosing the provider and model
+ */
+
+/**
+ * What a request is for. The Anthropic provider ignores it; the local
+ * provider uses it to answer in the shape the caller parses.
+ */
+export type AITask =
+  | "review_response"
+  | "custom_tone"
+  | "sentiment"
+  | "translation";
+
+/**
+ * A JSON Schema the reply must follow
+ */
+export interface AIOutputSchema {
+  /** Short identifier (letters, digits, and underscores) */
+  name: string;
+  description: string;
+  /** JSON Schema for a single object */
+  schema: Record<string, unknown>;
+}
+
+/**
+ * A single prompt to complete
+ */
+export interface AIRequest {
+  task: AITask;
+  systemPrompt: string;
+  userPrompt: string;
+  /** Output token limit */
+  maxTokens: number;
+  /** Model to use; providers fall back to their default */
+  model?: string | undefined;
+  /**
+   * Shape the reply must take. The completion's text is then a JSON object
+   * (the Anthropic provider forces a tool call with this input schema).
+   * Streaming ignores it.
+   */
+  outputSchema?: AIOutputSchema | undefined;
+  /**
+   * Longest the request may take, in milliseconds, when the caller has less
+   * time than the provider's own timeout. Streaming ignores it.
+   */
+  timeoutMs?: number | undefined;
+}
+
+/**
+ * Text returned by a provider
+ */
+export interface AICompletion {
+  text: string;
+  tokensUsed: number;
+}
+
+/**
+ * A source of model completions
+ */
+export interface AIProvider {
+  name: string;
+  /**
+   * Complete a prompt.
+   *
+   * @throws ClaudeAPIError on API errors (status 408 on timeout)
+   */
+  complete: (request: AIRequest) => Promise<AICompletion>;
+  /**
+   * Complete a prompt, passing each piece of text on as it arrives.
+   *
+   * `onUsage` is called with the tokens used so far whenever that grows,
+   * with output not yet reported by the model estimated from the text
+   * streamed, so a stream that is cancelled or fails can still be recorded.
+   *
+   * @throws ClaudeAPIError on API errors (status 408 on timeout)
+   * @throws The signal's AbortError when cancelled
+   */
+  stream: (
+    request: AIRequest,
+    onText: (text: string) => void,
+    signal?: AbortSignal,
+    onUsage?: (tokensUsed: number) => void,
+  ) => Promise<AICompletion>;
+}
+
+/**
+ * Error from an AI provider request, with the HTTP status it maps to
+ */
+export class ClaudeAPIError extends Error {
+  constructor(
+    public status: number,
+    message: string,
+  ) {
+    super(message);
+    this.name = "ClaudeAPIError";
+  }
+}
@@ -0,0 +1,196 @@
+/**
+ * AI Usage and Budgets
+ *
+ * Every model call is recorded in ai_usage with the organization and the
+ * tokens it used. Each plan tier has a monthly token budget (calendar month,
+ * UTC): past the soft limit requests still run but the organization is
+ * warned; at the hard limit drafts and custom tones are refused until the
+ * month resets.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+import type { AITask } from "@/lib/ai/provider";
+import type { AIUsageInsert, Database } from "@/lib/supabase/types";
+
+/**
+ * Monthly token budget per organization, by plan tier
+ */
+export const MONTHLY_TOKEN_BUDGETS = {
+  starter: 250_000,
+  growth: 1_000_000,
+  agency: 5_000_000,
+} as const;
+
+/**
+ * Share of the budget after which organizations are warned
+ */
+export const SOFT_LIMIT_RATIO = 0.8;
+
+/**
+ * Where an organization is against its budget
+ */
+export type AIBudgetState = "ok" | "soft_limit" | "hard_limit";
+
+/**
+ * An organization's usage this month
+ */
+export interface AIBudget {
+  tokensUsed: number;
+  budget: number;
+  state: AIBudgetState;
+  /** When the month's usage resets (ISO string) */
+  resetsAt: string;
+}
+
+/**
+ * One model call to record
+ */
+export interface AIUsageEntry {
+  organizationId: string;
+  /** Null for background jobs */
+  userId: string | null;
+  task: AITask;
+  /** Null when the provider's default model was used */
+  model: string | null;
+  tokensUsed: number;
+}
+
+/**
+ * The monthly token budget for a plan tier.
+ *
+ * @param planTier - The organization's plan tier (null/unknown tiers use starter)
+ * @returns Tokens allowed per month
+ */
+export function getMonthlyTokenBudget(planTier: string | null): number {
+  const tier =
+    planTier === "agency" || planTier === "growth" ? planTier : "starter";
+  return MONTHLY_TOKEN_BUDGETS[tier];
+}
+
+/**
+ * Classify usage against a budget.
+ *
+ * @param tokensUsed - Tokens used this month
+ * @param budget - Monthly budget
+ * @returns "hard_limit" once the budget is used up, "soft_limit" past SOFT_LIMIT_RATIO of it, otherwise "ok"
+ */
+export function getBudgetState(
+  tokensUsed: number,
+  budget: number,
+): AIBudgetState {
+  if (tokensUsed >= budget) return "hard_limit";
+  if (tokensUsed >= budget * SOFT_LIMIT_RATIO) return "soft_limit";
+  return "ok";
+}
+
+/**
+ * Load an organization's usage this month and compare it with its budget.
+ *
+ * @param supabase - Supabase client for a member of the organization (or service role)
+ * @param organizationId - The organization
+ * @param planTier - The organization's plan tier
+ * @param now - Current time (for testing)
+ * @returns The organization's budget, or an error message if the database call failed
+ */
+export async function getAIBudget(
+  supabase: SupabaseClient<Database>,
+  organizationId: string,
+  planTier: string | null,
+  now: Date = new Date(),
+): Promise<{ budget: AIBudget | null; error: string | null }> {
+  const monthStart = new Date(
+    Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1),
+  );
+  const nextMonthStart = new Date(
+    Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1),
+  );
+
+  const { data, error } = await supabase.rpc("ai_tokens_used_since", {
+    p_organization_id: organizationId,
+    p_since: monthStart.toISOString(),
+  });
+
+  if (error) {
+    return { budget: null, error: error.message };
+  }
+
+  // BIGINT sums can come back as strings
+  const tokensUsed = Number(data ?? 0);
+  const budget = getMonthlyTokenBudget(planTier);
+  return {
+    budget: {
+      tokensUsed,
+      budget,
+      state: getBudgetState(tokensUsed, budget),
+      resetsAt: nextMonthStart.toISOString(),
+    },
+    error: null,
+  };
+}
+
+/**
+ * Add model calls to the usage ledger. Calls that used no tokens (such as
+ * those answered by the local provider) are skipped.
+ *
+ * @param supabase - Supabase client for a member of the organization (or service role)
+ * @param entries - The calls to record
+ * @returns An error message if the database call failed, otherwise null
+ */
+export async function recordAIUsage(
+  supabase: SupabaseClient<Database>,
+  entries: AIUsageEntry[],
+): Promise<{ error: string | null }> {
+  const rows: AIUsageInsert[] = entries
+    .filter((entry) => entry.tokensUsed > 0)
+    .map((entry) => ({
+      organization_id: entry.organizationId,
+      user_id: entry.userId,
+      task: entry.task,
+      model: entry.model,
+      tokens_used: entry.tokensUsed,
+    }));
+
+  if (rows.length === 0) {
+    return { error: null };
+  }
+
+  const { error } = await supabase.from("ai_usage").insert(rows);
+  return { error: error?.message ?? null };
+}
+
+/**
+ * The error returned when an organization has used its whole budget.
+ *
+ * @param budget - The organization's budget (at its hard limit)
+ * @returns The message and code to send with a 402
+ */
+export function budgetExceededError(budget: AIBudget): {
+  error: string;
+  code: string;
+} {
+  const resetsOn = new Date(budget.resetsAt).toLocaleDateString("en-US", {
+    month: "long",
+    day: "numeric",
+    timeZone: "UTC",
+  });
+  return {
+    error: `Your organization has used this month's AI budget. It resets on ${resetsOn}.`,
+    code: "AI_BUDGET_EXCEEDED",
+  };
+}
+
+/**
+ * The warning returned with generated text once an organization is past its
+ * soft limit.
+ *
+ * @param budget - The organization's budget, or null if it couldn't be loaded
+ * @returns The warning, or undefined below the soft limit
+ */
+export function budgetWarning(budget: AIBudget | null): string | undefined {
+  if (budget?.state !== "soft_limit") {
+    return undefined;
+  }
+  const percent = Math.floor((budget.tokensUsed / budget.budget) * 100);
+  return `Your organization has used ${percent}% of this month's AI budget.`;
+}
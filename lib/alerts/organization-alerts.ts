@@ -0,0 +1,80 @@
+/**
+ * Organization Alerts
+ *
+ * Problems that affect a whole organization rather than one location (such as
+ * no user having a valid Google connection) are kept as open alerts in
+ * organization_alerts until the problem goes away. Alerts are raised and
+ * resolved by background jobs and shown to every user in the organization.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+import { typedUpsert } from "@/lib/supabase/typed-helpers";
+import type { Database } from "@/lib/supabase/types";
+
+/**
+ * No user in the organization has a Google connection that can be refreshed
+ */
+export const GOOGLE_CONNECTION_ALERT = "google_connection";
+
+export type OrganizationAlertType = typeof GOOGLE_CONNECTION_ALERT;
+
+/**
+ * Open an alert for each organization. Organizations that already have an
+ * open alert of this type keep it (and its original raised_at).
+ *
+ * @param supabase - Supabase client (service role)
+ * @param type - Alert type
+ * @param organizationIds - Organizations to alert
+ * @param message - Message shown to the organization's users
+ * @returns An error message if the database call failed, otherwise null
+ */
+export async function raiseOrganizationAlerts(
+  supabase: SupabaseClient<Database>,
+  type: OrganizationAlertType,
+  organizationIds: string[],
+  message: string,
+): Promise<{ error: string | null }> {
+  if (organizationIds.length === 0) {
+    return { error: null };
+  }
+
+  const { error } = await typedUpsert(
+    supabase,
+    "organization_alerts",
+    organizationIds.map((organizationId) => ({
+      organization_id: organizationId,
+      type,
+      message,
+    })),
+    { onConflict: "organization_id,type", ignoreDuplicates: true },
+  );
+
+  return { error: error?.message ?? null };
+}
+
+/**
+ * Close any open alert of this type for each organization.
+ *
+ * @param supabase - Supabase client (service role)
+ * @param type - Alert type
+ * @param organizationIds - Organizations whose problem has gone away
+ * @returns An error message if the database call failed, otherwise null
+ */
+export async function resolveOrganizationAlerts(
+  supabase: SupabaseClient<Database>,
+  type: OrganizationAlertType,
+  organizationIds: string[],
+): Promise<{ error: string | null }> {
+  if (organizationIds.length === 0) {
+    return { error: null };
+  }
+
+  const { error } = await supabase
+    .from("organization_alerts")
+    .delete()
+    .eq("type", type)
+    .in("organization_id", organizationIds);
+
+  return { error: error?.message ?? null };
+}
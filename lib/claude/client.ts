@@ -1,37 +1,58 @@
 /**
  * Claude AI Response Generator
  *
- * Implements Claude API integration for generating review responses.
+ * Builds the prompts for review responses and translations and sends them
+ * through the configured AI provider (the Anthropic API, or the local
+ * provider in development), and asks for JSON objects validated against zod
+ * schemas.
  *
- * @see https://docs.anthropic.com/en/api
+ * @see lib/ai/config.ts for choosing the provider and model
  * @see docs/PROMPTS.md for prompt templates
  */
 
+import { z } from "zod";
+
+import { getAIProvider } from "@/lib/ai/config";
+import {
+  type AIOutputSchema,
+  type AITask,
+  ClaudeAPIError,
+} from "@/lib/ai/provider";
+import {
+  buildBusinessFactsSection,
+  buildLanguageInstruction,
+  buildUntrustedContentInstruction,
+  DEFAULT_PROMPT_VERSION,
+  PROMPT_TEMPLATES,
+  type PromptVersion,
+} from "@/lib/claude/prompts";
+import {
+  type BusinessFactForPrompt,
+  selectRelevantFacts,
+} from "@/lib/reviews/business-facts";
+import {
+  applyLanguageOverride,
+  DEFAULT_REVIEW_LANGUAGE,
+  isReviewLanguage,
+  REVIEW_LANGUAGE_NAMES,
+  type ReviewLanguage,
+} from "@/lib/reviews/language";
+import { findInstructionLikeText } from "@/lib/reviews/prompt-injection";
+import {
+  MAX_RESPONSE_VARIANTS,
+  RESPONSE_VARIANT_STYLES,
+  type ResponseVariantStyle,
+} from "@/lib/reviews/response-versions";
 import type { Review, VoiceProfile } from "@/lib/supabase/types";
 
-// Claude model to use
-const CLAUDE_MODEL = "claude-haiku-4-5-20251001";
+export { ClaudeAPIError } from "@/lib/ai/provider";
+export { buildNegativeAddendum } from "@/lib/claude/prompts";
 
-// API configuration
-const CLAUDE_API_URL = "https://api.anthropic.com/v1/messages";
-const ANTHROPIC_VERSION = "2023-06-01";
+// Request configuration
 const MAX_TOKENS = 500;
-const TIMEOUT_MS = 30000;
 const MAX_ATTEMPTS = 2; // Total attempts (1 initial attempt + 1 retry)
 const MAX_REVIEW_TEXT_LENGTH = 10000;
-
-/**
- * Custom error class for Claude API errors
- */
-export class ClaudeAPIError extends Error {
-  constructor(
-    public status: number,
-    message: string,
-  ) {
-    super(message);
-    this.name = "ClaudeAPIError";
-  }
-}
+const TRANSLATION_MAX_TOKENS = 1500;
 
 /**
  * Default voice profile used when organization has no voice profile configured
@@ -44,6 +65,9 @@ export const DEFAULT_VOICE_PROFILE: VoiceProfile = {
   personality_notes: "Professional and friendly",
   sign_off_style: "The Team",
   example_responses: null,
+  guardrail_severities: {},
+  language_overrides: {},
+  allowed_commitments: [],
   words_to_use: null,
   words_to_avoid: ["sorry for any inconvenience", "valued customer"],
   max_length: 150,
@@ -51,160 +75,54 @@ export const DEFAULT_VOICE_PROFILE: VoiceProfile = {
 };
 
 /**
- * Response shape from Claude API
- */
-interface ClaudeResponse {
-  id: string;
-  type: "message";
-  role: "assistant";
-  content: Array<{ type: "text"; text: string }>;
-  model: string;
-  stop_reason: string;
-  usage: {
-    input_tokens: number;
-    output_tokens: number;
-  };
-}
-
-/**
- * Execute a fetch request with a configurable timeout.
- *
- * @param url - The URL to fetch
- * @param options - Fetch options
- * @param timeoutMs - Timeout in milliseconds
- * @returns The fetch Response
- * @throws ClaudeAPIError with status 408 if the request times out
- */
-async function fetchWithTimeout(
-  url: string,
-  options: RequestInit = {},
-  timeoutMs: number = TIMEOUT_MS,
-): Promise<Response> {
-  const controller = new AbortController();
-  let timeoutId: NodeJS.Timeout | null = null;
-  let isTimeoutAbort = false;
-
-  timeoutId = setTimeout(() => {
-    isTimeoutAbort = true;
-    controller.abort();
-  }, timeoutMs);
-
-  const existingSignal = options.signal;
-  if (existingSignal) {
-    if (existingSignal.aborted) {
-      if (timeoutId) {
-        clearTimeout(timeoutId);
-      }
-      controller.abort();
-    } else {
-      existingSignal.addEventListener(
-        "abort",
-        () => {
-          if (timeoutId) {
-            clearTimeout(timeoutId);
-          }
-          controller.abort();
-        },
-        { once: true },
-      );
-    }
-  }
-
-  try {
-    const response = await fetch(url, {
-      ...options,
-      signal: controller.signal,
-    });
-    if (timeoutId) {
-      clearTimeout(timeoutId);
-    }
-    return response;
-  } catch (error) {
-    if (timeoutId) {
-      clearTimeout(timeoutId);
-    }
-    if (error instanceof Error && error.name === "AbortError") {
-      if (isTimeoutAbort) {
-        throw new ClaudeAPIError(408, "Request timed out");
-      }
-      throw error;
-    }
-    throw error;
-  }
-}
-
-/**
- * Call Claude API with the given prompts.
+ * Send a prompt to the configured AI provider with retry logic.
  *
  * @param systemPrompt - The system prompt
  * @param userPrompt - The user prompt
+ * @param options - `task` (what the prompt is for), `maxAttempts` (total attempts, including the initial one), `maxTokens` (output limit), `model` (defaults to the provider's), `outputSchema` (shape the reply must take; see generateStructuredOutput), and `deadline` (epoch ms by which attempts, retries included, must finish)
  * @returns The generated text and token count
- * @throws ClaudeAPIError on API errors
- */
-async function callClaudeAPI(
-  systemPrompt: string,
-  userPrompt: string,
-): Promise<{ text: string; tokensUsed: number }> {
-  const apiKey = process.env.ANTHROPIC_API_KEY;
-  if (!apiKey) {
-    throw new ClaudeAPIError(500, "AI service not configured");
-  }
-
-  const response = await fetchWithTimeout(CLAUDE_API_URL, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      "x-api-key": apiKey,
-      "anthropic-version": ANTHROPIC_VERSION,
-    },
-    body: JSON.stringify({
-      model: CLAUDE_MODEL,
-      max_tokens: MAX_TOKENS,
-      system: systemPrompt,
-      messages: [
-        {
-          role: "user",
-          content: userPrompt,
-        },
-      ],
-    }),
-  });
-
-  if (!response.ok) {
-    const errorData = await response.json().catch(() => ({}));
-    const errorMessage =
-      (errorData as { error?: { message?: string } }).error?.message ??
-      "Claude API request failed";
-
-    throw new ClaudeAPIError(response.status, errorMessage);
-  }
-
-  const data = (await response.json()) as ClaudeResponse;
-  const text = data.content[0]?.text ?? "";
-  const tokensUsed = data.usage.input_tokens + data.usage.output_tokens;
-
-  return { text, tokensUsed };
-}
-
-/**
- * Call Claude API with retry logic.
- *
- * @param systemPrompt - The system prompt
- * @param userPrompt - The user prompt
- * @param maxAttempts - Maximum total attempts (includes initial attempt + retries)
- * @returns The generated text and token count
- * @throws ClaudeAPIError after all retries exhausted
+ * @throws ClaudeAPIError after all retries exhausted (status 408 when the deadline passes)
  */
 export async function callClaudeWithRetry(
   systemPrompt: string,
   userPrompt: string,
-  maxAttempts: number = MAX_ATTEMPTS,
+  options: {
+    task: AITask;
+    maxAttempts?: number;
+    maxTokens?: number;
+    model?: string | undefined;
+    outputSchema?: AIOutputSchema | undefined;
+    deadline?: number | undefined;
+  },
 ): Promise<{ text: string; tokensUsed: number }> {
+  const {
+    task,
+    maxAttempts = MAX_ATTEMPTS,
+    maxTokens = MAX_TOKENS,
+    model,
+    outputSchema,
+    deadline,
+  } = options;
+  const provider = getAIProvider();
   let lastError: ClaudeAPIError | null = null;
 
   for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    const remainingMs =
+      deadline === undefined ? undefined : deadline - Date.now();
+    if (remainingMs !== undefined && remainingMs <= 0) {
+      throw lastError ?? new ClaudeAPIError(408, "Request timed out");
+    }
+
     try {
-      return await callClaudeAPI(systemPrompt, userPrompt);
+      return await provider.complete({
+        task,
+        systemPrompt,
+        userPrompt,
+        maxTokens,
+        model,
+        outputSchema,
+        timeoutMs: remainingMs,
+      });
     } catch (error) {
       if (error instanceof ClaudeAPIError) {
         lastError = error;
@@ -225,9 +143,14 @@ export async function callClaudeWithRetry(
           status: error.status,
         });
 
-        if (attempt < maxAttempts) {
-          // Exponential backoff: 1s, 2s
+        // Exponential backoff: 1s, 2s (no retry that would start past the deadline)
+        if (
+          attempt < maxAttempts &&
+          (deadline === undefined || Date.now() + attempt * 1000 < deadline)
+        ) {
           await new Promise((resolve) => setTimeout(resolve, attempt * 1000));
+        } else {
+          break;
         }
       } else {
         throw error;
@@ -239,26 +162,155 @@ export async function callClaudeWithRetry(
 }
 
 /**
- * Create a customer-facing response to a review using Claude AI.
+ * A structured output request that failed after tokens were spent on it, so
+ * callers can still record the usage
+ */
+export class StructuredOutputError extends ClaudeAPIError {
+  constructor(
+    status: number,
+    message: string,
+    public tokensUsed: number,
+  ) {
+    super(status, message);
+    this.name = "StructuredOutputError";
+  }
+}
+
+/**
+ * Parse a structured reply and check it against its schema.
  *
- * Builds system and user prompts from the provided voice profile and review,
- * calls Claude API, and returns the generated response with token usage.
+ * @returns The data, or a description of what was wrong with the reply
+ */
+function parseStructuredOutput<T>(
+  text: string,
+  schema: z.ZodType<T>,
+): { data: T; problem: null } | { data: null; problem: string } {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch {
+    return { data: null, problem: "The reply was not valid JSON." };
+  }
+
+  const result = schema.safeParse(value);
+  if (!result.success) {
+    return { data: null, problem: z.prettifyError(result.error) };
+  }
+  return { data: result.data, problem: null };
+}
+
+/**
+ * Ask the AI provider for a JSON object matching a zod schema.
  *
- * @param review - The review to respond to
- * @param voiceProfile - Voice and style configuration used to construct the system prompt
+ * The schema is sent to the provider as JSON Schema (a forced tool call on
+ * Anthropic), and the reply is validated with zod. A reply that doesn't
+ * parse or validate is sent back once with the problems listed so the model
+ * can correct it.
+ *
+ * @param systemPrompt - The system prompt
+ * @param userPrompt - The user prompt (no need to describe the JSON format)
+ * @param schema - Schema for the object; field descriptions are passed to the model
+ * @param options - `task` (what the prompt is for), `name` and `description` (of the object, shown to the model), `maxTokens` (output limit), `model` (defaults to the provider's), and `deadline` (epoch ms by which both requests must finish)
+ * @returns The validated object, and the tokens used across both attempts
+ * @throws ClaudeAPIError when the first request fails; StructuredOutputError (with the tokens already used) when the correction request fails, or with status 502 when the corrected reply is still invalid
+ */
+export async function generateStructuredOutput<T>(
+  systemPrompt: string,
+  userPrompt: string,
+  schema: z.ZodType<T>,
+  options: {
+    task: AITask;
+    name: string;
+    description: string;
+    maxTokens?: number;
+    model?: string | undefined;
+    deadline?: number | undefined;
+  },
+): Promise<{ data: T; tokensUsed: number }> {
+  const { task, name, description, maxTokens, model, deadline } = options;
+  const { $schema: _, ...jsonSchema } = z.toJSONSchema(schema);
+  const callOptions = {
+    task,
+    model,
+    deadline,
+    outputSchema: { name, description, schema: jsonSchema },
+    ...(maxTokens !== undefined ? { maxTokens } : {}),
+  };
+
+  const first = await callClaudeWithRetry(
+    systemPrompt,
+    userPrompt,
+    callOptions,
+  );
+  const firstResult = parseStructuredOutput(first.text, schema);
+  if (firstResult.problem === null) {
+    return { data: firstResult.data, tokensUsed: first.tokensUsed };
+  }
+
+  console.warn("Structured output invalid, asking for a correction:", {
+    task,
+    problem: firstResult.problem,
+  });
+
+  let correction: Awaited<ReturnType<typeof callClaudeWithRetry>>;
+  try {
+    correction = await callClaudeWithRetry(
+      systemPrompt,
+      `${userPrompt}
+
+Your previous reply could not be used:
+${first.text}
+
+Problems:
+${firstResult.problem}
+
+Reply again with a corrected ${name}.`,
+      callOptions,
+    );
+  } catch (error) {
+    if (error instanceof ClaudeAPIError) {
+      throw new StructuredOutputError(
+        error.status,
+        error.message,
+        first.tokensUsed,
+      );
+    }
+    throw error;
+  }
+  const tokensUsed = first.tokensUsed + correction.tokensUsed;
+  const correctionResult = parseStructuredOutput(correction.text, schema);
+  if (correctionResult.problem === null) {
+    return { data: correctionResult.data, tokensUsed };
+  }
+
+  throw new StructuredOutputError(502, `Unexpected ${name} reply`, tokensUsed);
+}
+
+/**
+ * Build the system and user prompts for responding to a review.
+ *
+ * @param review - The review to respond to (long text is truncated; its language picks the response language)
+ * @param voiceProfile - Voice and style configuration used to construct the system prompt, with the review language's overrides applied
  * @param businessName - The business name to use in prompts and the response
  * @param contactEmail - Optional contact email for negative review addendum
  * @param customToneEnhancedContext - Optional enhanced context from custom tone quiz
- * @returns An object with `text` containing the generated response and `tokensUsed` indicating total tokens consumed
- * @throws ClaudeAPIError on API failures
+ * @param guidance - Optional instructions for this response
+ * @param promptVersion - Prompt template to use (defaults to DEFAULT_PROMPT_VERSION)
+ * @param businessFacts - Facts for the review's location; the ones relevant to the review are added to the system prompt
+ * @returns The system and user prompts
  */
-export async function generateResponse(
+function buildResponsePrompts(
   review: Review,
   voiceProfile: VoiceProfile,
   businessName: string,
   contactEmail?: string,
   customToneEnhancedContext?: string,
-): Promise<{ text: string; tokensUsed: number }> {
+  guidance?: string,
+  promptVersion: PromptVersion = DEFAULT_PROMPT_VERSION,
+  businessFacts: BusinessFactForPrompt[] = [],
+): { systemPrompt: string; userPrompt: string } {
+  const template = PROMPT_TEMPLATES[promptVersion];
+
   // Truncate very long reviews to avoid token limits
   let reviewText = review.review_text;
   if (reviewText && reviewText.length > MAX_REVIEW_TEXT_LENGTH) {
@@ -273,134 +325,277 @@ export async function generateResponse(
   }
   const reviewWithTruncatedText = { ...review, review_text: reviewText };
 
-  // Build prompts
-  const systemPrompt = buildSystemPrompt(
-    voiceProfile,
+  // Non-English reviews get the profile's overrides for their language and a reply in that language
+  const language = isReviewLanguage(review.language)
+    ? review.language
+    : DEFAULT_REVIEW_LANGUAGE;
+  let systemPrompt = template.buildSystemPrompt(
+    applyLanguageOverride(voiceProfile, language),
     businessName,
     customToneEnhancedContext,
   );
+
+  // Review content is untrusted: warn the model about anything that reads like instructions to it
+  const instructionLikeText =
+    findInstructionLikeText(review.review_text) ??
+    findInstructionLikeText(review.reviewer_name);
+  if (instructionLikeText) {
+    console.warn("Review contains instruction-like text:", {
+      reviewId: review.id,
+      category: instructionLikeText.category,
+      detail: instructionLikeText.snippet,
+    });
+  }
+  systemPrompt += `\n\n${buildUntrustedContentInstruction(
+    voiceProfile.allowed_commitments,
+    instructionLikeText?.category,
+  )}`;
+
+  const relevantFacts = selectRelevantFacts(businessFacts, review.review_text);
+  if (relevantFacts.length > 0) {
+    systemPrompt += `\n\n${buildBusinessFactsSection(relevantFacts)}`;
+  }
+  if (language !== DEFAULT_REVIEW_LANGUAGE) {
+    systemPrompt += `\n\n${buildLanguageInstruction(language)}`;
+  }
   const isNegativeReview = review.rating !== null && review.rating <= 2;
-  const userPrompt = buildUserPrompt(
+  const userPrompt = template.buildUserPrompt(
     reviewWithTruncatedText,
     businessName,
     isNegativeReview,
     contactEmail,
+    guidance,
   );
 
-  // Call Claude API with retry
-  return await callClaudeWithRetry(systemPrompt, userPrompt);
+  return { systemPrompt, userPrompt };
 }
 
 /**
- * Constructs the system prompt that instructs the AI how to write review responses for the business.
+ * Create a customer-facing response to a review using Claude AI.
+ *
+ * Builds system and user prompts from the provided voice profile and review,
+ * sends them to the AI provider, and returns the generated response with token usage.
  *
- * @param voiceProfile - Voice and style settings used to populate the prompt (fields used: `tone`, `personality_notes`, `sign_off_style`, `example_responses`, `words_to_avoid`, `words_to_use`, and `max_length`)
- * @param businessName - The business name included in the prompt to identify the sender
+ * @param review - The review to respond to
+ * @param voiceProfile - Voice and style configuration used to construct the system prompt
+ * @param businessName - The business name to use in prompts and the response
+ * @param contactEmail - Optional contact email for negative review addendum
  * @param customToneEnhancedContext - Optional enhanced context from custom tone quiz
- * @returns The formatted system prompt string containing voice instructions, example responses, and rules (including length limit, addressing guidance, and preferred/forbidden words)
+ * @param guidance - Optional instructions for this response (e.g. "shorter", "mention our new hours")
+ * @param promptVersion - Prompt template to use (defaults to DEFAULT_PROMPT_VERSION)
+ * @param model - Model to write with (see getResponseModel; defaults to the provider's)
+ * @param businessFacts - Facts for the review's location (see loadBusinessFacts); only those relevant to the review are used
+ * @returns An object with `text` containing the generated response and `tokensUsed` indicating total tokens consumed
+ * @throws ClaudeAPIError on API failures
  */
-function buildSystemPrompt(
+export async function generateResponse(
+  review: Review,
   voiceProfile: VoiceProfile,
   businessName: string,
+  contactEmail?: string,
   customToneEnhancedContext?: string,
-): string {
-  const exampleResponses = voiceProfile.example_responses?.join("\n\n") ?? "";
-  const wordsToAvoid = voiceProfile.words_to_avoid?.join(", ") ?? "";
-  const wordsToUse = voiceProfile.words_to_use?.join(", ") ?? "";
-
-  // Extract tone name for display (return "Custom Tone" for custom tones)
-  const toneDisplay = voiceProfile.tone?.startsWith("custom:")
-    ? "Custom Tone"
-    : voiceProfile.tone;
-
-  let prompt = `You are a review response writer for ${businessName}.
-
-YOUR VOICE:
-- Tone: ${toneDisplay}
-- Personality: ${voiceProfile.personality_notes ?? "Professional and friendly"}
-- Sign off as: ${voiceProfile.sign_off_style ?? ""}
-
-`;
+  guidance?: string,
+  promptVersion?: PromptVersion,
+  model?: string,
+  businessFacts?: BusinessFactForPrompt[],
+): Promise<{ text: string; tokensUsed: number }> {
+  const { systemPrompt, userPrompt } = buildResponsePrompts(
+    review,
+    voiceProfile,
+    businessName,
+    contactEmail,
+    customToneEnhancedContext,
+    guidance,
+    promptVersion,
+    businessFacts,
+  );
 
-  // Add custom tone enhanced context if available
-  if (customToneEnhancedContext) {
-    prompt += `CUSTOM TONE GUIDANCE:
-${customToneEnhancedContext}
+  return await callClaudeWithRetry(systemPrompt, userPrompt, {
+    task: "review_response",
+    model,
+  });
+}
 
-`;
-  }
+/**
+ * Create a response to a review, streaming the text as the model writes it.
+ *
+ * Uses the same prompts as generateResponse, but the request is not retried
+ * and can be cancelled through `signal` while text is still arriving.
+ *
+ * @param review - The review to respond to
+ * @param voiceProfile - Voice and style configuration used to construct the system prompt
+ * @param businessName - The business name to use in prompts and the response
+ * @param onText - Called with each piece of generated text, in order
+ * @param contactEmail - Optional contact email for negative review addendum
+ * @param customToneEnhancedContext - Optional enhanced context from custom tone quiz
+ * @param guidance - Optional instructions for this response
+ * @param promptVersion - Prompt template to use (defaults to DEFAULT_PROMPT_VERSION)
+ * @param signal - Optional signal that cancels generation
+ * @param model - Model to write with (see getResponseModel; defaults to the provider's)
+ * @param businessFacts - Facts for the review's location (see loadBusinessFacts); only those relevant to the review are used
+ * @param onUsage - Called with the tokens used so far, for recording a stream that doesn't finish
+ * @returns The full generated text and total tokens consumed
+ * @throws ClaudeAPIError on API failures
+ */
+export async function generateResponseStream(
+  review: Review,
+  voiceProfile: VoiceProfile,
+  businessName: string,
+  onText: (text: string) => void,
+  contactEmail?: string,
+  customToneEnhancedContext?: string,
+  guidance?: string,
+  promptVersion?: PromptVersion,
+  signal?: AbortSignal,
+  model?: string,
+  businessFacts?: BusinessFactForPrompt[],
+  onUsage?: (tokensUsed: number) => void,
+): Promise<{ text: string; tokensUsed: number }> {
+  const { systemPrompt, userPrompt } = buildResponsePrompts(
+    review,
+    voiceProfile,
+    businessName,
+    contactEmail,
+    customToneEnhancedContext,
+    guidance,
+    promptVersion,
+    businessFacts,
+  );
 
-  prompt += `EXAMPLES OF RESPONSES THEY LIKE:
-${exampleResponses}
+  // Not retried: a retry after text was forwarded would repeat it
+  return await getAIProvider().stream(
+    {
+      task: "review_response",
+      systemPrompt,
+      userPrompt,
+      maxTokens: MAX_TOKENS,
+      model,
+    },
+    onText,
+    signal,
+    onUsage,
+  );
+}
 
-RULES:
-1. Keep responses under ${voiceProfile.max_length} words
-2. Thank reviewer by name (if provided, otherwise "Thank you")
-3. For 4-5 star: Show genuine appreciation, mention something specific from their review
-4. For 1-3 star: Acknowledge concern without arguing, invite offline resolution
-5. Never be defensive or make excuses
-6. Sound human, not corporate
-7. Never use: ${wordsToAvoid}
-8. Prefer using: ${wordsToUse}`;
+/**
+ * Style instruction appended to the user prompt for each alternative draft
+ */
+const VARIANT_STYLE_INSTRUCTIONS: Record<ResponseVariantStyle, string | null> =
+  {
+    balanced: null,
+    short: "Keep this version to two or three sentences.",
+    warm_opening:
+      "Open with a warm, personal line that picks up on something specific the reviewer said.",
+    direct_opening:
+      "Skip the usual thank-you opener and start with the main point, then keep it brief.",
+  };
 
-  return prompt;
+/**
+ * An alternative draft produced by generateResponseVariants
+ */
+export interface ResponseVariant {
+  style: ResponseVariantStyle;
+  text: string;
+  tokensUsed: number;
 }
 
 /**
- * Builds the user prompt for a specific review
+ * Create several alternative responses to a review in different styles.
+ *
+ * Each style is a separate AI call (run in parallel) so token usage is
+ * known per draft. Drafts whose call fails are left out; if every call fails,
+ * the first error is thrown.
  *
  * @param review - The review to respond to
- * @param businessName - The business name to use in the prompt
- * @param isNegativeReview - Whether this is a negative review (1-2 stars) requiring special handling
+ * @param voiceProfile - Voice and style configuration used to construct the system prompt
+ * @param businessName - The business name to use in prompts and the response
+ * @param count - Number of drafts, taken from RESPONSE_VARIANT_STYLES in order (1 to MAX_RESPONSE_VARIANTS)
  * @param contactEmail - Optional contact email for negative review addendum
- * @returns The formatted user prompt string
+ * @param customToneEnhancedContext - Optional enhanced context from custom tone quiz
+ * @param guidance - Optional instructions applied to every draft
+ * @param promptVersion - Prompt template to use (defaults to DEFAULT_PROMPT_VERSION)
+ * @param model - Model to write with (see getResponseModel; defaults to the provider's)
+ * @param businessFacts - Facts for the review's location (see loadBusinessFacts); only those relevant to the review are used
+ * @returns The drafts that were generated, in style order
+ * @throws ClaudeAPIError when no draft could be generated
  */
-function buildUserPrompt(
+export async function generateResponseVariants(
   review: Review,
+  voiceProfile: VoiceProfile,
   businessName: string,
-  isNegativeReview?: boolean,
+  count: number,
   contactEmail?: string,
-): string {
-  const reviewDate = review.review_date
-    ? new Date(review.review_date).toLocaleDateString("en-US", {
-        year: "numeric",
-        month: "long",
-        day: "numeric",
-      })
-    : "Unknown date";
-
-  let prompt = `Review to respond to:
-- Rating: ${review.rating ?? "Unknown"}/5 stars
-- Reviewer: ${review.reviewer_name ?? "Anonymous"}
-- Date: ${reviewDate}
-- Text: "${review.review_text ?? "No review text"}"
-
-Write a response as ${businessName}.`;
-
-  // Add negative review addendum if applicable
-  if (isNegativeReview && contactEmail) {
-    prompt += `\n\n${buildNegativeAddendum(contactEmail)}`;
+  customToneEnhancedContext?: string,
+  guidance?: string,
+  promptVersion?: PromptVersion,
+  model?: string,
+  businessFacts?: BusinessFactForPrompt[],
+): Promise<ResponseVariant[]> {
+  const { systemPrompt, userPrompt } = buildResponsePrompts(
+    review,
+    voiceProfile,
+    businessName,
+    contactEmail,
+    customToneEnhancedContext,
+    guidance,
+    promptVersion,
+    businessFacts,
+  );
+  const styles = RESPONSE_VARIANT_STYLES.slice(
+    0,
+    Math.min(Math.max(count, 1), MAX_RESPONSE_VARIANTS),
+  );
+
+  const results = await Promise.allSettled(
+    styles.map((style) => {
+      const instruction = VARIANT_STYLE_INSTRUCTIONS[style];
+      return callClaudeWithRetry(
+        systemPrompt,
+        instruction
+          ? `${userPrompt}\n\nStyle for this version: ${instruction}`
+          : userPrompt,
+        { task: "review_response", model },
+      );
+    }),
+  );
+
+  const variants = results.flatMap((result, index) =>
+    result.status === "fulfilled"
+      ? [{ style: styles[index] as ResponseVariantStyle, ...result.value }]
+      : [],
+  );
+
+  if (variants.length === 0) {
+    const firstFailure = results.find(
+      (result): result is PromiseRejectedResult => result.status === "rejected",
+    );
+    throw (
+      firstFailure?.reason ?? new ClaudeAPIError(500, "Claude API call failed")
+    );
   }
 
-  return prompt;
+  return variants;
 }
 
 /**
- * Create a short addendum guiding responses to 1–2 star (negative) reviews.
+ * Translate a review into English for staff who don't read its language.
  *
- * The addendum flags the review as critical and specifies a concise five-step structure:
- * thank the reviewer, acknowledge the concern, apologize without admitting fault,
- * offer resolution using the provided contact email, and keep the response brief.
+ * The translation is only shown to staff and is not stored.
  *
- * @param contactEmail - Email address customers should use to contact the business
- * @returns A formatted multi-line string containing the structured addendum with the provided contact email
+ * @param reviewText - The review text
+ * @param language - The language the review is written in
+ * @returns The English translation and token count
+ * @throws ClaudeAPIError on API failures
  */
-export function buildNegativeAddendum(contactEmail: string): string {
-  return `
-CRITICAL: This is a negative review. Follow this structure:
-1. Thank them for feedback (brief)
-2. Acknowledge their specific concern without arguing
-3. Apologize for their experience (don't admit fault)
-4. Offer to resolve: "Please reach out to us at ${contactEmail} so we can make this right"
-5. Keep it short - long responses look defensive`;
+export async function translateReview(
+  reviewText: string,
+  language: ReviewLanguage,
+): Promise<{ text: string; tokensUsed: number }> {
+  const systemPrompt = `You translate customer reviews from ${REVIEW_LANGUAGE_NAMES[language]} into English for the business's staff. Keep the reviewer's meaning and tone. Reply with the translation only.`;
+
+  return await callClaudeWithRetry(
+    systemPrompt,
+    reviewText.slice(0, MAX_REVIEW_TEXT_LENGTH),
+    { task: "translation", maxTokens: TRANSLATION_MAX_TOKENS },
+  );
 }
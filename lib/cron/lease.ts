@@ -0,0 +1,68 @@
+/**
+ * Cron Leases
+ *
+ * Keeps overlapping invocations of a cron job from doing the same work. A run
+ * acquires a named lease (a cron_leases row with an owner id and expiry)
+ * before processing and releases it when done. If a run dies without
+ * releasing, the lease expires and the next run takes it over.
+ */
+
+import { randomUUID } from "node:crypto";
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+import type { Database } from "@/lib/supabase/types";
+
+/**
+ * A lease held by the current invocation
+ */
+export interface CronLease {
+  name: string;
+  ownerId: string;
+}
+
+/**
+ * Try to acquire a named lease.
+ *
+ * @param supabase - Supabase client (service role; the lease functions are not granted to users)
+ * @param name - Lease name, one per cron job
+ * @param ttlSeconds - How long the lease lasts if never released; longer than the job's maximum run time
+ * @returns The lease if acquired, null if another invocation holds it, and an error message if the database call failed
+ */
+export async function acquireCronLease(
+  supabase: SupabaseClient<Database>,
+  name: string,
+  ttlSeconds: number,
+): Promise<{ lease: CronLease | null; error: string | null }> {
+  const ownerId = randomUUID();
+  const { data: acquired, error } = await supabase.rpc("acquire_cron_lease", {
+    p_name: name,
+    p_owner_id: ownerId,
+    p_ttl_seconds: ttlSeconds,
+  });
+
+  if (error) {
+    return { lease: null, error: error.message };
+  }
+
+  return { lease: acquired ? { name, ownerId } : null, error: null };
+}
+
+/**
+ * Release a lease held by this invocation. Does nothing if it already expired
+ * and was taken over by another run.
+ *
+ * @param supabase - Supabase client (service role)
+ * @param lease - The lease returned by acquireCronLease
+ * @returns An error message if the database call failed, otherwise null
+ */
+export async function releaseCronLease(
+  supabase: SupabaseClient<Database>,
+  lease: CronLease,
+): Promise<{ error: string | null }> {
+  const { error } = await supabase.rpc("release_cron_lease", {
+    p_name: lease.name,
+    p_owner_id: lease.ownerId,
+  });
+
+  return { error: error?.message ?? null };
+}
@@ -2,7 +2,8 @@
  * Google Business Profile API Client
  *
  * Implements Google Business Profile API integration for:
- * - OAuth token refresh
+ * - OAuth token refresh, with per-user access token caching
+ * - Retries with backoff, quota accounting and a rate-limit circuit breaker
  * - Fetch accounts and locations
  * - Fetch reviews for a location
  * - Publish responses to reviews
@@ -21,6 +22,26 @@ const REVIEWS_API = "https://mybusiness.googleapis.com/v4";
 // Request timeout in milliseconds
 const REQUEST_TIMEOUT_MS = 30000;
 
+// Retry configuration for Business Profile API requests
+const MAX_ATTEMPTS = 3; // Total attempts (1 initial attempt + 2 retries)
+const RETRY_BASE_DELAY_MS = 1000;
+const MAX_RETRY_WAIT_MS = 10000; // Longer Retry-After waits are left to the circuit breaker
+const DEFAULT_RATE_LIMIT_SECONDS = 60; // Used when Google rate-limits without Retry-After
+const QUOTA_WINDOW_MS = 60 * 1000;
+
+/**
+ * Business Profile API requests allowed per minute when GOOGLE_REQUESTS_PER_MINUTE
+ * is not set. Google enforces its quota for the whole project (every user's
+ * requests count); set the variable if the project's quota is raised.
+ */
+export const DEFAULT_GOOGLE_REQUESTS_PER_MINUTE = 60;
+
+/**
+ * Cached access tokens are refreshed this long before they expire,
+ * so a token never lapses partway through a cron run or publish request
+ */
+export const ACCESS_TOKEN_EXPIRY_MARGIN_MS = 5 * 60 * 1000;
+
 /**
  * Google Business Profile OAuth configuration
  */
@@ -37,6 +58,7 @@ export class GoogleAPIError extends Error {
   constructor(
     public status: number,
     message: string,
+    public retryAfterSeconds: number | null = null,
   ) {
     super(message);
     this.name = "GoogleAPIError";
@@ -101,13 +123,28 @@ interface ReviewsResponse {
     createTime?: string;
     reviewReply?: {
       comment: string;
-      updateTime: string;
+      updateTime?: string;
     };
   }>;
   nextPageToken?: string;
   totalReviewCount?: number;
 }
 
+/**
+ * Owner reply currently published on Google for a review
+ */
+export interface GoogleReviewReply {
+  comment: string;
+  updated_at: string | null;
+}
+
+/**
+ * Review returned by fetchReviews, with the reply live on Google (null when unanswered)
+ */
+export type FetchedReview = Partial<Review> & {
+  reply?: GoogleReviewReply | null;
+};
+
 /**
  * Convert a Google star rating enum into its numeric value.
  *
@@ -239,16 +276,403 @@ async function fetchWithTimeout(
   }
 }
 
+/**
+ * Requests sent in the current quota window (this process only)
+ */
+const quotaWindow = { startedAt: 0, requests: 0 };
+
+/**
+ * Time (ms since epoch) until which requests fail fast because Google is rate-limiting
+ */
+let rateLimitedUntil = 0;
+
+/**
+ * Check whether an error means Google is rate-limiting this project.
+ *
+ * @param error - Error thrown by a client function
+ * @returns True for rate-limit errors, whose `retryAfterSeconds` says when to try again
+ */
+export function isGoogleRateLimitError(
+  error: unknown,
+): error is GoogleAPIError {
+  return error instanceof GoogleAPIError && error.status === 429;
+}
+
+/**
+ * Seconds until the circuit breaker lets Business Profile API requests through again.
+ *
+ * @returns 0 when requests are allowed
+ */
+export function getGoogleRateLimitRetryAfter(): number {
+  return Math.max(0, Math.ceil((rateLimitedUntil - Date.now()) / 1000));
+}
+
+/**
+ * The per-minute request limit, from GOOGLE_REQUESTS_PER_MINUTE when it is a
+ * positive integer.
+ *
+ * The limit is best effort: each serverless instance counts only its own
+ * requests, so concurrent instances (a cron run alongside publish and backfill
+ * requests) can together exceed Google's project quota. Google's own 429 /
+ * RESOURCE_EXHAUSTED responses remain authoritative and open the circuit breaker.
+ *
+ * @returns Requests this process may send per minute
+ */
+export function getGoogleRequestsPerMinute(): number {
+  const configured = Number(process.env.GOOGLE_REQUESTS_PER_MINUTE);
+  return Number.isInteger(configured) && configured > 0
+    ? configured
+    : DEFAULT_GOOGLE_REQUESTS_PER_MINUTE;
+}
+
+/**
+ * Business Profile API requests counted against the quota in the current minute.
+ *
+ * @returns Requests sent in this process and the per-minute limit
+ */
+export function getGoogleQuotaUsage(): { requests: number; limit: number } {
+  const current = Date.now() - quotaWindow.startedAt < QUOTA_WINDOW_MS;
+  return {
+    requests: current ? quotaWindow.requests : 0,
+    limit: getGoogleRequestsPerMinute(),
+  };
+}
+
+/**
+ * Build the error returned to callers while Google is rate-limiting.
+ */
+function createRateLimitError(retryAfterSeconds: number): GoogleAPIError {
+  return new GoogleAPIError(
+    429,
+    `Google API rate limit reached. Try again in ${retryAfterSeconds} seconds.`,
+    retryAfterSeconds,
+  );
+}
+
+/**
+ * Open the circuit breaker so requests fail fast until Google's limit resets.
+ */
+function openCircuit(retryAfterSeconds: number): void {
+  rateLimitedUntil = Math.max(
+    rateLimitedUntil,
+    Date.now() + retryAfterSeconds * 1000,
+  );
+}
+
+/**
+ * Count a request against this process's share of the project quota.
+ *
+ * @throws GoogleAPIError with status 429 if the circuit breaker is open or this minute's quota is used up
+ */
+function reserveQuota(): void {
+  const retryAfter = getGoogleRateLimitRetryAfter();
+  if (retryAfter > 0) {
+    throw createRateLimitError(retryAfter);
+  }
+
+  const now = Date.now();
+  if (now - quotaWindow.startedAt >= QUOTA_WINDOW_MS) {
+    quotaWindow.startedAt = now;
+    quotaWindow.requests = 0;
+  }
+
+  if (quotaWindow.requests >= getGoogleRequestsPerMinute()) {
+    const windowRemaining = Math.ceil(
+      (quotaWindow.startedAt + QUOTA_WINDOW_MS - now) / 1000,
+    );
+    openCircuit(windowRemaining);
+    throw createRateLimitError(windowRemaining);
+  }
+
+  quotaWindow.requests++;
+}
+
+/**
+ * Parse a Retry-After header given either as seconds or as an HTTP date.
+ *
+ * @param header - The header value, if any
+ * @returns Whole seconds to wait, or null if missing or unparseable
+ */
+function parseRetryAfter(header: string | null): number | null {
+  if (!header) return null;
+
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, Math.ceil(seconds));
+  }
+
+  const date = Date.parse(header);
+  return Number.isNaN(date)
+    ? null
+    : Math.max(0, Math.ceil((date - Date.now()) / 1000));
+}
+
+/**
+ * Fetch a Business Profile API URL through the shared request layer.
+ *
+ * Every attempt counts against the project quota. Rate limits (429 or
+ * RESOURCE_EXHAUSTED) and 5xx errors are retried with exponential backoff,
+ * honoring Retry-After when Google sends one. A rate limit that persists, or
+ * asks for a longer wait than is worth blocking on, opens the circuit breaker
+ * so later requests fail fast until the wait is over.
+ *
+ * @param url - The URL to fetch
+ * @param options - Fetch options
+ * @param failureMessage - Prefix for the error message when Google returns an error status
+ * @returns The successful response
+ * @throws GoogleAPIError with status 429 and `retryAfterSeconds` when rate-limited, the response status for other errors, or 408 on timeout
+ */
+async function googleFetch(
+  url: string,
+  options: RequestInit,
+  failureMessage: string,
+): Promise<Response> {
+  let lastError: GoogleAPIError | null = null;
+
+  for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+    reserveQuota();
+
+    const response = await fetchWithTimeout(url, options);
+    if (response.ok) {
+      return response;
+    }
+
+    const errorData = await response.json().catch(() => ({}));
+    const isRateLimited =
+      response.status === 429 ||
+      (errorData as { error?: { status?: string } }).error?.status ===
+        "RESOURCE_EXHAUSTED";
+
+    if (!isRateLimited && response.status < 500) {
+      throw new GoogleAPIError(
+        response.status,
+        `${failureMessage}: ${response.statusText}`,
+      );
+    }
+
+    const retryAfter = parseRetryAfter(response.headers.get("Retry-After"));
+    lastError = isRateLimited
+      ? createRateLimitError(retryAfter ?? DEFAULT_RATE_LIMIT_SECONDS)
+      : new GoogleAPIError(
+          response.status,
+          `${failureMessage}: ${response.statusText}`,
+          retryAfter,
+        );
+
+    const waitMs =
+      retryAfter !== null
+        ? retryAfter * 1000
+        : RETRY_BASE_DELAY_MS * 2 ** (attempt - 1);
+    if (attempt === MAX_ATTEMPTS || waitMs > MAX_RETRY_WAIT_MS) {
+      break;
+    }
+
+    console.warn("Google API attempt failed:", {
+      attempt,
+      maxAttempts: MAX_ATTEMPTS,
+      status: response.status,
+    });
+    // Exponential backoff: 1s, 2s (or Google's Retry-After)
+    await new Promise((resolve) => setTimeout(resolve, waitMs));
+  }
+
+  if (lastError && isGoogleRateLimitError(lastError)) {
+    openCircuit(lastError.retryAfterSeconds ?? DEFAULT_RATE_LIMIT_SECONDS);
+  }
+  throw lastError ?? new GoogleAPIError(500, failureMessage);
+}
+
+/**
+ * A user's access token and when Google says it expires
+ */
+export interface CachedAccessToken {
+  accessToken: string;
+  expiresAt: string;
+}
+
+/**
+ * Persistent storage for cached access tokens (implementations encrypt at rest)
+ */
+export interface AccessTokenStore {
+  /** Load the user's cached token; throws if storage is unavailable */
+  load(userId: string): Promise<CachedAccessToken | null>;
+  /** Replace the user's cached token; throws if storage is unavailable */
+  save(userId: string, token: CachedAccessToken): Promise<void>;
+  /** Drop the user's cached token; throws if storage is unavailable */
+  clear(userId: string): Promise<void>;
+}
+
+/**
+ * Access token lookups in progress, by user id, so concurrent callers in this
+ * process share one refresh instead of each calling Google's token endpoint
+ */
+const pendingAccessTokens = new Map<string, Promise<string>>();
+
 /**
  * Exchange a Google OAuth2 refresh token for a new access token.
  *
  * @param refreshToken - A valid OAuth2 refresh token issued by Google.
  * @returns The refreshed access token string.
- * @throws GoogleAPIError when OAuth client credentials are not configured (status 500), when the refresh fails due to expired/invalid credentials (status 401), or when the token endpoint returns another error status.
+ * @throws GoogleAPIError when OAuth client credentials are not configured (status 500), when the refresh token is expired or revoked (status 401, including Google's 400 `invalid_grant`), or when the token endpoint returns another error status.
  */
 export async function refreshAccessToken(
   refreshToken: string,
 ): Promise<string> {
+  const token = await requestAccessToken(refreshToken);
+  return token.access_token;
+}
+
+/**
+ * Get an access token for a user, reusing their cached token until it is
+ * within ACCESS_TOKEN_EXPIRY_MARGIN_MS of expiring. A fresh token is stored
+ * with its expiry for later requests. Concurrent calls for the same user share
+ * one lookup. Storage failures are logged and fall back to refreshing.
+ *
+ * @param userId - User who owns the refresh token (cache key)
+ * @param refreshToken - The user's decrypted OAuth2 refresh token
+ * @param store - Where the user's cached token is kept
+ * @param options - `forceRefresh` evicts the cached token and refreshes, for when Google rejected it
+ * @returns A valid access token
+ * @throws GoogleAPIError from the token endpoint, as for refreshAccessToken
+ */
+export function getAccessToken(
+  userId: string,
+  refreshToken: string,
+  store: AccessTokenStore,
+  options: { forceRefresh?: boolean } = {},
+): Promise<string> {
+  const pending = pendingAccessTokens.get(userId);
+  // A lookup already in progress may return the rejected token, so a forced refresh doesn't join it
+  if (pending && !options.forceRefresh) {
+    return pending;
+  }
+
+  const lookup = (
+    options.forceRefresh
+      ? evictAndRefreshAccessToken(userId, refreshToken, store)
+      : loadOrRefreshAccessToken(userId, refreshToken, store)
+  ).finally(() => {
+    if (pendingAccessTokens.get(userId) === lookup) {
+      pendingAccessTokens.delete(userId);
+    }
+  });
+  pendingAccessTokens.set(userId, lookup);
+  return lookup;
+}
+
+/**
+ * Make a Business Profile API request, retrying it once with a freshly
+ * refreshed access token if Google rejects the first one with 401. A cached
+ * token can stop working before it expires, e.g. when the user revokes access
+ * and grants it again.
+ *
+ * @param accessToken - The access token to try first (usually cached)
+ * @param refresh - Evicts the rejected token and returns a new one (e.g. getAccessToken with `forceRefresh`)
+ * @param request - The API call to make with a token
+ * @returns The request's result
+ * @throws GoogleAPIError from the request, or from `refresh` (401 when the refresh token was revoked)
+ */
+export async function withAccessTokenRetry<T>(
+  accessToken: string,
+  refresh: () => Promise<string>,
+  request: (accessToken: string) => Promise<T>,
+): Promise<T> {
+  try {
+    return await request(accessToken);
+  } catch (error) {
+    if (!(error instanceof GoogleAPIError && error.status === 401)) {
+      throw error;
+    }
+    console.warn(
+      "Google rejected the access token; refreshing it and retrying",
+    );
+    return request(await refresh());
+  }
+}
+
+/**
+ * Return the user's cached access token if it is still fresh, otherwise refresh and cache it.
+ */
+async function loadOrRefreshAccessToken(
+  userId: string,
+  refreshToken: string,
+  store: AccessTokenStore,
+): Promise<string> {
+  try {
+    const cached = await store.load(userId);
+    if (
+      cached &&
+      Date.parse(cached.expiresAt) - Date.now() > ACCESS_TOKEN_EXPIRY_MARGIN_MS
+    ) {
+      return cached.accessToken;
+    }
+  } catch (error) {
+    console.error(
+      `Failed to load cached Google access token for user ${userId}:`,
+      error instanceof Error ? error.message : error,
+    );
+  }
+
+  return refreshAndCacheAccessToken(userId, refreshToken, store);
+}
+
+/**
+ * Drop the user's cached access token and refresh it, after Google rejected the cached one.
+ */
+async function evictAndRefreshAccessToken(
+  userId: string,
+  refreshToken: string,
+  store: AccessTokenStore,
+): Promise<string> {
+  try {
+    await store.clear(userId);
+  } catch (error) {
+    // Saving the refreshed token below replaces it anyway
+    console.error(
+      `Failed to evict cached Google access token for user ${userId}:`,
+      error instanceof Error ? error.message : error,
+    );
+  }
+
+  return refreshAndCacheAccessToken(userId, refreshToken, store);
+}
+
+/**
+ * Refresh the user's access token and cache it with its expiry.
+ */
+async function refreshAndCacheAccessToken(
+  userId: string,
+  refreshToken: string,
+  store: AccessTokenStore,
+): Promise<string> {
+  const token = await requestAccessToken(refreshToken);
+
+  try {
+    await store.save(userId, {
+      accessToken: token.access_token,
+      expiresAt: new Date(Date.now() + token.expires_in * 1000).toISOString(),
+    });
+  } catch (error) {
+    // The token is still valid - the next request just refreshes again
+    console.error(
+      `Failed to cache Google access token for user ${userId}:`,
+      error instanceof Error ? error.message : error,
+    );
+  }
+
+  return token.access_token;
+}
+
+/**
+ * Call Google's token endpoint with a refresh token.
+ *
+ * @param refreshToken - A valid OAuth2 refresh token issued by Google
+ * @returns The token response, including the access token's lifetime in seconds
+ * @throws GoogleAPIError as described for refreshAccessToken
+ */
+async function requestAccessToken(
+  refreshToken: string,
+): Promise<TokenResponse> {
   const clientId = process.env.GOOGLE_CLIENT_ID;
   const clientSecret = process.env.GOOGLE_CLIENT_SECRET;
 
@@ -275,7 +699,12 @@ export async function refreshAccessToken(
       (errorData as { error?: string }).error ??
       "Token refresh failed";
 
-    if (response.status === 401) {
+    // Google answers a revoked or expired refresh token with 400 invalid_grant
+    if (
+      response.status === 401 ||
+      (response.status === 400 &&
+        (errorData as { error?: string }).error === "invalid_grant")
+    ) {
       throw new GoogleAPIError(
         401,
         "Google authentication expired. Please reconnect your account.",
@@ -284,8 +713,7 @@ export async function refreshAccessToken(
     throw new GoogleAPIError(response.status, errorMessage);
   }
 
-  const data = (await response.json()) as TokenResponse;
-  return data.access_token;
+  return (await response.json()) as TokenResponse;
 }
 
 /**
@@ -293,21 +721,16 @@ export async function refreshAccessToken(
  *
  * @param accessToken - OAuth 2.0 access token with the business.manage scope
  * @returns A list of objects each containing `accountId` and `name` for an account
- * @throws GoogleAPIError if the API request fails
+ * @throws GoogleAPIError if the API request fails (status 429 when Google is rate-limiting)
  */
 export async function fetchAccounts(
   accessToken: string,
 ): Promise<Array<{ accountId: string; name: string }>> {
-  const response = await fetchWithTimeout(`${ACCOUNTS_API}/accounts`, {
-    headers: { Authorization: `Bearer ${accessToken}` },
-  });
-
-  if (!response.ok) {
-    throw new GoogleAPIError(
-      response.status,
-      `Failed to fetch accounts: ${response.statusText}`,
-    );
-  }
+  const response = await googleFetch(
+    `${ACCOUNTS_API}/accounts`,
+    { headers: { Authorization: `Bearer ${accessToken}` } },
+    "Failed to fetch accounts",
+  );
 
   const data = (await response.json()) as AccountsResponse;
 
@@ -323,7 +746,7 @@ export async function fetchAccounts(
  * @param accessToken - OAuth 2.0 access token
  * @param accountId - The Google account ID (without "accounts/" prefix)
  * @returns An array of partial Location objects
- * @throws GoogleAPIError if the API request fails
+ * @throws GoogleAPIError if the API request fails (status 429 when Google is rate-limiting)
  */
 export async function fetchLocations(
   accessToken: string,
@@ -331,16 +754,11 @@ export async function fetchLocations(
 ): Promise<Array<Partial<Location>>> {
   const url = `${LOCATIONS_API}/accounts/${accountId}/locations?readMask=name,title,storefrontAddress`;
 
-  const response = await fetchWithTimeout(url, {
-    headers: { Authorization: `Bearer ${accessToken}` },
-  });
-
-  if (!response.ok) {
-    throw new GoogleAPIError(
-      response.status,
-      `Failed to fetch locations: ${response.statusText}`,
-    );
-  }
+  const response = await googleFetch(
+    url,
+    { headers: { Authorization: `Bearer ${accessToken}` } },
+    "Failed to fetch locations",
+  );
 
   const data = (await response.json()) as LocationsResponse;
 
@@ -381,15 +799,15 @@ export async function fetchLocations(
  * @param accountId - Google account identifier that owns the location
  * @param locationId - Identifier of the location to fetch reviews for
  * @param pageToken - Optional token to retrieve the next page of results
- * @returns An object containing reviews array and optional nextPageToken
- * @throws GoogleAPIError if the API request fails
+ * @returns An object containing reviews array (each with its Google reply, if any) and optional nextPageToken
+ * @throws GoogleAPIError if the API request fails (status 429 when Google is rate-limiting)
  */
 export async function fetchReviews(
   accessToken: string,
   accountId: string,
   locationId: string,
   pageToken?: string,
-): Promise<{ reviews: Array<Partial<Review>>; nextPageToken?: string }> {
+): Promise<{ reviews: FetchedReview[]; nextPageToken?: string }> {
   const url = new URL(
     `${REVIEWS_API}/accounts/${accountId}/locations/${locationId}/reviews`,
   );
@@ -398,20 +816,15 @@ export async function fetchReviews(
     url.searchParams.set("pageToken", pageToken);
   }
 
-  const response = await fetchWithTimeout(url.toString(), {
-    headers: { Authorization: `Bearer ${accessToken}` },
-  });
-
-  if (!response.ok) {
-    throw new GoogleAPIError(
-      response.status,
-      `Failed to fetch reviews: ${response.statusText}`,
-    );
-  }
+  const response = await googleFetch(
+    url.toString(),
+    { headers: { Authorization: `Bearer ${accessToken}` } },
+    "Failed to fetch reviews",
+  );
 
   const data = (await response.json()) as ReviewsResponse;
 
-  const result: { reviews: Array<Partial<Review>>; nextPageToken?: string } = {
+  const result: { reviews: FetchedReview[]; nextPageToken?: string } = {
     reviews: (data.reviews ?? []).map((review) => ({
       external_review_id: review.reviewId,
       reviewer_name: review.reviewer?.displayName ?? null,
@@ -422,6 +835,12 @@ export async function fetchReviews(
       has_response: !!review.reviewReply,
       platform: "google",
       status: review.reviewReply ? "responded" : "pending",
+      reply: review.reviewReply
+        ? {
+            comment: review.reviewReply.comment,
+            updated_at: review.reviewReply.updateTime ?? null,
+          }
+        : null,
     })),
   };
 
@@ -441,7 +860,7 @@ export async function fetchReviews(
  * @param reviewId - The review ID to reply to
  * @param responseText - The reply text to publish
  * @returns `true` if the reply was successfully published
- * @throws GoogleAPIError if the API request fails
+ * @throws GoogleAPIError if the API request fails (status 429 when Google is rate-limiting)
  */
 export async function publishResponse(
   accessToken: string,
@@ -452,21 +871,18 @@ export async function publishResponse(
 ): Promise<boolean> {
   const url = `${REVIEWS_API}/accounts/${accountId}/locations/${locationId}/reviews/${reviewId}/reply`;
 
-  const response = await fetchWithTimeout(url, {
-    method: "PUT",
-    headers: {
-      Authorization: `Bearer ${accessToken}`,
-      "Content-Type": "application/json",
+  await googleFetch(
+    url,
+    {
+      method: "PUT",
+      headers: {
+        Authorization: `Bearer ${accessToken}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ comment: responseText }),
     },
-    body: JSON.stringify({ comment: responseText }),
-  });
-
-  if (!response.ok) {
-    throw new GoogleAPIError(
-      response.status,
-      `Failed to publish response: ${response.statusText}`,
-    );
-  }
+    "Failed to publish response",
+  );
 
   return true;
 }
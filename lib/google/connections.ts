@@ -0,0 +1,162 @@
+/**
+ * Google Connections
+ *
+ * Any user in an organization can connect Google. The poller tries the user
+ * recorded on each location first and falls back to the organization's other
+ * connected users when a stored refresh token is revoked or unreadable, so one
+ * teammate's revoked token doesn't stop the whole organization from syncing.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+import { decryptToken, TokenDecryptionError } from "@/lib/crypto/encryption";
+import { GoogleAPIError, getAccessToken } from "@/lib/google/client";
+import { createAccessTokenStore } from "@/lib/google/token-store";
+import { typedUpdate } from "@/lib/supabase/typed-helpers";
+import type { Database } from "@/lib/supabase/types";
+
+/**
+ * A user's stored Google connection
+ */
+export interface GoogleConnection {
+  user_id: string;
+  google_refresh_token: string;
+}
+
+/**
+ * Connection state shared across lookups within one run
+ */
+export interface ConnectionState {
+  /** Access tokens already refreshed this run, by user id */
+  accessTokens: Map<string, string>;
+  /** Users whose refresh token was revoked or unreadable (and has been cleared) */
+  invalidUserIds: Set<string>;
+}
+
+/**
+ * Result of finding a working connection
+ */
+export interface ConnectionAccessToken {
+  accessToken: string | null;
+  /** User whose connection produced the access token */
+  userId: string | null;
+  /** True when every connection in the organization is invalid */
+  noValidConnection: boolean;
+  /** One message per failed attempt */
+  errors: string[];
+}
+
+/**
+ * Create empty connection state for a run.
+ */
+export function createConnectionState(): ConnectionState {
+  return { accessTokens: new Map(), invalidUserIds: new Set() };
+}
+
+/**
+ * Order an organization's connections so the preferred user is tried first.
+ *
+ * @param connections - The organization's connections, in fallback order
+ * @param preferredUserId - User recorded on the location, if any
+ * @returns The connections with the preferred user's moved to the front
+ */
+export function orderConnections(
+  connections: GoogleConnection[],
+  preferredUserId: string | null,
+): GoogleConnection[] {
+  const preferred = connections.find((c) => c.user_id === preferredUserId);
+  if (!preferred) {
+    return connections;
+  }
+
+  return [preferred, ...connections.filter((c) => c !== preferred)];
+}
+
+/**
+ * Get an access token from the first connection that works.
+ *
+ * Connections whose refresh token cannot be decrypted or is rejected as
+ * revoked (401, which includes Google's 400 `invalid_grant`) are cleared
+ * from the database and the next connection is tried. Any other refresh error
+ * (e.g. Google being unavailable) stops the lookup, since the remaining
+ * connections would most likely fail the same way.
+ *
+ * @param supabase - Supabase client (service role)
+ * @param connections - Connections to try, in order
+ * @param state - Connection state for the run; updated with refreshed tokens and invalid users
+ * @param options - `forceRefresh` skips tokens already refreshed or cached, for when Google rejected one
+ * @returns The access token and the user it belongs to, or null with the errors encountered
+ */
+export async function getConnectionAccessToken(
+  supabase: SupabaseClient<Database>,
+  connections: GoogleConnection[],
+  state: ConnectionState,
+  options: { forceRefresh?: boolean } = {},
+): Promise<ConnectionAccessToken> {
+  const errors: string[] = [];
+  const tokenStore = createAccessTokenStore(supabase);
+
+  for (const connection of connections) {
+    const userId = connection.user_id;
+    if (state.invalidUserIds.has(userId)) continue;
+
+    const cached = options.forceRefresh
+      ? undefined
+      : state.accessTokens.get(userId);
+    if (cached) {
+      return { accessToken: cached, userId, noValidConnection: false, errors };
+    }
+
+    try {
+      const accessToken = await getAccessToken(
+        userId,
+        decryptToken(connection.google_refresh_token),
+        tokenStore,
+        options,
+      );
+      state.accessTokens.set(userId, accessToken);
+      return { accessToken, userId, noValidConnection: false, errors };
+    } catch (error: unknown) {
+      if (error instanceof TokenDecryptionError) {
+        console.error(
+          `Failed to decrypt Google refresh token for user ${userId}:`,
+          error.message,
+        );
+        errors.push(
+          `User ${userId}: Token decryption failed - data may be corrupted`,
+        );
+      } else if (error instanceof GoogleAPIError && error.status === 401) {
+        errors.push(`User ${userId}: ${error.message}`);
+      } else {
+        errors.push(
+          `User ${userId}: ${
+            error instanceof GoogleAPIError
+              ? error.message
+              : "Token refresh failed"
+          }`,
+        );
+        return {
+          accessToken: null,
+          userId: null,
+          noValidConnection: false,
+          errors,
+        };
+      }
+
+      // The token will never work again - clear it so the user is asked to reconnect
+      state.invalidUserIds.add(userId);
+      await typedUpdate(supabase, "users", {
+        google_refresh_token: null,
+      }).eq("id", userId);
+    }
+  }
+
+  return {
+    accessToken: null,
+    userId: null,
+    noValidConnection: connections.every((c) =>
+      state.invalidUserIds.has(c.user_id),
+    ),
+    errors,
+  };
+}
@@ -0,0 +1,71 @@
+/**
+ * Google Access Token Store
+ *
+ * Keeps each user's latest Google access token on their users row, encrypted
+ * with the same key as the refresh token. A database trigger drops the cached
+ * token whenever the refresh token changes, so a token from a revoked or
+ * replaced connection is never reused; a token Google rejects before it
+ * expires is cleared by getAccessToken's `forceRefresh`.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+import { decryptToken, encryptToken } from "@/lib/crypto/encryption";
+import type { AccessTokenStore } from "@/lib/google/client";
+import { typedUpdate } from "@/lib/supabase/typed-helpers";
+import type { Database } from "@/lib/supabase/types";
+
+/**
+ * Create an access token store backed by users.google_access_token.
+ *
+ * @param supabase - Supabase client that can read and update the users' rows
+ * @returns A store for getAccessToken
+ */
+export function createAccessTokenStore(
+  supabase: SupabaseClient<Database>,
+): AccessTokenStore {
+  return {
+    async load(userId) {
+      const { data, error } = await supabase
+        .from("users")
+        .select("google_access_token, google_access_token_expires_at")
+        .eq("id", userId)
+        .maybeSingle();
+
+      if (error) {
+        throw new Error(error.message);
+      }
+
+      if (!data?.google_access_token || !data.google_access_token_expires_at) {
+        return null;
+      }
+
+      return {
+        accessToken: decryptToken(data.google_access_token),
+        expiresAt: data.google_access_token_expires_at,
+      };
+    },
+
+    async save(userId, token) {
+      const { error } = await typedUpdate(supabase, "users", {
+        google_access_token: encryptToken(token.accessToken),
+        google_access_token_expires_at: token.expiresAt,
+      }).eq("id", userId);
+
+      if (error) {
+        throw new Error(error.message);
+      }
+    },
+
+    async clear(userId) {
+      const { error } = await typedUpdate(supabase, "users", {
+        google_access_token: null,
+        google_access_token_expires_at: null,
+      }).eq("id", userId);
+
+      if (error) {
+        throw new Error(error.message);
+      }
+    },
+  };
+}
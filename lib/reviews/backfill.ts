@@ -0,0 +1,322 @@
+/**
+ * First-Sync Review Backfill
+ *
+ * Imports historical reviews for a newly synced location by following
+ * fetchReviews pagination up to a per-tier limit. Progress is stored in
+ * location_backfills so an import cut short by a timeout resumes from its
+ * saved page token on the next run.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+import { fetchReviews, GoogleAPIError } from "@/lib/google/client";
+import { escalateReviews } from "@/lib/reviews/escalation";
+import { buildReviewRows, laterTimestamp } from "@/lib/reviews/ingest";
+import { syncGoogleReplies } from "@/lib/reviews/replies";
+import {
+  analyzeReviewSentiment,
+  toReviewsToAnalyze,
+} from "@/lib/reviews/sentiment";
+import { tagReviews } from "@/lib/reviews/tags";
+import { typedUpsert } from "@/lib/supabase/typed-helpers";
+import type { Database, LocationBackfill } from "@/lib/supabase/types";
+
+/**
+ * Maximum number of historical reviews imported per location, by plan tier
+ */
+export const BACKFILL_REVIEW_LIMITS = {
+  agency: 1000,
+  growth: 500,
+  starter: 200,
+} as const;
+
+/**
+ * Backfill lifecycle states stored in location_backfills.status
+ */
+export type BackfillStatus = "pending" | "running" | "completed" | "failed";
+
+/**
+ * Backfill progress returned to clients
+ */
+export interface BackfillProgress {
+  location_id: string;
+  status: BackfillStatus;
+  imported_count: number;
+  target_count: number | null;
+  last_error: string | null;
+}
+
+/**
+ * Location data needed to run a backfill
+ */
+interface BackfillLocation {
+  id: string;
+  name: string;
+  organization_id: string;
+  google_account_id: string;
+  google_location_id: string;
+}
+
+/**
+ * Resolve the backfill review limit for a plan tier.
+ *
+ * @param planTier - The organization's plan tier (null/unknown tiers use starter)
+ * @returns Maximum number of historical reviews to import
+ */
+export function getBackfillLimit(planTier: string | null): number {
+  const tier =
+    planTier === "agency" || planTier === "growth" ? planTier : "starter";
+  return BACKFILL_REVIEW_LIMITS[tier];
+}
+
+/**
+ * Whether a backfill still has work to do.
+ *
+ * @param status - The backfill status
+ * @returns true for pending or running backfills
+ */
+export function isBackfillUnfinished(status: string): boolean {
+  return status === "pending" || status === "running";
+}
+
+/**
+ * Project a location_backfills row onto the client-facing progress shape.
+ *
+ * @param backfill - The backfill row
+ * @returns Progress fields safe to return from API routes
+ */
+export function toBackfillProgress(
+  backfill: Pick<
+    LocationBackfill,
+    "location_id" | "status" | "imported_count" | "target_count" | "last_error"
+  >,
+): BackfillProgress {
+  return {
+    location_id: backfill.location_id,
+    status: backfill.status as BackfillStatus,
+    imported_count: backfill.imported_count,
+    target_count: backfill.target_count,
+    last_error: backfill.last_error,
+  };
+}
+
+/**
+ * Import historical reviews for a location until the target count is reached,
+ * Google runs out of pages, or the deadline passes.
+ *
+ * On completion the newest imported review date seeds the location's polling
+ * high-water mark (when none exists yet), so the poll-reviews cron only fetches
+ * reviews newer than the backfill instead of walking the full history again.
+ *
+ * @param supabase - Supabase client used to write reviews and progress
+ * @param accessToken - Google OAuth access token for the location's account
+ * @param location - The location to import reviews for
+ * @param backfill - The current backfill record (resumes from its page token)
+ * @param options - `targetCount` (max reviews) and `deadline` (epoch ms to stop paging)
+ * @returns The updated backfill progress
+ */
+export async function runLocationBackfill(
+  supabase: SupabaseClient<Database>,
+  accessToken: string,
+  location: BackfillLocation,
+  backfill: LocationBackfill,
+  options: { targetCount: number; deadline: number },
+): Promise<BackfillProgress> {
+  const targetCount = backfill.target_count ?? options.targetCount;
+  let importedCount = backfill.imported_count;
+  let pageToken = backfill.next_page_token ?? undefined;
+  let newestReviewDate = backfill.newest_review_date;
+  let status: BackfillStatus = "running";
+  let lastError: string | null = null;
+  let reachedLastPage = false;
+
+  try {
+    while (importedCount < targetCount) {
+      if (Date.now() >= options.deadline) {
+        break;
+      }
+
+      const { reviews, nextPageToken } = await fetchReviews(
+        accessToken,
+        location.google_account_id,
+        location.google_location_id,
+        pageToken,
+      );
+
+      const reviewsToInsert = buildReviewRows(location, reviews).slice(
+        0,
+        targetCount - importedCount,
+      );
+
+      if (reviewsToInsert.length > 0) {
+        const { data: upsertedReviews, error: upsertError } = await typedUpsert(
+          supabase,
+          "reviews",
+          reviewsToInsert,
+          {
+            onConflict: "external_review_id",
+            ignoreDuplicates: false,
+          },
+        ).select("id, external_review_id");
+
+        if (upsertError) {
+          console.error(
+            `Failed to upsert backfilled reviews for location ${location.id}:`,
+            upsertError.message,
+          );
+          // Keep the cursor on this page so the next run retries it
+          lastError = "Failed to save reviews";
+          break;
+        }
+
+        importedCount += upsertedReviews?.length ?? 0;
+
+        // Missing replies are picked up again by later polls, so this doesn't stop the import
+        const { error: replyError } = await syncGoogleReplies(
+          supabase,
+          upsertedReviews ?? [],
+          reviews,
+        );
+        if (replyError) {
+          console.error(
+            `Failed to sync Google replies for location ${location.id}:`,
+            replyError,
+          );
+        }
+
+        const reviewsToAnalyze = toReviewsToAnalyze(
+          upsertedReviews ?? [],
+          reviewsToInsert,
+        );
+        const { analyses, error: sentimentError } =
+          await analyzeReviewSentiment(
+            supabase,
+            reviewsToAnalyze,
+            location.organization_id,
+            { deadline: options.deadline },
+          );
+        if (sentimentError) {
+          console.error(
+            `Failed to save review sentiment for location ${location.id}:`,
+            sentimentError,
+          );
+        }
+
+        const { error: tagError } = await tagReviews(
+          supabase,
+          location.organization_id,
+          reviewsToAnalyze,
+          analyses,
+        );
+        if (tagError) {
+          console.error(
+            `Failed to save review tags for location ${location.id}:`,
+            tagError,
+          );
+        }
+
+        const { error: escalationError } = await escalateReviews(
+          supabase,
+          reviewsToAnalyze,
+        );
+        if (escalationError) {
+          console.error(
+            `Failed to save review escalations for location ${location.id}:`,
+            escalationError,
+          );
+        }
+      }
+
+      for (const review of reviewsToInsert) {
+        newestReviewDate = laterTimestamp(
+          newestReviewDate,
+          review.review_date ?? null,
+        );
+      }
+
+      if (!nextPageToken) {
+        reachedLastPage = true;
+        break;
+      }
+      pageToken = nextPageToken;
+    }
+
+    // Done once the target is reached or Google has no older reviews
+    if (
+      lastError === null &&
+      (importedCount >= targetCount || reachedLastPage)
+    ) {
+      status = "completed";
+    }
+  } catch (error: unknown) {
+    lastError =
+      error instanceof GoogleAPIError
+        ? error.message
+        : "Failed to fetch reviews";
+
+    if (error instanceof GoogleAPIError) {
+      if (error.status === 403 || error.status === 404) {
+        // Location removed or access revoked - retrying won't help
+        status = "failed";
+      } else if (error.status === 400 && pageToken) {
+        // Stale page token - restart the import from the newest page
+        pageToken = undefined;
+        importedCount = 0;
+      }
+    }
+  }
+
+  const now = new Date().toISOString();
+  const { error: saveError } = await supabase
+    .from("location_backfills")
+    .update({
+      status,
+      target_count: targetCount,
+      imported_count: importedCount,
+      next_page_token: status === "running" ? (pageToken ?? null) : null,
+      newest_review_date: newestReviewDate,
+      last_error: lastError,
+      started_at: backfill.started_at ?? now,
+      completed_at: status === "completed" ? now : null,
+      updated_at: now,
+    })
+    .eq("location_id", location.id);
+
+  if (saveError) {
+    console.error(
+      `Failed to save backfill progress for location ${location.id}:`,
+      saveError.message,
+    );
+  }
+
+  if (status === "completed" && newestReviewDate) {
+    const { error: pollStateError } = await supabase
+      .from("location_poll_state")
+      .upsert(
+        {
+          location_id: location.id,
+          high_water_mark: newestReviewDate,
+          pending_high_water_mark: null,
+          next_page_token: null,
+          updated_at: now,
+        },
+        // Only seed missing state - never move an existing poller mark backwards
+        { onConflict: "location_id", ignoreDuplicates: true },
+      );
+
+    if (pollStateError) {
+      console.error(
+        `Failed to seed poll state for location ${location.id}:`,
+        pollStateError.message,
+      );
+    }
+  }
+
+  return {
+    location_id: location.id,
+    status,
+    imported_count: importedCount,
+    target_count: targetCount,
+    last_error: lastError,
+  };
+}
@@ -0,0 +1,318 @@
+/**
+ * Business Facts
+ *
+ * Facts an organization keeps about its business (opening hours, policies,
+ * staff names, services, FAQs, current promotions) so drafts can mention
+ * them. Facts apply to every location unless tied to one. Each draft only
+ * gets the few facts that share words with the review, scored by the fact's
+ * keywords, its category's keywords, and the words it has in common with the
+ * review.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+import type { BusinessFact, Database } from "@/lib/supabase/types";
+
+/**
+ * Kinds of business fact, in the order they are listed in settings
+ */
+export const BUSINESS_FACT_CATEGORIES = [
+  "hours",
+  "policy",
+  "staff",
+  "service",
+  "promotion",
+  "faq",
+  "other",
+] as const;
+
+export type BusinessFactCategory = (typeof BUSINESS_FACT_CATEGORIES)[number];
+
+/**
+ * Display labels for fact categories
+ */
+export const BUSINESS_FACT_CATEGORY_LABELS: Record<
+  BusinessFactCategory,
+  string
+> = {
+  hours: "Hours",
+  policy: "Policy",
+  staff: "Staff",
+  service: "Service",
+  promotion: "Promotion",
+  faq: "FAQ",
+  other: "Other",
+};
+
+/**
+ * Maximum number of facts an organization can keep
+ */
+export const MAX_BUSINESS_FACTS = 100;
+
+/**
+ * Maximum number of keywords per fact
+ */
+export const MAX_FACT_KEYWORDS = 20;
+
+/**
+ * Maximum length of a fact's text
+ */
+export const MAX_FACT_CONTENT_LENGTH = 500;
+
+/**
+ * Most facts added to a single prompt
+ */
+export const MAX_PROMPT_FACTS = 5;
+
+/**
+ * Review words that make every fact in a category relevant
+ */
+const CATEGORY_KEYWORDS: Record<BusinessFactCategory, readonly string[]> = {
+  hours: [
+    "hours",
+    "open",
+    "opening",
+    "opened",
+    "closed",
+    "closing",
+    "close",
+    "weekend",
+    "holiday",
+  ],
+  policy: [
+    "refund",
+    "return",
+    "returned",
+    "exchange",
+    "cancel",
+    "cancelled",
+    "cancellation",
+    "policy",
+    "deposit",
+    "warranty",
+  ],
+  staff: [
+    "staff",
+    "employee",
+    "team",
+    "waiter",
+    "waitress",
+    "server",
+    "manager",
+    "receptionist",
+    "owner",
+  ],
+  service: [],
+  promotion: [
+    "deal",
+    "discount",
+    "offer",
+    "coupon",
+    "promotion",
+    "special",
+    "voucher",
+  ],
+  faq: [],
+  other: [],
+};
+
+// Points for each way a fact can match a review
+const FACT_KEYWORD_SCORE = 3;
+const CATEGORY_KEYWORD_SCORE = 2;
+const SHARED_WORD_SCORE = 1;
+
+// Shared words shorter than this don't count
+const MIN_SHARED_WORD_LENGTH = 3;
+
+// Words too common to make a fact relevant
+const STOP_WORDS = new Set([
+  "about",
+  "after",
+  "all",
+  "also",
+  "and",
+  "any",
+  "are",
+  "but",
+  "can",
+  "did",
+  "for",
+  "from",
+  "get",
+  "got",
+  "had",
+  "has",
+  "have",
+  "her",
+  "his",
+  "how",
+  "just",
+  "not",
+  "our",
+  "out",
+  "she",
+  "that",
+  "the",
+  "their",
+  "them",
+  "then",
+  "there",
+  "they",
+  "this",
+  "very",
+  "was",
+  "were",
+  "what",
+  "when",
+  "which",
+  "who",
+  "will",
+  "with",
+  "would",
+  "you",
+  "your",
+]);
+
+/**
+ * Fact fields used to choose and write facts into prompts
+ */
+export type BusinessFactForPrompt = Pick<
+  BusinessFact,
+  "category" | "title" | "content" | "keywords" | "location_id"
+>;
+
+/**
+ * Whether a value is a known fact category.
+ *
+ * @param value - Value to check (e.g. business_facts.category)
+ * @returns true for one of BUSINESS_FACT_CATEGORIES
+ */
+export function isBusinessFactCategory(
+  value: unknown,
+): value is BusinessFactCategory {
+  return BUSINESS_FACT_CATEGORIES.includes(value as BusinessFactCategory);
+}
+
+/**
+ * Whether text contains a keyword as a whole word or phrase.
+ */
+function containsKeyword(text: string, keyword: string): boolean {
+  const escaped = keyword.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  return new RegExp(`\\b${escaped}\\b`).test(text);
+}
+
+/**
+ * The distinct significant words in text, with a trailing plural "s" removed
+ * so "returns" matches "return".
+ */
+function significantWords(text: string): Set<string> {
+  const words = new Set<string>();
+  for (const word of text.toLowerCase().split(/[^\p{L}\p{N}]+/u)) {
+    if (word.length < MIN_SHARED_WORD_LENGTH || STOP_WORDS.has(word)) continue;
+    words.add(word.length > 3 ? word.replace(/s$/, "") : word);
+  }
+  return words;
+}
+
+/**
+ * Score how relevant a fact is to a review.
+ *
+ * @param fact - The fact
+ * @param reviewText - The review text, lowercased
+ * @param reviewWords - The review's significant words
+ * @returns 0 when the fact has nothing to do with the review
+ */
+function scoreFact(
+  fact: BusinessFactForPrompt,
+  reviewText: string,
+  reviewWords: Set<string>,
+): number {
+  let score = 0;
+
+  for (const keyword of fact.keywords) {
+    if (containsKeyword(reviewText, keyword.toLowerCase())) {
+      score += FACT_KEYWORD_SCORE;
+    }
+  }
+
+  const categoryKeywords = isBusinessFactCategory(fact.category)
+    ? CATEGORY_KEYWORDS[fact.category]
+    : [];
+  if (
+    categoryKeywords.some((keyword) => containsKeyword(reviewText, keyword))
+  ) {
+    score += CATEGORY_KEYWORD_SCORE;
+  }
+
+  for (const word of significantWords(`${fact.title} ${fact.content}`)) {
+    if (reviewWords.has(word)) {
+      score += SHARED_WORD_SCORE;
+    }
+  }
+
+  return score;
+}
+
+/**
+ * Choose the facts worth mentioning in a reply to a review.
+ *
+ * @param facts - The facts that apply to the review's location
+ * @param reviewText - The review text (null for rating-only reviews)
+ * @param limit - Most facts to return
+ * @returns The most relevant facts, best first (location-specific facts win ties); empty when none match
+ */
+export function selectRelevantFacts<T extends BusinessFactForPrompt>(
+  facts: T[],
+  reviewText: string | null,
+  limit: number = MAX_PROMPT_FACTS,
+): T[] {
+  const text = (reviewText ?? "").toLowerCase();
+  if (!text.trim()) {
+    return [];
+  }
+  const reviewWords = significantWords(text);
+
+  return facts
+    .map((fact, index) => ({
+      fact,
+      index,
+      score: scoreFact(fact, text, reviewWords),
+    }))
+    .filter(({ score }) => score > 0)
+    .sort(
+      (a, b) =>
+        b.score - a.score ||
+        Number(b.fact.location_id !== null) -
+          Number(a.fact.location_id !== null) ||
+        a.index - b.index,
+    )
+    .slice(0, limit)
+    .map(({ fact }) => fact);
+}
+
+/**
+ * Load the facts that apply to a location: the organization's facts for every
+ * location and the location's own.
+ *
+ * @param supabase - Supabase client for a member of the organization (or service role)
+ * @param organizationId - The organization
+ * @param locationId - The review's location
+ * @returns The facts, or an error message if the database call failed
+ */
+export async function loadBusinessFacts(
+  supabase: SupabaseClient<Database>,
+  organizationId: string,
+  locationId: string,
+): Promise<{ facts: BusinessFactForPrompt[]; error: string | null }> {
+  const { data, error } = await supabase
+    .from("business_facts")
+    .select("category, title, content, keywords, location_id")
+    .eq("organization_id", organizationId)
+    .or(`location_id.is.null,location_id.eq.${locationId}`)
+    .order("created_at", { ascending: true });
+
+  if (error) {
+    return { facts: [], error: error.message };
+  }
+  return { facts: data ?? [], error: null };
+}
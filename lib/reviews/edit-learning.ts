@@ -0,0 +1,579 @@
+/**
+ * Edit Learning
+ *
+ * Compares AI drafts with the replies managers actually published and turns
+ * what they changed into voice profile suggestions: phrases they keep
+ * removing become words to avoid, phrases they keep adding become words to
+ * use, and replies they rewrote (or wrote themselves) for 4-5 star reviews
+ * become example responses. Suggestions only change the voice profile once a
+ * user accepts them in settings.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+import { wordEditDistance } from "@/lib/reviews/prompt-experiments";
+import type {
+  Database,
+  Organization,
+  VoiceProfile,
+  VoiceProfileSuggestionInsert,
+} from "@/lib/supabase/types";
+
+/**
+ * Kinds of suggestion, stored in voice_profile_suggestions.kind
+ */
+export const VOICE_PROFILE_SUGGESTION_KINDS = [
+  "word_to_avoid",
+  "word_to_use",
+  "example_response",
+] as const;
+
+export type VoiceProfileSuggestionKind =
+  (typeof VOICE_PROFILE_SUGGESTION_KINDS)[number];
+
+/**
+ * The voice profile field each kind of suggestion is added to
+ */
+export const SUGGESTION_PROFILE_FIELDS: Record<
+  VoiceProfileSuggestionKind,
+  "words_to_avoid" | "words_to_use" | "example_responses"
+> = {
+  word_to_avoid: "words_to_avoid",
+  word_to_use: "words_to_use",
+  example_response: "example_responses",
+};
+
+/**
+ * How far back published replies are analyzed
+ */
+export const EDIT_LEARNING_WINDOW_DAYS = 90;
+
+/**
+ * How long after an organization is analyzed before it is analyzed again
+ */
+export const EDIT_LEARNING_INTERVAL_HOURS = 24;
+
+/**
+ * Number of edited replies a phrase must be removed from (or added to) before it is suggested
+ */
+export const MIN_PHRASE_EVIDENCE = 3;
+
+/**
+ * Share of a draft's words that must change for a reply to count as rewritten
+ */
+export const REWRITE_EDIT_RATIO = 0.3;
+
+/**
+ * Most example responses a voice profile keeps; accepting another replaces the oldest
+ */
+export const MAX_EXAMPLE_RESPONSES = 5;
+
+// Most published replies analyzed per organization in one run
+const MAX_RESPONSES_ANALYZED = 500;
+
+// Most example responses suggested per run
+const MAX_EXAMPLE_SUGGESTIONS = 3;
+
+// Longest phrase (in words) suggested as a word to avoid or use
+const MAX_PHRASE_WORDS = 4;
+
+// Phrases made only of these words are too common to suggest
+const STOP_WORDS = new Set([
+  "a",
+  "an",
+  "and",
+  "are",
+  "as",
+  "at",
+  "be",
+  "but",
+  "by",
+  "for",
+  "from",
+  "i",
+  "in",
+  "is",
+  "it",
+  "of",
+  "on",
+  "or",
+  "our",
+  "so",
+  "that",
+  "the",
+  "this",
+  "to",
+  "us",
+  "was",
+  "we",
+  "with",
+  "you",
+  "your",
+]);
+
+/**
+ * A run of words replaced between a draft and the published reply
+ */
+export interface WordChange {
+  removed: string[];
+  added: string[];
+}
+
+/**
+ * A published reply with the draft it started from
+ */
+export interface PublishedEdit {
+  id: string;
+  generatedText: string | null;
+  finalText: string;
+  rating: number | null;
+}
+
+/**
+ * What one run of the edit-learning job did for an organization
+ */
+export interface EditLearningResult {
+  responsesAnalyzed: number;
+  /** Published replies whose text differs from the draft */
+  responsesEdited: number;
+  /** Average words changed per edited reply, null when none were edited */
+  averageEditDistance: number | null;
+  suggestionsCreated: number;
+}
+
+/**
+ * Whether a value is a known suggestion kind.
+ *
+ * @param value - Value to check (e.g. voice_profile_suggestions.kind)
+ * @returns true for one of VOICE_PROFILE_SUGGESTION_KINDS
+ */
+export function isVoiceProfileSuggestionKind(
+  value: unknown,
+): value is VoiceProfileSuggestionKind {
+  return VOICE_PROFILE_SUGGESTION_KINDS.includes(
+    value as VoiceProfileSuggestionKind,
+  );
+}
+
+/**
+ * The voice profile change that accepting a suggestion makes: its value is
+ * appended to the matching list unless already there. Example responses keep
+ * only the newest MAX_EXAMPLE_RESPONSES.
+ *
+ * @param voiceProfile - The current lists, or null when the organization has no voice profile yet
+ * @param kind - The suggestion's kind
+ * @param value - The suggested phrase or reply
+ * @returns The voice profile field to set and its new value
+ */
+export function applySuggestionToProfile(
+  voiceProfile: Pick<
+    VoiceProfile,
+    "words_to_avoid" | "words_to_use" | "example_responses"
+  > | null,
+  kind: VoiceProfileSuggestionKind,
+  value: string,
+): Partial<
+  Pick<VoiceProfile, "words_to_avoid" | "words_to_use" | "example_responses">
+> {
+  const field = SUGGESTION_PROFILE_FIELDS[kind];
+  const current = voiceProfile?.[field] ?? [];
+  if (current.some((entry) => entry.toLowerCase() === value.toLowerCase())) {
+    return { [field]: current };
+  }
+
+  const updated = [...current, value];
+  return {
+    [field]:
+      kind === "example_response"
+        ? updated.slice(-MAX_EXAMPLE_RESPONSES)
+        : updated,
+  };
+}
+
+/**
+ * Find the runs of words that were removed, added, or replaced between two
+ * texts, using the longest common subsequence of their words.
+ *
+ * @param from - The original text (the AI draft)
+ * @param to - The changed text (the published reply)
+ * @returns Each change in order; unchanged words are left out
+ */
+export function diffWords(from: string, to: string): WordChange[] {
+  const source = from.split(/\s+/).filter(Boolean);
+  const target = to.split(/\s+/).filter(Boolean);
+
+  // common[i][j] is the LCS length of source[i..] and target[j..]
+  const common = Array.from({ length: source.length + 1 }, () =>
+    new Array<number>(target.length + 1).fill(0),
+  );
+  for (let i = source.length - 1; i >= 0; i--) {
+    const row = common[i] as number[];
+    const nextRow = common[i + 1] as number[];
+    for (let j = target.length - 1; j >= 0; j--) {
+      row[j] =
+        source[i] === target[j]
+          ? (nextRow[j + 1] ?? 0) + 1
+          : Math.max(nextRow[j] ?? 0, row[j + 1] ?? 0);
+    }
+  }
+
+  const changes: WordChange[] = [];
+  let current: WordChange = { removed: [], added: [] };
+  const flush = () => {
+    if (current.removed.length > 0 || current.added.length > 0) {
+      changes.push(current);
+      current = { removed: [], added: [] };
+    }
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < source.length || j < target.length) {
+    if (i < source.length && j < target.length && source[i] === target[j]) {
+      flush();
+      i++;
+      j++;
+    } else if (
+      j >= target.length ||
+      (i < source.length &&
+        (common[i + 1]?.[j] ?? 0) >= (common[i]?.[j + 1] ?? 0))
+    ) {
+      current.removed.push(source[i] as string);
+      i++;
+    } else {
+      current.added.push(target[j] as string);
+      j++;
+    }
+  }
+  flush();
+
+  return changes;
+}
+
+/**
+ * Turn words from a reply into a phrase that can be suggested.
+ *
+ * @param words - The words as written
+ * @returns The lowercased phrase without surrounding punctuation, or null if it is not worth suggesting (too long, only common words, or containing numbers)
+ */
+function toPhrase(words: string[]): string | null {
+  const cleaned = words
+    .map((word) =>
+      word.toLowerCase().replace(/^[^\p{L}\d]+|[^\p{L}\d]+$/gu, ""),
+    )
+    .filter(Boolean);
+
+  if (
+    cleaned.length === 0 ||
+    cleaned.length > MAX_PHRASE_WORDS ||
+    cleaned.every((word) => STOP_WORDS.has(word)) ||
+    cleaned.some((word) => /\d/.test(word))
+  ) {
+    return null;
+  }
+  return cleaned.join(" ");
+}
+
+/**
+ * Count, per phrase, how many replies it appears in, and what it was most
+ * often replaced with.
+ */
+class PhraseTally {
+  private counts = new Map<
+    string,
+    { replies: number; replacements: Map<string, number> }
+  >();
+
+  add(phrases: Map<string, string | null>): void {
+    for (const [phrase, replacement] of phrases) {
+      const entry = this.counts.get(phrase) ?? {
+        replies: 0,
+        replacements: new Map<string, number>(),
+      };
+      entry.replies += 1;
+      if (replacement) {
+        entry.replacements.set(
+          replacement,
+          (entry.replacements.get(replacement) ?? 0) + 1,
+        );
+      }
+      this.counts.set(phrase, entry);
+    }
+  }
+
+  replies(phrase: string): number {
+    return this.counts.get(phrase)?.replies ?? 0;
+  }
+
+  entries(): { phrase: string; replies: number; replacement: string | null }[] {
+    return [...this.counts.entries()].map(([phrase, entry]) => {
+      let replacement: string | null = null;
+      let best = 0;
+      for (const [candidate, count] of entry.replacements) {
+        if (count > best) {
+          replacement = candidate;
+          best = count;
+        }
+      }
+      return { phrase, replies: entry.replies, replacement };
+    });
+  }
+}
+
+/**
+ * Pick the organizations due for analysis: those never analyzed or analyzed
+ * at least EDIT_LEARNING_INTERVAL_HOURS ago, least recently analyzed first,
+ * so a run that stops early is resumed by the next one.
+ *
+ * @param organizations - Every organization, with when it was last analyzed
+ * @param now - Current time
+ * @returns The due organizations, in the order to analyze them
+ */
+export function selectOrganizationsToLearn<
+  T extends Pick<Organization, "id" | "edits_learned_at">,
+>(organizations: T[], now: Date): T[] {
+  const cutoff = now.getTime() - EDIT_LEARNING_INTERVAL_HOURS * 60 * 60 * 1000;
+  const learnedAt = (organization: T) =>
+    organization.edits_learned_at
+      ? new Date(organization.edits_learned_at).getTime()
+      : Number.NEGATIVE_INFINITY;
+
+  return organizations
+    .filter((organization) => learnedAt(organization) <= cutoff)
+    .sort(
+      (a, b) => learnedAt(a) - learnedAt(b) || a.id.localeCompare(b.id, "en"),
+    );
+}
+
+/**
+ * Suggest voice profile changes from published replies.
+ *
+ * @param organizationId - The organization the replies belong to
+ * @param edits - Published replies with their drafts, newest first
+ * @param voiceProfile - The organization's voice profile, whose current words and examples are not suggested again
+ * @returns The suggestions to save, and the edit distance statistics
+ */
+export function analyzePublishedEdits(
+  organizationId: string,
+  edits: PublishedEdit[],
+  voiceProfile: Pick<
+    VoiceProfile,
+    "words_to_avoid" | "words_to_use" | "example_responses"
+  >,
+): {
+  suggestions: VoiceProfileSuggestionInsert[];
+  responsesEdited: number;
+  averageEditDistance: number | null;
+} {
+  const removed = new PhraseTally();
+  const added = new PhraseTally();
+  const examples: VoiceProfileSuggestionInsert[] = [];
+  let responsesEdited = 0;
+  let totalEditDistance = 0;
+
+  const knownExamples = new Set(
+    (voiceProfile.example_responses ?? []).map((example) => example.trim()),
+  );
+
+  for (const edit of edits) {
+    const finalText = edit.finalText.trim();
+    const draft = edit.generatedText?.trim() ?? null;
+    let rewritten = draft === null;
+
+    if (draft !== null && draft !== finalText) {
+      const distance = wordEditDistance(draft, finalText);
+      responsesEdited += 1;
+      totalEditDistance += distance;
+      const draftWords = draft.split(/\s+/).filter(Boolean).length;
+      rewritten = draftWords > 0 && distance / draftWords >= REWRITE_EDIT_RATIO;
+
+      // Each phrase counts once per reply, however often it was changed there
+      const removedPhrases = new Map<string, string | null>();
+      const addedPhrases = new Map<string, string | null>();
+      for (const change of diffWords(draft, finalText)) {
+        const removedPhrase = toPhrase(change.removed);
+        const addedPhrase = toPhrase(change.added);
+        if (removedPhrase && !removedPhrases.get(removedPhrase)) {
+          removedPhrases.set(removedPhrase, addedPhrase);
+        }
+        if (addedPhrase && !addedPhrases.has(addedPhrase)) {
+          addedPhrases.set(addedPhrase, null);
+        }
+      }
+      removed.add(removedPhrases);
+      added.add(addedPhrases);
+    }
+
+    if (
+      rewritten &&
+      edit.rating !== null &&
+      edit.rating >= 4 &&
+      examples.length < MAX_EXAMPLE_SUGGESTIONS &&
+      !knownExamples.has(finalText)
+    ) {
+      examples.push({
+        organization_id: organizationId,
+        kind: "example_response",
+        value: finalText,
+        detail:
+          draft === null
+            ? `Written by your team for a ${edit.rating}-star review`
+            : `Rewritten by your team for a ${edit.rating}-star review`,
+        evidence_count: 1,
+        source_response_id: edit.id,
+      });
+      knownExamples.add(finalText);
+    }
+  }
+
+  const toAvoid = new Set(
+    (voiceProfile.words_to_avoid ?? []).map((word) => word.toLowerCase()),
+  );
+  const toUse = new Set(
+    (voiceProfile.words_to_use ?? []).map((word) => word.toLowerCase()),
+  );
+
+  const phraseSuggestions: VoiceProfileSuggestionInsert[] = [];
+  for (const { phrase, replies, replacement } of removed.entries()) {
+    // Phrases added about as often as removed are rewording, not a preference
+    if (
+      replies >= MIN_PHRASE_EVIDENCE &&
+      replies > added.replies(phrase) &&
+      !toAvoid.has(phrase)
+    ) {
+      phraseSuggestions.push({
+        organization_id: organizationId,
+        kind: "word_to_avoid",
+        value: phrase,
+        detail: replacement
+          ? `Removed from ${replies} drafts, usually replaced with "${replacement}"`
+          : `Removed from ${replies} drafts`,
+        evidence_count: replies,
+      });
+    }
+  }
+  for (const { phrase, replies } of added.entries()) {
+    if (
+      replies >= MIN_PHRASE_EVIDENCE &&
+      replies > removed.replies(phrase) &&
+      !toUse.has(phrase) &&
+      !toAvoid.has(phrase)
+    ) {
+      phraseSuggestions.push({
+        organization_id: organizationId,
+        kind: "word_to_use",
+        value: phrase,
+        detail: `Added to ${replies} drafts`,
+        evidence_count: replies,
+      });
+    }
+  }
+  phraseSuggestions.sort(
+    (a, b) => (b.evidence_count ?? 0) - (a.evidence_count ?? 0),
+  );
+
+  return {
+    suggestions: [...phraseSuggestions, ...examples],
+    responsesEdited,
+    averageEditDistance:
+      responsesEdited > 0 ? totalEditDistance / responsesEdited : null,
+  };
+}
+
+/**
+ * Analyze an organization's recently published replies and save new voice
+ * profile suggestions. Suggestions already made (including dismissed ones)
+ * are not made again.
+ *
+ * @param supabase - Supabase client that can read the organization's responses and write suggestions (the admin client)
+ * @param organizationId - The organization to learn from
+ * @param now - Current time, which sets the analysis window
+ * @returns What was analyzed and suggested, or an error message if loading or saving failed
+ */
+export async function learnFromEdits(
+  supabase: SupabaseClient<Database>,
+  organizationId: string,
+  now: Date = new Date(),
+): Promise<{ result: EditLearningResult | null; error: string | null }> {
+  const since = new Date(
+    now.getTime() - EDIT_LEARNING_WINDOW_DAYS * 24 * 60 * 60 * 1000,
+  ).toISOString();
+
+  const { data: responses, error: responsesError } = await supabase
+    .from("responses")
+    .select(
+      "id, generated_text, final_text, reviews!inner(rating, locations!inner(organization_id))",
+    )
+    .eq("status", "published")
+    .eq("source", "replily")
+    .eq("reviews.locations.organization_id", organizationId)
+    .gte("published_at", since)
+    .order("published_at", { ascending: false })
+    .limit(MAX_RESPONSES_ANALYZED);
+
+  if (responsesError) {
+    return { result: null, error: responsesError.message };
+  }
+
+  const edits: PublishedEdit[] = (responses ?? []).flatMap((response) => {
+    const review = response.reviews as unknown as { rating: number | null };
+    return response.final_text
+      ? [
+          {
+            id: response.id,
+            generatedText: response.generated_text,
+            finalText: response.final_text,
+            rating: review.rating,
+          },
+        ]
+      : [];
+  });
+
+  const { data: voiceProfile, error: profileError } = await supabase
+    .from("voice_profiles")
+    .select("words_to_avoid, words_to_use, example_responses")
+    .eq("organization_id", organizationId)
+    .limit(1)
+    .maybeSingle();
+
+  if (profileError) {
+    return { result: null, error: profileError.message };
+  }
+
+  const { suggestions, responsesEdited, averageEditDistance } =
+    analyzePublishedEdits(
+      organizationId,
+      edits,
+      voiceProfile ?? {
+        words_to_avoid: null,
+        words_to_use: null,
+        example_responses: null,
+      },
+    );
+
+  let suggestionsCreated = 0;
+  if (suggestions.length > 0) {
+    const { data: created, error: saveError } = await supabase
+      .from("voice_profile_suggestions")
+      .upsert(suggestions, {
+        onConflict: "organization_id,kind,value",
+        ignoreDuplicates: true,
+      })
+      .select("id");
+
+    if (saveError) {
+      return { result: null, error: saveError.message };
+    }
+    suggestionsCreated = created?.length ?? 0;
+  }
+
+  return {
+    result: {
+      responsesAnalyzed: edits.length,
+      responsesEdited,
+      averageEditDistance,
+      suggestionsCreated,
+    },
+    error: null,
+  };
+}
@@ -0,0 +1,129 @@
+/**
+ * Review Escalation
+ *
+ * Flags new and edited reviews that need a person to respond rather than an
+ * AI draft: legal threats, health or safety incidents, discrimination, and
+ * staff misconduct. Matching is deterministic so a Claude outage never lets
+ * one through unflagged.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+import type { ReviewToAnalyze } from "@/lib/reviews/sentiment";
+import { typedUpdate } from "@/lib/supabase/typed-helpers";
+import type { Database } from "@/lib/supabase/types";
+
+/**
+ * Escalation reasons stored in reviews.escalation_reason, most serious first
+ */
+export const ESCALATION_REASONS = [
+  "legal_threat",
+  "health_safety",
+  "discrimination",
+  "staff_misconduct",
+] as const;
+
+export type EscalationReason = (typeof ESCALATION_REASONS)[number];
+
+/**
+ * Display labels for escalation reasons
+ */
+export const ESCALATION_REASON_LABELS: Record<EscalationReason, string> = {
+  legal_threat: "Legal threat",
+  health_safety: "Health or safety",
+  discrimination: "Discrimination",
+  staff_misconduct: "Staff misconduct",
+};
+
+/**
+ * Phrases that flag a review for each reason (matched case-insensitively on word boundaries)
+ */
+const ESCALATION_PATTERNS: Record<EscalationReason, RegExp> = {
+  legal_threat:
+    /\b(lawyers?|attorneys?|solicitors?|lawsuit|(?:will|going to|gonna|i'll|we'll) sue|suing|legal action|small claims|take (?:you|them|this) to court|trading standards|report(?:ing|ed)? (?:you|them) to the bbb)\b/i,
+  health_safety:
+    /\b(food poisoning|got sick|made (?:me|us|my \w+) sick|vomit(?:ed|ing)?|threw up|allergic reaction|anaphyla\w*|(?:ended up in|went to|taken to) (?:the )?hospital|hospitali[sz]ed|emergency room|injur(?:ed|y|ies)|salmonella|cockroach(?:es)?|rats?|mice|mou?ld(?:y)?|health (?:inspector|department|code)|unsafe|fire hazard)\b/i,
+  discrimination:
+    /\b(racis[mt]|discriminat\w*|sexis[mt]|homophob\w*|transphob\w*|bigot(?:ed|s)?|slurs?|because (?:i am|i'm|we are|we're) (?:black|gay|muslim|jewish|disabled|trans|asian|a woman)|because of my (?:race|skin|religion|disability|accent|wheelchair))\b/i,
+  staff_misconduct:
+    /\b(harass(?:ed|ment|ing)?|assault(?:ed)?|groped|touched me|threatened|hit me|pushed me|drunk (?:staff|employee|manager|server)|stole|stolen|theft|sexual comments?)\b/i,
+};
+
+/**
+ * Why a review was escalated
+ */
+export interface Escalation {
+  reason: EscalationReason;
+  /** The words in the review that matched */
+  detail: string;
+}
+
+/**
+ * Whether a value is a known escalation reason.
+ *
+ * @param value - Value to check (e.g. reviews.escalation_reason)
+ * @returns true for one of ESCALATION_REASONS
+ */
+export function isEscalationReason(value: unknown): value is EscalationReason {
+  return ESCALATION_REASONS.includes(value as EscalationReason);
+}
+
+/**
+ * Check a review's text for content that needs a human response.
+ *
+ * @param reviewText - The review text (null for rating-only reviews)
+ * @returns The most serious matching reason with the matched words, or null
+ */
+export function detectEscalation(reviewText: string | null): Escalation | null {
+  if (!reviewText) {
+    return null;
+  }
+
+  for (const reason of ESCALATION_REASONS) {
+    const match = ESCALATION_PATTERNS[reason].exec(reviewText);
+    if (match) {
+      return { reason, detail: match[0] };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Flag new or edited reviews that need a human response. Reviews that no
+ * longer match keep an earlier flag so an edit cannot hide an incident.
+ *
+ * @param supabase - Supabase client used to update the reviews
+ * @param reviews - New or edited reviews
+ * @returns The number of reviews flagged, and an error message if any update failed
+ */
+export async function escalateReviews(
+  supabase: SupabaseClient<Database>,
+  reviews: ReviewToAnalyze[],
+): Promise<{ escalatedCount: number; error: string | null }> {
+  const escalated = reviews.flatMap((review) => {
+    const escalation = detectEscalation(review.review_text);
+    return escalation ? [{ id: review.id, escalation }] : [];
+  });
+
+  if (escalated.length === 0) {
+    return { escalatedCount: 0, error: null };
+  }
+
+  const escalatedAt = new Date().toISOString();
+  const updates = await Promise.all(
+    escalated.map(({ id, escalation }) =>
+      typedUpdate(supabase, "reviews", {
+        escalation_reason: escalation.reason,
+        escalation_detail: escalation.detail,
+        escalated_at: escalatedAt,
+      }).eq("id", id),
+    ),
+  );
+
+  const failed = updates.filter((update) => update.error);
+  return {
+    escalatedCount: updates.length - failed.length,
+    error: failed[0]?.error?.message ?? null,
+  };
+}
@@ -0,0 +1,134 @@
+/**
+ * Review Ingestion Helpers
+ *
+ * Shared by the poll-reviews cron and the first-sync backfill to turn
+ * reviews fetched from Google Business Profile into database rows.
+ */
+
+import { createHash } from "node:crypto";
+
+import { detectReviewLanguage } from "@/lib/reviews/language";
+import type { Review, ReviewInsert } from "@/lib/supabase/types";
+
+/**
+ * Minimal location data needed to build review rows
+ */
+interface IngestLocation {
+  id: string;
+  name: string;
+}
+
+/**
+ * Convert a page of fetched Google reviews into rows for the reviews table.
+ * Reviews missing external_review_id get a synthetic ID when enough data is
+ * available to make one stable; otherwise they are skipped. Every row is
+ * stamped as seen now (and un-deleted, in case it had been marked missing).
+ * Sentiment is left out so an upsert never overwrites a stored
+ * classification; see analyzeReviewSentiment. The language is detected
+ * from the review text (null when it can't be told).
+ *
+ * @param location - The location the reviews belong to
+ * @param reviews - Reviews returned by fetchReviews for a single page
+ * @returns Rows ready to upsert (may be empty)
+ */
+export function buildReviewRows(
+  location: IngestLocation,
+  reviews: Array<Partial<Review>>,
+): ReviewInsert[] {
+  const reviewsToInsert: ReviewInsert[] = [];
+  const seenAt = new Date().toISOString();
+  let skippedCount = 0;
+  let syntheticIdCount = 0;
+
+  for (const review of reviews) {
+    let externalReviewId = review.external_review_id;
+
+    // If external_review_id is missing, generate a stable unique ID
+    if (!externalReviewId || externalReviewId.trim() === "") {
+      // Require location_id, reviewer_name, and review_date to generate unique ID
+      if (!location.id || !review.reviewer_name || !review.review_date) {
+        skippedCount++;
+        console.warn(
+          `Skipping review for location ${location.name}: missing external_review_id and insufficient data to generate synthetic ID (location_id: ${location.id}, reviewer_name: ${review.reviewer_name ?? "null"}, review_date: ${review.review_date ?? "null"})`,
+        );
+        continue;
+      }
+
+      // Generate stable synthetic ID
+      externalReviewId = generateSyntheticReviewId(
+        location.id,
+        review.reviewer_name,
+        review.review_date,
+      );
+      syntheticIdCount++;
+      console.log(
+        `Generated synthetic external_review_id for review at location ${location.name}: ${externalReviewId}`,
+      );
+    }
+
+    reviewsToInsert.push({
+      location_id: location.id,
+      platform: "google",
+      external_review_id: externalReviewId,
+      reviewer_name: review.reviewer_name ?? null,
+      reviewer_photo_url: review.reviewer_photo_url ?? null,
+      rating: review.rating ?? null,
+      review_text: review.review_text ?? null,
+      language: detectReviewLanguage(review.review_text),
+      review_date: review.review_date ?? null,
+      has_response: review.has_response ?? false,
+      status: review.status ?? "pending",
+      last_seen_at: seenAt,
+      deleted_at: null,
+    });
+  }
+
+  // Log summary if any reviews were skipped or got synthetic IDs
+  if (skippedCount > 0 || syntheticIdCount > 0) {
+    console.log(
+      `Location ${location.name}: ${syntheticIdCount} reviews with synthetic IDs, ${skippedCount} reviews skipped`,
+    );
+  }
+
+  return reviewsToInsert;
+}
+
+/**
+ * Return the later of two ISO timestamps, ignoring nulls.
+ *
+ * @param a - First timestamp (or null)
+ * @param b - Second timestamp (or null)
+ * @returns The later timestamp, or null if both are null
+ */
+export function laterTimestamp(
+  a: string | null,
+  b: string | null,
+): string | null {
+  if (a === null) return b;
+  if (b === null) return a;
+  return Date.parse(b) > Date.parse(a) ? b : a;
+}
+
+/**
+ * Generate a stable unique ID for a review missing external_review_id.
+ * Uses SHA-256 hash of location_id + reviewer_name + review_date.
+ *
+ * @param locationId - The location ID
+ * @param reviewerName - The reviewer's name (can be null)
+ * @param reviewDate - The review date (can be null)
+ * @returns A stable unique identifier prefixed with "synthetic_"
+ */
+function generateSyntheticReviewId(
+  locationId: string,
+  reviewerName: string | null | undefined,
+  reviewDate: string | null | undefined,
+): string {
+  // Use length-prefixed encoding to avoid separator collisions
+  // Each component is encoded as "<length>:<value>" and concatenated
+  const components = [locationId ?? "", reviewerName ?? "", reviewDate ?? ""]
+    .map((comp) => `${comp.length}:${comp}`)
+    .join("");
+  const hash = createHash("sha256").update(components).digest("hex");
+  // Use first 32 chars of hash for readability, prefixed to indicate synthetic
+  return `synthetic_${hash.slice(0, 32)}`;
+}
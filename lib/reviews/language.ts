@@ -0,0 +1,331 @@
+/**
+ * Review Language Detection
+ *
+ * Detects the language a review is written in from its text, so responses
+ * can be written in the same language. Detection counts common function
+ * words ("the", "el", "le", "der", ...) and letters specific to each
+ * language; it runs on every ingested review without calling Claude.
+ *
+ * Voice profiles can override some settings per language (e.g. a Spanish
+ * sign-off), applied when writing a response to a review in that language.
+ */
+
+import type { Json, VoiceProfile } from "@/lib/supabase/types";
+
+/**
+ * Languages reviews are detected in, as ISO 639-1 codes
+ */
+export const REVIEW_LANGUAGES = [
+  "en",
+  "es",
+  "fr",
+  "de",
+  "it",
+  "pt",
+  "nl",
+] as const;
+
+export type ReviewLanguage = (typeof REVIEW_LANGUAGES)[number];
+
+/**
+ * Language used for reviews whose language is unknown
+ */
+export const DEFAULT_REVIEW_LANGUAGE: ReviewLanguage = "en";
+
+/**
+ * English name of each language, used in prompts and labels
+ */
+export const REVIEW_LANGUAGE_NAMES: Record<ReviewLanguage, string> = {
+  en: "English",
+  es: "Spanish",
+  fr: "French",
+  de: "German",
+  it: "Italian",
+  pt: "Portuguese",
+  nl: "Dutch",
+};
+
+// Frequent words that are rare in the other languages
+const FUNCTION_WORDS: Record<ReviewLanguage, string[]> = {
+  en: [
+    "the",
+    "and",
+    "was",
+    "were",
+    "with",
+    "very",
+    "they",
+    "this",
+    "is",
+    "it",
+    "of",
+    "to",
+    "for",
+    "but",
+    "great",
+    "good",
+    "service",
+    "staff",
+  ],
+  es: [
+    "el",
+    "la",
+    "los",
+    "las",
+    "y",
+    "muy",
+    "es",
+    "fue",
+    "con",
+    "pero",
+    "para",
+    "que",
+    "del",
+    "una",
+    "por",
+    "servicio",
+    "excelente",
+    "todo",
+  ],
+  fr: [
+    "le",
+    "la",
+    "les",
+    "et",
+    "très",
+    "est",
+    "était",
+    "avec",
+    "mais",
+    "pour",
+    "que",
+    "des",
+    "une",
+    "nous",
+    "pas",
+    "service",
+    "bien",
+    "tout",
+  ],
+  de: [
+    "der",
+    "die",
+    "das",
+    "und",
+    "sehr",
+    "ist",
+    "war",
+    "mit",
+    "aber",
+    "für",
+    "nicht",
+    "ein",
+    "eine",
+    "wir",
+    "auch",
+    "essen",
+    "freundlich",
+    "gut",
+  ],
+  it: [
+    "il",
+    "lo",
+    "gli",
+    "e",
+    "molto",
+    "è",
+    "era",
+    "con",
+    "ma",
+    "per",
+    "che",
+    "della",
+    "una",
+    "non",
+    "servizio",
+    "ottimo",
+    "tutto",
+    "sono",
+  ],
+  pt: [
+    "o",
+    "os",
+    "as",
+    "e",
+    "muito",
+    "é",
+    "foi",
+    "com",
+    "mas",
+    "para",
+    "que",
+    "uma",
+    "não",
+    "atendimento",
+    "ótimo",
+    "tudo",
+    "bem",
+    "do",
+  ],
+  nl: [
+    "de",
+    "het",
+    "en",
+    "een",
+    "zeer",
+    "erg",
+    "heel",
+    "was",
+    "met",
+    "maar",
+    "voor",
+    "niet",
+    "wij",
+    "ook",
+    "goed",
+    "lekker",
+    "vriendelijk",
+    "van",
+  ],
+};
+
+// Letters (or marks) that are strong evidence for one language
+const LANGUAGE_LETTERS: Partial<Record<ReviewLanguage, RegExp>> = {
+  es: /[ñ¿¡]/g,
+  fr: /[œçêèù]/g,
+  de: /[ßäöü]/g,
+  pt: /[ãõ]/g,
+};
+
+// Fewest scored words needed before trusting a guess
+const MIN_SCORE = 2;
+
+// How much the best language must beat the runner-up by
+const MIN_MARGIN = 1.5;
+
+/**
+ * Whether a value is a supported review language.
+ *
+ * @param value - Value to check (e.g. reviews.language or a query parameter)
+ * @returns true for one of REVIEW_LANGUAGES
+ */
+export function isReviewLanguage(value: unknown): value is ReviewLanguage {
+  return REVIEW_LANGUAGES.includes(value as ReviewLanguage);
+}
+
+/**
+ * Detect the language of a review's text.
+ *
+ * @param text - The review text
+ * @returns The detected language, or null when the text is missing, too short, or not clearly one supported language
+ */
+export function detectReviewLanguage(
+  text: string | null | undefined,
+): ReviewLanguage | null {
+  if (!text) {
+    return null;
+  }
+
+  const lowered = text.toLowerCase();
+  const words = lowered.match(/\p{L}+/gu) ?? [];
+  const scores = new Map<ReviewLanguage, number>(
+    REVIEW_LANGUAGES.map((language) => [language, 0]),
+  );
+
+  for (const language of REVIEW_LANGUAGES) {
+    const functionWords = new Set(FUNCTION_WORDS[language]);
+    let score = words.filter((word) => functionWords.has(word)).length;
+    const letters = LANGUAGE_LETTERS[language];
+    if (letters) {
+      score += (lowered.match(letters)?.length ?? 0) * 2;
+    }
+    scores.set(language, score);
+  }
+
+  const [best, runnerUp] = [...scores.entries()].sort((a, b) => b[1] - a[1]);
+  if (!best || best[1] < MIN_SCORE) {
+    return null;
+  }
+  if (runnerUp && best[1] < runnerUp[1] * MIN_MARGIN) {
+    return null;
+  }
+  return best[0];
+}
+
+/**
+ * Voice profile fields a language override can replace
+ */
+export const LANGUAGE_OVERRIDE_FIELDS = [
+  "personality_notes",
+  "sign_off_style",
+  "example_responses",
+  "words_to_use",
+  "words_to_avoid",
+] as const;
+
+export type LanguageOverrideField = (typeof LANGUAGE_OVERRIDE_FIELDS)[number];
+
+/**
+ * Voice profile settings for one language, stored in voice_profiles.language_overrides
+ */
+export type VoiceProfileLanguageOverride = Partial<
+  Pick<VoiceProfile, LanguageOverrideField>
+>;
+
+/**
+ * Read one language's override from voice_profiles.language_overrides,
+ * skipping fields with the wrong type.
+ *
+ * @param value - voice_profiles.language_overrides
+ * @param language - The language to read
+ * @returns The valid fields set for the language (empty when there are none)
+ */
+export function parseLanguageOverride(
+  value: Json,
+  language: ReviewLanguage,
+): VoiceProfileLanguageOverride {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return {};
+  }
+  const entry = value[language];
+  if (!entry || typeof entry !== "object" || Array.isArray(entry)) {
+    return {};
+  }
+
+  const override: VoiceProfileLanguageOverride = {};
+  for (const field of LANGUAGE_OVERRIDE_FIELDS) {
+    const fieldValue = entry[field];
+    if (field === "personality_notes" || field === "sign_off_style") {
+      if (typeof fieldValue === "string") {
+        override[field] = fieldValue;
+      }
+    } else if (
+      Array.isArray(fieldValue) &&
+      fieldValue.every((item) => typeof item === "string")
+    ) {
+      override[field] = fieldValue as string[];
+    }
+  }
+  return override;
+}
+
+/**
+ * The voice profile to write in a review's language: the profile with that
+ * language's override (e.g. a Spanish sign-off) applied on top.
+ *
+ * @param voiceProfile - The voice profile that applies to the review
+ * @param language - The review's language (reviews.language); unknown or missing languages use the profile as is
+ * @returns The voice profile with the language's overrides applied
+ */
+export function applyLanguageOverride(
+  voiceProfile: VoiceProfile,
+  language: string | null,
+): VoiceProfile {
+  if (!isReviewLanguage(language)) {
+    return voiceProfile;
+  }
+  return {
+    ...voiceProfile,
+    ...parseLanguageOverride(voiceProfile.language_overrides, language),
+  };
+}
@@ -0,0 +1,144 @@
+/**
+ * Review Polling Health
+ *
+ * Tracks how polling is going for each location in location_poll_state:
+ * consecutive failures, the last Google error, and when the location may be
+ * polled again. Locations that keep failing with 403, 404 or 5xx back off
+ * exponentially, and locations Google keeps reporting as not found are
+ * deactivated.
+ */
+
+import type { LocationPollState } from "@/lib/supabase/types";
+
+/**
+ * Delay after the first failure that triggers backoff (doubles with each further failure)
+ */
+export const BASE_BACKOFF_MINUTES = 5;
+
+/**
+ * Longest delay between retries of a failing location
+ */
+export const MAX_BACKOFF_MINUTES = 24 * 60;
+
+/**
+ * Consecutive 404s after which a location is deactivated (about 2.5 hours of backoff)
+ */
+export const DEACTIVATE_AFTER_NOT_FOUND = 6;
+
+/**
+ * Health fields written to location_poll_state after each poll attempt
+ */
+export type PollHealthUpdate = Pick<
+  LocationPollState,
+  | "consecutive_failures"
+  | "consecutive_not_found"
+  | "last_error_code"
+  | "last_error"
+  | "next_retry_at"
+> &
+  Partial<Pick<LocationPollState, "last_success_at">>;
+
+/**
+ * Outcome of fetching a location's reviews
+ */
+export type PollOutcome =
+  | { ok: true }
+  | { ok: false; status: number | null; message: string };
+
+/**
+ * Sync health shown for a location in settings
+ */
+export interface SyncHealth {
+  last_success_at: string | null;
+  consecutive_failures: number;
+  last_error: string | null;
+  next_retry_at: string | null;
+}
+
+/**
+ * Whether a Google error status is worth backing off for: permission and
+ * not-found errors rarely clear within minutes, and 5xx means Google is struggling.
+ *
+ * @param status - GoogleAPIError status, or null for non-HTTP errors
+ */
+export function isBackoffStatus(status: number | null): boolean {
+  return status === 403 || status === 404 || (status !== null && status >= 500);
+}
+
+/**
+ * Minutes to wait before retrying after a number of consecutive failures.
+ *
+ * @param consecutiveFailures - Failures in a row, including the latest (at least 1)
+ * @returns BASE_BACKOFF_MINUTES doubled per failure, capped at MAX_BACKOFF_MINUTES
+ */
+export function getBackoffMinutes(consecutiveFailures: number): number {
+  const exponent = Math.max(0, consecutiveFailures - 1);
+  return Math.min(BASE_BACKOFF_MINUTES * 2 ** exponent, MAX_BACKOFF_MINUTES);
+}
+
+/**
+ * Compute a location's health after a poll attempt.
+ *
+ * @param previous - The location's current health (undefined if never polled)
+ * @param outcome - Whether fetching succeeded, and the error if not
+ * @param now - Time of the attempt
+ * @returns Fields to write to location_poll_state, and whether the location should be deactivated
+ */
+export function getPollHealthUpdate(
+  previous:
+    | Pick<LocationPollState, "consecutive_failures" | "consecutive_not_found">
+    | undefined,
+  outcome: PollOutcome,
+  now: Date,
+): { update: PollHealthUpdate; deactivate: boolean } {
+  if (outcome.ok) {
+    return {
+      update: {
+        consecutive_failures: 0,
+        consecutive_not_found: 0,
+        last_error_code: null,
+        last_error: null,
+        next_retry_at: null,
+        last_success_at: now.toISOString(),
+      },
+      deactivate: false,
+    };
+  }
+
+  const consecutiveFailures = (previous?.consecutive_failures ?? 0) + 1;
+  const consecutiveNotFound =
+    outcome.status === 404 ? (previous?.consecutive_not_found ?? 0) + 1 : 0;
+  const nextRetryAt = isBackoffStatus(outcome.status)
+    ? new Date(
+        now.getTime() + getBackoffMinutes(consecutiveFailures) * 60 * 1000,
+      ).toISOString()
+    : null;
+
+  return {
+    update: {
+      consecutive_failures: consecutiveFailures,
+      consecutive_not_found: consecutiveNotFound,
+      last_error_code: outcome.status,
+      last_error: outcome.message,
+      next_retry_at: nextRetryAt,
+    },
+    deactivate: consecutiveNotFound >= DEACTIVATE_AFTER_NOT_FOUND,
+  };
+}
+
+/**
+ * Map a location_poll_state row to the sync health shown in settings.
+ */
+export function toSyncHealth(
+  state: Pick<
+    LocationPollState,
+    "last_success_at" | "consecutive_failures" | "last_error" | "next_retry_at"
+  >,
+): SyncHealth {
+  return {
+    last_success_at: state.last_success_at,
+    consecutive_failures: state.consecutive_failures,
+    last_error: state.last_error,
+    next_retry_at: state.next_retry_at,
+  };
+}
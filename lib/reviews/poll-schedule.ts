@@ -0,0 +1,146 @@
+/**
+ * Review Polling Scheduler
+ *
+ * Decides which locations the poll-reviews cron visits on each run. A location
+ * is due once its plan tier's interval has elapsed since it was last polled.
+ * When more locations are due than fit in one run, the most overdue go first,
+ * measured relative to their tier interval, so every location is eventually
+ * polled instead of the same subset winning every run. Locations backing off
+ * after repeated failures (see poll-health.ts) wait until their next retry time.
+ */
+
+/**
+ * Tier scheduling configuration:
+ * - interval: target polling interval in minutes (also the weight used to rank overdue locations)
+ * - minIntervalSinceLastProcess: minimum minutes since a location's last poll before it is due again.
+ *   Slightly shorter than the interval so a cron run that fires a little early still picks it up.
+ */
+export const TIER_CONFIG = {
+  agency: { interval: 5, minIntervalSinceLastProcess: 3 }, // Every 5 min, but wait at least 3 min since last
+  growth: { interval: 10, minIntervalSinceLastProcess: 8 }, // Every 10 min, but wait at least 8 min since last
+  starter: { interval: 15, minIntervalSinceLastProcess: 13 }, // Every 15 min, but wait at least 13 min since last
+} as const;
+
+/**
+ * Plan tiers with a polling schedule
+ */
+export type PollTier = keyof typeof TIER_CONFIG;
+
+/**
+ * Scheduling inputs for a single location
+ */
+export interface SchedulableLocation {
+  id: string;
+  plan_tier: string | null;
+  last_polled_at: string | null;
+  created_at: string | null;
+  /** Set while the location is backing off after repeated failures */
+  next_retry_at: string | null;
+}
+
+/**
+ * Result of scheduling one cron run
+ */
+export interface PollSchedule<T extends SchedulableLocation> {
+  /** Due locations to poll this run, most overdue first */
+  selected: T[];
+  /** Due locations left for later runs because of the per-run cap */
+  backlogDepth: number;
+  /** Minutes since the stalest due location was last polled (or created, if never polled) */
+  oldestStalenessMinutes: number | null;
+}
+
+/**
+ * Normalize a plan tier, treating null/unknown tiers as starter.
+ *
+ * @param planTier - The organization's plan tier
+ * @returns A tier with a polling schedule
+ */
+export function normalizePollTier(planTier: string | null): PollTier {
+  return planTier === "agency" || planTier === "growth" ? planTier : "starter";
+}
+
+/**
+ * Minutes elapsed since a timestamp, or null when it is missing or unparseable.
+ */
+function minutesSince(timestamp: string | null, now: Date): number | null {
+  if (!timestamp) return null;
+  const time = Date.parse(timestamp);
+  if (Number.isNaN(time)) return null;
+  return (now.getTime() - time) / (1000 * 60);
+}
+
+/**
+ * Pick the locations to poll this run.
+ *
+ * Locations never polled are due immediately and rank ahead of everything else
+ * (oldest first). Other locations rank by minutes since their last poll divided
+ * by their tier interval, so an agency location 10 minutes behind (2 intervals)
+ * outranks a starter location 20 minutes behind (1.3 intervals). Locations
+ * whose next_retry_at is still in the future are not due.
+ *
+ * @param locations - Candidate locations with tier and polling history
+ * @param now - Current time
+ * @param maxLocations - Maximum number of locations to poll this run
+ * @returns Selected locations plus backlog metrics
+ */
+export function scheduleLocationsToPoll<T extends SchedulableLocation>(
+  locations: T[],
+  now: Date,
+  maxLocations: number,
+): PollSchedule<T> {
+  const due: Array<{ location: T; overdue: number; createdAt: number }> = [];
+  let oldestStalenessMinutes: number | null = null;
+
+  for (const location of locations) {
+    if (
+      location.next_retry_at &&
+      Date.parse(location.next_retry_at) > now.getTime()
+    ) {
+      continue;
+    }
+
+    const config = TIER_CONFIG[normalizePollTier(location.plan_tier)];
+    const sinceLastPoll = minutesSince(location.last_polled_at, now);
+
+    if (
+      sinceLastPoll !== null &&
+      sinceLastPoll < config.minIntervalSinceLastProcess
+    ) {
+      continue;
+    }
+
+    const staleness = sinceLastPoll ?? minutesSince(location.created_at, now);
+    if (staleness !== null) {
+      oldestStalenessMinutes = Math.max(oldestStalenessMinutes ?? 0, staleness);
+    }
+
+    due.push({
+      location,
+      overdue:
+        sinceLastPoll === null
+          ? Number.POSITIVE_INFINITY
+          : sinceLastPoll / config.interval,
+      createdAt: location.created_at ? Date.parse(location.created_at) : 0,
+    });
+  }
+
+  due.sort(
+    (a, b) =>
+      b.overdue - a.overdue ||
+      // Infinity - Infinity is NaN, so never-polled locations fall through to creation order
+      a.createdAt - b.createdAt ||
+      a.location.id.localeCompare(b.location.id),
+  );
+
+  const selected = due.slice(0, maxLocations).map((entry) => entry.location);
+
+  return {
+    selected,
+    backlogDepth: due.length - selected.length,
+    oldestStalenessMinutes:
+      oldestStalenessMinutes === null
+        ? null
+        : Math.round(oldestStalenessMinutes),
+  };
+}
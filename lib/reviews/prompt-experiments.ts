@@ -0,0 +1,366 @@
+/**
+ * Prompt Experiments
+ *
+ * A running experiment (prompt_experiments) splits drafts between prompt
+ * versions, by organization or by review. Assignment is a stable hash of the
+ * experiment and the organization or review ID, so the same unit always gets
+ * the same version without storing assignments. Each draft records its
+ * version and experiment on the response, which is what the results compare:
+ * how often drafts from each version are published and how much they are
+ * edited first. Regenerating keeps the response's original assignment, and
+ * edits are measured from the draft the user picked, which is not always the
+ * first of several variants.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+import {
+  DEFAULT_PROMPT_VERSION,
+  isPromptVersion,
+  type PromptVersion,
+} from "@/lib/claude/prompts";
+import type {
+  Database,
+  Json,
+  PromptExperiment,
+  Response,
+  ResponseVersion,
+} from "@/lib/supabase/types";
+
+/**
+ * What an experiment assigns to a version, stored in prompt_experiments.assignment_unit
+ */
+export const PROMPT_EXPERIMENT_UNITS = ["organization", "review"] as const;
+
+export type PromptExperimentUnit = (typeof PROMPT_EXPERIMENT_UNITS)[number];
+
+/**
+ * A version in an experiment and its share of drafts relative to the others
+ */
+export interface PromptExperimentVariant {
+  version: PromptVersion;
+  weight: number;
+}
+
+/**
+ * The prompt version to generate with, and the experiment that chose it
+ */
+export interface PromptAssignment {
+  promptVersion: PromptVersion;
+  experimentId: string | null;
+}
+
+/**
+ * Publish rate and edit distance of one version's drafts
+ */
+export interface PromptVersionResult {
+  promptVersion: string;
+  drafts: number;
+  published: number;
+  /** published / drafts */
+  publishRate: number;
+  /** Average words changed between draft and published text, null when nothing was published */
+  averageEditDistance: number | null;
+}
+
+/**
+ * A response drafted during an experiment, as results are computed from it
+ */
+export type PromptExperimentResponse = Pick<
+  Response,
+  "prompt_version" | "status" | "generated_text" | "final_text"
+> & {
+  /** The draft the published text started from, when known (see findSelectedDraftText); otherwise generated_text is used */
+  selected_draft_text?: string | null;
+};
+
+const DEFAULT_ASSIGNMENT: PromptAssignment = {
+  promptVersion: DEFAULT_PROMPT_VERSION,
+  experimentId: null,
+};
+
+// Responses are read in pages of this size when loading results
+const RESULTS_PAGE_SIZE = 1000;
+
+/**
+ * Whether a value is a known assignment unit.
+ *
+ * @param value - Value to check (e.g. prompt_experiments.assignment_unit)
+ * @returns true for one of PROMPT_EXPERIMENT_UNITS
+ */
+export function isPromptExperimentUnit(
+  value: unknown,
+): value is PromptExperimentUnit {
+  return PROMPT_EXPERIMENT_UNITS.includes(value as PromptExperimentUnit);
+}
+
+/**
+ * Read an experiment's variants, skipping unknown versions and weights that
+ * are not positive numbers.
+ *
+ * @param value - prompt_experiments.variants
+ * @returns The usable variants, in stored order
+ */
+export function parseExperimentVariants(
+  value: Json,
+): PromptExperimentVariant[] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+  return value.flatMap((entry) => {
+    if (!entry || typeof entry !== "object" || Array.isArray(entry)) {
+      return [];
+    }
+    const { version, weight } = entry;
+    return isPromptVersion(version) &&
+      typeof weight === "number" &&
+      Number.isFinite(weight) &&
+      weight > 0
+      ? [{ version, weight }]
+      : [];
+  });
+}
+
+/**
+ * Hash a string to a number in [0, 1) with 32-bit FNV-1a.
+ *
+ * @param key - The string to hash
+ * @returns The same number for the same key
+ */
+function hashToUnitInterval(key: string): number {
+  let hash = 0x811c9dc5;
+  for (let index = 0; index < key.length; index++) {
+    hash ^= key.charCodeAt(index);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0) / 0x100000000;
+}
+
+/**
+ * Pick the version an experiment assigns to an organization or review.
+ *
+ * @param experiment - The experiment's ID, assignment unit, and variants
+ * @param ids - The organization and review the draft is for
+ * @returns The assigned version, or null when the experiment has no usable variants
+ */
+export function assignPromptVersion(
+  experiment: Pick<PromptExperiment, "id" | "assignment_unit" | "variants">,
+  ids: { organizationId: string; reviewId: string },
+): PromptVersion | null {
+  const variants = parseExperimentVariants(experiment.variants);
+  const totalWeight = variants.reduce(
+    (total, variant) => total + variant.weight,
+    0,
+  );
+  if (totalWeight === 0) {
+    return null;
+  }
+
+  const unitId =
+    experiment.assignment_unit === "review" ? ids.reviewId : ids.organizationId;
+  let point = hashToUnitInterval(`${experiment.id}:${unitId}`) * totalWeight;
+  for (const variant of variants) {
+    point -= variant.weight;
+    if (point < 0) {
+      return variant.version;
+    }
+  }
+  // Floating-point rounding can leave the point on the last boundary
+  return variants[variants.length - 1]?.version ?? null;
+}
+
+/**
+ * Choose the prompt version for a new draft: the running experiment's
+ * assignment if there is one, otherwise DEFAULT_PROMPT_VERSION.
+ *
+ * @param supabase - Supabase client for the signed-in user
+ * @param organizationId - The review's organization
+ * @param reviewId - The review being drafted
+ * @returns The version to use and the experiment that chose it (null when none did)
+ */
+export async function selectPromptVersion(
+  supabase: SupabaseClient<Database>,
+  organizationId: string,
+  reviewId: string,
+): Promise<PromptAssignment> {
+  const { data: experiment, error } = await supabase
+    .from("prompt_experiments")
+    .select("id, assignment_unit, variants")
+    .eq("status", "running")
+    .maybeSingle();
+
+  if (error) {
+    console.warn(
+      "Failed to load prompt experiment, using default prompt:",
+      error,
+    );
+    return DEFAULT_ASSIGNMENT;
+  }
+  if (!experiment || !isPromptExperimentUnit(experiment.assignment_unit)) {
+    return DEFAULT_ASSIGNMENT;
+  }
+
+  const promptVersion = assignPromptVersion(experiment, {
+    organizationId,
+    reviewId,
+  });
+  return promptVersion
+    ? { promptVersion, experimentId: experiment.id }
+    : DEFAULT_ASSIGNMENT;
+}
+
+/**
+ * Count the words that must be inserted, deleted, or replaced to turn one
+ * text into another (word-level Levenshtein distance).
+ *
+ * @param from - The original text
+ * @param to - The changed text
+ * @returns The number of word edits
+ */
+export function wordEditDistance(from: string, to: string): number {
+  const source = from.split(/\s+/).filter(Boolean);
+  const target = to.split(/\s+/).filter(Boolean);
+
+  // Distances from the source prefix so far to each target prefix
+  let previous = Array.from({ length: target.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= source.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= target.length; j++) {
+      const substitution =
+        (previous[j - 1] ?? 0) + (source[i - 1] === target[j - 1] ? 0 : 1);
+      current.push(
+        Math.min(
+          (previous[j] ?? 0) + 1,
+          (current[j - 1] ?? 0) + 1,
+          substitution,
+        ),
+      );
+    }
+    previous = current;
+  }
+  return previous[target.length] ?? 0;
+}
+
+/**
+ * Find the AI draft a response's published text started from, following the
+ * published version's source back through any saved edits.
+ *
+ * @param versions - The response's versions
+ * @returns The text of that draft, or null when the published version doesn't link to one
+ */
+export function findSelectedDraftText(
+  versions: Pick<
+    ResponseVersion,
+    "id" | "kind" | "text" | "source_version_id" | "created_at"
+  >[],
+): string | null {
+  const byId = new Map(versions.map((version) => [version.id, version]));
+  const published = versions
+    .filter((version) => version.kind === "published")
+    .sort((a, b) => (a.created_at ?? "").localeCompare(b.created_at ?? ""))
+    .at(-1);
+
+  const visited = new Set<string>();
+  let current = published?.source_version_id
+    ? byId.get(published.source_version_id)
+    : undefined;
+  while (current && !visited.has(current.id)) {
+    if (current.kind === "generated") {
+      return current.text;
+    }
+    visited.add(current.id);
+    current = current.source_version_id
+      ? byId.get(current.source_version_id)
+      : undefined;
+  }
+  return null;
+}
+
+/**
+ * Compare prompt versions by what happened to their drafts.
+ *
+ * @param responses - Responses drafted during an experiment
+ * @returns One result per version, sorted by version
+ */
+export function summarizePromptExperiment(
+  responses: PromptExperimentResponse[],
+): PromptVersionResult[] {
+  const totals = new Map<
+    string,
+    { drafts: number; published: number; editDistance: number }
+  >();
+
+  for (const response of responses) {
+    if (!response.prompt_version) {
+      continue;
+    }
+    const total = totals.get(response.prompt_version) ?? {
+      drafts: 0,
+      published: 0,
+      editDistance: 0,
+    };
+    total.drafts += 1;
+    if (response.status === "published") {
+      total.published += 1;
+      total.editDistance += wordEditDistance(
+        response.selected_draft_text ?? response.generated_text ?? "",
+        response.final_text ?? "",
+      );
+    }
+    totals.set(response.prompt_version, total);
+  }
+
+  return [...totals.entries()]
+    .sort(([a], [b]) => a.localeCompare(b, "en", { numeric: true }))
+    .map(([promptVersion, total]) => ({
+      promptVersion,
+      drafts: total.drafts,
+      published: total.published,
+      publishRate: total.published / total.drafts,
+      averageEditDistance:
+        total.published > 0 ? total.editDistance / total.published : null,
+    }));
+}
+
+/**
+ * Load an experiment's responses and compare its versions.
+ *
+ * @param supabase - Supabase client that can read every organization's responses (the admin client)
+ * @param experimentId - The experiment to report on
+ * @returns The per-version results, and an error message if loading failed
+ */
+export async function loadPromptExperimentResults(
+  supabase: SupabaseClient<Database>,
+  experimentId: string,
+): Promise<{ results: PromptVersionResult[]; error: string | null }> {
+  const responses: PromptExperimentResponse[] = [];
+
+  for (let from = 0; ; from += RESULTS_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from("responses")
+      .select(
+        "prompt_version, status, generated_text, final_text, response_versions ( id, kind, text, source_version_id, created_at )",
+      )
+      .eq("prompt_experiment_id", experimentId)
+      .order("id")
+      .range(from, from + RESULTS_PAGE_SIZE - 1);
+
+    if (error) {
+      return { results: [], error: error.message };
+    }
+    for (const { response_versions: versions, ...response } of data ?? []) {
+      responses.push({
+        ...response,
+        selected_draft_text:
+          response.status === "published"
+            ? findSelectedDraftText(versions ?? [])
+            : null,
+      });
+    }
+    if (!data || data.length < RESULTS_PAGE_SIZE) {
+      break;
+    }
+  }
+
+  return { results: summarizePromptExperiment(responses), error: null };
+}
@@ -0,0 +1,119 @@
+/**
+ * Google Reply Sync
+ *
+ * Saves the owner reply that is live on Google for each polled review into
+ * responses. Replies written directly in Google become external responses;
+ * replies published from Replily keep their published final_text and store
+ * Google's copy in google_reply_text, so an edit made on Google shows up as
+ * drift between the two.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+import type { FetchedReview } from "@/lib/google/client";
+import type { Database, ResponseInsert } from "@/lib/supabase/types";
+
+/**
+ * Saved review identifiers returned by the reviews upsert
+ */
+export interface SavedReviewRef {
+  id: string;
+  external_review_id: string;
+}
+
+/**
+ * Whether two timestamps refer to the same instant (Postgres and Google format them differently).
+ */
+function isSameTimestamp(a: string | null, b: string | null): boolean {
+  if (a === null || b === null) return a === b;
+  return Date.parse(a) === Date.parse(b);
+}
+
+/**
+ * Upsert the Google replies for a page of fetched reviews into responses.
+ *
+ * @param supabase - Supabase client (service role)
+ * @param savedReviews - Reviews from the page as saved (id and external_review_id)
+ * @param fetched - The fetched page, carrying each review's Google reply
+ * @returns Number of responses created or updated, and an error message if saving failed
+ */
+export async function syncGoogleReplies(
+  supabase: SupabaseClient<Database>,
+  savedReviews: SavedReviewRef[],
+  fetched: FetchedReview[],
+): Promise<{ syncedCount: number; error: string | null }> {
+  const repliesByExternalId = new Map(
+    fetched.flatMap((review) =>
+      review.external_review_id && review.reply
+        ? [[review.external_review_id, review.reply] as const]
+        : [],
+    ),
+  );
+  const replied = savedReviews.flatMap((review) => {
+    const reply = repliesByExternalId.get(review.external_review_id);
+    return reply ? [{ reviewId: review.id, reply }] : [];
+  });
+
+  if (replied.length === 0) {
+    return { syncedCount: 0, error: null };
+  }
+
+  const { data: existingResponses, error: loadError } = await supabase
+    .from("responses")
+    .select(
+      "review_id, status, source, final_text, published_at, google_reply_text, google_reply_updated_at",
+    )
+    .in(
+      "review_id",
+      replied.map((entry) => entry.reviewId),
+    );
+
+  if (loadError) {
+    return { syncedCount: 0, error: loadError.message };
+  }
+
+  const existingByReview = new Map(
+    (existingResponses ?? []).map((response) => [response.review_id, response]),
+  );
+  const rows: ResponseInsert[] = [];
+
+  for (const { reviewId, reply } of replied) {
+    const existing = existingByReview.get(reviewId);
+    if (
+      existing &&
+      existing.google_reply_text === reply.comment &&
+      isSameTimestamp(existing.google_reply_updated_at, reply.updated_at)
+    ) {
+      continue;
+    }
+
+    // A reply published from Replily stays ours; anything else (no response,
+    // an unpublished draft, or an earlier external reply) mirrors Google
+    const publishedHere =
+      existing?.status === "published" && existing.source !== "external";
+
+    rows.push({
+      review_id: reviewId,
+      status: "published",
+      source: publishedHere ? existing.source : "external",
+      final_text: publishedHere ? existing.final_text : reply.comment,
+      published_at: publishedHere ? existing.published_at : reply.updated_at,
+      google_reply_text: reply.comment,
+      google_reply_updated_at: reply.updated_at,
+    });
+  }
+
+  if (rows.length === 0) {
+    return { syncedCount: 0, error: null };
+  }
+
+  const { error: upsertError } = await supabase
+    .from("responses")
+    .upsert(rows, { onConflict: "review_id" });
+
+  if (upsertError) {
+    return { syncedCount: 0, error: upsertError.message };
+  }
+
+  return { syncedCount: rows.length, error: null };
+}
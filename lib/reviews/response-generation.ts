@@ -0,0 +1,611 @@
+/**
+ * Response Generation
+ *
+ * The steps shared by POST /api/responses and its streaming counterpart
+ * POST /api/responses/stream: validating the request, checking the
+ * organization's AI budget, loading the review, voice profile, and business
+ * facts, choosing the prompt version, flagging drafts that make promises the
+ * voice profile doesn't allow, and saving the generated draft with its
+ * versions and usage.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+import { getResponseModel } from "@/lib/ai/config";
+import {
+  budgetExceededError,
+  budgetWarning,
+  getAIBudget,
+  recordAIUsage,
+} from "@/lib/ai/usage";
+import {
+  type ClaudeAPIError,
+  DEFAULT_VOICE_PROFILE,
+} from "@/lib/claude/client";
+import { isPromptVersion, type PromptVersion } from "@/lib/claude/prompts";
+import {
+  type BusinessFactForPrompt,
+  loadBusinessFacts,
+} from "@/lib/reviews/business-facts";
+import {
+  ESCALATION_REASON_LABELS,
+  isEscalationReason,
+} from "@/lib/reviews/escalation";
+import { selectPromptVersion } from "@/lib/reviews/prompt-experiments";
+import {
+  checkResponseText,
+  type GuardrailIssue,
+} from "@/lib/reviews/response-guardrails";
+import {
+  MAX_GUIDANCE_LENGTH,
+  MAX_RESPONSE_VARIANTS,
+  type ResponseVariantStyle,
+  recordResponseVersions,
+} from "@/lib/reviews/response-versions";
+import type { Database, Review, VoiceProfile } from "@/lib/supabase/types";
+
+/**
+ * An error to return to the client, with its HTTP status
+ */
+export interface GenerationFailure {
+  status: number;
+  body: { error: string; code?: string; escalationReason?: string };
+}
+
+/**
+ * A response that already exists, returned instead of generating a new one
+ */
+export interface ExistingDraft {
+  id: string;
+  reviewId: string;
+  generatedText: string | null;
+  editedText: string | null;
+  status: string | null;
+  tokensUsed: number;
+}
+
+/**
+ * Everything needed to generate and save a draft
+ */
+export interface GenerationContext {
+  userId: string;
+  organizationId: string;
+  reviewId: string;
+  review: Review;
+  businessName: string;
+  voiceProfile: VoiceProfile;
+  contactEmail: string | undefined;
+  customToneEnhancedContext: string | undefined;
+  /** Facts for the review's location; the prompt uses the relevant ones */
+  businessFacts: BusinessFactForPrompt[];
+  guidance: string | undefined;
+  variantCount: number;
+  promptVersion: PromptVersion;
+  /** Model for the organization's plan tier */
+  model: string;
+  /** The prompt experiment that chose promptVersion, if any */
+  promptExperimentId: string | null;
+  /** The draft being replaced when regenerating */
+  existingResponse: { id: string; tokens_used: number | null } | null;
+  /** Set once the organization is past its soft AI budget limit */
+  usageWarning: string | undefined;
+}
+
+/**
+ * Result of checking a generation request
+ */
+export type PreparedGeneration =
+  | { outcome: "failed"; failure: GenerationFailure }
+  | { outcome: "existing"; response: ExistingDraft }
+  | { outcome: "generate"; context: GenerationContext };
+
+/**
+ * A generated draft ready to be saved (style is null for a single draft)
+ */
+export interface GeneratedDraft {
+  style: ResponseVariantStyle | null;
+  text: string;
+  tokensUsed: number;
+}
+
+const failed = (
+  status: number,
+  body: GenerationFailure["body"],
+): PreparedGeneration => ({ outcome: "failed", failure: { status, body } });
+
+/**
+ * Find the voice profile that applies to a review: the location's own, then
+ * the organization's first, then DEFAULT_VOICE_PROFILE.
+ *
+ * @param supabase - Supabase client for the signed-in user
+ * @param voiceProfileId - The location's voice_profile_id
+ * @param organizationId - The review's organization
+ * @returns The voice profile to use
+ */
+export async function resolveVoiceProfile(
+  supabase: SupabaseClient<Database>,
+  voiceProfileId: string | null,
+  organizationId: string,
+): Promise<VoiceProfile> {
+  let voiceProfile: VoiceProfile | null = null;
+
+  if (voiceProfileId) {
+    const { data: locationProfile, error: locationProfileError } =
+      await supabase
+        .from("voice_profiles")
+        .select("*")
+        .eq("id", voiceProfileId)
+        .single();
+    if (locationProfileError) {
+      console.warn(
+        "Failed to fetch location voice profile, using fallback:",
+        locationProfileError,
+      );
+    }
+    voiceProfile = locationProfile;
+  }
+
+  if (!voiceProfile) {
+    const { data: orgProfile, error: orgProfileError } = await supabase
+      .from("voice_profiles")
+      .select("*")
+      .eq("organization_id", organizationId)
+      .limit(1)
+      .maybeSingle();
+    if (orgProfileError) {
+      console.warn(
+        "Failed to fetch organization voice profile, using fallback:",
+        orgProfileError,
+      );
+    }
+    voiceProfile = orgProfile;
+  }
+
+  // Use default voice profile if none found
+  return voiceProfile ?? DEFAULT_VOICE_PROFILE;
+}
+
+/**
+ * Validate a generation request and load the review, voice profile, and any
+ * existing draft for it.
+ *
+ * An existing draft is returned as-is unless `regenerate` is true. Published
+ * responses cannot be regenerated, reviews flagged for escalation are refused
+ * unless `overrideEscalation` is true, and nothing is generated once the
+ * organization has used its monthly AI budget.
+ *
+ * @param supabase - Supabase client for the signed-in user
+ * @param userId - The signed-in user's ID
+ * @param body - The parsed request body (`reviewId`, `overrideEscalation`, `regenerate`, `guidance`, `variants`)
+ * @returns A failure to return, the existing draft, or the context to generate with
+ */
+export async function prepareResponseGeneration(
+  supabase: SupabaseClient<Database>,
+  userId: string,
+  body: Record<string, unknown>,
+): Promise<PreparedGeneration> {
+  const { reviewId, overrideEscalation, regenerate } = body;
+
+  if (!reviewId || typeof reviewId !== "string") {
+    return failed(400, { error: "reviewId is required" });
+  }
+
+  const rawGuidance = body.guidance;
+  if (rawGuidance !== undefined && typeof rawGuidance !== "string") {
+    return failed(400, { error: "guidance must be a string" });
+  }
+
+  const variantCount = body.variants ?? 1;
+  if (
+    typeof variantCount !== "number" ||
+    !Number.isInteger(variantCount) ||
+    variantCount < 1 ||
+    variantCount > MAX_RESPONSE_VARIANTS
+  ) {
+    return failed(400, {
+      error: `variants must be a whole number from 1 to ${MAX_RESPONSE_VARIANTS}`,
+    });
+  }
+
+  const guidance = rawGuidance?.trim() || undefined;
+  if (guidance && guidance.length > MAX_GUIDANCE_LENGTH) {
+    return failed(400, {
+      error: `guidance must be at most ${MAX_GUIDANCE_LENGTH} characters`,
+    });
+  }
+
+  // Get user's organization, its plan tier, and the user's email
+  const { data: userData, error: userError } = await supabase
+    .from("users")
+    .select("organization_id, email, organizations ( plan_tier )")
+    .eq("id", userId)
+    .single();
+
+  if (userError || !userData) {
+    return failed(404, { error: "User not found" });
+  }
+
+  if (!userData.organization_id) {
+    return failed(400, { error: "Organization not found" });
+  }
+
+  // Fetch review with location to verify organization ownership
+  const { data: review, error: reviewError } = await supabase
+    .from("reviews")
+    .select(
+      `
+      id,
+      rating,
+      reviewer_name,
+      review_text,
+      review_date,
+      language,
+      reviewer_photo_url,
+      external_review_id,
+      platform,
+      deleted_at,
+      last_seen_at,
+      status,
+      sentiment,
+      sentiment_confidence,
+      sentiment_source,
+      sentiment_aspects,
+      sentiment_analyzed_at,
+      escalation_reason,
+      escalation_detail,
+      escalated_at,
+      has_response,
+      location_id,
+      created_at,
+      locations!inner (
+        id,
+        name,
+        organization_id,
+        voice_profile_id
+      )
+    `,
+    )
+    .eq("id", reviewId)
+    .single();
+
+  if (reviewError || !review) {
+    return failed(404, { error: "Review not found" });
+  }
+
+  // Verify review belongs to user's organization
+  const location = review.locations as unknown as {
+    id: string;
+    name: string;
+    organization_id: string;
+    voice_profile_id: string | null;
+  };
+
+  if (location.organization_id !== userData.organization_id) {
+    return failed(404, { error: "Review not found" });
+  }
+
+  // Check for existing response
+  const { data: existingResponse, error: existingResponseError } =
+    await supabase
+      .from("responses")
+      .select(
+        "id, generated_text, edited_text, status, tokens_used, prompt_version, prompt_experiment_id",
+      )
+      .eq("review_id", reviewId)
+      .maybeSingle();
+
+  if (existingResponseError) {
+    console.error(
+      "Failed to check for existing response:",
+      existingResponseError,
+    );
+    return failed(500, {
+      error: "Failed to check for existing response",
+      code: "DB_ERROR",
+    });
+  }
+
+  if (existingResponse && regenerate !== true) {
+    // Return existing response instead of regenerating
+    return {
+      outcome: "existing",
+      response: {
+        id: existingResponse.id,
+        reviewId,
+        generatedText: existingResponse.generated_text,
+        editedText: existingResponse.edited_text,
+        status: existingResponse.status,
+        tokensUsed: existingResponse.tokens_used ?? 0,
+      },
+    };
+  }
+
+  // A published reply is live on Google; only drafts can be replaced
+  if (existingResponse?.status === "published") {
+    return failed(409, {
+      error: "Published responses cannot be regenerated",
+      code: "RESPONSE_PUBLISHED",
+    });
+  }
+
+  // Validate review has text to respond to
+  if (!review.review_text || review.review_text.trim().length === 0) {
+    return failed(400, {
+      error: "Cannot generate response for review without text",
+    });
+  }
+
+  // Flagged reviews need a person to respond unless the user chose to draft anyway
+  if (review.escalation_reason && overrideEscalation !== true) {
+    const label = isEscalationReason(review.escalation_reason)
+      ? ESCALATION_REASON_LABELS[review.escalation_reason]
+      : review.escalation_reason;
+    return failed(409, {
+      error: `This review was flagged for a human response (${label.toLowerCase()})`,
+      code: "REVIEW_ESCALATED",
+      escalationReason: review.escalation_reason,
+    });
+  }
+
+  const planTier = userData.organizations?.plan_tier ?? null;
+  const { budget, error: budgetError } = await getAIBudget(
+    supabase,
+    userData.organization_id,
+    planTier,
+  );
+  // A usage lookup failure shouldn't stop replies, so generate anyway
+  if (budgetError) {
+    console.error("Failed to check AI budget:", budgetError);
+  }
+  if (budget?.state === "hard_limit") {
+    return failed(402, budgetExceededError(budget));
+  }
+
+  const effectiveProfile = await resolveVoiceProfile(
+    supabase,
+    location.voice_profile_id,
+    userData.organization_id,
+  );
+
+  // Check if tone is a custom tone and fetch enhanced context
+  let customToneEnhancedContext: string | undefined;
+  if (effectiveProfile.tone?.startsWith("custom:")) {
+    const customToneId = effectiveProfile.tone.replace("custom:", "");
+    const { data: customTone } = await supabase
+      .from("custom_tones")
+      .select("enhanced_context")
+      .eq("id", customToneId)
+      .eq("organization_id", userData.organization_id)
+      .maybeSingle();
+
+    if (customTone?.enhanced_context) {
+      customToneEnhancedContext = customTone.enhanced_context;
+    }
+  }
+
+  // Drafts can still be written without facts, just less specifically
+  const { facts: businessFacts, error: businessFactsError } =
+    await loadBusinessFacts(supabase, userData.organization_id, location.id);
+  if (businessFactsError) {
+    console.warn(
+      "Failed to fetch business facts, generating without them:",
+      businessFactsError,
+    );
+  }
+
+  // A regenerated draft keeps the version and experiment it was first
+  // assigned, so experiment results count each response once, under one version
+  const { promptVersion, experimentId } = isPromptVersion(
+    existingResponse?.prompt_version,
+  )
+    ? {
+        promptVersion: existingResponse.prompt_version,
+        experimentId: existingResponse.prompt_experiment_id,
+      }
+    : await selectPromptVersion(supabase, userData.organization_id, reviewId);
+
+  return {
+    outcome: "generate",
+    context: {
+      userId,
+      organizationId: userData.organization_id,
+      reviewId,
+      review,
+      businessName: location.name,
+      voiceProfile: effectiveProfile,
+      contactEmail: userData.email ?? undefined,
+      customToneEnhancedContext,
+      businessFacts,
+      guidance,
+      variantCount,
+      promptVersion,
+      model: getResponseModel(planTier),
+      promptExperimentId: experimentId,
+      existingResponse,
+      usageWarning: budgetWarning(budget),
+    },
+  };
+}
+
+/**
+ * Add tokens spent generating drafts to the organization's AI usage.
+ *
+ * Failures are logged rather than returned: the tokens were spent either way.
+ *
+ * @param supabase - Supabase client for the signed-in user
+ * @param context - The context the drafts were generated with
+ * @param tokensUsed - Tokens used
+ */
+export async function recordGenerationUsage(
+  supabase: SupabaseClient<Database>,
+  context: GenerationContext,
+  tokensUsed: number,
+): Promise<void> {
+  const { error } = await recordAIUsage(supabase, [
+    {
+      organizationId: context.organizationId,
+      userId: context.userId,
+      task: "review_response",
+      model: context.model,
+      tokensUsed,
+    },
+  ]);
+  if (error) {
+    console.error("Failed to record AI usage:", error);
+  }
+}
+
+/**
+ * Save generated drafts: the first becomes the response's draft (replacing
+ * any existing one), every draft is added to the version history, and the
+ * tokens they used are added to the organization's AI usage.
+ *
+ * @param supabase - Supabase client for the signed-in user
+ * @param context - The context the drafts were generated with
+ * @param drafts - The generated drafts, at least one
+ * @returns The saved response ID and version IDs (null where history failed), or a failure to return
+ */
+export async function saveGeneratedDrafts(
+  supabase: SupabaseClient<Database>,
+  context: GenerationContext,
+  drafts: GeneratedDraft[],
+): Promise<
+  | { outcome: "failed"; failure: GenerationFailure }
+  | { outcome: "saved"; responseId: string; versionIds: (string | null)[] }
+> {
+  const { existingResponse, reviewId } = context;
+  const draft = drafts[0];
+  if (!draft) {
+    throw new Error("saveGeneratedDrafts needs at least one draft");
+  }
+  const tokensUsed = drafts.reduce(
+    (total, variant) => total + variant.tokensUsed,
+    0,
+  );
+
+  // The tokens were spent whether or not the draft saves
+  await recordGenerationUsage(supabase, context, tokensUsed);
+
+  // Store the generated response, replacing the draft when regenerating
+  const { data: savedResponse, error: saveError } = existingResponse
+    ? await supabase
+        .from("responses")
+        .update({
+          generated_text: draft.text,
+          edited_text: null,
+          status: "draft",
+          tokens_used: (existingResponse.tokens_used ?? 0) + tokensUsed,
+          prompt_version: context.promptVersion,
+          prompt_experiment_id: context.promptExperimentId,
+        })
+        .eq("id", existingResponse.id)
+        .select("id")
+        .single()
+    : await supabase
+        .from("responses")
+        .insert({
+          review_id: reviewId,
+          generated_text: draft.text,
+          status: "draft",
+          tokens_used: tokensUsed,
+          prompt_version: context.promptVersion,
+          prompt_experiment_id: context.promptExperimentId,
+        })
+        .select("id")
+        .single();
+
+  if (saveError || !savedResponse) {
+    console.error("Failed to save response:", saveError);
+    return {
+      outcome: "failed",
+      failure: {
+        status: 500,
+        body: { error: "Failed to save response", code: "DB_ERROR" },
+      },
+    };
+  }
+
+  // History is best-effort: the draft itself is already saved
+  const { versionIds, error: versionError } = await recordResponseVersions(
+    supabase,
+    drafts.map((variant) => ({
+      response_id: savedResponse.id,
+      review_id: reviewId,
+      kind: "generated",
+      text: variant.text,
+      guidance: context.guidance ?? null,
+      tokens_used: variant.tokensUsed,
+      variant_style: variant.style,
+      prompt_version: context.promptVersion,
+      created_by: context.userId,
+    })),
+  );
+  if (versionError) {
+    console.error("Failed to save response version:", versionError);
+  }
+
+  return {
+    outcome: "saved",
+    responseId: savedResponse.id,
+    versionIds: drafts.map((_, index) => versionIds[index] ?? null),
+  };
+}
+
+/**
+ * Check a generated draft for refunds, discounts, or admissions of fault the
+ * voice profile doesn't allow. A review can ask for these, so drafts are
+ * flagged as soon as they are written; publishing runs the same check along
+ * with the other guardrails.
+ *
+ * @param context - The generation context (its voice profile)
+ * @param text - The draft text
+ * @returns The `commitments` issue when the draft makes one, otherwise empty
+ */
+export function flagDraftCommitments(
+  context: Pick<GenerationContext, "voiceProfile">,
+  text: string,
+): GuardrailIssue[] {
+  return checkResponseText(text, {
+    voiceProfile: context.voiceProfile,
+    contactEmail: null,
+  }).filter((issue) => issue.check === "commitments");
+}
+
+/**
+ * Map a Claude API error to the failure returned to the client.
+ *
+ * @param error - The error thrown while generating
+ * @returns The HTTP status and error body
+ */
+export function toClaudeFailure(error: ClaudeAPIError): GenerationFailure {
+  console.error("Claude API error:", {
+    status: error.status,
+    message: error.message,
+  });
+
+  if (error.status === 408) {
+    return {
+      status: 504,
+      body: { error: "AI response generation timed out", code: "AI_TIMEOUT" },
+    };
+  }
+  if (error.status === 429) {
+    return {
+      status: 429,
+      body: {
+        error: "Rate limit exceeded. Please try again later.",
+        code: "RATE_LIMITED",
+      },
+    };
+  }
+  if (error.status === 401 || error.status === 403) {
+    return {
+      status: 500,
+      body: { error: "AI service configuration error", code: "INTERNAL_ERROR" },
+    };
+  }
+  return {
+    status: 502,
+    body: { error: "AI service unavailable", code: "AI_SERVICE_ERROR" },
+  };
+}
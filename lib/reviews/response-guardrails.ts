@@ -0,0 +1,288 @@
+/**
+ * Response Guardrails
+ *
+ * Checks run on a response's final text before it is published: words the
+ * voice profile avoids, its word limit, leftover placeholders, personal
+ * details, promises the voice profile doesn't allow (refunds, discounts,
+ * admitting fault), and Google's reply size limit. Each check has a severity; a
+ * `block` issue stops publishing while a `warning` only has to be
+ * acknowledged. Severities can be configured per voice profile.
+ */
+
+import type { Json, VoiceProfile } from "@/lib/supabase/types";
+import { countWords } from "@/lib/utils/format";
+
+/**
+ * Guardrail checks, in the order issues are reported
+ */
+export const GUARDRAIL_CHECKS = [
+  "placeholder",
+  "google_length",
+  "personal_info",
+  "commitments",
+  "words_to_avoid",
+  "max_length",
+] as const;
+
+export type GuardrailCheck = (typeof GUARDRAIL_CHECKS)[number];
+
+/**
+ * How an issue is handled when publishing
+ */
+export const GUARDRAIL_SEVERITIES = ["warning", "block"] as const;
+
+export type GuardrailSeverity = (typeof GUARDRAIL_SEVERITIES)[number];
+
+/**
+ * Severities used when a voice profile does not configure a check
+ */
+export const DEFAULT_GUARDRAIL_SEVERITIES: Record<
+  GuardrailCheck,
+  GuardrailSeverity
+> = {
+  placeholder: "block",
+  google_length: "block",
+  personal_info: "warning",
+  commitments: "warning",
+  words_to_avoid: "warning",
+  max_length: "warning",
+};
+
+/**
+ * Google's limit on the size of a review reply, in bytes
+ */
+export const GOOGLE_REPLY_MAX_BYTES = 4096;
+
+/**
+ * Commitments a response can make on the business's behalf, which a voice
+ * profile has to allow (voice_profiles.allowed_commitments)
+ */
+export const RESPONSE_COMMITMENTS = [
+  "refund",
+  "discount",
+  "liability",
+] as const;
+
+export type ResponseCommitment = (typeof RESPONSE_COMMITMENTS)[number];
+
+/**
+ * Display labels for commitments
+ */
+export const RESPONSE_COMMITMENT_LABELS: Record<ResponseCommitment, string> = {
+  refund: "Refund",
+  discount: "Discount or freebie",
+  liability: "Admitting fault",
+};
+
+/**
+ * A problem found in a response
+ */
+export interface GuardrailIssue {
+  check: GuardrailCheck;
+  severity: GuardrailSeverity;
+  message: string;
+}
+
+// Template placeholders such as "[Name]", "{business}", "{{ manager }}", or "<Your Name>"
+const PLACEHOLDER_PATTERN =
+  /\[[^\]\n]{1,40}\]|\{\{?[^{}\n]{1,40}\}?\}|<[A-Za-z][^<>\n]{0,39}>/;
+
+const EMAIL_PATTERN = /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/g;
+
+// Digit runs with common phone separators; the digit count is checked separately
+const PHONE_PATTERN = /\+?\(?\d[\d\s().-]{5,}\d/g;
+
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Phrases that commit the business to each kind of commitment (matched
+ * case-insensitively). Mentioning one ("we don't offer refunds") doesn't
+ * count; offering or admitting one does.
+ */
+const COMMITMENT_PATTERNS: Record<ResponseCommitment, RegExp> = {
+  refund:
+    /\b(?:(?:full|partial|complete)\s+refund|(?:offer|give|issue|provide|process|send)(?:ing)?\s+(?:you\s+)?(?:a\s+)?refund|(?:we|i)(?:['’](?:ll|d|re\s+happy\s+to|m\s+happy\s+to)|\s+will|\s+would|\s+can|\s+are\s+happy\s+to|\s+am\s+happy\s+to)\s+(?:be\s+happy\s+to\s+|gladly\s+)?(?:refund|reimburse)|(?:your|their)\s+money\s+back)\b/i,
+  discount:
+    /\b(?:\d+\s?%\s+off|(?:discount|promo|coupon|voucher)\s+code|(?:offer|give|send)(?:ing)?\s+(?:you\s+)?(?:a\s+)?(?:\d+\s?%\s+)?(?:discount|voucher|coupon|gift\s+card|free\s+\w+)|on\s+the\s+house|(?:next|another)\s+(?:visit|meal|stay|order|night|drink|coffee)\s+(?:is|will\s+be)\s+(?:free|on\s+us))\b/i,
+  liability:
+    /\b(?:(?:entirely|completely|totally|all)\s+our\s+fault|(?:it|this|that)\s+was\s+our\s+fault|we\s+(?:take|accept)\s+(?:full\s+)?(?:responsibility|liability)|we\s+are\s+(?:fully\s+|entirely\s+)?(?:liable|responsible\s+for\s+(?:the|your)\s+(?:injury|damage|illness|loss))|(?:our|staff)\s+negligence|we\s+were\s+negligent|we\s+admit)\b/i,
+};
+
+/**
+ * Whether a value is a known guardrail check.
+ *
+ * @param value - Value to check
+ * @returns true for one of GUARDRAIL_CHECKS
+ */
+export function isGuardrailCheck(value: unknown): value is GuardrailCheck {
+  return GUARDRAIL_CHECKS.includes(value as GuardrailCheck);
+}
+
+/**
+ * Whether a value is a known severity.
+ *
+ * @param value - Value to check
+ * @returns true for one of GUARDRAIL_SEVERITIES
+ */
+export function isGuardrailSeverity(
+  value: unknown,
+): value is GuardrailSeverity {
+  return GUARDRAIL_SEVERITIES.includes(value as GuardrailSeverity);
+}
+
+/**
+ * Merge a voice profile's configured severities over the defaults.
+ *
+ * @param configured - voice_profiles.guardrail_severities (unknown checks and values are ignored)
+ * @returns The severity of every check
+ */
+export function resolveGuardrailSeverities(
+  configured: Json | undefined,
+): Record<GuardrailCheck, GuardrailSeverity> {
+  const severities = { ...DEFAULT_GUARDRAIL_SEVERITIES };
+  if (
+    configured &&
+    typeof configured === "object" &&
+    !Array.isArray(configured)
+  ) {
+    for (const [check, severity] of Object.entries(configured)) {
+      if (isGuardrailCheck(check) && isGuardrailSeverity(severity)) {
+        severities[check] = severity;
+      }
+    }
+  }
+  return severities;
+}
+
+/**
+ * Find the avoided words and phrases that appear in a text.
+ *
+ * @param text - The response text
+ * @param wordsToAvoid - Words and phrases to look for (matched case-insensitively as whole words)
+ * @returns The avoided words found, as configured
+ */
+function findAvoidedWords(text: string, wordsToAvoid: string[]): string[] {
+  return wordsToAvoid.filter((word) => {
+    const phrase = word.trim();
+    if (phrase.length === 0) {
+      return false;
+    }
+    const escaped = phrase
+      .replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+      .replace(/\s+/g, "\\s+");
+    const start = /^\w/.test(phrase) ? "\\b" : "";
+    const end = /\w$/.test(phrase) ? "\\b" : "";
+    return new RegExp(`${start}${escaped}${end}`, "i").test(text);
+  });
+}
+
+/**
+ * Find phone numbers and email addresses in a text.
+ *
+ * @param text - The response text
+ * @param contactEmail - The business's contact email, which is allowed
+ * @returns The personal details found
+ */
+function findPersonalInfo(text: string, contactEmail: string | null): string[] {
+  const allowedEmail = contactEmail?.toLowerCase();
+  const emails = (text.match(EMAIL_PATTERN) ?? []).filter(
+    (email) => email.toLowerCase() !== allowedEmail,
+  );
+  const phones = (text.match(PHONE_PATTERN) ?? [])
+    .map((match) => match.trim())
+    .filter((match) => {
+      const digits = match.replace(/\D/g, "").length;
+      return digits >= 7 && digits <= 15 && !ISO_DATE_PATTERN.test(match);
+    });
+  return [...emails, ...phones];
+}
+
+/**
+ * Find commitments in a text that the voice profile doesn't allow.
+ *
+ * @param text - The response text
+ * @param allowed - voice_profiles.allowed_commitments
+ * @returns Each commitment found with the words that made it, in RESPONSE_COMMITMENTS order
+ */
+export function findCommitments(
+  text: string,
+  allowed: readonly string[],
+): Array<{ commitment: ResponseCommitment; detail: string }> {
+  return RESPONSE_COMMITMENTS.flatMap((commitment) => {
+    if (allowed.includes(commitment)) {
+      return [];
+    }
+    const match = COMMITMENT_PATTERNS[commitment].exec(text);
+    return match ? [{ commitment, detail: match[0] }] : [];
+  });
+}
+
+/**
+ * Check a response's final text before it is published.
+ *
+ * @param text - The text about to be published
+ * @param options - The voice profile that applies to the review (its avoided words, word limit, allowed commitments, and configured severities) and the contact email the response may include
+ * @returns The issues found, in GUARDRAIL_CHECKS order
+ */
+export function checkResponseText(
+  text: string,
+  options: {
+    voiceProfile: Pick<
+      VoiceProfile,
+      | "words_to_avoid"
+      | "max_length"
+      | "allowed_commitments"
+      | "guardrail_severities"
+    >;
+    contactEmail: string | null;
+  },
+): GuardrailIssue[] {
+  const { voiceProfile, contactEmail } = options;
+  const severities = resolveGuardrailSeverities(
+    voiceProfile.guardrail_severities,
+  );
+  const messages: Partial<Record<GuardrailCheck, string>> = {};
+
+  const placeholder = PLACEHOLDER_PATTERN.exec(text);
+  if (placeholder) {
+    messages.placeholder = `Placeholder text left in: "${placeholder[0]}"`;
+  }
+
+  const bytes = new TextEncoder().encode(text).length;
+  if (bytes > GOOGLE_REPLY_MAX_BYTES) {
+    messages.google_length = `Too long for a Google reply (${bytes} of ${GOOGLE_REPLY_MAX_BYTES} bytes)`;
+  }
+
+  const personalInfo = findPersonalInfo(text, contactEmail);
+  if (personalInfo.length > 0) {
+    messages.personal_info = `Contact details other than your contact email: ${personalInfo.join(", ")}`;
+  }
+
+  const commitments = findCommitments(text, voiceProfile.allowed_commitments);
+  if (commitments.length > 0) {
+    messages.commitments = `Commitments this voice doesn't allow: ${commitments
+      .map(
+        ({ commitment, detail }) =>
+          `${RESPONSE_COMMITMENT_LABELS[commitment].toLowerCase()} ("${detail}")`,
+      )
+      .join(", ")}`;
+  }
+
+  const avoidedWords = findAvoidedWords(
+    text,
+    voiceProfile.words_to_avoid ?? [],
+  );
+  if (avoidedWords.length > 0) {
+    messages.words_to_avoid = `Words this voice avoids: ${avoidedWords.join(", ")}`;
+  }
+
+  const wordCount = countWords(text);
+  if (voiceProfile.max_length && wordCount > voiceProfile.max_length) {
+    messages.max_length = `${wordCount} words; the voice profile allows up to ${voiceProfile.max_length}`;
+  }
+
+  return GUARDRAIL_CHECKS.flatMap((check) => {
+    const message = messages[check];
+    return message ? [{ check, severity: severities[check], message }] : [];
+  });
+}
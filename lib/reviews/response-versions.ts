@@ -0,0 +1,147 @@
+/**
+ * Response Version History
+ *
+ * Every text a response has held (each AI draft, each saved edit, and each
+ * published reply) is kept in response_versions so an earlier one can be
+ * restored from the edit modal.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+import type { Database, ResponseVersionInsert } from "@/lib/supabase/types";
+
+/**
+ * How a version was produced, stored in response_versions.kind
+ */
+export const RESPONSE_VERSION_KINDS = [
+  "generated",
+  "edited",
+  "published",
+] as const;
+
+export type ResponseVersionKind = (typeof RESPONSE_VERSION_KINDS)[number];
+
+/**
+ * Display labels for version kinds
+ */
+export const RESPONSE_VERSION_KIND_LABELS: Record<ResponseVersionKind, string> =
+  {
+    generated: "AI draft",
+    edited: "Edited",
+    published: "Published",
+  };
+
+/**
+ * Whether a value is a known version kind.
+ *
+ * @param value - Value to check (e.g. response_versions.kind)
+ * @returns true for one of RESPONSE_VERSION_KINDS
+ */
+export function isResponseVersionKind(
+  value: unknown,
+): value is ResponseVersionKind {
+  return RESPONSE_VERSION_KINDS.includes(value as ResponseVersionKind);
+}
+
+/**
+ * Styles for alternative drafts, in the order they are generated
+ */
+export const RESPONSE_VARIANT_STYLES = [
+  "balanced",
+  "short",
+  "warm_opening",
+  "direct_opening",
+] as const;
+
+export type ResponseVariantStyle = (typeof RESPONSE_VARIANT_STYLES)[number];
+
+/**
+ * Display labels for variant styles
+ */
+export const RESPONSE_VARIANT_STYLE_LABELS: Record<
+  ResponseVariantStyle,
+  string
+> = {
+  balanced: "Balanced",
+  short: "Short",
+  warm_opening: "Warm opening",
+  direct_opening: "Direct opening",
+};
+
+/**
+ * Maximum number of alternative drafts generated in one request
+ */
+export const MAX_RESPONSE_VARIANTS = RESPONSE_VARIANT_STYLES.length;
+
+/**
+ * Whether a value is a known variant style.
+ *
+ * @param value - Value to check (e.g. response_versions.variant_style)
+ * @returns true for one of RESPONSE_VARIANT_STYLES
+ */
+export function isResponseVariantStyle(
+  value: unknown,
+): value is ResponseVariantStyle {
+  return RESPONSE_VARIANT_STYLES.includes(value as ResponseVariantStyle);
+}
+
+/**
+ * Maximum length of the guidance that can be given when regenerating
+ */
+export const MAX_GUIDANCE_LENGTH = 500;
+
+/**
+ * Columns returned when listing versions
+ */
+export const RESPONSE_VERSION_COLUMNS =
+  "id, kind, text, guidance, tokens_used, variant_style, source_version_id, created_at";
+
+/**
+ * Save versions of a response.
+ *
+ * @param supabase - Supabase client for the signed-in user
+ * @param versions - The versions to save, in order
+ * @returns The saved version IDs (in the same order), and an error message if saving failed
+ */
+export async function recordResponseVersions(
+  supabase: SupabaseClient<Database>,
+  versions: ResponseVersionInsert[],
+): Promise<{ versionIds: string[]; error: string | null }> {
+  const { data, error } = await supabase
+    .from("response_versions")
+    .insert(versions)
+    .select("id");
+
+  if (error) {
+    return { versionIds: [], error: error.message };
+  }
+
+  return { versionIds: (data ?? []).map((row) => row.id), error: null };
+}
+
+/**
+ * Check that a version belongs to a review before linking another version to it.
+ *
+ * @param supabase - Supabase client for the signed-in user
+ * @param reviewId - The review the new version is for
+ * @param versionId - The version it claims to be based on
+ * @returns The version ID if it is one of the review's versions, otherwise null
+ */
+export async function findSourceVersionId(
+  supabase: SupabaseClient<Database>,
+  reviewId: string,
+  versionId: unknown,
+): Promise<string | null> {
+  if (typeof versionId !== "string" || versionId.length === 0) {
+    return null;
+  }
+
+  const { data } = await supabase
+    .from("response_versions")
+    .select("id")
+    .eq("id", versionId)
+    .eq("review_id", reviewId)
+    .maybeSingle();
+
+  return data?.id ?? null;
+}
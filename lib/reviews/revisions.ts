@@ -0,0 +1,168 @@
+/**
+ * Review Change Tracking
+ *
+ * Detects reviews that were edited or deleted on Google after they were
+ * stored. Each change is recorded in review_revisions, and any draft or
+ * published response to a changed review is flagged through
+ * responses.review_changed_at so it can be revisited.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+import type {
+  Database,
+  ReviewInsert,
+  ReviewRevisionInsert,
+} from "@/lib/supabase/types";
+
+/**
+ * Columns selected from reviews to diff against incoming rows
+ */
+export const STORED_REVIEW_COLUMNS =
+  "id, external_review_id, rating, review_text";
+
+/**
+ * Stored review fields compared against Google's current version
+ */
+export interface StoredReviewSnapshot {
+  id: string;
+  external_review_id: string;
+  rating: number | null;
+  review_text: string | null;
+}
+
+/**
+ * Treat missing and empty review text as the same value.
+ */
+function normalizeText(text: string | null | undefined): string {
+  return text ?? "";
+}
+
+/**
+ * Compare incoming review rows with their stored versions.
+ *
+ * @param stored - Stored reviews matching the incoming external_review_ids
+ * @param incoming - Rows built from the latest fetch
+ * @returns An `edited` revision for each review whose rating or text changed
+ */
+export function findReviewEdits(
+  stored: StoredReviewSnapshot[],
+  incoming: ReviewInsert[],
+): ReviewRevisionInsert[] {
+  const storedById = new Map(
+    stored.map((review) => [review.external_review_id, review]),
+  );
+  const edits: ReviewRevisionInsert[] = [];
+
+  for (const row of incoming) {
+    const previous = storedById.get(row.external_review_id);
+    if (!previous) continue;
+
+    const newRating = row.rating ?? null;
+    const newText = row.review_text ?? null;
+    if (
+      previous.rating === newRating &&
+      normalizeText(previous.review_text) === normalizeText(newText)
+    ) {
+      continue;
+    }
+
+    edits.push({
+      review_id: previous.id,
+      change_type: "edited",
+      old_rating: previous.rating,
+      new_rating: newRating,
+      old_text: previous.review_text,
+      new_text: newText,
+    });
+  }
+
+  return edits;
+}
+
+/**
+ * Record review changes and flag responses written against the old version.
+ *
+ * @param supabase - Supabase client (service role; review_revisions has no insert policy)
+ * @param revisions - Revisions to record
+ * @param detectedAt - ISO timestamp of when the changes were detected
+ * @returns An error message if recording failed, otherwise null
+ */
+export async function recordReviewChanges(
+  supabase: SupabaseClient<Database>,
+  revisions: ReviewRevisionInsert[],
+  detectedAt: string,
+): Promise<{ error: string | null }> {
+  if (revisions.length === 0) {
+    return { error: null };
+  }
+
+  const { error: insertError } = await supabase
+    .from("review_revisions")
+    .insert(
+      revisions.map((revision) => ({ ...revision, detected_at: detectedAt })),
+    );
+
+  if (insertError) {
+    return { error: insertError.message };
+  }
+
+  const { error: flagError } = await supabase
+    .from("responses")
+    .update({ review_changed_at: detectedAt })
+    .in(
+      "review_id",
+      revisions.map((revision) => revision.review_id),
+    )
+    .in("status", ["draft", "published"]);
+
+  return { error: flagError?.message ?? null };
+}
+
+/**
+ * Mark a location's reviews that were not seen during a complete fetch as
+ * deleted, and record a `deleted` revision for each.
+ *
+ * Only call this after a fetch that walked every page of the location's
+ * reviews: every review still on Google has `last_seen_at` at or after
+ * `seenSince`, so anything older is gone.
+ *
+ * @param supabase - Supabase client (service role)
+ * @param locationId - The location whose reviews were fully fetched
+ * @param seenSince - ISO timestamp of when the complete fetch started
+ * @returns Number of reviews marked deleted, and an error message if any step failed
+ */
+export async function markMissingReviewsDeleted(
+  supabase: SupabaseClient<Database>,
+  locationId: string,
+  seenSince: string,
+): Promise<{ deletedCount: number; error: string | null }> {
+  const now = new Date().toISOString();
+  const { data: deletedReviews, error: deleteError } = await supabase
+    .from("reviews")
+    .update({ status: "deleted", deleted_at: now })
+    .eq("location_id", locationId)
+    .is("deleted_at", null)
+    .or(`last_seen_at.is.null,last_seen_at.lt.${seenSince}`)
+    .select("id, rating, review_text");
+
+  if (deleteError) {
+    return { deletedCount: 0, error: deleteError.message };
+  }
+
+  const deleted = deletedReviews ?? [];
+  const { error } = await recordReviewChanges(
+    supabase,
+    deleted.map((review) => ({
+      review_id: review.id,
+      change_type: "deleted",
+      old_rating: review.rating,
+      new_rating: null,
+      old_text: review.review_text,
+      new_text: null,
+    })),
+    now,
+  );
+
+  return { deletedCount: deleted.length, error };
+}
@@ -0,0 +1,222 @@
+/**
+ * Review Tags
+ *
+ * Tags each new or edited review with the aspects sentiment analysis found in
+ * it (staff, wait time, price, ...) and with any of its organization's own
+ * tags whose keywords appear in the text. Tags are stored in review_tags and
+ * used to filter reviews.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+import {
+  ASPECT_KEYWORDS,
+  type Aspect,
+  type ReviewToAnalyze,
+  type SentimentAnalysis,
+} from "@/lib/reviews/sentiment";
+import type {
+  Database,
+  OrganizationTag,
+  ReviewTagInsert,
+} from "@/lib/supabase/types";
+
+/**
+ * Display labels for the built-in aspect tags
+ */
+export const ASPECT_TAG_LABELS: Record<Aspect, string> = {
+  staff: "Staff",
+  service: "Service",
+  wait_time: "Wait time",
+  price: "Price",
+  cleanliness: "Cleanliness",
+  product: "Product",
+  parking: "Parking",
+  booking: "Booking",
+  atmosphere: "Atmosphere",
+};
+
+/**
+ * Maximum number of tags an organization can define
+ */
+export const MAX_ORGANIZATION_TAGS = 50;
+
+/**
+ * Maximum number of keywords per organization tag
+ */
+export const MAX_TAG_KEYWORDS = 20;
+
+/**
+ * Tag slugs: lowercase letters, digits and underscores
+ */
+const TAG_PATTERN = /^[a-z0-9_]{1,50}$/;
+
+/**
+ * A tag that can be used to filter reviews
+ */
+export interface TagOption {
+  tag: string;
+  label: string;
+}
+
+/**
+ * Organization tag fields needed for matching and listing
+ */
+export type OrganizationTagDefinition = Pick<
+  OrganizationTag,
+  "tag" | "label" | "keywords"
+>;
+
+/**
+ * Turn a tag label into the slug stored on reviews ("Outdoor Seating" -> "outdoor_seating").
+ *
+ * @param label - The tag label
+ * @returns The slug, or an empty string if the label has no letters or digits
+ */
+export function toTagSlug(label: string): string {
+  return label
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^_+|_+$/g, "")
+    .slice(0, 50);
+}
+
+/**
+ * Whether a value is a well-formed tag slug.
+ *
+ * @param value - Value to check (e.g. a `tag` query parameter)
+ * @returns true for slugs such as `wait_time`
+ */
+export function isValidTag(value: string): boolean {
+  return TAG_PATTERN.test(value);
+}
+
+/**
+ * Whether a slug is one of the built-in aspect tags.
+ *
+ * @param tag - The tag slug
+ * @returns true for built-in tags
+ */
+export function isAspectTag(tag: string): tag is Aspect {
+  return Object.hasOwn(ASPECT_TAG_LABELS, tag);
+}
+
+/**
+ * List the tags an organization's reviews can be filtered by: the built-in
+ * aspect tags followed by the organization's own tags.
+ *
+ * @param organizationTags - The organization's tags
+ * @returns Tag options for filters
+ */
+export function listTagOptions(
+  organizationTags: OrganizationTagDefinition[],
+): TagOption[] {
+  const builtIn = (Object.keys(ASPECT_KEYWORDS) as Aspect[]).map((tag) => ({
+    tag,
+    label: ASPECT_TAG_LABELS[tag],
+  }));
+  const custom = [...organizationTags]
+    .sort((a, b) => a.label.localeCompare(b.label))
+    .map(({ tag, label }) => ({ tag, label }));
+
+  return [...builtIn, ...custom];
+}
+
+/**
+ * Whether text contains a keyword as a whole word or phrase.
+ */
+function containsKeyword(text: string, keyword: string): boolean {
+  const escaped = keyword.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  return new RegExp(`\\b${escaped}\\b`).test(text);
+}
+
+/**
+ * Work out a review's tags.
+ *
+ * @param reviewText - The review text (null for rating-only reviews)
+ * @param analysis - The review's sentiment analysis
+ * @param organizationTags - The organization's own tags
+ * @returns Tag slugs with where each came from
+ */
+export function extractReviewTags(
+  reviewText: string | null,
+  analysis: Pick<SentimentAnalysis, "aspects">,
+  organizationTags: OrganizationTagDefinition[],
+): Array<Pick<ReviewTagInsert, "tag" | "source">> {
+  const tags = new Map<string, "aspect" | "organization">();
+  for (const { aspect } of analysis.aspects) {
+    tags.set(aspect, "aspect");
+  }
+
+  const text = (reviewText ?? "").toLowerCase();
+  if (text) {
+    for (const orgTag of organizationTags) {
+      if (tags.has(orgTag.tag)) continue;
+      if (orgTag.keywords.some((keyword) => containsKeyword(text, keyword))) {
+        tags.set(orgTag.tag, "organization");
+      }
+    }
+  }
+
+  return [...tags].map(([tag, source]) => ({ tag, source }));
+}
+
+/**
+ * Replace the tags of new or edited reviews.
+ *
+ * @param supabase - Supabase client used to read the organization's tags and write review tags
+ * @param organizationId - Organization the reviews belong to
+ * @param reviews - The reviews to tag
+ * @param analyses - Sentiment analysis of each review, in the same order
+ * @returns An error message if the tags could not be saved
+ */
+export async function tagReviews(
+  supabase: SupabaseClient<Database>,
+  organizationId: string,
+  reviews: ReviewToAnalyze[],
+  analyses: SentimentAnalysis[],
+): Promise<{ error: string | null }> {
+  if (reviews.length === 0) {
+    return { error: null };
+  }
+
+  const { data: organizationTags, error: tagsError } = await supabase
+    .from("organization_tags")
+    .select("tag, label, keywords")
+    .eq("organization_id", organizationId);
+
+  if (tagsError) {
+    return { error: tagsError.message };
+  }
+
+  const rows: ReviewTagInsert[] = reviews.flatMap((review, index) =>
+    extractReviewTags(
+      review.review_text,
+      analyses[index] ?? { aspects: [] },
+      organizationTags ?? [],
+    ).map((tag) => ({ review_id: review.id, ...tag })),
+  );
+
+  // Edited reviews may no longer mention what they were tagged with
+  const { error: deleteError } = await supabase
+    .from("review_tags")
+    .delete()
+    .in(
+      "review_id",
+      reviews.map((review) => review.id),
+    );
+
+  if (deleteError) {
+    return { error: deleteError.message };
+  }
+
+  if (rows.length === 0) {
+    return { error: null };
+  }
+
+  const { error: insertError } = await supabase
+    .from("review_tags")
+    .insert(rows);
+
+  return { error: insertError?.message ?? null };
+}
@@ -11,6 +11,16 @@ export type Review = Database["public"]["Tables"]["reviews"]["Row"];
 export type ReviewInsert = Database["public"]["Tables"]["reviews"]["Insert"];
 export type ReviewUpdate = Database["public"]["Tables"]["reviews"]["Update"];
 
+// Review Revision types
+export type ReviewRevision =
+  Database["public"]["Tables"]["review_revisions"]["Row"];
+export type ReviewRevisionInsert =
+  Database["public"]["Tables"]["review_revisions"]["Insert"];
+
+// Review Tag types
+export type ReviewTagInsert =
+  Database["public"]["Tables"]["review_tags"]["Insert"];
+
 // Voice Profile types
 export type VoiceProfile =
   Database["public"]["Tables"]["voice_profiles"]["Row"];
@@ -19,6 +29,18 @@ export type VoiceProfileInsert =
 export type VoiceProfileUpdate =
   Database["public"]["Tables"]["voice_profiles"]["Update"];
 
+// Voice Profile Suggestion types
+export type VoiceProfileSuggestion =
+  Database["public"]["Tables"]["voice_profile_suggestions"]["Row"];
+export type VoiceProfileSuggestionInsert =
+  Database["public"]["Tables"]["voice_profile_suggestions"]["Insert"];
+
+// Business Fact types
+export type BusinessFact =
+  Database["public"]["Tables"]["business_facts"]["Row"];
+export type BusinessFactUpdate =
+  Database["public"]["Tables"]["business_facts"]["Update"];
+
 // Location types
 export type Location = Database["public"]["Tables"]["locations"]["Row"];
 export type LocationInsert =
@@ -26,6 +48,14 @@ export type LocationInsert =
 export type LocationUpdate =
   Database["public"]["Tables"]["locations"]["Update"];
 
+// Location Backfill types
+export type LocationBackfill =
+  Database["public"]["Tables"]["location_backfills"]["Row"];
+
+// Location Poll State types
+export type LocationPollState =
+  Database["public"]["Tables"]["location_poll_state"]["Row"];
+
 // User types
 export type User = Database["public"]["Tables"]["users"]["Row"];
 export type UserInsert = Database["public"]["Tables"]["users"]["Insert"];
@@ -38,9 +68,30 @@ export type OrganizationInsert =
 export type OrganizationUpdate =
   Database["public"]["Tables"]["organizations"]["Update"];
 
+// Organization Alert types
+export type OrganizationAlert =
+  Database["public"]["Tables"]["organization_alerts"]["Row"];
+
+// Organization Tag types
+export type OrganizationTag =
+  Database["public"]["Tables"]["organization_tags"]["Row"];
+
+// Prompt Experiment types
+export type PromptExperiment =
+  Database["public"]["Tables"]["prompt_experiments"]["Row"];
+
 // Response types
 export type Response = Database["public"]["Tables"]["responses"]["Row"];
 export type ResponseInsert =
   Database["public"]["Tables"]["responses"]["Insert"];
 export type ResponseUpdate =
   Database["public"]["Tables"]["responses"]["Update"];
+
+// Response Version types
+export type ResponseVersion =
+  Database["public"]["Tables"]["response_versions"]["Row"];
+export type ResponseVersionInsert =
+  Database["public"]["Tables"]["response_versions"]["Insert"];
+
+// AI Usage types
+export type AIUsageInsert = Database["public"]["Tables"]["ai_usage"]["Insert"];
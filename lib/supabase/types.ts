@@ -14,6 +14,123 @@ export type Database = {
   };
   public: {
     Tables: {
+      ai_usage: {
+        Row: {
+          created_at: string;
+          id: string;
+          model: string | null;
+          organization_id: string;
+          task: string;
+          tokens_used: number;
+          user_id: string | null;
+        };
+        Insert: {
+          created_at?: string;
+          id?: string;
+          model?: string | null;
+          organization_id: string;
+          task: string;
+          tokens_used: number;
+          user_id?: string | null;
+        };
+        Update: {
+          created_at?: string;
+          id?: string;
+          model?: string | null;
+          organization_id?: string;
+          task?: string;
+          tokens_used?: number;
+          user_id?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "ai_usage_organization_id_fkey";
+            columns: ["organization_id"];
+            isOneToOne: false;
+            referencedRelation: "organizations";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "ai_usage_user_id_fkey";
+            columns: ["user_id"];
+            isOneToOne: false;
+            referencedRelation: "users";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      business_facts: {
+        Row: {
+          category: string;
+          content: string;
+          created_at: string;
+          id: string;
+          keywords: string[];
+          location_id: string | null;
+          organization_id: string;
+          title: string;
+          updated_at: string;
+        };
+        Insert: {
+          category?: string;
+          content: string;
+          created_at?: string;
+          id?: string;
+          keywords?: string[];
+          location_id?: string | null;
+          organization_id: string;
+          title: string;
+          updated_at?: string;
+        };
+        Update: {
+          category?: string;
+          content?: string;
+          created_at?: string;
+          id?: string;
+          keywords?: string[];
+          location_id?: string | null;
+          organization_id?: string;
+          title?: string;
+          updated_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "business_facts_location_id_fkey";
+            columns: ["location_id"];
+            isOneToOne: false;
+            referencedRelation: "locations";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "business_facts_organization_id_fkey";
+            columns: ["organization_id"];
+            isOneToOne: false;
+            referencedRelation: "organizations";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      cron_leases: {
+        Row: {
+          acquired_at: string;
+          expires_at: string;
+          name: string;
+          owner_id: string;
+        };
+        Insert: {
+          acquired_at?: string;
+          expires_at: string;
+          name: string;
+          owner_id: string;
+        };
+        Update: {
+          acquired_at?: string;
+          expires_at?: string;
+          name?: string;
+          owner_id?: string;
+        };
+        Relationships: [];
+      };
       cron_poll_state: {
         Row: {
           last_processed_at: string;
@@ -78,6 +195,7 @@ export type Database = {
           address: string | null;
           created_at: string | null;
           google_account_id: string;
+          google_connection_user_id: string | null;
           google_location_id: string;
           id: string;
           is_active: boolean | null;
@@ -89,6 +207,7 @@ export type Database = {
           address?: string | null;
           created_at?: string | null;
           google_account_id: string;
+          google_connection_user_id?: string | null;
           google_location_id: string;
           id?: string;
           is_active?: boolean | null;
@@ -100,6 +219,7 @@ export type Database = {
           address?: string | null;
           created_at?: string | null;
           google_account_id?: string;
+          google_connection_user_id?: string | null;
           google_location_id?: string;
           id?: string;
           is_active?: boolean | null;
@@ -108,6 +228,13 @@ export type Database = {
           voice_profile_id?: string | null;
         };
         Relationships: [
+          {
+            foreignKeyName: "locations_google_connection_user_id_fkey";
+            columns: ["google_connection_user_id"];
+            isOneToOne: false;
+            referencedRelation: "users";
+            referencedColumns: ["id"];
+          },
           {
             foreignKeyName: "locations_organization_id_fkey";
             columns: ["organization_id"];
@@ -124,6 +251,115 @@ export type Database = {
           },
         ];
       };
+      location_backfills: {
+        Row: {
+          completed_at: string | null;
+          created_at: string | null;
+          imported_count: number;
+          last_error: string | null;
+          location_id: string;
+          newest_review_date: string | null;
+          next_page_token: string | null;
+          started_at: string | null;
+          status: string;
+          target_count: number | null;
+          updated_at: string | null;
+        };
+        Insert: {
+          completed_at?: string | null;
+          created_at?: string | null;
+          imported_count?: number;
+          last_error?: string | null;
+          location_id: string;
+          newest_review_date?: string | null;
+          next_page_token?: string | null;
+          started_at?: string | null;
+          status?: string;
+          target_count?: number | null;
+          updated_at?: string | null;
+        };
+        Update: {
+          completed_at?: string | null;
+          created_at?: string | null;
+          imported_count?: number;
+          last_error?: string | null;
+          location_id?: string;
+          newest_review_date?: string | null;
+          next_page_token?: string | null;
+          started_at?: string | null;
+          status?: string;
+          target_count?: number | null;
+          updated_at?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "location_backfills_location_id_fkey";
+            columns: ["location_id"];
+            isOneToOne: true;
+            referencedRelation: "locations";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      location_poll_state: {
+        Row: {
+          consecutive_failures: number;
+          consecutive_not_found: number;
+          full_scan_started_at: string | null;
+          high_water_mark: string | null;
+          last_error: string | null;
+          last_error_code: number | null;
+          last_full_scan_at: string | null;
+          last_polled_at: string | null;
+          last_success_at: string | null;
+          location_id: string;
+          next_page_token: string | null;
+          next_retry_at: string | null;
+          pending_high_water_mark: string | null;
+          updated_at: string | null;
+        };
+        Insert: {
+          consecutive_failures?: number;
+          consecutive_not_found?: number;
+          full_scan_started_at?: string | null;
+          high_water_mark?: string | null;
+          last_error?: string | null;
+          last_error_code?: number | null;
+          last_full_scan_at?: string | null;
+          last_polled_at?: string | null;
+          last_success_at?: string | null;
+          location_id: string;
+          next_page_token?: string | null;
+          next_retry_at?: string | null;
+          pending_high_water_mark?: string | null;
+          updated_at?: string | null;
+        };
+        Update: {
+          consecutive_failures?: number;
+          consecutive_not_found?: number;
+          full_scan_started_at?: string | null;
+          high_water_mark?: string | null;
+          last_error?: string | null;
+          last_error_code?: number | null;
+          last_full_scan_at?: string | null;
+          last_polled_at?: string | null;
+          last_success_at?: string | null;
+          location_id?: string;
+          next_page_token?: string | null;
+          next_retry_at?: string | null;
+          pending_high_water_mark?: string | null;
+          updated_at?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "location_poll_state_location_id_fkey";
+            columns: ["location_id"];
+            isOneToOne: true;
+            referencedRelation: "locations";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
       notification_preferences: {
         Row: {
           created_at: string | null;
@@ -145,9 +381,77 @@ export type Database = {
         };
         Relationships: [];
       };
+      organization_alerts: {
+        Row: {
+          id: string;
+          message: string;
+          organization_id: string;
+          raised_at: string;
+          type: string;
+        };
+        Insert: {
+          id?: string;
+          message: string;
+          organization_id: string;
+          raised_at?: string;
+          type: string;
+        };
+        Update: {
+          id?: string;
+          message?: string;
+          organization_id?: string;
+          raised_at?: string;
+          type?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "organization_alerts_organization_id_fkey";
+            columns: ["organization_id"];
+            isOneToOne: false;
+            referencedRelation: "organizations";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      organization_tags: {
+        Row: {
+          created_at: string | null;
+          id: string;
+          keywords: string[];
+          label: string;
+          organization_id: string;
+          tag: string;
+        };
+        Insert: {
+          created_at?: string | null;
+          id?: string;
+          keywords?: string[];
+          label: string;
+          organization_id: string;
+          tag: string;
+        };
+        Update: {
+          created_at?: string | null;
+          id?: string;
+          keywords?: string[];
+          label?: string;
+          organization_id?: string;
+          tag?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "organization_tags_organization_id_fkey";
+            columns: ["organization_id"];
+            isOneToOne: false;
+            referencedRelation: "organizations";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
       organizations: {
         Row: {
           created_at: string | null;
+          edits_learned_at: string | null;
           id: string;
           name: string;
           plan_tier: string | null;
@@ -157,6 +461,7 @@ export type Database = {
         };
         Insert: {
           created_at?: string | null;
+          edits_learned_at?: string | null;
           id?: string;
           name: string;
           plan_tier?: string | null;
@@ -166,6 +471,7 @@ export type Database = {
         };
         Update: {
           created_at?: string | null;
+          edits_learned_at?: string | null;
           id?: string;
           name?: string;
           plan_tier?: string | null;
@@ -175,15 +481,128 @@ export type Database = {
         };
         Relationships: [];
       };
+      prompt_experiments: {
+        Row: {
+          assignment_unit: string;
+          created_at: string;
+          ended_at: string | null;
+          id: string;
+          name: string;
+          started_at: string;
+          status: string;
+          variants: Json;
+        };
+        Insert: {
+          assignment_unit: string;
+          created_at?: string;
+          ended_at?: string | null;
+          id?: string;
+          name: string;
+          started_at?: string;
+          status?: string;
+          variants: Json;
+        };
+        Update: {
+          assignment_unit?: string;
+          created_at?: string;
+          ended_at?: string | null;
+          id?: string;
+          name?: string;
+          started_at?: string;
+          status?: string;
+          variants?: Json;
+        };
+        Relationships: [];
+      };
+      response_versions: {
+        Row: {
+          created_at: string | null;
+          created_by: string | null;
+          guidance: string | null;
+          id: string;
+          kind: string;
+          prompt_version: string | null;
+          response_id: string;
+          review_id: string;
+          source_version_id: string | null;
+          text: string;
+          tokens_used: number | null;
+          variant_style: string | null;
+        };
+        Insert: {
+          created_at?: string | null;
+          created_by?: string | null;
+          guidance?: string | null;
+          id?: string;
+          kind: string;
+          prompt_version?: string | null;
+          response_id: string;
+          review_id: string;
+          source_version_id?: string | null;
+          text: string;
+          tokens_used?: number | null;
+          variant_style?: string | null;
+        };
+        Update: {
+          created_at?: string | null;
+          created_by?: string | null;
+          guidance?: string | null;
+          id?: string;
+          kind?: string;
+          prompt_version?: string | null;
+          response_id?: string;
+          review_id?: string;
+          source_version_id?: string | null;
+          text?: string;
+          tokens_used?: number | null;
+          variant_style?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "response_versions_created_by_fkey";
+            columns: ["created_by"];
+            isOneToOne: false;
+            referencedRelation: "users";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "response_versions_response_id_fkey";
+            columns: ["response_id"];
+            isOneToOne: false;
+            referencedRelation: "responses";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "response_versions_source_version_id_fkey";
+            columns: ["source_version_id"];
+            isOneToOne: false;
+            referencedRelation: "response_versions";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "response_versions_review_id_fkey";
+            columns: ["review_id"];
+            isOneToOne: false;
+            referencedRelation: "reviews";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
       responses: {
         Row: {
           created_at: string | null;
           edited_text: string | null;
           final_text: string | null;
           generated_text: string | null;
+          google_reply_text: string | null;
+          google_reply_updated_at: string | null;
           id: string;
+          prompt_experiment_id: string | null;
+          prompt_version: string | null;
           published_at: string | null;
+          review_changed_at: string | null;
           review_id: string | null;
+          source: string;
           status: string | null;
           tokens_used: number | null;
         };
@@ -192,9 +611,15 @@ export type Database = {
           edited_text?: string | null;
           final_text?: string | null;
           generated_text?: string | null;
+          google_reply_text?: string | null;
+          google_reply_updated_at?: string | null;
           id?: string;
+          prompt_experiment_id?: string | null;
+          prompt_version?: string | null;
           published_at?: string | null;
+          review_changed_at?: string | null;
           review_id?: string | null;
+          source?: string;
           status?: string | null;
           tokens_used?: number | null;
         };
@@ -203,13 +628,26 @@ export type Database = {
           edited_text?: string | null;
           final_text?: string | null;
           generated_text?: string | null;
+          google_reply_text?: string | null;
+          google_reply_updated_at?: string | null;
           id?: string;
+          prompt_experiment_id?: string | null;
+          prompt_version?: string | null;
           published_at?: string | null;
+          review_changed_at?: string | null;
           review_id?: string | null;
+          source?: string;
           status?: string | null;
           tokens_used?: number | null;
         };
         Relationships: [
+          {
+            foreignKeyName: "responses_prompt_experiment_id_fkey";
+            columns: ["prompt_experiment_id"];
+            isOneToOne: false;
+            referencedRelation: "prompt_experiments";
+            referencedColumns: ["id"];
+          },
           {
             foreignKeyName: "responses_review_id_fkey";
             columns: ["review_id"];
@@ -255,12 +693,88 @@ export type Database = {
         };
         Relationships: [];
       };
+      review_revisions: {
+        Row: {
+          change_type: string;
+          detected_at: string | null;
+          id: string;
+          new_rating: number | null;
+          new_text: string | null;
+          old_rating: number | null;
+          old_text: string | null;
+          review_id: string;
+        };
+        Insert: {
+          change_type: string;
+          detected_at?: string | null;
+          id?: string;
+          new_rating?: number | null;
+          new_text?: string | null;
+          old_rating?: number | null;
+          old_text?: string | null;
+          review_id: string;
+        };
+        Update: {
+          change_type?: string;
+          detected_at?: string | null;
+          id?: string;
+          new_rating?: number | null;
+          new_text?: string | null;
+          old_rating?: number | null;
+          old_text?: string | null;
+          review_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "review_revisions_review_id_fkey";
+            columns: ["review_id"];
+            isOneToOne: false;
+            referencedRelation: "reviews";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      review_tags: {
+        Row: {
+          created_at: string | null;
+          review_id: string;
+          source: string;
+          tag: string;
+        };
+        Insert: {
+          created_at?: string | null;
+          review_id: string;
+          source: string;
+          tag: string;
+        };
+        Update: {
+          created_at?: string | null;
+          review_id?: string;
+          source?: string;
+          tag?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "review_tags_review_id_fkey";
+            columns: ["review_id"];
+            isOneToOne: false;
+            referencedRelation: "reviews";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
       reviews: {
         Row: {
           created_at: string | null;
+          deleted_at: string | null;
+          escalated_at: string | null;
+          escalation_detail: string | null;
+          escalation_reason: string | null;
           external_review_id: string;
           has_response: boolean | null;
           id: string;
+          language: string | null;
+          last_seen_at: string | null;
           location_id: string | null;
           platform: string | null;
           rating: number | null;
@@ -269,13 +783,23 @@ export type Database = {
           reviewer_name: string | null;
           reviewer_photo_url: string | null;
           sentiment: string | null;
+          sentiment_analyzed_at: string | null;
+          sentiment_aspects: Json;
+          sentiment_confidence: number | null;
+          sentiment_source: string | null;
           status: string | null;
         };
         Insert: {
           created_at?: string | null;
+          deleted_at?: string | null;
+          escalated_at?: string | null;
+          escalation_detail?: string | null;
+          escalation_reason?: string | null;
           external_review_id: string;
           has_response?: boolean | null;
           id?: string;
+          language?: string | null;
+          last_seen_at?: string | null;
           location_id?: string | null;
           platform?: string | null;
           rating?: number | null;
@@ -284,13 +808,23 @@ export type Database = {
           reviewer_name?: string | null;
           reviewer_photo_url?: string | null;
           sentiment?: string | null;
+          sentiment_analyzed_at?: string | null;
+          sentiment_aspects?: Json;
+          sentiment_confidence?: number | null;
+          sentiment_source?: string | null;
           status?: string | null;
         };
         Update: {
           created_at?: string | null;
+          deleted_at?: string | null;
+          escalated_at?: string | null;
+          escalation_detail?: string | null;
+          escalation_reason?: string | null;
           external_review_id?: string;
           has_response?: boolean | null;
           id?: string;
+          language?: string | null;
+          last_seen_at?: string | null;
           location_id?: string | null;
           platform?: string | null;
           rating?: number | null;
@@ -299,6 +833,10 @@ export type Database = {
           reviewer_name?: string | null;
           reviewer_photo_url?: string | null;
           sentiment?: string | null;
+          sentiment_analyzed_at?: string | null;
+          sentiment_aspects?: Json;
+          sentiment_confidence?: number | null;
+          sentiment_source?: string | null;
           status?: string | null;
         };
         Relationships: [
@@ -315,6 +853,8 @@ export type Database = {
         Row: {
           created_at: string | null;
           email: string;
+          google_access_token: string | null;
+          google_access_token_expires_at: string | null;
           google_refresh_token: string | null;
           id: string;
           name: string | null;
@@ -324,6 +864,8 @@ export type Database = {
         Insert: {
           created_at?: string | null;
           email: string;
+          google_access_token?: string | null;
+          google_access_token_expires_at?: string | null;
           google_refresh_token?: string | null;
           id: string;
           name?: string | null;
@@ -333,6 +875,8 @@ export type Database = {
         Update: {
           created_at?: string | null;
           email?: string;
+          google_access_token?: string | null;
+          google_access_token_expires_at?: string | null;
           google_refresh_token?: string | null;
           id?: string;
           name?: string | null;
@@ -349,11 +893,78 @@ export type Database = {
           },
         ];
       };
+      voice_profile_suggestions: {
+        Row: {
+          created_at: string;
+          decided_at: string | null;
+          decided_by: string | null;
+          detail: string | null;
+          evidence_count: number;
+          id: string;
+          kind: string;
+          organization_id: string;
+          source_response_id: string | null;
+          status: string;
+          value: string;
+        };
+        Insert: {
+          created_at?: string;
+          decided_at?: string | null;
+          decided_by?: string | null;
+          detail?: string | null;
+          evidence_count?: number;
+          id?: string;
+          kind: string;
+          organization_id: string;
+          source_response_id?: string | null;
+          status?: string;
+          value: string;
+        };
+        Update: {
+          created_at?: string;
+          decided_at?: string | null;
+          decided_by?: string | null;
+          detail?: string | null;
+          evidence_count?: number;
+          id?: string;
+          kind?: string;
+          organization_id?: string;
+          source_response_id?: string | null;
+          status?: string;
+          value?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "voice_profile_suggestions_decided_by_fkey";
+            columns: ["decided_by"];
+            isOneToOne: false;
+            referencedRelation: "users";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "voice_profile_suggestions_organization_id_fkey";
+            columns: ["organization_id"];
+            isOneToOne: false;
+            referencedRelation: "organizations";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "voice_profile_suggestions_source_response_id_fkey";
+            columns: ["source_response_id"];
+            isOneToOne: false;
+            referencedRelation: "responses";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
       voice_profiles: {
         Row: {
+          allowed_commitments: string[];
           created_at: string | null;
           example_responses: string[] | null;
+          guardrail_severities: Json;
           id: string;
+          language_overrides: Json;
           max_length: number | null;
           name: string | null;
           organization_id: string | null;
@@ -364,9 +975,12 @@ export type Database = {
           words_to_use: string[] | null;
         };
         Insert: {
+          allowed_commitments?: string[];
           created_at?: string | null;
           example_responses?: string[] | null;
+          guardrail_severities?: Json;
           id?: string;
+          language_overrides?: Json;
           max_length?: number | null;
           name?: string | null;
           organization_id?: string | null;
@@ -377,9 +991,12 @@ export type Database = {
           words_to_use?: string[] | null;
         };
         Update: {
+          allowed_commitments?: string[];
           created_at?: string | null;
           example_responses?: string[] | null;
+          guardrail_severities?: Json;
           id?: string;
+          language_overrides?: Json;
           max_length?: number | null;
           name?: string | null;
           organization_id?: string | null;
@@ -425,6 +1042,28 @@ export type Database = {
       [_ in never]: never;
     };
     Functions: {
+      acquire_cron_lease: {
+        Args: {
+          p_name: string;
+          p_owner_id: string;
+          p_ttl_seconds: number;
+        };
+        Returns: boolean;
+      };
+      ai_tokens_used_since: {
+        Args: {
+          p_organization_id: string;
+          p_since: string;
+        };
+        Returns: number;
+      };
+      release_cron_lease: {
+        Args: {
+          p_name: string;
+          p_owner_id: string;
+        };
+        Returns: boolean;
+      };
       upsert_response: {
         Args: {
           p_final_text: string;
@@ -584,22 +1223,37 @@ export const Constants = {
 // Re-export type aliases for convenience (these are defined in type-aliases.ts)
 // This allows existing imports from "./types" to continue working
 export type {
+  AIUsageInsert,
+  BusinessFact,
+  BusinessFactUpdate,
   Location,
+  LocationBackfill,
   LocationInsert,
+  LocationPollState,
   LocationUpdate,
   Organization,
+  OrganizationAlert,
   OrganizationInsert,
+  OrganizationTag,
   OrganizationUpdate,
+  PromptExperiment,
   Response,
   ResponseInsert,
   ResponseUpdate,
+  ResponseVersion,
+  ResponseVersionInsert,
   Review,
   ReviewInsert,
+  ReviewRevision,
+  ReviewRevisionInsert,
+  ReviewTagInsert,
   ReviewUpdate,
   User,
   UserInsert,
   UserUpdate,
   VoiceProfile,
   VoiceProfileInsert,
+  VoiceProfileSuggestion,
+  VoiceProfileSuggestionInsert,
   VoiceProfileUpdate,
 } from "./type-aliases";
@@ -0,0 +1,97 @@
+/**
+ * Utility functions for server-sent event (SSE) streams
+ */
+
+/**
+ * A parsed server-sent event
+ */
+export interface ServerSentEvent {
+  event: string;
+  data: string;
+}
+
+/**
+ * Encode one server-sent event with a JSON payload.
+ *
+ * @param event - The event name
+ * @param data - The payload, serialized as JSON
+ * @returns The event text, terminated by a blank line
+ */
+export function formatServerSentEvent(event: string, data: unknown): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+/**
+ * Parse one event block (the lines between blank lines).
+ *
+ * @param block - The raw event text
+ * @returns The event, or null for blocks with no data (comments, keep-alives)
+ */
+function parseEventBlock(block: string): ServerSentEvent | null {
+  let event = "message";
+  const dataLines: string[] = [];
+
+  for (const line of block.split("\n")) {
+    const separator = line.indexOf(":");
+    // Lines starting with ":" are comments
+    if (separator === 0) {
+      continue;
+    }
+    const field = separator === -1 ? line : line.slice(0, separator);
+    let value = separator === -1 ? "" : line.slice(separator + 1);
+    if (value.startsWith(" ")) {
+      value = value.slice(1);
+    }
+
+    if (field === "event") {
+      event = value;
+    } else if (field === "data") {
+      dataLines.push(value);
+    }
+  }
+
+  return dataLines.length > 0 ? { event, data: dataLines.join("\n") } : null;
+}
+
+/**
+ * Read server-sent events from a response body as they arrive.
+ *
+ * @param body - The response body stream
+ * @yields Each event with its name ("message" when unnamed) and raw data
+ */
+export async function* readServerSentEvents(
+  body: ReadableStream<Uint8Array>,
+): AsyncGenerator<ServerSentEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      buffer += decoder.decode(value, { stream: !done }).replace(/\r/g, "");
+
+      let boundary = buffer.indexOf("\n\n");
+      while (boundary !== -1) {
+        const event = parseEventBlock(buffer.slice(0, boundary));
+        buffer = buffer.slice(boundary + 2);
+        if (event) {
+          yield event;
+        }
+        boundary = buffer.indexOf("\n\n");
+      }
+
+      if (done) {
+        break;
+      }
+    }
+
+    // A final event without a trailing blank line
+    const event = parseEventBlock(buffer);
+    if (event) {
+      yield event;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
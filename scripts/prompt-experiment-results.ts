@@ -0,0 +1,121 @@
+#!/usr/bin/env npx tsx
+
+/**
+ * Prompt Experiment Results Script
+ *
+ * Compares the prompt versions in a prompt experiment: how many drafts each
+ * version produced, how many were published, and how many words were changed
+ * between draft and published text on average. The draft is the variant the
+ * owner picked when several were generated.
+ *
+ * ## Prerequisites
+ *
+ * Set environment variables:
+ * - SUPABASE_URL or NEXT_PUBLIC_SUPABASE_URL
+ * - SUPABASE_SERVICE_ROLE_KEY
+ *
+ * ## Usage
+ *
+ * ```bash
+ * # Results of the running experiment
+ * npx tsx scripts/prompt-experiment-results.ts
+ *
+ * # Results of a specific (possibly ended) experiment
+ * npx tsx scripts/prompt-experiment-results.ts <experiment-id>
+ * ```
+ *
+ * ## Running an Experiment
+ *
+ * Experiments are created and ended in SQL with the service role:
+ *
+ * ```sql
+ * INSERT INTO prompt_experiments (name, assignment_unit, variants)
+ * VALUES ('Specific openings', 'organization',
+ *   '[{"version": "v1", "weight": 1}, {"version": "v2", "weight": 1}]');
+ *
+ * UPDATE prompt_experiments SET status = 'ended', ended_at = now()
+ * WHERE status = 'running';
+ * ```
+ *
+ * @module scripts/prompt-experiment-results
+ */
+
+import { createClient } from "@supabase/supabase-js";
+import { loadPromptExperimentResults } from "../lib/reviews/prompt-experiments";
+import type { Database } from "../lib/supabase/types";
+
+/**
+ * Main entry point
+ */
+async function main(): Promise<void> {
+  console.log("🧪 Prompt Experiment Results");
+  console.log("=".repeat(50));
+
+  const supabaseUrl =
+    process.env.SUPABASE_URL || process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+  if (!supabaseUrl || !supabaseServiceKey) {
+    console.error(
+      "💥 Missing required environment variables: SUPABASE_URL (or NEXT_PUBLIC_SUPABASE_URL) and SUPABASE_SERVICE_ROLE_KEY",
+    );
+    process.exit(1);
+  }
+
+  // Create Supabase client with service role key (bypasses RLS)
+  const supabase = createClient<Database>(supabaseUrl, supabaseServiceKey);
+
+  const experimentId = process.argv[2];
+  const query = supabase
+    .from("prompt_experiments")
+    .select("id, name, assignment_unit, status, started_at, ended_at");
+  const { data: experiment, error: experimentError } = experimentId
+    ? await query.eq("id", experimentId).maybeSingle()
+    : await query.eq("status", "running").maybeSingle();
+
+  if (experimentError) {
+    console.error(`💥 Failed to load experiment: ${experimentError.message}`);
+    process.exit(1);
+  }
+  if (!experiment) {
+    console.log(
+      experimentId
+        ? `❌ Experiment ${experimentId} not found`
+        : "❌ No experiment is running",
+    );
+    process.exit(1);
+  }
+
+  console.log(`   ${experiment.name} (${experiment.id})`);
+  console.log(
+    `   Assigned by ${experiment.assignment_unit}, started ${experiment.started_at}${experiment.ended_at ? `, ended ${experiment.ended_at}` : ""}\n`,
+  );
+
+  const { results, error } = await loadPromptExperimentResults(
+    supabase,
+    experiment.id,
+  );
+  if (error) {
+    console.error(`💥 Failed to load responses: ${error}`);
+    process.exit(1);
+  }
+  if (results.length === 0) {
+    console.log("📭 No drafts generated yet");
+    return;
+  }
+
+  for (const result of results) {
+    const editDistance =
+      result.averageEditDistance === null
+        ? "n/a"
+        : `${result.averageEditDistance.toFixed(1)} words`;
+    console.log(`📊 ${result.promptVersion}`);
+    console.log(`   Drafts: ${result.drafts}`);
+    console.log(
+      `   Published: ${result.published} (${(result.publishRate * 100).toFixed(1)}%)`,
+    );
+    console.log(`   Average edit distance: ${editDistance}`);
+  }
+}
+
+main();
@@ -0,0 +1,32 @@
+-- Migration: Add location_poll_state table for paginated review polling
+-- Tracks a per-location high-water mark and pagination cursor so the poll-reviews cron
+-- can follow Google's nextPageToken across invocations without losing older reviews
+--
+-- UP MIGRATION: Create location_poll_state table
+
+CREATE TABLE IF NOT EXISTS location_poll_state (
+    location_id UUID PRIMARY KEY REFERENCES locations(id) ON DELETE CASCADE,
+    -- Newest review_date that has been fully synced (all newer pages fetched)
+    high_water_mark TIMESTAMPTZ,
+    -- Newest review_date seen during an unfinished pagination pass.
+    -- Promoted to high_water_mark once the pass reaches already-stored reviews.
+    pending_high_water_mark TIMESTAMPTZ,
+    -- Google nextPageToken to resume an unfinished pass from (NULL when caught up)
+    next_page_token TEXT,
+    last_polled_at TIMESTAMPTZ,
+    updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+-- Create trigger to auto-update updated_at on row modifications
+-- Reuses update_updated_at_column() function from migration 002
+DROP TRIGGER IF EXISTS update_location_poll_state_updated_at ON location_poll_state;
+CREATE TRIGGER update_location_poll_state_updated_at
+    BEFORE UPDATE ON location_poll_state
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Note: No RLS needed - this table is only accessed by service role/admin client
+-- The cron job uses createAdminSupabaseClient() which bypasses RLS
+
+-- DOWN MIGRATION (for rollback):
+-- DROP TABLE IF EXISTS location_poll_state;
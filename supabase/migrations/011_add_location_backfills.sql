@@ -0,0 +1,70 @@
+-- Migration: Add location_backfills table for first-sync review imports
+-- Records a resumable historical import per location so newly synced locations
+-- get up to N past reviews (N depends on plan tier) without waiting for the cron
+--
+-- UP MIGRATION: Create location_backfills table
+
+CREATE TABLE IF NOT EXISTS location_backfills (
+    location_id UUID PRIMARY KEY REFERENCES locations(id) ON DELETE CASCADE,
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'running', 'completed', 'failed')),
+    -- Maximum reviews to import (set from plan tier when the import starts)
+    target_count INTEGER,
+    imported_count INTEGER NOT NULL DEFAULT 0,
+    -- Google nextPageToken to resume from after a timeout
+    next_page_token TEXT,
+    -- Newest review_date imported; becomes the poller's high-water mark on completion
+    newest_review_date TIMESTAMPTZ,
+    last_error TEXT,
+    started_at TIMESTAMPTZ,
+    completed_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ DEFAULT now(),
+    updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+-- Create trigger to auto-update updated_at on row modifications
+-- Reuses update_updated_at_column() function from migration 002
+DROP TRIGGER IF EXISTS update_location_backfills_updated_at ON location_backfills;
+CREATE TRIGGER update_location_backfills_updated_at
+    BEFORE UPDATE ON location_backfills
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Enable RLS on location_backfills
+ALTER TABLE location_backfills ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for location_backfills
+-- Users can view backfills for their organization's locations
+CREATE POLICY "Users can view backfills for their organization's locations"
+    ON location_backfills FOR SELECT
+    USING (
+        location_id IN (
+            SELECT l.id FROM locations l
+            JOIN users u ON l.organization_id = u.organization_id
+            WHERE u.id = auth.uid()
+        )
+    );
+
+-- Users can create backfills for their organization's locations
+CREATE POLICY "Users can insert backfills for their organization's locations"
+    ON location_backfills FOR INSERT
+    WITH CHECK (
+        location_id IN (
+            SELECT l.id FROM locations l
+            JOIN users u ON l.organization_id = u.organization_id
+            WHERE u.id = auth.uid()
+        )
+    );
+
+-- Users can advance backfills for their organization's locations
+CREATE POLICY "Users can update backfills for their organization's locations"
+    ON location_backfills FOR UPDATE
+    USING (
+        location_id IN (
+            SELECT l.id FROM locations l
+            JOIN users u ON l.organization_id = u.organization_id
+            WHERE u.id = auth.uid()
+        )
+    );
+
+-- DOWN MIGRATION (for rollback):
+-- DROP TABLE IF EXISTS location_backfills;
@@ -0,0 +1,57 @@
+-- Migration: Track edited and deleted reviews
+-- Records a review_revisions history when polling finds a review's rating or text
+-- changed on Google, marks reviews missing from a complete fetch as deleted, and
+-- flags responses whose review changed after they were drafted or published
+--
+-- UP MIGRATION: Create review_revisions table and change-tracking columns
+
+CREATE TABLE IF NOT EXISTS review_revisions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    review_id UUID NOT NULL REFERENCES reviews(id) ON DELETE CASCADE,
+    change_type TEXT NOT NULL CHECK (change_type IN ('edited', 'deleted')),
+    old_rating INTEGER,
+    new_rating INTEGER, -- NULL for deletions
+    old_text TEXT,
+    new_text TEXT, -- NULL for deletions
+    detected_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_review_revisions_review ON review_revisions(review_id, detected_at DESC);
+
+-- When polling last saw the review on Google (used to detect deletions after a complete fetch)
+ALTER TABLE reviews ADD COLUMN IF NOT EXISTS last_seen_at TIMESTAMPTZ;
+-- When the review was found missing from Google (status is set to 'deleted')
+ALTER TABLE reviews ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMPTZ;
+
+-- Set when the review is edited or deleted after this response was drafted or published
+ALTER TABLE responses ADD COLUMN IF NOT EXISTS review_changed_at TIMESTAMPTZ;
+
+-- Complete fetches ignore the high-water mark so every review on Google is seen.
+-- full_scan_started_at is set while one is in progress (possibly across cron runs).
+ALTER TABLE location_poll_state ADD COLUMN IF NOT EXISTS full_scan_started_at TIMESTAMPTZ;
+ALTER TABLE location_poll_state ADD COLUMN IF NOT EXISTS last_full_scan_at TIMESTAMPTZ;
+
+-- Enable RLS on review_revisions
+ALTER TABLE review_revisions ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for review_revisions
+-- Users can view revision history for their organization's reviews
+-- (rows are written by the poll-reviews cron using the service role)
+CREATE POLICY "Users can view revisions for their organization's reviews"
+    ON review_revisions FOR SELECT
+    USING (
+        review_id IN (
+            SELECT r.id FROM reviews r
+            JOIN locations l ON r.location_id = l.id
+            JOIN users u ON l.organization_id = u.organization_id
+            WHERE u.id = auth.uid()
+        )
+    );
+
+-- DOWN MIGRATION (for rollback):
+-- DROP TABLE IF EXISTS review_revisions;
+-- ALTER TABLE reviews DROP COLUMN IF EXISTS last_seen_at;
+-- ALTER TABLE reviews DROP COLUMN IF EXISTS deleted_at;
+-- ALTER TABLE responses DROP COLUMN IF EXISTS review_changed_at;
+-- ALTER TABLE location_poll_state DROP COLUMN IF EXISTS full_scan_started_at;
+-- ALTER TABLE location_poll_state DROP COLUMN IF EXISTS last_full_scan_at;
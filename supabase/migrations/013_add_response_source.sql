@@ -0,0 +1,88 @@
+-- Migration: Track replies published outside Replily
+-- Polling now saves the owner reply that is live on Google for each review. Replies written
+-- directly in Google are stored as external responses, and replies published from Replily keep
+-- the Google copy alongside final_text so edits made on Google show up as drift
+--
+-- UP MIGRATION: Add response source and Google reply columns
+
+-- Where the reply was written: 'replily' (published from the app) or 'external' (directly on Google)
+ALTER TABLE responses ADD COLUMN IF NOT EXISTS source TEXT NOT NULL DEFAULT 'replily'
+    CHECK (source IN ('replily', 'external'));
+-- The reply as it currently appears on Google, and Google's updateTime for it
+ALTER TABLE responses ADD COLUMN IF NOT EXISTS google_reply_text TEXT;
+ALTER TABLE responses ADD COLUMN IF NOT EXISTS google_reply_updated_at TIMESTAMPTZ;
+
+-- Publishing from Replily takes over the response (even if it was an external reply) and
+-- records the published text as the reply live on Google
+CREATE OR REPLACE FUNCTION upsert_response(
+    p_review_id UUID,
+    p_generated_text TEXT, -- Can be null for direct publishes
+    p_final_text TEXT,
+    p_status TEXT,
+    p_published_at TIMESTAMPTZ
+) RETURNS TABLE (
+    id UUID,
+    review_id UUID,
+    generated_text TEXT,
+    edited_text TEXT,
+    final_text TEXT,
+    status TEXT,
+    published_at TIMESTAMPTZ,
+    tokens_used INTEGER,
+    created_at TIMESTAMPTZ
+) AS $$
+DECLARE
+    v_new_generated_text TEXT;
+    v_edited_text TEXT;
+BEGIN
+    -- Set values for insert case only
+    -- For updates, ON CONFLICT block handles generated_text preservation and edited_text computation
+    v_new_generated_text := p_generated_text; -- Can be null for direct publishes
+    v_edited_text := NULL; -- Always NULL for inserts
+
+    -- Upsert with ON CONFLICT to handle race conditions atomically
+    INSERT INTO responses (
+        review_id,
+        generated_text,
+        edited_text,
+        final_text,
+        status,
+        published_at,
+        source,
+        google_reply_text,
+        google_reply_updated_at
+    ) VALUES (
+        p_review_id,
+        v_new_generated_text,
+        v_edited_text,
+        p_final_text,
+        p_status,
+        p_published_at,
+        'replily',
+        p_final_text,
+        p_published_at
+    )
+    ON CONFLICT (review_id) DO UPDATE SET
+        -- Preserve generated_text from existing record (don't update it)
+        -- Recalculate edited_text based on existing generated_text vs new final_text
+        -- Handle case where existing generated_text might be null
+        edited_text = CASE
+            WHEN responses.generated_text IS NULL THEN NULL -- No generated_text means no edit comparison
+            WHEN responses.generated_text <> p_final_text THEN p_final_text
+            ELSE NULL
+        END,
+        final_text = EXCLUDED.final_text,
+        status = EXCLUDED.status,
+        published_at = EXCLUDED.published_at,
+        source = EXCLUDED.source,
+        google_reply_text = EXCLUDED.google_reply_text,
+        google_reply_updated_at = EXCLUDED.google_reply_updated_at
+    RETURNING *;
+END;
+$$ LANGUAGE plpgsql;
+
+-- DOWN MIGRATION (for rollback):
+-- Re-run the upsert_response definition from 008_make_generated_text_nullable.sql, then:
+-- ALTER TABLE responses DROP COLUMN IF EXISTS source;
+-- ALTER TABLE responses DROP COLUMN IF EXISTS google_reply_text;
+-- ALTER TABLE responses DROP COLUMN IF EXISTS google_reply_updated_at;
@@ -0,0 +1,63 @@
+-- Migration: Add cron_leases table so only one invocation of a cron job runs at a time
+-- Overlapping poll-reviews invocations used to poll the same locations twice. Each run now
+-- takes a named lease (owner id + expiry) before doing any work and releases it when done;
+-- a lease left behind by a crashed run expires on its own
+--
+-- UP MIGRATION: Create cron_leases table and acquire/release functions
+
+CREATE TABLE IF NOT EXISTS cron_leases (
+    name TEXT PRIMARY KEY, -- Cron job name, e.g. 'poll-reviews'
+    owner_id UUID NOT NULL, -- Random id generated by the invocation holding the lease
+    acquired_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    expires_at TIMESTAMPTZ NOT NULL
+);
+
+-- Note: No RLS policies - this table is only accessed by service role/admin client
+ALTER TABLE cron_leases ENABLE ROW LEVEL SECURITY;
+
+-- Take the lease if it is free, expired, or already held by this owner.
+-- INSERT ... ON CONFLICT locks the lease row, so of two concurrent callers exactly one
+-- gets a row back; the other sees the winner's unexpired lease and gets false.
+CREATE OR REPLACE FUNCTION acquire_cron_lease(
+    p_name TEXT,
+    p_owner_id UUID,
+    p_ttl_seconds INTEGER
+) RETURNS BOOLEAN AS $$
+DECLARE
+    v_owner_id UUID;
+BEGIN
+    INSERT INTO cron_leases (name, owner_id, acquired_at, expires_at)
+    VALUES (p_name, p_owner_id, now(), now() + make_interval(secs => p_ttl_seconds))
+    ON CONFLICT (name) DO UPDATE SET
+        owner_id = EXCLUDED.owner_id,
+        acquired_at = EXCLUDED.acquired_at,
+        expires_at = EXCLUDED.expires_at
+    WHERE cron_leases.expires_at <= now()
+        OR cron_leases.owner_id = EXCLUDED.owner_id
+    RETURNING owner_id INTO v_owner_id;
+
+    RETURN v_owner_id IS NOT NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Release the lease only if this owner still holds it (it may have expired and been taken over)
+CREATE OR REPLACE FUNCTION release_cron_lease(
+    p_name TEXT,
+    p_owner_id UUID
+) RETURNS BOOLEAN AS $$
+BEGIN
+    DELETE FROM cron_leases
+    WHERE name = p_name AND owner_id = p_owner_id;
+
+    RETURN FOUND;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Only the service role runs cron jobs
+REVOKE EXECUTE ON FUNCTION acquire_cron_lease(TEXT, UUID, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION release_cron_lease(TEXT, UUID) FROM PUBLIC, anon, authenticated;
+
+-- DOWN MIGRATION (for rollback):
+-- DROP FUNCTION IF EXISTS acquire_cron_lease(TEXT, UUID, INTEGER);
+-- DROP FUNCTION IF EXISTS release_cron_lease(TEXT, UUID);
+-- DROP TABLE IF EXISTS cron_leases;
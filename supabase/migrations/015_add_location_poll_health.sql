@@ -0,0 +1,41 @@
+-- Migration: Track per-location polling health
+-- Records consecutive fetch failures, the last Google error, and when the location may be
+-- polled again, so failing locations back off exponentially instead of failing every run.
+-- Locations that keep returning 404 are deactivated.
+--
+-- UP MIGRATION: Add health columns to location_poll_state
+
+ALTER TABLE location_poll_state ADD COLUMN IF NOT EXISTS consecutive_failures INTEGER NOT NULL DEFAULT 0;
+-- Consecutive failures that were all 404 (drives automatic deactivation)
+ALTER TABLE location_poll_state ADD COLUMN IF NOT EXISTS consecutive_not_found INTEGER NOT NULL DEFAULT 0;
+-- GoogleAPIError status of the last failure (NULL for non-HTTP errors or after a success)
+ALTER TABLE location_poll_state ADD COLUMN IF NOT EXISTS last_error_code INTEGER;
+ALTER TABLE location_poll_state ADD COLUMN IF NOT EXISTS last_error TEXT;
+-- Backed-off locations are not scheduled before this time
+ALTER TABLE location_poll_state ADD COLUMN IF NOT EXISTS next_retry_at TIMESTAMPTZ;
+ALTER TABLE location_poll_state ADD COLUMN IF NOT EXISTS last_success_at TIMESTAMPTZ;
+
+-- Let users see sync health for their organization's locations
+-- (rows are written by the poll-reviews cron using the service role)
+ALTER TABLE location_poll_state ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view poll state for their organization's locations" ON location_poll_state;
+CREATE POLICY "Users can view poll state for their organization's locations"
+    ON location_poll_state FOR SELECT
+    USING (
+        location_id IN (
+            SELECT l.id FROM locations l
+            JOIN users u ON l.organization_id = u.organization_id
+            WHERE u.id = auth.uid()
+        )
+    );
+
+-- DOWN MIGRATION (for rollback):
+-- DROP POLICY IF EXISTS "Users can view poll state for their organization's locations" ON location_poll_state;
+-- ALTER TABLE location_poll_state DISABLE ROW LEVEL SECURITY;
+-- ALTER TABLE location_poll_state DROP COLUMN IF EXISTS consecutive_failures;
+-- ALTER TABLE location_poll_state DROP COLUMN IF EXISTS consecutive_not_found;
+-- ALTER TABLE location_poll_state DROP COLUMN IF EXISTS last_error_code;
+-- ALTER TABLE location_poll_state DROP COLUMN IF EXISTS last_error;
+-- ALTER TABLE location_poll_state DROP COLUMN IF EXISTS next_retry_at;
+-- ALTER TABLE location_poll_state DROP COLUMN IF EXISTS last_success_at;
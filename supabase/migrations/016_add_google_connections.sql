@@ -0,0 +1,38 @@
+-- Migration: Track which user's Google connection polls each location
+-- Records the user whose refresh token last polled each location so the poller keeps using it,
+-- and adds organization-level alerts for problems that stop syncing for a whole organization
+-- (e.g. no user in the organization has a valid Google connection).
+--
+-- UP MIGRATION: Add locations.google_connection_user_id and organization_alerts table
+
+-- User whose Google connection granted access to the location (tried first when polling)
+ALTER TABLE locations ADD COLUMN IF NOT EXISTS google_connection_user_id UUID REFERENCES users(id) ON DELETE SET NULL;
+
+CREATE TABLE IF NOT EXISTS organization_alerts (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+    type TEXT NOT NULL CHECK (type IN ('google_connection')),
+    message TEXT NOT NULL,
+    raised_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    -- At most one open alert per type; the row is deleted when the problem is resolved
+    UNIQUE (organization_id, type)
+);
+
+-- Enable RLS on organization_alerts
+-- (rows are written by the poll-reviews cron using the service role)
+ALTER TABLE organization_alerts ENABLE ROW LEVEL SECURITY;
+
+-- Users can view alerts for their organization
+DROP POLICY IF EXISTS "Users can view alerts for their organization" ON organization_alerts;
+CREATE POLICY "Users can view alerts for their organization"
+    ON organization_alerts FOR SELECT
+    USING (
+        organization_id IN (
+            SELECT u.organization_id FROM users u
+            WHERE u.id = auth.uid()
+        )
+    );
+
+-- DOWN MIGRATION (for rollback):
+-- DROP TABLE IF EXISTS organization_alerts;
+-- ALTER TABLE locations DROP COLUMN IF EXISTS google_connection_user_id;
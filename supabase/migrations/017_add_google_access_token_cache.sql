@@ -0,0 +1,34 @@
+-- Migration: Cache Google access tokens per user
+-- Google access tokens last about an hour, so the latest one is stored (encrypted like the
+-- refresh token) with its expiry and reused by the cron and API routes until shortly before
+-- it expires, instead of calling Google's token endpoint on every request.
+--
+-- UP MIGRATION: Add access token cache columns to users
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS google_access_token TEXT;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS google_access_token_expires_at TIMESTAMPTZ;
+
+-- A cached access token belongs to the refresh token it was issued for: drop it whenever the
+-- refresh token is replaced (reconnect) or cleared (revoked or corrupted)
+CREATE OR REPLACE FUNCTION clear_google_access_token()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.google_refresh_token IS DISTINCT FROM OLD.google_refresh_token THEN
+        NEW.google_access_token = NULL;
+        NEW.google_access_token_expires_at = NULL;
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS clear_users_google_access_token ON users;
+CREATE TRIGGER clear_users_google_access_token
+    BEFORE UPDATE OF google_refresh_token ON users
+    FOR EACH ROW
+    EXECUTE FUNCTION clear_google_access_token();
+
+-- DOWN MIGRATION (for rollback):
+-- DROP TRIGGER IF EXISTS clear_users_google_access_token ON users;
+-- DROP FUNCTION IF EXISTS clear_google_access_token();
+-- ALTER TABLE users DROP COLUMN IF EXISTS google_access_token_expires_at;
+-- ALTER TABLE users DROP COLUMN IF EXISTS google_access_token;
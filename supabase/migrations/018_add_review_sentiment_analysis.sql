@@ -0,0 +1,27 @@
+-- Migration: Classify review sentiment from review text
+-- New reviews are classified by Claude (falling back to keyword matching when the AI is
+-- unavailable) instead of being labelled from the star rating alone. Reviews now also store how
+-- confident the label is, where it came from, and the sentiment toward each aspect mentioned
+-- (e.g. positive about staff, negative about parking). 'mixed' joins the sentiment labels.
+--
+-- UP MIGRATION: Add sentiment analysis columns to reviews
+
+-- 0.00-1.00; NULL for labels derived from the rating before this migration
+ALTER TABLE reviews ADD COLUMN IF NOT EXISTS sentiment_confidence NUMERIC(3, 2)
+    CHECK (sentiment_confidence >= 0 AND sentiment_confidence <= 1);
+-- 'ai' (Claude), 'keywords' (deterministic fallback), or 'rating' (labelled from stars before this migration)
+ALTER TABLE reviews ADD COLUMN IF NOT EXISTS sentiment_source TEXT
+    CHECK (sentiment_source IN ('ai', 'keywords', 'rating'));
+-- Array of { "aspect": "parking", "sentiment": "negative" }
+ALTER TABLE reviews ADD COLUMN IF NOT EXISTS sentiment_aspects JSONB NOT NULL DEFAULT '[]'::jsonb;
+ALTER TABLE reviews ADD COLUMN IF NOT EXISTS sentiment_analyzed_at TIMESTAMPTZ;
+
+-- Existing labels came from the star rating
+UPDATE reviews SET sentiment_source = 'rating'
+WHERE sentiment IS NOT NULL AND sentiment_source IS NULL;
+
+-- DOWN MIGRATION (for rollback):
+-- ALTER TABLE reviews DROP COLUMN IF EXISTS sentiment_analyzed_at;
+-- ALTER TABLE reviews DROP COLUMN IF EXISTS sentiment_aspects;
+-- ALTER TABLE reviews DROP COLUMN IF EXISTS sentiment_source;
+-- ALTER TABLE reviews DROP COLUMN IF EXISTS sentiment_confidence;
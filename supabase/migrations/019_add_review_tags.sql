@@ -0,0 +1,110 @@
+-- Migration: Tag reviews by topic
+-- Each review is tagged at ingestion with the aspects it mentions (staff, wait time, price, ...)
+-- from sentiment analysis, plus any of its organization's own tags whose keywords it contains.
+-- Organizations define their own tags (e.g. "Patio" matching "patio", "outdoor seating") in
+-- organization_tags.
+--
+-- UP MIGRATION: Create organization_tags and review_tags tables
+
+CREATE TABLE IF NOT EXISTS organization_tags (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+    tag TEXT NOT NULL, -- Slug stored on review_tags and used as the filter value, e.g. outdoor_seating
+    label TEXT NOT NULL,
+    keywords TEXT[] NOT NULL DEFAULT '{}', -- Lowercase words or phrases that apply the tag
+    created_at TIMESTAMPTZ DEFAULT now(),
+    UNIQUE (organization_id, tag)
+);
+
+CREATE TABLE IF NOT EXISTS review_tags (
+    review_id UUID NOT NULL REFERENCES reviews(id) ON DELETE CASCADE,
+    tag TEXT NOT NULL,
+    source TEXT NOT NULL CHECK (source IN ('aspect', 'organization')),
+    created_at TIMESTAMPTZ DEFAULT now(),
+    PRIMARY KEY (review_id, tag)
+);
+
+CREATE INDEX IF NOT EXISTS idx_review_tags_tag ON review_tags(tag, review_id);
+
+-- Enable RLS on organization_tags
+ALTER TABLE organization_tags ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for organization_tags
+DROP POLICY IF EXISTS "Users can view tags in their organization" ON organization_tags;
+CREATE POLICY "Users can view tags in their organization"
+    ON organization_tags FOR SELECT
+    USING (
+        organization_id IN (
+            SELECT organization_id FROM users WHERE id = auth.uid()
+        )
+    );
+
+DROP POLICY IF EXISTS "Users can insert tags in their organization" ON organization_tags;
+CREATE POLICY "Users can insert tags in their organization"
+    ON organization_tags FOR INSERT
+    WITH CHECK (
+        organization_id IN (
+            SELECT organization_id FROM users WHERE id = auth.uid()
+        )
+    );
+
+DROP POLICY IF EXISTS "Users can delete tags in their organization" ON organization_tags;
+CREATE POLICY "Users can delete tags in their organization"
+    ON organization_tags FOR DELETE
+    USING (
+        organization_id IN (
+            SELECT organization_id FROM users WHERE id = auth.uid()
+        )
+    );
+
+-- Enable RLS on review_tags
+-- (rows are written by the poll-reviews cron using the service role, and by review imports
+-- running as the user)
+ALTER TABLE review_tags ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view tags for their organization's reviews" ON review_tags;
+CREATE POLICY "Users can view tags for their organization's reviews"
+    ON review_tags FOR SELECT
+    USING (
+        review_id IN (
+            SELECT r.id FROM reviews r
+            JOIN locations l ON r.location_id = l.id
+            JOIN users u ON l.organization_id = u.organization_id
+            WHERE u.id = auth.uid()
+        )
+    );
+
+DROP POLICY IF EXISTS "Users can insert tags for their organization's reviews" ON review_tags;
+CREATE POLICY "Users can insert tags for their organization's reviews"
+    ON review_tags FOR INSERT
+    WITH CHECK (
+        review_id IN (
+            SELECT r.id FROM reviews r
+            JOIN locations l ON r.location_id = l.id
+            JOIN users u ON l.organization_id = u.organization_id
+            WHERE u.id = auth.uid()
+        )
+    );
+
+DROP POLICY IF EXISTS "Users can delete tags for their organization's reviews" ON review_tags;
+CREATE POLICY "Users can delete tags for their organization's reviews"
+    ON review_tags FOR DELETE
+    USING (
+        review_id IN (
+            SELECT r.id FROM reviews r
+            JOIN locations l ON r.location_id = l.id
+            JOIN users u ON l.organization_id = u.organization_id
+            WHERE u.id = auth.uid()
+        )
+    );
+
+-- Tag reviews that were already classified from their stored aspects
+INSERT INTO review_tags (review_id, tag, source)
+SELECT r.id, aspect->>'aspect', 'aspect'
+FROM reviews r, jsonb_array_elements(r.sentiment_aspects) AS aspect
+WHERE aspect->>'aspect' IS NOT NULL
+ON CONFLICT DO NOTHING;
+
+-- DOWN MIGRATION (for rollback):
+-- DROP TABLE IF EXISTS review_tags;
+-- DROP TABLE IF EXISTS organization_tags;
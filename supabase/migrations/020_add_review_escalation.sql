@@ -0,0 +1,22 @@
+-- Migration: Flag reviews that need a human response
+-- Reviews mentioning legal threats, health or safety incidents, discrimination, or staff
+-- misconduct are flagged at ingestion with a reason and the phrase that triggered it. Flagged
+-- reviews are listed first on the reviews page and are not sent for one-click AI drafts unless
+-- the user overrides the flag.
+--
+-- UP MIGRATION: Add escalation columns to reviews
+
+ALTER TABLE reviews ADD COLUMN IF NOT EXISTS escalation_reason TEXT
+    CHECK (escalation_reason IN ('legal_threat', 'health_safety', 'discrimination', 'staff_misconduct'));
+-- The words in the review that matched, shown next to the flag
+ALTER TABLE reviews ADD COLUMN IF NOT EXISTS escalation_detail TEXT;
+ALTER TABLE reviews ADD COLUMN IF NOT EXISTS escalated_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_reviews_escalated ON reviews(location_id, escalated_at DESC)
+    WHERE escalation_reason IS NOT NULL;
+
+-- DOWN MIGRATION (for rollback):
+-- DROP INDEX IF EXISTS idx_reviews_escalated;
+-- ALTER TABLE reviews DROP COLUMN IF EXISTS escalated_at;
+-- ALTER TABLE reviews DROP COLUMN IF EXISTS escalation_detail;
+-- ALTER TABLE reviews DROP COLUMN IF EXISTS escalation_reason;
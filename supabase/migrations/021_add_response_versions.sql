@@ -0,0 +1,50 @@
+-- Migration: Keep every version of a response
+-- Responses can now be regenerated with guidance ("shorter", "mention our new hours") and
+-- drafts can be saved after editing. Each generated, edited, and published text is kept in
+-- response_versions so an earlier version can be restored from the edit modal
+--
+-- UP MIGRATION: Create response_versions table
+
+CREATE TABLE IF NOT EXISTS response_versions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    response_id UUID NOT NULL REFERENCES responses(id) ON DELETE CASCADE,
+    review_id UUID NOT NULL REFERENCES reviews(id) ON DELETE CASCADE,
+    kind TEXT NOT NULL CHECK (kind IN ('generated', 'edited', 'published')),
+    text TEXT NOT NULL,
+    guidance TEXT, -- Instructions given when regenerating (generated versions only)
+    tokens_used INTEGER, -- Generated versions only
+    created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_response_versions_review ON response_versions(review_id, created_at DESC);
+
+-- Enable RLS on response_versions
+ALTER TABLE response_versions ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for response_versions
+-- Versions are written by the responses and publish routes as the signed-in user
+CREATE POLICY "Users can view response versions for their organization's reviews"
+    ON response_versions FOR SELECT
+    USING (
+        review_id IN (
+            SELECT r.id FROM reviews r
+            JOIN locations l ON r.location_id = l.id
+            JOIN users u ON l.organization_id = u.organization_id
+            WHERE u.id = auth.uid()
+        )
+    );
+
+CREATE POLICY "Users can insert response versions for their organization's reviews"
+    ON response_versions FOR INSERT
+    WITH CHECK (
+        review_id IN (
+            SELECT r.id FROM reviews r
+            JOIN locations l ON r.location_id = l.id
+            JOIN users u ON l.organization_id = u.organization_id
+            WHERE u.id = auth.uid()
+        )
+    );
+
+-- DOWN MIGRATION (for rollback):
+-- DROP TABLE IF EXISTS response_versions;
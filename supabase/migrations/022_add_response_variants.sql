@@ -0,0 +1,17 @@
+-- Migration: Track alternative drafts and which one was chosen
+-- A response can now be generated as several drafts in different styles (short, warm opening, ...).
+-- Each draft is a generated version tagged with its style, and edited or published versions point
+-- back to the draft they started from so we can see which styles get published
+--
+-- UP MIGRATION: Add variant columns to response_versions
+
+-- Style of an alternative draft (generated versions only; NULL for single drafts)
+ALTER TABLE response_versions ADD COLUMN IF NOT EXISTS variant_style TEXT
+    CHECK (variant_style IN ('balanced', 'short', 'warm_opening', 'direct_opening'));
+-- The draft an edited or published version was based on
+ALTER TABLE response_versions ADD COLUMN IF NOT EXISTS source_version_id UUID
+    REFERENCES response_versions(id) ON DELETE SET NULL;
+
+-- DOWN MIGRATION (for rollback):
+-- ALTER TABLE response_versions DROP COLUMN IF EXISTS source_version_id;
+-- ALTER TABLE response_versions DROP COLUMN IF EXISTS variant_style;
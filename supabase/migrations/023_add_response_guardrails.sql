@@ -0,0 +1,12 @@
+-- Migration: Configure response guardrail severities per voice profile
+-- Responses are checked before publishing for avoided words, the word limit, placeholder text,
+-- contact details, and Google's reply size limit. Each check either blocks publishing or
+-- warns; this column overrides the default severity of individual checks
+--
+-- UP MIGRATION: Add guardrail_severities to voice_profiles
+
+-- e.g. {"personal_info": "block", "max_length": "warning"}; checks not listed use the defaults
+ALTER TABLE voice_profiles ADD COLUMN IF NOT EXISTS guardrail_severities JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+-- DOWN MIGRATION (for rollback):
+-- ALTER TABLE voice_profiles DROP COLUMN IF EXISTS guardrail_severities;
@@ -0,0 +1,50 @@
+-- Migration: Record the prompt version behind each draft and run prompt experiments
+-- Response prompts are now versioned templates in lib/claude/prompts.ts. Each generated draft
+-- records the version that produced it, and a running experiment splits organizations or reviews
+-- between versions so publish rate and edit distance can be compared per version
+--
+-- UP MIGRATION: Create prompt_experiments table and add prompt version columns
+
+CREATE TABLE IF NOT EXISTS prompt_experiments (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    name TEXT NOT NULL,
+    -- Whether a whole organization or each review is assigned to a version
+    assignment_unit TEXT NOT NULL CHECK (assignment_unit IN ('organization', 'review')),
+    -- Versions and their relative weights, e.g. [{"version": "v1", "weight": 1}, {"version": "v2", "weight": 1}]
+    variants JSONB NOT NULL,
+    status TEXT NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'ended')),
+    started_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    ended_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- At most one experiment runs at a time
+CREATE UNIQUE INDEX IF NOT EXISTS idx_prompt_experiments_running
+    ON prompt_experiments (status) WHERE status = 'running';
+
+ALTER TABLE prompt_experiments ENABLE ROW LEVEL SECURITY;
+
+-- Drafts are generated with the user's client, which needs to see the running experiment.
+-- Experiments are created and ended with the service role.
+CREATE POLICY "Users can view running prompt experiments"
+    ON prompt_experiments FOR SELECT
+    TO authenticated
+    USING (status = 'running');
+
+-- Prompt version (and experiment, if any) behind the current draft
+ALTER TABLE responses ADD COLUMN IF NOT EXISTS prompt_version TEXT;
+ALTER TABLE responses ADD COLUMN IF NOT EXISTS prompt_experiment_id UUID
+    REFERENCES prompt_experiments(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_responses_prompt_experiment_id
+    ON responses (prompt_experiment_id) WHERE prompt_experiment_id IS NOT NULL;
+
+-- Prompt version behind each generated version
+ALTER TABLE response_versions ADD COLUMN IF NOT EXISTS prompt_version TEXT;
+
+-- DOWN MIGRATION (for rollback):
+-- ALTER TABLE response_versions DROP COLUMN IF EXISTS prompt_version;
+-- DROP INDEX IF EXISTS idx_responses_prompt_experiment_id;
+-- ALTER TABLE responses DROP COLUMN IF EXISTS prompt_experiment_id;
+-- ALTER TABLE responses DROP COLUMN IF EXISTS prompt_version;
+-- DROP TABLE IF EXISTS prompt_experiments;
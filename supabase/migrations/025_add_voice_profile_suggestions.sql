@@ -0,0 +1,48 @@
+-- Migration: Suggest voice profile changes learned from edited replies
+-- A daily job compares AI drafts with the replies managers actually published. Phrases they keep
+-- removing or adding become suggested words to avoid or use, and replies they rewrote for happy
+-- reviewers become suggested example responses. Nothing changes the voice profile until a user
+-- accepts the suggestion in settings
+--
+-- UP MIGRATION: Create voice_profile_suggestions table
+
+CREATE TABLE IF NOT EXISTS voice_profile_suggestions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+    kind TEXT NOT NULL CHECK (kind IN ('word_to_avoid', 'word_to_use', 'example_response')),
+    value TEXT NOT NULL, -- The phrase or example reply to add
+    detail TEXT, -- Why it was suggested, e.g. 'Removed from 4 drafts, usually replaced with "regular"'
+    evidence_count INTEGER NOT NULL DEFAULT 1, -- Published replies supporting the suggestion
+    source_response_id UUID REFERENCES responses(id) ON DELETE SET NULL, -- Example responses only
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'accepted', 'dismissed')),
+    decided_at TIMESTAMPTZ,
+    decided_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    -- A suggestion is made once; dismissed ones are not suggested again
+    UNIQUE (organization_id, kind, value)
+);
+
+CREATE INDEX IF NOT EXISTS idx_voice_profile_suggestions_pending
+    ON voice_profile_suggestions (organization_id, created_at DESC) WHERE status = 'pending';
+
+ALTER TABLE voice_profile_suggestions ENABLE ROW LEVEL SECURITY;
+
+-- Suggestions are created by the edit-learning job with the service role
+CREATE POLICY "Users can view their organization's voice profile suggestions"
+    ON voice_profile_suggestions FOR SELECT
+    USING (
+        organization_id IN (
+            SELECT organization_id FROM users WHERE id = auth.uid()
+        )
+    );
+
+CREATE POLICY "Users can decide on their organization's voice profile suggestions"
+    ON voice_profile_suggestions FOR UPDATE
+    USING (
+        organization_id IN (
+            SELECT organization_id FROM users WHERE id = auth.uid()
+        )
+    );
+
+-- DOWN MIGRATION (for rollback):
+-- DROP TABLE IF EXISTS voice_profile_suggestions;
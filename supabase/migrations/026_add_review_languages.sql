@@ -0,0 +1,21 @@
+-- Migration: Detect review languages and reply in the reviewer's language
+-- Ingestion stores the language each review is written in, so reviews can be filtered by language
+-- and responses are written in the same language. Voice profiles can override some settings per
+-- language, e.g. a Spanish sign-off
+--
+-- UP MIGRATION: Add reviews.language and voice_profiles.language_overrides
+
+ALTER TABLE reviews
+    ADD COLUMN IF NOT EXISTS language TEXT; -- ISO 639-1 code (e.g. 'es'); NULL when it couldn't be detected
+
+CREATE INDEX IF NOT EXISTS idx_reviews_location_language
+    ON reviews (location_id, language);
+
+-- Keyed by language code, e.g. {"es": {"sign_off_style": "Un saludo, Ana"}}
+ALTER TABLE voice_profiles
+    ADD COLUMN IF NOT EXISTS language_overrides JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+-- DOWN MIGRATION (for rollback):
+-- ALTER TABLE voice_profiles DROP COLUMN IF EXISTS language_overrides;
+-- DROP INDEX IF EXISTS idx_reviews_location_language;
+-- ALTER TABLE reviews DROP COLUMN IF EXISTS language;
@@ -0,0 +1,55 @@
+-- Migration: Record AI usage per organization so monthly budgets can be enforced
+-- tokens_used was stored on responses but nothing added it up, and tone quizzes, sentiment
+-- classification and translations were not recorded at all. Every model call now adds a row
+-- to ai_usage; the month's total is checked against the plan tier's budget before drafts
+-- and custom tones are generated
+--
+-- UP MIGRATION: Create ai_usage table and monthly total function
+
+CREATE TABLE IF NOT EXISTS ai_usage (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+    user_id UUID REFERENCES users(id) ON DELETE SET NULL, -- NULL for background jobs
+    task TEXT NOT NULL CHECK (task IN ('review_response', 'custom_tone', 'sentiment', 'translation')),
+    model TEXT, -- Model requested; NULL when the provider's default was used
+    tokens_used INTEGER NOT NULL CHECK (tokens_used >= 0),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_ai_usage_organization_created
+    ON ai_usage (organization_id, created_at DESC);
+
+ALTER TABLE ai_usage ENABLE ROW LEVEL SECURITY;
+
+-- Background jobs record sentiment usage with the service role
+CREATE POLICY "Users can view their organization's AI usage"
+    ON ai_usage FOR SELECT
+    USING (
+        organization_id IN (
+            SELECT organization_id FROM users WHERE id = auth.uid()
+        )
+    );
+
+CREATE POLICY "Users can record their organization's AI usage"
+    ON ai_usage FOR INSERT
+    WITH CHECK (
+        organization_id IN (
+            SELECT organization_id FROM users WHERE id = auth.uid()
+        )
+    );
+
+-- Total tokens used by an organization since a point in time. Runs with the caller's
+-- permissions, so users only see their own organization's total
+CREATE OR REPLACE FUNCTION ai_tokens_used_since(
+    p_organization_id UUID,
+    p_since TIMESTAMPTZ
+) RETURNS BIGINT AS $$
+    SELECT COALESCE(SUM(tokens_used), 0)
+    FROM ai_usage
+    WHERE organization_id = p_organization_id
+        AND created_at >= p_since;
+$$ LANGUAGE sql STABLE;
+
+-- DOWN MIGRATION (for rollback):
+-- DROP FUNCTION IF EXISTS ai_tokens_used_since(UUID, TIMESTAMPTZ);
+-- DROP TABLE IF EXISTS ai_usage;
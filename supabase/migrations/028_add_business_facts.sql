@@ -0,0 +1,60 @@
+-- Migration: Business facts for AI responses
+-- Facts about the business that drafts may mention: opening hours, policies, staff names,
+-- services, FAQs, and current promotions. Facts belong to the organization and apply to all
+-- of its locations unless tied to one. When a draft is generated, the facts that share words
+-- with the review are added to the prompt
+--
+-- UP MIGRATION: Create business_facts table
+
+CREATE TABLE IF NOT EXISTS business_facts (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+    location_id UUID REFERENCES locations(id) ON DELETE CASCADE, -- NULL = every location
+    category TEXT NOT NULL DEFAULT 'other'
+        CHECK (category IN ('hours', 'policy', 'staff', 'service', 'promotion', 'faq', 'other')),
+    title TEXT NOT NULL, -- Short label or question, e.g. 'Return policy'
+    content TEXT NOT NULL, -- The fact itself, e.g. 'Unworn items can be returned within 30 days'
+    keywords TEXT[] NOT NULL DEFAULT '{}', -- Extra words that make the fact relevant to a review
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_business_facts_organization
+    ON business_facts (organization_id, location_id);
+
+ALTER TABLE business_facts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their organization's business facts"
+    ON business_facts FOR SELECT
+    USING (
+        organization_id IN (
+            SELECT organization_id FROM users WHERE id = auth.uid()
+        )
+    );
+
+CREATE POLICY "Users can create their organization's business facts"
+    ON business_facts FOR INSERT
+    WITH CHECK (
+        organization_id IN (
+            SELECT organization_id FROM users WHERE id = auth.uid()
+        )
+    );
+
+CREATE POLICY "Users can update their organization's business facts"
+    ON business_facts FOR UPDATE
+    USING (
+        organization_id IN (
+            SELECT organization_id FROM users WHERE id = auth.uid()
+        )
+    );
+
+CREATE POLICY "Users can delete their organization's business facts"
+    ON business_facts FOR DELETE
+    USING (
+        organization_id IN (
+            SELECT organization_id FROM users WHERE id = auth.uid()
+        )
+    );
+
+-- DOWN MIGRATION (for rollback):
+-- DROP TABLE IF EXISTS business_facts;
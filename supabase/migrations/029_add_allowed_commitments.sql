@@ -0,0 +1,12 @@
+-- Migration: Let voice profiles allow refunds, discounts, or admissions of fault in responses
+-- Drafts are checked for promises of refunds or discounts and for admissions of liability,
+-- which a review can talk the model into. Commitments not listed here are flagged before
+-- publishing and the prompt tells the model not to make them
+--
+-- UP MIGRATION: Add allowed_commitments to voice_profiles
+
+ALTER TABLE voice_profiles ADD COLUMN IF NOT EXISTS allowed_commitments TEXT[] NOT NULL DEFAULT '{}'
+    CHECK (allowed_commitments <@ ARRAY['refund', 'discount', 'liability']::TEXT[]);
+
+-- DOWN MIGRATION (for rollback):
+-- ALTER TABLE voice_profiles DROP COLUMN IF EXISTS allowed_commitments;
@@ -0,0 +1,11 @@
+-- Migration: Record when each organization was last analyzed by the edit-learning job
+-- The job stops when its time budget runs out. Organizations are analyzed least recently
+-- learned first and skipped until a day has passed, so the next run picks up where the
+-- previous one stopped
+--
+-- UP MIGRATION: Add edits_learned_at to organizations
+
+ALTER TABLE organizations ADD COLUMN IF NOT EXISTS edits_learned_at TIMESTAMPTZ;
+
+-- DOWN MIGRATION (for rollback):
+-- ALTER TABLE organizations DROP COLUMN IF EXISTS edits_learned_at;
@@ -1,5 +1,9 @@
 import { render, screen } from "@testing-library/react";
 
+vi.mock("@/components/billing/usage-meter", () => ({
+  UsageMeter: () => <section aria-label="AI usage meter" />,
+}));
+
 import BillingPage, { metadata } from "@/app/(dashboard)/billing/page";
 
 describe("app/(dashboard)/billing/page", () => {
@@ -37,6 +41,13 @@ describe("app/(dashboard)/billing/page", () => {
     expect(screen.getByText("14 days")).toBeInTheDocument();
   });
 
+  it("renders the AI usage meter", () => {
+    render(<BillingPage />);
+    expect(
+      screen.getByRole("region", { name: "AI usage meter" }),
+    ).toBeInTheDocument();
+  });
+
   it("renders upgrade section", () => {
     render(<BillingPage />);
     expect(
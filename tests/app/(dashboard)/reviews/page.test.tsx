@@ -34,6 +34,9 @@ HTMLDialogElement.prototype.close = vi.fn(function (this: HTMLDialogElement) {
 import ReviewsPage, { metadata } from "@/app/(dashboard)/reviews/page";
 import { createServerSupabaseClient } from "@/lib/supabase/server";
 
+// Records the embedded-tag filter applied to the reviews query
+const reviewsNot = vi.fn();
+
 /**
  * Options for creating a mock Supabase client
  */
@@ -45,6 +48,9 @@ interface MockClientOptions {
   locationsError?: Error | null;
   reviews?: Array<unknown> | null;
   reviewsError?: Error | null;
+  replies?: Array<unknown> | null;
+  repliesError?: Error | null;
+  organizationTags?: Array<unknown> | null;
 }
 
 /**
@@ -60,6 +66,9 @@ function createMockSupabaseClient(options: MockClientOptions = {}) {
     locationsError = null,
     reviews = [],
     reviewsError = null,
+    replies = [],
+    repliesError = null,
+    organizationTags = [],
   } = options;
 
   return {
@@ -103,6 +112,7 @@ function createMockSupabaseClient(options: MockClientOptions = {}) {
         const chainableMethods = {
           in: vi.fn().mockReturnThis(),
           eq: vi.fn().mockReturnThis(),
+          not: reviewsNot.mockReturnThis(),
           order: vi.fn().mockReturnThis(),
           range: vi.fn().mockReturnThis(),
         };
@@ -122,6 +132,28 @@ function createMockSupabaseClient(options: MockClientOptions = {}) {
           select: vi.fn().mockReturnValue(mockQuery),
         };
       }
+      if (table === "organization_tags") {
+        return {
+          select: vi.fn().mockReturnValue({
+            eq: vi.fn().mockResolvedValue({
+              data: organizationTags,
+              error: null,
+            }),
+          }),
+        };
+      }
+      if (table === "responses") {
+        return {
+          select: vi.fn().mockReturnValue({
+            in: vi.fn().mockReturnValue({
+              eq: vi.fn().mockResolvedValue({
+                data: replies,
+                error: repliesError,
+              }),
+            }),
+          }),
+        };
+      }
       return {
         select: vi.fn().mockReturnValue({
           in: vi.fn().mockReturnValue({
@@ -301,6 +333,48 @@ describe("app/(dashboard)/reviews/page", () => {
         screen.getByRole("button", { name: "Generate Response" }),
       ).toBeInTheDocument();
     });
+
+    it("renders the reply live on Google", async () => {
+      vi.mocked(createServerSupabaseClient).mockResolvedValue(
+        createMockSupabaseClient({
+          locations: [{ id: "loc-1" }],
+          reviews: [{ ...mockReview, has_response: true, status: "responded" }],
+          replies: [
+            {
+              review_id: "review-1",
+              source: "external",
+              final_text: "Thanks, John!",
+              google_reply_text: "Thanks, John!",
+            },
+          ],
+        }),
+      );
+
+      const Component = await ReviewsPage({ searchParams: {} });
+      render(Component);
+
+      expect(
+        screen.getByText("Owner reply (posted on Google)"),
+      ).toBeInTheDocument();
+      expect(screen.getByText("Thanks, John!")).toBeInTheDocument();
+    });
+
+    it("still renders reviews when replies fail to load", async () => {
+      vi.spyOn(console, "error").mockImplementation(() => {});
+      vi.mocked(createServerSupabaseClient).mockResolvedValue(
+        createMockSupabaseClient({
+          locations: [{ id: "loc-1" }],
+          reviews: [mockReview],
+          replies: null,
+          repliesError: new Error("Database error"),
+        }),
+      );
+
+      const Component = await ReviewsPage({ searchParams: {} });
+      render(Component);
+
+      expect(screen.getByText("Great service!")).toBeInTheDocument();
+    });
   });
 
   describe("error states", () => {
@@ -398,6 +472,118 @@ describe("app/(dashboard)/reviews/page", () => {
     });
   });
 
+  describe("escalated reviews", () => {
+    const review = {
+      external_review_id: "ext",
+      rating: 1,
+      status: "pending",
+      locations: {
+        id: "loc-1",
+        name: "Main Location",
+        google_location_id: "google-loc-1",
+      },
+    };
+
+    it("lists pending flagged reviews first with a badge", async () => {
+      vi.mocked(createServerSupabaseClient).mockResolvedValue(
+        createMockSupabaseClient({
+          locations: [{ id: "loc-1" }],
+          reviews: [
+            { ...review, id: "review-1", review_text: "Newest, all fine" },
+            {
+              ...review,
+              id: "review-2",
+              review_text: "Handled already, talk to my lawyer",
+              status: "responded",
+              escalation_reason: "legal_threat",
+              escalation_detail: "lawyer",
+            },
+            {
+              ...review,
+              id: "review-3",
+              review_text: "Got food poisoning",
+              escalation_reason: "health_safety",
+              escalation_detail: "food poisoning",
+            },
+          ],
+        }),
+      );
+
+      const Component = await ReviewsPage({ searchParams: {} });
+      const { container } = render(Component);
+
+      const text = container.textContent ?? "";
+      expect(text.indexOf("Got food poisoning")).toBeLessThan(
+        text.indexOf("Newest, all fine"),
+      );
+      expect(text.indexOf("Newest, all fine")).toBeLessThan(
+        text.indexOf("Handled already"),
+      );
+      expect(
+        screen.getByText(
+          'Needs human response: Health or safety ("food poisoning")',
+        ),
+      ).toBeInTheDocument();
+    });
+  });
+
+  describe("topic tags", () => {
+    it("offers built-in and organization tags in the topic filter", async () => {
+      vi.mocked(createServerSupabaseClient).mockResolvedValue(
+        createMockSupabaseClient({
+          organizationTags: [
+            { tag: "patio", label: "Patio", keywords: ["patio"] },
+          ],
+        }),
+      );
+
+      const Component = await ReviewsPage({ searchParams: {} });
+      render(Component);
+
+      expect(
+        screen.getByRole("combobox", { name: "Filter by topic" }),
+      ).toBeInTheDocument();
+      expect(
+        screen.getByRole("option", { name: "Parking" }),
+      ).toBeInTheDocument();
+      expect(screen.getByRole("option", { name: "Patio" })).toBeInTheDocument();
+    });
+
+    it("filters by tag and labels each review's tags", async () => {
+      vi.mocked(createServerSupabaseClient).mockResolvedValue(
+        createMockSupabaseClient({
+          locations: [{ id: "loc-1" }],
+          reviews: [
+            {
+              id: "review-1",
+              external_review_id: "ext-1",
+              reviewer_name: "John Doe",
+              rating: 2,
+              review_text: "Nowhere to park",
+              status: "responded",
+              locations: {
+                id: "loc-1",
+                name: "Main Location",
+                google_location_id: "google-loc-1",
+              },
+              review_tags: [{ tag: "parking" }],
+            },
+          ],
+        }),
+      );
+
+      const Component = await ReviewsPage({
+        searchParams: { tag: "parking" },
+      });
+      render(Component);
+
+      expect(reviewsNot).toHaveBeenCalledWith("tag_filter", "is", null);
+      expect(screen.getByRole("list", { name: "Topics" })).toHaveTextContent(
+        "Parking",
+      );
+    });
+  });
+
   describe("filtered empty state", () => {
     beforeEach(() => {
       vi.mocked(createServerSupabaseClient).mockResolvedValue(
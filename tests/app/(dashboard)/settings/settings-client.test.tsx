@@ -4,6 +4,10 @@ import userEvent from "@testing-library/user-event";
 import { SettingsClient } from "@/app/(dashboard)/settings/settings-client";
 
 // Mock child components
+vi.mock("@/components/settings/business-facts", () => ({
+  BusinessFacts: () => <div data-testid="business-facts">BusinessFacts</div>,
+}));
+
 vi.mock("@/components/settings/google-connect-button", () => ({
   GoogleConnectButton: () => (
     <div data-testid="google-connect-button">GoogleConnectButton</div>
@@ -16,6 +20,18 @@ vi.mock("@/components/settings/location-selector", () => ({
   ),
 }));
 
+vi.mock("@/components/settings/organization-alerts", () => ({
+  OrganizationAlerts: () => (
+    <div data-testid="organization-alerts">OrganizationAlerts</div>
+  ),
+}));
+
+vi.mock("@/components/settings/voice-profile-suggestions", () => ({
+  VoiceProfileSuggestions: () => (
+    <div data-testid="voice-profile-suggestions">VoiceProfileSuggestions</div>
+  ),
+}));
+
 vi.mock("@/components/voice-profile/tone-quiz", () => ({
   ToneQuiz: ({
     onComplete,
@@ -141,6 +157,7 @@ describe("app/(dashboard)/settings/settings-client", () => {
         screen.getByRole("heading", { name: "Google Business Profile" }),
       ).toBeInTheDocument();
       expect(screen.getByTestId("google-connect-button")).toBeInTheDocument();
+      expect(screen.getByTestId("organization-alerts")).toBeInTheDocument();
     });
 
     it("renders Connected Locations section", async () => {
@@ -156,6 +173,17 @@ describe("app/(dashboard)/settings/settings-client", () => {
       expect(
         screen.getByRole("heading", { name: "Voice Profile" }),
       ).toBeInTheDocument();
+      expect(
+        screen.getByTestId("voice-profile-suggestions"),
+      ).toBeInTheDocument();
+    });
+
+    it("renders Business Facts section", async () => {
+      await renderSettingsClient();
+      expect(
+        screen.getByRole("heading", { name: "Business Facts" }),
+      ).toBeInTheDocument();
+      expect(screen.getByTestId("business-facts")).toBeInTheDocument();
     });
 
     it("renders Notifications section", async () => {
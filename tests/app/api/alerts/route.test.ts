@@ -0,0 +1,131 @@
+vi.mock("@/lib/supabase/server", () => ({
+  createServerSupabaseClient: vi.fn(),
+}));
+
+import { GET } from "@/app/api/alerts/route";
+import { createServerSupabaseClient } from "@/lib/supabase/server";
+
+function createSupabaseMock(options: {
+  user?: { id: string } | null;
+  userData?: { organization_id: string | null } | null;
+  userError?: { message: string } | null;
+  alerts?: Array<{ type: string; message: string; raised_at: string }>;
+  alertsError?: { message: string } | null;
+}) {
+  const alertsOrder = vi.fn().mockResolvedValue({
+    data: options.alerts ?? [],
+    error: options.alertsError ?? null,
+  });
+  const alertsEq = vi.fn().mockReturnValue({ order: alertsOrder });
+
+  const supabase = {
+    auth: {
+      getUser: vi.fn().mockResolvedValue({
+        data: {
+          user: options.user === undefined ? { id: "user-1" } : options.user,
+        },
+      }),
+    },
+    from: vi.fn((table: string) => {
+      if (table === "users") {
+        return {
+          select: vi.fn().mockReturnValue({
+            eq: vi.fn().mockReturnValue({
+              single: vi.fn().mockResolvedValue({
+                data:
+                  options.userData === undefined
+                    ? { organization_id: "org-1" }
+                    : options.userData,
+                error: options.userError ?? null,
+              }),
+            }),
+          }),
+        };
+      }
+      return { select: vi.fn().mockReturnValue({ eq: alertsEq }) };
+    }),
+  };
+
+  return { supabase, alertsEq, alertsOrder };
+}
+
+describe("GET /api/alerts", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  it("returns 401 when unauthenticated", async () => {
+    const { supabase } = createSupabaseMock({ user: null });
+    vi.mocked(createServerSupabaseClient).mockResolvedValue(supabase as never);
+
+    const response = await GET();
+
+    expect(response.status).toBe(401);
+    await expect(response.json()).resolves.toEqual({ error: "Unauthorized" });
+  });
+
+  it("returns 404 when the user is not found", async () => {
+    const { supabase } = createSupabaseMock({
+      userData: null,
+      userError: { message: "Not found" },
+    });
+    vi.mocked(createServerSupabaseClient).mockResolvedValue(supabase as never);
+
+    const response = await GET();
+
+    expect(response.status).toBe(404);
+    await expect(response.json()).resolves.toEqual({
+      error: "User not found",
+    });
+  });
+
+  it("returns no alerts for users without an organization", async () => {
+    const { supabase } = createSupabaseMock({
+      userData: { organization_id: null },
+    });
+    vi.mocked(createServerSupabaseClient).mockResolvedValue(supabase as never);
+
+    const response = await GET();
+
+    expect(response.status).toBe(200);
+    await expect(response.json()).resolves.toEqual({ alerts: [] });
+    expect(supabase.from).not.toHaveBeenCalledWith("organization_alerts");
+  });
+
+  it("returns the organization's open alerts newest first", async () => {
+    const alerts = [
+      {
+        type: "google_connection",
+        message: "No valid Google connection",
+        raised_at: "2025-01-01T00:00:00Z",
+      },
+    ];
+    const { supabase, alertsEq, alertsOrder } = createSupabaseMock({ alerts });
+    vi.mocked(createServerSupabaseClient).mockResolvedValue(supabase as never);
+
+    const response = await GET();
+
+    expect(response.status).toBe(200);
+    await expect(response.json()).resolves.toEqual({ alerts });
+    expect(supabase.from).toHaveBeenCalledWith("organization_alerts");
+    expect(alertsEq).toHaveBeenCalledWith("organization_id", "org-1");
+    expect(alertsOrder).toHaveBeenCalledWith("raised_at", {
+      ascending: false,
+    });
+  });
+
+  it("returns 500 when alerts cannot be loaded", async () => {
+    const { supabase } = createSupabaseMock({
+      alertsError: { message: "Database error" },
+    });
+    vi.mocked(createServerSupabaseClient).mockResolvedValue(supabase as never);
+
+    const response = await GET();
+
+    expect(response.status).toBe(500);
+    await expect(response.json()).resolves.toEqual({
+      error: "Failed to load alerts",
+    });
+  });
+});
@@ -0,0 +1,215 @@
+import { makeNextRequest } from "@/tests/helpers/next";
+
+vi.mock("@/lib/supabase/server", () => {
+  return {
+    createServerSupabaseClient: vi.fn(),
+  };
+});
+
+import { DELETE, PATCH } from "@/app/api/business-facts/[factId]/route";
+import { createServerSupabaseClient } from "@/lib/supabase/server";
+
+const FACT_ID = "9d5c2b8e-1f3a-4c6d-8e7f-0a1b2c3d4e5f";
+const LOCATION_ID = "4f0b8a52-6a55-4b4e-9a4c-2f7d3c1e9b10";
+
+const updatedFact = {
+  id: FACT_ID,
+  location_id: null,
+  category: "hours",
+  title: "Opening hours",
+  content: "Open 9am-5pm every day",
+  keywords: ["sunday"],
+  updated_at: "2026-10-19T00:00:00Z",
+};
+
+/**
+ * Creates a mock Supabase client for the business fact routes
+ */
+function createMockSupabaseClient(
+  options: {
+    updated?: typeof updatedFact | null;
+    deleted?: Array<{ id: string }>;
+    locationFound?: boolean;
+  } = {},
+) {
+  const update = vi.fn().mockReturnValue({
+    eq: vi.fn().mockReturnValue({
+      eq: vi.fn().mockReturnValue({
+        select: vi.fn().mockReturnValue({
+          maybeSingle: vi.fn().mockResolvedValue({
+            data: options.updated === undefined ? updatedFact : options.updated,
+            error: null,
+          }),
+        }),
+      }),
+    }),
+  });
+  const deleteEqOrganization = vi.fn().mockReturnValue({
+    select: vi.fn().mockResolvedValue({
+      data: options.deleted ?? [{ id: FACT_ID }],
+      error: null,
+    }),
+  });
+  const supabase = {
+    auth: {
+      getUser: vi.fn().mockResolvedValue({
+        data: { user: { id: "user-1" } },
+      }),
+    },
+    from: vi.fn((table: string) => {
+      if (table === "users") {
+        return {
+          select: vi.fn().mockReturnValue({
+            eq: vi.fn().mockReturnValue({
+              single: vi.fn().mockResolvedValue({
+                data: { organization_id: "org-1" },
+                error: null,
+              }),
+            }),
+          }),
+        };
+      }
+      if (table === "locations") {
+        return {
+          select: vi.fn().mockReturnValue({
+            eq: vi.fn().mockReturnValue({
+              eq: vi.fn().mockReturnValue({
+                maybeSingle: vi.fn().mockResolvedValue({
+                  data:
+                    options.locationFound === false
+                      ? null
+                      : { id: LOCATION_ID },
+                  error: null,
+                }),
+              }),
+            }),
+          }),
+        };
+      }
+      return {
+        update,
+        delete: vi.fn().mockReturnValue({
+          eq: vi.fn().mockReturnValue({ eq: deleteEqOrganization }),
+        }),
+      };
+    }),
+  };
+  vi.mocked(createServerSupabaseClient).mockResolvedValue(supabase as never);
+  return { update, deleteEqOrganization };
+}
+
+function patchFact(factId: string, body: unknown) {
+  return PATCH(
+    makeNextRequest(`http://localhost/api/business-facts/${factId}`, {
+      method: "PATCH",
+      body: JSON.stringify(body),
+    }),
+    { params: Promise.resolve({ factId }) },
+  );
+}
+
+function deleteFact(factId: string) {
+  return DELETE(
+    makeNextRequest(`http://localhost/api/business-facts/${factId}`, {
+      method: "DELETE",
+    }),
+    { params: Promise.resolve({ factId }) },
+  );
+}
+
+describe("PATCH /api/business-facts/[factId]", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("returns 404 for a malformed fact ID", async () => {
+    const response = await patchFact("fact-1", { title: "Hours" });
+
+    expect(response.status).toBe(404);
+  });
+
+  it("updates only the fields sent", async () => {
+    const { update } = createMockSupabaseClient();
+
+    const response = await patchFact(FACT_ID, {
+      content: "Open 9am-5pm every day",
+      keywords: ["Sunday", "sunday"],
+    });
+
+    expect(response.status).toBe(200);
+    await expect(response.json()).resolves.toEqual({ fact: updatedFact });
+    expect(update).toHaveBeenCalledWith({
+      content: "Open 9am-5pm every day",
+      keywords: ["sunday"],
+      updated_at: expect.any(String),
+    });
+  });
+
+  it("makes a fact organization-wide when location_id is null", async () => {
+    const { update } = createMockSupabaseClient();
+
+    const response = await patchFact(FACT_ID, { location_id: null });
+
+    expect(response.status).toBe(200);
+    expect(update).toHaveBeenCalledWith(
+      expect.objectContaining({ location_id: null }),
+    );
+  });
+
+  it("returns 400 for another organization's location", async () => {
+    const { update } = createMockSupabaseClient({ locationFound: false });
+
+    const response = await patchFact(FACT_ID, { location_id: LOCATION_ID });
+
+    expect(response.status).toBe(400);
+    expect(update).not.toHaveBeenCalled();
+  });
+
+  it.each([
+    { body: {} },
+    { body: { category: "menu" } },
+    { body: { title: "" } },
+  ])("returns 400 for $body", async ({ body }) => {
+    const { update } = createMockSupabaseClient();
+
+    const response = await patchFact(FACT_ID, body);
+
+    expect(response.status).toBe(400);
+    expect(update).not.toHaveBeenCalled();
+  });
+
+  it("returns 404 when the fact does not belong to the organization", async () => {
+    createMockSupabaseClient({ updated: null });
+
+    const response = await patchFact(FACT_ID, { title: "Hours" });
+
+    expect(response.status).toBe(404);
+  });
+});
+
+describe("DELETE /api/business-facts/[factId]", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("deletes the organization's fact", async () => {
+    const { deleteEqOrganization } = createMockSupabaseClient();
+
+    const response = await deleteFact(FACT_ID);
+
+    expect(response.status).toBe(200);
+    await expect(response.json()).resolves.toEqual({ success: true });
+    expect(deleteEqOrganization).toHaveBeenCalledWith(
+      "organization_id",
+      "org-1",
+    );
+  });
+
+  it("returns 404 when nothing was deleted", async () => {
+    createMockSupabaseClient({ deleted: [] });
+
+    const response = await deleteFact(FACT_ID);
+
+    expect(response.status).toBe(404);
+  });
+});
@@ -0,0 +1,267 @@
+import { makeNextRequest } from "@/tests/helpers/next";
+
+vi.mock("@/lib/supabase/server", () => {
+  return {
+    createServerSupabaseClient: vi.fn(),
+  };
+});
+
+import { GET, POST } from "@/app/api/business-facts/route";
+import { createServerSupabaseClient } from "@/lib/supabase/server";
+
+const LOCATION_ID = "4f0b8a52-6a55-4b4e-9a4c-2f7d3c1e9b10";
+
+const hoursFact = {
+  id: "fact-1",
+  location_id: null,
+  category: "hours",
+  title: "Opening hours",
+  content: "Open 8am-6pm every day",
+  keywords: [],
+  updated_at: "2026-10-01T00:00:00Z",
+};
+
+/**
+ * Creates a mock Supabase client for the business facts routes
+ */
+function createMockSupabaseClient(
+  options: {
+    user?: { id: string } | null;
+    organizationId?: string | null;
+    facts?: Array<typeof hoursFact>;
+    factsError?: { message: string } | null;
+    locations?: Array<{ id: string; name: string }>;
+    locationFound?: boolean;
+    count?: number;
+    insertError?: { message: string } | null;
+  } = {},
+) {
+  const insert = vi.fn().mockReturnValue({
+    select: vi.fn().mockReturnValue({
+      single: vi.fn().mockResolvedValue({
+        data: options.insertError ? null : hoursFact,
+        error: options.insertError ?? null,
+      }),
+    }),
+  });
+  const supabase = {
+    auth: {
+      getUser: vi.fn().mockResolvedValue({
+        data: { user: options.user === undefined ? { id: "user-1" } : null },
+      }),
+    },
+    from: vi.fn((table: string) => {
+      if (table === "users") {
+        return {
+          select: vi.fn().mockReturnValue({
+            eq: vi.fn().mockReturnValue({
+              single: vi.fn().mockResolvedValue({
+                data: {
+                  organization_id:
+                    options.organizationId === undefined
+                      ? "org-1"
+                      : options.organizationId,
+                },
+                error: null,
+              }),
+            }),
+          }),
+        };
+      }
+      if (table === "locations") {
+        return {
+          select: vi.fn().mockReturnValue({
+            eq: vi.fn().mockReturnValue({
+              eq: vi.fn().mockReturnValue({
+                order: vi.fn().mockResolvedValue({
+                  data: options.locations ?? [],
+                  error: null,
+                }),
+                maybeSingle: vi.fn().mockResolvedValue({
+                  data:
+                    options.locationFound === false
+                      ? null
+                      : { id: LOCATION_ID },
+                  error: null,
+                }),
+              }),
+            }),
+          }),
+        };
+      }
+      return {
+        select: vi.fn((_columns: string, selectOptions?: { head?: boolean }) =>
+          selectOptions?.head
+            ? {
+                eq: vi.fn().mockResolvedValue({
+                  count: options.count ?? 0,
+                  error: null,
+                }),
+              }
+            : {
+                eq: vi.fn().mockReturnValue({
+                  order: vi.fn().mockResolvedValue({
+                    data: options.facts ?? [],
+                    error: options.factsError ?? null,
+                  }),
+                }),
+              },
+        ),
+        insert,
+      };
+    }),
+  };
+  vi.mocked(createServerSupabaseClient).mockResolvedValue(supabase as never);
+  return { insert };
+}
+
+function postRequest(body: unknown) {
+  return makeNextRequest("http://localhost/api/business-facts", {
+    method: "POST",
+    body: JSON.stringify(body),
+  });
+}
+
+describe("GET /api/business-facts", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("returns 401 when unauthenticated", async () => {
+    createMockSupabaseClient({ user: null });
+
+    const response = await GET();
+
+    expect(response.status).toBe(401);
+  });
+
+  it("returns the organization's facts and locations", async () => {
+    createMockSupabaseClient({
+      facts: [hoursFact],
+      locations: [{ id: LOCATION_ID, name: "Downtown" }],
+    });
+
+    const response = await GET();
+
+    expect(response.status).toBe(200);
+    await expect(response.json()).resolves.toEqual({
+      facts: [hoursFact],
+      locations: [{ id: LOCATION_ID, name: "Downtown" }],
+    });
+  });
+
+  it("returns 500 when facts cannot be loaded", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    createMockSupabaseClient({ factsError: { message: "Database error" } });
+
+    const response = await GET();
+
+    expect(response.status).toBe(500);
+    await expect(response.json()).resolves.toEqual({
+      error: "Failed to fetch business facts",
+    });
+  });
+});
+
+describe("POST /api/business-facts", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("returns 404 when user has no organization", async () => {
+    createMockSupabaseClient({ organizationId: null });
+
+    const response = await POST(postRequest(hoursFact));
+
+    expect(response.status).toBe(404);
+  });
+
+  it("creates an organization-wide fact with de-duplicated lowercase keywords", async () => {
+    const { insert } = createMockSupabaseClient();
+
+    const response = await POST(
+      postRequest({
+        category: "hours",
+        title: " Opening hours ",
+        content: "Open 8am-6pm every day",
+        keywords: ["Sunday", "sunday", "weekend"],
+      }),
+    );
+
+    expect(response.status).toBe(201);
+    await expect(response.json()).resolves.toEqual({ fact: hoursFact });
+    expect(insert).toHaveBeenCalledWith({
+      organization_id: "org-1",
+      location_id: null,
+      category: "hours",
+      title: "Opening hours",
+      content: "Open 8am-6pm every day",
+      keywords: ["sunday", "weekend"],
+    });
+  });
+
+  it("ties a fact to one of the organization's locations", async () => {
+    const { insert } = createMockSupabaseClient();
+
+    const response = await POST(
+      postRequest({
+        category: "staff",
+        title: "Manager",
+        content: "Priya runs the downtown store",
+        location_id: LOCATION_ID,
+      }),
+    );
+
+    expect(response.status).toBe(201);
+    expect(insert).toHaveBeenCalledWith(
+      expect.objectContaining({ location_id: LOCATION_ID }),
+    );
+  });
+
+  it("returns 400 for another organization's location", async () => {
+    const { insert } = createMockSupabaseClient({ locationFound: false });
+
+    const response = await POST(
+      postRequest({
+        category: "staff",
+        title: "Manager",
+        content: "Priya",
+        location_id: LOCATION_ID,
+      }),
+    );
+
+    expect(response.status).toBe(400);
+    await expect(response.json()).resolves.toEqual({
+      error: "Location not found",
+    });
+    expect(insert).not.toHaveBeenCalled();
+  });
+
+  it.each([
+    { body: { category: "menu", title: "Menu", content: "Pizza" } },
+    { body: { category: "faq", title: "", content: "Yes" } },
+    { body: { category: "faq", title: "Parking?", content: "x".repeat(501) } },
+    { body: { category: "faq", title: "Parking?", location_id: "loc-1" } },
+  ])("returns 400 for $body", async ({ body }) => {
+    const { insert } = createMockSupabaseClient();
+
+    const response = await POST(postRequest(body));
+
+    expect(response.status).toBe(400);
+    expect(insert).not.toHaveBeenCalled();
+  });
+
+  it("returns 400 when the organization has too many facts", async () => {
+    const { insert } = createMockSupabaseClient({ count: 100 });
+
+    const response = await POST(
+      postRequest({ category: "faq", title: "Parking?", content: "Free" }),
+    );
+
+    expect(response.status).toBe(400);
+    await expect(response.json()).resolves.toEqual({
+      error: "Organizations can keep up to 100 business facts",
+    });
+    expect(insert).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,248 @@
+import { GET } from "@/app/api/cron/learn-from-edits/route";
+import { learnFromEdits } from "@/lib/reviews/edit-learning";
+import { createAdminSupabaseClient } from "@/lib/supabase/server";
+import { makeNextRequest } from "@/tests/helpers/next";
+
+vi.mock("@/lib/supabase/server", () => ({
+  createAdminSupabaseClient: vi.fn(),
+}));
+
+vi.mock("@/lib/reviews/edit-learning", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/reviews/edit-learning")>()),
+  learnFromEdits: vi.fn(),
+}));
+
+/**
+ * Creates a mock admin client with the given organizations and lease outcome
+ */
+function createMockSupabaseClient({
+  organizations = [
+    { id: "org-1", edits_learned_at: null },
+    { id: "org-2", edits_learned_at: null },
+  ] as { id: string; edits_learned_at: string | null }[],
+  organizationsError = null as { message: string } | null,
+  leaseAcquired = true,
+} = {}) {
+  const eq = vi.fn().mockResolvedValue({ error: null });
+  const update = vi.fn(() => ({ eq }));
+  return {
+    rpc: vi.fn((fn: string) =>
+      Promise.resolve({
+        data: fn === "acquire_cron_lease" ? leaseAcquired : null,
+        error: null,
+      }),
+    ),
+    from: vi.fn(() => ({
+      select: vi.fn().mockResolvedValue({
+        data: organizationsError ? null : organizations,
+        error: organizationsError,
+      }),
+      update,
+    })),
+    update,
+    eq,
+  };
+}
+
+const learned = {
+  result: {
+    responsesAnalyzed: 1,
+    responsesEdited: 0,
+    averageEditDistance: null,
+    suggestionsCreated: 0,
+  },
+  error: null,
+};
+
+function runCron(authorization = "Bearer test-secret") {
+  return GET(
+    makeNextRequest("http://localhost/api/cron/learn-from-edits", {
+      headers: { authorization },
+    }),
+  );
+}
+
+describe("GET /api/cron/learn-from-edits", () => {
+  beforeEach(() => {
+    vi.stubEnv("CRON_SECRET", "test-secret");
+    vi.mocked(learnFromEdits).mockReset();
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  it("returns 401 without the cron secret", async () => {
+    const response = await runCron("Bearer wrong");
+
+    expect(response.status).toBe(401);
+  });
+
+  it("learns from each organization's edits and totals the results", async () => {
+    const supabase = createMockSupabaseClient();
+    vi.mocked(createAdminSupabaseClient).mockReturnValue(supabase as never);
+    vi.mocked(learnFromEdits)
+      .mockResolvedValueOnce({
+        result: {
+          responsesAnalyzed: 10,
+          responsesEdited: 4,
+          averageEditDistance: 3,
+          suggestionsCreated: 2,
+        },
+        error: null,
+      })
+      .mockResolvedValueOnce({
+        result: {
+          responsesAnalyzed: 5,
+          responsesEdited: 1,
+          averageEditDistance: 8,
+          suggestionsCreated: 0,
+        },
+        error: null,
+      });
+
+    const response = await runCron();
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body).toMatchObject({
+      success: true,
+      organizationsProcessed: 2,
+      organizationsRemaining: 0,
+      budgetExhausted: false,
+      responsesAnalyzed: 15,
+      responsesEdited: 5,
+      averageEditDistance: 4,
+      suggestionsCreated: 2,
+      errors: [],
+    });
+    expect(learnFromEdits).toHaveBeenCalledWith(
+      supabase,
+      "org-1",
+      expect.any(Date),
+    );
+    expect(supabase.rpc).toHaveBeenCalledWith(
+      "acquire_cron_lease",
+      expect.objectContaining({ p_name: "learn-from-edits" }),
+    );
+    expect(supabase.rpc).toHaveBeenLastCalledWith(
+      "release_cron_lease",
+      expect.objectContaining({ p_name: "learn-from-edits" }),
+    );
+  });
+
+  it("reports an organization that fails and continues with the rest", async () => {
+    vi.mocked(createAdminSupabaseClient).mockReturnValue(
+      createMockSupabaseClient() as never,
+    );
+    vi.mocked(learnFromEdits)
+      .mockResolvedValueOnce({ result: null, error: "Database error" })
+      .mockResolvedValueOnce({
+        result: {
+          responsesAnalyzed: 5,
+          responsesEdited: 0,
+          averageEditDistance: null,
+          suggestionsCreated: 0,
+        },
+        error: null,
+      });
+
+    const body = await (await runCron()).json();
+
+    expect(body).toMatchObject({
+      success: true,
+      organizationsProcessed: 1,
+      averageEditDistance: null,
+      errors: ["Organization org-1: Database error"],
+    });
+  });
+
+  it("records when each organization was analyzed, including failed ones", async () => {
+    const supabase = createMockSupabaseClient();
+    vi.mocked(createAdminSupabaseClient).mockReturnValue(supabase as never);
+    vi.mocked(learnFromEdits)
+      .mockResolvedValueOnce({ result: null, error: "Database error" })
+      .mockResolvedValueOnce(learned);
+
+    await runCron();
+
+    expect(supabase.update).toHaveBeenCalledWith({
+      edits_learned_at: expect.any(String),
+    });
+    expect(supabase.eq).toHaveBeenCalledWith("id", "org-1");
+    expect(supabase.eq).toHaveBeenCalledWith("id", "org-2");
+  });
+
+  it("analyzes only organizations not analyzed in the last day, oldest first", async () => {
+    const supabase = createMockSupabaseClient({
+      organizations: [
+        { id: "org-1", edits_learned_at: new Date().toISOString() },
+        { id: "org-2", edits_learned_at: "2026-01-02T00:00:00.000Z" },
+        { id: "org-3", edits_learned_at: "2026-01-01T00:00:00.000Z" },
+      ],
+    });
+    vi.mocked(createAdminSupabaseClient).mockReturnValue(supabase as never);
+    vi.mocked(learnFromEdits).mockResolvedValue(learned);
+
+    await runCron();
+
+    expect(vi.mocked(learnFromEdits).mock.calls.map((call) => call[1])).toEqual(
+      ["org-3", "org-2"],
+    );
+  });
+
+  it("stops when the time budget runs out and leaves the rest for the next run", async () => {
+    const supabase = createMockSupabaseClient({
+      organizations: [
+        { id: "org-1", edits_learned_at: null },
+        { id: "org-2", edits_learned_at: null },
+        { id: "org-3", edits_learned_at: null },
+      ],
+    });
+    vi.mocked(createAdminSupabaseClient).mockReturnValue(supabase as never);
+    const start = Date.now();
+    const now = vi.spyOn(Date, "now").mockReturnValue(start);
+    vi.mocked(learnFromEdits).mockImplementation(async () => {
+      now.mockReturnValue(start + 46000);
+      return learned;
+    });
+
+    const body = await (await runCron()).json();
+
+    expect(body).toMatchObject({
+      organizationsProcessed: 1,
+      organizationsRemaining: 2,
+      budgetExhausted: true,
+    });
+    expect(learnFromEdits).toHaveBeenCalledTimes(1);
+    expect(supabase.eq).toHaveBeenCalledTimes(1);
+  });
+
+  it("skips the run while another holds the lease", async () => {
+    vi.mocked(createAdminSupabaseClient).mockReturnValue(
+      createMockSupabaseClient({ leaseAcquired: false }) as never,
+    );
+
+    const body = await (await runCron()).json();
+
+    expect(body).toMatchObject({ success: true, skipped: true });
+    expect(learnFromEdits).not.toHaveBeenCalled();
+  });
+
+  it("returns 500 when organizations cannot be loaded", async () => {
+    const supabase = createMockSupabaseClient({
+      organizationsError: { message: "Database error" },
+    });
+    vi.mocked(createAdminSupabaseClient).mockReturnValue(supabase as never);
+
+    const response = await runCron();
+
+    expect(response.status).toBe(500);
+    expect(supabase.rpc).toHaveBeenLastCalledWith(
+      "release_cron_lease",
+      expect.anything(),
+    );
+  });
+});
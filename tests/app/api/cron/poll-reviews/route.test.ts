@@ -22,27 +22,51 @@ vi.mock("@/lib/crypto/encryption", () => ({
   },
 }));
 
-vi.mock("@/lib/google/client", () => ({
-  refreshAccessToken: vi.fn(),
-  fetchReviews: vi.fn(),
-  GoogleAPIError: class GoogleAPIError extends Error {
-    constructor(
-      public status: number,
-      message: string,
-    ) {
-      super(message);
-      this.name = "GoogleAPIError";
-    }
-  },
-}));
+vi.mock("@/lib/google/client", async (importOriginal) => {
+  const { GoogleAPIError, isGoogleRateLimitError, withAccessTokenRetry } =
+    await importOriginal<typeof import("@/lib/google/client")>();
+  return {
+    getAccessToken: vi.fn(),
+    fetchReviews: vi.fn(),
+    getGoogleRateLimitRetryAfter: vi.fn(),
+    isGoogleRateLimitError,
+    withAccessTokenRetry,
+    GoogleAPIError,
+  };
+});
 
 vi.mock("@/lib/supabase/typed-helpers", () => ({
   typedUpdate: vi.fn(),
   typedUpsert: vi.fn(),
 }));
 
+vi.mock("@/lib/reviews/tags", () => ({
+  tagReviews: vi.fn(),
+}));
+
+vi.mock("@/lib/reviews/escalation", () => ({
+  escalateReviews: vi.fn(),
+}));
+
+vi.mock("@/lib/reviews/sentiment", async () => {
+  const actual = await vi.importActual<
+    typeof import("@/lib/reviews/sentiment")
+  >("@/lib/reviews/sentiment");
+  return {
+    ...actual,
+    analyzeReviewSentiment: vi.fn(),
+  };
+});
+
 import { decryptToken } from "@/lib/crypto/encryption";
-import { fetchReviews, refreshAccessToken } from "@/lib/google/client";
+import {
+  fetchReviews,
+  getAccessToken,
+  getGoogleRateLimitRetryAfter,
+} from "@/lib/google/client";
+import { escalateReviews } from "@/lib/reviews/escalation";
+import { analyzeReviewSentiment } from "@/lib/reviews/sentiment";
+import { tagReviews } from "@/lib/reviews/tags";
 import { typedUpdate, typedUpsert } from "@/lib/supabase/typed-helpers";
 
 // Generate a valid test encryption key
@@ -80,6 +104,11 @@ describe("GET /api/cron/poll-reviews", () => {
     process.env.SUPABASE_SERVICE_ROLE_KEY = "test-service-role-key";
     process.env.TOKEN_ENCRYPTION_KEY = TEST_ENCRYPTION_KEY;
     vi.clearAllMocks();
+    // Location and user updates succeed unless a test overrides them
+    vi.mocked(typedUpdate).mockReturnValue({
+      eq: vi.fn().mockResolvedValue({ error: null }),
+      in: vi.fn().mockResolvedValue({ error: null }),
+    } as never);
     vi.spyOn(console, "warn").mockImplementation(() => {});
     vi.spyOn(console, "error").mockImplementation(() => {});
     vi.spyOn(console, "log").mockImplementation(() => {});
@@ -112,8 +141,19 @@ describe("GET /api/cron/poll-reviews", () => {
   // Helper to set up standard successful mocks
   function setupSuccessfulMocks() {
     vi.mocked(decryptToken).mockReturnValue("decrypted-token");
-    vi.mocked(refreshAccessToken).mockResolvedValue("access-token");
+    vi.mocked(getAccessToken).mockResolvedValue("access-token");
     vi.mocked(fetchReviews).mockResolvedValue({ reviews: [] });
+    vi.mocked(getGoogleRateLimitRetryAfter).mockReturnValue(0);
+    vi.mocked(analyzeReviewSentiment).mockResolvedValue({
+      analyses: [],
+      analyzedCount: 0,
+      error: null,
+    });
+    vi.mocked(tagReviews).mockResolvedValue({ error: null });
+    vi.mocked(escalateReviews).mockResolvedValue({
+      escalatedCount: 0,
+      error: null,
+    });
     vi.mocked(typedUpsert).mockReturnValue({
       select: vi.fn().mockResolvedValue({
         data: [{ id: "review-1" }],
@@ -122,6 +162,36 @@ describe("GET /api/cron/poll-reviews", () => {
     } as never);
   }
 
+  // Collect rows written to location_poll_state across all from() calls
+  function getLocationPollStateUpserts(
+    supabase: ReturnType<typeof createMockPollReviewsSupabaseClient>,
+  ) {
+    return supabase.from.mock.calls.flatMap(([table], index) => {
+      if (table !== "location_poll_state") return [];
+      const chain = supabase.from.mock.results[index]?.value as {
+        upsert: ReturnType<typeof vi.fn>;
+      };
+      return chain.upsert.mock.calls.map((call) => call[0]);
+    });
+  }
+
+  // Chains returned by from(table) across the run
+  function getTableChains(
+    supabase: ReturnType<typeof createMockPollReviewsSupabaseClient>,
+    table: string,
+  ) {
+    return supabase.from.mock.calls.flatMap(([name], index) =>
+      name === table
+        ? [
+            supabase.from.mock.results[index]?.value as Record<
+              string,
+              ReturnType<typeof vi.fn>
+            >,
+          ]
+        : [],
+    );
+  }
+
   describe("authorization", () => {
     it.each([
       { header: "Bearer wrong", desc: "invalid authorization" },
@@ -170,6 +240,123 @@ describe("GET /api/cron/poll-reviews", () => {
     });
   });
 
+  describe("lease", () => {
+    beforeEach(() => {
+      delete process.env.CRON_SECRET;
+      setupSuccessfulMocks();
+    });
+
+    it("skips the run when another invocation holds the lease", async () => {
+      const supabase = createMockPollReviewsSupabaseClient({
+        locationsData: [defaultLocation],
+        usersData: [defaultUser],
+        leaseAcquired: false,
+      });
+      vi.mocked(createAdminSupabaseClient).mockReturnValue(supabase as never);
+
+      const request = makeNextRequest("http://localhost/api/cron/poll-reviews");
+      const response = await GET(request);
+      const json = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(json).toMatchObject({ success: true, skipped: true });
+      expect(supabase.from).not.toHaveBeenCalled();
+      expect(supabase.rpc).not.toHaveBeenCalledWith(
+        "release_cron_lease",
+        expect.anything(),
+      );
+    });
+
+    it("returns 500 when the lease cannot be acquired", async () => {
+      const supabase = createMockPollReviewsSupabaseClient({
+        leaseError: { message: "Database connection failed" },
+      });
+      vi.mocked(createAdminSupabaseClient).mockReturnValue(supabase as never);
+
+      const request = makeNextRequest("http://localhost/api/cron/poll-reviews");
+      const response = await GET(request);
+
+      expect(response.status).toBe(500);
+      await expect(response.json()).resolves.toEqual({
+        error: "Failed to acquire poll lease",
+      });
+      expect(supabase.from).not.toHaveBeenCalled();
+    });
+
+    it("releases the lease it acquired after the run", async () => {
+      const supabase = createMockPollReviewsSupabaseClient({
+        locationsData: [defaultLocation],
+        usersData: [defaultUser],
+      });
+      vi.mocked(createAdminSupabaseClient).mockReturnValue(supabase as never);
+
+      const request = makeNextRequest("http://localhost/api/cron/poll-reviews");
+      await GET(request);
+
+      expect(supabase.rpc).toHaveBeenCalledWith("acquire_cron_lease", {
+        p_name: "poll-reviews",
+        p_owner_id: expect.any(String),
+        p_ttl_seconds: 120,
+      });
+      const ownerId = supabase.rpc.mock.calls[0]?.[1]?.p_owner_id;
+      expect(supabase.rpc).toHaveBeenLastCalledWith("release_cron_lease", {
+        p_name: "poll-reviews",
+        p_owner_id: ownerId,
+      });
+    });
+
+    it("releases the lease when the run fails", async () => {
+      const supabase = createMockPollReviewsSupabaseClient({
+        locationsError: { message: "Database connection failed" },
+      });
+      vi.mocked(createAdminSupabaseClient).mockReturnValue(supabase as never);
+
+      const request = makeNextRequest("http://localhost/api/cron/poll-reviews");
+      const response = await GET(request);
+
+      expect(response.status).toBe(500);
+      expect(supabase.rpc).toHaveBeenLastCalledWith(
+        "release_cron_lease",
+        expect.objectContaining({ p_name: "poll-reviews" }),
+      );
+    });
+
+    it("lets only one of two concurrent invocations poll", async () => {
+      // Shared lease row, as both invocations would see in Postgres
+      let holder: string | null = null;
+      const createClient = () => {
+        const supabase = createMockPollReviewsSupabaseClient({
+          locationsData: [defaultLocation],
+          usersData: [defaultUser],
+        });
+        supabase.rpc.mockImplementation((fn, args) => {
+          const ownerId = args?.p_owner_id as string;
+          if (fn === "acquire_cron_lease") {
+            const acquired = holder === null || holder === ownerId;
+            if (acquired) holder = ownerId;
+            return Promise.resolve({ data: acquired, error: null });
+          }
+          if (holder === ownerId) holder = null;
+          return Promise.resolve({ data: true, error: null });
+        });
+        return supabase;
+      };
+      vi.mocked(createAdminSupabaseClient)
+        .mockReturnValueOnce(createClient() as never)
+        .mockReturnValueOnce(createClient() as never);
+
+      const responses = await Promise.all([
+        GET(makeNextRequest("http://localhost/api/cron/poll-reviews")),
+        GET(makeNextRequest("http://localhost/api/cron/poll-reviews")),
+      ]);
+      const results = await Promise.all(responses.map((r) => r.json()));
+
+      expect(results.filter((result) => result.skipped)).toHaveLength(1);
+      expect(fetchReviews).toHaveBeenCalledTimes(1);
+      expect(holder).toBeNull();
+    });
+  });
+
   describe("database errors", () => {
     beforeEach(() => {
       delete process.env.CRON_SECRET;
@@ -244,7 +431,7 @@ describe("GET /api/cron/poll-reviews", () => {
       const mockEq = vi.fn().mockResolvedValue({ data: null, error: null });
       vi.mocked(typedUpdate).mockReturnValue({ eq: mockEq } as never);
       vi.mocked(decryptToken).mockReturnValue("decrypted-token");
-      vi.mocked(refreshAccessToken).mockRejectedValue(
+      vi.mocked(getAccessToken).mockRejectedValue(
         new GoogleAPIError(401, "Token expired"),
       );
 
@@ -266,7 +453,7 @@ describe("GET /api/cron/poll-reviews", () => {
 
     it("handles token refresh other errors without clearing token", async () => {
       vi.mocked(decryptToken).mockReturnValue("decrypted-token");
-      vi.mocked(refreshAccessToken).mockRejectedValue(
+      vi.mocked(getAccessToken).mockRejectedValue(
         new GoogleAPIError(500, "Internal server error"),
       );
 
@@ -287,6 +474,281 @@ describe("GET /api/cron/poll-reviews", () => {
     });
   });
 
+  describe("Google connections", () => {
+    const teammate = createMockUser({
+      id: "user-2",
+      organization_id: "org-1",
+      google_refresh_token: "teammate-token",
+    });
+
+    beforeEach(() => {
+      delete process.env.CRON_SECRET;
+      setupSuccessfulMocks();
+    });
+
+    function getAlertUpserts() {
+      return vi
+        .mocked(typedUpsert)
+        .mock.calls.filter(([, table]) => table === "organization_alerts");
+    }
+
+    it("falls back to a teammate's connection when the refresh token is revoked", async () => {
+      vi.mocked(getAccessToken)
+        .mockRejectedValueOnce(new GoogleAPIError(401, "Token expired"))
+        .mockResolvedValueOnce("teammate-access-token");
+      const supabase = createMockPollReviewsSupabaseClient({
+        locationsData: [defaultLocation],
+        usersData: [defaultUser, teammate],
+      });
+      vi.mocked(createAdminSupabaseClient).mockReturnValue(supabase as never);
+
+      const request = makeNextRequest("http://localhost/api/cron/poll-reviews");
+      const response = await GET(request);
+      const json = await response.json();
+
+      expect(json.locationsProcessed).toBe(1);
+      expect(json.organizationsDisconnected).toBe(0);
+      expect(json.errors).toContain("User user-1: Token expired");
+      expect(fetchReviews).toHaveBeenCalledWith(
+        "teammate-access-token",
+        defaultLocation.google_account_id,
+        defaultLocation.google_location_id,
+        undefined,
+      );
+      // The revoked token is cleared and the location now records the teammate
+      expect(typedUpdate).toHaveBeenCalledWith(supabase, "users", {
+        google_refresh_token: null,
+      });
+      expect(typedUpdate).toHaveBeenCalledWith(supabase, "locations", {
+        google_connection_user_id: "user-2",
+      });
+      const [alerts] = getTableChains(supabase, "organization_alerts");
+      expect(alerts?.delete).toHaveBeenCalled();
+      expect(alerts?.in).toHaveBeenCalledWith("organization_id", ["org-1"]);
+    });
+
+    it("tries the user recorded on the location first", async () => {
+      vi.mocked(decryptToken).mockImplementation(
+        (token) => `decrypted-${token}`,
+      );
+      vi.mocked(createAdminSupabaseClient).mockReturnValue(
+        createMockPollReviewsSupabaseClient({
+          locationsData: [
+            { ...defaultLocation, google_connection_user_id: "user-2" },
+          ],
+          usersData: [defaultUser, teammate],
+        }) as never,
+      );
+
+      const request = makeNextRequest("http://localhost/api/cron/poll-reviews");
+      await GET(request);
+
+      expect(getAccessToken).toHaveBeenCalledTimes(1);
+      expect(getAccessToken).toHaveBeenCalledWith(
+        "user-2",
+        "decrypted-teammate-token",
+        expect.anything(),
+        {},
+      );
+      expect(typedUpdate).not.toHaveBeenCalledWith(
+        expect.anything(),
+        "locations",
+        expect.anything(),
+      );
+    });
+
+    it("refreshes an access token Google rejects before it expires and retries", async () => {
+      vi.mocked(getAccessToken)
+        .mockResolvedValueOnce("rejected-access-token")
+        .mockResolvedValueOnce("fresh-access-token");
+      vi.mocked(fetchReviews)
+        .mockRejectedValueOnce(
+          new GoogleAPIError(401, "Failed to fetch reviews: Unauthorized"),
+        )
+        .mockResolvedValue({ reviews: [] });
+      const secondLocation = createMockLocation({
+        id: "loc-2",
+        google_account_id: "acc-1",
+        google_location_id: "loc-2",
+        name: "Location 2",
+        organization_id: "org-1",
+      });
+      vi.mocked(createAdminSupabaseClient).mockReturnValue(
+        createMockPollReviewsSupabaseClient({
+          locationsData: [defaultLocation, secondLocation],
+          usersData: [defaultUser],
+        }) as never,
+      );
+
+      const request = makeNextRequest("http://localhost/api/cron/poll-reviews");
+      const response = await GET(request);
+      const json = await response.json();
+
+      expect(json.locationsProcessed).toBe(2);
+      expect(json.errors).toEqual([]);
+      expect(getAccessToken).toHaveBeenLastCalledWith(
+        "user-1",
+        "decrypted-token",
+        expect.anything(),
+        { forceRefresh: true },
+      );
+      expect(
+        vi.mocked(fetchReviews).mock.calls.map(([token]) => token),
+      ).toEqual([
+        "rejected-access-token",
+        "fresh-access-token",
+        "fresh-access-token",
+      ]);
+    });
+
+    it("stops using a connection revoked mid-run so the next run can fall back", async () => {
+      vi.mocked(getAccessToken)
+        .mockResolvedValueOnce("rejected-access-token")
+        .mockRejectedValueOnce(
+          new GoogleAPIError(
+            401,
+            "Google authentication expired. Please reconnect your account.",
+          ),
+        );
+      vi.mocked(fetchReviews).mockRejectedValue(
+        new GoogleAPIError(401, "Failed to fetch reviews: Unauthorized"),
+      );
+      const secondLocation = createMockLocation({
+        id: "loc-2",
+        google_account_id: "acc-1",
+        google_location_id: "loc-2",
+        name: "Location 2",
+        organization_id: "org-1",
+      });
+      const supabase = createMockPollReviewsSupabaseClient({
+        locationsData: [defaultLocation, secondLocation],
+        usersData: [defaultUser],
+      });
+      vi.mocked(createAdminSupabaseClient).mockReturnValue(supabase as never);
+
+      const request = makeNextRequest("http://localhost/api/cron/poll-reviews");
+      const response = await GET(request);
+      const json = await response.json();
+
+      expect(fetchReviews).toHaveBeenCalledTimes(1);
+      expect(json.errors).toContain(
+        "User user-1: Google authentication expired. Please reconnect your account.",
+      );
+      expect(typedUpdate).toHaveBeenCalledWith(supabase, "users", {
+        google_refresh_token: null,
+      });
+      expect(getLocationPollStateUpserts(supabase)).toEqual([
+        expect.objectContaining({ location_id: "loc-1", last_error_code: 401 }),
+      ]);
+    });
+
+    it("raises an organization alert when every connection is revoked", async () => {
+      vi.mocked(getAccessToken).mockRejectedValue(
+        new GoogleAPIError(401, "Token expired"),
+      );
+      const supabase = createMockPollReviewsSupabaseClient({
+        locationsData: [defaultLocation],
+        usersData: [defaultUser, teammate],
+      });
+      vi.mocked(createAdminSupabaseClient).mockReturnValue(supabase as never);
+
+      const request = makeNextRequest("http://localhost/api/cron/poll-reviews");
+      const response = await GET(request);
+      const json = await response.json();
+
+      expect(getAccessToken).toHaveBeenCalledTimes(2);
+      expect(fetchReviews).not.toHaveBeenCalled();
+      expect(json.organizationsDisconnected).toBe(1);
+      expect(json.errors).toContain(
+        "Organization org-1: No valid Google connection",
+      );
+      expect(getAlertUpserts()).toEqual([
+        [
+          supabase,
+          "organization_alerts",
+          [
+            {
+              organization_id: "org-1",
+              type: "google_connection",
+              message: expect.stringContaining("No valid Google connection"),
+            },
+          ],
+          { onConflict: "organization_id,type", ignoreDuplicates: true },
+        ],
+      ]);
+    });
+
+    it("raises an organization alert when nobody in the organization is connected", async () => {
+      vi.mocked(createAdminSupabaseClient).mockReturnValue(
+        createMockPollReviewsSupabaseClient({
+          locationsData: [defaultLocation],
+          usersData: [],
+        }) as never,
+      );
+
+      const request = makeNextRequest("http://localhost/api/cron/poll-reviews");
+      const response = await GET(request);
+      const json = await response.json();
+
+      expect(json.organizationsDisconnected).toBe(1);
+      expect(json.errors).toContain(
+        "Organization org-1: No valid Google connection",
+      );
+      expect(getAlertUpserts()).toHaveLength(1);
+      expect(getAlertUpserts()[0]?.[2]).toEqual([
+        expect.objectContaining({ organization_id: "org-1" }),
+      ]);
+    });
+
+    it("does not raise an alert when Google fails to refresh for other reasons", async () => {
+      vi.mocked(getAccessToken).mockRejectedValue(
+        new GoogleAPIError(503, "Service unavailable"),
+      );
+      vi.mocked(createAdminSupabaseClient).mockReturnValue(
+        createMockPollReviewsSupabaseClient({
+          locationsData: [defaultLocation],
+          usersData: [defaultUser, teammate],
+        }) as never,
+      );
+
+      const request = makeNextRequest("http://localhost/api/cron/poll-reviews");
+      const response = await GET(request);
+      const json = await response.json();
+
+      // The outage would affect every connection, so teammates aren't tried
+      expect(getAccessToken).toHaveBeenCalledTimes(1);
+      expect(json.organizationsDisconnected).toBe(0);
+      expect(getAlertUpserts()).toHaveLength(0);
+    });
+
+    it("reports alert write failures as warnings", async () => {
+      vi.mocked(typedUpsert).mockImplementation(((
+        _supabase: unknown,
+        table: string,
+      ) =>
+        table === "organization_alerts"
+          ? Promise.resolve({ error: { message: "Database error" } })
+          : {
+              select: vi.fn().mockResolvedValue({ data: [], error: null }),
+            }) as never);
+      vi.mocked(createAdminSupabaseClient).mockReturnValue(
+        createMockPollReviewsSupabaseClient({
+          locationsData: [defaultLocation],
+          usersData: [],
+        }) as never,
+      );
+
+      const request = makeNextRequest("http://localhost/api/cron/poll-reviews");
+      const response = await GET(request);
+      const json = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(json.errors).toContain(
+        "Warning: Failed to update Google connection alerts",
+      );
+    });
+  });
+
   describe("review processing", () => {
     beforeEach(() => {
       delete process.env.CRON_SECRET;
@@ -414,23 +876,13 @@ describe("GET /api/cron/poll-reviews", () => {
       expect(typedUpsert).not.toHaveBeenCalled();
     });
 
-    it.each([
-      { rating: 5, expectedSentiment: "positive" },
-      { rating: 4, expectedSentiment: "positive" },
-      { rating: 3, expectedSentiment: "neutral" },
-      { rating: 2, expectedSentiment: "negative" },
-      { rating: 1, expectedSentiment: "negative" },
-      { rating: null, expectedSentiment: null },
-    ])("determines sentiment correctly for rating $rating", async ({
-      rating,
-      expectedSentiment,
-    }) => {
+    it("leaves sentiment out of upserted rows", async () => {
       vi.mocked(fetchReviews).mockResolvedValue({
         reviews: [
           {
             external_review_id: "ext-1",
             reviewer_name: "John",
-            rating,
+            rating: 5,
             review_text: "Review",
             review_date: "2025-01-01T00:00:00.000Z",
           },
@@ -448,12 +900,10 @@ describe("GET /api/cron/poll-reviews", () => {
       await GET(request);
 
       const upsertCalls = vi.mocked(typedUpsert).mock.calls;
-      const lastCall = upsertCalls[upsertCalls.length - 1];
-      expect(lastCall).toBeDefined();
-      const reviewsToInsert = lastCall?.[2] as Array<{
-        sentiment: string | null;
-      }>;
-      expect(reviewsToInsert[0]?.sentiment).toBe(expectedSentiment);
+      const reviewsToInsert = upsertCalls[upsertCalls.length - 1]?.[2] as Array<
+        Record<string, unknown>
+      >;
+      expect(reviewsToInsert[0]).not.toHaveProperty("sentiment");
     });
 
     it("handles upsert error and adds to errors array", async () => {
@@ -511,123 +961,1435 @@ describe("GET /api/cron/poll-reviews", () => {
     });
   });
 
-  describe("tier-based processing", () => {
+  describe("pagination", () => {
     beforeEach(() => {
       delete process.env.CRON_SECRET;
       setupSuccessfulMocks();
     });
 
-    // Test tier processing at different minutes
-    it.each([
-      { tier: "starter", minute: 7, shouldProcess: false },
-      { tier: "starter", minute: 15, shouldProcess: true },
-      { tier: "starter", minute: 30, shouldProcess: true },
-      { tier: "starter", minute: 0, shouldProcess: true },
-      { tier: "growth", minute: 7, shouldProcess: false },
-      { tier: "growth", minute: 10, shouldProcess: true },
-      { tier: "growth", minute: 20, shouldProcess: true },
-      { tier: "growth", minute: 0, shouldProcess: true },
-      { tier: "agency", minute: 7, shouldProcess: true },
-      { tier: "agency", minute: 0, shouldProcess: true },
-      { tier: null, minute: 7, shouldProcess: false }, // null tier treated as starter
-    ])("$tier tier at minute $minute: shouldProcess=$shouldProcess", async ({
-      tier,
-      minute,
-      shouldProcess,
-    }) => {
-      vi.useFakeTimers();
-      try {
-        vi.setSystemTime(
-          new Date(`2025-01-01T00:${String(minute).padStart(2, "0")}:00Z`),
-        );
+    function makeReview(id: string, date: string) {
+      return {
+        external_review_id: id,
+        reviewer_name: "Reviewer",
+        rating: 5,
+        review_text: "Great!",
+        review_date: date,
+      };
+    }
 
-        vi.mocked(createAdminSupabaseClient).mockReturnValue(
-          createMockPollReviewsSupabaseClient({
-            locationsData: [defaultLocation],
-            usersData: [defaultUser],
-            organizationsData: [{ id: "org-1", plan_tier: tier }],
-          }) as never,
-        );
+    it("follows nextPageToken until the last page and records the high-water mark", async () => {
+      vi.mocked(fetchReviews)
+        .mockResolvedValueOnce({
+          reviews: [makeReview("ext-3", "2025-01-03T00:00:00Z")],
+          nextPageToken: "page-2",
+        })
+        .mockResolvedValueOnce({
+          reviews: [makeReview("ext-2", "2025-01-02T00:00:00Z")],
+          nextPageToken: "page-3",
+        })
+        .mockResolvedValueOnce({
+          reviews: [makeReview("ext-1", "2025-01-01T00:00:00Z")],
+        });
+
+      const supabase = createMockPollReviewsSupabaseClient({
+        locationsData: [defaultLocation],
+        usersData: [defaultUser],
+      });
+      vi.mocked(createAdminSupabaseClient).mockReturnValue(supabase as never);
 
-        const request = makeNextRequest(
-          "http://localhost/api/cron/poll-reviews",
-        );
-        const response = await GET(request);
-        const json = await response.json();
-
-        if (shouldProcess) {
-          expect(json.locationsProcessed).toBe(1);
-          expect(fetchReviews).toHaveBeenCalled();
-        } else {
-          expect(json.locationsProcessed).toBe(0);
-          expect(fetchReviews).not.toHaveBeenCalled();
-        }
-      } finally {
-        vi.useRealTimers();
-      }
+      const request = makeNextRequest("http://localhost/api/cron/poll-reviews");
+      const response = await GET(request);
+      const json = await response.json();
+
+      expect(fetchReviews).toHaveBeenCalledTimes(3);
+      expect(fetchReviews).toHaveBeenNthCalledWith(
+        2,
+        "access-token",
+        "acc-1",
+        "loc-1",
+        "page-2",
+      );
+      expect(fetchReviews).toHaveBeenNthCalledWith(
+        3,
+        "access-token",
+        "acc-1",
+        "loc-1",
+        "page-3",
+      );
+      expect(typedUpsert).toHaveBeenCalledTimes(3);
+      expect(json.locationsProcessed).toBe(1);
+      expect(json.pagesFetched).toBe(3);
+      expect(json.budgetExhausted).toBe(false);
+      expect(getLocationPollStateUpserts(supabase)).toEqual([
+        expect.objectContaining({
+          location_id: "loc-1",
+          high_water_mark: "2025-01-03T00:00:00Z",
+          pending_high_water_mark: null,
+          next_page_token: null,
+        }),
+      ]);
     });
 
-    it("filters locations correctly when multiple tiers are present", async () => {
-      vi.useFakeTimers();
-      try {
-        vi.setSystemTime(new Date("2025-01-01T00:15:00Z")); // minute 15
-
-        vi.mocked(createAdminSupabaseClient).mockReturnValue(
-          createMockPollReviewsSupabaseClient({
-            locationsData: [
-              createMockLocation({
-                id: "loc-1",
-                name: "Location 1 (starter)",
-                organization_id: "org-1",
-              }),
-              createMockLocation({
-                id: "loc-2",
-                name: "Location 2 (growth)",
-                organization_id: "org-2",
-              }),
-              createMockLocation({
-                id: "loc-3",
-                name: "Location 3 (agency)",
-                organization_id: "org-3",
-              }),
-            ],
-            usersData: [
-              createMockUser({
-                id: "user-1",
-                organization_id: "org-1",
-                google_refresh_token: "token-1",
-              }),
-              createMockUser({
-                id: "user-2",
-                organization_id: "org-2",
-                google_refresh_token: "token-2",
-              }),
-              createMockUser({
-                id: "user-3",
-                organization_id: "org-3",
-                google_refresh_token: "token-3",
-              }),
-            ],
-            organizationsData: [
-              { id: "org-1", plan_tier: "starter" },
-              { id: "org-2", plan_tier: "growth" },
-              { id: "org-3", plan_tier: "agency" },
-            ],
-          }) as never,
-        );
+    it("stops paging once a page reaches the stored high-water mark", async () => {
+      vi.mocked(fetchReviews).mockResolvedValueOnce({
+        reviews: [
+          makeReview("ext-3", "2025-01-03T00:00:00Z"),
+          makeReview("ext-2", "2025-01-02T00:00:00Z"),
+        ],
+        nextPageToken: "page-2",
+      });
 
-        const request = makeNextRequest(
-          "http://localhost/api/cron/poll-reviews",
-        );
-        const response = await GET(request);
-        const json = await response.json();
-
-        // Minute 15: processes starter (15 % 15 = 0) and agency (always), skips growth (15 % 10 = 5)
-        expect(json.locationsProcessed).toBe(2);
-        expect(fetchReviews).toHaveBeenCalledTimes(2);
-      } finally {
-        vi.useRealTimers();
-      }
+      const supabase = createMockPollReviewsSupabaseClient({
+        locationsData: [defaultLocation],
+        usersData: [defaultUser],
+        locationPollStateData: [
+          {
+            location_id: "loc-1",
+            high_water_mark: "2025-01-02T00:00:00+00:00",
+            pending_high_water_mark: null,
+            next_page_token: null,
+            // Recent complete fetch, so this is an incremental pass
+            last_full_scan_at: new Date().toISOString(),
+          },
+        ],
+      });
+      vi.mocked(createAdminSupabaseClient).mockReturnValue(supabase as never);
+
+      const request = makeNextRequest("http://localhost/api/cron/poll-reviews");
+      await GET(request);
+
+      expect(fetchReviews).toHaveBeenCalledTimes(1);
+      expect(getLocationPollStateUpserts(supabase)).toEqual([
+        expect.objectContaining({
+          high_water_mark: "2025-01-03T00:00:00Z",
+          next_page_token: null,
+        }),
+      ]);
+    });
+
+    it("resumes an unfinished pass from the stored cursor", async () => {
+      vi.mocked(fetchReviews).mockResolvedValueOnce({
+        reviews: [makeReview("ext-1", "2025-01-01T00:00:00Z")],
+      });
+
+      const supabase = createMockPollReviewsSupabaseClient({
+        locationsData: [defaultLocation],
+        usersData: [defaultUser],
+        locationPollStateData: [
+          {
+            location_id: "loc-1",
+            high_water_mark: null,
+            pending_high_water_mark: "2025-01-05T00:00:00Z",
+            next_page_token: "page-7",
+          },
+        ],
+      });
+      vi.mocked(createAdminSupabaseClient).mockReturnValue(supabase as never);
+
+      const request = makeNextRequest("http://localhost/api/cron/poll-reviews");
+      await GET(request);
+
+      expect(fetchReviews).toHaveBeenCalledWith(
+        "access-token",
+        "acc-1",
+        "loc-1",
+        "page-7",
+      );
+      expect(getLocationPollStateUpserts(supabase)).toEqual([
+        expect.objectContaining({
+          high_water_mark: "2025-01-05T00:00:00Z",
+          pending_high_water_mark: null,
+          next_page_token: null,
+        }),
+      ]);
+    });
+
+    it("saves the cursor and stops when the time budget is exhausted", async () => {
+      let now = 1_000_000;
+      vi.spyOn(Date, "now").mockImplementation(() => now);
+      vi.mocked(fetchReviews).mockImplementationOnce(async () => {
+        // Simulate a slow Google API response that uses up the run's budget
+        now += 60_000;
+        return {
+          reviews: [makeReview("ext-9", "2025-01-09T00:00:00Z")],
+          nextPageToken: "page-2",
+        };
+      });
+
+      const supabase = createMockPollReviewsSupabaseClient({
+        locationsData: [
+          defaultLocation,
+          createMockLocation({
+            id: "loc-2",
+            google_account_id: "acc-1",
+            google_location_id: "loc-2",
+            name: "Location 2",
+            organization_id: "org-1",
+          }),
+        ],
+        usersData: [defaultUser],
+      });
+      vi.mocked(createAdminSupabaseClient).mockReturnValue(supabase as never);
+
+      const request = makeNextRequest("http://localhost/api/cron/poll-reviews");
+      const response = await GET(request);
+      const json = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(fetchReviews).toHaveBeenCalledTimes(1);
+      expect(json.budgetExhausted).toBe(true);
+      expect(json.locationsProcessed).toBe(1);
+      expect(getLocationPollStateUpserts(supabase)).toEqual([
+        expect.objectContaining({
+          location_id: "loc-1",
+          high_water_mark: null,
+          pending_high_water_mark: "2025-01-09T00:00:00Z",
+          next_page_token: "page-2",
+        }),
+      ]);
+    });
+
+    it("saves the cursor and stops when Google starts rate-limiting", async () => {
+      vi.mocked(fetchReviews)
+        .mockResolvedValueOnce({
+          reviews: [makeReview("ext-9", "2025-01-09T00:00:00Z")],
+          nextPageToken: "page-2",
+        })
+        .mockImplementationOnce(async () => {
+          // The request layer opens its circuit breaker as it gives up
+          vi.mocked(getGoogleRateLimitRetryAfter).mockReturnValue(30);
+          throw new GoogleAPIError(
+            429,
+            "Google API rate limit reached. Try again in 30 seconds.",
+            30,
+          );
+        });
+
+      const supabase = createMockPollReviewsSupabaseClient({
+        locationsData: [
+          defaultLocation,
+          createMockLocation({
+            id: "loc-2",
+            google_account_id: "acc-1",
+            google_location_id: "loc-2",
+            name: "Location 2",
+            organization_id: "org-1",
+          }),
+        ],
+        usersData: [defaultUser],
+      });
+      vi.mocked(createAdminSupabaseClient).mockReturnValue(supabase as never);
+
+      const request = makeNextRequest("http://localhost/api/cron/poll-reviews");
+      const response = await GET(request);
+      const json = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(fetchReviews).toHaveBeenCalledTimes(2);
+      expect(json.rateLimited).toBe(true);
+      expect(json.errors).toContain(
+        "Location Location 1: Google API rate limit reached. Try again in 30 seconds.",
+      );
+      // Rate limits apply to the whole project, so the location isn't marked as failing
+      const upserts = getLocationPollStateUpserts(supabase);
+      expect(upserts).toEqual([
+        expect.objectContaining({
+          location_id: "loc-1",
+          pending_high_water_mark: "2025-01-09T00:00:00Z",
+          next_page_token: "page-2",
+        }),
+      ]);
+      expect(upserts[0]).not.toHaveProperty("consecutive_failures");
+    });
+
+    it("leaves health unchanged when Google rate-limits page 2", async () => {
+      vi.mocked(fetchReviews)
+        .mockResolvedValueOnce({
+          reviews: [makeReview("ext-9", "2025-01-09T00:00:00Z")],
+          nextPageToken: "page-2",
+        })
+        .mockRejectedValueOnce(
+          new GoogleAPIError(429, "Google API rate limit reached", 60),
+        );
+      const supabase = createMockPollReviewsSupabaseClient({
+        locationsData: [defaultLocation],
+        usersData: [defaultUser],
+        locationPollStateData: [
+          {
+            location_id: "loc-1",
+            high_water_mark: null,
+            pending_high_water_mark: null,
+            next_page_token: null,
+            last_full_scan_at: new Date().toISOString(),
+            consecutive_failures: 2,
+          },
+        ],
+      });
+      vi.mocked(createAdminSupabaseClient).mockReturnValue(supabase as never);
+
+      const request = makeNextRequest("http://localhost/api/cron/poll-reviews");
+      const json = await (await GET(request)).json();
+
+      expect(json.rateLimited).toBe(true);
+      const [upsert] = getLocationPollStateUpserts(supabase);
+      expect(upsert).toMatchObject({
+        next_page_token: "page-2",
+        last_polled_at: expect.any(String),
+      });
+      // The scan stopped early, so it is not recorded as a success or a failure
+      for (const field of [
+        "last_success_at",
+        "consecutive_failures",
+        "consecutive_not_found",
+        "last_error_code",
+        "last_error",
+        "next_retry_at",
+      ]) {
+        expect(upsert).not.toHaveProperty(field);
+      }
+    });
+
+    it("leaves a location due when its first request is rate-limited", async () => {
+      vi.mocked(fetchReviews).mockRejectedValueOnce(
+        new GoogleAPIError(429, "Google API rate limit reached", 60),
+      );
+      const supabase = createMockPollReviewsSupabaseClient({
+        locationsData: [defaultLocation],
+        usersData: [defaultUser],
+      });
+      vi.mocked(createAdminSupabaseClient).mockReturnValue(supabase as never);
+
+      const request = makeNextRequest("http://localhost/api/cron/poll-reviews");
+      const response = await GET(request);
+      const json = await response.json();
+
+      expect(json.rateLimited).toBe(true);
+      expect(json.locationsProcessed).toBe(0);
+      expect(getLocationPollStateUpserts(supabase)).toEqual([]);
+    });
+
+    it("does not start polling while the circuit breaker is open", async () => {
+      vi.mocked(getGoogleRateLimitRetryAfter).mockReturnValue(45);
+      const supabase = createMockPollReviewsSupabaseClient({
+        locationsData: [defaultLocation],
+        usersData: [defaultUser],
+      });
+      vi.mocked(createAdminSupabaseClient).mockReturnValue(supabase as never);
+
+      const request = makeNextRequest("http://localhost/api/cron/poll-reviews");
+      const response = await GET(request);
+      const json = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(json.rateLimited).toBe(true);
+      expect(fetchReviews).not.toHaveBeenCalled();
+    });
+
+    it("keeps the cursor on the failed page when saving reviews fails", async () => {
+      vi.mocked(fetchReviews).mockResolvedValueOnce({
+        reviews: [makeReview("ext-4", "2025-01-04T00:00:00Z")],
+        nextPageToken: "page-5",
+      });
+      vi.mocked(typedUpsert).mockReturnValue({
+        select: vi.fn().mockResolvedValue({
+          data: null,
+          error: { message: "Database constraint violation" },
+        }),
+      } as never);
+
+      const supabase = createMockPollReviewsSupabaseClient({
+        locationsData: [defaultLocation],
+        usersData: [defaultUser],
+        locationPollStateData: [
+          {
+            location_id: "loc-1",
+            high_water_mark: null,
+            pending_high_water_mark: "2025-01-05T00:00:00Z",
+            next_page_token: "page-4",
+          },
+        ],
+      });
+      vi.mocked(createAdminSupabaseClient).mockReturnValue(supabase as never);
+
+      const request = makeNextRequest("http://localhost/api/cron/poll-reviews");
+      const response = await GET(request);
+      const json = await response.json();
+
+      expect(fetchReviews).toHaveBeenCalledTimes(1);
+      expect(json.errors).toContain(
+        "Location Location 1: Failed to save reviews",
+      );
+      expect(getLocationPollStateUpserts(supabase)).toEqual([
+        expect.objectContaining({
+          pending_high_water_mark: "2025-01-05T00:00:00Z",
+          next_page_token: "page-4",
+          consecutive_failures: 1,
+          last_error: "Failed to save reviews",
+          next_retry_at: null,
+        }),
+      ]);
+      expect(getLocationPollStateUpserts(supabase)[0]).not.toHaveProperty(
+        "last_success_at",
+      );
+    });
+
+    it("clears a stale cursor rejected by Google", async () => {
+      vi.mocked(fetchReviews).mockRejectedValueOnce(
+        new GoogleAPIError(400, "Failed to fetch reviews: Bad Request"),
+      );
+
+      const supabase = createMockPollReviewsSupabaseClient({
+        locationsData: [defaultLocation],
+        usersData: [defaultUser],
+        locationPollStateData: [
+          {
+            location_id: "loc-1",
+            high_water_mark: "2025-01-01T00:00:00Z",
+            pending_high_water_mark: "2025-01-05T00:00:00Z",
+            next_page_token: "expired-token",
+          },
+        ],
+      });
+      vi.mocked(createAdminSupabaseClient).mockReturnValue(supabase as never);
+
+      const request = makeNextRequest("http://localhost/api/cron/poll-reviews");
+      const response = await GET(request);
+      const json = await response.json();
+
+      expect(json.errors).toContain(
+        "Location Location 1: Failed to fetch reviews: Bad Request",
+      );
+      expect(getLocationPollStateUpserts(supabase)).toEqual([
+        expect.objectContaining({
+          high_water_mark: "2025-01-01T00:00:00Z",
+          pending_high_water_mark: null,
+          next_page_token: null,
+        }),
+      ]);
+    });
+
+    it("continues an unfinished backfill instead of polling the location", async () => {
+      vi.mocked(fetchReviews).mockResolvedValueOnce({
+        reviews: [makeReview("ext-1", "2025-01-01T00:00:00Z")],
+        nextPageToken: "page-2",
+      });
+
+      const supabase = createMockPollReviewsSupabaseClient({
+        locationsData: [defaultLocation],
+        usersData: [defaultUser],
+        locationBackfillsData: [
+          {
+            location_id: "loc-1",
+            status: "running",
+            target_count: 200,
+            imported_count: 199,
+            next_page_token: "backfill-page-4",
+            newest_review_date: "2025-03-01T00:00:00Z",
+            last_error: null,
+            started_at: "2025-03-01T00:00:00Z",
+            completed_at: null,
+            created_at: null,
+            updated_at: null,
+          },
+        ],
+      });
+      vi.mocked(createAdminSupabaseClient).mockReturnValue(supabase as never);
+
+      const request = makeNextRequest("http://localhost/api/cron/poll-reviews");
+      const response = await GET(request);
+      const json = await response.json();
+
+      expect(fetchReviews).toHaveBeenCalledTimes(1);
+      expect(fetchReviews).toHaveBeenCalledWith(
+        "access-token",
+        "acc-1",
+        "loc-1",
+        "backfill-page-4",
+      );
+      expect(json.locationsProcessed).toBe(1);
+      expect(json.reviewsProcessed).toBe(1);
+      // Completing the backfill seeds the poll high-water mark
+      expect(getLocationPollStateUpserts(supabase)).toEqual([
+        expect.objectContaining({
+          location_id: "loc-1",
+          high_water_mark: "2025-03-01T00:00:00Z",
+        }),
+      ]);
+    });
+
+    it("continues polling when location poll state cannot be read", async () => {
+      vi.mocked(fetchReviews).mockResolvedValueOnce({
+        reviews: [makeReview("ext-1", "2025-01-01T00:00:00Z")],
+      });
+
+      vi.mocked(createAdminSupabaseClient).mockReturnValue(
+        createMockPollReviewsSupabaseClient({
+          locationsData: [defaultLocation],
+          usersData: [defaultUser],
+          locationPollStateError: { message: "relation does not exist" },
+        }) as never,
+      );
+
+      const request = makeNextRequest("http://localhost/api/cron/poll-reviews");
+      const response = await GET(request);
+      const json = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(json.locationsProcessed).toBe(1);
+      expect(fetchReviews).toHaveBeenCalledWith(
+        "access-token",
+        "acc-1",
+        "loc-1",
+        undefined,
+      );
+    });
+  });
+
+  describe("review changes", () => {
+    beforeEach(() => {
+      delete process.env.CRON_SECRET;
+      setupSuccessfulMocks();
+    });
+
+    const incrementalPollState = {
+      location_id: "loc-1",
+      high_water_mark: "2025-01-01T00:00:00Z",
+      pending_high_water_mark: null,
+      next_page_token: null,
+      last_full_scan_at: new Date().toISOString(),
+    };
+
+    function makeReview(id: string, date: string, rating = 5, text = "Great!") {
+      return {
+        external_review_id: id,
+        reviewer_name: "Reviewer",
+        rating,
+        review_text: text,
+        review_date: date,
+      };
+    }
+
+    it("records a revision and flags responses when a review is edited", async () => {
+      vi.mocked(fetchReviews).mockResolvedValueOnce({
+        reviews: [makeReview("ext-1", "2025-01-01T00:00:00Z", 2, "Changed")],
+      });
+      const supabase = createMockPollReviewsSupabaseClient({
+        locationsData: [defaultLocation],
+        usersData: [defaultUser],
+        locationPollStateData: [incrementalPollState],
+        storedReviewsData: [
+          {
+            id: "review-1",
+            external_review_id: "ext-1",
+            rating: 5,
+            review_text: "Great!",
+          },
+        ],
+      });
+      vi.mocked(createAdminSupabaseClient).mockReturnValue(supabase as never);
+
+      const request = makeNextRequest("http://localhost/api/cron/poll-reviews");
+      const response = await GET(request);
+      const json = await response.json();
+
+      expect(json.reviewsEdited).toBe(1);
+      expect(
+        getTableChains(supabase, "review_revisions")[0]?.insert,
+      ).toHaveBeenCalledWith([
+        expect.objectContaining({
+          review_id: "review-1",
+          change_type: "edited",
+          old_rating: 5,
+          new_rating: 2,
+          old_text: "Great!",
+          new_text: "Changed",
+        }),
+      ]);
+      const responsesChain = getTableChains(supabase, "responses")[0];
+      expect(responsesChain?.update).toHaveBeenCalledWith({
+        review_changed_at: expect.any(String),
+      });
+      expect(responsesChain?.in).toHaveBeenCalledWith("status", [
+        "draft",
+        "published",
+      ]);
+    });
+
+    it("does not record revisions for unchanged reviews", async () => {
+      vi.mocked(fetchReviews).mockResolvedValueOnce({
+        reviews: [makeReview("ext-1", "2025-01-01T00:00:00Z")],
+      });
+      const supabase = createMockPollReviewsSupabaseClient({
+        locationsData: [defaultLocation],
+        usersData: [defaultUser],
+        locationPollStateData: [incrementalPollState],
+        storedReviewsData: [
+          {
+            id: "review-1",
+            external_review_id: "ext-1",
+            rating: 5,
+            review_text: "Great!",
+          },
+        ],
+      });
+      vi.mocked(createAdminSupabaseClient).mockReturnValue(supabase as never);
+
+      const request = makeNextRequest("http://localhost/api/cron/poll-reviews");
+      const response = await GET(request);
+      const json = await response.json();
+
+      expect(json.reviewsEdited).toBe(0);
+      expect(getTableChains(supabase, "review_revisions")).toHaveLength(0);
+    });
+
+    it("analyzes, tags and escalates new and edited reviews only", async () => {
+      vi.mocked(fetchReviews).mockResolvedValueOnce({
+        reviews: [
+          makeReview("ext-3", "2025-01-03T00:00:00Z", 5, "Loved it"),
+          makeReview("ext-2", "2025-01-02T00:00:00Z", 1, "Parking was awful"),
+          makeReview("ext-1", "2025-01-01T00:00:00Z"),
+        ],
+      });
+      vi.mocked(typedUpsert).mockReturnValue({
+        select: vi.fn().mockResolvedValue({
+          data: [
+            { id: "review-3", external_review_id: "ext-3" },
+            { id: "review-2", external_review_id: "ext-2" },
+            { id: "review-1", external_review_id: "ext-1" },
+          ],
+          error: null,
+        }),
+      } as never);
+      vi.mocked(analyzeReviewSentiment).mockResolvedValue({
+        analyses: [],
+        analyzedCount: 2,
+        error: null,
+      });
+      vi.mocked(escalateReviews).mockResolvedValue({
+        escalatedCount: 1,
+        error: null,
+      });
+      vi.mocked(createAdminSupabaseClient).mockReturnValue(
+        createMockPollReviewsSupabaseClient({
+          locationsData: [defaultLocation],
+          usersData: [defaultUser],
+          locationPollStateData: [incrementalPollState],
+          storedReviewsData: [
+            {
+              id: "review-2",
+              external_review_id: "ext-2",
+              rating: 5,
+              review_text: "Great!",
+            },
+            {
+              id: "review-1",
+              external_review_id: "ext-1",
+              rating: 5,
+              review_text: "Great!",
+            },
+          ],
+        }) as never,
+      );
+
+      const request = makeNextRequest("http://localhost/api/cron/poll-reviews");
+      const response = await GET(request);
+      const json = await response.json();
+
+      expect(analyzeReviewSentiment).toHaveBeenCalledWith(
+        expect.anything(),
+        [
+          { id: "review-3", rating: 5, review_text: "Loved it" },
+          { id: "review-2", rating: 1, review_text: "Parking was awful" },
+        ],
+        "org-1",
+        { deadline: expect.any(Number) },
+      );
+      expect(tagReviews).toHaveBeenCalledWith(
+        expect.anything(),
+        "org-1",
+        [
+          { id: "review-3", rating: 5, review_text: "Loved it" },
+          { id: "review-2", rating: 1, review_text: "Parking was awful" },
+        ],
+        [],
+      );
+      expect(escalateReviews).toHaveBeenCalledWith(expect.anything(), [
+        { id: "review-3", rating: 5, review_text: "Loved it" },
+        { id: "review-2", rating: 1, review_text: "Parking was awful" },
+      ]);
+      expect(json.reviewsAnalyzed).toBe(2);
+      expect(json.reviewsEscalated).toBe(1);
+    });
+
+    it("reports a warning when review escalations cannot be saved", async () => {
+      vi.mocked(fetchReviews).mockResolvedValueOnce({
+        reviews: [makeReview("ext-1", "2025-01-02T00:00:00Z")],
+      });
+      vi.mocked(escalateReviews).mockResolvedValue({
+        escalatedCount: 0,
+        error: "Database error",
+      });
+      vi.mocked(createAdminSupabaseClient).mockReturnValue(
+        createMockPollReviewsSupabaseClient({
+          locationsData: [defaultLocation],
+          usersData: [defaultUser],
+          locationPollStateData: [incrementalPollState],
+        }) as never,
+      );
+
+      const request = makeNextRequest("http://localhost/api/cron/poll-reviews");
+      const response = await GET(request);
+      const json = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(json.errors).toContain(
+        "Warning: Failed to save review escalations for Location 1",
+      );
+    });
+
+    it("reports a warning when review tags cannot be saved", async () => {
+      vi.mocked(fetchReviews).mockResolvedValueOnce({
+        reviews: [makeReview("ext-1", "2025-01-02T00:00:00Z")],
+      });
+      vi.mocked(tagReviews).mockResolvedValue({ error: "Database error" });
+      vi.mocked(createAdminSupabaseClient).mockReturnValue(
+        createMockPollReviewsSupabaseClient({
+          locationsData: [defaultLocation],
+          usersData: [defaultUser],
+          locationPollStateData: [incrementalPollState],
+        }) as never,
+      );
+
+      const request = makeNextRequest("http://localhost/api/cron/poll-reviews");
+      const response = await GET(request);
+      const json = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(json.errors).toContain(
+        "Warning: Failed to save review tags for Location 1",
+      );
+    });
+
+    it("reports a warning when sentiment cannot be saved", async () => {
+      vi.mocked(fetchReviews).mockResolvedValueOnce({
+        reviews: [makeReview("ext-1", "2025-01-02T00:00:00Z")],
+      });
+      vi.mocked(analyzeReviewSentiment).mockResolvedValue({
+        analyses: [],
+        analyzedCount: 0,
+        error: "Database error",
+      });
+      vi.mocked(createAdminSupabaseClient).mockReturnValue(
+        createMockPollReviewsSupabaseClient({
+          locationsData: [defaultLocation],
+          usersData: [defaultUser],
+          locationPollStateData: [incrementalPollState],
+        }) as never,
+      );
+
+      const request = makeNextRequest("http://localhost/api/cron/poll-reviews");
+      const response = await GET(request);
+      const json = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(json.reviewsProcessed).toBe(1);
+      expect(json.errors).toContain(
+        "Warning: Failed to save review sentiment for Location 1",
+      );
+    });
+
+    it("keeps the cursor when stored reviews cannot be loaded", async () => {
+      vi.mocked(fetchReviews).mockResolvedValueOnce({
+        reviews: [makeReview("ext-1", "2025-01-01T00:00:00Z")],
+        nextPageToken: "page-2",
+      });
+      const supabase = createMockPollReviewsSupabaseClient({
+        locationsData: [defaultLocation],
+        usersData: [defaultUser],
+        storedReviewsError: { message: "Database error" },
+      });
+      vi.mocked(createAdminSupabaseClient).mockReturnValue(supabase as never);
+
+      const request = makeNextRequest("http://localhost/api/cron/poll-reviews");
+      const response = await GET(request);
+      const json = await response.json();
+
+      expect(typedUpsert).not.toHaveBeenCalled();
+      expect(json.errors).toContain(
+        "Location Location 1: Failed to save reviews",
+      );
+      expect(getLocationPollStateUpserts(supabase)).toEqual([
+        expect.objectContaining({
+          next_page_token: null,
+          consecutive_failures: 1,
+          last_error_code: null,
+          last_error: "Failed to save reviews",
+        }),
+      ]);
+      expect(getLocationPollStateUpserts(supabase)[0]).not.toHaveProperty(
+        "last_success_at",
+      );
+    });
+
+    it("marks reviews missing from a complete fetch as deleted", async () => {
+      vi.mocked(fetchReviews).mockResolvedValueOnce({
+        reviews: [makeReview("ext-1", "2025-01-01T00:00:00Z")],
+      });
+      const supabase = createMockPollReviewsSupabaseClient({
+        locationsData: [defaultLocation],
+        usersData: [defaultUser],
+        deletedReviewsData: [
+          { id: "review-9", rating: 4, review_text: "Gone soon" },
+        ],
+      });
+      vi.mocked(createAdminSupabaseClient).mockReturnValue(supabase as never);
+
+      const request = makeNextRequest("http://localhost/api/cron/poll-reviews");
+      const response = await GET(request);
+      const json = await response.json();
+
+      expect(json.reviewsDeleted).toBe(1);
+      const reviewsChain = getTableChains(supabase, "reviews").find(
+        (chain) => chain.update?.mock.calls.length,
+      );
+      expect(reviewsChain?.update).toHaveBeenCalledWith({
+        status: "deleted",
+        deleted_at: expect.any(String),
+      });
+      const deletionQuery = reviewsChain?.update?.mock.results[0]
+        ?.value as Record<string, ReturnType<typeof vi.fn>>;
+      expect(deletionQuery.eq).toHaveBeenCalledWith("location_id", "loc-1");
+      expect(deletionQuery.or).toHaveBeenCalledWith(
+        expect.stringMatching(/^last_seen_at\.is\.null,last_seen_at\.lt\./),
+      );
+      expect(
+        getTableChains(supabase, "review_revisions")[0]?.insert,
+      ).toHaveBeenCalledWith([
+        expect.objectContaining({
+          review_id: "review-9",
+          change_type: "deleted",
+          old_rating: 4,
+          new_rating: null,
+          old_text: "Gone soon",
+          new_text: null,
+        }),
+      ]);
+      expect(getLocationPollStateUpserts(supabase)).toEqual([
+        expect.objectContaining({
+          full_scan_started_at: null,
+          last_full_scan_at: expect.any(String),
+        }),
+      ]);
+    });
+
+    it("does not look for deleted reviews on incremental passes", async () => {
+      vi.mocked(fetchReviews).mockResolvedValueOnce({
+        reviews: [makeReview("ext-1", "2025-01-01T00:00:00Z")],
+      });
+      const supabase = createMockPollReviewsSupabaseClient({
+        locationsData: [defaultLocation],
+        usersData: [defaultUser],
+        locationPollStateData: [incrementalPollState],
+      });
+      vi.mocked(createAdminSupabaseClient).mockReturnValue(supabase as never);
+
+      const request = makeNextRequest("http://localhost/api/cron/poll-reviews");
+      const response = await GET(request);
+      const json = await response.json();
+
+      expect(json.reviewsDeleted).toBe(0);
+      for (const chain of getTableChains(supabase, "reviews")) {
+        expect(chain.update).not.toHaveBeenCalled();
+      }
+    });
+
+    it("walks past the high-water mark on a complete fetch without importing unknown older reviews", async () => {
+      vi.mocked(fetchReviews)
+        .mockResolvedValueOnce({
+          reviews: [
+            makeReview("ext-3", "2025-01-03T00:00:00Z"),
+            makeReview("ext-1", "2025-01-01T00:00:00Z"),
+          ],
+          nextPageToken: "page-2",
+        })
+        .mockResolvedValueOnce({
+          reviews: [makeReview("ext-0", "2024-12-31T00:00:00Z")],
+        });
+      const supabase = createMockPollReviewsSupabaseClient({
+        locationsData: [defaultLocation],
+        usersData: [defaultUser],
+        locationPollStateData: [
+          {
+            location_id: "loc-1",
+            high_water_mark: "2025-01-02T00:00:00Z",
+            pending_high_water_mark: null,
+            next_page_token: null,
+            last_full_scan_at: "2024-12-01T00:00:00Z",
+          },
+        ],
+        storedReviewsData: [
+          {
+            id: "review-1",
+            external_review_id: "ext-1",
+            rating: 5,
+            review_text: "Great!",
+          },
+        ],
+      });
+      vi.mocked(createAdminSupabaseClient).mockReturnValue(supabase as never);
+
+      const request = makeNextRequest("http://localhost/api/cron/poll-reviews");
+      await GET(request);
+
+      expect(fetchReviews).toHaveBeenCalledTimes(2);
+      // ext-0 is older than the high-water mark and was never stored
+      expect(typedUpsert).toHaveBeenCalledTimes(1);
+      const upsertedRows = vi.mocked(typedUpsert).mock.calls[0]?.[2] as Array<{
+        external_review_id: string;
+      }>;
+      expect(upsertedRows.map((row) => row.external_review_id)).toEqual([
+        "ext-3",
+        "ext-1",
+      ]);
+    });
+
+    it("saves the complete fetch start with the cursor when the budget runs out", async () => {
+      let now = 1_700_000_000_000;
+      vi.spyOn(Date, "now").mockImplementation(() => now);
+      vi.mocked(fetchReviews).mockImplementationOnce(async () => {
+        now += 50000;
+        return {
+          reviews: [makeReview("ext-1", "2025-01-01T00:00:00Z")],
+          nextPageToken: "page-2",
+        };
+      });
+      const supabase = createMockPollReviewsSupabaseClient({
+        locationsData: [defaultLocation],
+        usersData: [defaultUser],
+      });
+      vi.mocked(createAdminSupabaseClient).mockReturnValue(supabase as never);
+
+      const request = makeNextRequest("http://localhost/api/cron/poll-reviews");
+      await GET(request);
+
+      expect(getLocationPollStateUpserts(supabase)).toEqual([
+        expect.objectContaining({
+          next_page_token: "page-2",
+          full_scan_started_at: expect.any(String),
+          last_full_scan_at: null,
+        }),
+      ]);
+      for (const chain of getTableChains(supabase, "reviews")) {
+        expect(chain.update).not.toHaveBeenCalled();
+      }
+    });
+  });
+
+  describe("Google replies", () => {
+    beforeEach(() => {
+      delete process.env.CRON_SECRET;
+      setupSuccessfulMocks();
+      vi.mocked(typedUpsert).mockReturnValue({
+        select: vi.fn().mockResolvedValue({
+          data: [{ id: "review-1", external_review_id: "ext-1" }],
+          error: null,
+        }),
+      } as never);
+    });
+
+    it("saves replies written on Google as external responses", async () => {
+      vi.mocked(fetchReviews).mockResolvedValueOnce({
+        reviews: [
+          {
+            external_review_id: "ext-1",
+            reviewer_name: "Reviewer",
+            rating: 5,
+            review_text: "Great!",
+            review_date: "2025-01-01T00:00:00Z",
+            reply: {
+              comment: "Thank you!",
+              updated_at: "2025-01-02T00:00:00Z",
+            },
+          },
+        ],
+      });
+      const supabase = createMockPollReviewsSupabaseClient({
+        locationsData: [defaultLocation],
+        usersData: [defaultUser],
+      });
+      vi.mocked(createAdminSupabaseClient).mockReturnValue(supabase as never);
+
+      const request = makeNextRequest("http://localhost/api/cron/poll-reviews");
+      const response = await GET(request);
+      const json = await response.json();
+
+      expect(json.repliesSynced).toBe(1);
+      const responsesChain = getTableChains(supabase, "responses").find(
+        (chain) => chain.upsert?.mock.calls.length,
+      );
+      expect(responsesChain?.upsert).toHaveBeenCalledWith(
+        [
+          {
+            review_id: "review-1",
+            status: "published",
+            source: "external",
+            final_text: "Thank you!",
+            published_at: "2025-01-02T00:00:00Z",
+            google_reply_text: "Thank you!",
+            google_reply_updated_at: "2025-01-02T00:00:00Z",
+          },
+        ],
+        { onConflict: "review_id" },
+      );
+    });
+
+    it("does not touch responses for unanswered reviews", async () => {
+      vi.mocked(fetchReviews).mockResolvedValueOnce({
+        reviews: [
+          {
+            external_review_id: "ext-1",
+            reviewer_name: "Reviewer",
+            rating: 5,
+            review_text: "Great!",
+            review_date: "2025-01-01T00:00:00Z",
+            reply: null,
+          },
+        ],
+      });
+      const supabase = createMockPollReviewsSupabaseClient({
+        locationsData: [defaultLocation],
+        usersData: [defaultUser],
+      });
+      vi.mocked(createAdminSupabaseClient).mockReturnValue(supabase as never);
+
+      const request = makeNextRequest("http://localhost/api/cron/poll-reviews");
+      const response = await GET(request);
+      const json = await response.json();
+
+      expect(json.repliesSynced).toBe(0);
+      expect(getTableChains(supabase, "responses")).toHaveLength(0);
+    });
+  });
+
+  describe("location health", () => {
+    beforeEach(() => {
+      delete process.env.CRON_SECRET;
+      setupSuccessfulMocks();
+    });
+
+    function pollState(overrides: Record<string, unknown> = {}) {
+      return {
+        location_id: "loc-1",
+        high_water_mark: null,
+        pending_high_water_mark: null,
+        next_page_token: null,
+        last_full_scan_at: new Date().toISOString(),
+        ...overrides,
+      };
+    }
+
+    it("records a failure and backs off on a Google 5xx", async () => {
+      vi.mocked(fetchReviews).mockRejectedValueOnce(
+        new GoogleAPIError(503, "Service unavailable"),
+      );
+      const supabase = createMockPollReviewsSupabaseClient({
+        locationsData: [defaultLocation],
+        usersData: [defaultUser],
+        locationPollStateData: [pollState({ consecutive_failures: 2 })],
+      });
+      vi.mocked(createAdminSupabaseClient).mockReturnValue(supabase as never);
+
+      const request = makeNextRequest("http://localhost/api/cron/poll-reviews");
+      await GET(request);
+
+      const [upsert] = getLocationPollStateUpserts(supabase);
+      expect(upsert).toMatchObject({
+        consecutive_failures: 3,
+        consecutive_not_found: 0,
+        last_error_code: 503,
+        last_error: "Service unavailable",
+      });
+      expect(upsert).not.toHaveProperty("last_success_at");
+      // Third failure in a row waits 20 minutes
+      expect(
+        Date.parse(upsert.next_retry_at) - Date.parse(upsert.last_polled_at),
+      ).toBe(20 * 60 * 1000);
+    });
+
+    it("resets health and records the last success after a successful poll", async () => {
+      const supabase = createMockPollReviewsSupabaseClient({
+        locationsData: [defaultLocation],
+        usersData: [defaultUser],
+        locationPollStateData: [
+          pollState({
+            consecutive_failures: 4,
+            consecutive_not_found: 4,
+            last_polled_at: "2025-01-01T00:00:00Z",
+            next_retry_at: "2025-01-01T01:00:00Z",
+          }),
+        ],
+      });
+      vi.mocked(createAdminSupabaseClient).mockReturnValue(supabase as never);
+
+      const request = makeNextRequest("http://localhost/api/cron/poll-reviews");
+      await GET(request);
+
+      expect(getLocationPollStateUpserts(supabase)).toEqual([
+        expect.objectContaining({
+          consecutive_failures: 0,
+          consecutive_not_found: 0,
+          last_error_code: null,
+          last_error: null,
+          next_retry_at: null,
+          last_success_at: expect.any(String),
+        }),
+      ]);
+    });
+
+    it("does not poll a location before its next retry time", async () => {
+      const supabase = createMockPollReviewsSupabaseClient({
+        locationsData: [defaultLocation],
+        usersData: [defaultUser],
+        locationPollStateData: [
+          pollState({
+            last_polled_at: "2025-01-01T00:00:00Z",
+            consecutive_failures: 3,
+            next_retry_at: new Date(Date.now() + 60 * 60 * 1000).toISOString(),
+          }),
+        ],
+      });
+      vi.mocked(createAdminSupabaseClient).mockReturnValue(supabase as never);
+
+      const request = makeNextRequest("http://localhost/api/cron/poll-reviews");
+      await GET(request);
+
+      expect(fetchReviews).not.toHaveBeenCalled();
+    });
+
+    it("deactivates a location after sustained 404s", async () => {
+      vi.mocked(fetchReviews).mockRejectedValueOnce(
+        new GoogleAPIError(404, "Not found"),
+      );
+      const mockEq = vi.fn().mockResolvedValue({ error: null });
+      vi.mocked(typedUpdate).mockReturnValue({ eq: mockEq } as never);
+      const supabase = createMockPollReviewsSupabaseClient({
+        locationsData: [defaultLocation],
+        usersData: [defaultUser],
+        locationPollStateData: [
+          pollState({ consecutive_failures: 5, consecutive_not_found: 5 }),
+        ],
+      });
+      vi.mocked(createAdminSupabaseClient).mockReturnValue(supabase as never);
+
+      const request = makeNextRequest("http://localhost/api/cron/poll-reviews");
+      const response = await GET(request);
+      const json = await response.json();
+
+      expect(typedUpdate).toHaveBeenCalledWith(supabase, "locations", {
+        is_active: false,
+      });
+      expect(mockEq).toHaveBeenCalledWith("id", "loc-1");
+      expect(json.locationsDeactivated).toBe(1);
+      expect(json.errors).toContain(
+        "Location Location 1: Deactivated after repeated not found responses from Google",
+      );
+    });
+
+    it("keeps a location active while 404s are not yet sustained", async () => {
+      vi.mocked(fetchReviews).mockRejectedValueOnce(
+        new GoogleAPIError(404, "Not found"),
+      );
+      const supabase = createMockPollReviewsSupabaseClient({
+        locationsData: [defaultLocation],
+        usersData: [defaultUser],
+        locationPollStateData: [
+          pollState({ consecutive_failures: 5, consecutive_not_found: 2 }),
+        ],
+      });
+      vi.mocked(createAdminSupabaseClient).mockReturnValue(supabase as never);
+
+      const request = makeNextRequest("http://localhost/api/cron/poll-reviews");
+      const response = await GET(request);
+      const json = await response.json();
+
+      expect(typedUpdate).not.toHaveBeenCalled();
+      expect(json.locationsDeactivated).toBe(0);
+      expect(getLocationPollStateUpserts(supabase)).toEqual([
+        expect.objectContaining({ consecutive_not_found: 3 }),
+      ]);
+    });
+  });
+
+  describe("tier-based processing", () => {
+    const now = new Date("2025-01-01T12:00:00Z");
+
+    beforeEach(() => {
+      delete process.env.CRON_SECRET;
+      setupSuccessfulMocks();
+      vi.useFakeTimers();
+      vi.setSystemTime(now);
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    function pollStateFor(locationId: string, minutesAgo: number) {
+      return {
+        location_id: locationId,
+        high_water_mark: null,
+        pending_high_water_mark: null,
+        next_page_token: null,
+        last_polled_at: new Date(
+          now.getTime() - minutesAgo * 60 * 1000,
+        ).toISOString(),
+      };
+    }
+
+    // Test tier processing at different times since the location's last poll
+    it.each([
+      { tier: "starter", minutesAgo: 12, shouldProcess: false },
+      { tier: "starter", minutesAgo: 14, shouldProcess: true },
+      { tier: "growth", minutesAgo: 7, shouldProcess: false },
+      { tier: "growth", minutesAgo: 9, shouldProcess: true },
+      { tier: "agency", minutesAgo: 2, shouldProcess: false },
+      { tier: "agency", minutesAgo: 4, shouldProcess: true },
+      { tier: null, minutesAgo: 12, shouldProcess: false }, // null tier treated as starter
+      { tier: null, minutesAgo: 14, shouldProcess: true },
+    ])("$tier tier polled $minutesAgo minutes ago: shouldProcess=$shouldProcess", async ({
+      tier,
+      minutesAgo,
+      shouldProcess,
+    }) => {
+      vi.mocked(createAdminSupabaseClient).mockReturnValue(
+        createMockPollReviewsSupabaseClient({
+          locationsData: [defaultLocation],
+          usersData: [defaultUser],
+          organizationsData: [{ id: "org-1", plan_tier: tier }],
+          locationPollStateData: [pollStateFor("loc-1", minutesAgo)],
+        }) as never,
+      );
+
+      const request = makeNextRequest("http://localhost/api/cron/poll-reviews");
+      const response = await GET(request);
+      const json = await response.json();
+
+      if (shouldProcess) {
+        expect(json.locationsProcessed).toBe(1);
+        expect(fetchReviews).toHaveBeenCalled();
+      } else {
+        expect(json.locationsProcessed).toBe(0);
+        expect(fetchReviews).not.toHaveBeenCalled();
+      }
+    });
+
+    it("filters locations correctly when multiple tiers are present", async () => {
+      vi.mocked(createAdminSupabaseClient).mockReturnValue(
+        createMockPollReviewsSupabaseClient({
+          locationsData: [
+            createMockLocation({
+              id: "loc-1",
+              name: "Location 1 (starter)",
+              organization_id: "org-1",
+            }),
+            createMockLocation({
+              id: "loc-2",
+              name: "Location 2 (growth)",
+              organization_id: "org-2",
+            }),
+            createMockLocation({
+              id: "loc-3",
+              name: "Location 3 (agency)",
+              organization_id: "org-3",
+            }),
+          ],
+          usersData: [
+            createMockUser({
+              id: "user-1",
+              organization_id: "org-1",
+              google_refresh_token: "token-1",
+            }),
+            createMockUser({
+              id: "user-2",
+              organization_id: "org-2",
+              google_refresh_token: "token-2",
+            }),
+            createMockUser({
+              id: "user-3",
+              organization_id: "org-3",
+              google_refresh_token: "token-3",
+            }),
+          ],
+          organizationsData: [
+            { id: "org-1", plan_tier: "starter" },
+            { id: "org-2", plan_tier: "growth" },
+            { id: "org-3", plan_tier: "agency" },
+          ],
+          locationPollStateData: [
+            pollStateFor("loc-1", 9),
+            pollStateFor("loc-2", 9),
+            pollStateFor("loc-3", 9),
+          ],
+        }) as never,
+      );
+
+      const request = makeNextRequest("http://localhost/api/cron/poll-reviews");
+      const response = await GET(request);
+      const json = await response.json();
+
+      // 9 minutes since last poll: growth (8) and agency (3) are due, starter (13) is not
+      expect(json.locationsProcessed).toBe(2);
+      expect(fetchReviews).toHaveBeenCalledTimes(2);
+    });
+
+    it("polls the most overdue locations first and reports the backlog", async () => {
+      const manyLocations = Array.from({ length: 52 }, (_, i) =>
+        createMockLocation({
+          id: `loc-${i}`,
+          google_location_id: `gloc-${i}`,
+          name: `Location ${i}`,
+          organization_id: "org-1",
+        }),
+      );
+      vi.mocked(createAdminSupabaseClient).mockReturnValue(
+        createMockPollReviewsSupabaseClient({
+          locationsData: manyLocations,
+          usersData: [defaultUser],
+          // loc-0 was polled longest ago, loc-51 most recently
+          locationPollStateData: manyLocations.map((location, i) =>
+            pollStateFor(location.id, 60 - i),
+          ),
+        }) as never,
+      );
+
+      const request = makeNextRequest("http://localhost/api/cron/poll-reviews");
+      const response = await GET(request);
+      const json = await response.json();
+
+      expect(json.locationsProcessed).toBe(50);
+      expect(json.backlogDepth).toBe(2);
+      expect(json.oldestStalenessMinutes).toBe(60);
+      const polledLocationIds = vi
+        .mocked(fetchReviews)
+        .mock.calls.map((call) => call[2]);
+      expect(polledLocationIds[0]).toBe("gloc-0");
+      expect(polledLocationIds).not.toContain("gloc-50");
+      expect(polledLocationIds).not.toContain("gloc-51");
+    });
+
+    it("ranks overdue locations relative to their tier interval", async () => {
+      vi.mocked(createAdminSupabaseClient).mockReturnValue(
+        createMockPollReviewsSupabaseClient({
+          locationsData: [
+            createMockLocation({
+              id: "loc-1",
+              google_location_id: "gloc-starter",
+              organization_id: "org-1",
+            }),
+            createMockLocation({
+              id: "loc-2",
+              google_location_id: "gloc-agency",
+              organization_id: "org-2",
+            }),
+          ],
+          usersData: [
+            createMockUser({
+              id: "user-1",
+              organization_id: "org-1",
+              google_refresh_token: "token-1",
+            }),
+            createMockUser({
+              id: "user-2",
+              organization_id: "org-2",
+              google_refresh_token: "token-2",
+            }),
+          ],
+          organizationsData: [
+            { id: "org-1", plan_tier: "starter" },
+            { id: "org-2", plan_tier: "agency" },
+          ],
+          // Starter is 20 minutes behind (1.3 intervals), agency 10 minutes (2 intervals)
+          locationPollStateData: [
+            pollStateFor("loc-1", 20),
+            pollStateFor("loc-2", 10),
+          ],
+        }) as never,
+      );
+
+      const request = makeNextRequest("http://localhost/api/cron/poll-reviews");
+      await GET(request);
+
+      expect(vi.mocked(fetchReviews).mock.calls.map((call) => call[2])).toEqual(
+        ["gloc-agency", "gloc-starter"],
+      );
+    });
+
+    it("measures staleness of never-polled locations from creation", async () => {
+      vi.mocked(createAdminSupabaseClient).mockReturnValue(
+        createMockPollReviewsSupabaseClient({
+          locationsData: [
+            createMockLocation({
+              id: "loc-1",
+              organization_id: "org-1",
+              created_at: "2025-01-01T11:00:00Z",
+            }),
+          ],
+          usersData: [defaultUser],
+        }) as never,
+      );
+
+      const request = makeNextRequest("http://localhost/api/cron/poll-reviews");
+      const response = await GET(request);
+      const json = await response.json();
+
+      expect(json.locationsProcessed).toBe(1);
+      expect(json.backlogDepth).toBe(0);
+      expect(json.oldestStalenessMinutes).toBe(60);
+    });
+
+    it("does not schedule locations without a connected user", async () => {
+      vi.mocked(createAdminSupabaseClient).mockReturnValue(
+        createMockPollReviewsSupabaseClient({
+          locationsData: [
+            createMockLocation({ id: "loc-1", organization_id: "org-1" }),
+            createMockLocation({ id: "loc-2", organization_id: "org-2" }),
+          ],
+          usersData: [defaultUser],
+          organizationsData: [
+            { id: "org-1", plan_tier: "agency" },
+            { id: "org-2", plan_tier: "agency" },
+          ],
+        }) as never,
+      );
+
+      const request = makeNextRequest("http://localhost/api/cron/poll-reviews");
+      const response = await GET(request);
+      const json = await response.json();
+
+      expect(json.locationsProcessed).toBe(1);
+      expect(json.backlogDepth).toBe(0);
+    });
+
+    it("records the poll time when fetching fails so the location rotates", async () => {
+      vi.mocked(fetchReviews).mockRejectedValue(
+        new GoogleAPIError(500, "Failed to fetch reviews"),
+      );
+      const supabase = createMockPollReviewsSupabaseClient({
+        locationsData: [defaultLocation],
+        usersData: [defaultUser],
+        locationPollStateData: [pollStateFor("loc-1", 30)],
+      });
+      vi.mocked(createAdminSupabaseClient).mockReturnValue(supabase as never);
+
+      const request = makeNextRequest("http://localhost/api/cron/poll-reviews");
+      await GET(request);
+
+      expect(getLocationPollStateUpserts(supabase)).toEqual([
+        expect.objectContaining({
+          location_id: "loc-1",
+          last_polled_at: now.toISOString(),
+        }),
+      ]);
     });
   });
 
@@ -709,7 +2471,7 @@ describe("GET /api/cron/poll-reviews", () => {
       const request = makeNextRequest("http://localhost/api/cron/poll-reviews");
       await GET(request);
 
-      expect(refreshAccessToken).toHaveBeenCalledTimes(1);
+      expect(getAccessToken).toHaveBeenCalledTimes(1);
       expect(fetchReviews).toHaveBeenCalledTimes(2);
     });
 
@@ -869,7 +2631,7 @@ describe("GET /api/cron/poll-reviews", () => {
         name: "token refresh errors",
         setupMocks: () => {
           vi.mocked(decryptToken).mockReturnValue("decrypted-token");
-          vi.mocked(refreshAccessToken).mockRejectedValue(
+          vi.mocked(getAccessToken).mockRejectedValue(
             new Error("Token refresh failed"),
           );
         },
@@ -880,7 +2642,7 @@ describe("GET /api/cron/poll-reviews", () => {
         name: "fetchReviews errors",
         setupMocks: () => {
           vi.mocked(decryptToken).mockReturnValue("decrypted-token");
-          vi.mocked(refreshAccessToken).mockResolvedValue("access-token");
+          vi.mocked(getAccessToken).mockResolvedValue("access-token");
           vi.mocked(fetchReviews).mockRejectedValue(new Error("API error"));
         },
         expectedLocationsProcessed: 0,
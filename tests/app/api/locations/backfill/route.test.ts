@@ -0,0 +1,254 @@
+vi.mock("@/lib/supabase/server", () => ({
+  createServerSupabaseClient: vi.fn(),
+}));
+
+vi.mock("@/lib/crypto/encryption", () => ({
+  decryptToken: vi.fn(),
+  TokenDecryptionError: class TokenDecryptionError extends Error {
+    constructor(message: string) {
+      super(message);
+      this.name = "TokenDecryptionError";
+    }
+  },
+}));
+
+vi.mock("@/lib/google/client", () => ({
+  getAccessToken: vi.fn(),
+  GoogleAPIError: class GoogleAPIError extends Error {
+    constructor(
+      public status: number,
+      message: string,
+    ) {
+      super(message);
+      this.name = "GoogleAPIError";
+    }
+  },
+}));
+
+vi.mock("@/lib/reviews/backfill", () => ({
+  getBackfillLimit: vi.fn(),
+  runLocationBackfill: vi.fn(),
+}));
+
+import { POST } from "@/app/api/locations/backfill/route";
+import { decryptToken, TokenDecryptionError } from "@/lib/crypto/encryption";
+import { GoogleAPIError, getAccessToken } from "@/lib/google/client";
+import { getBackfillLimit, runLocationBackfill } from "@/lib/reviews/backfill";
+import { createServerSupabaseClient } from "@/lib/supabase/server";
+
+const pendingBackfill = {
+  location_id: "loc-1",
+  status: "pending",
+  target_count: null,
+  imported_count: 0,
+  next_page_token: null,
+  newest_review_date: null,
+  last_error: null,
+  started_at: null,
+  completed_at: null,
+  created_at: null,
+  updated_at: null,
+  locations: {
+    id: "loc-1",
+    name: "Location 1",
+    google_account_id: "acc-1",
+    google_location_id: "gloc-1",
+    organization_id: "org-1",
+  },
+};
+
+/**
+ * Build a Supabase mock for the backfill route.
+ */
+function createSupabaseMock(config: {
+  user?: { id: string } | null;
+  userData?: {
+    organization_id: string | null;
+    google_refresh_token: string | null;
+  } | null;
+  backfills?: unknown[] | null;
+  backfillsError?: { message: string } | null;
+}) {
+  const backfillIn = vi.fn().mockResolvedValue({
+    data: config.backfills ?? [],
+    error: config.backfillsError ?? null,
+  });
+  const usersUpdateEq = vi.fn().mockResolvedValue({ error: null });
+  const usersUpdate = vi.fn().mockReturnValue({ eq: usersUpdateEq });
+
+  const supabase = {
+    auth: {
+      getUser: vi.fn().mockResolvedValue({
+        data: { user: config.user === undefined ? { id: "user-1" } : null },
+      }),
+    },
+    from: vi.fn((table: string) => {
+      if (table === "users") {
+        return {
+          select: vi.fn().mockReturnValue({
+            eq: vi.fn().mockReturnValue({
+              single: vi.fn().mockResolvedValue({
+                data:
+                  config.userData === undefined
+                    ? {
+                        organization_id: "org-1",
+                        google_refresh_token: "encrypted-token",
+                      }
+                    : config.userData,
+                error: null,
+              }),
+            }),
+          }),
+          update: usersUpdate,
+        };
+      }
+      if (table === "location_backfills") {
+        return {
+          select: vi.fn().mockReturnValue({
+            eq: vi.fn().mockReturnValue({ in: backfillIn }),
+          }),
+        };
+      }
+      if (table === "organizations") {
+        return {
+          select: vi.fn().mockReturnValue({
+            eq: vi.fn().mockReturnValue({
+              single: vi.fn().mockResolvedValue({
+                data: { plan_tier: "growth" },
+                error: null,
+              }),
+            }),
+          }),
+        };
+      }
+      return {};
+    }),
+  };
+
+  return { supabase, usersUpdate };
+}
+
+describe("POST /api/locations/backfill", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    vi.mocked(decryptToken).mockReturnValue("refresh-token");
+    vi.mocked(getAccessToken).mockResolvedValue("access-token");
+    vi.mocked(getBackfillLimit).mockReturnValue(500);
+  });
+
+  it("returns 401 when unauthenticated", async () => {
+    const { supabase } = createSupabaseMock({ user: null });
+    vi.mocked(createServerSupabaseClient).mockResolvedValue(supabase as never);
+
+    const response = await POST();
+
+    expect(response.status).toBe(401);
+  });
+
+  it("returns 400 when Google account not connected", async () => {
+    const { supabase } = createSupabaseMock({
+      userData: { organization_id: "org-1", google_refresh_token: null },
+    });
+    vi.mocked(createServerSupabaseClient).mockResolvedValue(supabase as never);
+
+    const response = await POST();
+
+    expect(response.status).toBe(400);
+    await expect(response.json()).resolves.toMatchObject({
+      code: "GOOGLE_NOT_CONNECTED",
+    });
+  });
+
+  it("returns empty list without refreshing tokens when nothing is pending", async () => {
+    const { supabase } = createSupabaseMock({ backfills: [] });
+    vi.mocked(createServerSupabaseClient).mockResolvedValue(supabase as never);
+
+    const response = await POST();
+
+    expect(response.status).toBe(200);
+    await expect(response.json()).resolves.toEqual({ backfills: [] });
+    expect(getAccessToken).not.toHaveBeenCalled();
+  });
+
+  it("returns 500 when backfills cannot be fetched", async () => {
+    const { supabase } = createSupabaseMock({
+      backfillsError: { message: "Database error" },
+    });
+    vi.mocked(createServerSupabaseClient).mockResolvedValue(supabase as never);
+
+    const response = await POST();
+
+    expect(response.status).toBe(500);
+    await expect(response.json()).resolves.toMatchObject({ code: "DB_ERROR" });
+  });
+
+  it("advances pending backfills with the plan tier limit", async () => {
+    const { supabase } = createSupabaseMock({ backfills: [pendingBackfill] });
+    vi.mocked(createServerSupabaseClient).mockResolvedValue(supabase as never);
+    vi.mocked(runLocationBackfill).mockResolvedValue({
+      location_id: "loc-1",
+      status: "running",
+      imported_count: 50,
+      target_count: 500,
+      last_error: null,
+    });
+
+    const response = await POST();
+
+    expect(response.status).toBe(200);
+    await expect(response.json()).resolves.toEqual({
+      backfills: [
+        {
+          location_id: "loc-1",
+          status: "running",
+          imported_count: 50,
+          target_count: 500,
+          last_error: null,
+        },
+      ],
+    });
+    expect(getBackfillLimit).toHaveBeenCalledWith("growth");
+    expect(runLocationBackfill).toHaveBeenCalledWith(
+      supabase,
+      "access-token",
+      pendingBackfill.locations,
+      expect.objectContaining({ location_id: "loc-1", status: "pending" }),
+      { targetCount: 500, deadline: expect.any(Number) },
+    );
+  });
+
+  it("clears the token and returns 401 when Google auth expired", async () => {
+    const { supabase, usersUpdate } = createSupabaseMock({
+      backfills: [pendingBackfill],
+    });
+    vi.mocked(createServerSupabaseClient).mockResolvedValue(supabase as never);
+    vi.mocked(getAccessToken).mockRejectedValue(
+      new GoogleAPIError(401, "Token expired"),
+    );
+
+    const response = await POST();
+
+    expect(response.status).toBe(401);
+    await expect(response.json()).resolves.toMatchObject({
+      code: "GOOGLE_AUTH_EXPIRED",
+    });
+    expect(usersUpdate).toHaveBeenCalledWith({ google_refresh_token: null });
+    expect(runLocationBackfill).not.toHaveBeenCalled();
+  });
+
+  it("clears the token and returns 401 when decryption fails", async () => {
+    const { supabase, usersUpdate } = createSupabaseMock({
+      backfills: [pendingBackfill],
+    });
+    vi.mocked(createServerSupabaseClient).mockResolvedValue(supabase as never);
+    vi.mocked(decryptToken).mockImplementation(() => {
+      throw new TokenDecryptionError("bad data");
+    });
+
+    const response = await POST();
+
+    expect(response.status).toBe(401);
+    expect(usersUpdate).toHaveBeenCalledWith({ google_refresh_token: null });
+  });
+});
@@ -7,20 +7,15 @@ vi.mock("@/lib/supabase/server", () => {
   };
 });
 
-vi.mock("@/lib/google/client", () => {
+vi.mock("@/lib/google/client", async (importOriginal) => {
+  const { GoogleAPIError, withAccessTokenRetry } =
+    await importOriginal<typeof import("@/lib/google/client")>();
   return {
-    refreshAccessToken: vi.fn(),
+    getAccessToken: vi.fn(),
     fetchAccounts: vi.fn(),
     fetchLocations: vi.fn(),
-    GoogleAPIError: class GoogleAPIError extends Error {
-      constructor(
-        public status: number,
-        message: string,
-      ) {
-        super(message);
-        this.name = "GoogleAPIError";
-      }
-    },
+    withAccessTokenRetry,
+    GoogleAPIError,
   };
 });
 
@@ -30,7 +25,7 @@ import {
   fetchAccounts,
   fetchLocations,
   GoogleAPIError,
-  refreshAccessToken,
+  getAccessToken,
 } from "@/lib/google/client";
 import { createServerSupabaseClient } from "@/lib/supabase/server";
 
@@ -153,7 +148,23 @@ describe("GET /api/locations", () => {
               eq: vi.fn().mockReturnValue({
                 eq: vi.fn().mockResolvedValue({
                   data: [
-                    { id: "db-loc-1", google_location_id: "loc-1" },
+                    {
+                      id: "db-loc-1",
+                      google_location_id: "loc-1",
+                      location_backfills: {
+                        location_id: "db-loc-1",
+                        status: "running",
+                        imported_count: 50,
+                        target_count: 200,
+                        last_error: null,
+                      },
+                      location_poll_state: {
+                        last_success_at: "2025-01-01T10:00:00Z",
+                        consecutive_failures: 2,
+                        last_error: "Service unavailable",
+                        next_retry_at: "2025-01-01T10:30:00Z",
+                      },
+                    },
                     { id: "db-loc-3", google_location_id: "loc-3" },
                   ],
                 }),
@@ -169,7 +180,7 @@ describe("GET /api/locations", () => {
       mockSupabase as never,
     );
 
-    vi.mocked(refreshAccessToken).mockResolvedValue("access-token");
+    vi.mocked(getAccessToken).mockResolvedValue("access-token");
     vi.mocked(fetchAccounts).mockResolvedValue([
       { accountId: "acc-1", name: "Account 1" },
     ]);
@@ -209,6 +220,21 @@ describe("GET /api/locations", () => {
     });
     expect(data.locations[1].is_synced).toBe(false); // loc-2 not synced
     expect(data.locations[2].is_synced).toBe(true); // loc-3 is synced
+    expect(data.locations[0].backfill).toEqual({
+      location_id: "db-loc-1",
+      status: "running",
+      imported_count: 50,
+      target_count: 200,
+      last_error: null,
+    });
+    expect(data.locations[2].backfill).toBeUndefined();
+    expect(data.locations[0].sync_health).toEqual({
+      last_success_at: "2025-01-01T10:00:00Z",
+      consecutive_failures: 2,
+      last_error: "Service unavailable",
+      next_retry_at: "2025-01-01T10:30:00Z",
+    });
+    expect(data.locations[2].sync_health).toBeUndefined();
   });
 
   it("returns 401 when Google auth expires", async () => {
@@ -237,7 +263,7 @@ describe("GET /api/locations", () => {
       }),
     } as never);
 
-    vi.mocked(refreshAccessToken).mockRejectedValue(
+    vi.mocked(getAccessToken).mockRejectedValue(
       new GoogleAPIError(401, "Token expired"),
     );
 
@@ -250,6 +276,54 @@ describe("GET /api/locations", () => {
     });
   });
 
+  it("refreshes an access token Google rejects and fetches with the new one", async () => {
+    const encryptedToken = encryptToken("refresh-token");
+
+    vi.mocked(createServerSupabaseClient).mockResolvedValue({
+      auth: {
+        getUser: vi.fn().mockResolvedValue({
+          data: { user: { id: "user-1" } },
+        }),
+      },
+      from: vi.fn().mockReturnValue({
+        select: vi.fn().mockReturnValue({
+          eq: vi.fn().mockReturnValue({
+            single: vi.fn().mockResolvedValue({
+              data: {
+                id: "user-1",
+                google_refresh_token: encryptedToken,
+                organization_id: null,
+              },
+              error: null,
+            }),
+          }),
+        }),
+      }),
+    } as never);
+
+    vi.mocked(getAccessToken)
+      .mockResolvedValueOnce("rejected-access-token")
+      .mockResolvedValueOnce("fresh-access-token");
+    vi.mocked(fetchAccounts)
+      .mockRejectedValueOnce(
+        new GoogleAPIError(401, "Failed to fetch accounts: Unauthorized"),
+      )
+      .mockResolvedValueOnce([{ accountId: "acc-1", name: "Account 1" }]);
+    vi.mocked(fetchLocations).mockResolvedValue([]);
+
+    const response = await GET();
+
+    expect(response.status).toBe(200);
+    expect(getAccessToken).toHaveBeenLastCalledWith(
+      "user-1",
+      "refresh-token",
+      expect.anything(),
+      { forceRefresh: true },
+    );
+    expect(fetchAccounts).toHaveBeenLastCalledWith("fresh-access-token");
+    expect(fetchLocations).toHaveBeenCalledWith("fresh-access-token", "acc-1");
+  });
+
   it("returns 500 on unexpected error", async () => {
     vi.spyOn(console, "error").mockImplementation(() => {});
     vi.mocked(createServerSupabaseClient).mockRejectedValue(
@@ -354,7 +428,7 @@ describe("GET /api/locations", () => {
       mockSupabase as never,
     );
 
-    vi.mocked(refreshAccessToken).mockResolvedValue("access-token");
+    vi.mocked(getAccessToken).mockResolvedValue("access-token");
     vi.mocked(fetchAccounts).mockResolvedValue([
       { accountId: "acc-1", name: "Account 1" },
       { accountId: "acc-2", name: "Account 2" },
@@ -424,7 +498,7 @@ describe("GET /api/locations", () => {
       mockSupabase as never,
     );
 
-    vi.mocked(refreshAccessToken).mockResolvedValue("access-token");
+    vi.mocked(getAccessToken).mockResolvedValue("access-token");
     vi.mocked(fetchAccounts).mockResolvedValue([
       { accountId: "acc-1", name: "Account 1" },
     ]);
@@ -533,6 +607,20 @@ describe("POST /api/locations", () => {
   });
 
   it("creates organization when user has none", async () => {
+    const mockBackfillUpsert = vi.fn().mockReturnValue({
+      select: vi.fn().mockResolvedValue({
+        data: [
+          {
+            location_id: "loc-1",
+            status: "pending",
+            imported_count: 0,
+            target_count: null,
+            last_error: null,
+          },
+        ],
+        error: null,
+      }),
+    });
     const mockSupabase = {
       auth: {
         getUser: vi.fn().mockResolvedValue({
@@ -588,6 +676,11 @@ describe("POST /api/locations", () => {
             }),
           };
         }
+        if (table === "location_backfills") {
+          return {
+            upsert: mockBackfillUpsert,
+          };
+        }
         return {};
       }),
     };
@@ -619,6 +712,20 @@ describe("POST /api/locations", () => {
   });
 
   it("upserts locations for existing organization", async () => {
+    const mockBackfillUpsert = vi.fn().mockReturnValue({
+      select: vi.fn().mockResolvedValue({
+        data: [
+          {
+            location_id: "loc-1",
+            status: "pending",
+            imported_count: 0,
+            target_count: null,
+            last_error: null,
+          },
+        ],
+        error: null,
+      }),
+    });
     const mockSupabase = {
       auth: {
         getUser: vi.fn().mockResolvedValue({
@@ -667,6 +774,11 @@ describe("POST /api/locations", () => {
             }),
           };
         }
+        if (table === "location_backfills") {
+          return {
+            upsert: mockBackfillUpsert,
+          };
+        }
         return {};
       }),
     };
@@ -700,6 +812,88 @@ describe("POST /api/locations", () => {
     const data = await response.json();
     expect(data.saved).toBe(2);
     expect(data.locations).toHaveLength(2);
+    expect(mockBackfillUpsert).toHaveBeenCalledWith(
+      [
+        { location_id: "loc-1", status: "pending" },
+        { location_id: "loc-2", status: "pending" },
+      ],
+      { onConflict: "location_id", ignoreDuplicates: true },
+    );
+    expect(data.backfills).toEqual([
+      {
+        location_id: "loc-1",
+        status: "pending",
+        imported_count: 0,
+        target_count: null,
+        last_error: null,
+      },
+    ]);
+  });
+
+  it("still saves locations when queuing backfills fails", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    vi.mocked(createServerSupabaseClient).mockResolvedValue({
+      auth: {
+        getUser: vi.fn().mockResolvedValue({
+          data: { user: { id: "user-1" } },
+        }),
+      },
+      from: vi.fn((table: string) => {
+        if (table === "users") {
+          return {
+            select: vi.fn().mockReturnValue({
+              eq: vi.fn().mockReturnValue({
+                single: vi.fn().mockResolvedValue({
+                  data: { id: "user-1", organization_id: "org-1" },
+                  error: null,
+                }),
+              }),
+            }),
+          };
+        }
+        if (table === "locations") {
+          return {
+            upsert: vi.fn().mockReturnValue({
+              select: vi.fn().mockResolvedValue({
+                data: [{ id: "loc-1", google_location_id: "loc-1" }],
+                error: null,
+              }),
+            }),
+          };
+        }
+        if (table === "location_backfills") {
+          return {
+            upsert: vi.fn().mockReturnValue({
+              select: vi.fn().mockResolvedValue({
+                data: null,
+                error: { message: "Database error" },
+              }),
+            }),
+          };
+        }
+        return {};
+      }),
+    } as never);
+
+    const request = makeNextRequest("http://localhost/api/locations", {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({
+        locations: [
+          {
+            google_account_id: "acc-1",
+            google_location_id: "loc-1",
+            name: "Location 1",
+          },
+        ],
+      }),
+    });
+    const response = await POST(request);
+
+    expect(response.status).toBe(200);
+    const data = await response.json();
+    expect(data.saved).toBe(1);
+    expect(data.backfills).toEqual([]);
   });
 
   it("returns 400 when locations array is missing", async () => {
@@ -1,3 +1,4 @@
+import { CLAUDE_MODELS } from "@/lib/ai/anthropic";
 import {
   createMockCustomTone,
   createMockLocation,
@@ -20,11 +21,31 @@ vi.mock("@/lib/claude/client", async () => {
   return {
     ...actual,
     generateResponse: vi.fn(),
+    generateResponseVariants: vi.fn(),
   };
 });
 
-import { POST } from "@/app/api/responses/route";
-import { ClaudeAPIError, generateResponse } from "@/lib/claude/client";
+vi.mock("@/lib/reviews/response-versions", async () => {
+  const actual = await vi.importActual<
+    typeof import("@/lib/reviews/response-versions")
+  >("@/lib/reviews/response-versions");
+  return {
+    ...actual,
+    recordResponseVersions: vi.fn(),
+    findSourceVersionId: vi.fn(),
+  };
+});
+
+import { PATCH, POST } from "@/app/api/responses/route";
+import {
+  ClaudeAPIError,
+  generateResponse,
+  generateResponseVariants,
+} from "@/lib/claude/client";
+import {
+  findSourceVersionId,
+  recordResponseVersions,
+} from "@/lib/reviews/response-versions";
 import { createServerSupabaseClient } from "@/lib/supabase/server";
 
 // Default fixtures
@@ -37,6 +58,13 @@ describe("POST /api/responses", () => {
   beforeEach(() => {
     vi.spyOn(console, "warn").mockImplementation(() => {});
     vi.spyOn(console, "error").mockImplementation(() => {});
+    vi.mocked(recordResponseVersions).mockReset();
+    vi.mocked(recordResponseVersions).mockResolvedValue({
+      versionIds: ["version-1"],
+      error: null,
+    });
+    vi.mocked(findSourceVersionId).mockReset();
+    vi.mocked(findSourceVersionId).mockResolvedValue(null);
   });
 
   afterEach(() => {
@@ -46,7 +74,11 @@ describe("POST /api/responses", () => {
   // Helper to create a standard authenticated mock client
   function mockAuthenticatedClient(
     tableOverrides: {
-      user?: typeof defaultUser | null;
+      user?:
+        | (typeof defaultUser & {
+            organizations?: { plan_tier: string | null } | null;
+          })
+        | null;
       userError?: { message: string } | null;
       review?:
         | (typeof defaultReview & { locations: typeof defaultLocation })
@@ -55,8 +87,11 @@ describe("POST /api/responses", () => {
       existingResponse?: {
         id: string;
         generated_text: string;
+        edited_text?: string | null;
         status: string;
         tokens_used: number;
+        prompt_version?: string | null;
+        prompt_experiment_id?: string | null;
       } | null;
       existingResponseError?: { message: string } | null;
       voiceProfile?: typeof defaultVoiceProfile | null;
@@ -65,9 +100,54 @@ describe("POST /api/responses", () => {
       orgVoiceProfileError?: { message: string } | null;
       insertResponse?: { id: string } | null;
       insertResponseError?: { message: string } | null;
+      updateResponseError?: { message: string } | null;
       customTone?: ReturnType<typeof createMockCustomTone> | null;
+      promptExperiment?: {
+        id: string;
+        assignment_unit: string;
+        variants: { version: string; weight: number }[];
+      } | null;
+      promptExperimentError?: { message: string } | null;
+      tokensUsedThisMonth?: number;
+      budgetError?: { message: string } | null;
+      businessFacts?: {
+        category: string;
+        title: string;
+        content: string;
+        keywords: string[];
+        location_id: string | null;
+      }[];
+      businessFactsError?: { message: string } | null;
     } = {},
   ) {
+    const updateResult = {
+      error: tableOverrides.updateResponseError ?? null,
+    };
+    const responsesUpdate = vi.fn().mockReturnValue({
+      eq: vi.fn().mockReturnValue(
+        Object.assign(Promise.resolve(updateResult), {
+          select: vi.fn().mockReturnValue({
+            single: vi.fn().mockResolvedValue({
+              data: updateResult.error
+                ? null
+                : { id: tableOverrides.existingResponse?.id },
+              error: updateResult.error,
+            }),
+          }),
+        }),
+      ),
+    });
+
+    const aiUsageInsert = vi.fn().mockResolvedValue({ error: null });
+    const businessFactsOr = vi.fn().mockReturnValue({
+      order: vi.fn().mockResolvedValue({
+        data: tableOverrides.businessFactsError
+          ? null
+          : (tableOverrides.businessFacts ?? []),
+        error: tableOverrides.businessFactsError ?? null,
+      }),
+    });
+
     const mockFrom = vi.fn((table: string) => {
       if (table === "users") {
         return {
@@ -117,6 +197,7 @@ describe("POST /api/responses", () => {
               }),
             }),
           }),
+          update: responsesUpdate,
         };
       }
 
@@ -154,6 +235,33 @@ describe("POST /api/responses", () => {
         };
       }
 
+      if (table === "ai_usage") {
+        return { insert: aiUsageInsert };
+      }
+
+      if (table === "business_facts") {
+        return {
+          select: vi.fn().mockReturnValue({
+            eq: vi.fn().mockReturnValue({
+              or: businessFactsOr,
+            }),
+          }),
+        };
+      }
+
+      if (table === "prompt_experiments") {
+        return {
+          select: vi.fn().mockReturnValue({
+            eq: vi.fn().mockReturnValue({
+              maybeSingle: vi.fn().mockResolvedValue({
+                data: tableOverrides.promptExperiment ?? null,
+                error: tableOverrides.promptExperimentError ?? null,
+              }),
+            }),
+          }),
+        };
+      }
+
       return {};
     });
 
@@ -164,7 +272,15 @@ describe("POST /api/responses", () => {
         }),
       },
       from: mockFrom,
+      rpc: vi.fn().mockResolvedValue({
+        data: tableOverrides.budgetError
+          ? null
+          : (tableOverrides.tokensUsedThisMonth ?? 0),
+        error: tableOverrides.budgetError ?? null,
+      }),
     } as never);
+
+    return { responsesUpdate, aiUsageInsert, businessFactsOr };
   }
 
   describe("authentication and validation", () => {
@@ -323,6 +439,7 @@ describe("POST /api/responses", () => {
         existingResponse: {
           id: "resp-1",
           generated_text: "Thank you for your review!",
+          edited_text: null,
           status: "draft",
           tokens_used: 120,
         },
@@ -340,6 +457,7 @@ describe("POST /api/responses", () => {
         id: "resp-1",
         reviewId: "r1",
         generatedText: "Thank you for your review!",
+        editedText: null,
         status: "draft",
         tokensUsed: 120,
       });
@@ -401,6 +519,28 @@ describe("POST /api/responses", () => {
         "Test Location",
         "user@example.com",
         undefined,
+        undefined,
+        "v1",
+        CLAUDE_MODELS.haiku,
+        [],
+      );
+    });
+
+    it("writes with the larger model for agency organizations", async () => {
+      mockAuthenticatedClient({
+        user: { ...defaultUser, organizations: { plan_tier: "agency" } },
+      });
+
+      const request = makeNextRequest("http://localhost/api/responses", {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ reviewId: "r1" }),
+      });
+      const response = await POST(request);
+
+      expect(response.status).toBe(200);
+      expect(vi.mocked(generateResponse).mock.lastCall?.[7]).toBe(
+        CLAUDE_MODELS.sonnet,
       );
     });
 
@@ -431,6 +571,10 @@ describe("POST /api/responses", () => {
         "Test Location",
         "user@example.com",
         undefined,
+        undefined,
+        "v1",
+        CLAUDE_MODELS.haiku,
+        [],
       );
     });
 
@@ -457,6 +601,10 @@ describe("POST /api/responses", () => {
         "Test Location",
         "user@example.com",
         undefined,
+        undefined,
+        "v1",
+        CLAUDE_MODELS.haiku,
+        [],
       );
     });
 
@@ -548,6 +696,10 @@ describe("POST /api/responses", () => {
         "Test Location",
         "user@example.com",
         "Custom enhanced context for responses.",
+        undefined,
+        "v1",
+        CLAUDE_MODELS.haiku,
+        [],
       );
     });
 
@@ -574,6 +726,10 @@ describe("POST /api/responses", () => {
         expect.anything(),
         expect.anything(),
         undefined,
+        undefined,
+        "v1",
+        CLAUDE_MODELS.haiku,
+        [],
       );
     });
 
@@ -600,6 +756,579 @@ describe("POST /api/responses", () => {
         expect.anything(),
         expect.anything(),
         undefined,
+        undefined,
+        "v1",
+        CLAUDE_MODELS.haiku,
+        [],
+      );
+    });
+  });
+
+  describe("escalated reviews", () => {
+    const escalatedReview = {
+      ...defaultReview,
+      review_text: "I got food poisoning here and my lawyer will be in touch",
+      escalation_reason: "legal_threat",
+      escalation_detail: "lawyer",
+      escalated_at: "2025-01-02T00:00:00Z",
+      locations: defaultLocation,
+    };
+
+    beforeEach(() => {
+      vi.mocked(generateResponse).mockClear();
+    });
+
+    it("refuses to draft a reply for a flagged review", async () => {
+      mockAuthenticatedClient({ review: escalatedReview });
+
+      const request = makeNextRequest("http://localhost/api/responses", {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ reviewId: "r1" }),
+      });
+      const response = await POST(request);
+
+      expect(response.status).toBe(409);
+      await expect(response.json()).resolves.toEqual({
+        error: "This review was flagged for a human response (legal threat)",
+        code: "REVIEW_ESCALATED",
+        escalationReason: "legal_threat",
+      });
+      expect(generateResponse).not.toHaveBeenCalled();
+    });
+
+    it("drafts a reply when the flag is overridden", async () => {
+      vi.mocked(generateResponse).mockResolvedValue({
+        text: "We're sorry to hear this.",
+        tokensUsed: 120,
+      });
+      mockAuthenticatedClient({ review: escalatedReview });
+
+      const request = makeNextRequest("http://localhost/api/responses", {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ reviewId: "r1", overrideEscalation: true }),
+      });
+      const response = await POST(request);
+
+      expect(response.status).toBe(200);
+      expect(generateResponse).toHaveBeenCalled();
+    });
+  });
+
+  describe("prompt experiments", () => {
+    beforeEach(() => {
+      vi.mocked(generateResponse).mockReset();
+      vi.mocked(generateResponse).mockResolvedValue({
+        text: "Thank you for visiting!",
+        tokensUsed: 100,
+      });
+    });
+
+    function makeGenerateRequest() {
+      return makeNextRequest("http://localhost/api/responses", {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ reviewId: "r1" }),
+      });
+    }
+
+    it("generates with the version the running experiment assigns and records it", async () => {
+      mockAuthenticatedClient({
+        promptExperiment: {
+          id: "experiment-1",
+          assignment_unit: "review",
+          variants: [{ version: "v2", weight: 1 }],
+        },
+      });
+
+      const response = await POST(makeGenerateRequest());
+
+      expect(response.status).toBe(200);
+      expect(vi.mocked(generateResponse).mock.calls[0]?.[6]).toBe("v2");
+      expect(recordResponseVersions).toHaveBeenCalledWith(expect.anything(), [
+        expect.objectContaining({ prompt_version: "v2" }),
+      ]);
+    });
+
+    it("uses the default version when the experiment cannot be loaded", async () => {
+      vi.spyOn(console, "warn").mockImplementation(() => {});
+      mockAuthenticatedClient({
+        promptExperimentError: { message: "Database error" },
+      });
+
+      const response = await POST(makeGenerateRequest());
+
+      expect(response.status).toBe(200);
+      expect(vi.mocked(generateResponse).mock.calls[0]?.[6]).toBe("v1");
+      expect(console.warn).toHaveBeenCalledWith(
+        "Failed to load prompt experiment, using default prompt:",
+        expect.objectContaining({ message: "Database error" }),
+      );
+    });
+  });
+
+  describe("regenerating a draft", () => {
+    const existingDraft = {
+      id: "resp-1",
+      generated_text: "Thanks for visiting!",
+      edited_text: "Thanks so much for visiting!",
+      status: "draft",
+      tokens_used: 100,
+    };
+
+    beforeEach(() => {
+      vi.mocked(generateResponse).mockReset();
+      vi.mocked(generateResponse).mockResolvedValue({
+        text: "Thanks for stopping by - see you soon!",
+        tokensUsed: 80,
+      });
+    });
+
+    it("replaces the draft following the guidance and saves a version", async () => {
+      const { responsesUpdate } = mockAuthenticatedClient({
+        existingResponse: existingDraft,
+      });
+
+      const request = makeNextRequest("http://localhost/api/responses", {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({
+          reviewId: "r1",
+          regenerate: true,
+          guidance: "  shorter  ",
+        }),
+      });
+      const response = await POST(request);
+
+      expect(response.status).toBe(200);
+      await expect(response.json()).resolves.toEqual({
+        id: "resp-1",
+        reviewId: "r1",
+        generatedText: "Thanks for stopping by - see you soon!",
+        editedText: null,
+        status: "draft",
+        tokensUsed: 80,
+      });
+      expect(generateResponse).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.anything(),
+        "Test Location",
+        "user@example.com",
+        undefined,
+        "shorter",
+        "v1",
+        CLAUDE_MODELS.haiku,
+        [],
+      );
+      expect(responsesUpdate).toHaveBeenCalledWith({
+        generated_text: "Thanks for stopping by - see you soon!",
+        edited_text: null,
+        status: "draft",
+        tokens_used: 180,
+        prompt_version: "v1",
+        prompt_experiment_id: null,
+      });
+      expect(recordResponseVersions).toHaveBeenCalledWith(expect.anything(), [
+        {
+          response_id: "resp-1",
+          review_id: "r1",
+          kind: "generated",
+          text: "Thanks for stopping by - see you soon!",
+          guidance: "shorter",
+          tokens_used: 80,
+          variant_style: null,
+          prompt_version: "v1",
+          created_by: defaultUser.id,
+        },
+      ]);
+    });
+
+    it("keeps the draft's original prompt version and experiment", async () => {
+      const { responsesUpdate } = mockAuthenticatedClient({
+        existingResponse: {
+          ...existingDraft,
+          prompt_version: "v1",
+          prompt_experiment_id: "experiment-1",
+        },
+        promptExperiment: {
+          id: "experiment-2",
+          assignment_unit: "review",
+          variants: [{ version: "v2", weight: 1 }],
+        },
+      });
+
+      const request = makeNextRequest("http://localhost/api/responses", {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ reviewId: "r1", regenerate: true }),
+      });
+      const response = await POST(request);
+
+      expect(response.status).toBe(200);
+      expect(vi.mocked(generateResponse).mock.calls[0]?.[6]).toBe("v1");
+      expect(responsesUpdate).toHaveBeenCalledWith(
+        expect.objectContaining({
+          prompt_version: "v1",
+          prompt_experiment_id: "experiment-1",
+        }),
+      );
+    });
+
+    it("refuses to regenerate a published response", async () => {
+      mockAuthenticatedClient({
+        existingResponse: { ...existingDraft, status: "published" },
+      });
+
+      const request = makeNextRequest("http://localhost/api/responses", {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ reviewId: "r1", regenerate: true }),
+      });
+      const response = await POST(request);
+
+      expect(response.status).toBe(409);
+      await expect(response.json()).resolves.toMatchObject({
+        code: "RESPONSE_PUBLISHED",
+      });
+      expect(generateResponse).not.toHaveBeenCalled();
+    });
+
+    it.each([
+      { guidance: 42, desc: "not a string" },
+      { guidance: "x".repeat(501), desc: "too long" },
+    ])("returns 400 when guidance is $desc", async ({ guidance }) => {
+      mockAuthenticatedClient({ existingResponse: existingDraft });
+
+      const request = makeNextRequest("http://localhost/api/responses", {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ reviewId: "r1", regenerate: true, guidance }),
+      });
+      const response = await POST(request);
+
+      expect(response.status).toBe(400);
+      expect(generateResponse).not.toHaveBeenCalled();
+    });
+
+    it("still returns the draft when saving its version fails", async () => {
+      vi.mocked(recordResponseVersions).mockResolvedValue({
+        versionIds: [],
+        error: "Database error",
+      });
+      mockAuthenticatedClient({ existingResponse: existingDraft });
+
+      const request = makeNextRequest("http://localhost/api/responses", {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ reviewId: "r1", regenerate: true }),
+      });
+      const response = await POST(request);
+
+      expect(response.status).toBe(200);
+    });
+  });
+
+  describe("alternative drafts", () => {
+    beforeEach(() => {
+      vi.mocked(generateResponse).mockReset();
+      vi.mocked(generateResponseVariants).mockReset();
+    });
+
+    it("generates several drafts and returns them with their versions", async () => {
+      vi.mocked(generateResponseVariants).mockResolvedValue([
+        { style: "balanced", text: "Thank you for visiting!", tokensUsed: 100 },
+        { style: "short", text: "Thanks!", tokensUsed: 60 },
+      ]);
+      vi.mocked(recordResponseVersions).mockResolvedValue({
+        versionIds: ["version-1", "version-2"],
+        error: null,
+      });
+      mockAuthenticatedClient();
+
+      const request = makeNextRequest("http://localhost/api/responses", {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ reviewId: "r1", variants: 2 }),
+      });
+      const response = await POST(request);
+
+      expect(response.status).toBe(200);
+      await expect(response.json()).resolves.toEqual({
+        id: "resp-1",
+        reviewId: "r1",
+        generatedText: "Thank you for visiting!",
+        editedText: null,
+        status: "draft",
+        tokensUsed: 160,
+        variants: [
+          {
+            versionId: "version-1",
+            style: "balanced",
+            text: "Thank you for visiting!",
+            tokensUsed: 100,
+          },
+          {
+            versionId: "version-2",
+            style: "short",
+            text: "Thanks!",
+            tokensUsed: 60,
+          },
+        ],
+      });
+      expect(generateResponseVariants).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.anything(),
+        "Test Location",
+        2,
+        "user@example.com",
+        undefined,
+        undefined,
+        "v1",
+        CLAUDE_MODELS.haiku,
+        [],
+      );
+      expect(generateResponse).not.toHaveBeenCalled();
+      expect(recordResponseVersions).toHaveBeenCalledWith(expect.anything(), [
+        expect.objectContaining({
+          text: "Thank you for visiting!",
+          tokens_used: 100,
+          variant_style: "balanced",
+        }),
+        expect.objectContaining({
+          text: "Thanks!",
+          tokens_used: 60,
+          variant_style: "short",
+        }),
+      ]);
+    });
+
+    it.each([
+      0,
+      5,
+      1.5,
+      "3",
+    ])("returns 400 when variants is %s", async (variants) => {
+      mockAuthenticatedClient();
+
+      const request = makeNextRequest("http://localhost/api/responses", {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ reviewId: "r1", variants }),
+      });
+      const response = await POST(request);
+
+      expect(response.status).toBe(400);
+      expect(generateResponseVariants).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("business facts", () => {
+    const hoursFact = {
+      category: "hours",
+      title: "Opening hours",
+      content: "Open 8am-6pm every day",
+      keywords: [],
+      location_id: null,
+    };
+
+    beforeEach(() => {
+      vi.mocked(generateResponse).mockReset();
+      vi.mocked(generateResponse).mockResolvedValue({
+        text: "Thank you for your feedback!",
+        tokensUsed: 100,
+      });
+    });
+
+    function makeRequest() {
+      return makeNextRequest("http://localhost/api/responses", {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ reviewId: "r1" }),
+      });
+    }
+
+    it("passes the facts for the review's location to the generator", async () => {
+      const { businessFactsOr } = mockAuthenticatedClient({
+        businessFacts: [hoursFact],
+      });
+
+      const response = await POST(makeRequest());
+
+      expect(response.status).toBe(200);
+      expect(businessFactsOr).toHaveBeenCalledWith(
+        "location_id.is.null,location_id.eq.loc-1",
+      );
+      expect(vi.mocked(generateResponse).mock.lastCall?.[8]).toEqual([
+        hoursFact,
+      ]);
+    });
+
+    it("generates without facts when they can't be loaded", async () => {
+      mockAuthenticatedClient({
+        businessFactsError: { message: "relation does not exist" },
+      });
+
+      const response = await POST(makeRequest());
+
+      expect(response.status).toBe(200);
+      expect(vi.mocked(generateResponse).mock.lastCall?.[8]).toEqual([]);
+      expect(console.warn).toHaveBeenCalledWith(
+        "Failed to fetch business facts, generating without them:",
+        "relation does not exist",
+      );
+    });
+  });
+
+  describe("draft commitments", () => {
+    function makeRequest(body: Record<string, unknown> = {}) {
+      return makeNextRequest("http://localhost/api/responses", {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ reviewId: "r1", ...body }),
+      });
+    }
+
+    beforeEach(() => {
+      vi.mocked(generateResponse).mockReset();
+      vi.mocked(generateResponseVariants).mockReset();
+    });
+
+    it("flags a draft that promises a refund the voice profile doesn't allow", async () => {
+      vi.mocked(generateResponse).mockResolvedValue({
+        text: "So sorry, Sam. We'll refund your meal in full.",
+        tokensUsed: 100,
+      });
+      mockAuthenticatedClient();
+
+      const response = await POST(makeRequest());
+
+      expect(response.status).toBe(200);
+      await expect(response.json()).resolves.toMatchObject({
+        issues: [
+          {
+            check: "commitments",
+            severity: "warning",
+            message: expect.stringContaining('refund ("We\'ll refund")'),
+          },
+        ],
+      });
+    });
+
+    it("doesn't flag commitments the voice profile allows", async () => {
+      vi.mocked(generateResponse).mockResolvedValue({
+        text: "So sorry, Sam. We'll refund your meal in full.",
+        tokensUsed: 100,
+      });
+      mockAuthenticatedClient({
+        orgVoiceProfile: createMockVoiceProfile({
+          allowed_commitments: ["refund"],
+        }),
+      });
+
+      const response = await POST(makeRequest());
+
+      expect(response.status).toBe(200);
+      expect(await response.json()).not.toHaveProperty("issues");
+    });
+
+    it("flags each alternative draft separately", async () => {
+      vi.mocked(generateResponseVariants).mockResolvedValue([
+        { style: "balanced", text: "Thanks for visiting!", tokensUsed: 100 },
+        { style: "short", text: "Your next visit is on us!", tokensUsed: 80 },
+      ]);
+      mockAuthenticatedClient();
+
+      const response = await POST(makeRequest({ variants: 2 }));
+      const data = await response.json();
+
+      expect(data).not.toHaveProperty("issues");
+      expect(data.variants[0]).not.toHaveProperty("issues");
+      expect(data.variants[1].issues).toEqual([
+        expect.objectContaining({ check: "commitments" }),
+      ]);
+    });
+  });
+
+  describe("AI budget", () => {
+    beforeEach(() => {
+      vi.mocked(generateResponse).mockReset();
+      vi.mocked(generateResponse).mockResolvedValue({
+        text: "Thank you for your feedback!",
+        tokensUsed: 100,
+      });
+    });
+
+    function makeRequest() {
+      return makeNextRequest("http://localhost/api/responses", {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ reviewId: "r1" }),
+      });
+    }
+
+    it("records the tokens used by the draft", async () => {
+      const { aiUsageInsert } = mockAuthenticatedClient();
+
+      const response = await POST(makeRequest());
+
+      expect(response.status).toBe(200);
+      expect(aiUsageInsert).toHaveBeenCalledWith([
+        {
+          organization_id: "org-1",
+          user_id: "user-1",
+          task: "review_response",
+          model: CLAUDE_MODELS.haiku,
+          tokens_used: 100,
+        },
+      ]);
+      await expect(response.json()).resolves.not.toHaveProperty("usageWarning");
+    });
+
+    it("warns once the organization is past its soft limit", async () => {
+      mockAuthenticatedClient({ tokensUsedThisMonth: 210_000 });
+
+      const response = await POST(makeRequest());
+
+      expect(response.status).toBe(200);
+      await expect(response.json()).resolves.toMatchObject({
+        usageWarning:
+          "Your organization has used 84% of this month's AI budget.",
+      });
+    });
+
+    it("refuses to generate once the budget is used up", async () => {
+      mockAuthenticatedClient({ tokensUsedThisMonth: 250_000 });
+
+      const response = await POST(makeRequest());
+
+      expect(response.status).toBe(402);
+      await expect(response.json()).resolves.toMatchObject({
+        code: "AI_BUDGET_EXCEEDED",
+      });
+      expect(generateResponse).not.toHaveBeenCalled();
+    });
+
+    it("uses the plan tier's budget", async () => {
+      mockAuthenticatedClient({
+        user: { ...defaultUser, organizations: { plan_tier: "growth" } },
+        tokensUsedThisMonth: 250_000,
+      });
+
+      const response = await POST(makeRequest());
+
+      expect(response.status).toBe(200);
+    });
+
+    it("generates anyway when usage cannot be loaded", async () => {
+      mockAuthenticatedClient({ budgetError: { message: "Database error" } });
+
+      const response = await POST(makeRequest());
+
+      expect(response.status).toBe(200);
+      expect(console.error).toHaveBeenCalledWith(
+        "Failed to check AI budget:",
+        "Database error",
       );
     });
   });
@@ -744,3 +1473,190 @@ describe("POST /api/responses", () => {
     });
   });
 });
+
+describe("PATCH /api/responses", () => {
+  /**
+   * Creates a mock Supabase client for saving an edited draft
+   */
+  function createMockSupabaseClient(
+    options: {
+      existingResponse?: { id: string; status: string } | null;
+      organizationId?: string;
+    } = {},
+  ) {
+    const updateEq = vi.fn().mockResolvedValue({ error: null });
+    const update = vi.fn().mockReturnValue({ eq: updateEq });
+    const supabase = {
+      auth: {
+        getUser: vi.fn().mockResolvedValue({
+          data: { user: { id: defaultUser.id } },
+        }),
+      },
+      from: vi.fn((table: string) => {
+        if (table === "users") {
+          return {
+            select: vi.fn().mockReturnValue({
+              eq: vi.fn().mockReturnValue({
+                single: vi.fn().mockResolvedValue({
+                  data: defaultUser,
+                  error: null,
+                }),
+              }),
+            }),
+          };
+        }
+        if (table === "reviews") {
+          return {
+            select: vi.fn().mockReturnValue({
+              eq: vi.fn().mockReturnValue({
+                single: vi.fn().mockResolvedValue({
+                  data: {
+                    id: "r1",
+                    locations: {
+                      organization_id:
+                        options.organizationId ?? defaultUser.organization_id,
+                    },
+                  },
+                  error: null,
+                }),
+              }),
+            }),
+          };
+        }
+        return {
+          select: vi.fn().mockReturnValue({
+            eq: vi.fn().mockReturnValue({
+              maybeSingle: vi.fn().mockResolvedValue({
+                data:
+                  options.existingResponse === undefined
+                    ? { id: "resp-1", status: "draft" }
+                    : options.existingResponse,
+                error: null,
+              }),
+            }),
+          }),
+          update,
+        };
+      }),
+    };
+    vi.mocked(createServerSupabaseClient).mockResolvedValue(supabase as never);
+    return { update, updateEq };
+  }
+
+  function patchRequest(body: unknown) {
+    return makeNextRequest("http://localhost/api/responses", {
+      method: "PATCH",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify(body),
+    });
+  }
+
+  beforeEach(() => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    vi.mocked(recordResponseVersions).mockReset();
+    vi.mocked(recordResponseVersions).mockResolvedValue({
+      versionIds: ["version-1"],
+      error: null,
+    });
+    vi.mocked(findSourceVersionId).mockReset();
+    vi.mocked(findSourceVersionId).mockResolvedValue(null);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("saves the edited draft and records a version", async () => {
+    const { update, updateEq } = createMockSupabaseClient();
+
+    const response = await PATCH(
+      patchRequest({ reviewId: "r1", text: "  Thanks for coming in!  " }),
+    );
+
+    expect(response.status).toBe(200);
+    await expect(response.json()).resolves.toEqual({
+      id: "resp-1",
+      reviewId: "r1",
+      editedText: "Thanks for coming in!",
+    });
+    expect(update).toHaveBeenCalledWith({
+      edited_text: "Thanks for coming in!",
+    });
+    expect(updateEq).toHaveBeenCalledWith("id", "resp-1");
+    expect(recordResponseVersions).toHaveBeenCalledWith(expect.anything(), [
+      {
+        response_id: "resp-1",
+        review_id: "r1",
+        kind: "edited",
+        text: "Thanks for coming in!",
+        source_version_id: null,
+        created_by: defaultUser.id,
+      },
+    ]);
+  });
+
+  it("links the edit to the draft it started from", async () => {
+    createMockSupabaseClient();
+    vi.mocked(findSourceVersionId).mockResolvedValue("version-2");
+
+    const response = await PATCH(
+      patchRequest({
+        reviewId: "r1",
+        text: "Thanks!",
+        sourceVersionId: "version-2",
+      }),
+    );
+
+    expect(response.status).toBe(200);
+    expect(findSourceVersionId).toHaveBeenCalledWith(
+      expect.anything(),
+      "r1",
+      "version-2",
+    );
+    expect(recordResponseVersions).toHaveBeenCalledWith(expect.anything(), [
+      expect.objectContaining({
+        kind: "edited",
+        source_version_id: "version-2",
+      }),
+    ]);
+  });
+
+  it("returns 400 for empty text", async () => {
+    const { update } = createMockSupabaseClient();
+
+    const response = await PATCH(patchRequest({ reviewId: "r1", text: "  " }));
+
+    expect(response.status).toBe(400);
+    expect(update).not.toHaveBeenCalled();
+  });
+
+  it("returns 404 for another organization's review", async () => {
+    createMockSupabaseClient({ organizationId: "org-other" });
+
+    const response = await PATCH(patchRequest({ reviewId: "r1", text: "Hi" }));
+
+    expect(response.status).toBe(404);
+  });
+
+  it("returns 404 when the review has no response yet", async () => {
+    createMockSupabaseClient({ existingResponse: null });
+
+    const response = await PATCH(patchRequest({ reviewId: "r1", text: "Hi" }));
+
+    expect(response.status).toBe(404);
+    await expect(response.json()).resolves.toEqual({
+      error: "Response not found",
+    });
+  });
+
+  it("returns 409 for a published response", async () => {
+    const { update } = createMockSupabaseClient({
+      existingResponse: { id: "resp-1", status: "published" },
+    });
+
+    const response = await PATCH(patchRequest({ reviewId: "r1", text: "Hi" }));
+
+    expect(response.status).toBe(409);
+    expect(update).not.toHaveBeenCalled();
+  });
+});
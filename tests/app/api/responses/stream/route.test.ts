@@ -0,0 +1,359 @@
+import {
+  createMockReview,
+  createMockVoiceProfile,
+} from "@/tests/helpers/fixtures";
+import { makeNextRequest } from "@/tests/helpers/next";
+
+vi.mock("@/lib/supabase/server", () => ({
+  createServerSupabaseClient: vi.fn(),
+}));
+
+vi.mock("@/lib/claude/client", async () => {
+  const actual = await vi.importActual<typeof import("@/lib/claude/client")>(
+    "@/lib/claude/client",
+  );
+  return {
+    ...actual,
+    generateResponseStream: vi.fn(),
+  };
+});
+
+vi.mock("@/lib/reviews/response-generation", async () => {
+  const actual = await vi.importActual<
+    typeof import("@/lib/reviews/response-generation")
+  >("@/lib/reviews/response-generation");
+  return {
+    ...actual,
+    prepareResponseGeneration: vi.fn(),
+    recordGenerationUsage: vi.fn(),
+    saveGeneratedDrafts: vi.fn(),
+  };
+});
+
+import { POST } from "@/app/api/responses/stream/route";
+import { ClaudeAPIError, generateResponseStream } from "@/lib/claude/client";
+import {
+  type GenerationContext,
+  prepareResponseGeneration,
+  recordGenerationUsage,
+  saveGeneratedDrafts,
+} from "@/lib/reviews/response-generation";
+import { createServerSupabaseClient } from "@/lib/supabase/server";
+import { readServerSentEvents } from "@/lib/utils/sse";
+
+const context: GenerationContext = {
+  userId: "user-1",
+  organizationId: "org-1",
+  reviewId: "review-1",
+  review: createMockReview({ id: "review-1" }),
+  businessName: "Test Business",
+  voiceProfile: createMockVoiceProfile(),
+  contactEmail: "owner@example.com",
+  customToneEnhancedContext: undefined,
+  businessFacts: [
+    {
+      category: "hours",
+      title: "Opening hours",
+      content: "Open 8am-6pm every day",
+      keywords: [],
+      location_id: null,
+    },
+  ],
+  guidance: "shorter",
+  variantCount: 1,
+  promptVersion: "v2",
+  model: "claude-sonnet-4-5-20250929",
+  promptExperimentId: "experiment-1",
+  existingResponse: null,
+  usageWarning: undefined,
+};
+
+function makeRequest(body: Record<string, unknown>) {
+  return makeNextRequest("http://localhost/api/responses/stream", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+}
+
+async function readEvents(response: Response) {
+  const events: { event: string; data: unknown }[] = [];
+  if (!response.body) {
+    return events;
+  }
+  for await (const { event, data } of readServerSentEvents(response.body)) {
+    events.push({ event, data: JSON.parse(data) });
+  }
+  return events;
+}
+
+describe("POST /api/responses/stream", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    vi.mocked(createServerSupabaseClient).mockResolvedValue({
+      auth: {
+        getUser: vi
+          .fn()
+          .mockResolvedValue({ data: { user: { id: "user-1" } } }),
+      },
+    } as never);
+    vi.mocked(prepareResponseGeneration).mockReset();
+    vi.mocked(prepareResponseGeneration).mockResolvedValue({
+      outcome: "generate",
+      context,
+    });
+    vi.mocked(recordGenerationUsage).mockReset();
+    vi.mocked(saveGeneratedDrafts).mockReset();
+    vi.mocked(saveGeneratedDrafts).mockResolvedValue({
+      outcome: "saved",
+      responseId: "response-1",
+      versionIds: ["version-1"],
+    });
+    vi.mocked(generateResponseStream).mockReset();
+    vi.mocked(generateResponseStream).mockImplementation(
+      async (_review, _profile, _name, onText) => {
+        onText("Thank you");
+        onText(" so much!");
+        return { text: "Thank you so much!", tokensUsed: 150 };
+      },
+    );
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("returns 401 when not authenticated", async () => {
+    vi.mocked(createServerSupabaseClient).mockResolvedValue({
+      auth: { getUser: vi.fn().mockResolvedValue({ data: { user: null } }) },
+    } as never);
+
+    const response = await POST(makeRequest({ reviewId: "review-1" }));
+
+    expect(response.status).toBe(401);
+  });
+
+  it("streams the draft and finishes with the saved response", async () => {
+    const response = await POST(
+      makeRequest({ reviewId: "review-1", guidance: "shorter" }),
+    );
+
+    expect(response.headers.get("content-type")).toBe("text/event-stream");
+    expect(await readEvents(response)).toEqual([
+      { event: "text", data: { text: "Thank you" } },
+      { event: "text", data: { text: " so much!" } },
+      {
+        event: "done",
+        data: {
+          id: "response-1",
+          reviewId: "review-1",
+          generatedText: "Thank you so much!",
+          editedText: null,
+          status: "draft",
+          tokensUsed: 150,
+        },
+      },
+    ]);
+    expect(prepareResponseGeneration).toHaveBeenCalledWith(
+      expect.anything(),
+      "user-1",
+      { reviewId: "review-1", guidance: "shorter" },
+    );
+    expect(generateResponseStream).toHaveBeenCalledWith(
+      context.review,
+      context.voiceProfile,
+      "Test Business",
+      expect.any(Function),
+      "owner@example.com",
+      undefined,
+      "shorter",
+      "v2",
+      expect.any(AbortSignal),
+      "claude-sonnet-4-5-20250929",
+      context.businessFacts,
+      expect.any(Function),
+    );
+    expect(saveGeneratedDrafts).toHaveBeenCalledWith(
+      expect.anything(),
+      context,
+      [{ style: null, text: "Thank you so much!", tokensUsed: 150 }],
+    );
+    expect(recordGenerationUsage).not.toHaveBeenCalled();
+  });
+
+  it("flags commitments the voice profile doesn't allow in the finished draft", async () => {
+    vi.mocked(generateResponseStream).mockResolvedValue({
+      text: "It was our fault, and your next meal is on us.",
+      tokensUsed: 150,
+    });
+
+    const response = await POST(makeRequest({ reviewId: "review-1" }));
+    const events = await readEvents(response);
+
+    expect(events.at(-1)).toEqual({
+      event: "done",
+      data: expect.objectContaining({
+        issues: [
+          {
+            check: "commitments",
+            severity: "warning",
+            message:
+              'Commitments this voice doesn\'t allow: discount or freebie ("next meal is on us"), admitting fault ("It was our fault")',
+          },
+        ],
+      }),
+    });
+  });
+
+  it("returns an existing draft as JSON", async () => {
+    const existing = {
+      id: "response-1",
+      reviewId: "review-1",
+      generatedText: "Thanks!",
+      editedText: null,
+      status: "draft",
+      tokensUsed: 100,
+    };
+    vi.mocked(prepareResponseGeneration).mockResolvedValue({
+      outcome: "existing",
+      response: existing,
+    });
+
+    const response = await POST(makeRequest({ reviewId: "review-1" }));
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual(existing);
+    expect(generateResponseStream).not.toHaveBeenCalled();
+  });
+
+  it("returns request errors as JSON before streaming", async () => {
+    vi.mocked(prepareResponseGeneration).mockResolvedValue({
+      outcome: "failed",
+      failure: {
+        status: 409,
+        body: {
+          error: "This review was flagged for a human response (legal threat)",
+          code: "REVIEW_ESCALATED",
+          escalationReason: "legal_threat",
+        },
+      },
+    });
+
+    const response = await POST(makeRequest({ reviewId: "review-1" }));
+
+    expect(response.status).toBe(409);
+    expect(await response.json()).toMatchObject({ code: "REVIEW_ESCALATED" });
+  });
+
+  it("returns 400 when several variants are requested", async () => {
+    const response = await POST(
+      makeRequest({ reviewId: "review-1", variants: 3 }),
+    );
+
+    expect(response.status).toBe(400);
+    expect(prepareResponseGeneration).not.toHaveBeenCalled();
+  });
+
+  it("sends an error event when Claude fails mid-stream", async () => {
+    vi.mocked(generateResponseStream).mockImplementation(
+      async (
+        _review,
+        _profile,
+        _name,
+        onText,
+        _email,
+        _tone,
+        _guidance,
+        _promptVersion,
+        _signal,
+        _model,
+        _facts,
+        onUsage,
+      ) => {
+        onText("Thank");
+        onUsage?.(121);
+        throw new ClaudeAPIError(529, "Overloaded");
+      },
+    );
+
+    const response = await POST(makeRequest({ reviewId: "review-1" }));
+
+    expect(await readEvents(response)).toEqual([
+      { event: "text", data: { text: "Thank" } },
+      {
+        event: "error",
+        data: { error: "AI service unavailable", code: "AI_SERVICE_ERROR" },
+      },
+    ]);
+    expect(saveGeneratedDrafts).not.toHaveBeenCalled();
+    expect(recordGenerationUsage).toHaveBeenCalledWith(
+      expect.anything(),
+      context,
+      121,
+    );
+  });
+
+  it("sends an error event when the draft cannot be saved", async () => {
+    vi.mocked(saveGeneratedDrafts).mockResolvedValue({
+      outcome: "failed",
+      failure: {
+        status: 500,
+        body: { error: "Failed to save response", code: "DB_ERROR" },
+      },
+    });
+
+    const response = await POST(makeRequest({ reviewId: "review-1" }));
+
+    const events = await readEvents(response);
+    expect(events.at(-1)).toEqual({
+      event: "error",
+      data: { error: "Failed to save response", code: "DB_ERROR" },
+    });
+  });
+
+  it("stops generating, saves nothing, and records the tokens used so far when the client disconnects", async () => {
+    let generationSignal: AbortSignal | undefined;
+    vi.mocked(generateResponseStream).mockImplementation(
+      (
+        _review,
+        _profile,
+        _name,
+        onText,
+        _email,
+        _tone,
+        _guidance,
+        _promptVersion,
+        signal,
+        _model,
+        _facts,
+        onUsage,
+      ) => {
+        generationSignal = signal;
+        onText("Thank");
+        onUsage?.(121);
+        return new Promise((_resolve, reject) => {
+          signal?.addEventListener("abort", () =>
+            reject(new DOMException("Aborted", "AbortError")),
+          );
+        });
+      },
+    );
+
+    const response = await POST(makeRequest({ reviewId: "review-1" }));
+    await response.body?.cancel();
+
+    expect(generationSignal?.aborted).toBe(true);
+    await vi.waitFor(() => {
+      expect(generateResponseStream).toHaveBeenCalled();
+    });
+    await vi.waitFor(() => {
+      expect(recordGenerationUsage).toHaveBeenCalledWith(
+        expect.anything(),
+        context,
+        121,
+      );
+    });
+    expect(saveGeneratedDrafts).not.toHaveBeenCalled();
+    expect(console.error).not.toHaveBeenCalled();
+  });
+});
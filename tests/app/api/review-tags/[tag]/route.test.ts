@@ -0,0 +1,106 @@
+import { makeNextRequest } from "@/tests/helpers/next";
+
+vi.mock("@/lib/supabase/server", () => {
+  return {
+    createServerSupabaseClient: vi.fn(),
+  };
+});
+
+import { DELETE } from "@/app/api/review-tags/[tag]/route";
+import { createServerSupabaseClient } from "@/lib/supabase/server";
+
+/**
+ * Creates a mock Supabase client whose organization_tags delete returns the given rows
+ */
+function createMockSupabaseClient(
+  deleted: Array<{ tag: string }>,
+  deleteError: { message: string } | null = null,
+) {
+  const deleteEqTag = vi.fn().mockReturnValue({
+    select: vi.fn().mockResolvedValue({ data: deleted, error: deleteError }),
+  });
+  const deleteEqOrganization = vi.fn().mockReturnValue({ eq: deleteEqTag });
+  const supabase = {
+    auth: {
+      getUser: vi.fn().mockResolvedValue({
+        data: { user: { id: "user-1" } },
+      }),
+    },
+    from: vi.fn((table: string) => {
+      if (table === "users") {
+        return {
+          select: vi.fn().mockReturnValue({
+            eq: vi.fn().mockReturnValue({
+              single: vi.fn().mockResolvedValue({
+                data: { organization_id: "org-1" },
+                error: null,
+              }),
+            }),
+          }),
+        };
+      }
+      return {
+        delete: vi.fn().mockReturnValue({ eq: deleteEqOrganization }),
+      };
+    }),
+  };
+  return { supabase, deleteEqOrganization, deleteEqTag };
+}
+
+function deleteTag(tag: string) {
+  return DELETE(
+    makeNextRequest(`http://localhost/api/review-tags/${tag}`, {
+      method: "DELETE",
+    }),
+    { params: Promise.resolve({ tag }) },
+  );
+}
+
+describe("DELETE /api/review-tags/[tag]", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("returns 400 for a malformed tag", async () => {
+    const response = await deleteTag("Not A Tag");
+
+    expect(response.status).toBe(400);
+  });
+
+  it("deletes the organization's tag", async () => {
+    const { supabase, deleteEqOrganization, deleteEqTag } =
+      createMockSupabaseClient([{ tag: "patio" }]);
+    vi.mocked(createServerSupabaseClient).mockResolvedValue(supabase as never);
+
+    const response = await deleteTag("patio");
+
+    expect(response.status).toBe(200);
+    await expect(response.json()).resolves.toEqual({ success: true });
+    expect(deleteEqOrganization).toHaveBeenCalledWith(
+      "organization_id",
+      "org-1",
+    );
+    expect(deleteEqTag).toHaveBeenCalledWith("tag", "patio");
+  });
+
+  it("returns 404 when the organization has no such tag", async () => {
+    const { supabase } = createMockSupabaseClient([]);
+    vi.mocked(createServerSupabaseClient).mockResolvedValue(supabase as never);
+
+    const response = await deleteTag("patio");
+
+    expect(response.status).toBe(404);
+  });
+
+  it("returns 500 when the delete fails", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const { supabase } = createMockSupabaseClient([], {
+      message: "Database error",
+    });
+    vi.mocked(createServerSupabaseClient).mockResolvedValue(supabase as never);
+
+    const response = await deleteTag("patio");
+
+    expect(response.status).toBe(500);
+  });
+});
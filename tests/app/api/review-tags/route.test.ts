@@ -0,0 +1,219 @@
+import { makeNextRequest } from "@/tests/helpers/next";
+
+vi.mock("@/lib/supabase/server", () => {
+  return {
+    createServerSupabaseClient: vi.fn(),
+  };
+});
+
+import { GET, POST } from "@/app/api/review-tags/route";
+import { createServerSupabaseClient } from "@/lib/supabase/server";
+
+const patioTag = {
+  tag: "patio",
+  label: "Patio",
+  keywords: ["patio", "outdoor seating"],
+};
+
+/**
+ * Creates a mock Supabase client for the review tags routes
+ */
+function createMockSupabaseClient(
+  options: {
+    user?: { id: string } | null;
+    organizationId?: string | null;
+    tags?: Array<typeof patioTag>;
+    tagsError?: { message: string } | null;
+    count?: number;
+    insertError?: { code?: string; message: string } | null;
+  } = {},
+) {
+  const insert = vi.fn().mockReturnValue({
+    select: vi.fn().mockReturnValue({
+      single: vi.fn().mockResolvedValue({
+        data: options.insertError ? null : patioTag,
+        error: options.insertError ?? null,
+      }),
+    }),
+  });
+  const supabase = {
+    auth: {
+      getUser: vi.fn().mockResolvedValue({
+        data: { user: options.user === undefined ? { id: "user-1" } : null },
+      }),
+    },
+    from: vi.fn((table: string) => {
+      if (table === "users") {
+        return {
+          select: vi.fn().mockReturnValue({
+            eq: vi.fn().mockReturnValue({
+              single: vi.fn().mockResolvedValue({
+                data: {
+                  organization_id:
+                    options.organizationId === undefined
+                      ? "org-1"
+                      : options.organizationId,
+                },
+                error: null,
+              }),
+            }),
+          }),
+        };
+      }
+      return {
+        select: vi.fn((_columns: string, selectOptions?: { head?: boolean }) =>
+          selectOptions?.head
+            ? {
+                eq: vi.fn().mockResolvedValue({
+                  count: options.count ?? 0,
+                  error: null,
+                }),
+              }
+            : {
+                eq: vi.fn().mockReturnValue({
+                  order: vi.fn().mockResolvedValue({
+                    data: options.tags ?? [],
+                    error: options.tagsError ?? null,
+                  }),
+                }),
+              },
+        ),
+        insert,
+      };
+    }),
+  };
+  return { supabase, insert };
+}
+
+function postRequest(body: unknown) {
+  return makeNextRequest("http://localhost/api/review-tags", {
+    method: "POST",
+    body: JSON.stringify(body),
+  });
+}
+
+describe("GET /api/review-tags", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("returns 401 when unauthenticated", async () => {
+    const { supabase } = createMockSupabaseClient({ user: null });
+    vi.mocked(createServerSupabaseClient).mockResolvedValue(supabase as never);
+
+    const response = await GET();
+
+    expect(response.status).toBe(401);
+  });
+
+  it("returns the organization's tags", async () => {
+    const { supabase } = createMockSupabaseClient({ tags: [patioTag] });
+    vi.mocked(createServerSupabaseClient).mockResolvedValue(supabase as never);
+
+    const response = await GET();
+
+    expect(response.status).toBe(200);
+    await expect(response.json()).resolves.toEqual({ tags: [patioTag] });
+  });
+
+  it("returns 500 when tags cannot be loaded", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const { supabase } = createMockSupabaseClient({
+      tagsError: { message: "Database error" },
+    });
+    vi.mocked(createServerSupabaseClient).mockResolvedValue(supabase as never);
+
+    const response = await GET();
+
+    expect(response.status).toBe(500);
+    await expect(response.json()).resolves.toEqual({
+      error: "Failed to fetch review tags",
+    });
+  });
+});
+
+describe("POST /api/review-tags", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("returns 404 when user has no organization", async () => {
+    const { supabase } = createMockSupabaseClient({ organizationId: null });
+    vi.mocked(createServerSupabaseClient).mockResolvedValue(supabase as never);
+
+    const response = await POST(postRequest(patioTag));
+
+    expect(response.status).toBe(404);
+  });
+
+  it("creates a tag with a slug and de-duplicated lowercase keywords", async () => {
+    const { supabase, insert } = createMockSupabaseClient();
+    vi.mocked(createServerSupabaseClient).mockResolvedValue(supabase as never);
+
+    const response = await POST(
+      postRequest({
+        label: " Outdoor Seating ",
+        keywords: ["Patio", "patio", "outdoor seating"],
+      }),
+    );
+
+    expect(response.status).toBe(201);
+    expect(insert).toHaveBeenCalledWith({
+      organization_id: "org-1",
+      tag: "outdoor_seating",
+      label: "Outdoor Seating",
+      keywords: ["patio", "outdoor seating"],
+    });
+  });
+
+  it.each([
+    { body: { label: "Patio", keywords: [] } },
+    { body: { label: "", keywords: ["patio"] } },
+    { body: { label: "!!!", keywords: ["patio"] } },
+    { body: { label: "Patio", keywords: Array(21).fill("patio") } },
+  ])("returns 400 for $body", async ({ body }) => {
+    const { supabase, insert } = createMockSupabaseClient();
+    vi.mocked(createServerSupabaseClient).mockResolvedValue(supabase as never);
+
+    const response = await POST(postRequest(body));
+
+    expect(response.status).toBe(400);
+    expect(insert).not.toHaveBeenCalled();
+  });
+
+  it("rejects labels that clash with a built-in tag", async () => {
+    const { supabase, insert } = createMockSupabaseClient();
+    vi.mocked(createServerSupabaseClient).mockResolvedValue(supabase as never);
+
+    const response = await POST(
+      postRequest({ label: "Wait Time", keywords: ["queue"] }),
+    );
+
+    expect(response.status).toBe(409);
+    expect(insert).not.toHaveBeenCalled();
+  });
+
+  it("returns 400 when the organization has too many tags", async () => {
+    const { supabase, insert } = createMockSupabaseClient({ count: 50 });
+    vi.mocked(createServerSupabaseClient).mockResolvedValue(supabase as never);
+
+    const response = await POST(postRequest(patioTag));
+
+    expect(response.status).toBe(400);
+    await expect(response.json()).resolves.toEqual({
+      error: "Organizations can define up to 50 tags",
+    });
+    expect(insert).not.toHaveBeenCalled();
+  });
+
+  it("returns 409 when the tag already exists", async () => {
+    const { supabase } = createMockSupabaseClient({
+      insertError: { code: "23505", message: "duplicate key" },
+    });
+    vi.mocked(createServerSupabaseClient).mockResolvedValue(supabase as never);
+
+    const response = await POST(postRequest(patioTag));
+
+    expect(response.status).toBe(409);
+  });
+});
@@ -1,4 +1,5 @@
 import { randomBytes } from "node:crypto";
+import { createMockVoiceProfile } from "@/tests/helpers/fixtures";
 import { makeNextRequest } from "@/tests/helpers/next";
 
 vi.mock("@/lib/supabase/server", () => {
@@ -7,19 +8,28 @@ vi.mock("@/lib/supabase/server", () => {
   };
 });
 
-vi.mock("@/lib/google/client", () => {
+vi.mock("@/lib/google/client", async (importOriginal) => {
+  const { GoogleAPIError, isGoogleRateLimitError, withAccessTokenRetry } =
+    await importOriginal<typeof import("@/lib/google/client")>();
   return {
-    refreshAccessToken: vi.fn(),
+    getAccessToken: vi.fn(),
     publishResponse: vi.fn(),
-    GoogleAPIError: class GoogleAPIError extends Error {
-      constructor(
-        public status: number,
-        message: string,
-      ) {
-        super(message);
-        this.name = "GoogleAPIError";
-      }
-    },
+    GoogleAPIError,
+    isGoogleRateLimitError,
+    withAccessTokenRetry,
+  };
+});
+
+vi.mock("@/lib/reviews/response-versions", () => {
+  return {
+    recordResponseVersions: vi.fn(),
+    findSourceVersionId: vi.fn(),
+  };
+});
+
+vi.mock("@/lib/reviews/response-generation", () => {
+  return {
+    resolveVoiceProfile: vi.fn(),
   };
 });
 
@@ -27,9 +37,14 @@ import { POST } from "@/app/api/reviews/[reviewId]/publish/route";
 import { encryptToken } from "@/lib/crypto/encryption";
 import {
   GoogleAPIError,
+  getAccessToken,
   publishResponse,
-  refreshAccessToken,
 } from "@/lib/google/client";
+import { resolveVoiceProfile } from "@/lib/reviews/response-generation";
+import {
+  findSourceVersionId,
+  recordResponseVersions,
+} from "@/lib/reviews/response-versions";
 import { createServerSupabaseClient } from "@/lib/supabase/server";
 
 // Generate a valid test encryption key (32 bytes = 64 hex chars)
@@ -39,6 +54,15 @@ describe("POST /api/reviews/[reviewId]/publish", () => {
   beforeEach(() => {
     // Set up encryption key for tests
     process.env.TOKEN_ENCRYPTION_KEY = TEST_ENCRYPTION_KEY;
+    vi.mocked(recordResponseVersions).mockReset();
+    vi.mocked(recordResponseVersions).mockResolvedValue({
+      versionIds: ["version-1"],
+      error: null,
+    });
+    vi.mocked(findSourceVersionId).mockReset();
+    vi.mocked(findSourceVersionId).mockResolvedValue(null);
+    vi.mocked(resolveVoiceProfile).mockReset();
+    vi.mocked(resolveVoiceProfile).mockResolvedValue(createMockVoiceProfile());
   });
 
   afterEach(() => {
@@ -532,7 +556,7 @@ describe("POST /api/reviews/[reviewId]/publish", () => {
       mockSupabase as never,
     );
 
-    vi.mocked(refreshAccessToken).mockRejectedValue(
+    vi.mocked(getAccessToken).mockRejectedValue(
       new GoogleAPIError(401, "Token expired"),
     );
 
@@ -644,7 +668,7 @@ describe("POST /api/reviews/[reviewId]/publish", () => {
       mockSupabase as never,
     );
 
-    vi.mocked(refreshAccessToken).mockResolvedValue("access-token");
+    vi.mocked(getAccessToken).mockResolvedValue("access-token");
     vi.mocked(publishResponse).mockResolvedValue(true);
 
     const request = makeNextRequest(
@@ -684,6 +708,17 @@ describe("POST /api/reviews/[reviewId]/publish", () => {
       p_status: "published",
       p_published_at: expect.any(String),
     });
+
+    expect(recordResponseVersions).toHaveBeenCalledWith(mockSupabase, [
+      {
+        response_id: "resp-1",
+        review_id: "review-1",
+        kind: "published",
+        text: "Thank you!",
+        source_version_id: null,
+        created_by: "user-1",
+      },
+    ]);
   });
 
   it("updates existing response when response already exists", async () => {
@@ -780,7 +815,7 @@ describe("POST /api/reviews/[reviewId]/publish", () => {
       mockSupabase as never,
     );
 
-    vi.mocked(refreshAccessToken).mockResolvedValue("access-token");
+    vi.mocked(getAccessToken).mockResolvedValue("access-token");
     vi.mocked(publishResponse).mockResolvedValue(true);
 
     // Publish edited response (different from generated_text)
@@ -920,7 +955,7 @@ describe("POST /api/reviews/[reviewId]/publish", () => {
       mockSupabase as never,
     );
 
-    vi.mocked(refreshAccessToken).mockResolvedValue("access-token");
+    vi.mocked(getAccessToken).mockResolvedValue("access-token");
     vi.mocked(publishResponse).mockResolvedValue(true);
 
     // Publish same text as generated_text (no edit)
@@ -1023,7 +1058,7 @@ describe("POST /api/reviews/[reviewId]/publish", () => {
       mockSupabase as never,
     );
 
-    vi.mocked(refreshAccessToken).mockResolvedValue("access-token");
+    vi.mocked(getAccessToken).mockResolvedValue("access-token");
     vi.mocked(publishResponse).mockRejectedValue(
       new GoogleAPIError(403, "Forbidden"),
     );
@@ -1047,6 +1082,90 @@ describe("POST /api/reviews/[reviewId]/publish", () => {
     });
   });
 
+  it("returns 429 with the wait when Google is rate-limiting", async () => {
+    // Encrypt the token as it would be stored in the database
+    const encryptedToken = encryptToken("refresh-token");
+
+    const mockSupabase = {
+      auth: {
+        getUser: vi.fn().mockResolvedValue({
+          data: { user: { id: "user-1" } },
+        }),
+      },
+      from: vi.fn((table: string) => {
+        if (table === "users") {
+          return {
+            select: vi.fn().mockReturnValue({
+              eq: vi.fn().mockReturnValue({
+                single: vi.fn().mockResolvedValue({
+                  data: {
+                    id: "user-1",
+                    organization_id: "org-1",
+                    google_refresh_token: encryptedToken,
+                  },
+                  error: null,
+                }),
+              }),
+            }),
+          };
+        }
+        if (table === "reviews") {
+          return {
+            select: vi.fn().mockReturnValue({
+              eq: vi.fn().mockReturnValue({
+                single: vi.fn().mockResolvedValue({
+                  data: {
+                    id: "review-1",
+                    external_review_id: "ext-1",
+                    location_id: "loc-1",
+                    has_response: false,
+                    locations: {
+                      id: "loc-1",
+                      google_account_id: "acc-1",
+                      google_location_id: "loc-1",
+                      organization_id: "org-1",
+                    },
+                  },
+                  error: null,
+                }),
+              }),
+            }),
+          };
+        }
+        return {};
+      }),
+    };
+
+    vi.mocked(createServerSupabaseClient).mockResolvedValue(
+      mockSupabase as never,
+    );
+
+    vi.mocked(getAccessToken).mockResolvedValue("access-token");
+    vi.mocked(publishResponse).mockRejectedValue(
+      new GoogleAPIError(429, "Google API rate limit reached", 30),
+    );
+
+    const request = makeNextRequest(
+      "http://localhost/api/reviews/review-1/publish",
+      {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ response_text: "Thank you!" }),
+      },
+    );
+    const response = await POST(request, {
+      params: Promise.resolve({ reviewId: "review-1" }),
+    });
+
+    expect(response.status).toBe(429);
+    expect(response.headers.get("Retry-After")).toBe("30");
+    await expect(response.json()).resolves.toEqual({
+      error: "Google is limiting requests right now. Try again in 30 seconds.",
+      code: "GOOGLE_RATE_LIMITED",
+      retry_after_seconds: 30,
+    });
+  });
+
   it("returns 500 on unexpected error", async () => {
     vi.spyOn(console, "error").mockImplementation(() => {});
     vi.mocked(createServerSupabaseClient).mockRejectedValue(
@@ -1071,4 +1190,260 @@ describe("POST /api/reviews/[reviewId]/publish", () => {
       code: "INTERNAL_ERROR",
     });
   });
+
+  function mockPublishableClient() {
+    const usersUpdate = vi.fn().mockReturnValue({
+      eq: vi.fn().mockResolvedValue({ error: null }),
+    });
+    const mockSupabase = {
+      auth: {
+        getUser: vi.fn().mockResolvedValue({
+          data: { user: { id: "user-1" } },
+        }),
+      },
+      from: vi.fn((table: string) => {
+        if (table === "users") {
+          return {
+            select: vi.fn().mockReturnValue({
+              eq: vi.fn().mockReturnValue({
+                single: vi.fn().mockResolvedValue({
+                  data: {
+                    organization_id: "org-1",
+                    email: "owner@example.com",
+                    google_refresh_token: encryptToken("refresh-token"),
+                  },
+                  error: null,
+                }),
+              }),
+            }),
+            update: usersUpdate,
+          };
+        }
+        if (table === "reviews") {
+          return {
+            select: vi.fn().mockReturnValue({
+              eq: vi.fn().mockReturnValue({
+                single: vi.fn().mockResolvedValue({
+                  data: {
+                    id: "review-1",
+                    external_review_id: "ext-1",
+                    location_id: "loc-1",
+                    has_response: false,
+                    locations: {
+                      id: "loc-1",
+                      google_account_id: "acc-1",
+                      google_location_id: "loc-1",
+                      organization_id: "org-1",
+                      voice_profile_id: "vp-1",
+                    },
+                  },
+                  error: null,
+                }),
+              }),
+            }),
+            update: vi.fn().mockReturnValue({
+              eq: vi.fn().mockResolvedValue({ error: null }),
+            }),
+          };
+        }
+        if (table === "responses") {
+          return {
+            select: vi.fn().mockReturnValue({
+              eq: vi.fn().mockReturnValue({
+                maybeSingle: vi.fn().mockResolvedValue({
+                  data: null,
+                  error: null,
+                }),
+              }),
+            }),
+          };
+        }
+        return {};
+      }),
+      rpc: vi.fn().mockResolvedValue({
+        data: [{ id: "resp-1", published_at: "2025-01-15T10:00:00Z" }],
+        error: null,
+      }),
+    };
+    vi.mocked(createServerSupabaseClient).mockResolvedValue(
+      mockSupabase as never,
+    );
+    vi.mocked(getAccessToken).mockResolvedValue("access-token");
+    vi.mocked(publishResponse).mockReset();
+    vi.mocked(publishResponse).mockResolvedValue(true);
+    return mockSupabase;
+  }
+
+  function publish(body: Record<string, unknown>) {
+    return POST(
+      makeNextRequest("http://localhost/api/reviews/review-1/publish", {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify(body),
+      }),
+      { params: Promise.resolve({ reviewId: "review-1" }) },
+    );
+  }
+
+  describe("guardrails", () => {
+    it("blocks a response with placeholder text", async () => {
+      mockPublishableClient();
+
+      const response = await publish({
+        response_text: "Thanks [Name], see you soon!",
+      });
+
+      expect(response.status).toBe(422);
+      await expect(response.json()).resolves.toEqual({
+        error: "This response can't be published until these are fixed",
+        code: "RESPONSE_BLOCKED",
+        issues: [
+          {
+            check: "placeholder",
+            severity: "block",
+            message: 'Placeholder text left in: "[Name]"',
+          },
+        ],
+      });
+      expect(resolveVoiceProfile).toHaveBeenCalledWith(
+        expect.anything(),
+        "vp-1",
+        "org-1",
+      );
+      expect(publishResponse).not.toHaveBeenCalled();
+    });
+
+    it("blocks even when warnings are acknowledged", async () => {
+      mockPublishableClient();
+
+      const response = await publish({
+        response_text: "Thanks [Name]!",
+        acknowledge_warnings: true,
+      });
+
+      expect(response.status).toBe(422);
+      expect(publishResponse).not.toHaveBeenCalled();
+    });
+
+    it("asks for warnings to be acknowledged before publishing", async () => {
+      mockPublishableClient();
+      vi.mocked(resolveVoiceProfile).mockResolvedValue(
+        createMockVoiceProfile({ words_to_avoid: ["valued customer"] }),
+      );
+
+      const response = await publish({
+        response_text: "Thank you, valued customer!",
+      });
+
+      expect(response.status).toBe(422);
+      await expect(response.json()).resolves.toMatchObject({
+        code: "RESPONSE_WARNINGS",
+        issues: [{ check: "words_to_avoid", severity: "warning" }],
+      });
+      expect(publishResponse).not.toHaveBeenCalled();
+    });
+
+    it("publishes once warnings are acknowledged", async () => {
+      mockPublishableClient();
+      vi.mocked(resolveVoiceProfile).mockResolvedValue(
+        createMockVoiceProfile({ words_to_avoid: ["valued customer"] }),
+      );
+
+      const response = await publish({
+        response_text: "Thank you, valued customer!",
+        acknowledge_warnings: true,
+      });
+
+      expect(response.status).toBe(200);
+      expect(publishResponse).toHaveBeenCalled();
+    });
+
+    it("follows the severities configured on the voice profile", async () => {
+      mockPublishableClient();
+      vi.mocked(resolveVoiceProfile).mockResolvedValue(
+        createMockVoiceProfile({
+          guardrail_severities: { personal_info: "block" },
+        }),
+      );
+
+      const response = await publish({
+        response_text: "Call Dana directly on 555-123-4567.",
+        acknowledge_warnings: true,
+      });
+
+      expect(response.status).toBe(422);
+      await expect(response.json()).resolves.toMatchObject({
+        code: "RESPONSE_BLOCKED",
+        issues: [{ check: "personal_info", severity: "block" }],
+      });
+    });
+
+    it("allows the publishing user's contact email", async () => {
+      mockPublishableClient();
+
+      const response = await publish({
+        response_text: "Please email us at owner@example.com.",
+      });
+
+      expect(response.status).toBe(200);
+    });
+  });
+
+  describe("rejected access tokens", () => {
+    it("refreshes a cached token Google rejects and publishes with the new one", async () => {
+      mockPublishableClient();
+      vi.mocked(getAccessToken)
+        .mockResolvedValueOnce("rejected-access-token")
+        .mockResolvedValueOnce("fresh-access-token");
+      vi.mocked(publishResponse)
+        .mockRejectedValueOnce(
+          new GoogleAPIError(401, "Failed to publish response: Unauthorized"),
+        )
+        .mockResolvedValueOnce(true);
+
+      const response = await publish({ response_text: "Thank you!" });
+
+      expect(response.status).toBe(200);
+      expect(getAccessToken).toHaveBeenLastCalledWith(
+        "user-1",
+        "refresh-token",
+        expect.anything(),
+        { forceRefresh: true },
+      );
+      expect(publishResponse).toHaveBeenLastCalledWith(
+        "fresh-access-token",
+        "acc-1",
+        "loc-1",
+        "ext-1",
+        "Thank you!",
+      );
+    });
+
+    it("asks the user to reconnect when the refresh token was revoked", async () => {
+      const mockSupabase = mockPublishableClient();
+      vi.mocked(getAccessToken)
+        .mockResolvedValueOnce("rejected-access-token")
+        .mockRejectedValueOnce(
+          new GoogleAPIError(
+            401,
+            "Google authentication expired. Please reconnect your account.",
+          ),
+        );
+      vi.mocked(publishResponse).mockRejectedValueOnce(
+        new GoogleAPIError(401, "Failed to publish response: Unauthorized"),
+      );
+
+      const response = await publish({ response_text: "Thank you!" });
+
+      expect(response.status).toBe(401);
+      await expect(response.json()).resolves.toEqual({
+        error: "Google authentication expired. Please reconnect your account.",
+        code: "GOOGLE_AUTH_EXPIRED",
+      });
+      expect(publishResponse).toHaveBeenCalledTimes(1);
+      expect(mockSupabase.from("users").update).toHaveBeenCalledWith({
+        google_refresh_token: null,
+      });
+    });
+  });
 });
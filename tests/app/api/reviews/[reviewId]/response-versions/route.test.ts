@@ -0,0 +1,139 @@
+import { makeNextRequest } from "@/tests/helpers/next";
+
+vi.mock("@/lib/supabase/server", () => {
+  return {
+    createServerSupabaseClient: vi.fn(),
+  };
+});
+
+import { GET } from "@/app/api/reviews/[reviewId]/response-versions/route";
+import { createServerSupabaseClient } from "@/lib/supabase/server";
+
+const publishedVersion = {
+  id: "version-2",
+  kind: "published",
+  text: "Thanks for coming in!",
+  guidance: null,
+  tokens_used: null,
+  created_at: "2025-01-02T00:00:00Z",
+};
+
+const generatedVersion = {
+  id: "version-1",
+  kind: "generated",
+  text: "Thank you for visiting us!",
+  guidance: "shorter",
+  tokens_used: 90,
+  created_at: "2025-01-01T00:00:00Z",
+};
+
+/**
+ * Creates a mock Supabase client for the response versions route
+ */
+function createMockSupabaseClient(
+  options: {
+    user?: { id: string } | null;
+    organizationId?: string;
+    versionsError?: { message: string } | null;
+  } = {},
+) {
+  const versionsEq = vi.fn().mockReturnValue({
+    order: vi.fn().mockResolvedValue({
+      data: options.versionsError ? null : [publishedVersion, generatedVersion],
+      error: options.versionsError ?? null,
+    }),
+  });
+  const supabase = {
+    auth: {
+      getUser: vi.fn().mockResolvedValue({
+        data: { user: options.user === undefined ? { id: "user-1" } : null },
+      }),
+    },
+    from: vi.fn((table: string) => {
+      if (table === "users") {
+        return {
+          select: vi.fn().mockReturnValue({
+            eq: vi.fn().mockReturnValue({
+              single: vi.fn().mockResolvedValue({
+                data: { organization_id: "org-1" },
+                error: null,
+              }),
+            }),
+          }),
+        };
+      }
+      if (table === "reviews") {
+        return {
+          select: vi.fn().mockReturnValue({
+            eq: vi.fn().mockReturnValue({
+              single: vi.fn().mockResolvedValue({
+                data: {
+                  id: "review-1",
+                  locations: {
+                    organization_id: options.organizationId ?? "org-1",
+                  },
+                },
+                error: null,
+              }),
+            }),
+          }),
+        };
+      }
+      return {
+        select: vi.fn().mockReturnValue({ eq: versionsEq }),
+      };
+    }),
+  };
+  vi.mocked(createServerSupabaseClient).mockResolvedValue(supabase as never);
+  return { versionsEq };
+}
+
+function getVersions() {
+  return GET(
+    makeNextRequest("http://localhost/api/reviews/review-1/response-versions"),
+    { params: Promise.resolve({ reviewId: "review-1" }) },
+  );
+}
+
+describe("GET /api/reviews/[reviewId]/response-versions", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("returns 401 when unauthenticated", async () => {
+    createMockSupabaseClient({ user: null });
+
+    const response = await getVersions();
+
+    expect(response.status).toBe(401);
+  });
+
+  it("returns the review's versions newest first", async () => {
+    const { versionsEq } = createMockSupabaseClient();
+
+    const response = await getVersions();
+
+    expect(response.status).toBe(200);
+    await expect(response.json()).resolves.toEqual({
+      versions: [publishedVersion, generatedVersion],
+    });
+    expect(versionsEq).toHaveBeenCalledWith("review_id", "review-1");
+  });
+
+  it("returns 404 for another organization's review", async () => {
+    createMockSupabaseClient({ organizationId: "org-2" });
+
+    const response = await getVersions();
+
+    expect(response.status).toBe(404);
+  });
+
+  it("returns 500 when versions cannot be loaded", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    createMockSupabaseClient({ versionsError: { message: "Database error" } });
+
+    const response = await getVersions();
+
+    expect(response.status).toBe(500);
+  });
+});
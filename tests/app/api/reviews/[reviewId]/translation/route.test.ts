@@ -0,0 +1,163 @@
+import { makeNextRequest } from "@/tests/helpers/next";
+
+vi.mock("@/lib/supabase/server", () => {
+  return {
+    createServerSupabaseClient: vi.fn(),
+  };
+});
+
+vi.mock("@/lib/claude/client", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("@/lib/claude/client")>();
+  return {
+    ...actual,
+    translateReview: vi.fn(),
+  };
+});
+
+import { GET } from "@/app/api/reviews/[reviewId]/translation/route";
+import { ClaudeAPIError, translateReview } from "@/lib/claude/client";
+import { createServerSupabaseClient } from "@/lib/supabase/server";
+
+/**
+ * Creates a mock Supabase client for the review translation route
+ */
+function createMockSupabaseClient(
+  options: {
+    user?: { id: string } | null;
+    organizationId?: string;
+    language?: string | null;
+  } = {},
+) {
+  const aiUsageInsert = vi.fn().mockResolvedValue({ error: null });
+  const supabase = {
+    auth: {
+      getUser: vi.fn().mockResolvedValue({
+        data: { user: options.user === undefined ? { id: "user-1" } : null },
+      }),
+    },
+    from: vi.fn((table: string) => {
+      if (table === "users") {
+        return {
+          select: vi.fn().mockReturnValue({
+            eq: vi.fn().mockReturnValue({
+              single: vi.fn().mockResolvedValue({
+                data: { organization_id: "org-1" },
+                error: null,
+              }),
+            }),
+          }),
+        };
+      }
+      if (table === "ai_usage") {
+        return { insert: aiUsageInsert };
+      }
+      return {
+        select: vi.fn().mockReturnValue({
+          eq: vi.fn().mockReturnValue({
+            single: vi.fn().mockResolvedValue({
+              data: {
+                id: "review-1",
+                review_text: "La comida estaba muy buena",
+                language:
+                  options.language === undefined ? "es" : options.language,
+                locations: {
+                  organization_id: options.organizationId ?? "org-1",
+                },
+              },
+              error: null,
+            }),
+          }),
+        }),
+      };
+    }),
+  };
+  vi.mocked(createServerSupabaseClient).mockResolvedValue(supabase as never);
+  return { aiUsageInsert };
+}
+
+function getTranslation() {
+  return GET(
+    makeNextRequest("http://localhost/api/reviews/review-1/translation"),
+    { params: Promise.resolve({ reviewId: "review-1" }) },
+  );
+}
+
+describe("GET /api/reviews/[reviewId]/translation", () => {
+  beforeEach(() => {
+    vi.mocked(translateReview).mockReset();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("returns 401 when unauthenticated", async () => {
+    createMockSupabaseClient({ user: null });
+
+    const response = await getTranslation();
+
+    expect(response.status).toBe(401);
+  });
+
+  it("returns the review translated into English", async () => {
+    const { aiUsageInsert } = createMockSupabaseClient();
+    vi.mocked(translateReview).mockResolvedValue({
+      text: " The food was very good \n",
+      tokensUsed: 40,
+    });
+
+    const response = await getTranslation();
+
+    expect(response.status).toBe(200);
+    await expect(response.json()).resolves.toEqual({
+      language: "es",
+      translation: "The food was very good",
+    });
+    expect(translateReview).toHaveBeenCalledWith(
+      "La comida estaba muy buena",
+      "es",
+    );
+    expect(aiUsageInsert).toHaveBeenCalledWith([
+      {
+        organization_id: "org-1",
+        user_id: "user-1",
+        task: "translation",
+        model: null,
+        tokens_used: 40,
+      },
+    ]);
+  });
+
+  it("returns 404 for another organization's review", async () => {
+    createMockSupabaseClient({ organizationId: "org-2" });
+
+    const response = await getTranslation();
+
+    expect(response.status).toBe(404);
+    expect(translateReview).not.toHaveBeenCalled();
+  });
+
+  it.each([
+    ["en"],
+    [null],
+  ])("returns 400 when the review language is %j", async (language) => {
+    createMockSupabaseClient({ language });
+
+    const response = await getTranslation();
+
+    expect(response.status).toBe(400);
+    expect(translateReview).not.toHaveBeenCalled();
+  });
+
+  it("maps Claude failures to an error response", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    createMockSupabaseClient();
+    vi.mocked(translateReview).mockRejectedValue(
+      new ClaudeAPIError(429, "Rate limited"),
+    );
+
+    const response = await getTranslation();
+
+    expect(response.status).toBe(429);
+  });
+});
@@ -416,6 +416,342 @@ describe("GET /api/reviews", () => {
     expect(response.status).toBe(200);
   });
 
+  it("filters by mixed sentiment and returns confidence and aspects", async () => {
+    const sentimentEq = vi.fn().mockReturnValue({
+      range: vi.fn().mockResolvedValue({
+        data: [
+          {
+            id: "rev-1",
+            external_review_id: "ext-1",
+            reviewer_name: "John",
+            reviewer_photo_url: null,
+            rating: 5,
+            review_text: "Lovely staff, awful parking",
+            review_date: "2025-01-15T10:00:00Z",
+            has_response: false,
+            status: "pending",
+            sentiment: "mixed",
+            sentiment_confidence: 0.85,
+            sentiment_source: "ai",
+            sentiment_aspects: [{ aspect: "parking", sentiment: "negative" }],
+            sentiment_analyzed_at: "2025-01-15T10:05:00Z",
+            created_at: "2025-01-15T10:00:00Z",
+            location_id: "loc-1",
+            locations: {
+              id: "loc-1",
+              name: "Location 1",
+              google_location_id: "loc-1",
+            },
+          },
+        ],
+        count: 1,
+        error: null,
+      }),
+    });
+    const mockSupabase = {
+      auth: {
+        getUser: vi.fn().mockResolvedValue({
+          data: { user: { id: "user-1" } },
+        }),
+      },
+      from: vi.fn((table: string) => {
+        if (table === "users") {
+          return {
+            select: vi.fn().mockReturnValue({
+              eq: vi.fn().mockReturnValue({
+                single: vi.fn().mockResolvedValue({
+                  data: { id: "user-1", organization_id: "org-1" },
+                  error: null,
+                }),
+              }),
+            }),
+          };
+        }
+        if (table === "locations") {
+          return {
+            select: vi.fn().mockReturnValue({
+              eq: vi.fn().mockReturnValue({
+                eq: vi.fn().mockResolvedValue({
+                  data: [{ id: "loc-1" }],
+                }),
+              }),
+            }),
+          };
+        }
+        if (table === "reviews") {
+          return {
+            select: vi.fn().mockReturnValue({
+              in: vi.fn().mockReturnValue({
+                order: vi.fn().mockReturnValue({ eq: sentimentEq }),
+              }),
+            }),
+          };
+        }
+        return {};
+      }),
+    };
+
+    vi.mocked(createServerSupabaseClient).mockResolvedValue(
+      mockSupabase as never,
+    );
+
+    const request = makeNextRequest(
+      "http://localhost/api/reviews?sentiment=mixed",
+    );
+    const response = await GET(request);
+
+    expect(response.status).toBe(200);
+    expect(sentimentEq).toHaveBeenCalledWith("sentiment", "mixed");
+    const data = await response.json();
+    expect(data.reviews[0]).toMatchObject({
+      sentiment: "mixed",
+      sentiment_confidence: 0.85,
+      sentiment_aspects: [{ aspect: "parking", sentiment: "negative" }],
+    });
+  });
+
+  it("filters by tag and returns each review's tags and escalation", async () => {
+    const tagNot = vi.fn().mockReturnValue({
+      range: vi.fn().mockResolvedValue({
+        data: [
+          {
+            id: "rev-1",
+            external_review_id: "ext-1",
+            reviewer_name: "John",
+            reviewer_photo_url: null,
+            rating: 2,
+            review_text: "No parking, and the patio felt unsafe",
+            review_date: "2025-01-15T10:00:00Z",
+            has_response: false,
+            status: "pending",
+            sentiment: "negative",
+            created_at: "2025-01-15T10:00:00Z",
+            location_id: "loc-1",
+            locations: {
+              id: "loc-1",
+              name: "Location 1",
+              google_location_id: "loc-1",
+            },
+            escalation_reason: "health_safety",
+            escalation_detail: "unsafe",
+            escalated_at: "2025-01-15T10:05:00Z",
+            review_tags: [{ tag: "parking" }, { tag: "patio" }],
+            tag_filter: [{ tag: "patio" }],
+          },
+        ],
+        count: 1,
+        error: null,
+      }),
+    });
+    const tagEq = vi.fn().mockReturnValue({ not: tagNot });
+    const mockSupabase = {
+      auth: {
+        getUser: vi.fn().mockResolvedValue({
+          data: { user: { id: "user-1" } },
+        }),
+      },
+      from: vi.fn((table: string) => {
+        if (table === "users") {
+          return {
+            select: vi.fn().mockReturnValue({
+              eq: vi.fn().mockReturnValue({
+                single: vi.fn().mockResolvedValue({
+                  data: { id: "user-1", organization_id: "org-1" },
+                  error: null,
+                }),
+              }),
+            }),
+          };
+        }
+        if (table === "locations") {
+          return {
+            select: vi.fn().mockReturnValue({
+              eq: vi.fn().mockReturnValue({
+                eq: vi.fn().mockResolvedValue({
+                  data: [{ id: "loc-1" }],
+                }),
+              }),
+            }),
+          };
+        }
+        if (table === "reviews") {
+          return {
+            select: vi.fn().mockReturnValue({
+              in: vi.fn().mockReturnValue({
+                order: vi.fn().mockReturnValue({ eq: tagEq }),
+              }),
+            }),
+          };
+        }
+        return {};
+      }),
+    };
+
+    vi.mocked(createServerSupabaseClient).mockResolvedValue(
+      mockSupabase as never,
+    );
+
+    const request = makeNextRequest("http://localhost/api/reviews?tag=patio");
+    const response = await GET(request);
+
+    expect(response.status).toBe(200);
+    expect(tagEq).toHaveBeenCalledWith("tag_filter.tag", "patio");
+    expect(tagNot).toHaveBeenCalledWith("tag_filter", "is", null);
+    const data = await response.json();
+    expect(data.reviews[0]).toMatchObject({
+      tags: ["parking", "patio"],
+      escalation_reason: "health_safety",
+      escalation_detail: "unsafe",
+      escalated_at: "2025-01-15T10:05:00Z",
+    });
+  });
+
+  it("filters by language and returns each review's language", async () => {
+    const languageEq = vi.fn().mockReturnValue({
+      range: vi.fn().mockResolvedValue({
+        data: [
+          {
+            id: "rev-1",
+            external_review_id: "ext-1",
+            reviewer_name: "Lucía",
+            reviewer_photo_url: null,
+            rating: 5,
+            review_text: "La comida estaba muy buena",
+            language: "es",
+            review_date: "2025-01-15T10:00:00Z",
+            has_response: false,
+            status: "pending",
+            sentiment: "positive",
+            created_at: "2025-01-15T10:00:00Z",
+            location_id: "loc-1",
+            locations: {
+              id: "loc-1",
+              name: "Location 1",
+              google_location_id: "loc-1",
+            },
+          },
+        ],
+        count: 1,
+        error: null,
+      }),
+    });
+    const mockSupabase = {
+      auth: {
+        getUser: vi.fn().mockResolvedValue({
+          data: { user: { id: "user-1" } },
+        }),
+      },
+      from: vi.fn((table: string) => {
+        if (table === "users") {
+          return {
+            select: vi.fn().mockReturnValue({
+              eq: vi.fn().mockReturnValue({
+                single: vi.fn().mockResolvedValue({
+                  data: { id: "user-1", organization_id: "org-1" },
+                  error: null,
+                }),
+              }),
+            }),
+          };
+        }
+        if (table === "locations") {
+          return {
+            select: vi.fn().mockReturnValue({
+              eq: vi.fn().mockReturnValue({
+                eq: vi.fn().mockResolvedValue({
+                  data: [{ id: "loc-1" }],
+                }),
+              }),
+            }),
+          };
+        }
+        if (table === "reviews") {
+          return {
+            select: vi.fn().mockReturnValue({
+              in: vi.fn().mockReturnValue({
+                order: vi.fn().mockReturnValue({ eq: languageEq }),
+              }),
+            }),
+          };
+        }
+        return {};
+      }),
+    };
+
+    vi.mocked(createServerSupabaseClient).mockResolvedValue(
+      mockSupabase as never,
+    );
+
+    const request = makeNextRequest("http://localhost/api/reviews?language=es");
+    const response = await GET(request);
+
+    expect(response.status).toBe(200);
+    expect(languageEq).toHaveBeenCalledWith("language", "es");
+    const data = await response.json();
+    expect(data.reviews[0].language).toBe("es");
+  });
+
+  it("ignores malformed tag filter values", async () => {
+    const order = vi.fn().mockReturnValue({
+      range: vi.fn().mockResolvedValue({
+        data: [],
+        count: 0,
+        error: null,
+      }),
+    });
+    const mockSupabase = {
+      auth: {
+        getUser: vi.fn().mockResolvedValue({
+          data: { user: { id: "user-1" } },
+        }),
+      },
+      from: vi.fn((table: string) => {
+        if (table === "users") {
+          return {
+            select: vi.fn().mockReturnValue({
+              eq: vi.fn().mockReturnValue({
+                single: vi.fn().mockResolvedValue({
+                  data: { id: "user-1", organization_id: "org-1" },
+                  error: null,
+                }),
+              }),
+            }),
+          };
+        }
+        if (table === "locations") {
+          return {
+            select: vi.fn().mockReturnValue({
+              eq: vi.fn().mockReturnValue({
+                eq: vi.fn().mockResolvedValue({
+                  data: [{ id: "loc-1" }],
+                }),
+              }),
+            }),
+          };
+        }
+        if (table === "reviews") {
+          return {
+            select: vi.fn().mockReturnValue({
+              in: vi.fn().mockReturnValue({ order }),
+            }),
+          };
+        }
+        return {};
+      }),
+    };
+
+    vi.mocked(createServerSupabaseClient).mockResolvedValue(
+      mockSupabase as never,
+    );
+
+    const request = makeNextRequest(
+      "http://localhost/api/reviews?tag=Patio%20Area",
+    );
+    const response = await GET(request);
+
+    expect(response.status).toBe(200);
+  });
+
   it("applies location_id filter", async () => {
     const mockSupabase = {
       auth: {
@@ -0,0 +1,226 @@
+import { makeNextRequest } from "@/tests/helpers/next";
+
+vi.mock("@/lib/supabase/server", () => {
+  return {
+    createServerSupabaseClient: vi.fn(),
+  };
+});
+
+vi.mock("@/lib/claude/client", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("@/lib/claude/client")>();
+  return {
+    ...actual,
+    generateStructuredOutput: vi.fn(),
+  };
+});
+
+import { POST } from "@/app/api/tone-quiz/generate/route";
+import {
+  ClaudeAPIError,
+  generateStructuredOutput,
+  StructuredOutputError,
+} from "@/lib/claude/client";
+import { QUIZ_QUESTIONS } from "@/lib/quiz/questions";
+import { createServerSupabaseClient } from "@/lib/supabase/server";
+
+const answers = QUIZ_QUESTIONS.map((question) => ({
+  questionId: question.id,
+  answerIds: [question.answers[0]?.id ?? 1],
+}));
+
+/**
+ * Creates a mock Supabase client for the tone quiz route
+ */
+function createMockSupabaseClient(
+  options: { tokensUsedThisMonth?: number } = {},
+) {
+  const aiUsageInsert = vi.fn().mockResolvedValue({ error: null });
+  const supabase = {
+    auth: {
+      getUser: vi.fn().mockResolvedValue({
+        data: { user: { id: "user-1" } },
+      }),
+    },
+    from: vi.fn((table: string) => {
+      if (table === "users") {
+        return {
+          select: vi.fn().mockReturnValue({
+            eq: vi.fn().mockReturnValue({
+              single: vi.fn().mockResolvedValue({
+                data: {
+                  organization_id: "org-1",
+                  organizations: { plan_tier: "starter" },
+                },
+                error: null,
+              }),
+            }),
+          }),
+        };
+      }
+      if (table === "ai_usage") {
+        return { insert: aiUsageInsert };
+      }
+      return {
+        insert: vi.fn().mockReturnValue({
+          select: vi.fn().mockReturnValue({
+            single: vi.fn().mockResolvedValue({
+              data: {
+                id: "tone-1",
+                name: "Warmly Direct",
+                description: "Friendly but to the point.",
+                enhanced_context: "Keep replies short.",
+                created_at: "2026-10-01T00:00:00Z",
+              },
+              error: null,
+            }),
+          }),
+        }),
+      };
+    }),
+    rpc: vi.fn().mockResolvedValue({
+      data: options.tokensUsedThisMonth ?? 0,
+      error: null,
+    }),
+  };
+  vi.mocked(createServerSupabaseClient).mockResolvedValue(supabase as never);
+  return { aiUsageInsert };
+}
+
+function generateTone() {
+  return POST(
+    makeNextRequest("http://localhost/api/tone-quiz/generate", {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({ answers }),
+    }),
+  );
+}
+
+describe("POST /api/tone-quiz/generate", () => {
+  beforeEach(() => {
+    vi.mocked(generateStructuredOutput).mockReset();
+    vi.mocked(generateStructuredOutput).mockResolvedValue({
+      data: {
+        name: "Warmly Direct",
+        description: "Friendly but to the point.",
+        enhancedContext: "Keep replies short.",
+      },
+      tokensUsed: 300,
+    });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("saves the generated tone and records the tokens used", async () => {
+    const { aiUsageInsert } = createMockSupabaseClient();
+
+    const response = await generateTone();
+
+    expect(response.status).toBe(200);
+    await expect(response.json()).resolves.toEqual({
+      customTone: {
+        id: "tone-1",
+        name: "Warmly Direct",
+        description: "Friendly but to the point.",
+        enhancedContext: "Keep replies short.",
+        createdAt: "2026-10-01T00:00:00Z",
+      },
+    });
+    expect(aiUsageInsert).toHaveBeenCalledWith([
+      {
+        organization_id: "org-1",
+        user_id: "user-1",
+        task: "custom_tone",
+        model: null,
+        tokens_used: 300,
+      },
+    ]);
+  });
+
+  it("asks for the tone as a structured object", async () => {
+    createMockSupabaseClient();
+
+    await generateTone();
+
+    const [, userPrompt, schema, options] =
+      vi.mocked(generateStructuredOutput).mock.lastCall ?? [];
+    expect(userPrompt).toContain(`Q1: ${QUIZ_QUESTIONS[0]?.text}`);
+    expect(options).toMatchObject({ task: "custom_tone" });
+    expect(
+      schema?.safeParse({ name: "Warmly Direct", description: "Friendly." })
+        .success,
+    ).toBe(false);
+  });
+
+  it("returns 502 without saving when Claude's tone is still invalid after a correction", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const { aiUsageInsert } = createMockSupabaseClient();
+    vi.mocked(generateStructuredOutput).mockRejectedValue(
+      new StructuredOutputError(502, "Unexpected custom_tone reply", 420),
+    );
+
+    const response = await generateTone();
+
+    expect(response.status).toBe(502);
+    await expect(response.json()).resolves.toEqual({
+      error: "Couldn't generate a usable tone. Please try again.",
+      code: "AI_SERVICE_ERROR",
+    });
+    expect(aiUsageInsert).toHaveBeenCalledWith([
+      {
+        organization_id: "org-1",
+        user_id: "user-1",
+        task: "custom_tone",
+        model: null,
+        tokens_used: 420,
+      },
+    ]);
+  });
+
+  it.each([
+    { status: 408, expected: 504, code: "AI_TIMEOUT" },
+    { status: 429, expected: 429, code: "RATE_LIMITED" },
+    { status: 503, expected: 502, code: "AI_SERVICE_ERROR" },
+  ])("maps a Claude $status to $expected", async ({
+    status,
+    expected,
+    code,
+  }) => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const { aiUsageInsert } = createMockSupabaseClient();
+    vi.mocked(generateStructuredOutput).mockRejectedValue(
+      new ClaudeAPIError(status, "Claude API request failed"),
+    );
+
+    const response = await generateTone();
+
+    expect(response.status).toBe(expected);
+    await expect(response.json()).resolves.toMatchObject({ code });
+    expect(aiUsageInsert).not.toHaveBeenCalled();
+  });
+
+  it("warns once the organization is past its soft limit", async () => {
+    createMockSupabaseClient({ tokensUsedThisMonth: 200_000 });
+
+    const response = await generateTone();
+
+    expect(response.status).toBe(200);
+    await expect(response.json()).resolves.toMatchObject({
+      usageWarning: "Your organization has used 80% of this month's AI budget.",
+    });
+  });
+
+  it("refuses to generate once the budget is used up", async () => {
+    createMockSupabaseClient({ tokensUsedThisMonth: 260_000 });
+
+    const response = await generateTone();
+
+    expect(response.status).toBe(402);
+    await expect(response.json()).resolves.toMatchObject({
+      code: "AI_BUDGET_EXCEEDED",
+    });
+    expect(generateStructuredOutput).not.toHaveBeenCalled();
+  });
+});
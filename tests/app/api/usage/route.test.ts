@@ -0,0 +1,133 @@
+vi.mock("@/lib/supabase/server", () => ({
+  createServerSupabaseClient: vi.fn(),
+}));
+
+import { GET } from "@/app/api/usage/route";
+import { createServerSupabaseClient } from "@/lib/supabase/server";
+
+function createSupabaseMock(options: {
+  user?: { id: string } | null;
+  userData?: {
+    organization_id: string | null;
+    organizations?: { plan_tier: string | null } | null;
+  } | null;
+  tokensUsed?: number;
+  usageError?: { message: string } | null;
+}) {
+  const rpc = vi.fn().mockResolvedValue({
+    data: options.usageError ? null : (options.tokensUsed ?? 0),
+    error: options.usageError ?? null,
+  });
+  const supabase = {
+    auth: {
+      getUser: vi.fn().mockResolvedValue({
+        data: {
+          user: options.user === undefined ? { id: "user-1" } : options.user,
+        },
+      }),
+    },
+    from: vi.fn(() => ({
+      select: vi.fn().mockReturnValue({
+        eq: vi.fn().mockReturnValue({
+          single: vi.fn().mockResolvedValue({
+            data:
+              options.userData === undefined
+                ? {
+                    organization_id: "org-1",
+                    organizations: { plan_tier: "growth" },
+                  }
+                : options.userData,
+            error: null,
+          }),
+        }),
+      }),
+    })),
+    rpc,
+  };
+
+  return { supabase, rpc };
+}
+
+describe("GET /api/usage", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.useFakeTimers({ now: new Date("2026-10-19T12:00:00Z") });
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("returns 401 when unauthenticated", async () => {
+    const { supabase } = createSupabaseMock({ user: null });
+    vi.mocked(createServerSupabaseClient).mockResolvedValue(supabase as never);
+
+    const response = await GET();
+
+    expect(response.status).toBe(401);
+  });
+
+  it("returns 404 for users without an organization", async () => {
+    const { supabase } = createSupabaseMock({
+      userData: { organization_id: null },
+    });
+    vi.mocked(createServerSupabaseClient).mockResolvedValue(supabase as never);
+
+    const response = await GET();
+
+    expect(response.status).toBe(404);
+    await expect(response.json()).resolves.toEqual({
+      error: "Organization not found",
+    });
+  });
+
+  it("returns this month's usage against the plan tier's budget", async () => {
+    const { supabase, rpc } = createSupabaseMock({ tokensUsed: 850_000 });
+    vi.mocked(createServerSupabaseClient).mockResolvedValue(supabase as never);
+
+    const response = await GET();
+
+    expect(response.status).toBe(200);
+    await expect(response.json()).resolves.toEqual({
+      planTier: "growth",
+      tokensUsed: 850_000,
+      budget: 1_000_000,
+      state: "soft_limit",
+      resetsAt: "2026-11-01T00:00:00.000Z",
+    });
+    expect(rpc).toHaveBeenCalledWith("ai_tokens_used_since", {
+      p_organization_id: "org-1",
+      p_since: "2026-10-01T00:00:00.000Z",
+    });
+  });
+
+  it("uses the starter budget when the organization has no tier", async () => {
+    const { supabase } = createSupabaseMock({
+      userData: { organization_id: "org-1", organizations: null },
+    });
+    vi.mocked(createServerSupabaseClient).mockResolvedValue(supabase as never);
+
+    const response = await GET();
+
+    await expect(response.json()).resolves.toMatchObject({
+      planTier: "starter",
+      budget: 250_000,
+      state: "ok",
+    });
+  });
+
+  it("returns 500 when usage cannot be loaded", async () => {
+    const { supabase } = createSupabaseMock({
+      usageError: { message: "Database error" },
+    });
+    vi.mocked(createServerSupabaseClient).mockResolvedValue(supabase as never);
+
+    const response = await GET();
+
+    expect(response.status).toBe(500);
+    await expect(response.json()).resolves.toEqual({
+      error: "Failed to load usage",
+    });
+  });
+});
@@ -765,6 +765,38 @@ describe("PUT /api/voice-profile", () => {
     });
   });
 
+  it.each([
+    { guardrail_severities: { placeholder: "ignore" } },
+    { guardrail_severities: { tone: "block" } },
+    { allowed_commitments: ["free_meal"] },
+  ])("returns 400 for invalid guardrail settings %j", async (body) => {
+    vi.mocked(createServerSupabaseClient).mockResolvedValue({
+      auth: {
+        getUser: vi.fn().mockResolvedValue({
+          data: { user: { id: "user-1" } },
+        }),
+      },
+      from: vi.fn().mockReturnValue({
+        select: vi.fn().mockReturnValue({
+          eq: vi.fn().mockReturnValue({
+            single: vi.fn().mockResolvedValue({
+              data: { id: "user-1", organization_id: "org-1" },
+              error: null,
+            }),
+          }),
+        }),
+      }),
+    } as never);
+
+    const request = makeNextRequest("http://localhost/api/voice-profile", {
+      method: "PUT",
+      body: JSON.stringify(body),
+    });
+    const response = await PUT(request);
+
+    expect(response.status).toBe(400);
+  });
+
   it("returns 400 when max_length is negative", async () => {
     vi.mocked(createServerSupabaseClient).mockResolvedValue({
       auth: {
@@ -0,0 +1,195 @@
+import { makeNextRequest } from "@/tests/helpers/next";
+
+vi.mock("@/lib/supabase/server", () => {
+  return {
+    createServerSupabaseClient: vi.fn(),
+  };
+});
+
+import { PATCH } from "@/app/api/voice-profile/suggestions/[suggestionId]/route";
+import { createServerSupabaseClient } from "@/lib/supabase/server";
+
+type QueryResult = { data: unknown; error: { message: string } | null };
+
+/**
+ * Creates a chainable query whose filters return itself and whose terminal
+ * calls resolve to the given result
+ */
+function createQuery(result: QueryResult) {
+  const query: Record<string, ReturnType<typeof vi.fn>> = {};
+  for (const method of ["select", "eq", "limit", "update", "insert"]) {
+    query[method] = vi.fn(() => query);
+  }
+  query.single = vi.fn().mockResolvedValue(result);
+  query.maybeSingle = vi.fn().mockResolvedValue(result);
+  return query;
+}
+
+/**
+ * Creates a mock Supabase client for the suggestion lookup, the voice profile,
+ * and the suggestion decision
+ */
+function createMockSupabaseClient({
+  suggestion = {
+    id: "suggestion-1",
+    kind: "word_to_avoid",
+    value: "valued customer",
+    status: "pending",
+  } as unknown,
+  profile = {
+    id: "profile-1",
+    words_to_avoid: ["sorry for any inconvenience"],
+    words_to_use: null,
+    example_responses: null,
+  } as unknown,
+  profileSaveError = null as { message: string } | null,
+  decided = {
+    id: "suggestion-1",
+    status: "accepted",
+  } as unknown,
+} = {}) {
+  const suggestionQueries = [
+    createQuery({ data: suggestion, error: null }),
+    createQuery({ data: decided, error: null }),
+  ];
+  const profileQueries = [
+    createQuery({ data: profile, error: null }),
+    createQuery({ data: { id: "profile-1" }, error: profileSaveError }),
+  ];
+
+  const supabase = {
+    auth: {
+      getUser: vi.fn().mockResolvedValue({
+        data: { user: { id: "user-1" } },
+      }),
+    },
+    from: vi.fn((table: string) => {
+      if (table === "users") {
+        return createQuery({ data: { organization_id: "org-1" }, error: null });
+      }
+      if (table === "voice_profiles") {
+        return profileQueries.shift();
+      }
+      return suggestionQueries.shift();
+    }),
+  };
+  return {
+    supabase,
+    decideQuery: suggestionQueries[1] as ReturnType<typeof createQuery>,
+    saveProfileQuery: profileQueries[1] as ReturnType<typeof createQuery>,
+  };
+}
+
+function decideSuggestion(body: unknown) {
+  return PATCH(
+    makeNextRequest(
+      "http://localhost/api/voice-profile/suggestions/suggestion-1",
+      { method: "PATCH", body: JSON.stringify(body) },
+    ),
+    { params: Promise.resolve({ suggestionId: "suggestion-1" }) },
+  );
+}
+
+describe("PATCH /api/voice-profile/suggestions/[suggestionId]", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("returns 400 for an unknown status", async () => {
+    const { supabase } = createMockSupabaseClient();
+    vi.mocked(createServerSupabaseClient).mockResolvedValue(supabase as never);
+
+    const response = await decideSuggestion({ status: "pending" });
+
+    expect(response.status).toBe(400);
+  });
+
+  it("adds an accepted suggestion to the voice profile", async () => {
+    const { supabase, decideQuery, saveProfileQuery } =
+      createMockSupabaseClient();
+    vi.mocked(createServerSupabaseClient).mockResolvedValue(supabase as never);
+
+    const response = await decideSuggestion({ status: "accepted" });
+
+    expect(response.status).toBe(200);
+    expect(saveProfileQuery.update).toHaveBeenCalledWith({
+      words_to_avoid: ["sorry for any inconvenience", "valued customer"],
+    });
+    expect(decideQuery.update).toHaveBeenCalledWith(
+      expect.objectContaining({ status: "accepted", decided_by: "user-1" }),
+    );
+    expect(decideQuery.eq).toHaveBeenCalledWith("status", "pending");
+  });
+
+  it("creates the voice profile when the organization has none", async () => {
+    const { supabase, saveProfileQuery } = createMockSupabaseClient({
+      profile: null,
+    });
+    vi.mocked(createServerSupabaseClient).mockResolvedValue(supabase as never);
+
+    const response = await decideSuggestion({ status: "accepted" });
+
+    expect(response.status).toBe(200);
+    expect(saveProfileQuery.insert).toHaveBeenCalledWith({
+      organization_id: "org-1",
+      name: "Default",
+      words_to_avoid: ["valued customer"],
+    });
+  });
+
+  it("dismisses a suggestion without touching the voice profile", async () => {
+    const { supabase, decideQuery } = createMockSupabaseClient({
+      decided: { id: "suggestion-1", status: "dismissed" },
+    });
+    vi.mocked(createServerSupabaseClient).mockResolvedValue(supabase as never);
+
+    const response = await decideSuggestion({ status: "dismissed" });
+
+    expect(response.status).toBe(200);
+    await expect(response.json()).resolves.toMatchObject({
+      voiceProfile: null,
+    });
+    expect(supabase.from).not.toHaveBeenCalledWith("voice_profiles");
+    expect(decideQuery.update).toHaveBeenCalledWith(
+      expect.objectContaining({ status: "dismissed" }),
+    );
+  });
+
+  it("returns 404 for a suggestion outside the organization", async () => {
+    const { supabase } = createMockSupabaseClient({ suggestion: null });
+    vi.mocked(createServerSupabaseClient).mockResolvedValue(supabase as never);
+
+    const response = await decideSuggestion({ status: "accepted" });
+
+    expect(response.status).toBe(404);
+  });
+
+  it("returns 409 for a suggestion that was already decided", async () => {
+    const { supabase } = createMockSupabaseClient({
+      suggestion: {
+        id: "suggestion-1",
+        kind: "word_to_avoid",
+        value: "valued customer",
+        status: "dismissed",
+      },
+    });
+    vi.mocked(createServerSupabaseClient).mockResolvedValue(supabase as never);
+
+    const response = await decideSuggestion({ status: "accepted" });
+
+    expect(response.status).toBe(409);
+  });
+
+  it("leaves the suggestion pending when the voice profile cannot be saved", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const { supabase, decideQuery } = createMockSupabaseClient({
+      profileSaveError: { message: "Database error" },
+    });
+    vi.mocked(createServerSupabaseClient).mockResolvedValue(supabase as never);
+
+    const response = await decideSuggestion({ status: "accepted" });
+
+    expect(response.status).toBe(500);
+    expect(decideQuery.update).not.toHaveBeenCalled();
+  });
+});
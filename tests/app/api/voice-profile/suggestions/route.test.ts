@@ -0,0 +1,105 @@
+vi.mock("@/lib/supabase/server", () => {
+  return {
+    createServerSupabaseClient: vi.fn(),
+  };
+});
+
+import { GET } from "@/app/api/voice-profile/suggestions/route";
+import { createServerSupabaseClient } from "@/lib/supabase/server";
+
+/**
+ * Creates a mock Supabase client whose suggestions query returns the given result
+ */
+function createMockSupabaseClient(result: {
+  data: unknown[] | null;
+  error: { message: string } | null;
+}) {
+  const suggestionsEq = vi.fn();
+  const secondOrder = vi.fn().mockResolvedValue(result);
+  const suggestionsQuery = {
+    eq: suggestionsEq,
+    order: vi.fn().mockReturnValue({ order: secondOrder }),
+  };
+  suggestionsEq.mockReturnValue(suggestionsQuery);
+
+  const supabase = {
+    auth: {
+      getUser: vi.fn().mockResolvedValue({
+        data: { user: { id: "user-1" } },
+      }),
+    },
+    from: vi.fn((table: string) => {
+      if (table === "users") {
+        return {
+          select: vi.fn().mockReturnValue({
+            eq: vi.fn().mockReturnValue({
+              single: vi.fn().mockResolvedValue({
+                data: { organization_id: "org-1" },
+                error: null,
+              }),
+            }),
+          }),
+        };
+      }
+      return { select: vi.fn().mockReturnValue(suggestionsQuery) };
+    }),
+  };
+  return { supabase, suggestionsEq };
+}
+
+describe("GET /api/voice-profile/suggestions", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("returns 401 when unauthenticated", async () => {
+    vi.mocked(createServerSupabaseClient).mockResolvedValue({
+      auth: {
+        getUser: vi.fn().mockResolvedValue({ data: { user: null } }),
+      },
+    } as never);
+
+    const response = await GET();
+
+    expect(response.status).toBe(401);
+  });
+
+  it("returns the organization's pending suggestions", async () => {
+    const suggestion = {
+      id: "suggestion-1",
+      kind: "word_to_avoid",
+      value: "valued customer",
+      detail: "Removed from 4 drafts",
+      evidence_count: 4,
+      created_at: "2026-10-01T00:00:00Z",
+    };
+    const { supabase, suggestionsEq } = createMockSupabaseClient({
+      data: [suggestion],
+      error: null,
+    });
+    vi.mocked(createServerSupabaseClient).mockResolvedValue(supabase as never);
+
+    const response = await GET();
+
+    expect(response.status).toBe(200);
+    await expect(response.json()).resolves.toEqual({
+      suggestions: [suggestion],
+    });
+    expect(supabase.from).toHaveBeenCalledWith("voice_profile_suggestions");
+    expect(suggestionsEq).toHaveBeenCalledWith("organization_id", "org-1");
+    expect(suggestionsEq).toHaveBeenCalledWith("status", "pending");
+  });
+
+  it("returns 500 when suggestions cannot be loaded", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const { supabase } = createMockSupabaseClient({
+      data: null,
+      error: { message: "Database error" },
+    });
+    vi.mocked(createServerSupabaseClient).mockResolvedValue(supabase as never);
+
+    const response = await GET();
+
+    expect(response.status).toBe(500);
+  });
+});
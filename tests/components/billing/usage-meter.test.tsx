@@ -0,0 +1,92 @@
+import { act, render, screen } from "@testing-library/react";
+
+import { UsageMeter } from "@/components/billing/usage-meter";
+
+// Mock fetch globally
+const mockFetch = vi.fn();
+global.fetch = mockFetch;
+
+function usageResponse(overrides: Record<string, unknown> = {}) {
+  return {
+    ok: true,
+    json: async () => ({
+      planTier: "growth",
+      tokensUsed: 250_000,
+      budget: 1_000_000,
+      state: "ok",
+      resetsAt: "2026-11-01T00:00:00.000Z",
+      ...overrides,
+    }),
+  };
+}
+
+describe("components/billing/UsageMeter", () => {
+  beforeEach(() => {
+    mockFetch.mockReset();
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  const renderUsageMeter = async () => {
+    await act(async () => {
+      render(<UsageMeter />);
+    });
+  };
+
+  it("shows this month's usage against the plan's budget", async () => {
+    mockFetch.mockResolvedValueOnce(usageResponse());
+
+    await renderUsageMeter();
+
+    expect(mockFetch).toHaveBeenCalledWith("/api/usage");
+    expect(
+      await screen.findByText(
+        /250,000 of 1,000,000 tokens used this month \(Growth plan\)\. Resets on November 1\./,
+      ),
+    ).toBeInTheDocument();
+    expect(screen.getByRole("progressbar")).toHaveAttribute(
+      "aria-valuenow",
+      "25",
+    );
+    expect(screen.queryByRole("alert")).not.toBeInTheDocument();
+  });
+
+  it("warns past the soft limit", async () => {
+    mockFetch.mockResolvedValueOnce(
+      usageResponse({ tokensUsed: 850_000, state: "soft_limit" }),
+    );
+
+    await renderUsageMeter();
+
+    expect(
+      await screen.findByText(/You have used 85% of this month's AI budget/),
+    ).toBeInTheDocument();
+  });
+
+  it("says generation is paused once the budget is used up", async () => {
+    mockFetch.mockResolvedValueOnce(
+      usageResponse({ tokensUsed: 1_200_000, state: "hard_limit" }),
+    );
+
+    await renderUsageMeter();
+
+    expect(await screen.findByRole("alert")).toHaveTextContent(
+      "can't be generated until it resets on November 1",
+    );
+    expect(screen.getByRole("progressbar")).toHaveAttribute(
+      "aria-valuenow",
+      "100",
+    );
+  });
+
+  it("shows the error when usage cannot be loaded", async () => {
+    mockFetch.mockResolvedValueOnce({
+      ok: false,
+      json: async () => ({ error: "Failed to load usage" }),
+    });
+
+    await renderUsageMeter();
+
+    expect(await screen.findByText("Failed to load usage")).toBeInTheDocument();
+    expect(screen.queryByRole("progressbar")).not.toBeInTheDocument();
+  });
+});
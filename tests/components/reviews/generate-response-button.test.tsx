@@ -71,6 +71,27 @@ vi.mock("@/components/reviews/response-edit-modal", () => ({
 const mockFetch = vi.fn();
 global.fetch = mockFetch;
 
+const jsonHeaders = new Headers({ "content-type": "application/json" });
+
+/**
+ * Build a streamed response from server-sent event strings
+ */
+function streamResponse(events: string[]) {
+  const encoder = new TextEncoder();
+  return {
+    ok: true,
+    headers: new Headers({ "content-type": "text/event-stream" }),
+    body: new ReadableStream<Uint8Array>({
+      start(controller) {
+        for (const event of events) {
+          controller.enqueue(encoder.encode(event));
+        }
+        controller.close();
+      },
+    }),
+  };
+}
+
 describe("components/reviews/GenerateResponseButton", () => {
   beforeEach(() => {
     mockFetch.mockReset();
@@ -120,6 +141,7 @@ describe("components/reviews/GenerateResponseButton", () => {
 
       mockFetch.mockResolvedValueOnce({
         ok: true,
+        headers: jsonHeaders,
         json: async () => mockResponse,
       });
 
@@ -129,10 +151,11 @@ describe("components/reviews/GenerateResponseButton", () => {
       await user.click(button);
 
       await waitFor(() => {
-        expect(mockFetch).toHaveBeenCalledWith("/api/responses", {
+        expect(mockFetch).toHaveBeenCalledWith("/api/responses/stream", {
           method: "POST",
           headers: { "Content-Type": "application/json" },
           body: JSON.stringify({ reviewId: "review-1" }),
+          signal: expect.any(AbortSignal),
         });
       });
     });
@@ -149,6 +172,7 @@ describe("components/reviews/GenerateResponseButton", () => {
 
       mockFetch.mockResolvedValueOnce({
         ok: true,
+        headers: jsonHeaders,
         json: async () => mockResponse,
       });
 
@@ -166,6 +190,34 @@ describe("components/reviews/GenerateResponseButton", () => {
       ).toBeInTheDocument();
     });
 
+    it("opens modal with the saved edit of an existing draft", async () => {
+      const user = userEvent.setup();
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        headers: jsonHeaders,
+        json: async () => ({
+          id: "response-1",
+          reviewId: "review-1",
+          generatedText: "Thank you for your review!",
+          editedText: "Thanks so much for your review!",
+          status: "draft",
+          tokensUsed: 150,
+        }),
+      });
+
+      render(<GenerateResponseButton reviewId="review-1" />);
+
+      await user.click(
+        screen.getByRole("button", { name: "Generate Response" }),
+      );
+
+      expect(
+        await screen.findByText(
+          "Initial Text: Thanks so much for your review!",
+        ),
+      ).toBeInTheDocument();
+    });
+
     it("calls onSuccess callback with response data", async () => {
       const user = userEvent.setup();
       const onSuccess = vi.fn();
@@ -179,6 +231,7 @@ describe("components/reviews/GenerateResponseButton", () => {
 
       mockFetch.mockResolvedValueOnce({
         ok: true,
+        headers: jsonHeaders,
         json: async () => mockResponse,
       });
 
@@ -212,6 +265,7 @@ describe("components/reviews/GenerateResponseButton", () => {
 
       mockFetch.mockResolvedValueOnce({
         ok: true,
+        headers: jsonHeaders,
         json: async () => mockResponse,
       });
 
@@ -266,6 +320,7 @@ describe("components/reviews/GenerateResponseButton", () => {
       // Resolve fetch
       resolveFetch?.({
         ok: true,
+        headers: jsonHeaders,
         json: async () => ({
           id: "response-1",
           reviewId: "review-1",
@@ -283,6 +338,134 @@ describe("components/reviews/GenerateResponseButton", () => {
     });
   });
 
+  describe("Streaming", () => {
+    it("opens the modal with the streamed draft once it is saved", async () => {
+      const user = userEvent.setup();
+      const onSuccess = vi.fn();
+      const saved = {
+        id: "response-1",
+        reviewId: "review-1",
+        generatedText: "Thank you so much!",
+        editedText: null,
+        status: "draft",
+        tokensUsed: 150,
+      };
+      mockFetch.mockResolvedValueOnce(
+        streamResponse([
+          'event: text\ndata: {"text":"Thank you"}\n\n',
+          'event: text\ndata: {"text":" so much!"}\n\n',
+          `event: done\ndata: ${JSON.stringify(saved)}\n\n`,
+        ]),
+      );
+
+      render(
+        <GenerateResponseButton reviewId="review-1" onSuccess={onSuccess} />,
+      );
+      await user.click(
+        screen.getByRole("button", { name: "Generate Response" }),
+      );
+
+      expect(
+        await screen.findByText("Initial Text: Thank you so much!"),
+      ).toBeInTheDocument();
+      expect(onSuccess).toHaveBeenCalledWith(saved);
+    });
+
+    it("shows the draft as it is written", async () => {
+      const user = userEvent.setup();
+      let streamController:
+        | ReadableStreamDefaultController<Uint8Array>
+        | undefined;
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        headers: new Headers({ "content-type": "text/event-stream" }),
+        body: new ReadableStream<Uint8Array>({
+          start(controller) {
+            streamController = controller;
+          },
+        }),
+      });
+
+      render(<GenerateResponseButton reviewId="review-1" />);
+      await user.click(
+        screen.getByRole("button", { name: "Generate Response" }),
+      );
+      streamController?.enqueue(
+        new TextEncoder().encode('event: text\ndata: {"text":"Thank you"}\n\n'),
+      );
+
+      expect(
+        await screen.findByRole("status", { name: "Draft in progress" }),
+      ).toHaveTextContent("Thank you");
+      expect(screen.queryByText("Modal Open")).not.toBeInTheDocument();
+    });
+
+    it("stops generating when Stop is clicked", async () => {
+      const user = userEvent.setup();
+      const onError = vi.fn();
+      mockFetch.mockImplementationOnce(
+        (_url: string, init: RequestInit) =>
+          new Promise((_resolve, reject) => {
+            init.signal?.addEventListener("abort", () =>
+              reject(new DOMException("Aborted", "AbortError")),
+            );
+          }),
+      );
+
+      render(<GenerateResponseButton reviewId="review-1" onError={onError} />);
+      await user.click(
+        screen.getByRole("button", { name: "Generate Response" }),
+      );
+      await user.click(screen.getByRole("button", { name: "Stop" }));
+
+      expect(
+        await screen.findByRole("button", { name: "Generate Response" }),
+      ).toBeEnabled();
+      expect(onError).not.toHaveBeenCalled();
+      expect(screen.queryByText("Modal Open")).not.toBeInTheDocument();
+    });
+
+    it("reports an error sent in the stream", async () => {
+      const user = userEvent.setup();
+      const onError = vi.fn();
+      mockFetch.mockResolvedValueOnce(
+        streamResponse([
+          'event: text\ndata: {"text":"Thank"}\n\n',
+          'event: error\ndata: {"error":"AI service unavailable","code":"AI_SERVICE_ERROR"}\n\n',
+        ]),
+      );
+
+      render(<GenerateResponseButton reviewId="review-1" onError={onError} />);
+      await user.click(
+        screen.getByRole("button", { name: "Generate Response" }),
+      );
+
+      await waitFor(() => {
+        expect(onError).toHaveBeenCalledWith("AI service unavailable");
+      });
+      expect(screen.queryByText("Modal Open")).not.toBeInTheDocument();
+    });
+
+    it("reports a stream that ends before the draft is saved", async () => {
+      const user = userEvent.setup();
+      const onError = vi.fn();
+      mockFetch.mockResolvedValueOnce(
+        streamResponse(['event: text\ndata: {"text":"Thank"}\n\n']),
+      );
+
+      render(<GenerateResponseButton reviewId="review-1" onError={onError} />);
+      await user.click(
+        screen.getByRole("button", { name: "Generate Response" }),
+      );
+
+      await waitFor(() => {
+        expect(onError).toHaveBeenCalledWith(
+          "The response stopped before it finished. Please try again.",
+        );
+      });
+    });
+  });
+
   describe("Error handling", () => {
     it("handles API error with JSON error message", async () => {
       const user = userEvent.setup();
@@ -505,6 +688,100 @@ describe("components/reviews/GenerateResponseButton", () => {
     });
   });
 
+  describe("Escalated reviews", () => {
+    const mockResponse = {
+      id: "response-1",
+      reviewId: "review-1",
+      generatedText: "We're sorry to hear this.",
+      status: "draft",
+      tokensUsed: 150,
+    };
+
+    it("asks for confirmation before drafting a flagged review", async () => {
+      const user = userEvent.setup();
+      render(<GenerateResponseButton reviewId="review-1" escalated />);
+
+      await user.click(
+        screen.getByRole("button", { name: "Generate Response" }),
+      );
+
+      expect(mockFetch).not.toHaveBeenCalled();
+      expect(screen.getByRole("alert")).toHaveTextContent(
+        "Flagged for a human response. Draft with AI anyway?",
+      );
+    });
+
+    it("sends the override once confirmed", async () => {
+      const user = userEvent.setup();
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        headers: jsonHeaders,
+        json: async () => mockResponse,
+      });
+      render(<GenerateResponseButton reviewId="review-1" escalated />);
+
+      await user.click(
+        screen.getByRole("button", { name: "Generate Response" }),
+      );
+      await user.click(screen.getByRole("button", { name: "Draft Anyway" }));
+
+      await waitFor(() => {
+        expect(mockFetch).toHaveBeenCalledWith("/api/responses/stream", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            reviewId: "review-1",
+            overrideEscalation: true,
+          }),
+          signal: expect.any(AbortSignal),
+        });
+      });
+      expect(await screen.findByText("Modal Open")).toBeInTheDocument();
+    });
+
+    it("goes back to the button when cancelled", async () => {
+      const user = userEvent.setup();
+      render(<GenerateResponseButton reviewId="review-1" escalated />);
+
+      await user.click(
+        screen.getByRole("button", { name: "Generate Response" }),
+      );
+      await user.click(screen.getByRole("button", { name: "Cancel" }));
+
+      expect(
+        screen.getByRole("button", { name: "Generate Response" }),
+      ).toBeInTheDocument();
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it("asks for confirmation when the API reports the review as escalated", async () => {
+      const user = userEvent.setup();
+      const onError = vi.fn();
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        status: 409,
+        headers: {
+          get: (key: string) =>
+            key === "content-type" ? "application/json" : null,
+        },
+        json: async () => ({
+          error: "This review was flagged for a human response (legal threat)",
+          code: "REVIEW_ESCALATED",
+        }),
+      });
+      render(<GenerateResponseButton reviewId="review-1" onError={onError} />);
+
+      await user.click(
+        screen.getByRole("button", { name: "Generate Response" }),
+      );
+
+      expect(
+        await screen.findByRole("button", { name: "Draft Anyway" }),
+      ).toBeInTheDocument();
+      expect(onError).not.toHaveBeenCalled();
+    });
+  });
+
   describe("Modal interaction", () => {
     it("closes modal when onClose called", async () => {
       const user = userEvent.setup();
@@ -518,6 +795,7 @@ describe("components/reviews/GenerateResponseButton", () => {
 
       mockFetch.mockResolvedValueOnce({
         ok: true,
+        headers: jsonHeaders,
         json: async () => mockResponse,
       });
 
@@ -550,6 +828,7 @@ describe("components/reviews/GenerateResponseButton", () => {
 
       mockFetch.mockResolvedValueOnce({
         ok: true,
+        headers: jsonHeaders,
         json: async () => mockResponse,
       });
 
@@ -591,6 +591,480 @@ describe("components/reviews/ResponseEditModal", () => {
     });
   });
 
+  describe("Regenerating", () => {
+    it("replaces the text with a new draft that follows the guidance", async () => {
+      const user = userEvent.setup();
+      mockFetch.mockResolvedValue({
+        ok: true,
+        json: () =>
+          Promise.resolve({ generatedText: "Thanks - see you soon!" }),
+      });
+
+      render(<ResponseEditModal {...defaultProps} />);
+
+      await user.click(screen.getByRole("button", { name: "Regenerate" }));
+      await user.type(
+        screen.getByLabelText("Guidance for the new draft (optional)"),
+        "shorter",
+      );
+      await user.click(
+        screen.getByRole("button", { name: "Generate New Draft" }),
+      );
+
+      await waitFor(() => {
+        expect(screen.getByLabelText("Response text")).toHaveValue(
+          "Thanks - see you soon!",
+        );
+      }, WAIT_FOR_TIMEOUT);
+      expect(mockFetch).toHaveBeenCalledWith("/api/responses", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          reviewId: "review-123",
+          regenerate: true,
+          guidance: "shorter",
+        }),
+      });
+    });
+
+    it("keeps the escalation override when regenerating", async () => {
+      const user = userEvent.setup();
+      mockFetch.mockResolvedValue({
+        ok: true,
+        json: () => Promise.resolve({ generatedText: "New draft" }),
+      });
+
+      render(<ResponseEditModal {...defaultProps} overrideEscalation />);
+
+      await user.click(screen.getByRole("button", { name: "Regenerate" }));
+      await user.click(
+        screen.getByRole("button", { name: "Generate New Draft" }),
+      );
+
+      await waitFor(() => {
+        expect(mockFetch).toHaveBeenCalled();
+      }, WAIT_FOR_TIMEOUT);
+      expect(JSON.parse(mockFetch.mock.calls[0]?.[1].body)).toEqual({
+        reviewId: "review-123",
+        regenerate: true,
+        overrideEscalation: true,
+      });
+    });
+
+    it("keeps the current text when regenerating fails", async () => {
+      const user = userEvent.setup();
+      mockFetch.mockResolvedValue({
+        ok: false,
+        status: 502,
+        json: () => Promise.resolve({ error: "AI service unavailable" }),
+      });
+
+      render(<ResponseEditModal {...defaultProps} />);
+
+      await user.click(screen.getByRole("button", { name: "Regenerate" }));
+      await user.click(
+        screen.getByRole("button", { name: "Generate New Draft" }),
+      );
+
+      await waitFor(() => {
+        expect(screen.getByRole("alert")).toHaveTextContent(
+          "AI service unavailable",
+        );
+      }, WAIT_FOR_TIMEOUT);
+      expect(screen.getByLabelText("Response text")).toHaveValue(
+        "Thank you for your feedback!",
+      );
+    });
+  });
+
+  describe("Publish checks", () => {
+    const warningIssue = {
+      check: "words_to_avoid",
+      severity: "warning",
+      message: "Words this voice avoids: unfortunately",
+    };
+    const blockIssue = {
+      check: "placeholder",
+      severity: "block",
+      message: 'Placeholder text left in: "[Name]"',
+    };
+
+    it("lists blocking issues without a way to publish anyway", async () => {
+      const user = userEvent.setup();
+
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        status: 422,
+        json: () =>
+          Promise.resolve({
+            error: "This response can't be published until these are fixed",
+            code: "RESPONSE_BLOCKED",
+            issues: [blockIssue, warningIssue],
+          }),
+      });
+
+      render(<ResponseEditModal {...defaultProps} />);
+
+      await user.click(screen.getByRole("button", { name: "Publish" }));
+
+      const checks = await screen.findByRole(
+        "region",
+        { name: "Publish checks" },
+        WAIT_FOR_TIMEOUT,
+      );
+      expect(checks).toHaveTextContent("Fix these before publishing:");
+      expect(checks).toHaveTextContent(
+        'Must fix: Placeholder text left in: "[Name]"',
+      );
+      expect(checks).toHaveTextContent(
+        "Warning: Words this voice avoids: unfortunately",
+      );
+      expect(
+        screen.queryByRole("button", { name: "Publish Anyway" }),
+      ).not.toBeInTheDocument();
+      expect(screen.queryByRole("alert")).not.toBeInTheDocument();
+      expect(defaultProps.onClose).not.toHaveBeenCalled();
+    });
+
+    it("publishes anyway after warnings are acknowledged", async () => {
+      const user = userEvent.setup();
+      const onPublished = vi.fn();
+
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        status: 422,
+        json: () =>
+          Promise.resolve({
+            error: "Check these warnings before publishing",
+            code: "RESPONSE_WARNINGS",
+            issues: [warningIssue],
+          }),
+      });
+
+      render(<ResponseEditModal {...defaultProps} onPublished={onPublished} />);
+
+      await user.click(screen.getByRole("button", { name: "Publish" }));
+      await user.click(
+        await screen.findByRole(
+          "button",
+          { name: "Publish Anyway" },
+          WAIT_FOR_TIMEOUT,
+        ),
+      );
+
+      await waitFor(() => {
+        expect(onPublished).toHaveBeenCalledTimes(1);
+      }, WAIT_FOR_TIMEOUT);
+      expect(mockFetch).toHaveBeenLastCalledWith(
+        "/api/reviews/review-123/publish",
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            response_text: "Thank you for your feedback!",
+            acknowledge_warnings: true,
+          }),
+        },
+      );
+    });
+
+    it("clears the issues once the text is edited", async () => {
+      const user = userEvent.setup();
+
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        status: 422,
+        json: () =>
+          Promise.resolve({
+            error: "Check these warnings before publishing",
+            code: "RESPONSE_WARNINGS",
+            issues: [warningIssue],
+          }),
+      });
+
+      render(<ResponseEditModal {...defaultProps} />);
+
+      await user.click(screen.getByRole("button", { name: "Publish" }));
+      await screen.findByRole(
+        "region",
+        { name: "Publish checks" },
+        WAIT_FOR_TIMEOUT,
+      );
+
+      await user.type(screen.getByRole("textbox"), " Thanks again.");
+
+      expect(
+        screen.queryByRole("region", { name: "Publish checks" }),
+      ).not.toBeInTheDocument();
+    });
+  });
+
+  describe("Saving drafts", () => {
+    it("saves the edited text", async () => {
+      const user = userEvent.setup();
+
+      render(<ResponseEditModal {...defaultProps} />);
+
+      const textarea = screen.getByRole("textbox");
+      await user.clear(textarea);
+      await user.type(textarea, "Thanks so much!");
+      await user.click(screen.getByRole("button", { name: "Save Draft" }));
+
+      await waitFor(() => {
+        expect(screen.getByText("Draft saved")).toBeInTheDocument();
+      }, WAIT_FOR_TIMEOUT);
+      expect(mockFetch).toHaveBeenCalledWith("/api/responses", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          reviewId: "review-123",
+          text: "Thanks so much!",
+        }),
+      });
+    });
+  });
+
+  describe("Alternative drafts", () => {
+    const variants = [
+      {
+        versionId: "version-1",
+        style: "balanced",
+        text: "Thank you for your feedback!",
+        tokensUsed: 120,
+      },
+      {
+        versionId: "version-2",
+        style: "short",
+        text: "Thanks - see you soon!",
+        tokensUsed: 80,
+      },
+    ];
+
+    it("shows each draft with its style and token usage", () => {
+      render(<ResponseEditModal {...defaultProps} variants={variants} />);
+
+      const picker = screen.getByRole("region", {
+        name: "Drafts to choose from",
+      });
+      const balanced = within(picker).getByRole("article", {
+        name: "Balanced",
+      });
+      expect(balanced).toHaveTextContent("120 tokens");
+      expect(
+        within(balanced).getByRole("button", { name: "Use This Draft" }),
+      ).toHaveAttribute("aria-pressed", "true");
+      expect(
+        within(picker).getByRole("article", { name: "Short" }),
+      ).toHaveTextContent("80 tokens");
+    });
+
+    it("does not show the picker for a single draft", () => {
+      render(<ResponseEditModal {...defaultProps} variants={[]} />);
+
+      expect(
+        screen.queryByRole("region", { name: "Drafts to choose from" }),
+      ).not.toBeInTheDocument();
+    });
+
+    it("publishes the chosen draft with its version", async () => {
+      const user = userEvent.setup();
+
+      render(<ResponseEditModal {...defaultProps} variants={variants} />);
+
+      const short = screen.getByRole("article", { name: "Short" });
+      await user.click(
+        within(short).getByRole("button", { name: "Use This Draft" }),
+      );
+      expect(screen.getByLabelText("Response text")).toHaveValue(
+        "Thanks - see you soon!",
+      );
+
+      await user.click(screen.getByRole("button", { name: "Publish" }));
+
+      await waitFor(() => {
+        expect(mockFetch).toHaveBeenCalled();
+      }, WAIT_FOR_TIMEOUT);
+      expect(JSON.parse(mockFetch.mock.calls[0]?.[1].body)).toEqual({
+        response_text: "Thanks - see you soon!",
+        source_version_id: "version-2",
+      });
+    });
+
+    it("saves an edited draft with the version it started from", async () => {
+      const user = userEvent.setup();
+
+      render(<ResponseEditModal {...defaultProps} variants={variants} />);
+
+      const textarea = screen.getByRole("textbox");
+      await user.type(textarea, " Hope to see you again.");
+      await user.click(screen.getByRole("button", { name: "Save Draft" }));
+
+      await waitFor(() => {
+        expect(mockFetch).toHaveBeenCalled();
+      }, WAIT_FOR_TIMEOUT);
+      expect(JSON.parse(mockFetch.mock.calls[0]?.[1].body)).toEqual({
+        reviewId: "review-123",
+        text: "Thank you for your feedback! Hope to see you again.",
+        sourceVersionId: "version-1",
+      });
+    });
+
+    it("regenerates several drafts to choose from", async () => {
+      const user = userEvent.setup();
+      mockFetch.mockResolvedValue({
+        ok: true,
+        json: () =>
+          Promise.resolve({
+            generatedText: "Thank you for your feedback!",
+            variants,
+          }),
+      });
+
+      render(<ResponseEditModal {...defaultProps} />);
+
+      await user.click(screen.getByRole("button", { name: "Regenerate" }));
+      await user.selectOptions(screen.getByLabelText("Drafts"), "2");
+      await user.click(
+        screen.getByRole("button", { name: "Generate New Draft" }),
+      );
+
+      expect(
+        await screen.findByRole("region", { name: "Drafts to choose from" }),
+      ).toBeInTheDocument();
+      expect(JSON.parse(mockFetch.mock.calls[0]?.[1].body)).toEqual({
+        reviewId: "review-123",
+        regenerate: true,
+        variants: 2,
+      });
+    });
+  });
+
+  describe("Version history", () => {
+    const versions = [
+      {
+        id: "version-2",
+        kind: "edited",
+        text: "Thanks so much for visiting!",
+        guidance: null,
+        created_at: "2025-01-02T00:00:00Z",
+      },
+      {
+        id: "version-1",
+        kind: "generated",
+        text: "Thank you for visiting us!",
+        guidance: "warmer",
+        created_at: "2025-01-01T00:00:00Z",
+      },
+    ];
+
+    it("lists earlier versions and restores one", async () => {
+      const user = userEvent.setup();
+      mockFetch.mockResolvedValue({
+        ok: true,
+        json: () => Promise.resolve({ versions }),
+      });
+
+      render(<ResponseEditModal {...defaultProps} />);
+
+      await user.click(screen.getByRole("button", { name: "History" }));
+
+      const history = await screen.findByRole("region", {
+        name: "Version history",
+      });
+      expect(mockFetch).toHaveBeenCalledWith(
+        "/api/reviews/review-123/response-versions",
+      );
+      const items = within(history).getAllByRole("listitem");
+      expect(items).toHaveLength(2);
+      expect(items[0]).toHaveTextContent("Edited");
+      expect(items[1]).toHaveTextContent("AI draft");
+      expect(items[1]).toHaveTextContent("Guidance: warmer");
+
+      await user.click(
+        within(items[1] as HTMLElement).getByRole("button", {
+          name: "Restore",
+        }),
+      );
+
+      expect(screen.getByLabelText("Response text")).toHaveValue(
+        "Thank you for visiting us!",
+      );
+    });
+
+    it("shows a message when there are no versions yet", async () => {
+      const user = userEvent.setup();
+      mockFetch.mockResolvedValue({
+        ok: true,
+        json: () => Promise.resolve({ versions: [] }),
+      });
+
+      render(<ResponseEditModal {...defaultProps} />);
+
+      await user.click(screen.getByRole("button", { name: "History" }));
+
+      expect(
+        await screen.findByText("No earlier versions yet."),
+      ).toBeInTheDocument();
+    });
+  });
+
+  describe("Review translation", () => {
+    it("shows an English translation of a review in another language", async () => {
+      const user = userEvent.setup();
+      mockFetch.mockResolvedValue({
+        ok: true,
+        json: () =>
+          Promise.resolve({
+            language: "es",
+            translation: "The food was very good",
+          }),
+      });
+
+      render(
+        <ResponseEditModal
+          {...defaultProps}
+          reviewSummary={{
+            reviewerName: "Lucía",
+            reviewText: "La comida estaba muy buena",
+            language: "es",
+          }}
+        />,
+      );
+
+      await user.click(
+        screen.getByRole("button", { name: "Show translation from Spanish" }),
+      );
+
+      expect(
+        await screen.findByText("The food was very good"),
+      ).toBeInTheDocument();
+      expect(mockFetch).toHaveBeenCalledWith(
+        "/api/reviews/review-123/translation",
+      );
+
+      await user.click(
+        screen.getByRole("button", { name: "Hide translation" }),
+      );
+
+      expect(
+        screen.queryByText("The food was very good"),
+      ).not.toBeInTheDocument();
+    });
+
+    it("offers no translation for English reviews", () => {
+      render(
+        <ResponseEditModal
+          {...defaultProps}
+          reviewSummary={{ reviewText: "Great food", language: "en" }}
+        />,
+      );
+
+      expect(
+        screen.queryByRole("button", { name: /translation/ }),
+      ).not.toBeInTheDocument();
+    });
+  });
+
   describe("State reset on reopen", () => {
     it("resets text when initialText changes", () => {
       const { rerender } = render(
@@ -14,11 +14,21 @@ describe("components/reviews/ReviewCard", () => {
     reviewer_photo_url: null,
     rating: 5,
     review_text: "Great!",
+    language: null,
     review_date: "2025-01-01T00:00:00.000Z",
     has_response: false,
     status: "pending",
     sentiment: null,
+    sentiment_confidence: null,
+    sentiment_source: null,
+    sentiment_aspects: [],
+    sentiment_analyzed_at: null,
+    escalation_reason: null,
+    escalation_detail: null,
+    escalated_at: null,
     created_at: "2025-01-01T00:00:00.000Z",
+    deleted_at: null,
+    last_seen_at: null,
     ...overrides,
   });
   it("renders review content and calls onGenerateResponse for pending reviews", async () => {
@@ -363,4 +373,90 @@ describe("components/reviews/ReviewCard", () => {
     await user.click(button);
     expect(onGenerateResponse).toHaveBeenCalledWith("rev_19");
   });
+
+  it("shows a reply written directly on Google", () => {
+    render(
+      <ReviewCard
+        review={createMockReview({ status: "responded" })}
+        reply={{
+          source: "external",
+          final_text: "Thanks for stopping by!",
+          google_reply_text: "Thanks for stopping by!",
+        }}
+      />,
+    );
+
+    expect(
+      screen.getByText("Owner reply (posted on Google)"),
+    ).toBeInTheDocument();
+    expect(screen.getByText("Thanks for stopping by!")).toBeInTheDocument();
+  });
+
+  it("shows the Google version of a Replily reply that was edited on Google", () => {
+    render(
+      <ReviewCard
+        review={createMockReview({ status: "responded" })}
+        reply={{
+          source: "replily",
+          final_text: "Thank you!",
+          google_reply_text: "Thank you so much!",
+        }}
+      />,
+    );
+
+    expect(screen.getByText("Your reply")).toBeInTheDocument();
+    expect(screen.getByText("Thank you so much!")).toBeInTheDocument();
+    expect(screen.queryByText("Thank you!")).not.toBeInTheDocument();
+    expect(
+      screen.getByText("Edited on Google since it was published from Replily"),
+    ).toBeInTheDocument();
+  });
+
+  it("shows a badge for reviews flagged for a human response", () => {
+    render(
+      <ReviewCard
+        review={createMockReview({
+          escalation_reason: "health_safety",
+          escalation_detail: "food poisoning",
+          escalated_at: "2025-01-02T00:00:00.000Z",
+        })}
+      />,
+    );
+
+    expect(
+      screen.getByText(
+        'Needs human response: Health or safety ("food poisoning")',
+      ),
+    ).toBeInTheDocument();
+  });
+
+  it("shows the review's topic tags", () => {
+    render(
+      <ReviewCard review={createMockReview()} tags={["Parking", "Patio"]} />,
+    );
+
+    const topics = screen.getByRole("list", { name: "Topics" });
+    expect(topics).toHaveTextContent("Parking");
+    expect(topics).toHaveTextContent("Patio");
+  });
+
+  it("does not flag a Replily reply that matches Google", () => {
+    render(
+      <ReviewCard
+        review={createMockReview({ status: "responded" })}
+        reply={{
+          source: "replily",
+          final_text: "Thank you!",
+          google_reply_text: "Thank you!",
+        }}
+      />,
+    );
+
+    expect(screen.getByText("Thank you!")).toBeInTheDocument();
+    expect(
+      screen.queryByText(
+        "Edited on Google since it was published from Replily",
+      ),
+    ).not.toBeInTheDocument();
+  });
 });
@@ -217,6 +217,80 @@ describe("components/reviews/ReviewsFilters", () => {
     });
   });
 
+  describe("Topic filter", () => {
+    const tagOptions = [
+      { tag: "parking", label: "Parking" },
+      { tag: "patio", label: "Patio" },
+    ];
+
+    it("is hidden without tag options", () => {
+      render(<ReviewsFilters />);
+      expect(
+        screen.queryByRole("combobox", { name: "Filter by topic" }),
+      ).not.toBeInTheDocument();
+    });
+
+    it("lists the tag options and shows the current tag", () => {
+      render(<ReviewsFilters tagOptions={tagOptions} currentTag="patio" />);
+
+      const topicSelect = screen.getByRole("combobox", {
+        name: "Filter by topic",
+      });
+      expect(topicSelect).toHaveValue("patio");
+      expect(
+        screen.getByRole("option", { name: "All Topics" }),
+      ).toBeInTheDocument();
+      expect(
+        screen.getByRole("option", { name: "Parking" }),
+      ).toBeInTheDocument();
+    });
+
+    it("updates URL when a topic is selected", async () => {
+      const user = userEvent.setup();
+      mockSearchParams.mockReturnValue(new URLSearchParams("status=pending"));
+      render(<ReviewsFilters tagOptions={tagOptions} />);
+
+      const topicSelect = screen.getByRole("combobox", {
+        name: "Filter by topic",
+      });
+      await user.selectOptions(topicSelect, "parking");
+
+      expect(mockPush).toHaveBeenCalledWith(
+        "/reviews?status=pending&tag=parking",
+      );
+    });
+  });
+
+  describe("Language filter", () => {
+    it("lists the supported languages and shows the current language", () => {
+      render(<ReviewsFilters currentLanguage="es" />);
+
+      const languageSelect = screen.getByRole("combobox", {
+        name: "Filter by language",
+      });
+      expect(languageSelect).toHaveValue("es");
+      expect(
+        screen.getByRole("option", { name: "All Languages" }),
+      ).toBeInTheDocument();
+      expect(
+        screen.getByRole("option", { name: "Spanish" }),
+      ).toBeInTheDocument();
+    });
+
+    it("updates URL when a language is selected", async () => {
+      const user = userEvent.setup();
+      mockSearchParams.mockReturnValue(new URLSearchParams("page=2"));
+      render(<ReviewsFilters />);
+
+      const languageSelect = screen.getByRole("combobox", {
+        name: "Filter by language",
+      });
+      await user.selectOptions(languageSelect, "fr");
+
+      expect(mockPush).toHaveBeenCalledWith("/reviews?language=fr");
+    });
+  });
+
   describe("Base path handling", () => {
     it("uses basePath prop when provided", async () => {
       const user = userEvent.setup();
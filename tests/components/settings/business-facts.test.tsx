@@ -0,0 +1,219 @@
+import { act, fireEvent, render, screen } from "@testing-library/react";
+
+import { BusinessFacts } from "@/components/settings/business-facts";
+
+// Mock fetch globally
+const mockFetch = vi.fn();
+global.fetch = mockFetch;
+
+const locations = [{ id: "loc-1", name: "Downtown" }];
+
+const hoursFact = {
+  id: "fact-1",
+  location_id: null,
+  category: "hours",
+  title: "Opening hours",
+  content: "Open 8am-6pm, closed Sundays",
+  keywords: ["sunday"],
+};
+
+const managerFact = {
+  id: "fact-2",
+  location_id: "loc-1",
+  category: "staff",
+  title: "Store manager",
+  content: "Priya runs the store",
+  keywords: [],
+};
+
+describe("components/settings/BusinessFacts", () => {
+  beforeEach(() => {
+    mockFetch.mockReset();
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  const renderFacts = async (facts = [hoursFact, managerFact]) => {
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({ facts, locations }),
+    });
+    await act(async () => {
+      render(<BusinessFacts />);
+    });
+  };
+
+  it("lists each fact with its category and location", async () => {
+    await renderFacts();
+
+    expect(mockFetch).toHaveBeenCalledWith("/api/business-facts");
+    expect(screen.getByText("Opening hours")).toBeInTheDocument();
+    expect(screen.getByText("(Hours, All locations)")).toBeInTheDocument();
+    expect(screen.getByText("(Staff, Downtown)")).toBeInTheDocument();
+    expect(screen.getByText("Keywords: sunday")).toBeInTheDocument();
+  });
+
+  it("shows an empty state when there are no facts", async () => {
+    await renderFacts([]);
+
+    expect(screen.getByText(/No business facts yet/)).toBeInTheDocument();
+  });
+
+  it("adds a fact for one location", async () => {
+    await renderFacts([]);
+    const created = {
+      ...hoursFact,
+      id: "fact-3",
+      title: "Parking",
+      content: "Free parking behind the store",
+      location_id: "loc-1",
+    };
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({ fact: created }),
+    });
+
+    fireEvent.change(screen.getByLabelText("Category"), {
+      target: { value: "faq" },
+    });
+    fireEvent.change(screen.getByLabelText("Applies to"), {
+      target: { value: "loc-1" },
+    });
+    fireEvent.change(screen.getByLabelText("Title"), {
+      target: { value: "Parking" },
+    });
+    fireEvent.change(screen.getByLabelText("Fact"), {
+      target: { value: "Free parking behind the store" },
+    });
+    fireEvent.change(screen.getByLabelText("Keywords"), {
+      target: { value: "parking, car park, " },
+    });
+    await act(async () => {
+      fireEvent.click(screen.getByRole("button", { name: "Add Fact" }));
+    });
+
+    expect(mockFetch).toHaveBeenLastCalledWith(
+      "/api/business-facts",
+      expect.objectContaining({
+        method: "POST",
+        body: JSON.stringify({
+          category: "faq",
+          title: "Parking",
+          content: "Free parking behind the store",
+          keywords: ["parking", "car park"],
+          location_id: "loc-1",
+        }),
+      }),
+    );
+    expect(
+      screen.getByText("Free parking behind the store"),
+    ).toBeInTheDocument();
+    expect(screen.getByLabelText("Title")).toHaveValue("");
+  });
+
+  it("does not submit without a title and fact", async () => {
+    await renderFacts([]);
+
+    await act(async () => {
+      fireEvent.click(screen.getByRole("button", { name: "Add Fact" }));
+    });
+
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+    expect(
+      screen.getByText("Enter a title and the fact itself."),
+    ).toBeInTheDocument();
+  });
+
+  it("edits a fact in place", async () => {
+    await renderFacts();
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({
+        fact: { ...hoursFact, content: "Open 9am-5pm, closed Sundays" },
+      }),
+    });
+
+    fireEvent.click(screen.getByRole("button", { name: "Edit Opening hours" }));
+    expect(screen.getByLabelText("Fact")).toHaveValue(hoursFact.content);
+    expect(screen.getByLabelText("Keywords")).toHaveValue("sunday");
+
+    fireEvent.change(screen.getByLabelText("Fact"), {
+      target: { value: "Open 9am-5pm, closed Sundays" },
+    });
+    await act(async () => {
+      fireEvent.click(screen.getByRole("button", { name: "Save Fact" }));
+    });
+
+    expect(mockFetch).toHaveBeenLastCalledWith(
+      "/api/business-facts/fact-1",
+      expect.objectContaining({ method: "PATCH" }),
+    );
+    expect(
+      screen.getByText("Open 9am-5pm, closed Sundays"),
+    ).toBeInTheDocument();
+    expect(
+      screen.queryByText("Open 8am-6pm, closed Sundays"),
+    ).not.toBeInTheDocument();
+    expect(
+      screen.getByRole("button", { name: "Add Fact" }),
+    ).toBeInTheDocument();
+  });
+
+  it("deletes a fact", async () => {
+    await renderFacts();
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({ success: true }),
+    });
+
+    await act(async () => {
+      fireEvent.click(
+        screen.getByRole("button", { name: "Delete Store manager" }),
+      );
+    });
+
+    expect(mockFetch).toHaveBeenLastCalledWith("/api/business-facts/fact-2", {
+      method: "DELETE",
+    });
+    expect(screen.queryByText("Store manager")).not.toBeInTheDocument();
+    expect(screen.getByText("Opening hours")).toBeInTheDocument();
+  });
+
+  it("shows the API error when saving fails", async () => {
+    await renderFacts([]);
+    mockFetch.mockResolvedValueOnce({
+      ok: false,
+      json: async () => ({
+        error: "Organizations can keep up to 100 business facts",
+      }),
+    });
+
+    fireEvent.change(screen.getByLabelText("Title"), {
+      target: { value: "Parking" },
+    });
+    fireEvent.change(screen.getByLabelText("Fact"), {
+      target: { value: "Free" },
+    });
+    await act(async () => {
+      fireEvent.click(screen.getByRole("button", { name: "Add Fact" }));
+    });
+
+    expect(
+      screen.getByText("Organizations can keep up to 100 business facts"),
+    ).toBeInTheDocument();
+  });
+
+  it("shows an error when facts cannot be loaded", async () => {
+    mockFetch.mockResolvedValueOnce({
+      ok: false,
+      json: async () => ({ error: "Failed to fetch business facts" }),
+    });
+
+    await act(async () => {
+      render(<BusinessFacts />);
+    });
+
+    expect(
+      screen.getByText("Failed to fetch business facts"),
+    ).toBeInTheDocument();
+  });
+});
@@ -918,4 +918,254 @@ describe("components/settings/LocationSelector", () => {
     // After save, location should be marked as synced
     expect(screen.getByText("Synced")).toBeInTheDocument();
   });
+
+  it("imports past reviews after saving a newly synced location", async () => {
+    const user = userEvent.setup();
+
+    mockFetch
+      .mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({
+          locations: [
+            {
+              google_account_id: "acc-1",
+              google_location_id: "loc-1",
+              name: "Location 1",
+              address: "123 Main St",
+              account_name: "Account 1",
+              is_synced: false,
+            },
+          ],
+        }),
+      })
+      .mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({
+          saved: 1,
+          locations: [{ id: "db-1", google_location_id: "loc-1" }],
+          backfills: [
+            {
+              location_id: "db-1",
+              status: "pending",
+              imported_count: 0,
+              target_count: null,
+              last_error: null,
+            },
+          ],
+        }),
+      })
+      .mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({
+          backfills: [
+            {
+              location_id: "db-1",
+              status: "running",
+              imported_count: 50,
+              target_count: 200,
+              last_error: null,
+            },
+          ],
+        }),
+      })
+      .mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({
+          backfills: [
+            {
+              location_id: "db-1",
+              status: "completed",
+              imported_count: 120,
+              target_count: 200,
+              last_error: null,
+            },
+          ],
+        }),
+      });
+
+    await renderLocationSelector();
+
+    await waitFor(() => {
+      expect(screen.getByText("Location 1")).toBeInTheDocument();
+    });
+
+    await user.click(screen.getByRole("checkbox"));
+    await user.click(screen.getByRole("button", { name: "Save Locations" }));
+
+    await waitFor(() => {
+      expect(
+        screen.getByText("120 past review(s) imported"),
+      ).toBeInTheDocument();
+    });
+
+    expect(mockFetch).toHaveBeenCalledTimes(4);
+    expect(mockFetch).toHaveBeenNthCalledWith(3, "/api/locations/backfill", {
+      method: "POST",
+    });
+  });
+
+  it("resumes unfinished imports when loading locations", async () => {
+    mockFetch
+      .mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({
+          locations: [
+            {
+              id: "db-1",
+              google_account_id: "acc-1",
+              google_location_id: "loc-1",
+              name: "Location 1",
+              address: "123 Main St",
+              account_name: "Account 1",
+              is_synced: true,
+              backfill: {
+                location_id: "db-1",
+                status: "running",
+                imported_count: 50,
+                target_count: 200,
+                last_error: null,
+              },
+            },
+          ],
+        }),
+      })
+      .mockImplementationOnce(
+        () =>
+          new Promise(() => {
+            // Never resolves to keep the import in progress
+          }),
+      );
+
+    await renderLocationSelector();
+
+    await waitFor(() => {
+      expect(
+        screen.getByText("Importing past reviews: 50 of up to 200"),
+      ).toBeInTheDocument();
+    });
+
+    await waitFor(() => {
+      expect(mockFetch).toHaveBeenCalledWith("/api/locations/backfill", {
+        method: "POST",
+      });
+    });
+  });
+
+  it("shows error when importing reviews fails", async () => {
+    mockFetch
+      .mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({
+          locations: [
+            {
+              id: "db-1",
+              google_account_id: "acc-1",
+              google_location_id: "loc-1",
+              name: "Location 1",
+              address: "123 Main St",
+              account_name: "Account 1",
+              is_synced: true,
+              backfill: {
+                location_id: "db-1",
+                status: "pending",
+                imported_count: 0,
+                target_count: null,
+                last_error: null,
+              },
+            },
+          ],
+        }),
+      })
+      .mockResolvedValueOnce({
+        ok: false,
+        status: 500,
+        json: async () => ({ error: "Failed to import reviews" }),
+      });
+
+    await renderLocationSelector();
+
+    await waitFor(() => {
+      expect(screen.getByText("Failed to import reviews")).toBeInTheDocument();
+    });
+
+    expect(screen.getByText("Importing past reviews...")).toBeInTheDocument();
+  });
+
+  describe("sync health", () => {
+    const syncedLocation = {
+      id: "db-1",
+      google_account_id: "acc-1",
+      google_location_id: "loc-1",
+      name: "Location 1",
+      address: "123 Main St",
+      account_name: "Account 1",
+      is_synced: true,
+    };
+
+    it("shows when the location was last synced", async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({
+          locations: [
+            {
+              ...syncedLocation,
+              sync_health: {
+                last_success_at: new Date(
+                  Date.now() - 5 * 60 * 1000,
+                ).toISOString(),
+                consecutive_failures: 0,
+                last_error: null,
+                next_retry_at: null,
+              },
+            },
+          ],
+        }),
+      });
+
+      await renderLocationSelector();
+
+      const status = await screen.findByText("Last synced: 5 minutes ago");
+      expect(status).toHaveClass("text-foreground-secondary");
+    });
+
+    it("shows the latest error while syncing is failing", async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({
+          locations: [
+            {
+              ...syncedLocation,
+              sync_health: {
+                last_success_at: null,
+                consecutive_failures: 3,
+                last_error: "Location not found",
+                next_retry_at: new Date(
+                  Date.now() + 20 * 60 * 1000,
+                ).toISOString(),
+              },
+            },
+          ],
+        }),
+      });
+
+      await renderLocationSelector();
+
+      const status = await screen.findByText(
+        "Not synced yet · Sync failing: Location not found",
+      );
+      expect(status).toHaveClass("text-red-600");
+    });
+
+    it("shows nothing before the location has been polled", async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ locations: [syncedLocation] }),
+      });
+
+      await renderLocationSelector();
+
+      await screen.findByText("Location 1");
+      expect(screen.queryByText(/synced:|Not synced yet/)).toBeNull();
+    });
+  });
 });
@@ -0,0 +1,75 @@
+import { act, render, screen } from "@testing-library/react";
+
+import { OrganizationAlerts } from "@/components/settings/organization-alerts";
+
+// Mock fetch globally
+const mockFetch = vi.fn();
+global.fetch = mockFetch;
+
+describe("components/settings/OrganizationAlerts", () => {
+  beforeEach(() => {
+    mockFetch.mockReset();
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  const renderOrganizationAlerts = async () => {
+    let container: HTMLElement | undefined;
+    await act(async () => {
+      ({ container } = render(<OrganizationAlerts />));
+    });
+    return container;
+  };
+
+  it("shows each open alert", async () => {
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({
+        alerts: [
+          {
+            type: "google_connection",
+            message: "No valid Google connection: review syncing has stopped.",
+            raised_at: "2025-01-01T00:00:00Z",
+          },
+        ],
+      }),
+    });
+
+    await renderOrganizationAlerts();
+
+    expect(mockFetch).toHaveBeenCalledWith("/api/alerts");
+    expect(await screen.findByRole("alert")).toHaveTextContent(
+      "No valid Google connection: review syncing has stopped.",
+    );
+  });
+
+  it("renders nothing when there are no alerts", async () => {
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({ alerts: [] }),
+    });
+
+    const container = await renderOrganizationAlerts();
+
+    expect(container).toBeEmptyDOMElement();
+  });
+
+  it("renders nothing when alerts cannot be loaded", async () => {
+    mockFetch.mockResolvedValueOnce({
+      ok: false,
+      json: async () => ({ error: "Failed to load alerts" }),
+    });
+
+    const container = await renderOrganizationAlerts();
+
+    expect(container).toBeEmptyDOMElement();
+  });
+
+  it("renders nothing when the request fails", async () => {
+    mockFetch.mockRejectedValueOnce(new Error("Network error"));
+
+    const container = await renderOrganizationAlerts();
+
+    expect(container).toBeEmptyDOMElement();
+    expect(console.error).toHaveBeenCalled();
+  });
+});
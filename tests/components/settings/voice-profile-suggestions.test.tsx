@@ -0,0 +1,135 @@
+import { act, fireEvent, render, screen } from "@testing-library/react";
+
+import { VoiceProfileSuggestions } from "@/components/settings/voice-profile-suggestions";
+
+// Mock fetch globally
+const mockFetch = vi.fn();
+global.fetch = mockFetch;
+
+const suggestions = [
+  {
+    id: "suggestion-1",
+    kind: "word_to_avoid",
+    value: "valued customer",
+    detail: 'Removed from 4 drafts, usually replaced with "friend"',
+  },
+  {
+    id: "suggestion-2",
+    kind: "example_response",
+    value: "Thanks Sam, the brisket is our pride and joy!",
+    detail: "Rewritten by your team for a 5-star review",
+  },
+];
+
+describe("components/settings/VoiceProfileSuggestions", () => {
+  beforeEach(() => {
+    mockFetch.mockReset();
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  const renderSuggestions = async () => {
+    let container: HTMLElement | undefined;
+    await act(async () => {
+      ({ container } = render(<VoiceProfileSuggestions />));
+    });
+    return container;
+  };
+
+  it("shows each pending suggestion with its evidence", async () => {
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({ suggestions }),
+    });
+
+    await renderSuggestions();
+
+    expect(mockFetch).toHaveBeenCalledWith("/api/voice-profile/suggestions");
+    expect(screen.getByText('"valued customer"')).toBeInTheDocument();
+    expect(
+      screen.getByText('Removed from 4 drafts, usually replaced with "friend"'),
+    ).toBeInTheDocument();
+    expect(
+      screen.getByText("Thanks Sam, the brisket is our pride and joy!"),
+    ).toBeInTheDocument();
+    expect(screen.getAllByRole("button", { name: "Accept" })).toHaveLength(2);
+  });
+
+  it("accepts a suggestion and removes it from the list", async () => {
+    mockFetch
+      .mockResolvedValueOnce({ ok: true, json: async () => ({ suggestions }) })
+      .mockResolvedValueOnce({ ok: true, json: async () => ({}) });
+
+    await renderSuggestions();
+    await act(async () => {
+      fireEvent.click(
+        screen.getAllByRole("button", { name: "Accept" })[0] as HTMLElement,
+      );
+    });
+
+    expect(mockFetch).toHaveBeenLastCalledWith(
+      "/api/voice-profile/suggestions/suggestion-1",
+      expect.objectContaining({
+        method: "PATCH",
+        body: JSON.stringify({ status: "accepted" }),
+      }),
+    );
+    expect(screen.queryByText('"valued customer"')).not.toBeInTheDocument();
+    expect(
+      screen.getByText("Thanks Sam, the brisket is our pride and joy!"),
+    ).toBeInTheDocument();
+  });
+
+  it("dismisses a suggestion", async () => {
+    mockFetch
+      .mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ suggestions: [suggestions[0]] }),
+      })
+      .mockResolvedValueOnce({ ok: true, json: async () => ({}) });
+
+    const container = await renderSuggestions();
+    await act(async () => {
+      fireEvent.click(screen.getByRole("button", { name: "Dismiss" }));
+    });
+
+    expect(mockFetch).toHaveBeenLastCalledWith(
+      "/api/voice-profile/suggestions/suggestion-1",
+      expect.objectContaining({
+        body: JSON.stringify({ status: "dismissed" }),
+      }),
+    );
+    expect(container).toBeEmptyDOMElement();
+  });
+
+  it("keeps the suggestion and shows the error when the update fails", async () => {
+    mockFetch
+      .mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ suggestions: [suggestions[0]] }),
+      })
+      .mockResolvedValueOnce({
+        ok: false,
+        status: 500,
+        json: async () => ({ error: "Failed to update voice profile" }),
+      });
+
+    await renderSuggestions();
+    await act(async () => {
+      fireEvent.click(screen.getByRole("button", { name: "Accept" }));
+    });
+
+    expect(screen.getByText('"valued customer"')).toBeInTheDocument();
+    expect(
+      screen.getByText("Failed to update voice profile"),
+    ).toBeInTheDocument();
+  });
+
+  it("renders nothing when suggestions cannot be loaded", async () => {
+    mockFetch.mockRejectedValueOnce(new Error("Network error"));
+
+    const container = await renderSuggestions();
+
+    expect(container).toBeEmptyDOMElement();
+    expect(console.error).toHaveBeenCalled();
+  });
+});
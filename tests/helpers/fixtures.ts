@@ -26,10 +26,20 @@ export function createMockReview(overrides?: Partial<Review>): Review {
     rating: 5,
     review_text: "Great service!",
     review_date: "2025-01-01T00:00:00Z",
+    language: null,
     has_response: false,
     status: "pending",
     sentiment: "positive",
+    sentiment_confidence: null,
+    sentiment_source: "rating",
+    sentiment_aspects: [],
+    sentiment_analyzed_at: null,
+    escalation_reason: null,
+    escalation_detail: null,
+    escalated_at: null,
     created_at: "2025-01-01T00:00:00Z",
+    deleted_at: null,
+    last_seen_at: null,
     ...overrides,
   };
 }
@@ -42,6 +52,7 @@ export function createMockLocation(overrides?: Partial<Location>): Location {
     id: "loc-1",
     google_account_id: "acc-1",
     google_location_id: "gloc-1",
+    google_connection_user_id: null,
     name: "Test Location",
     address: "123 Main St, City, ST 12345",
     organization_id: "org-1",
@@ -62,6 +73,8 @@ export function createMockUser(overrides?: Partial<User>): User {
     name: "Test User",
     organization_id: "org-1",
     google_refresh_token: null,
+    google_access_token: null,
+    google_access_token_expires_at: null,
     role: "member",
     created_at: "2025-01-01T00:00:00Z",
     ...overrides,
@@ -81,6 +94,7 @@ export function createMockOrganization(
     stripe_customer_id: null,
     stripe_subscription_id: null,
     trial_ends_at: null,
+    edits_learned_at: null,
     created_at: "2025-01-01T00:00:00Z",
     ...overrides,
   };
@@ -103,6 +117,9 @@ export function createMockVoiceProfile(
     words_to_use: null,
     words_to_avoid: null,
     max_length: 120,
+    guardrail_severities: {},
+    language_overrides: {},
+    allowed_commitments: [],
     created_at: "2025-01-01T00:00:00Z",
     ...overrides,
   };
@@ -121,7 +138,13 @@ export function createMockResponse(overrides?: Partial<Response>): Response {
     status: "draft",
     published_at: null,
     tokens_used: 100,
+    prompt_version: null,
+    prompt_experiment_id: null,
     created_at: "2025-01-01T00:00:00Z",
+    review_changed_at: null,
+    source: "replily",
+    google_reply_text: null,
+    google_reply_updated_at: null,
     ...overrides,
   };
 }
@@ -0,0 +1,54 @@
+/**
+ * In-process Postgres for tests that need the real SQL in a migration.
+ * Uses PGlite (Postgres compiled to WebAssembly), so no database server is needed.
+ */
+
+import { readFileSync } from "node:fs";
+import path from "node:path";
+import { PGlite } from "@electric-sql/pglite";
+
+const MIGRATIONS_DIR = path.resolve(__dirname, "../../supabase/migrations");
+
+/**
+ * Create a database with the given migrations applied, in order.
+ * The Supabase roles migrations grant to and revoke from are created first.
+ *
+ * @param migrations - Migration file names, e.g. "014_add_cron_leases.sql"
+ */
+export async function createMigratedDatabase(
+  migrations: string[],
+): Promise<PGlite> {
+  const db = new PGlite();
+  await db.exec(
+    "CREATE ROLE anon; CREATE ROLE authenticated; CREATE ROLE service_role;",
+  );
+  for (const migration of migrations) {
+    await db.exec(readFileSync(path.join(MIGRATIONS_DIR, migration), "utf8"));
+  }
+  return db;
+}
+
+/**
+ * A Supabase client stand-in whose `rpc` calls the database function with
+ * named arguments and returns `{ data, error }` like supabase-js.
+ */
+export function createRpcClient(db: PGlite) {
+  return {
+    rpc: async (fn: string, args: Record<string, unknown>) => {
+      const names = Object.keys(args);
+      const params = names.map((name, i) => `${name} => $${i + 1}`).join(", ");
+      try {
+        const { rows } = await db.query<{ result: unknown }>(
+          `SELECT ${fn}(${params}) AS result`,
+          Object.values(args),
+        );
+        return { data: rows[0]?.result ?? null, error: null };
+      } catch (error) {
+        return {
+          data: null,
+          error: { message: error instanceof Error ? error.message : "" },
+        };
+      }
+    },
+  };
+}
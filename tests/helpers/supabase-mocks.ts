@@ -4,8 +4,10 @@
  */
 
 import { vi } from "vitest";
+import type { StoredReviewSnapshot } from "@/lib/reviews/revisions";
 import type {
   Location,
+  LocationBackfill,
   Organization,
   Response,
   Review,
@@ -100,11 +102,14 @@ function createMockChain<T>(config: ChainConfig<T> = {}) {
     "eq",
     "in",
     "not",
+    "is",
+    "or",
     "limit",
     "order",
     "insert",
     "update",
     "upsert",
+    "delete",
   ];
   for (const method of chainMethods) {
     resolvableChain[method] = vi.fn().mockReturnValue(resolvableChain);
@@ -147,7 +152,7 @@ export function createMockServerSupabaseClient(
 
     if (table === "locations" && tables.locations) {
       const locationsConfig = tables.locations;
-      // Chain resolves to array data for .eq().limit() queries
+      // Chain resolves to array data for .eq() queries
       const chain = createMockChain({
         data: Array.isArray(locationsConfig.data) ? locationsConfig.data : [],
         error: locationsConfig.error ?? null,
@@ -261,8 +266,31 @@ export function createMockPollReviewsSupabaseClient(
     usersError?: QueryError;
     organizationsData?: Array<{ id: string; plan_tier: string | null }>;
     organizationsError?: QueryError;
-    cronPollStateData?: { tier: string; last_processed_at: string }[];
-    cronPollStateError?: QueryError;
+    locationPollStateData?: Array<{
+      location_id: string;
+      high_water_mark: string | null;
+      pending_high_water_mark: string | null;
+      next_page_token: string | null;
+      last_polled_at?: string | null;
+      full_scan_started_at?: string | null;
+      last_full_scan_at?: string | null;
+      consecutive_failures?: number;
+      consecutive_not_found?: number;
+      next_retry_at?: string | null;
+    }>;
+    locationPollStateError?: QueryError;
+    storedReviewsData?: StoredReviewSnapshot[];
+    storedReviewsError?: QueryError;
+    deletedReviewsData?: Array<{
+      id: string;
+      rating: number | null;
+      review_text: string | null;
+    }>;
+    deletedReviewsError?: QueryError;
+    locationBackfillsData?: LocationBackfill[];
+    locationBackfillsError?: QueryError;
+    leaseAcquired?: boolean;
+    leaseError?: QueryError;
   } = {},
 ) {
   const mockFrom = vi.fn((table: string) => {
@@ -297,13 +325,36 @@ export function createMockPollReviewsSupabaseClient(
       return chain;
     }
 
-    if (table === "cron_poll_state") {
-      // Default to empty array (no previous processing) to allow all tiers to process
-      const defaultState =
-        config.cronPollStateData !== undefined ? config.cronPollStateData : [];
+    if (table === "location_poll_state") {
+      // Default to empty array (no location has been polled yet)
+      const chain = createMockChain({
+        data: config.locationPollStateData ?? [],
+        error: config.locationPollStateError ?? null,
+      });
+      return chain;
+    }
+
+    if (table === "reviews") {
+      // select() resolves to stored reviews (none by default);
+      // update() resolves to reviews marked deleted (none by default)
+      const chain = createMockChain({
+        data: config.storedReviewsData ?? [],
+        error: config.storedReviewsError ?? null,
+      });
+      chain.update = vi.fn().mockReturnValue(
+        createMockChain({
+          data: config.deletedReviewsData ?? [],
+          error: config.deletedReviewsError ?? null,
+        }),
+      );
+      return chain;
+    }
+
+    if (table === "location_backfills") {
+      // Default to empty array (no unfinished backfills)
       const chain = createMockChain({
-        data: defaultState,
-        error: config.cronPollStateError ?? null,
+        data: config.locationBackfillsData ?? [],
+        error: config.locationBackfillsError ?? null,
       });
       return chain;
     }
@@ -312,7 +363,20 @@ export function createMockPollReviewsSupabaseClient(
     return createMockChain({ data: null, error: null });
   });
 
+  // acquire_cron_lease grants the lease unless configured otherwise
+  const mockRpc = vi.fn((fn: string, _args?: Record<string, unknown>) =>
+    Promise.resolve(
+      fn === "acquire_cron_lease"
+        ? {
+            data: config.leaseAcquired ?? true,
+            error: config.leaseError ?? null,
+          }
+        : { data: true, error: null },
+    ),
+  );
+
   return {
     from: mockFrom,
+    rpc: mockRpc,
   };
 }
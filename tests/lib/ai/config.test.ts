@@ -0,0 +1,59 @@
+/**
+ * @vitest-environment node
+ */
+
+import { CLAUDE_MODELS } from "@/lib/ai/anthropic";
+import { getAIProvider, getResponseModel } from "@/lib/ai/config";
+
+describe("lib/ai/config", () => {
+  const originalProvider = process.env.AI_PROVIDER;
+
+  afterEach(() => {
+    if (originalProvider === undefined) {
+      delete process.env.AI_PROVIDER;
+    } else {
+      process.env.AI_PROVIDER = originalProvider;
+    }
+    vi.restoreAllMocks();
+  });
+
+  describe("getAIProvider", () => {
+    it("uses Anthropic by default", () => {
+      delete process.env.AI_PROVIDER;
+
+      expect(getAIProvider().name).toBe("anthropic");
+    });
+
+    it("uses the local provider when AI_PROVIDER is local", () => {
+      process.env.AI_PROVIDER = "local";
+
+      expect(getAIProvider().name).toBe("local");
+    });
+
+    it("warns and uses Anthropic for unknown providers", () => {
+      vi.spyOn(console, "warn").mockImplementation(() => {});
+      process.env.AI_PROVIDER = "openai";
+
+      expect(getAIProvider().name).toBe("anthropic");
+      expect(console.warn).toHaveBeenCalledWith(
+        'Unknown AI_PROVIDER "openai", using anthropic',
+      );
+    });
+  });
+
+  describe("getResponseModel", () => {
+    it("uses Haiku for starter and growth", () => {
+      expect(getResponseModel("starter")).toBe(CLAUDE_MODELS.haiku);
+      expect(getResponseModel("growth")).toBe(CLAUDE_MODELS.haiku);
+    });
+
+    it("uses Sonnet for agency", () => {
+      expect(getResponseModel("agency")).toBe(CLAUDE_MODELS.sonnet);
+    });
+
+    it("treats missing and unknown tiers as starter", () => {
+      expect(getResponseModel(null)).toBe(CLAUDE_MODELS.haiku);
+      expect(getResponseModel("enterprise")).toBe(CLAUDE_MODELS.haiku);
+    });
+  });
+});
@@ -0,0 +1,136 @@
+/**
+ * @vitest-environment node
+ */
+
+import { createLocalProvider } from "@/lib/ai/local";
+import { generateResponse, translateReview } from "@/lib/claude/client";
+import {
+  createMockReview,
+  createMockVoiceProfile,
+} from "@/tests/helpers/fixtures";
+
+describe("lib/ai/local", () => {
+  const originalProvider = process.env.AI_PROVIDER;
+  const originalApiKey = process.env.ANTHROPIC_API_KEY;
+  const originalFetch = global.fetch;
+
+  beforeEach(() => {
+    process.env.AI_PROVIDER = "local";
+    delete process.env.ANTHROPIC_API_KEY;
+    global.fetch = vi.fn();
+  });
+
+  afterEach(() => {
+    if (originalProvider === undefined) {
+      delete process.env.AI_PROVIDER;
+    } else {
+      process.env.AI_PROVIDER = originalProvider;
+    }
+    if (originalApiKey === undefined) {
+      delete process.env.ANTHROPIC_API_KEY;
+    } else {
+      process.env.ANTHROPIC_API_KEY = originalApiKey;
+    }
+    global.fetch = originalFetch;
+  });
+
+  it("writes review responses from the review, tone, and sign-off without an API key", async () => {
+    const review = createMockReview({
+      review_text: "Great haircut, but the wait was long.",
+    });
+    const voiceProfile = createMockVoiceProfile({
+      tone: "professional",
+      sign_off_style: "Sam, Manager",
+    });
+
+    const first = await generateResponse(review, voiceProfile, "Test Salon");
+    const second = await generateResponse(review, voiceProfile, "Test Salon");
+
+    expect(first).toEqual(second);
+    expect(first.tokensUsed).toBe(0);
+    expect(first.text).toContain(
+      "Thank you for taking the time to share your feedback.",
+    );
+    expect(first.text).toContain("We apologize for the wait");
+    expect(first.text).toMatch(/— Sam, Manager$/);
+    expect(global.fetch).not.toHaveBeenCalled();
+  });
+
+  it("writes custom tones warmly", async () => {
+    const { text } = await generateResponse(
+      createMockReview({ review_text: "Lovely visit." }),
+      createMockVoiceProfile({ tone: "custom:tone-1" }),
+      "Test Salon",
+    );
+
+    expect(text).toContain("Thanks so much for the thoughtful review.");
+  });
+
+  it("answers tone quizzes with a complete custom tone", async () => {
+    const { text } = await createLocalProvider().complete({
+      task: "custom_tone",
+      systemPrompt: "System",
+      userPrompt: "User",
+      maxTokens: 500,
+    });
+
+    expect(JSON.parse(text)).toEqual({
+      name: "Local Test Tone",
+      description: expect.any(String),
+      enhancedContext: expect.any(String),
+    });
+  });
+
+  it("returns no sentiment results so the keyword fallback is used", async () => {
+    const { text } = await createLocalProvider().complete({
+      task: "sentiment",
+      systemPrompt: "System",
+      userPrompt: "User",
+      maxTokens: 500,
+    });
+
+    expect(JSON.parse(text)).toEqual({ results: [] });
+  });
+
+  it("returns the review text untranslated", async () => {
+    await expect(translateReview("Muy bueno", "es")).resolves.toEqual({
+      text: "Muy bueno",
+      tokensUsed: 0,
+    });
+  });
+
+  it("streams the response a word at a time", async () => {
+    const chunks: string[] = [];
+
+    const result = await createLocalProvider().stream(
+      {
+        task: "translation",
+        systemPrompt: "System",
+        userPrompt: "One two three",
+        maxTokens: 500,
+      },
+      (text) => chunks.push(text),
+    );
+
+    expect(chunks).toEqual(["One ", "two ", "three"]);
+    expect(result).toEqual({ text: "One two three", tokensUsed: 0 });
+  });
+
+  it("stops streaming when cancelled", async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(
+      createLocalProvider().stream(
+        {
+          task: "translation",
+          systemPrompt: "System",
+          userPrompt: "One two",
+          maxTokens: 500,
+        },
+        () => {},
+        controller.signal,
+      ),
+    ).rejects.toMatchObject({ name: "AbortError" });
+  });
+});
@@ -0,0 +1,190 @@
+/**
+ * @vitest-environment node
+ */
+
+import {
+  budgetExceededError,
+  budgetWarning,
+  getAIBudget,
+  getBudgetState,
+  getMonthlyTokenBudget,
+  recordAIUsage,
+} from "@/lib/ai/usage";
+
+describe("lib/ai/usage", () => {
+  describe("getMonthlyTokenBudget", () => {
+    it("returns each tier's budget", () => {
+      expect(getMonthlyTokenBudget("starter")).toBe(250_000);
+      expect(getMonthlyTokenBudget("growth")).toBe(1_000_000);
+      expect(getMonthlyTokenBudget("agency")).toBe(5_000_000);
+    });
+
+    it("treats missing and unknown tiers as starter", () => {
+      expect(getMonthlyTokenBudget(null)).toBe(250_000);
+      expect(getMonthlyTokenBudget("enterprise")).toBe(250_000);
+    });
+  });
+
+  describe("getBudgetState", () => {
+    it.each([
+      [0, "ok"],
+      [79_999, "ok"],
+      [80_000, "soft_limit"],
+      [99_999, "soft_limit"],
+      [100_000, "hard_limit"],
+      [120_000, "hard_limit"],
+    ])("classifies %i of 100000 tokens as %s", (tokensUsed, state) => {
+      expect(getBudgetState(tokensUsed, 100_000)).toBe(state);
+    });
+  });
+
+  describe("getAIBudget", () => {
+    it("totals usage since the start of the month (UTC)", async () => {
+      const rpc = vi.fn().mockResolvedValue({ data: "210000", error: null });
+
+      const result = await getAIBudget(
+        { rpc } as never,
+        "org-1",
+        "starter",
+        new Date("2026-10-19T12:00:00Z"),
+      );
+
+      expect(rpc).toHaveBeenCalledWith("ai_tokens_used_since", {
+        p_organization_id: "org-1",
+        p_since: "2026-10-01T00:00:00.000Z",
+      });
+      expect(result).toEqual({
+        budget: {
+          tokensUsed: 210_000,
+          budget: 250_000,
+          state: "soft_limit",
+          resetsAt: "2026-11-01T00:00:00.000Z",
+        },
+        error: null,
+      });
+    });
+
+    it("resets in the new year after December", async () => {
+      const rpc = vi.fn().mockResolvedValue({ data: 0, error: null });
+
+      const { budget } = await getAIBudget(
+        { rpc } as never,
+        "org-1",
+        "agency",
+        new Date("2026-12-31T23:59:00Z"),
+      );
+
+      expect(budget?.resetsAt).toBe("2027-01-01T00:00:00.000Z");
+    });
+
+    it("returns the error when usage cannot be loaded", async () => {
+      const rpc = vi.fn().mockResolvedValue({
+        data: null,
+        error: { message: "Database error" },
+      });
+
+      await expect(
+        getAIBudget({ rpc } as never, "org-1", "starter"),
+      ).resolves.toEqual({ budget: null, error: "Database error" });
+    });
+  });
+
+  describe("recordAIUsage", () => {
+    it("inserts one row per call that used tokens", async () => {
+      const insert = vi.fn().mockResolvedValue({ error: null });
+      const from = vi.fn().mockReturnValue({ insert });
+
+      const result = await recordAIUsage({ from } as never, [
+        {
+          organizationId: "org-1",
+          userId: "user-1",
+          task: "review_response",
+          model: "claude-sonnet-4-5-20250929",
+          tokensUsed: 620,
+        },
+        {
+          organizationId: "org-1",
+          userId: null,
+          task: "sentiment",
+          model: null,
+          tokensUsed: 0,
+        },
+      ]);
+
+      expect(result).toEqual({ error: null });
+      expect(from).toHaveBeenCalledWith("ai_usage");
+      expect(insert).toHaveBeenCalledWith([
+        {
+          organization_id: "org-1",
+          user_id: "user-1",
+          task: "review_response",
+          model: "claude-sonnet-4-5-20250929",
+          tokens_used: 620,
+        },
+      ]);
+    });
+
+    it("does nothing when no tokens were used", async () => {
+      const from = vi.fn();
+
+      await expect(
+        recordAIUsage({ from } as never, [
+          {
+            organizationId: "org-1",
+            userId: null,
+            task: "translation",
+            model: null,
+            tokensUsed: 0,
+          },
+        ]),
+      ).resolves.toEqual({ error: null });
+      expect(from).not.toHaveBeenCalled();
+    });
+
+    it("returns the error when the insert fails", async () => {
+      const insert = vi
+        .fn()
+        .mockResolvedValue({ error: { message: "Database error" } });
+
+      await expect(
+        recordAIUsage({ from: () => ({ insert }) } as never, [
+          {
+            organizationId: "org-1",
+            userId: "user-1",
+            task: "custom_tone",
+            model: null,
+            tokensUsed: 300,
+          },
+        ]),
+      ).resolves.toEqual({ error: "Database error" });
+    });
+  });
+
+  describe("budget messages", () => {
+    const budget = {
+      tokensUsed: 212_500,
+      budget: 250_000,
+      state: "soft_limit" as const,
+      resetsAt: "2026-11-01T00:00:00.000Z",
+    };
+
+    it("warns with the share of the budget used", () => {
+      expect(budgetWarning(budget)).toBe(
+        "Your organization has used 85% of this month's AI budget.",
+      );
+    });
+
+    it("does not warn below the soft limit or when usage is unknown", () => {
+      expect(budgetWarning({ ...budget, state: "ok" })).toBeUndefined();
+      expect(budgetWarning(null)).toBeUndefined();
+    });
+
+    it("says when the budget resets", () => {
+      expect(budgetExceededError({ ...budget, state: "hard_limit" })).toEqual({
+        error:
+          "Your organization has used this month's AI budget. It resets on November 1.",
+        code: "AI_BUDGET_EXCEEDED",
+      });
+    });
+  });
+});
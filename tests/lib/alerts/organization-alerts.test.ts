@@ -0,0 +1,123 @@
+/**
+ * @vitest-environment node
+ */
+
+import {
+  GOOGLE_CONNECTION_ALERT,
+  raiseOrganizationAlerts,
+  resolveOrganizationAlerts,
+} from "@/lib/alerts/organization-alerts";
+
+function createSupabaseMock(error: { message: string } | null = null) {
+  const chain = {
+    upsert: vi.fn().mockResolvedValue({ error }),
+    delete: vi.fn(),
+    eq: vi.fn(),
+    in: vi.fn().mockResolvedValue({ error }),
+  };
+  chain.delete.mockReturnValue(chain);
+  chain.eq.mockReturnValue(chain);
+
+  return { chain, supabase: { from: vi.fn().mockReturnValue(chain) } };
+}
+
+describe("lib/alerts/organization-alerts", () => {
+  describe("raiseOrganizationAlerts", () => {
+    it("inserts an alert per organization, keeping alerts already open", async () => {
+      const { chain, supabase } = createSupabaseMock();
+
+      const result = await raiseOrganizationAlerts(
+        supabase as never,
+        GOOGLE_CONNECTION_ALERT,
+        ["org-1", "org-2"],
+        "No valid Google connection",
+      );
+
+      expect(result).toEqual({ error: null });
+      expect(supabase.from).toHaveBeenCalledWith("organization_alerts");
+      expect(chain.upsert).toHaveBeenCalledWith(
+        [
+          {
+            organization_id: "org-1",
+            type: "google_connection",
+            message: "No valid Google connection",
+          },
+          {
+            organization_id: "org-2",
+            type: "google_connection",
+            message: "No valid Google connection",
+          },
+        ],
+        { onConflict: "organization_id,type", ignoreDuplicates: true },
+      );
+    });
+
+    it("does nothing without organizations", async () => {
+      const { supabase } = createSupabaseMock();
+
+      const result = await raiseOrganizationAlerts(
+        supabase as never,
+        GOOGLE_CONNECTION_ALERT,
+        [],
+        "No valid Google connection",
+      );
+
+      expect(result).toEqual({ error: null });
+      expect(supabase.from).not.toHaveBeenCalled();
+    });
+
+    it("returns the database error", async () => {
+      const { supabase } = createSupabaseMock({ message: "Database error" });
+
+      const result = await raiseOrganizationAlerts(
+        supabase as never,
+        GOOGLE_CONNECTION_ALERT,
+        ["org-1"],
+        "No valid Google connection",
+      );
+
+      expect(result).toEqual({ error: "Database error" });
+    });
+  });
+
+  describe("resolveOrganizationAlerts", () => {
+    it("deletes open alerts of the type for the organizations", async () => {
+      const { chain, supabase } = createSupabaseMock();
+
+      const result = await resolveOrganizationAlerts(
+        supabase as never,
+        GOOGLE_CONNECTION_ALERT,
+        ["org-1"],
+      );
+
+      expect(result).toEqual({ error: null });
+      expect(chain.delete).toHaveBeenCalled();
+      expect(chain.eq).toHaveBeenCalledWith("type", "google_connection");
+      expect(chain.in).toHaveBeenCalledWith("organization_id", ["org-1"]);
+    });
+
+    it("does nothing without organizations", async () => {
+      const { supabase } = createSupabaseMock();
+
+      await resolveOrganizationAlerts(
+        supabase as never,
+        GOOGLE_CONNECTION_ALERT,
+        [],
+      );
+
+      expect(supabase.from).not.toHaveBeenCalled();
+    });
+
+    it("returns the database error", async () => {
+      const { supabase } = createSupabaseMock({ message: "Database error" });
+
+      const result = await resolveOrganizationAlerts(
+        supabase as never,
+        GOOGLE_CONNECTION_ALERT,
+        ["org-1"],
+      );
+
+      expect(result).toEqual({ error: "Database error" });
+    });
+  });
+});
@@ -0,0 +1,230 @@
+/**
+ * @vitest-environment node
+ */
+
+import type { PGlite } from "@electric-sql/pglite";
+
+import {
+  acquireCronLease,
+  type CronLease,
+  releaseCronLease,
+} from "@/lib/cron/lease";
+import {
+  createMigratedDatabase,
+  createRpcClient,
+} from "@/tests/helpers/postgres";
+
+function createSupabaseMock(result: {
+  data: boolean | null;
+  error: { message: string } | null;
+}) {
+  return { rpc: vi.fn().mockResolvedValue(result) };
+}
+
+describe("lib/cron/lease", () => {
+  describe("acquireCronLease", () => {
+    it("returns the lease with a fresh owner id when acquired", async () => {
+      const supabase = createSupabaseMock({ data: true, error: null });
+
+      const result = await acquireCronLease(
+        supabase as never,
+        "poll-reviews",
+        120,
+      );
+
+      expect(result).toEqual({
+        lease: { name: "poll-reviews", ownerId: expect.any(String) },
+        error: null,
+      });
+      expect(supabase.rpc).toHaveBeenCalledWith("acquire_cron_lease", {
+        p_name: "poll-reviews",
+        p_owner_id: result.lease?.ownerId,
+        p_ttl_seconds: 120,
+      });
+    });
+
+    it("uses a different owner id for each attempt", async () => {
+      const supabase = createSupabaseMock({ data: true, error: null });
+
+      const first = await acquireCronLease(supabase as never, "job", 60);
+      const second = await acquireCronLease(supabase as never, "job", 60);
+
+      expect(first.lease?.ownerId).not.toBe(second.lease?.ownerId);
+    });
+
+    it("returns no lease when another invocation holds it", async () => {
+      const supabase = createSupabaseMock({ data: false, error: null });
+
+      const result = await acquireCronLease(
+        supabase as never,
+        "poll-reviews",
+        120,
+      );
+
+      expect(result).toEqual({ lease: null, error: null });
+    });
+
+    it("returns the database error", async () => {
+      const supabase = createSupabaseMock({
+        data: null,
+        error: { message: "Database error" },
+      });
+
+      const result = await acquireCronLease(
+        supabase as never,
+        "poll-reviews",
+        120,
+      );
+
+      expect(result).toEqual({ lease: null, error: "Database error" });
+    });
+  });
+
+  describe("releaseCronLease", () => {
+    it("releases the lease for its owner", async () => {
+      const supabase = createSupabaseMock({ data: true, error: null });
+
+      const result = await releaseCronLease(supabase as never, {
+        name: "poll-reviews",
+        ownerId: "owner-1",
+      });
+
+      expect(result).toEqual({ error: null });
+      expect(supabase.rpc).toHaveBeenCalledWith("release_cron_lease", {
+        p_name: "poll-reviews",
+        p_owner_id: "owner-1",
+      });
+    });
+
+    it("returns the database error", async () => {
+      const supabase = createSupabaseMock({
+        data: null,
+        error: { message: "Database error" },
+      });
+
+      const result = await releaseCronLease(supabase as never, {
+        name: "poll-reviews",
+        ownerId: "owner-1",
+      });
+
+      expect(result).toEqual({ error: "Database error" });
+    });
+  });
+
+  describe("against Postgres (migration 014)", () => {
+    let db: PGlite;
+    let supabase: ReturnType<typeof createRpcClient>;
+
+    beforeAll(async () => {
+      db = await createMigratedDatabase(["014_add_cron_leases.sql"]);
+      supabase = createRpcClient(db);
+    }, 30_000);
+
+    afterAll(async () => {
+      await db.close();
+    });
+
+    beforeEach(async () => {
+      await db.exec("DELETE FROM cron_leases");
+    });
+
+    const expireLease = (name: string) =>
+      db.query(
+        "UPDATE cron_leases SET expires_at = now() - interval '1 second' WHERE name = $1",
+        [name],
+      );
+
+    it("lets exactly one of two concurrent acquires win", async () => {
+      const results = await Promise.all([
+        acquireCronLease(supabase as never, "poll-reviews", 120),
+        acquireCronLease(supabase as never, "poll-reviews", 120),
+      ]);
+
+      const winners = results.filter((r) => r.lease !== null);
+      expect(winners).toHaveLength(1);
+      expect(results.every((r) => r.error === null)).toBe(true);
+
+      const { rows } = await db.query<{ owner_id: string }>(
+        "SELECT owner_id FROM cron_leases WHERE name = 'poll-reviews'",
+      );
+      expect(rows).toEqual([{ owner_id: winners[0]?.lease?.ownerId }]);
+    });
+
+    it("keeps leases for different jobs separate", async () => {
+      const first = await acquireCronLease(supabase as never, "job-a", 120);
+      const second = await acquireCronLease(supabase as never, "job-b", 120);
+
+      expect(first.lease).not.toBeNull();
+      expect(second.lease).not.toBeNull();
+    });
+
+    it("lets the holder renew its own lease", async () => {
+      const { lease } = await acquireCronLease(
+        supabase as never,
+        "poll-reviews",
+        120,
+      );
+
+      const { data: renewed } = await supabase.rpc("acquire_cron_lease", {
+        p_name: "poll-reviews",
+        p_owner_id: lease?.ownerId,
+        p_ttl_seconds: 120,
+      });
+
+      expect(renewed).toBe(true);
+    });
+
+    it("lets another invocation take the lease once it expires", async () => {
+      const { lease: first } = await acquireCronLease(
+        supabase as never,
+        "poll-reviews",
+        120,
+      );
+      expect(
+        (await acquireCronLease(supabase as never, "poll-reviews", 120)).lease,
+      ).toBeNull();
+
+      await expireLease("poll-reviews");
+      const { lease: second } = await acquireCronLease(
+        supabase as never,
+        "poll-reviews",
+        120,
+      );
+
+      expect(second).not.toBeNull();
+      expect(second?.ownerId).not.toBe(first?.ownerId);
+    });
+
+    it("ignores a release by an invocation that no longer holds the lease", async () => {
+      const { lease: first } = await acquireCronLease(
+        supabase as never,
+        "poll-reviews",
+        120,
+      );
+      await expireLease("poll-reviews");
+      const { lease: second } = await acquireCronLease(
+        supabase as never,
+        "poll-reviews",
+        120,
+      );
+
+      // The first run finishes late and releases the lease it lost
+      const { data: released } = await supabase.rpc("release_cron_lease", {
+        p_name: "poll-reviews",
+        p_owner_id: first?.ownerId,
+      });
+
+      expect(released).toBe(false);
+      expect(
+        (await acquireCronLease(supabase as never, "poll-reviews", 120)).lease,
+      ).toBeNull();
+
+      expect(
+        await releaseCronLease(supabase as never, second as CronLease),
+      ).toEqual({ error: null });
+      expect(
+        (await acquireCronLease(supabase as never, "poll-reviews", 120)).lease,
+      ).not.toBeNull();
+    });
+  });
+});
@@ -3,12 +3,16 @@
  */
 
 import {
+  ACCESS_TOKEN_EXPIRY_MARGIN_MS,
+  type AccessTokenStore,
   fetchAccounts,
   fetchLocations,
   fetchReviews,
   GoogleAPIError,
+  getAccessToken,
   publishResponse,
   refreshAccessToken,
+  withAccessTokenRetry,
 } from "@/lib/google/client";
 import {
   createMockFetchError,
@@ -65,11 +69,22 @@ describe("lib/google/client", () => {
           error: "invalid_grant",
           error_description: "Token has been expired or revoked.",
         },
-        expectedMessage: "Token has been expired or revoked.",
+        expectedStatus: 401,
+        expectedMessage:
+          "Google authentication expired. Please reconnect your account.",
+      },
+      {
+        status: 400,
+        errorResponse: {
+          error: "invalid_request",
+          error_description: "Missing required parameter: refresh_token",
+        },
+        expectedMessage: "Missing required parameter: refresh_token",
       },
-    ])("throws GoogleAPIError on $status", async ({
+    ])("throws GoogleAPIError on $status $errorResponse.error", async ({
       status,
       errorResponse,
+      expectedStatus = status,
       expectedMessage,
     }) => {
       mockFetch.mockResolvedValueOnce({
@@ -86,11 +101,307 @@ describe("lib/google/client", () => {
       }
 
       expect(caughtError).toBeInstanceOf(GoogleAPIError);
-      expect(caughtError?.status).toBe(status);
+      expect(caughtError?.status).toBe(expectedStatus);
       expect(caughtError?.message).toBe(expectedMessage);
     });
   });
 
+  describe("getAccessToken", () => {
+    const NOW = new Date("2025-01-01T00:00:00Z");
+
+    function createStore(
+      cached: Awaited<ReturnType<AccessTokenStore["load"]>>,
+    ) {
+      return {
+        load: vi.fn().mockResolvedValue(cached),
+        save: vi.fn().mockResolvedValue(undefined),
+        clear: vi.fn().mockResolvedValue(undefined),
+      };
+    }
+
+    function mockTokenResponse(accessToken = "new-access-token") {
+      mockFetch.mockResolvedValueOnce(
+        createMockFetchResponse({
+          access_token: accessToken,
+          expires_in: 3600,
+          token_type: "Bearer",
+          scope: "https://www.googleapis.com/auth/business.manage",
+        }),
+      );
+    }
+
+    beforeEach(() => {
+      vi.useFakeTimers({ toFake: ["Date"] });
+      vi.setSystemTime(NOW);
+      vi.spyOn(console, "error").mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it("reuses a cached token that is not close to expiring", async () => {
+      const store = createStore({
+        accessToken: "cached-access-token",
+        expiresAt: new Date(
+          NOW.getTime() + ACCESS_TOKEN_EXPIRY_MARGIN_MS + 60_000,
+        ).toISOString(),
+      });
+
+      const token = await getAccessToken("user-1", "refresh-token", store);
+
+      expect(token).toBe("cached-access-token");
+      expect(store.load).toHaveBeenCalledWith("user-1");
+      expect(mockFetch).not.toHaveBeenCalled();
+      expect(store.save).not.toHaveBeenCalled();
+    });
+
+    it.each([
+      { label: "nothing is cached", cached: null },
+      {
+        label: "the cached token is within the expiry margin",
+        cached: {
+          accessToken: "stale-access-token",
+          expiresAt: new Date(
+            NOW.getTime() + ACCESS_TOKEN_EXPIRY_MARGIN_MS - 1000,
+          ).toISOString(),
+        },
+      },
+    ])("refreshes and caches a new token when $label", async ({ cached }) => {
+      const store = createStore(cached);
+      mockTokenResponse();
+
+      const token = await getAccessToken("user-1", "refresh-token", store);
+
+      expect(token).toBe("new-access-token");
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(store.save).toHaveBeenCalledWith("user-1", {
+        accessToken: "new-access-token",
+        expiresAt: "2025-01-01T01:00:00.000Z",
+      });
+    });
+
+    it("refreshes when the cache cannot be read", async () => {
+      const store = createStore(null);
+      store.load.mockRejectedValue(new Error("Database error"));
+      mockTokenResponse();
+
+      const token = await getAccessToken("user-1", "refresh-token", store);
+
+      expect(token).toBe("new-access-token");
+      expect(store.save).toHaveBeenCalled();
+    });
+
+    it("returns the new token when it cannot be cached", async () => {
+      const store = createStore(null);
+      store.save.mockRejectedValue(new Error("Database error"));
+      mockTokenResponse();
+
+      const token = await getAccessToken("user-1", "refresh-token", store);
+
+      expect(token).toBe("new-access-token");
+      expect(console.error).toHaveBeenCalledWith(
+        "Failed to cache Google access token for user user-1:",
+        "Database error",
+      );
+    });
+
+    it("shares one refresh between concurrent calls for the same user", async () => {
+      const store = createStore(null);
+      mockTokenResponse();
+
+      const tokens = await Promise.all([
+        getAccessToken("user-1", "refresh-token", store),
+        getAccessToken("user-1", "refresh-token", store),
+      ]);
+
+      expect(tokens).toEqual(["new-access-token", "new-access-token"]);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(store.save).toHaveBeenCalledTimes(1);
+    });
+
+    it("refreshes separately for different users", async () => {
+      const store = createStore(null);
+      mockTokenResponse("access-token-1");
+      mockTokenResponse("access-token-2");
+
+      const tokens = await Promise.all([
+        getAccessToken("user-1", "refresh-token-1", store),
+        getAccessToken("user-2", "refresh-token-2", store),
+      ]);
+
+      expect(tokens).toEqual(["access-token-1", "access-token-2"]);
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it("shares a failed refresh and retries on the next call", async () => {
+      const store = createStore(null);
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        status: 401,
+        json: async () => ({ error: "invalid_grant" }),
+      });
+
+      const results = await Promise.allSettled([
+        getAccessToken("user-1", "refresh-token", store),
+        getAccessToken("user-1", "refresh-token", store),
+      ]);
+
+      expect(results.map((r) => r.status)).toEqual(["rejected", "rejected"]);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+
+      mockTokenResponse();
+      await expect(
+        getAccessToken("user-1", "refresh-token", store),
+      ).resolves.toBe("new-access-token");
+    });
+
+    it("evicts a cached token and refreshes when forced", async () => {
+      const store = createStore({
+        accessToken: "rejected-access-token",
+        expiresAt: new Date(
+          NOW.getTime() + ACCESS_TOKEN_EXPIRY_MARGIN_MS + 60_000,
+        ).toISOString(),
+      });
+      mockTokenResponse();
+
+      const token = await getAccessToken("user-1", "refresh-token", store, {
+        forceRefresh: true,
+      });
+
+      expect(token).toBe("new-access-token");
+      expect(store.clear).toHaveBeenCalledWith("user-1");
+      expect(store.load).not.toHaveBeenCalled();
+      expect(store.save).toHaveBeenCalledWith("user-1", {
+        accessToken: "new-access-token",
+        expiresAt: "2025-01-01T01:00:00.000Z",
+      });
+    });
+
+    it("refreshes when forced even if the cached token cannot be evicted", async () => {
+      const store = createStore(null);
+      store.clear.mockRejectedValue(new Error("Database error"));
+      mockTokenResponse();
+
+      const token = await getAccessToken("user-1", "refresh-token", store, {
+        forceRefresh: true,
+      });
+
+      expect(token).toBe("new-access-token");
+      expect(console.error).toHaveBeenCalledWith(
+        "Failed to evict cached Google access token for user user-1:",
+        "Database error",
+      );
+    });
+
+    it("doesn't join a lookup in progress when forced", async () => {
+      const store = createStore({
+        accessToken: "rejected-access-token",
+        expiresAt: new Date(
+          NOW.getTime() + ACCESS_TOKEN_EXPIRY_MARGIN_MS + 60_000,
+        ).toISOString(),
+      });
+      mockTokenResponse();
+
+      const tokens = await Promise.all([
+        getAccessToken("user-1", "refresh-token", store),
+        getAccessToken("user-1", "refresh-token", store, {
+          forceRefresh: true,
+        }),
+      ]);
+
+      expect(tokens).toEqual(["rejected-access-token", "new-access-token"]);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("withAccessTokenRetry", () => {
+    function publish(accessToken: string) {
+      return publishResponse(
+        accessToken,
+        "123",
+        "loc1",
+        "review123",
+        "Thanks!",
+      );
+    }
+
+    beforeEach(() => {
+      vi.spyOn(console, "warn").mockImplementation(() => {});
+    });
+
+    it("makes the request once when the token is accepted", async () => {
+      mockFetch.mockResolvedValueOnce(createMockFetchResponse({}));
+      const refresh = vi.fn();
+
+      await expect(
+        withAccessTokenRetry("cached-token", refresh, publish),
+      ).resolves.toBe(true);
+      expect(refresh).not.toHaveBeenCalled();
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it("retries with a refreshed token when Google rejects the first", async () => {
+      mockFetch
+        .mockResolvedValueOnce(createMockFetchError(401))
+        .mockResolvedValueOnce(createMockFetchResponse({}));
+      const refresh = vi.fn().mockResolvedValue("fresh-token");
+
+      await expect(
+        withAccessTokenRetry("cached-token", refresh, publish),
+      ).resolves.toBe(true);
+      expect(refresh).toHaveBeenCalledTimes(1);
+      expect(mockFetch).toHaveBeenLastCalledWith(
+        expect.any(String),
+        expect.objectContaining({
+          headers: expect.objectContaining({
+            Authorization: "Bearer fresh-token",
+          }),
+        }),
+      );
+    });
+
+    it("surfaces the error when the retry is rejected too", async () => {
+      mockFetch
+        .mockResolvedValueOnce(createMockFetchError(401))
+        .mockResolvedValueOnce(createMockFetchError(401));
+      const refresh = vi.fn().mockResolvedValue("fresh-token");
+
+      await expect(
+        withAccessTokenRetry("cached-token", refresh, publish),
+      ).rejects.toMatchObject({ status: 401 });
+      expect(refresh).toHaveBeenCalledTimes(1);
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it("surfaces a failed refresh", async () => {
+      mockFetch.mockResolvedValueOnce(createMockFetchError(401));
+      const refresh = vi
+        .fn()
+        .mockRejectedValue(
+          new GoogleAPIError(
+            401,
+            "Google authentication expired. Please reconnect your account.",
+          ),
+        );
+
+      await expect(
+        withAccessTokenRetry("cached-token", refresh, publish),
+      ).rejects.toThrow("Google authentication expired");
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it("doesn't refresh for other errors", async () => {
+      mockFetch.mockResolvedValueOnce(createMockFetchError(403));
+      const refresh = vi.fn();
+
+      await expect(
+        withAccessTokenRetry("cached-token", refresh, publish),
+      ).rejects.toMatchObject({ status: 403 });
+      expect(refresh).not.toHaveBeenCalled();
+    });
+  });
+
   describe("fetchAccounts", () => {
     const ACCOUNTS_URL =
       "https://mybusinessaccountmanagement.googleapis.com/v1/accounts";
@@ -348,6 +659,7 @@ describe("lib/google/client", () => {
         has_response: false,
         platform: "google",
         status: "pending",
+        reply: null,
       });
       expect(result.nextPageToken).toBe("next-page");
     });
@@ -411,6 +723,10 @@ describe("lib/google/client", () => {
       expect(result.reviews[0]).toMatchObject({
         has_response: true,
         status: "responded",
+        reply: {
+          comment: "Thank you for your feedback!",
+          updated_at: "2024-01-18T13:00:00Z",
+        },
       });
     });
 
@@ -556,4 +872,212 @@ describe("lib/google/client", () => {
       );
     });
   });
+
+  describe("request layer", () => {
+    // Each test gets a fresh module so quota and circuit breaker state don't leak
+    let client: typeof import("@/lib/google/client");
+
+    function rateLimited(
+      headers: Record<string, string> = {},
+      body: unknown = { error: { status: "RESOURCE_EXHAUSTED" } },
+      status = 429,
+    ) {
+      return {
+        ok: false,
+        status,
+        statusText: "Too Many Requests",
+        headers: new Headers(headers),
+        json: async () => body,
+      };
+    }
+
+    function serverError(status = 503) {
+      return {
+        ok: false,
+        status,
+        statusText: "Service Unavailable",
+        headers: new Headers(),
+        json: async () => ({}),
+      };
+    }
+
+    function fetchReviews() {
+      return client.fetchReviews("access-token", "acc-1", "loc-1");
+    }
+
+    beforeEach(async () => {
+      vi.resetModules();
+      client = await import("@/lib/google/client");
+      vi.useFakeTimers();
+      vi.setSystemTime(new Date("2025-01-01T00:00:00Z"));
+      vi.spyOn(console, "warn").mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+      vi.stubEnv("GOOGLE_REQUESTS_PER_MINUTE", undefined);
+    });
+
+    it("retries a 5xx with exponential backoff", async () => {
+      mockFetch
+        .mockResolvedValueOnce(serverError())
+        .mockResolvedValueOnce(serverError())
+        .mockResolvedValueOnce(createMockFetchResponse({ reviews: [] }));
+
+      const result = fetchReviews();
+      await vi.advanceTimersByTimeAsync(1000);
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      await vi.advanceTimersByTimeAsync(2000);
+
+      await expect(result).resolves.toEqual({ reviews: [] });
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+    });
+
+    it("throws the last error once attempts are exhausted", async () => {
+      mockFetch.mockResolvedValue(serverError(502));
+
+      const result = expect(fetchReviews()).rejects.toMatchObject({
+        status: 502,
+        message: "Failed to fetch reviews: Service Unavailable",
+      });
+      await vi.advanceTimersByTimeAsync(3000);
+
+      await result;
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+      // Server errors don't open the circuit breaker
+      expect(client.getGoogleRateLimitRetryAfter()).toBe(0);
+    });
+
+    it("does not retry other client errors", async () => {
+      mockFetch.mockResolvedValueOnce(createMockFetchError(404));
+
+      await expect(fetchReviews()).rejects.toMatchObject({ status: 404 });
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it("waits for Retry-After before retrying a rate limit", async () => {
+      mockFetch
+        .mockResolvedValueOnce(rateLimited({ "Retry-After": "5" }))
+        .mockResolvedValueOnce(createMockFetchResponse({ reviews: [] }));
+
+      const result = fetchReviews();
+      await vi.advanceTimersByTimeAsync(4999);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      await vi.advanceTimersByTimeAsync(1);
+
+      await expect(result).resolves.toEqual({ reviews: [] });
+    });
+
+    it("treats RESOURCE_EXHAUSTED as a rate limit whatever the status", async () => {
+      mockFetch.mockResolvedValueOnce(
+        rateLimited(
+          { "Retry-After": "120" },
+          { error: { status: "RESOURCE_EXHAUSTED" } },
+          403,
+        ),
+      );
+
+      const error = await fetchReviews().catch((e: unknown) => e);
+
+      expect(client.isGoogleRateLimitError(error)).toBe(true);
+      expect(error).toMatchObject({ status: 429, retryAfterSeconds: 120 });
+    });
+
+    it("opens the circuit breaker instead of waiting out a long Retry-After", async () => {
+      mockFetch.mockResolvedValueOnce(rateLimited({ "Retry-After": "120" }));
+
+      await expect(fetchReviews()).rejects.toMatchObject({
+        status: 429,
+        retryAfterSeconds: 120,
+        message: "Google API rate limit reached. Try again in 120 seconds.",
+      });
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(client.getGoogleRateLimitRetryAfter()).toBe(120);
+
+      // Later requests fail fast without reaching Google
+      await expect(
+        client.publishResponse("access-token", "acc-1", "loc-1", "r-1", "Hi"),
+      ).rejects.toMatchObject({ status: 429, retryAfterSeconds: 120 });
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+
+      vi.advanceTimersByTime(120_000);
+      expect(client.getGoogleRateLimitRetryAfter()).toBe(0);
+    });
+
+    it("parses Retry-After given as an HTTP date", async () => {
+      mockFetch.mockResolvedValueOnce(
+        rateLimited({ "Retry-After": "Wed, 01 Jan 2025 00:01:30 GMT" }),
+      );
+
+      await expect(fetchReviews()).rejects.toMatchObject({
+        retryAfterSeconds: 90,
+      });
+    });
+
+    it("opens the circuit breaker when rate limits persist", async () => {
+      mockFetch.mockResolvedValue(rateLimited());
+
+      const result = expect(fetchReviews()).rejects.toMatchObject({
+        status: 429,
+        retryAfterSeconds: 60,
+      });
+      await vi.advanceTimersByTimeAsync(3000);
+
+      await result;
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+      expect(client.getGoogleRateLimitRetryAfter()).toBe(60);
+    });
+
+    it("stops sending requests once the per-minute quota is used", async () => {
+      mockFetch.mockResolvedValue(createMockFetchResponse({ reviews: [] }));
+
+      for (let i = 0; i < client.DEFAULT_GOOGLE_REQUESTS_PER_MINUTE; i++) {
+        await fetchReviews();
+      }
+      expect(client.getGoogleQuotaUsage()).toEqual({
+        requests: client.DEFAULT_GOOGLE_REQUESTS_PER_MINUTE,
+        limit: client.DEFAULT_GOOGLE_REQUESTS_PER_MINUTE,
+      });
+
+      vi.advanceTimersByTime(20_000);
+      await expect(fetchReviews()).rejects.toMatchObject({
+        status: 429,
+        retryAfterSeconds: 40,
+      });
+      expect(mockFetch).toHaveBeenCalledTimes(
+        client.DEFAULT_GOOGLE_REQUESTS_PER_MINUTE,
+      );
+
+      // A new window starts once the breaker closes
+      vi.advanceTimersByTime(40_000);
+      await expect(fetchReviews()).resolves.toEqual({ reviews: [] });
+      expect(client.getGoogleQuotaUsage().requests).toBe(1);
+    });
+
+    it("uses the per-minute limit from GOOGLE_REQUESTS_PER_MINUTE", async () => {
+      vi.stubEnv("GOOGLE_REQUESTS_PER_MINUTE", "2");
+      mockFetch.mockResolvedValue(createMockFetchResponse({ reviews: [] }));
+
+      await fetchReviews();
+      await fetchReviews();
+
+      expect(client.getGoogleQuotaUsage()).toEqual({ requests: 2, limit: 2 });
+      await expect(fetchReviews()).rejects.toMatchObject({ status: 429 });
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it.each([
+      "",
+      "0",
+      "-5",
+      "1.5",
+      "lots",
+    ])("uses the default limit when GOOGLE_REQUESTS_PER_MINUTE is %j", (value) => {
+      vi.stubEnv("GOOGLE_REQUESTS_PER_MINUTE", value);
+
+      expect(client.getGoogleRequestsPerMinute()).toBe(
+        client.DEFAULT_GOOGLE_REQUESTS_PER_MINUTE,
+      );
+    });
+  });
 });
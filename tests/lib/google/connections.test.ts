@@ -0,0 +1,285 @@
+/**
+ * @vitest-environment node
+ */
+
+vi.mock("@/lib/crypto/encryption", () => ({
+  decryptToken: vi.fn(),
+  TokenDecryptionError: class TokenDecryptionError extends Error {
+    constructor(message: string) {
+      super(message);
+      this.name = "TokenDecryptionError";
+    }
+  },
+}));
+
+vi.mock("@/lib/google/client", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/google/client")>()),
+  getAccessToken: vi.fn(),
+}));
+
+vi.mock("@/lib/google/token-store", () => ({
+  createAccessTokenStore: vi.fn(() => ({
+    load: vi.fn().mockResolvedValue(null),
+    save: vi.fn().mockResolvedValue(undefined),
+  })),
+}));
+
+vi.mock("@/lib/supabase/typed-helpers", () => ({
+  typedUpdate: vi.fn(),
+}));
+
+import { decryptToken, TokenDecryptionError } from "@/lib/crypto/encryption";
+import { GoogleAPIError, getAccessToken } from "@/lib/google/client";
+import {
+  createConnectionState,
+  getConnectionAccessToken,
+  orderConnections,
+} from "@/lib/google/connections";
+import { typedUpdate } from "@/lib/supabase/typed-helpers";
+
+const connections = [
+  { user_id: "user-1", google_refresh_token: "token-1" },
+  { user_id: "user-2", google_refresh_token: "token-2" },
+  { user_id: "user-3", google_refresh_token: "token-3" },
+];
+
+describe("lib/google/connections", () => {
+  const supabase = {} as never;
+  const mockEq = vi.fn();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    mockEq.mockResolvedValue({ error: null });
+    vi.mocked(typedUpdate).mockReturnValue({ eq: mockEq } as never);
+    vi.mocked(decryptToken).mockImplementation((token) => `decrypted-${token}`);
+  });
+
+  describe("orderConnections", () => {
+    it("moves the preferred user to the front", () => {
+      expect(
+        orderConnections(connections, "user-3").map((c) => c.user_id),
+      ).toEqual(["user-3", "user-1", "user-2"]);
+    });
+
+    it("keeps the order when the preferred user is not connected", () => {
+      expect(orderConnections(connections, "user-9")).toBe(connections);
+      expect(orderConnections(connections, null)).toBe(connections);
+    });
+  });
+
+  describe("getConnectionAccessToken", () => {
+    it("returns the first connection's access token", async () => {
+      vi.mocked(getAccessToken).mockResolvedValue("access-1");
+      const state = createConnectionState();
+
+      const result = await getConnectionAccessToken(
+        supabase,
+        connections,
+        state,
+      );
+
+      expect(result).toEqual({
+        accessToken: "access-1",
+        userId: "user-1",
+        noValidConnection: false,
+        errors: [],
+      });
+      expect(getAccessToken).toHaveBeenCalledWith(
+        "user-1",
+        "decrypted-token-1",
+        expect.objectContaining({ load: expect.any(Function) }),
+        {},
+      );
+      expect(state.accessTokens.get("user-1")).toBe("access-1");
+    });
+
+    it("reuses access tokens refreshed earlier in the run", async () => {
+      const state = createConnectionState();
+      state.accessTokens.set("user-1", "cached-access");
+
+      const result = await getConnectionAccessToken(
+        supabase,
+        connections,
+        state,
+      );
+
+      expect(result.accessToken).toBe("cached-access");
+      expect(getAccessToken).not.toHaveBeenCalled();
+    });
+
+    it("refreshes past the run's token when forced", async () => {
+      vi.mocked(getAccessToken).mockResolvedValue("fresh-access");
+      const state = createConnectionState();
+      state.accessTokens.set("user-1", "rejected-access");
+
+      const result = await getConnectionAccessToken(
+        supabase,
+        connections,
+        state,
+        { forceRefresh: true },
+      );
+
+      expect(result.accessToken).toBe("fresh-access");
+      expect(getAccessToken).toHaveBeenCalledWith(
+        "user-1",
+        "decrypted-token-1",
+        expect.anything(),
+        { forceRefresh: true },
+      );
+      expect(state.accessTokens.get("user-1")).toBe("fresh-access");
+    });
+
+    it("falls back past revoked and unreadable tokens and clears them", async () => {
+      vi.mocked(decryptToken).mockImplementation((token) => {
+        if (token === "token-1") {
+          throw new TokenDecryptionError("Invalid encrypted data");
+        }
+        return `decrypted-${token}`;
+      });
+      vi.mocked(getAccessToken)
+        .mockRejectedValueOnce(new GoogleAPIError(401, "Token expired"))
+        .mockResolvedValueOnce("access-3");
+      const state = createConnectionState();
+
+      const result = await getConnectionAccessToken(
+        supabase,
+        connections,
+        state,
+      );
+
+      expect(result).toEqual({
+        accessToken: "access-3",
+        userId: "user-3",
+        noValidConnection: false,
+        errors: [
+          "User user-1: Token decryption failed - data may be corrupted",
+          "User user-2: Token expired",
+        ],
+      });
+      expect(mockEq).toHaveBeenCalledWith("id", "user-1");
+      expect(mockEq).toHaveBeenCalledWith("id", "user-2");
+      expect([...state.invalidUserIds]).toEqual(["user-1", "user-2"]);
+    });
+
+    it("falls back past a refresh token Google rejects with invalid_grant", async () => {
+      const actual = await vi.importActual<
+        typeof import("@/lib/google/client")
+      >("@/lib/google/client");
+      vi.mocked(getAccessToken).mockImplementation(actual.getAccessToken);
+      vi.stubEnv("GOOGLE_CLIENT_ID", "client-id");
+      vi.stubEnv("GOOGLE_CLIENT_SECRET", "client-secret");
+      const mockFetch = vi
+        .fn()
+        .mockResolvedValueOnce({
+          ok: false,
+          status: 400,
+          json: async () => ({
+            error: "invalid_grant",
+            error_description: "Token has been expired or revoked.",
+          }),
+        })
+        .mockResolvedValueOnce({
+          ok: true,
+          status: 200,
+          json: async () => ({
+            access_token: "access-2",
+            expires_in: 3600,
+            token_type: "Bearer",
+            scope: "https://www.googleapis.com/auth/business.manage",
+          }),
+        });
+      vi.stubGlobal("fetch", mockFetch);
+      const state = createConnectionState();
+
+      try {
+        const result = await getConnectionAccessToken(
+          supabase,
+          connections,
+          state,
+        );
+
+        expect(result).toEqual({
+          accessToken: "access-2",
+          userId: "user-2",
+          noValidConnection: false,
+          errors: [
+            "User user-1: Google authentication expired. Please reconnect your account.",
+          ],
+        });
+        expect(typedUpdate).toHaveBeenCalledWith(supabase, "users", {
+          google_refresh_token: null,
+        });
+        expect(mockEq).toHaveBeenCalledWith("id", "user-1");
+        expect([...state.invalidUserIds]).toEqual(["user-1"]);
+      } finally {
+        vi.unstubAllGlobals();
+        vi.unstubAllEnvs();
+      }
+    });
+
+    it("skips users found invalid earlier in the run", async () => {
+      vi.mocked(getAccessToken).mockResolvedValue("access-2");
+      const state = createConnectionState();
+      state.invalidUserIds.add("user-1");
+
+      const result = await getConnectionAccessToken(
+        supabase,
+        connections,
+        state,
+      );
+
+      expect(result.userId).toBe("user-2");
+      expect(getAccessToken).toHaveBeenCalledTimes(1);
+    });
+
+    it("reports no valid connection when every token is revoked", async () => {
+      vi.mocked(getAccessToken).mockRejectedValue(
+        new GoogleAPIError(401, "Token expired"),
+      );
+
+      const result = await getConnectionAccessToken(
+        supabase,
+        connections,
+        createConnectionState(),
+      );
+
+      expect(result.accessToken).toBeNull();
+      expect(result.noValidConnection).toBe(true);
+      expect(result.errors).toHaveLength(3);
+    });
+
+    it("stops without falling back on other refresh errors", async () => {
+      vi.mocked(getAccessToken).mockRejectedValue(
+        new GoogleAPIError(503, "Service unavailable"),
+      );
+      const state = createConnectionState();
+
+      const result = await getConnectionAccessToken(
+        supabase,
+        connections,
+        state,
+      );
+
+      expect(result).toEqual({
+        accessToken: null,
+        userId: null,
+        noValidConnection: false,
+        errors: ["User user-1: Service unavailable"],
+      });
+      expect(getAccessToken).toHaveBeenCalledTimes(1);
+      expect(typedUpdate).not.toHaveBeenCalled();
+      expect(state.invalidUserIds.size).toBe(0);
+    });
+
+    it("reports no valid connection when the organization has no connections", async () => {
+      const result = await getConnectionAccessToken(
+        supabase,
+        [],
+        createConnectionState(),
+      );
+
+      expect(result.noValidConnection).toBe(true);
+    });
+  });
+});
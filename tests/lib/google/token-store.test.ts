@@ -0,0 +1,148 @@
+/**
+ * @vitest-environment node
+ */
+
+vi.mock("@/lib/crypto/encryption", () => ({
+  decryptToken: vi.fn((token: string) => `decrypted-${token}`),
+  encryptToken: vi.fn((token: string) => `encrypted-${token}`),
+}));
+
+vi.mock("@/lib/supabase/typed-helpers", () => ({
+  typedUpdate: vi.fn(),
+}));
+
+import { createAccessTokenStore } from "@/lib/google/token-store";
+import { typedUpdate } from "@/lib/supabase/typed-helpers";
+
+function createSupabaseMock(result: {
+  data: Record<string, string | null> | null;
+  error: { message: string } | null;
+}) {
+  const maybeSingle = vi.fn().mockResolvedValue(result);
+  const eq = vi.fn().mockReturnValue({ maybeSingle });
+  const select = vi.fn().mockReturnValue({ eq });
+  const supabase = { from: vi.fn().mockReturnValue({ select }) };
+  return { supabase, select, eq };
+}
+
+describe("lib/google/token-store", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe("load", () => {
+    it("returns the decrypted cached token", async () => {
+      const { supabase, select, eq } = createSupabaseMock({
+        data: {
+          google_access_token: "cipher",
+          google_access_token_expires_at: "2025-01-01T01:00:00Z",
+        },
+        error: null,
+      });
+
+      const token = await createAccessTokenStore(supabase as never).load(
+        "user-1",
+      );
+
+      expect(token).toEqual({
+        accessToken: "decrypted-cipher",
+        expiresAt: "2025-01-01T01:00:00Z",
+      });
+      expect(supabase.from).toHaveBeenCalledWith("users");
+      expect(select).toHaveBeenCalledWith(
+        "google_access_token, google_access_token_expires_at",
+      );
+      expect(eq).toHaveBeenCalledWith("id", "user-1");
+    });
+
+    it.each([
+      { label: "the user is missing", data: null },
+      {
+        label: "no token is cached",
+        data: {
+          google_access_token: null,
+          google_access_token_expires_at: null,
+        },
+      },
+    ])("returns null when $label", async ({ data }) => {
+      const { supabase } = createSupabaseMock({ data, error: null });
+
+      await expect(
+        createAccessTokenStore(supabase as never).load("user-1"),
+      ).resolves.toBeNull();
+    });
+
+    it("throws when the query fails", async () => {
+      const { supabase } = createSupabaseMock({
+        data: null,
+        error: { message: "Database error" },
+      });
+
+      await expect(
+        createAccessTokenStore(supabase as never).load("user-1"),
+      ).rejects.toThrow("Database error");
+    });
+  });
+
+  describe("save", () => {
+    it("stores the encrypted token and its expiry", async () => {
+      const eq = vi.fn().mockResolvedValue({ error: null });
+      vi.mocked(typedUpdate).mockReturnValue({ eq } as never);
+      const { supabase } = createSupabaseMock({ data: null, error: null });
+
+      await createAccessTokenStore(supabase as never).save("user-1", {
+        accessToken: "access-token",
+        expiresAt: "2025-01-01T01:00:00Z",
+      });
+
+      expect(typedUpdate).toHaveBeenCalledWith(supabase, "users", {
+        google_access_token: "encrypted-access-token",
+        google_access_token_expires_at: "2025-01-01T01:00:00Z",
+      });
+      expect(eq).toHaveBeenCalledWith("id", "user-1");
+    });
+
+    it("throws when the update fails", async () => {
+      const eq = vi
+        .fn()
+        .mockResolvedValue({ error: { message: "Database error" } });
+      vi.mocked(typedUpdate).mockReturnValue({ eq } as never);
+      const { supabase } = createSupabaseMock({ data: null, error: null });
+
+      await expect(
+        createAccessTokenStore(supabase as never).save("user-1", {
+          accessToken: "access-token",
+          expiresAt: "2025-01-01T01:00:00Z",
+        }),
+      ).rejects.toThrow("Database error");
+    });
+  });
+
+  describe("clear", () => {
+    it("drops the cached token and its expiry", async () => {
+      const eq = vi.fn().mockResolvedValue({ error: null });
+      vi.mocked(typedUpdate).mockReturnValue({ eq } as never);
+      const { supabase } = createSupabaseMock({ data: null, error: null });
+
+      await createAccessTokenStore(supabase as never).clear("user-1");
+
+      expect(typedUpdate).toHaveBeenCalledWith(supabase, "users", {
+        google_access_token: null,
+        google_access_token_expires_at: null,
+      });
+      expect(eq).toHaveBeenCalledWith("id", "user-1");
+    });
+
+    it("throws when the update fails", async () => {
+      const eq = vi
+        .fn()
+        .mockResolvedValue({ error: { message: "Database error" } });
+      vi.mocked(typedUpdate).mockReturnValue({ eq } as never);
+      const { supabase } = createSupabaseMock({ data: null, error: null });
+
+      await expect(
+        createAccessTokenStore(supabase as never).clear("user-1"),
+      ).rejects.toThrow("Database error");
+    });
+  });
+});
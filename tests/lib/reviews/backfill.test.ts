@@ -0,0 +1,390 @@
+/**
+ * @vitest-environment node
+ */
+
+vi.mock("@/lib/google/client", () => ({
+  fetchReviews: vi.fn(),
+  GoogleAPIError: class GoogleAPIError extends Error {
+    constructor(
+      public status: number,
+      message: string,
+    ) {
+      super(message);
+      this.name = "GoogleAPIError";
+    }
+  },
+}));
+
+vi.mock("@/lib/supabase/typed-helpers", () => ({
+  typedUpsert: vi.fn(),
+}));
+
+vi.mock("@/lib/reviews/tags", () => ({
+  tagReviews: vi.fn().mockResolvedValue({ error: null }),
+}));
+
+vi.mock("@/lib/reviews/escalation", () => ({
+  escalateReviews: vi
+    .fn()
+    .mockResolvedValue({ escalatedCount: 0, error: null }),
+}));
+
+vi.mock("@/lib/reviews/sentiment", async () => {
+  const actual = await vi.importActual<
+    typeof import("@/lib/reviews/sentiment")
+  >("@/lib/reviews/sentiment");
+  return {
+    ...actual,
+    analyzeReviewSentiment: vi
+      .fn()
+      .mockResolvedValue({ analyses: [], analyzedCount: 0, error: null }),
+  };
+});
+
+import { fetchReviews, GoogleAPIError } from "@/lib/google/client";
+import {
+  getBackfillLimit,
+  isBackfillUnfinished,
+  runLocationBackfill,
+} from "@/lib/reviews/backfill";
+import { escalateReviews } from "@/lib/reviews/escalation";
+import { analyzeReviewSentiment } from "@/lib/reviews/sentiment";
+import { tagReviews } from "@/lib/reviews/tags";
+import { typedUpsert } from "@/lib/supabase/typed-helpers";
+import type { LocationBackfill } from "@/lib/supabase/types";
+
+const location = {
+  id: "loc-1",
+  name: "Location 1",
+  organization_id: "org-1",
+  google_account_id: "acc-1",
+  google_location_id: "gloc-1",
+};
+
+function createBackfill(
+  overrides: Partial<LocationBackfill> = {},
+): LocationBackfill {
+  return {
+    location_id: "loc-1",
+    status: "pending",
+    target_count: null,
+    imported_count: 0,
+    next_page_token: null,
+    newest_review_date: null,
+    last_error: null,
+    started_at: null,
+    completed_at: null,
+    created_at: "2025-01-01T00:00:00Z",
+    updated_at: "2025-01-01T00:00:00Z",
+    ...overrides,
+  };
+}
+
+function makeReviews(count: number, startDay: number) {
+  return Array.from({ length: count }, (_, i) => ({
+    external_review_id: `ext-${startDay - i}`,
+    reviewer_name: "Reviewer",
+    rating: 5,
+    review_text: "Great!",
+    review_date: new Date(Date.UTC(2025, 0, startDay - i)).toISOString(),
+  }));
+}
+
+// Supabase mock that records backfill updates and poll state upserts
+function createSupabaseMock() {
+  const backfillUpdate = vi.fn().mockReturnValue({
+    eq: vi.fn().mockResolvedValue({ error: null }),
+  });
+  const pollStateUpsert = vi.fn().mockResolvedValue({ error: null });
+  const supabase = {
+    from: vi.fn((table: string) => {
+      if (table === "location_backfills") return { update: backfillUpdate };
+      if (table === "location_poll_state") return { upsert: pollStateUpsert };
+      return {};
+    }),
+  };
+  return { supabase, backfillUpdate, pollStateUpsert };
+}
+
+describe("lib/reviews/backfill", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    vi.mocked(typedUpsert).mockImplementation(
+      (_supabase, _table, values) =>
+        ({
+          select: vi.fn().mockResolvedValue({
+            data: (values as unknown[]).map((_, i) => ({ id: `review-${i}` })),
+            error: null,
+          }),
+        }) as never,
+    );
+  });
+
+  describe("getBackfillLimit", () => {
+    it.each([
+      { tier: "agency", expected: 1000 },
+      { tier: "growth", expected: 500 },
+      { tier: "starter", expected: 200 },
+      { tier: null, expected: 200 },
+      { tier: "unknown", expected: 200 },
+    ])("returns $expected for $tier tier", ({ tier, expected }) => {
+      expect(getBackfillLimit(tier)).toBe(expected);
+    });
+  });
+
+  describe("isBackfillUnfinished", () => {
+    it.each([
+      { status: "pending", expected: true },
+      { status: "running", expected: true },
+      { status: "completed", expected: false },
+      { status: "failed", expected: false },
+    ])("returns $expected for $status", ({ status, expected }) => {
+      expect(isBackfillUnfinished(status)).toBe(expected);
+    });
+  });
+
+  describe("runLocationBackfill", () => {
+    it("follows pages until the target count and seeds the poll high-water mark", async () => {
+      vi.mocked(fetchReviews)
+        .mockResolvedValueOnce({
+          reviews: makeReviews(2, 20),
+          nextPageToken: "page-2",
+        })
+        .mockResolvedValueOnce({
+          reviews: makeReviews(2, 18),
+          nextPageToken: "page-3",
+        });
+      const { supabase, backfillUpdate, pollStateUpsert } =
+        createSupabaseMock();
+
+      const progress = await runLocationBackfill(
+        supabase as never,
+        "access-token",
+        location,
+        createBackfill(),
+        { targetCount: 3, deadline: Date.now() + 60000 },
+      );
+
+      expect(fetchReviews).toHaveBeenNthCalledWith(
+        2,
+        "access-token",
+        "acc-1",
+        "gloc-1",
+        "page-2",
+      );
+      // Second page is trimmed to the remaining target
+      expect(vi.mocked(typedUpsert).mock.calls[1]?.[2]).toHaveLength(1);
+      expect(progress).toEqual({
+        location_id: "loc-1",
+        status: "completed",
+        imported_count: 3,
+        target_count: 3,
+        last_error: null,
+      });
+      expect(backfillUpdate).toHaveBeenCalledWith(
+        expect.objectContaining({
+          status: "completed",
+          next_page_token: null,
+          newest_review_date: "2025-01-20T00:00:00.000Z",
+        }),
+      );
+      expect(pollStateUpsert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          location_id: "loc-1",
+          high_water_mark: "2025-01-20T00:00:00.000Z",
+        }),
+        { onConflict: "location_id", ignoreDuplicates: true },
+      );
+    });
+
+    it("analyzes, tags and escalates imported reviews", async () => {
+      vi.mocked(fetchReviews).mockResolvedValueOnce({
+        reviews: makeReviews(1, 10),
+      });
+      vi.mocked(typedUpsert).mockReturnValue({
+        select: vi.fn().mockResolvedValue({
+          data: [{ id: "review-1", external_review_id: "ext-10" }],
+          error: null,
+        }),
+      } as never);
+      const { supabase } = createSupabaseMock();
+
+      await runLocationBackfill(
+        supabase as never,
+        "access-token",
+        location,
+        createBackfill(),
+        { targetCount: 200, deadline: Date.now() + 60000 },
+      );
+
+      expect(analyzeReviewSentiment).toHaveBeenCalledWith(
+        supabase,
+        [{ id: "review-1", rating: 5, review_text: "Great!" }],
+        "org-1",
+        { deadline: expect.any(Number) },
+      );
+      expect(tagReviews).toHaveBeenCalledWith(
+        supabase,
+        "org-1",
+        [{ id: "review-1", rating: 5, review_text: "Great!" }],
+        [],
+      );
+      expect(escalateReviews).toHaveBeenCalledWith(supabase, [
+        { id: "review-1", rating: 5, review_text: "Great!" },
+      ]);
+    });
+
+    it("completes when Google has fewer reviews than the target", async () => {
+      vi.mocked(fetchReviews).mockResolvedValueOnce({
+        reviews: makeReviews(2, 10),
+      });
+      const { supabase } = createSupabaseMock();
+
+      const progress = await runLocationBackfill(
+        supabase as never,
+        "access-token",
+        location,
+        createBackfill(),
+        { targetCount: 200, deadline: Date.now() + 60000 },
+      );
+
+      expect(progress.status).toBe("completed");
+      expect(progress.imported_count).toBe(2);
+    });
+
+    it("saves the page token when the deadline passes", async () => {
+      let now = 1000;
+      vi.spyOn(Date, "now").mockImplementation(() => now);
+      vi.mocked(fetchReviews).mockImplementationOnce(async () => {
+        now += 30000;
+        return { reviews: makeReviews(2, 20), nextPageToken: "page-2" };
+      });
+      const { supabase, backfillUpdate, pollStateUpsert } =
+        createSupabaseMock();
+
+      const progress = await runLocationBackfill(
+        supabase as never,
+        "access-token",
+        location,
+        createBackfill(),
+        { targetCount: 200, deadline: 20000 },
+      );
+
+      expect(fetchReviews).toHaveBeenCalledTimes(1);
+      expect(progress.status).toBe("running");
+      expect(backfillUpdate).toHaveBeenCalledWith(
+        expect.objectContaining({
+          status: "running",
+          imported_count: 2,
+          next_page_token: "page-2",
+        }),
+      );
+      expect(pollStateUpsert).not.toHaveBeenCalled();
+    });
+
+    it("resumes from the saved page token and count", async () => {
+      vi.mocked(fetchReviews).mockResolvedValueOnce({
+        reviews: makeReviews(1, 5),
+      });
+      const { supabase } = createSupabaseMock();
+
+      const progress = await runLocationBackfill(
+        supabase as never,
+        "access-token",
+        location,
+        createBackfill({
+          status: "running",
+          target_count: 200,
+          imported_count: 50,
+          next_page_token: "page-2",
+          newest_review_date: "2025-02-01T00:00:00Z",
+        }),
+        { targetCount: 200, deadline: Date.now() + 60000 },
+      );
+
+      expect(fetchReviews).toHaveBeenCalledWith(
+        "access-token",
+        "acc-1",
+        "gloc-1",
+        "page-2",
+      );
+      expect(progress.imported_count).toBe(51);
+      expect(progress.status).toBe("completed");
+    });
+
+    it("keeps the cursor on the failed page when saving reviews fails", async () => {
+      vi.mocked(fetchReviews).mockResolvedValueOnce({
+        reviews: makeReviews(2, 20),
+        nextPageToken: "page-3",
+      });
+      vi.mocked(typedUpsert).mockReturnValue({
+        select: vi.fn().mockResolvedValue({
+          data: null,
+          error: { message: "Database error" },
+        }),
+      } as never);
+      const { supabase, backfillUpdate } = createSupabaseMock();
+
+      const progress = await runLocationBackfill(
+        supabase as never,
+        "access-token",
+        location,
+        createBackfill({ status: "running", next_page_token: "page-2" }),
+        { targetCount: 200, deadline: Date.now() + 60000 },
+      );
+
+      expect(progress.status).toBe("running");
+      expect(progress.last_error).toBe("Failed to save reviews");
+      expect(backfillUpdate).toHaveBeenCalledWith(
+        expect.objectContaining({ next_page_token: "page-2" }),
+      );
+    });
+
+    it("marks the backfill failed when the location is gone", async () => {
+      vi.mocked(fetchReviews).mockRejectedValueOnce(
+        new GoogleAPIError(404, "Failed to fetch reviews: Not Found"),
+      );
+      const { supabase, backfillUpdate } = createSupabaseMock();
+
+      const progress = await runLocationBackfill(
+        supabase as never,
+        "access-token",
+        location,
+        createBackfill(),
+        { targetCount: 200, deadline: Date.now() + 60000 },
+      );
+
+      expect(progress.status).toBe("failed");
+      expect(progress.last_error).toBe("Failed to fetch reviews: Not Found");
+      expect(backfillUpdate).toHaveBeenCalledWith(
+        expect.objectContaining({ status: "failed", next_page_token: null }),
+      );
+    });
+
+    it("restarts from the newest page when the page token is rejected", async () => {
+      vi.mocked(fetchReviews).mockRejectedValueOnce(
+        new GoogleAPIError(400, "Failed to fetch reviews: Bad Request"),
+      );
+      const { supabase, backfillUpdate } = createSupabaseMock();
+
+      const progress = await runLocationBackfill(
+        supabase as never,
+        "access-token",
+        location,
+        createBackfill({
+          status: "running",
+          imported_count: 100,
+          next_page_token: "expired",
+        }),
+        { targetCount: 200, deadline: Date.now() + 60000 },
+      );
+
+      expect(progress.status).toBe("running");
+      expect(progress.imported_count).toBe(0);
+      expect(backfillUpdate).toHaveBeenCalledWith(
+        expect.objectContaining({ next_page_token: null, imported_count: 0 }),
+      );
+    });
+  });
+});
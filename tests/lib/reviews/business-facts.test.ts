@@ -0,0 +1,175 @@
+/**
+ * @vitest-environment node
+ */
+
+import {
+  isBusinessFactCategory,
+  loadBusinessFacts,
+  MAX_PROMPT_FACTS,
+  selectRelevantFacts,
+} from "@/lib/reviews/business-facts";
+
+function makeFact(
+  overrides: Partial<{
+    category: string;
+    title: string;
+    content: string;
+    keywords: string[];
+    location_id: string | null;
+  }> = {},
+) {
+  return {
+    category: "other",
+    title: "Fact",
+    content: "Something about the business",
+    keywords: [],
+    location_id: null,
+    ...overrides,
+  };
+}
+
+const hours = makeFact({
+  category: "hours",
+  title: "Opening hours",
+  content: "Open 8am-6pm Monday to Saturday, closed Sundays",
+});
+const returns = makeFact({
+  category: "policy",
+  title: "Return policy",
+  content: "Unworn items can be returned within 30 days with a receipt",
+});
+const manager = makeFact({
+  category: "staff",
+  title: "Store manager",
+  content: "Priya Shah manages the store",
+});
+const brunch = makeFact({
+  category: "service",
+  title: "Weekend brunch",
+  content: "Brunch is served until 2pm",
+  keywords: ["eggs benedict", "pancakes"],
+});
+
+describe("lib/reviews/business-facts", () => {
+  describe("isBusinessFactCategory", () => {
+    it("accepts known categories only", () => {
+      expect(isBusinessFactCategory("hours")).toBe(true);
+      expect(isBusinessFactCategory("faq")).toBe(true);
+      expect(isBusinessFactCategory("menu")).toBe(false);
+      expect(isBusinessFactCategory(null)).toBe(false);
+    });
+  });
+
+  describe("selectRelevantFacts", () => {
+    const facts = [hours, returns, manager, brunch];
+
+    it("picks facts whose category the review talks about", () => {
+      expect(
+        selectRelevantFacts(facts, "Came by on Sunday but you were closed!"),
+      ).toEqual([hours]);
+      expect(
+        selectRelevantFacts(facts, "The manager was so helpful with my order"),
+      ).toEqual([manager]);
+    });
+
+    it("picks facts by their own keywords", () => {
+      expect(
+        selectRelevantFacts(facts, "Best pancakes in town, no contest"),
+      ).toEqual([brunch]);
+    });
+
+    it("picks facts sharing words with the review, ignoring plurals", () => {
+      expect(
+        selectRelevantFacts(facts, "I lost my receipts, can I still return?"),
+      ).toEqual([returns]);
+    });
+
+    it("ranks stronger matches first", () => {
+      const selected = selectRelevantFacts(
+        facts,
+        "Wanted to return a jacket but the manager said the return policy changed",
+      );
+
+      expect(selected[0]).toBe(returns);
+      expect(selected).toContain(manager);
+    });
+
+    it("prefers the location's own fact over an organization-wide one", () => {
+      const localHours = makeFact({
+        ...hours,
+        content: "Open 9am-5pm Monday to Saturday, closed Sundays",
+        location_id: "loc-1",
+      });
+
+      expect(
+        selectRelevantFacts([hours, localHours], "Closed on Sundays?"),
+      ).toEqual([localHours, hours]);
+    });
+
+    it("returns nothing when no fact matches", () => {
+      expect(selectRelevantFacts(facts, "Lovely atmosphere.")).toEqual([]);
+      expect(selectRelevantFacts(facts, null)).toEqual([]);
+      expect(selectRelevantFacts(facts, "   ")).toEqual([]);
+    });
+
+    it("returns at most the limit", () => {
+      const many = Array.from({ length: 8 }, (_, index) =>
+        makeFact({ title: `Parking ${index}`, keywords: ["parking"] }),
+      );
+
+      expect(selectRelevantFacts(many, "Parking was easy")).toHaveLength(
+        MAX_PROMPT_FACTS,
+      );
+      expect(selectRelevantFacts(many, "Parking was easy", 2)).toHaveLength(2);
+    });
+  });
+
+  describe("loadBusinessFacts", () => {
+    function createSupabaseMock(result: {
+      data: unknown[] | null;
+      error: { message: string } | null;
+    }) {
+      const or = vi.fn().mockReturnValue({
+        order: vi.fn().mockResolvedValue(result),
+      });
+      const eq = vi.fn().mockReturnValue({ or });
+      const supabase = {
+        from: vi.fn().mockReturnValue({
+          select: vi.fn().mockReturnValue({ eq }),
+        }),
+      };
+      return { supabase, eq, or };
+    }
+
+    it("loads the organization-wide facts and the location's own", async () => {
+      const { supabase, eq, or } = createSupabaseMock({
+        data: [hours],
+        error: null,
+      });
+
+      const result = await loadBusinessFacts(
+        supabase as never,
+        "org-1",
+        "loc-1",
+      );
+
+      expect(result).toEqual({ facts: [hours], error: null });
+      expect(supabase.from).toHaveBeenCalledWith("business_facts");
+      expect(eq).toHaveBeenCalledWith("organization_id", "org-1");
+      expect(or).toHaveBeenCalledWith(
+        "location_id.is.null,location_id.eq.loc-1",
+      );
+    });
+
+    it("returns the error message when the query fails", async () => {
+      const { supabase } = createSupabaseMock({
+        data: null,
+        error: { message: "boom" },
+      });
+
+      await expect(
+        loadBusinessFacts(supabase as never, "org-1", "loc-1"),
+      ).resolves.toEqual({ facts: [], error: "boom" });
+    });
+  });
+});
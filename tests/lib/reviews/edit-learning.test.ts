@@ -0,0 +1,362 @@
+/**
+ * @vitest-environment node
+ */
+
+import {
+  analyzePublishedEdits,
+  applySuggestionToProfile,
+  diffWords,
+  learnFromEdits,
+  type PublishedEdit,
+  selectOrganizationsToLearn,
+} from "@/lib/reviews/edit-learning";
+
+const emptyProfile = {
+  words_to_avoid: null,
+  words_to_use: null,
+  example_responses: null,
+};
+
+/**
+ * A reply whose draft thanked a "valued customer" and whose published text
+ * thanks a "friend" instead
+ */
+function valuedCustomerEdit(id: string, rating = 3): PublishedEdit {
+  return {
+    id,
+    generatedText: `Thank you, valued customer, for visiting us on order ${id}.`,
+    finalText: `Thank you, friend, for visiting us on order ${id}.`,
+    rating,
+  };
+}
+
+describe("lib/reviews/edit-learning", () => {
+  describe("diffWords", () => {
+    it("groups replaced words into runs", () => {
+      expect(
+        diffWords(
+          "Thank you valued customer for the kind words",
+          "Thank you friend for the lovely kind words!",
+        ),
+      ).toEqual([
+        { removed: ["valued", "customer"], added: ["friend"] },
+        { removed: [], added: ["lovely"] },
+        { removed: ["words"], added: ["words!"] },
+      ]);
+    });
+
+    it("returns nothing for identical text", () => {
+      expect(diffWords("Thanks  for\nvisiting", "Thanks for visiting")).toEqual(
+        [],
+      );
+    });
+  });
+
+  describe("analyzePublishedEdits", () => {
+    it("suggests avoiding a phrase removed from enough replies", () => {
+      const { suggestions, responsesEdited, averageEditDistance } =
+        analyzePublishedEdits(
+          "org-1",
+          ["r1", "r2", "r3"].map((id) => valuedCustomerEdit(id)),
+          emptyProfile,
+        );
+
+      expect(responsesEdited).toBe(3);
+      expect(averageEditDistance).toBe(2);
+      expect(suggestions).toContainEqual({
+        organization_id: "org-1",
+        kind: "word_to_avoid",
+        value: "valued customer",
+        detail: 'Removed from 3 drafts, usually replaced with "friend"',
+        evidence_count: 3,
+      });
+      expect(suggestions).toContainEqual(
+        expect.objectContaining({ kind: "word_to_use", value: "friend" }),
+      );
+    });
+
+    it("needs at least three replies before suggesting a phrase", () => {
+      const { suggestions } = analyzePublishedEdits(
+        "org-1",
+        ["r1", "r2"].map((id) => valuedCustomerEdit(id)),
+        emptyProfile,
+      );
+
+      expect(suggestions).toEqual([]);
+    });
+
+    it("skips phrases already in the voice profile", () => {
+      const { suggestions } = analyzePublishedEdits(
+        "org-1",
+        ["r1", "r2", "r3"].map((id) => valuedCustomerEdit(id)),
+        {
+          ...emptyProfile,
+          words_to_avoid: ["Valued Customer"],
+          words_to_use: ["friend"],
+        },
+      );
+
+      expect(suggestions).toEqual([]);
+    });
+
+    it("ignores common words and numbers", () => {
+      const edits = ["r1", "r2", "r3"].map((id, index) => ({
+        id,
+        generatedText: `Thanks for the visit on table ${index}.`,
+        finalText: `Thanks so much for a visit on table ${index + 10}.`,
+        rating: 3,
+      }));
+
+      const { suggestions } = analyzePublishedEdits(
+        "org-1",
+        edits,
+        emptyProfile,
+      );
+
+      expect(suggestions).toEqual([
+        expect.objectContaining({ kind: "word_to_use", value: "so much" }),
+      ]);
+    });
+
+    it("suggests rewritten and hand-written replies to positive reviews as examples", () => {
+      const { suggestions } = analyzePublishedEdits(
+        "org-1",
+        [
+          {
+            id: "rewritten",
+            generatedText: "Thank you for the review.",
+            finalText: "Sam, the brisket is our pride and joy. See you soon!",
+            rating: 5,
+          },
+          {
+            id: "hand-written",
+            generatedText: null,
+            finalText: "Thanks Jo, come back for taco night!",
+            rating: 4,
+          },
+          {
+            id: "negative",
+            generatedText: null,
+            finalText: "We're sorry, please call us.",
+            rating: 2,
+          },
+          {
+            id: "lightly-edited",
+            generatedText: "Thanks so much for the kind review, Lee!",
+            finalText: "Thanks so much for the kind review, Lee!!",
+            rating: 5,
+          },
+        ],
+        emptyProfile,
+      );
+
+      expect(suggestions).toEqual([
+        {
+          organization_id: "org-1",
+          kind: "example_response",
+          value: "Sam, the brisket is our pride and joy. See you soon!",
+          detail: "Rewritten by your team for a 5-star review",
+          evidence_count: 1,
+          source_response_id: "rewritten",
+        },
+        {
+          organization_id: "org-1",
+          kind: "example_response",
+          value: "Thanks Jo, come back for taco night!",
+          detail: "Written by your team for a 4-star review",
+          evidence_count: 1,
+          source_response_id: "hand-written",
+        },
+      ]);
+    });
+
+    it("skips replies already used as examples", () => {
+      const { suggestions } = analyzePublishedEdits(
+        "org-1",
+        [
+          {
+            id: "hand-written",
+            generatedText: null,
+            finalText: "Thanks Jo, come back for taco night!",
+            rating: 5,
+          },
+        ],
+        {
+          ...emptyProfile,
+          example_responses: ["Thanks Jo, come back for taco night!"],
+        },
+      );
+
+      expect(suggestions).toEqual([]);
+    });
+  });
+
+  describe("applySuggestionToProfile", () => {
+    it("appends the value to the matching list", () => {
+      expect(
+        applySuggestionToProfile(
+          { ...emptyProfile, words_to_use: ["neighborhood"] },
+          "word_to_use",
+          "friend",
+        ),
+      ).toEqual({ words_to_use: ["neighborhood", "friend"] });
+    });
+
+    it("does not add a value twice", () => {
+      expect(
+        applySuggestionToProfile(
+          { ...emptyProfile, words_to_avoid: ["Valued Customer"] },
+          "word_to_avoid",
+          "valued customer",
+        ),
+      ).toEqual({ words_to_avoid: ["Valued Customer"] });
+    });
+
+    it("keeps only the newest example responses", () => {
+      expect(
+        applySuggestionToProfile(
+          {
+            ...emptyProfile,
+            example_responses: ["one", "two", "three", "four", "five"],
+          },
+          "example_response",
+          "six",
+        ),
+      ).toEqual({
+        example_responses: ["two", "three", "four", "five", "six"],
+      });
+    });
+
+    it("starts a list when there is no voice profile", () => {
+      expect(applySuggestionToProfile(null, "word_to_avoid", "sadly")).toEqual({
+        words_to_avoid: ["sadly"],
+      });
+    });
+  });
+
+  describe("selectOrganizationsToLearn", () => {
+    it("returns organizations not analyzed in the last day, oldest first", () => {
+      const now = new Date("2026-10-19T12:00:00Z");
+
+      expect(
+        selectOrganizationsToLearn(
+          [
+            { id: "org-1", edits_learned_at: "2026-10-19T06:00:00Z" },
+            { id: "org-2", edits_learned_at: "2026-10-17T12:00:00Z" },
+            { id: "org-3", edits_learned_at: null },
+            { id: "org-4", edits_learned_at: "2026-10-18T12:00:00Z" },
+          ],
+          now,
+        ).map((organization) => organization.id),
+      ).toEqual(["org-3", "org-2", "org-4"]);
+    });
+  });
+
+  describe("learnFromEdits", () => {
+    function mockLearningClient({
+      responses = [] as unknown[],
+      responsesError = null as { message: string } | null,
+      created = [] as unknown[],
+    } = {}) {
+      const responsesQuery: Record<string, ReturnType<typeof vi.fn>> = {};
+      for (const method of ["select", "eq", "gte", "order"]) {
+        responsesQuery[method] = vi.fn(() => responsesQuery);
+      }
+      responsesQuery.limit = vi
+        .fn()
+        .mockResolvedValue({ data: responses, error: responsesError });
+
+      const profileQuery: Record<string, ReturnType<typeof vi.fn>> = {};
+      for (const method of ["select", "eq", "limit"]) {
+        profileQuery[method] = vi.fn(() => profileQuery);
+      }
+      profileQuery.maybeSingle = vi
+        .fn()
+        .mockResolvedValue({ data: null, error: null });
+
+      const upsertSelect = vi
+        .fn()
+        .mockResolvedValue({ data: created, error: null });
+      const upsert = vi.fn().mockReturnValue({ select: upsertSelect });
+
+      const supabase = {
+        from: vi.fn((table: string) => {
+          if (table === "responses") return responsesQuery;
+          if (table === "voice_profiles") return profileQuery;
+          return { upsert };
+        }),
+      };
+      return { supabase, responsesQuery, upsert };
+    }
+
+    it("analyzes the organization's recent published replies and saves new suggestions", async () => {
+      const responses = ["r1", "r2", "r3"].map((id) => {
+        const edit = valuedCustomerEdit(id);
+        return {
+          id,
+          generated_text: edit.generatedText,
+          final_text: edit.finalText,
+          reviews: { rating: 3 },
+        };
+      });
+      const { supabase, responsesQuery, upsert } = mockLearningClient({
+        responses,
+        created: [{ id: "suggestion-1" }, { id: "suggestion-2" }],
+      });
+
+      const outcome = await learnFromEdits(
+        supabase as never,
+        "org-1",
+        new Date("2026-10-19T00:00:00Z"),
+      );
+
+      expect(outcome).toEqual({
+        result: {
+          responsesAnalyzed: 3,
+          responsesEdited: 3,
+          averageEditDistance: 2,
+          suggestionsCreated: 2,
+        },
+        error: null,
+      });
+      expect(responsesQuery.eq).toHaveBeenCalledWith(
+        "reviews.locations.organization_id",
+        "org-1",
+      );
+      expect(responsesQuery.gte).toHaveBeenCalledWith(
+        "published_at",
+        "2026-07-21T00:00:00.000Z",
+      );
+      expect(upsert).toHaveBeenCalledWith(
+        expect.arrayContaining([
+          expect.objectContaining({ value: "valued customer" }),
+        ]),
+        { onConflict: "organization_id,kind,value", ignoreDuplicates: true },
+      );
+    });
+
+    it("saves nothing when there is nothing to suggest", async () => {
+      const { supabase, upsert } = mockLearningClient();
+
+      const outcome = await learnFromEdits(supabase as never, "org-1");
+
+      expect(outcome.result).toEqual({
+        responsesAnalyzed: 0,
+        responsesEdited: 0,
+        averageEditDistance: null,
+        suggestionsCreated: 0,
+      });
+      expect(upsert).not.toHaveBeenCalled();
+    });
+
+    it("reports a failed query", async () => {
+      const { supabase } = mockLearningClient({
+        responsesError: { message: "Database error" },
+      });
+
+      await expect(learnFromEdits(supabase as never, "org-1")).resolves.toEqual(
+        { result: null, error: "Database error" },
+      );
+    });
+  });
+});
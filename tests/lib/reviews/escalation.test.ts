@@ -0,0 +1,131 @@
+/**
+ * @vitest-environment node
+ */
+
+vi.mock("@/lib/supabase/typed-helpers", () => ({
+  typedUpdate: vi.fn(),
+}));
+
+import {
+  detectEscalation,
+  escalateReviews,
+  isEscalationReason,
+} from "@/lib/reviews/escalation";
+import { typedUpdate } from "@/lib/supabase/typed-helpers";
+
+describe("lib/reviews/escalation", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe("detectEscalation", () => {
+    it.each([
+      {
+        text: "My lawyer will be contacting you about this.",
+        reason: "legal_threat",
+        detail: "lawyer",
+      },
+      {
+        text: "We're going to sue if we don't get a refund",
+        reason: "legal_threat",
+        detail: "going to sue",
+      },
+      {
+        text: "Half our table got food poisoning after the buffet",
+        reason: "health_safety",
+        detail: "food poisoning",
+      },
+      {
+        text: "Saw a cockroach near the counter",
+        reason: "health_safety",
+        detail: "cockroach",
+      },
+      {
+        text: "The manager was openly racist to my family",
+        reason: "discrimination",
+        detail: "racist",
+      },
+      {
+        text: "Refused service because of my wheelchair",
+        reason: "discrimination",
+        detail: "because of my wheelchair",
+      },
+      {
+        text: "One of the bartenders harassed my friend all night",
+        reason: "staff_misconduct",
+        detail: "harassed",
+      },
+    ])("flags '$text' as $reason", ({ text, reason, detail }) => {
+      expect(detectEscalation(text)).toEqual({ reason, detail });
+    });
+
+    it("reports the most serious reason when several match", () => {
+      expect(
+        detectEscalation("A waiter harassed me and my attorney knows"),
+      ).toEqual({ reason: "legal_threat", detail: "attorney" });
+    });
+
+    it.each([
+      "Sue at the front desk was wonderful",
+      "Great service, near the hospital so handy for visitors",
+      "The issue was sorted quickly",
+      "Fantastic food court with lots of choice",
+    ])("does not flag '%s'", (text) => {
+      expect(detectEscalation(text)).toBeNull();
+    });
+
+    it("does not flag reviews without text", () => {
+      expect(detectEscalation(null)).toBeNull();
+    });
+  });
+
+  describe("isEscalationReason", () => {
+    it("recognizes known reasons only", () => {
+      expect(isEscalationReason("health_safety")).toBe(true);
+      expect(isEscalationReason("rude")).toBe(false);
+      expect(isEscalationReason(null)).toBe(false);
+    });
+  });
+
+  describe("escalateReviews", () => {
+    it("flags matching reviews and leaves the rest untouched", async () => {
+      const eq = vi.fn().mockResolvedValue({ error: null });
+      vi.mocked(typedUpdate).mockReturnValue({ eq } as never);
+
+      const outcome = await escalateReviews({} as never, [
+        { id: "review-1", rating: 1, review_text: "I got sick after eating" },
+        { id: "review-2", rating: 5, review_text: "Lovely brunch" },
+      ]);
+
+      expect(outcome).toEqual({ escalatedCount: 1, error: null });
+      expect(typedUpdate).toHaveBeenCalledTimes(1);
+      expect(typedUpdate).toHaveBeenCalledWith({}, "reviews", {
+        escalation_reason: "health_safety",
+        escalation_detail: "got sick",
+        escalated_at: expect.any(String),
+      });
+      expect(eq).toHaveBeenCalledWith("id", "review-1");
+    });
+
+    it("reports failed updates", async () => {
+      vi.mocked(typedUpdate).mockReturnValue({
+        eq: vi.fn().mockResolvedValue({ error: { message: "Database error" } }),
+      } as never);
+
+      const outcome = await escalateReviews({} as never, [
+        { id: "review-1", rating: 1, review_text: "Talk to my solicitor" },
+      ]);
+
+      expect(outcome).toEqual({ escalatedCount: 0, error: "Database error" });
+    });
+
+    it("does nothing when no review needs escalating", async () => {
+      const outcome = await escalateReviews({} as never, [
+        { id: "review-1", rating: 4, review_text: null },
+      ]);
+
+      expect(outcome).toEqual({ escalatedCount: 0, error: null });
+      expect(typedUpdate).not.toHaveBeenCalled();
+    });
+  });
+});
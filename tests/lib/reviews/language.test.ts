@@ -0,0 +1,78 @@
+/**
+ * @vitest-environment node
+ */
+
+import {
+  applyLanguageOverride,
+  detectReviewLanguage,
+  isReviewLanguage,
+  parseLanguageOverride,
+} from "@/lib/reviews/language";
+import { createMockVoiceProfile } from "@/tests/helpers/fixtures";
+
+describe("lib/reviews/language", () => {
+  it.each([
+    ["The food was great and the staff were very friendly.", "en"],
+    ["La comida estaba muy buena y el servicio fue excelente.", "es"],
+    ["Le service était très bien, mais la terrasse est petite.", "fr"],
+    ["Das Essen war sehr gut und die Bedienung freundlich.", "de"],
+    ["Il servizio è molto buono, ma il locale era pieno.", "it"],
+    ["O atendimento foi ótimo e a comida não demorou.", "pt"],
+    ["Het eten was erg lekker en de bediening vriendelijk.", "nl"],
+  ])("detects the language of %j", (text, expected) => {
+    expect(detectReviewLanguage(text)).toBe(expected);
+  });
+
+  it.each([
+    [null],
+    [""],
+    ["5 stars!"],
+    ["Pizza"],
+  ])("returns null when the language can't be told from %j", (text) => {
+    expect(detectReviewLanguage(text)).toBeNull();
+  });
+
+  it.each([
+    ["es", true],
+    ["EN", false],
+    ["ja", false],
+    [null, false],
+  ])("isReviewLanguage(%j) is %s", (value, expected) => {
+    expect(isReviewLanguage(value)).toBe(expected);
+  });
+
+  it("reads one language's override, skipping fields with the wrong type", () => {
+    expect(
+      parseLanguageOverride(
+        {
+          es: {
+            sign_off_style: "Un saludo, Ana",
+            words_to_use: ["barrio"],
+            words_to_avoid: "cliente",
+            max_length: 50,
+          },
+        },
+        "es",
+      ),
+    ).toEqual({ sign_off_style: "Un saludo, Ana", words_to_use: ["barrio"] });
+    expect(parseLanguageOverride({ es: "Un saludo" }, "es")).toEqual({});
+    expect(parseLanguageOverride([], "es")).toEqual({});
+  });
+
+  it("applies the review language's override to the voice profile", () => {
+    const voiceProfile = createMockVoiceProfile({
+      sign_off_style: "Best, Ana",
+      personality_notes: "Warm",
+      language_overrides: { es: { sign_off_style: "Un saludo, Ana" } },
+    });
+
+    expect(applyLanguageOverride(voiceProfile, "es")).toMatchObject({
+      sign_off_style: "Un saludo, Ana",
+      personality_notes: "Warm",
+    });
+    expect(applyLanguageOverride(voiceProfile, "fr")).toMatchObject({
+      sign_off_style: "Best, Ana",
+    });
+    expect(applyLanguageOverride(voiceProfile, null)).toBe(voiceProfile);
+  });
+});
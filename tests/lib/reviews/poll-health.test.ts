@@ -0,0 +1,155 @@
+/**
+ * @vitest-environment node
+ */
+
+import {
+  DEACTIVATE_AFTER_NOT_FOUND,
+  getBackoffMinutes,
+  getPollHealthUpdate,
+  isBackoffStatus,
+  MAX_BACKOFF_MINUTES,
+  toSyncHealth,
+} from "@/lib/reviews/poll-health";
+
+const now = new Date("2025-01-01T12:00:00Z");
+
+function minutesFromNow(minutes: number): string {
+  return new Date(now.getTime() + minutes * 60 * 1000).toISOString();
+}
+
+describe("lib/reviews/poll-health", () => {
+  describe("isBackoffStatus", () => {
+    it.each([
+      { status: 403, expected: true },
+      { status: 404, expected: true },
+      { status: 500, expected: true },
+      { status: 503, expected: true },
+      { status: 400, expected: false },
+      { status: 429, expected: false },
+      { status: null, expected: false },
+    ])("returns $expected for $status", ({ status, expected }) => {
+      expect(isBackoffStatus(status)).toBe(expected);
+    });
+  });
+
+  describe("getBackoffMinutes", () => {
+    it.each([
+      { failures: 1, expected: 5 },
+      { failures: 2, expected: 10 },
+      { failures: 3, expected: 20 },
+      { failures: 6, expected: 160 },
+      { failures: 20, expected: MAX_BACKOFF_MINUTES },
+    ])("waits $expected minutes after $failures failure(s)", ({
+      failures,
+      expected,
+    }) => {
+      expect(getBackoffMinutes(failures)).toBe(expected);
+    });
+  });
+
+  describe("getPollHealthUpdate", () => {
+    it("clears failures and records the success time", () => {
+      const result = getPollHealthUpdate(
+        { consecutive_failures: 3, consecutive_not_found: 3 },
+        { ok: true },
+        now,
+      );
+
+      expect(result).toEqual({
+        update: {
+          consecutive_failures: 0,
+          consecutive_not_found: 0,
+          last_error_code: null,
+          last_error: null,
+          next_retry_at: null,
+          last_success_at: now.toISOString(),
+        },
+        deactivate: false,
+      });
+    });
+
+    it("backs off exponentially on repeated 5xx errors", () => {
+      const result = getPollHealthUpdate(
+        { consecutive_failures: 1, consecutive_not_found: 0 },
+        { ok: false, status: 502, message: "Bad gateway" },
+        now,
+      );
+
+      expect(result).toEqual({
+        update: {
+          consecutive_failures: 2,
+          consecutive_not_found: 0,
+          last_error_code: 502,
+          last_error: "Bad gateway",
+          next_retry_at: minutesFromNow(10),
+        },
+        deactivate: false,
+      });
+    });
+
+    it("records errors without backing off when the status is not a backoff status", () => {
+      const result = getPollHealthUpdate(
+        undefined,
+        { ok: false, status: null, message: "Failed to fetch reviews" },
+        now,
+      );
+
+      expect(result.update).toMatchObject({
+        consecutive_failures: 1,
+        last_error_code: null,
+        next_retry_at: null,
+      });
+    });
+
+    it("resets the not-found streak on other errors", () => {
+      const result = getPollHealthUpdate(
+        { consecutive_failures: 4, consecutive_not_found: 4 },
+        { ok: false, status: 500, message: "Internal error" },
+        now,
+      );
+
+      expect(result.update.consecutive_not_found).toBe(0);
+      expect(result.deactivate).toBe(false);
+    });
+
+    it("deactivates after sustained 404s", () => {
+      const almost = getPollHealthUpdate(
+        {
+          consecutive_failures: DEACTIVATE_AFTER_NOT_FOUND - 2,
+          consecutive_not_found: DEACTIVATE_AFTER_NOT_FOUND - 2,
+        },
+        { ok: false, status: 404, message: "Not found" },
+        now,
+      );
+      const sustained = getPollHealthUpdate(
+        {
+          consecutive_failures: DEACTIVATE_AFTER_NOT_FOUND - 1,
+          consecutive_not_found: DEACTIVATE_AFTER_NOT_FOUND - 1,
+        },
+        { ok: false, status: 404, message: "Not found" },
+        now,
+      );
+
+      expect(almost.deactivate).toBe(false);
+      expect(sustained.deactivate).toBe(true);
+    });
+  });
+
+  describe("toSyncHealth", () => {
+    it("maps poll state to sync health", () => {
+      expect(
+        toSyncHealth({
+          last_success_at: "2025-01-01T11:00:00Z",
+          consecutive_failures: 2,
+          last_error: "Service unavailable",
+          next_retry_at: "2025-01-01T12:10:00Z",
+        }),
+      ).toEqual({
+        last_success_at: "2025-01-01T11:00:00Z",
+        consecutive_failures: 2,
+        last_error: "Service unavailable",
+        next_retry_at: "2025-01-01T12:10:00Z",
+      });
+    });
+  });
+});
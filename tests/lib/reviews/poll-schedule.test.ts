@@ -0,0 +1,161 @@
+/**
+ * @vitest-environment node
+ */
+
+import {
+  normalizePollTier,
+  scheduleLocationsToPoll,
+} from "@/lib/reviews/poll-schedule";
+
+const now = new Date("2025-01-01T12:00:00Z");
+
+function minutesAgo(minutes: number): string {
+  return new Date(now.getTime() - minutes * 60 * 1000).toISOString();
+}
+
+function createLocation(
+  id: string,
+  overrides: {
+    plan_tier?: string | null;
+    last_polled_at?: string | null;
+    created_at?: string | null;
+    next_retry_at?: string | null;
+  } = {},
+) {
+  return {
+    id,
+    plan_tier: "agency",
+    last_polled_at: null,
+    created_at: "2025-01-01T00:00:00Z",
+    next_retry_at: null,
+    ...overrides,
+  };
+}
+
+describe("lib/reviews/poll-schedule", () => {
+  describe("normalizePollTier", () => {
+    it.each([
+      { tier: "agency", expected: "agency" },
+      { tier: "growth", expected: "growth" },
+      { tier: "starter", expected: "starter" },
+      { tier: null, expected: "starter" },
+      { tier: "enterprise", expected: "starter" },
+    ])("returns $expected for $tier", ({ tier, expected }) => {
+      expect(normalizePollTier(tier)).toBe(expected);
+    });
+  });
+
+  describe("scheduleLocationsToPoll", () => {
+    it("skips locations polled within their tier's minimum interval", () => {
+      const schedule = scheduleLocationsToPoll(
+        [
+          createLocation("agency-recent", { last_polled_at: minutesAgo(2) }),
+          createLocation("agency-due", { last_polled_at: minutesAgo(4) }),
+          createLocation("starter-recent", {
+            plan_tier: "starter",
+            last_polled_at: minutesAgo(10),
+          }),
+        ],
+        now,
+        50,
+      );
+
+      expect(schedule.selected.map((l) => l.id)).toEqual(["agency-due"]);
+      expect(schedule.backlogDepth).toBe(0);
+      expect(schedule.oldestStalenessMinutes).toBe(4);
+    });
+
+    it("skips locations backing off until their next retry time", () => {
+      const schedule = scheduleLocationsToPoll(
+        [
+          createLocation("backing-off", {
+            last_polled_at: minutesAgo(30),
+            next_retry_at: new Date(now.getTime() + 60 * 1000).toISOString(),
+          }),
+          createLocation("retry-due", {
+            last_polled_at: minutesAgo(30),
+            next_retry_at: minutesAgo(1),
+          }),
+        ],
+        now,
+        50,
+      );
+
+      expect(schedule.selected.map((l) => l.id)).toEqual(["retry-due"]);
+      expect(schedule.backlogDepth).toBe(0);
+    });
+
+    it("ranks never-polled locations first, oldest first", () => {
+      const schedule = scheduleLocationsToPoll(
+        [
+          createLocation("polled", { last_polled_at: minutesAgo(500) }),
+          createLocation("new", { created_at: "2025-01-01T11:00:00Z" }),
+          createLocation("older", { created_at: "2025-01-01T10:00:00Z" }),
+        ],
+        now,
+        50,
+      );
+
+      expect(schedule.selected.map((l) => l.id)).toEqual([
+        "older",
+        "new",
+        "polled",
+      ]);
+    });
+
+    it("weights time since last poll by tier interval", () => {
+      const schedule = scheduleLocationsToPoll(
+        [
+          createLocation("starter", {
+            plan_tier: "starter",
+            last_polled_at: minutesAgo(20),
+          }),
+          createLocation("growth", {
+            plan_tier: "growth",
+            last_polled_at: minutesAgo(25),
+          }),
+          createLocation("agency", { last_polled_at: minutesAgo(10) }),
+        ],
+        now,
+        50,
+      );
+
+      // growth 2.5 intervals, agency 2, starter 1.33
+      expect(schedule.selected.map((l) => l.id)).toEqual([
+        "growth",
+        "agency",
+        "starter",
+      ]);
+    });
+
+    it("caps the selection and reports the remainder as backlog", () => {
+      const schedule = scheduleLocationsToPoll(
+        [
+          createLocation("a", { last_polled_at: minutesAgo(5) }),
+          createLocation("b", { last_polled_at: minutesAgo(45) }),
+          createLocation("c", { last_polled_at: minutesAgo(15) }),
+        ],
+        now,
+        2,
+      );
+
+      expect(schedule.selected.map((l) => l.id)).toEqual(["b", "c"]);
+      expect(schedule.backlogDepth).toBe(1);
+      expect(schedule.oldestStalenessMinutes).toBe(45);
+    });
+
+    it("reports null staleness when nothing is due", () => {
+      const schedule = scheduleLocationsToPoll(
+        [createLocation("a", { last_polled_at: minutesAgo(1) })],
+        now,
+        50,
+      );
+
+      expect(schedule).toEqual({
+        selected: [],
+        backlogDepth: 0,
+        oldestStalenessMinutes: null,
+      });
+    });
+  });
+});
@@ -0,0 +1,439 @@
+/**
+ * @vitest-environment node
+ */
+
+import {
+  assignPromptVersion,
+  findSelectedDraftText,
+  loadPromptExperimentResults,
+  parseExperimentVariants,
+  selectPromptVersion,
+  summarizePromptExperiment,
+  wordEditDistance,
+} from "@/lib/reviews/prompt-experiments";
+
+function mockExperimentClient(result: {
+  data: unknown;
+  error: { message: string } | null;
+}) {
+  const eq = vi.fn().mockReturnValue({
+    maybeSingle: vi.fn().mockResolvedValue(result),
+  });
+  return {
+    supabase: {
+      from: vi.fn().mockReturnValue({
+        select: vi.fn().mockReturnValue({ eq }),
+      }),
+    },
+    eq,
+  };
+}
+
+describe("lib/reviews/prompt-experiments", () => {
+  describe("parseExperimentVariants", () => {
+    it("keeps known versions with positive weights", () => {
+      expect(
+        parseExperimentVariants([
+          { version: "v1", weight: 3 },
+          { version: "v9", weight: 1 },
+          { version: "v2", weight: 0 },
+          { version: "v2", weight: "1" },
+          "v2",
+          { version: "v2", weight: 1 },
+        ]),
+      ).toEqual([
+        { version: "v1", weight: 3 },
+        { version: "v2", weight: 1 },
+      ]);
+    });
+
+    it("returns nothing for a value that is not a list", () => {
+      expect(parseExperimentVariants({ version: "v1", weight: 1 })).toEqual([]);
+    });
+  });
+
+  describe("assignPromptVersion", () => {
+    const experiment = {
+      id: "experiment-1",
+      assignment_unit: "organization",
+      variants: [
+        { version: "v1", weight: 1 },
+        { version: "v2", weight: 1 },
+      ],
+    };
+
+    it("assigns the same version every time", () => {
+      const first = assignPromptVersion(experiment, {
+        organizationId: "org-1",
+        reviewId: "review-1",
+      });
+
+      expect(
+        assignPromptVersion(experiment, {
+          organizationId: "org-1",
+          reviewId: "review-2",
+        }),
+      ).toBe(first);
+    });
+
+    it("assigns each review separately when the unit is review", () => {
+      const versions = new Set(
+        Array.from({ length: 50 }, (_, index) =>
+          assignPromptVersion(
+            { ...experiment, assignment_unit: "review" },
+            { organizationId: "org-1", reviewId: `review-${index}` },
+          ),
+        ),
+      );
+
+      expect(versions).toEqual(new Set(["v1", "v2"]));
+    });
+
+    it("splits units roughly by weight", () => {
+      const assignments = Array.from({ length: 1000 }, (_, index) =>
+        assignPromptVersion(
+          {
+            ...experiment,
+            variants: [
+              { version: "v1", weight: 3 },
+              { version: "v2", weight: 1 },
+            ],
+          },
+          { organizationId: `org-${index}`, reviewId: "review-1" },
+        ),
+      );
+      const v2Share =
+        assignments.filter((version) => version === "v2").length / 1000;
+
+      expect(v2Share).toBeGreaterThan(0.2);
+      expect(v2Share).toBeLessThan(0.3);
+    });
+
+    it("returns null when no variant is usable", () => {
+      expect(
+        assignPromptVersion(
+          { ...experiment, variants: [{ version: "v9", weight: 1 }] },
+          { organizationId: "org-1", reviewId: "review-1" },
+        ),
+      ).toBeNull();
+    });
+  });
+
+  describe("selectPromptVersion", () => {
+    it("uses the running experiment's assignment", async () => {
+      const { supabase, eq } = mockExperimentClient({
+        data: {
+          id: "experiment-1",
+          assignment_unit: "review",
+          variants: [{ version: "v2", weight: 1 }],
+        },
+        error: null,
+      });
+
+      await expect(
+        selectPromptVersion(supabase as never, "org-1", "review-1"),
+      ).resolves.toEqual({ promptVersion: "v2", experimentId: "experiment-1" });
+      expect(supabase.from).toHaveBeenCalledWith("prompt_experiments");
+      expect(eq).toHaveBeenCalledWith("status", "running");
+    });
+
+    it("uses the default version when no experiment is running", async () => {
+      const { supabase } = mockExperimentClient({ data: null, error: null });
+
+      await expect(
+        selectPromptVersion(supabase as never, "org-1", "review-1"),
+      ).resolves.toEqual({ promptVersion: "v1", experimentId: null });
+    });
+
+    it("uses the default version when the experiment has no usable variants", async () => {
+      const { supabase } = mockExperimentClient({
+        data: {
+          id: "experiment-1",
+          assignment_unit: "review",
+          variants: [{ version: "v9", weight: 1 }],
+        },
+        error: null,
+      });
+
+      await expect(
+        selectPromptVersion(supabase as never, "org-1", "review-1"),
+      ).resolves.toEqual({ promptVersion: "v1", experimentId: null });
+    });
+
+    it("uses the default version when loading fails", async () => {
+      vi.spyOn(console, "warn").mockImplementation(() => {});
+      const { supabase } = mockExperimentClient({
+        data: null,
+        error: { message: "Database error" },
+      });
+
+      await expect(
+        selectPromptVersion(supabase as never, "org-1", "review-1"),
+      ).resolves.toEqual({ promptVersion: "v1", experimentId: null });
+    });
+  });
+
+  describe("wordEditDistance", () => {
+    it.each([
+      ["Thanks for visiting!", "Thanks for visiting!", 0],
+      ["Thanks for visiting!", "Thanks so much for visiting!", 2],
+      ["Thanks for visiting!", "Thank you for coming!", 3],
+      ["", "Thanks!", 1],
+      ["Thanks  for\nvisiting", "Thanks for visiting", 0],
+    ])("counts the word edits from %j to %j", (from, to, expected) => {
+      expect(wordEditDistance(from, to)).toBe(expected);
+    });
+  });
+
+  describe("summarizePromptExperiment", () => {
+    it("reports publish rate and average edit distance per version", () => {
+      expect(
+        summarizePromptExperiment([
+          {
+            prompt_version: "v2",
+            status: "published",
+            generated_text: "Thanks for visiting!",
+            final_text: "Thanks for visiting!",
+          },
+          {
+            prompt_version: "v1",
+            status: "published",
+            generated_text: "Thanks for visiting!",
+            final_text: "Thanks so much for visiting!",
+          },
+          {
+            prompt_version: "v1",
+            status: "draft",
+            generated_text: "Thank you!",
+            final_text: null,
+          },
+          {
+            prompt_version: "v2",
+            status: "published",
+            generated_text: "We appreciate it.",
+            final_text: "We really appreciate it.",
+          },
+          {
+            prompt_version: null,
+            status: "published",
+            generated_text: null,
+            final_text: "Typed by hand",
+          },
+        ]),
+      ).toEqual([
+        {
+          promptVersion: "v1",
+          drafts: 2,
+          published: 1,
+          publishRate: 0.5,
+          averageEditDistance: 2,
+        },
+        {
+          promptVersion: "v2",
+          drafts: 2,
+          published: 2,
+          publishRate: 1,
+          averageEditDistance: 0.5,
+        },
+      ]);
+    });
+
+    it("measures edits from the draft the user picked", () => {
+      expect(
+        summarizePromptExperiment([
+          {
+            prompt_version: "v1",
+            status: "published",
+            generated_text: "Thank you so much for your kind words!",
+            final_text: "Thanks, see you soon!",
+            selected_draft_text: "Thanks, see you soon!",
+          },
+        ])[0]?.averageEditDistance,
+      ).toBe(0);
+    });
+
+    it("leaves edit distance empty when nothing was published", () => {
+      expect(
+        summarizePromptExperiment([
+          {
+            prompt_version: "v1",
+            status: "draft",
+            generated_text: "Thank you!",
+            final_text: null,
+          },
+        ]),
+      ).toEqual([
+        {
+          promptVersion: "v1",
+          drafts: 1,
+          published: 0,
+          publishRate: 0,
+          averageEditDistance: null,
+        },
+      ]);
+    });
+  });
+
+  describe("findSelectedDraftText", () => {
+    const versions = [
+      {
+        id: "v-1",
+        kind: "generated",
+        text: "Balanced draft",
+        source_version_id: null,
+        created_at: "2026-10-01T10:00:00Z",
+      },
+      {
+        id: "v-2",
+        kind: "generated",
+        text: "Short draft",
+        source_version_id: null,
+        created_at: "2026-10-01T10:00:00Z",
+      },
+      {
+        id: "v-3",
+        kind: "edited",
+        text: "Short draft, edited",
+        source_version_id: "v-2",
+        created_at: "2026-10-01T10:05:00Z",
+      },
+    ];
+
+    it("follows the published version back through edits to its draft", () => {
+      expect(
+        findSelectedDraftText([
+          ...versions,
+          {
+            id: "v-4",
+            kind: "published",
+            text: "Short draft, edited",
+            source_version_id: "v-3",
+            created_at: "2026-10-01T10:06:00Z",
+          },
+        ]),
+      ).toBe("Short draft");
+    });
+
+    it("returns null when the published version has no source", () => {
+      expect(
+        findSelectedDraftText([
+          ...versions,
+          {
+            id: "v-4",
+            kind: "published",
+            text: "Typed by hand",
+            source_version_id: null,
+            created_at: "2026-10-01T10:06:00Z",
+          },
+        ]),
+      ).toBeNull();
+      expect(findSelectedDraftText(versions)).toBeNull();
+    });
+  });
+
+  describe("loadPromptExperimentResults", () => {
+    function mockResultsClient(
+      pages: { data: unknown[] | null; error: { message: string } | null }[],
+    ) {
+      const range = vi.fn();
+      for (const page of pages) {
+        range.mockResolvedValueOnce(page);
+      }
+      const eq = vi.fn().mockReturnValue({
+        order: vi.fn().mockReturnValue({ range }),
+      });
+      return {
+        supabase: {
+          from: vi.fn().mockReturnValue({
+            select: vi.fn().mockReturnValue({ eq }),
+          }),
+        },
+        eq,
+        range,
+      };
+    }
+
+    it("reads every page of the experiment's responses", async () => {
+      const published = {
+        prompt_version: "v1",
+        status: "published",
+        generated_text: "Thanks!",
+        final_text: "Thanks!",
+      };
+      const { supabase, eq, range } = mockResultsClient([
+        { data: Array.from({ length: 1000 }, () => published), error: null },
+        { data: [{ ...published, status: "draft" }], error: null },
+      ]);
+
+      const outcome = await loadPromptExperimentResults(
+        supabase as never,
+        "experiment-1",
+      );
+
+      expect(outcome).toEqual({
+        results: [
+          {
+            promptVersion: "v1",
+            drafts: 1001,
+            published: 1000,
+            publishRate: 1000 / 1001,
+            averageEditDistance: 0,
+          },
+        ],
+        error: null,
+      });
+      expect(eq).toHaveBeenCalledWith("prompt_experiment_id", "experiment-1");
+      expect(range).toHaveBeenNthCalledWith(1, 0, 999);
+      expect(range).toHaveBeenNthCalledWith(2, 1000, 1999);
+    });
+
+    it("measures published responses against the variant that was picked", async () => {
+      const { supabase } = mockResultsClient([
+        {
+          data: [
+            {
+              prompt_version: "v2",
+              status: "published",
+              generated_text: "Thank you so much for your kind words!",
+              final_text: "Thanks, see you soon!",
+              response_versions: [
+                {
+                  id: "v-1",
+                  kind: "generated",
+                  text: "Thanks, see you soon!",
+                  source_version_id: null,
+                  created_at: "2026-10-01T10:00:00Z",
+                },
+                {
+                  id: "v-2",
+                  kind: "published",
+                  text: "Thanks, see you soon!",
+                  source_version_id: "v-1",
+                  created_at: "2026-10-01T10:05:00Z",
+                },
+              ],
+            },
+          ],
+          error: null,
+        },
+      ]);
+
+      const { results } = await loadPromptExperimentResults(
+        supabase as never,
+        "experiment-1",
+      );
+
+      expect(results[0]?.averageEditDistance).toBe(0);
+    });
+
+    it("reports a failed query", async () => {
+      const { supabase } = mockResultsClient([
+        { data: null, error: { message: "Database error" } },
+      ]);
+
+      await expect(
+        loadPromptExperimentResults(supabase as never, "experiment-1"),
+      ).resolves.toEqual({ results: [], error: "Database error" });
+    });
+  });
+});
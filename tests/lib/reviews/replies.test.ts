@@ -0,0 +1,231 @@
+/**
+ * @vitest-environment node
+ */
+
+import { syncGoogleReplies } from "@/lib/reviews/replies";
+
+const savedReviews = [{ id: "review-1", external_review_id: "ext-1" }];
+
+const fetchedWithReply = [
+  {
+    external_review_id: "ext-1",
+    reply: {
+      comment: "Thanks for visiting!",
+      updated_at: "2025-01-02T00:00:00Z",
+    },
+  },
+];
+
+// Supabase mock that returns existing responses and records upserts
+function createSupabaseMock(
+  options: {
+    existing?: Array<Record<string, unknown>>;
+    loadError?: { message: string } | null;
+    upsertError?: { message: string } | null;
+  } = {},
+) {
+  const responsesIn = vi.fn().mockResolvedValue({
+    data: options.loadError ? null : (options.existing ?? []),
+    error: options.loadError ?? null,
+  });
+  const responsesUpsert = vi
+    .fn()
+    .mockResolvedValue({ error: options.upsertError ?? null });
+  const supabase = {
+    from: vi.fn(() => ({
+      select: vi.fn().mockReturnValue({ in: responsesIn }),
+      upsert: responsesUpsert,
+    })),
+  };
+  return { supabase, responsesIn, responsesUpsert };
+}
+
+function createExistingResponse(overrides: Record<string, unknown> = {}) {
+  return {
+    review_id: "review-1",
+    status: "published",
+    source: "replily",
+    final_text: "Thanks for visiting!",
+    published_at: "2025-01-01T12:00:00+00:00",
+    google_reply_text: null,
+    google_reply_updated_at: null,
+    ...overrides,
+  };
+}
+
+describe("lib/reviews/replies", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe("syncGoogleReplies", () => {
+    it("creates an external response for a reply written on Google", async () => {
+      const { supabase, responsesIn, responsesUpsert } = createSupabaseMock();
+
+      const result = await syncGoogleReplies(
+        supabase as never,
+        savedReviews,
+        fetchedWithReply,
+      );
+
+      expect(result).toEqual({ syncedCount: 1, error: null });
+      expect(responsesIn).toHaveBeenCalledWith("review_id", ["review-1"]);
+      expect(responsesUpsert).toHaveBeenCalledWith(
+        [
+          {
+            review_id: "review-1",
+            status: "published",
+            source: "external",
+            final_text: "Thanks for visiting!",
+            published_at: "2025-01-02T00:00:00Z",
+            google_reply_text: "Thanks for visiting!",
+            google_reply_updated_at: "2025-01-02T00:00:00Z",
+          },
+        ],
+        { onConflict: "review_id" },
+      );
+    });
+
+    it("replaces an unpublished draft with the reply from Google", async () => {
+      const { supabase, responsesUpsert } = createSupabaseMock({
+        existing: [
+          createExistingResponse({ status: "draft", final_text: null }),
+        ],
+      });
+
+      await syncGoogleReplies(
+        supabase as never,
+        savedReviews,
+        fetchedWithReply,
+      );
+
+      expect(responsesUpsert).toHaveBeenCalledWith(
+        [
+          expect.objectContaining({
+            status: "published",
+            source: "external",
+            final_text: "Thanks for visiting!",
+          }),
+        ],
+        { onConflict: "review_id" },
+      );
+    });
+
+    it("keeps the published text of a Replily reply and stores Google's copy", async () => {
+      const { supabase, responsesUpsert } = createSupabaseMock({
+        existing: [createExistingResponse({ final_text: "Thanks!" })],
+      });
+
+      await syncGoogleReplies(
+        supabase as never,
+        savedReviews,
+        fetchedWithReply,
+      );
+
+      expect(responsesUpsert).toHaveBeenCalledWith(
+        [
+          {
+            review_id: "review-1",
+            status: "published",
+            source: "replily",
+            final_text: "Thanks!",
+            published_at: "2025-01-01T12:00:00+00:00",
+            google_reply_text: "Thanks for visiting!",
+            google_reply_updated_at: "2025-01-02T00:00:00Z",
+          },
+        ],
+        { onConflict: "review_id" },
+      );
+    });
+
+    it("updates an external response when the reply is edited on Google", async () => {
+      const { supabase, responsesUpsert } = createSupabaseMock({
+        existing: [
+          createExistingResponse({
+            source: "external",
+            final_text: "Thanks!",
+            google_reply_text: "Thanks!",
+            google_reply_updated_at: "2025-01-01T00:00:00+00:00",
+          }),
+        ],
+      });
+
+      await syncGoogleReplies(
+        supabase as never,
+        savedReviews,
+        fetchedWithReply,
+      );
+
+      expect(responsesUpsert).toHaveBeenCalledWith(
+        [
+          expect.objectContaining({
+            source: "external",
+            final_text: "Thanks for visiting!",
+            google_reply_text: "Thanks for visiting!",
+          }),
+        ],
+        { onConflict: "review_id" },
+      );
+    });
+
+    it("skips replies that are already up to date", async () => {
+      const { supabase, responsesUpsert } = createSupabaseMock({
+        existing: [
+          createExistingResponse({
+            google_reply_text: "Thanks for visiting!",
+            google_reply_updated_at: "2025-01-02T00:00:00+00:00",
+          }),
+        ],
+      });
+
+      const result = await syncGoogleReplies(
+        supabase as never,
+        savedReviews,
+        fetchedWithReply,
+      );
+
+      expect(result).toEqual({ syncedCount: 0, error: null });
+      expect(responsesUpsert).not.toHaveBeenCalled();
+    });
+
+    it("does nothing when no fetched review has a reply", async () => {
+      const { supabase } = createSupabaseMock();
+
+      const result = await syncGoogleReplies(supabase as never, savedReviews, [
+        { external_review_id: "ext-1", reply: null },
+      ]);
+
+      expect(result).toEqual({ syncedCount: 0, error: null });
+      expect(supabase.from).not.toHaveBeenCalled();
+    });
+
+    it("returns the load error without upserting", async () => {
+      const { supabase, responsesUpsert } = createSupabaseMock({
+        loadError: { message: "Database error" },
+      });
+
+      const result = await syncGoogleReplies(
+        supabase as never,
+        savedReviews,
+        fetchedWithReply,
+      );
+
+      expect(result).toEqual({ syncedCount: 0, error: "Database error" });
+      expect(responsesUpsert).not.toHaveBeenCalled();
+    });
+
+    it("returns the upsert error", async () => {
+      const { supabase } = createSupabaseMock({
+        upsertError: { message: "Upsert failed" },
+      });
+
+      const result = await syncGoogleReplies(
+        supabase as never,
+        savedReviews,
+        fetchedWithReply,
+      );
+
+      expect(result).toEqual({ syncedCount: 0, error: "Upsert failed" });
+    });
+  });
+});
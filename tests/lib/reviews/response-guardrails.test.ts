@@ -0,0 +1,188 @@
+/**
+ * @vitest-environment node
+ */
+
+import {
+  checkResponseText,
+  findCommitments,
+  GOOGLE_REPLY_MAX_BYTES,
+  resolveGuardrailSeverities,
+} from "@/lib/reviews/response-guardrails";
+import {
+  COMMITTING_DRAFTS,
+  SAFE_DRAFTS,
+} from "@/tests/helpers/adversarial-reviews";
+import { createMockVoiceProfile } from "@/tests/helpers/fixtures";
+
+describe("lib/reviews/response-guardrails", () => {
+  const check = (
+    text: string,
+    overrides: Parameters<typeof createMockVoiceProfile>[0] = {},
+  ) =>
+    checkResponseText(text, {
+      voiceProfile: createMockVoiceProfile(overrides),
+      contactEmail: "owner@example.com",
+    });
+
+  describe("checkResponseText", () => {
+    it("passes a clean response", () => {
+      expect(
+        check("Thank you for visiting! Email owner@example.com anytime."),
+      ).toEqual([]);
+    });
+
+    it.each([
+      "Thanks [Name], see you soon!",
+      "Thanks for visiting {business_name}!",
+      "Cheers, {{ manager }}",
+      "Best, <Your Name>",
+    ])("blocks placeholder text in '%s'", (text) => {
+      expect(check(text)).toEqual([
+        {
+          check: "placeholder",
+          severity: "block",
+          message: expect.stringContaining("Placeholder text left in"),
+        },
+      ]);
+    });
+
+    it("blocks replies over Google's size limit", () => {
+      const text = "é".repeat(GOOGLE_REPLY_MAX_BYTES / 2 + 1);
+
+      expect(check(text, { max_length: null })).toEqual([
+        {
+          check: "google_length",
+          severity: "block",
+          message: `Too long for a Google reply (${GOOGLE_REPLY_MAX_BYTES + 2} of ${GOOGLE_REPLY_MAX_BYTES} bytes)`,
+        },
+      ]);
+    });
+
+    it("warns about phone numbers and emails other than the contact email", () => {
+      expect(
+        check(
+          "Call Dana on (555) 123-4567 or write to dana@gmail.com. We opened 2024-03-15.",
+        ),
+      ).toEqual([
+        {
+          check: "personal_info",
+          severity: "warning",
+          message:
+            "Contact details other than your contact email: dana@gmail.com, (555) 123-4567",
+        },
+      ]);
+    });
+
+    it("matches avoided words as whole words, ignoring case", () => {
+      expect(
+        check("Sorry for any inconvenience, and thanks again!", {
+          words_to_avoid: [
+            "sorry for any inconvenience",
+            "thank",
+            "",
+            "again!",
+          ],
+        }),
+      ).toEqual([
+        {
+          check: "words_to_avoid",
+          severity: "warning",
+          message:
+            "Words this voice avoids: sorry for any inconvenience, again!",
+        },
+      ]);
+    });
+
+    it("warns when the response is over the word limit", () => {
+      expect(check("one two three four", { max_length: 3 })).toEqual([
+        {
+          check: "max_length",
+          severity: "warning",
+          message: "4 words; the voice profile allows up to 3",
+        },
+      ]);
+    });
+
+    it("warns about commitments the voice profile doesn't allow", () => {
+      expect(
+        check(
+          "We're so sorry. This was entirely our fault; your next stay is free.",
+        ),
+      ).toEqual([
+        {
+          check: "commitments",
+          severity: "warning",
+          message:
+            'Commitments this voice doesn\'t allow: discount or freebie ("next stay is free"), admitting fault ("entirely our fault")',
+        },
+      ]);
+      expect(
+        check("This was entirely our fault.", {
+          allowed_commitments: ["liability"],
+        }),
+      ).toEqual([]);
+    });
+
+    it("uses the severities configured on the voice profile", () => {
+      expect(
+        check("one two three four", {
+          max_length: 3,
+          guardrail_severities: { max_length: "block" },
+        }),
+      ).toMatchObject([{ check: "max_length", severity: "block" }]);
+    });
+  });
+
+  describe("findCommitments", () => {
+    it.each(COMMITTING_DRAFTS)("finds a $commitment in '$text'", ({
+      text,
+      commitment,
+      detail,
+    }) => {
+      expect(findCommitments(text, [])).toEqual([{ commitment, detail }]);
+    });
+
+    it.each(SAFE_DRAFTS)("finds nothing in '%s'", (text) => {
+      expect(findCommitments(text, [])).toEqual([]);
+    });
+
+    it("skips commitments the voice profile allows", () => {
+      const text = "Your next visit is on us, and we'll refund the meal.";
+
+      expect(findCommitments(text, ["refund"])).toEqual([
+        { commitment: "discount", detail: "next visit is on us" },
+      ]);
+      expect(findCommitments(text, ["refund", "discount"])).toEqual([]);
+    });
+
+    it("matches curly apostrophes", () => {
+      expect(findCommitments("We’ll refund your ticket.", [])).toEqual([
+        { commitment: "refund", detail: "We’ll refund" },
+      ]);
+    });
+  });
+
+  describe("resolveGuardrailSeverities", () => {
+    it("ignores unknown checks and severities", () => {
+      expect(
+        resolveGuardrailSeverities({
+          personal_info: "block",
+          placeholder: "ignore",
+          tone: "block",
+        }),
+      ).toEqual({
+        placeholder: "block",
+        google_length: "block",
+        personal_info: "block",
+        commitments: "warning",
+        words_to_avoid: "warning",
+        max_length: "warning",
+      });
+    });
+
+    it("falls back to the defaults for non-object values", () => {
+      expect(resolveGuardrailSeverities(null).personal_info).toBe("warning");
+      expect(resolveGuardrailSeverities(["block"]).placeholder).toBe("block");
+    });
+  });
+});
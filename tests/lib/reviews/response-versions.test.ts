@@ -0,0 +1,122 @@
+/**
+ * @vitest-environment node
+ */
+
+import {
+  findSourceVersionId,
+  isResponseVariantStyle,
+  recordResponseVersions,
+} from "@/lib/reviews/response-versions";
+
+describe("lib/reviews/response-versions", () => {
+  describe("recordResponseVersions", () => {
+    it("saves the versions and returns their IDs", async () => {
+      const insert = vi.fn().mockReturnValue({
+        select: vi.fn().mockResolvedValue({
+          data: [{ id: "version-1" }, { id: "version-2" }],
+          error: null,
+        }),
+      });
+      const supabase = { from: vi.fn().mockReturnValue({ insert }) };
+      const versions = [
+        {
+          response_id: "resp-1",
+          review_id: "review-1",
+          kind: "generated",
+          text: "Thank you!",
+          variant_style: "balanced",
+        },
+        {
+          response_id: "resp-1",
+          review_id: "review-1",
+          kind: "generated",
+          text: "Thanks!",
+          variant_style: "short",
+        },
+      ];
+
+      const outcome = await recordResponseVersions(supabase as never, versions);
+
+      expect(outcome).toEqual({
+        versionIds: ["version-1", "version-2"],
+        error: null,
+      });
+      expect(supabase.from).toHaveBeenCalledWith("response_versions");
+      expect(insert).toHaveBeenCalledWith(versions);
+    });
+
+    it("reports a failed insert", async () => {
+      const supabase = {
+        from: vi.fn().mockReturnValue({
+          insert: vi.fn().mockReturnValue({
+            select: vi.fn().mockResolvedValue({
+              data: null,
+              error: { message: "Database error" },
+            }),
+          }),
+        }),
+      };
+
+      const outcome = await recordResponseVersions(supabase as never, []);
+
+      expect(outcome).toEqual({ versionIds: [], error: "Database error" });
+    });
+  });
+
+  describe("findSourceVersionId", () => {
+    function createMockSupabaseClient(data: { id: string } | null) {
+      const eqReview = vi.fn().mockReturnValue({
+        maybeSingle: vi.fn().mockResolvedValue({ data, error: null }),
+      });
+      const eqId = vi.fn().mockReturnValue({ eq: eqReview });
+      const supabase = {
+        from: vi.fn().mockReturnValue({
+          select: vi.fn().mockReturnValue({ eq: eqId }),
+        }),
+      };
+      return { supabase, eqId, eqReview };
+    }
+
+    it("returns a version that belongs to the review", async () => {
+      const { supabase, eqId, eqReview } = createMockSupabaseClient({
+        id: "version-1",
+      });
+
+      await expect(
+        findSourceVersionId(supabase as never, "review-1", "version-1"),
+      ).resolves.toBe("version-1");
+      expect(eqId).toHaveBeenCalledWith("id", "version-1");
+      expect(eqReview).toHaveBeenCalledWith("review_id", "review-1");
+    });
+
+    it("returns null for another review's version", async () => {
+      const { supabase } = createMockSupabaseClient(null);
+
+      await expect(
+        findSourceVersionId(supabase as never, "review-1", "version-9"),
+      ).resolves.toBeNull();
+    });
+
+    it.each([
+      undefined,
+      null,
+      "",
+      42,
+    ])("returns null without a query for %s", async (versionId) => {
+      const { supabase } = createMockSupabaseClient(null);
+
+      await expect(
+        findSourceVersionId(supabase as never, "review-1", versionId),
+      ).resolves.toBeNull();
+      expect(supabase.from).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("isResponseVariantStyle", () => {
+    it("recognizes known styles only", () => {
+      expect(isResponseVariantStyle("warm_opening")).toBe(true);
+      expect(isResponseVariantStyle("long")).toBe(false);
+      expect(isResponseVariantStyle(null)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,241 @@
+/**
+ * @vitest-environment node
+ */
+
+import {
+  findReviewEdits,
+  markMissingReviewsDeleted,
+  recordReviewChanges,
+} from "@/lib/reviews/revisions";
+import type { ReviewInsert } from "@/lib/supabase/types";
+
+function createRow(overrides: Partial<ReviewInsert> = {}): ReviewInsert {
+  return {
+    location_id: "loc-1",
+    external_review_id: "ext-1",
+    reviewer_name: "Reviewer",
+    rating: 5,
+    review_text: "Great!",
+    review_date: "2025-01-01T00:00:00Z",
+    ...overrides,
+  };
+}
+
+const stored = {
+  id: "review-1",
+  external_review_id: "ext-1",
+  rating: 5,
+  review_text: "Great!",
+};
+
+// Supabase mock that records revision inserts, response flags and review deletions
+function createSupabaseMock(
+  options: {
+    insertError?: { message: string } | null;
+    deletedReviews?: Array<{
+      id: string;
+      rating: number | null;
+      review_text: string | null;
+    }>;
+    deleteError?: { message: string } | null;
+  } = {},
+) {
+  const revisionInsert = vi
+    .fn()
+    .mockResolvedValue({ error: options.insertError ?? null });
+  const responsesStatusIn = vi.fn().mockResolvedValue({ error: null });
+  const responsesUpdate = vi.fn().mockReturnValue({
+    in: vi.fn().mockReturnValue({ in: responsesStatusIn }),
+  });
+  const deleteQuery = {
+    eq: vi.fn().mockReturnThis(),
+    is: vi.fn().mockReturnThis(),
+    or: vi.fn().mockReturnThis(),
+    select: vi.fn().mockResolvedValue({
+      data: options.deleteError ? null : (options.deletedReviews ?? []),
+      error: options.deleteError ?? null,
+    }),
+  };
+  const reviewsUpdate = vi.fn().mockReturnValue(deleteQuery);
+  const supabase = {
+    from: vi.fn((table: string) => {
+      if (table === "review_revisions") return { insert: revisionInsert };
+      if (table === "responses") return { update: responsesUpdate };
+      if (table === "reviews") return { update: reviewsUpdate };
+      return {};
+    }),
+  };
+  return {
+    supabase,
+    revisionInsert,
+    responsesUpdate,
+    responsesStatusIn,
+    reviewsUpdate,
+    deleteQuery,
+  };
+}
+
+describe("lib/reviews/revisions", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe("findReviewEdits", () => {
+    it("returns an edited revision when the rating changes", () => {
+      expect(findReviewEdits([stored], [createRow({ rating: 2 })])).toEqual([
+        {
+          review_id: "review-1",
+          change_type: "edited",
+          old_rating: 5,
+          new_rating: 2,
+          old_text: "Great!",
+          new_text: "Great!",
+        },
+      ]);
+    });
+
+    it("returns an edited revision when the text changes", () => {
+      const edits = findReviewEdits(
+        [stored],
+        [createRow({ review_text: "Actually, it was fine" })],
+      );
+
+      expect(edits).toEqual([
+        expect.objectContaining({
+          old_text: "Great!",
+          new_text: "Actually, it was fine",
+        }),
+      ]);
+    });
+
+    it("ignores unchanged and unknown reviews", () => {
+      const edits = findReviewEdits(
+        [stored],
+        [createRow(), createRow({ external_review_id: "ext-2", rating: 1 })],
+      );
+
+      expect(edits).toEqual([]);
+    });
+
+    it("treats missing and empty text as the same", () => {
+      const edits = findReviewEdits(
+        [{ ...stored, review_text: null }],
+        [createRow({ review_text: "" })],
+      );
+
+      expect(edits).toEqual([]);
+    });
+  });
+
+  describe("recordReviewChanges", () => {
+    it("records revisions and flags draft and published responses", async () => {
+      const { supabase, revisionInsert, responsesUpdate, responsesStatusIn } =
+        createSupabaseMock();
+      const revision = {
+        review_id: "review-1",
+        change_type: "edited",
+        old_rating: 5,
+        new_rating: 2,
+        old_text: "Great!",
+        new_text: "Great!",
+      };
+
+      const result = await recordReviewChanges(
+        supabase as never,
+        [revision],
+        "2025-01-02T00:00:00Z",
+      );
+
+      expect(result).toEqual({ error: null });
+      expect(revisionInsert).toHaveBeenCalledWith([
+        { ...revision, detected_at: "2025-01-02T00:00:00Z" },
+      ]);
+      expect(responsesUpdate).toHaveBeenCalledWith({
+        review_changed_at: "2025-01-02T00:00:00Z",
+      });
+      expect(responsesStatusIn).toHaveBeenCalledWith("status", [
+        "draft",
+        "published",
+      ]);
+    });
+
+    it("does nothing when there are no revisions", async () => {
+      const { supabase } = createSupabaseMock();
+
+      const result = await recordReviewChanges(
+        supabase as never,
+        [],
+        "2025-01-02T00:00:00Z",
+      );
+
+      expect(result).toEqual({ error: null });
+      expect(supabase.from).not.toHaveBeenCalled();
+    });
+
+    it("returns the insert error without flagging responses", async () => {
+      const { supabase, responsesUpdate } = createSupabaseMock({
+        insertError: { message: "Insert failed" },
+      });
+
+      const result = await recordReviewChanges(
+        supabase as never,
+        [{ review_id: "review-1", change_type: "deleted" }],
+        "2025-01-02T00:00:00Z",
+      );
+
+      expect(result).toEqual({ error: "Insert failed" });
+      expect(responsesUpdate).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("markMissingReviewsDeleted", () => {
+    it("marks reviews not seen since the complete fetch started as deleted", async () => {
+      const { supabase, reviewsUpdate, deleteQuery, revisionInsert } =
+        createSupabaseMock({
+          deletedReviews: [{ id: "review-1", rating: 4, review_text: "Nice" }],
+        });
+
+      const result = await markMissingReviewsDeleted(
+        supabase as never,
+        "loc-1",
+        "2025-01-02T00:00:00Z",
+      );
+
+      expect(result).toEqual({ deletedCount: 1, error: null });
+      expect(reviewsUpdate).toHaveBeenCalledWith({
+        status: "deleted",
+        deleted_at: expect.any(String),
+      });
+      expect(deleteQuery.eq).toHaveBeenCalledWith("location_id", "loc-1");
+      expect(deleteQuery.is).toHaveBeenCalledWith("deleted_at", null);
+      expect(deleteQuery.or).toHaveBeenCalledWith(
+        "last_seen_at.is.null,last_seen_at.lt.2025-01-02T00:00:00Z",
+      );
+      expect(revisionInsert).toHaveBeenCalledWith([
+        expect.objectContaining({
+          review_id: "review-1",
+          change_type: "deleted",
+          old_rating: 4,
+          new_rating: null,
+          old_text: "Nice",
+          new_text: null,
+        }),
+      ]);
+    });
+
+    it("returns the update error", async () => {
+      const { supabase, revisionInsert } = createSupabaseMock({
+        deleteError: { message: "Update failed" },
+      });
+
+      const result = await markMissingReviewsDeleted(
+        supabase as never,
+        "loc-1",
+        "2025-01-02T00:00:00Z",
+      );
+
+      expect(result).toEqual({ deletedCount: 0, error: "Update failed" });
+      expect(revisionInsert).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,376 @@
+/**
+ * @vitest-environment node
+ */
+
+vi.mock("@/lib/claude/client", async () => {
+  const actual = await vi.importActual<typeof import("@/lib/claude/client")>(
+    "@/lib/claude/client",
+  );
+  return {
+    ...actual,
+    generateStructuredOutput: vi.fn(),
+  };
+});
+
+vi.mock("@/lib/supabase/typed-helpers", () => ({
+  typedUpdate: vi.fn(),
+}));
+
+vi.mock("@/lib/ai/usage", () => ({
+  recordAIUsage: vi.fn(),
+}));
+
+import { recordAIUsage } from "@/lib/ai/usage";
+import {
+  ClaudeAPIError,
+  generateStructuredOutput,
+  StructuredOutputError,
+} from "@/lib/claude/client";
+import {
+  analyzeReviewSentiment,
+  classifyReviews,
+  classifyWithKeywords,
+  MIN_CLASSIFY_TIME_MS,
+  toReviewsToAnalyze,
+} from "@/lib/reviews/sentiment";
+import { typedUpdate } from "@/lib/supabase/typed-helpers";
+
+function claudeReply(results: unknown[]) {
+  return { data: { results }, tokensUsed: 100 } as never;
+}
+
+describe("lib/reviews/sentiment", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    vi.mocked(recordAIUsage).mockResolvedValue({ error: null });
+  });
+
+  describe("classifyWithKeywords", () => {
+    it("labels praise and complaints together as mixed", () => {
+      const result = classifyWithKeywords({
+        rating: 5,
+        review_text: "Lovely staff. The parking was awful though.",
+      });
+
+      expect(result.sentiment).toBe("mixed");
+      expect(result.confidence).toBe(0.5);
+      expect(result.source).toBe("keywords");
+      expect(result.aspects).toEqual([
+        { aspect: "staff", sentiment: "positive" },
+        { aspect: "parking", sentiment: "negative" },
+      ]);
+    });
+
+    it("flags sarcastic praise on a 1-star review as mixed", () => {
+      const result = classifyWithKeywords({
+        rating: 1,
+        review_text: "Great, only waited an hour.",
+      });
+
+      expect(result.sentiment).toBe("mixed");
+    });
+
+    it("raises confidence when the text agrees with the rating", () => {
+      const result = classifyWithKeywords({
+        rating: 5,
+        review_text: "Excellent service, would recommend",
+      });
+
+      expect(result.sentiment).toBe("positive");
+      expect(result.confidence).toBe(0.7);
+    });
+
+    it("treats negated praise as negative", () => {
+      const result = classifyWithKeywords({
+        rating: null,
+        review_text: "The food was not good",
+      });
+
+      expect(result.sentiment).toBe("negative");
+      expect(result.aspects).toEqual([
+        { aspect: "product", sentiment: "negative" },
+      ]);
+    });
+
+    it.each([
+      { rating: 5, expected: "positive", confidence: 0.6 },
+      { rating: 3, expected: "neutral", confidence: 0.6 },
+      { rating: 1, expected: "negative", confidence: 0.6 },
+      { rating: null, expected: "neutral", confidence: 0.3 },
+    ])("falls back to the rating ($rating) when the text has no signal", ({
+      rating,
+      expected,
+      confidence,
+    }) => {
+      const result = classifyWithKeywords({ rating, review_text: null });
+
+      expect(result.sentiment).toBe(expected);
+      expect(result.confidence).toBe(confidence);
+      expect(result.aspects).toEqual([]);
+    });
+  });
+
+  describe("classifyReviews", () => {
+    const reviews = [
+      { id: "r-1", rating: 5, review_text: "Great food, rude waiter" },
+      { id: "r-2", rating: 4, review_text: null },
+      { id: "r-3", rating: 1, review_text: "Never again" },
+    ];
+
+    it("uses Claude's classification for reviews with text", async () => {
+      vi.mocked(generateStructuredOutput).mockResolvedValue(
+        claudeReply([
+          {
+            index: 0,
+            sentiment: "mixed",
+            confidence: 0.9,
+            aspects: [
+              { aspect: "product", sentiment: "positive" },
+              { aspect: "staff", sentiment: "negative" },
+              { aspect: "unknown", sentiment: "negative" },
+            ],
+          },
+          { index: 1, sentiment: "negative", confidence: 0.8, aspects: [] },
+        ]),
+      );
+
+      const { analyses: results } = await classifyReviews(reviews);
+
+      expect(generateStructuredOutput).toHaveBeenCalledTimes(1);
+      const [, userPrompt, , options] =
+        vi.mocked(generateStructuredOutput).mock.calls[0] ?? [];
+      expect(userPrompt).toContain("Great food, rude waiter");
+      expect(userPrompt).not.toContain('"index": 2');
+      expect(options).toEqual({
+        task: "sentiment",
+        name: "sentiment_classification",
+        description: expect.any(String),
+        maxTokens: 1500,
+      });
+      expect(results[0]).toEqual({
+        sentiment: "mixed",
+        confidence: 0.9,
+        aspects: [
+          { aspect: "product", sentiment: "positive" },
+          { aspect: "staff", sentiment: "negative" },
+        ],
+        source: "ai",
+      });
+      expect(results[1]).toMatchObject({
+        sentiment: "positive",
+        source: "keywords",
+      });
+      expect(results[2]).toMatchObject({
+        sentiment: "negative",
+        confidence: 0.8,
+        source: "ai",
+      });
+    });
+
+    it("falls back to keywords for reviews Claude leaves out", async () => {
+      vi.mocked(generateStructuredOutput).mockResolvedValue(
+        claudeReply([
+          { index: 0, sentiment: "mixed", confidence: 0.9, aspects: [] },
+        ]),
+      );
+
+      const { analyses: results } = await classifyReviews(reviews);
+
+      expect(results[2]?.source).toBe("keywords");
+    });
+
+    it("falls back to keywords when Claude is unavailable", async () => {
+      vi.mocked(generateStructuredOutput).mockRejectedValue(
+        new ClaudeAPIError(503, "Claude API request failed"),
+      );
+
+      const { analyses: results } = await classifyReviews(reviews);
+
+      expect(results.map((r) => r.source)).toEqual([
+        "keywords",
+        "keywords",
+        "keywords",
+      ]);
+      expect(results[0]?.sentiment).toBe("mixed");
+    });
+
+    it("falls back to keywords when Claude's corrected reply is still invalid", async () => {
+      vi.mocked(generateStructuredOutput).mockRejectedValue(
+        new StructuredOutputError(
+          502,
+          "Unexpected sentiment_classification reply",
+          240,
+        ),
+      );
+
+      const { analyses: results, tokensUsed } = await classifyReviews(reviews);
+
+      expect(results.every((r) => r.source === "keywords")).toBe(true);
+      expect(tokensUsed).toBe(240);
+    });
+
+    it("validates Claude's reply against the classification schema", async () => {
+      vi.mocked(generateStructuredOutput).mockResolvedValue(claudeReply([]));
+
+      await classifyReviews(reviews);
+
+      const [, , schema] =
+        vi.mocked(generateStructuredOutput).mock.calls[0] ?? [];
+      expect(
+        schema?.safeParse({
+          results: [{ index: 0, sentiment: "mixed", confidence: 0.9 }],
+        }),
+      ).toEqual({
+        success: true,
+        data: {
+          results: [
+            { index: 0, sentiment: "mixed", confidence: 0.9, aspects: [] },
+          ],
+        },
+      });
+      expect(
+        schema?.safeParse({
+          results: [{ index: 0, sentiment: "angry", confidence: 2 }],
+        }).success,
+      ).toBe(false);
+      expect(schema?.safeParse({ sentiment: "positive" }).success).toBe(false);
+    });
+
+    it("sends reviews to Claude in batches of 20", async () => {
+      vi.mocked(generateStructuredOutput).mockResolvedValue(claudeReply([]));
+      const many = Array.from({ length: 45 }, (_, i) => ({
+        id: `r-${i}`,
+        rating: 5,
+        review_text: "Great",
+      }));
+
+      const { tokensUsed } = await classifyReviews(many);
+
+      expect(generateStructuredOutput).toHaveBeenCalledTimes(3);
+      expect(tokensUsed).toBe(300);
+    });
+
+    it("passes the caller's deadline to Claude", async () => {
+      vi.mocked(generateStructuredOutput).mockResolvedValue(claudeReply([]));
+      const deadline = Date.now() + 60000;
+
+      await classifyReviews(reviews, { deadline });
+
+      const [, , , options] =
+        vi.mocked(generateStructuredOutput).mock.calls[0] ?? [];
+      expect(options?.deadline).toBe(deadline);
+    });
+
+    it("uses keywords without calling Claude when the deadline is too close", async () => {
+      const { analyses: results, tokensUsed } = await classifyReviews(reviews, {
+        deadline: Date.now() + MIN_CLASSIFY_TIME_MS - 1000,
+      });
+
+      expect(generateStructuredOutput).not.toHaveBeenCalled();
+      expect(results.map((r) => r.source)).toEqual([
+        "keywords",
+        "keywords",
+        "keywords",
+      ]);
+      expect(tokensUsed).toBe(0);
+    });
+
+    it("does not call Claude when no review has text", async () => {
+      const { analyses: results, tokensUsed } = await classifyReviews([
+        { id: "r-1", rating: 2, review_text: "  " },
+      ]);
+
+      expect(generateStructuredOutput).not.toHaveBeenCalled();
+      expect(results[0]?.sentiment).toBe("negative");
+      expect(tokensUsed).toBe(0);
+    });
+  });
+
+  describe("toReviewsToAnalyze", () => {
+    it("pairs upserted ids with the rows they came from", () => {
+      expect(
+        toReviewsToAnalyze(
+          [{ id: "review-1", external_review_id: "ext-1" }],
+          [
+            {
+              external_review_id: "ext-1",
+              rating: 2,
+              review_text: "Slow",
+            },
+          ],
+        ),
+      ).toEqual([{ id: "review-1", rating: 2, review_text: "Slow" }]);
+    });
+  });
+
+  describe("analyzeReviewSentiment", () => {
+    it("stores each review's classification", async () => {
+      const eq = vi.fn().mockResolvedValue({ error: null });
+      vi.mocked(typedUpdate).mockReturnValue({ eq } as never);
+      vi.mocked(generateStructuredOutput).mockResolvedValue(
+        claudeReply([
+          {
+            index: 0,
+            sentiment: "mixed",
+            confidence: 0.876,
+            aspects: [{ aspect: "parking", sentiment: "negative" }],
+          },
+        ]),
+      );
+
+      const outcome = await analyzeReviewSentiment(
+        {} as never,
+        [{ id: "review-1", rating: 5, review_text: "Parking was awful" }],
+        "org-1",
+      );
+
+      expect(outcome).toEqual({
+        analyses: [expect.objectContaining({ sentiment: "mixed" })],
+        analyzedCount: 1,
+        error: null,
+      });
+      expect(typedUpdate).toHaveBeenCalledWith({}, "reviews", {
+        sentiment: "mixed",
+        sentiment_confidence: 0.88,
+        sentiment_source: "ai",
+        sentiment_aspects: [{ aspect: "parking", sentiment: "negative" }],
+        sentiment_analyzed_at: expect.any(String),
+      });
+      expect(eq).toHaveBeenCalledWith("id", "review-1");
+      expect(recordAIUsage).toHaveBeenCalledWith({}, [
+        {
+          organizationId: "org-1",
+          userId: null,
+          task: "sentiment",
+          model: null,
+          tokensUsed: 100,
+        },
+      ]);
+    });
+
+    it("reports failed updates", async () => {
+      vi.mocked(typedUpdate).mockReturnValue({
+        eq: vi.fn().mockResolvedValue({ error: { message: "Database error" } }),
+      } as never);
+
+      const outcome = await analyzeReviewSentiment(
+        {} as never,
+        [{ id: "review-1", rating: 4, review_text: null }],
+        "org-1",
+      );
+
+      expect(outcome).toMatchObject({
+        analyzedCount: 0,
+        error: "Database error",
+      });
+    });
+
+    it("does nothing for an empty list", async () => {
+      const outcome = await analyzeReviewSentiment({} as never, [], "org-1");
+
+      expect(outcome).toEqual({ analyses: [], analyzedCount: 0, error: null });
+      expect(typedUpdate).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,219 @@
+/**
+ * @vitest-environment node
+ */
+
+import {
+  extractReviewTags,
+  isAspectTag,
+  isValidTag,
+  listTagOptions,
+  tagReviews,
+  toTagSlug,
+} from "@/lib/reviews/tags";
+
+const patioTag = {
+  tag: "patio",
+  label: "Patio",
+  keywords: ["patio", "outdoor seating"],
+};
+
+// Supabase mock for the organization_tags read and review_tags delete/insert
+function createSupabaseMock(
+  options: {
+    organizationTags?: Array<typeof patioTag>;
+    tagsError?: { message: string } | null;
+    deleteError?: { message: string } | null;
+    insertError?: { message: string } | null;
+  } = {},
+) {
+  const tagsEq = vi.fn().mockResolvedValue({
+    data: options.organizationTags ?? [],
+    error: options.tagsError ?? null,
+  });
+  const deleteIn = vi
+    .fn()
+    .mockResolvedValue({ error: options.deleteError ?? null });
+  const insert = vi
+    .fn()
+    .mockResolvedValue({ error: options.insertError ?? null });
+  const supabase = {
+    from: vi.fn((table: string) => {
+      if (table === "organization_tags") {
+        return { select: vi.fn().mockReturnValue({ eq: tagsEq }) };
+      }
+      return {
+        delete: vi.fn().mockReturnValue({ in: deleteIn }),
+        insert,
+      };
+    }),
+  };
+  return { supabase, tagsEq, deleteIn, insert };
+}
+
+describe("lib/reviews/tags", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe("toTagSlug", () => {
+    it.each([
+      { label: "Outdoor Seating", expected: "outdoor_seating" },
+      { label: "  Kids' menu!  ", expected: "kids_menu" },
+      { label: "Wi-Fi 2.0", expected: "wi_fi_2_0" },
+      { label: "!!!", expected: "" },
+    ])("turns $label into $expected", ({ label, expected }) => {
+      expect(toTagSlug(label)).toBe(expected);
+    });
+  });
+
+  describe("isValidTag", () => {
+    it.each([
+      { value: "wait_time", expected: true },
+      { value: "patio2", expected: true },
+      { value: "Wait Time", expected: false },
+      { value: "", expected: false },
+      { value: "a".repeat(51), expected: false },
+    ])("returns $expected for '$value'", ({ value, expected }) => {
+      expect(isValidTag(value)).toBe(expected);
+    });
+  });
+
+  describe("isAspectTag", () => {
+    it("recognizes built-in aspect tags only", () => {
+      expect(isAspectTag("parking")).toBe(true);
+      expect(isAspectTag("patio")).toBe(false);
+      expect(isAspectTag("toString")).toBe(false);
+    });
+  });
+
+  describe("listTagOptions", () => {
+    it("lists built-in tags followed by the organization's tags by label", () => {
+      const options = listTagOptions([
+        { tag: "wifi", label: "Wi-Fi", keywords: [] },
+        patioTag,
+      ]);
+
+      expect(options[0]).toEqual({ tag: "staff", label: "Staff" });
+      expect(options.slice(-2)).toEqual([
+        { tag: "patio", label: "Patio" },
+        { tag: "wifi", label: "Wi-Fi" },
+      ]);
+    });
+  });
+
+  describe("extractReviewTags", () => {
+    it("tags aspects from the analysis and organization tags by keyword", () => {
+      const tags = extractReviewTags(
+        "Loved the outdoor seating, but the parking was awful",
+        { aspects: [{ aspect: "parking", sentiment: "negative" }] },
+        [patioTag],
+      );
+
+      expect(tags).toEqual([
+        { tag: "parking", source: "aspect" },
+        { tag: "patio", source: "organization" },
+      ]);
+    });
+
+    it("matches whole words only", () => {
+      expect(
+        extractReviewTags("Great patisserie", { aspects: [] }, [patioTag]),
+      ).toEqual([]);
+    });
+
+    it("returns no organization tags for reviews without text", () => {
+      expect(extractReviewTags(null, { aspects: [] }, [patioTag])).toEqual([]);
+    });
+  });
+
+  describe("tagReviews", () => {
+    const reviews = [
+      { id: "review-1", rating: 5, review_text: "Sat on the patio" },
+      { id: "review-2", rating: 4, review_text: null },
+    ];
+    const analyses = [
+      {
+        sentiment: "positive" as const,
+        confidence: 0.9,
+        aspects: [
+          { aspect: "atmosphere" as const, sentiment: "positive" as const },
+        ],
+        source: "ai" as const,
+      },
+      {
+        sentiment: "positive" as const,
+        confidence: 0.6,
+        aspects: [],
+        source: "keywords" as const,
+      },
+    ];
+
+    it("replaces the reviews' tags", async () => {
+      const { supabase, tagsEq, deleteIn, insert } = createSupabaseMock({
+        organizationTags: [patioTag],
+      });
+
+      const outcome = await tagReviews(
+        supabase as never,
+        "org-1",
+        reviews,
+        analyses,
+      );
+
+      expect(outcome).toEqual({ error: null });
+      expect(tagsEq).toHaveBeenCalledWith("organization_id", "org-1");
+      expect(deleteIn).toHaveBeenCalledWith("review_id", [
+        "review-1",
+        "review-2",
+      ]);
+      expect(insert).toHaveBeenCalledWith([
+        { review_id: "review-1", tag: "atmosphere", source: "aspect" },
+        { review_id: "review-1", tag: "patio", source: "organization" },
+      ]);
+    });
+
+    it("only clears tags when no review has any", async () => {
+      const { supabase, deleteIn, insert } = createSupabaseMock();
+
+      const outcome = await tagReviews(
+        supabase as never,
+        "org-1",
+        [reviews[1] as (typeof reviews)[number]],
+        [analyses[1] as (typeof analyses)[number]],
+      );
+
+      expect(outcome).toEqual({ error: null });
+      expect(deleteIn).toHaveBeenCalled();
+      expect(insert).not.toHaveBeenCalled();
+    });
+
+    it.each([
+      { failure: "tagsError" },
+      { failure: "deleteError" },
+      { failure: "insertError" },
+    ])("returns the error when the $failure step fails", async ({
+      failure,
+    }) => {
+      const { supabase } = createSupabaseMock({
+        [failure]: { message: "Database error" },
+      });
+
+      const outcome = await tagReviews(
+        supabase as never,
+        "org-1",
+        reviews,
+        analyses,
+      );
+
+      expect(outcome).toEqual({ error: "Database error" });
+    });
+
+    it("does nothing for an empty list", async () => {
+      const { supabase } = createSupabaseMock();
+
+      await tagReviews(supabase as never, "org-1", [], []);
+
+      expect(supabase.from).not.toHaveBeenCalled();
+    });
+  });
+});
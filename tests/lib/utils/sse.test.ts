@@ -0,0 +1,63 @@
+/**
+ * @vitest-environment node
+ */
+
+import { formatServerSentEvent, readServerSentEvents } from "@/lib/utils/sse";
+
+function streamOf(chunks: string[]): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (const chunk of chunks) {
+        controller.enqueue(encoder.encode(chunk));
+      }
+      controller.close();
+    },
+  });
+}
+
+async function collect(chunks: string[]) {
+  const events = [];
+  for await (const event of readServerSentEvents(streamOf(chunks))) {
+    events.push(event);
+  }
+  return events;
+}
+
+describe("lib/utils/sse", () => {
+  it("formatServerSentEvent encodes a named event with JSON data", () => {
+    expect(formatServerSentEvent("text", { text: "Hi" })).toBe(
+      'event: text\ndata: {"text":"Hi"}\n\n',
+    );
+  });
+
+  it("readServerSentEvents reads events split across chunks", async () => {
+    await expect(
+      collect(["event: text\nda", 'ta: {"text":"Hi"}\n', "\nevent: done\n"]),
+    ).resolves.toEqual([{ event: "text", data: '{"text":"Hi"}' }]);
+  });
+
+  it("readServerSentEvents reads a final event without a trailing blank line", async () => {
+    await expect(collect(["event: done\ndata: {}"])).resolves.toEqual([
+      { event: "done", data: "{}" },
+    ]);
+  });
+
+  it("readServerSentEvents joins data lines, defaults the name, and skips comments", async () => {
+    await expect(
+      collect([": keep-alive\n\ndata: one\r\ndata: two\r\n\r\n"]),
+    ).resolves.toEqual([{ event: "message", data: "one\ntwo" }]);
+  });
+
+  it("readServerSentEvents round-trips formatted events", async () => {
+    await expect(
+      collect([
+        formatServerSentEvent("text", { text: "line\nbreak" }),
+        formatServerSentEvent("done", { id: "response-1" }),
+      ]),
+    ).resolves.toEqual([
+      { event: "text", data: '{"text":"line\\nbreak"}' },
+      { event: "done", data: '{"id":"response-1"}' },
+    ]);
+  });
+});